@@ -0,0 +1,86 @@
+// Local mock of the Correios API used by calculate-shipping and sync-tracking.
+//
+// Run:   deno run --allow-net scripts/correios-mock.ts
+// Then:  CORREIOS_API_URL=http://host.docker.internal:8787 supabase functions serve
+//
+// Tracking codes:
+//   DE...BR  -> delivered (posted, in transit, out for delivery, delivered)
+//   NF...BR  -> object not found
+//   anything else -> in transit
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const PORT = Number(Deno.env.get("PORT") || 8787);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const hoursAgo = (hours: number) => {
+  // Correios format: local time without offset
+  const date = new Date(Date.now() - hours * 3600 * 1000 - 3 * 3600 * 1000);
+  return date.toISOString().substring(0, 19);
+};
+
+const unidade = (cidade: string, uf: string, tipo = "Unidade de Tratamento") => ({
+  tipo,
+  endereco: { cidade, uf },
+});
+
+const rastro = (codObjeto: string) => {
+  if (codObjeto.startsWith("NF")) {
+    return { objetos: [{ codObjeto, mensagem: "SRO-020: Objeto não encontrado na base de dados dos Correios." }] };
+  }
+
+  const eventos = [
+    { codigo: "RO", tipo: "01", dtHrCriado: hoursAgo(30), descricao: "Objeto em transferência - por favor aguarde", unidade: unidade("Recife", "PE") },
+    { codigo: "PO", tipo: "01", dtHrCriado: hoursAgo(48), descricao: "Objeto postado", unidade: unidade("Recife", "PE", "Agência dos Correios") },
+  ];
+
+  if (codObjeto.startsWith("DE")) {
+    eventos.unshift(
+      { codigo: "BDE", tipo: "01", dtHrCriado: hoursAgo(1), descricao: "Objeto entregue ao destinatário", unidade: unidade("São Paulo", "SP", "Unidade de Distribuição") },
+      { codigo: "OEC", tipo: "01", dtHrCriado: hoursAgo(6), descricao: "Objeto saiu para entrega ao destinatário", unidade: unidade("São Paulo", "SP", "Unidade de Distribuição") },
+    );
+  }
+
+  return { objetos: [{ codObjeto, eventos }] };
+};
+
+serve(async (req) => {
+  const url = new URL(req.url);
+  console.log(`[CORREIOS-MOCK] ${req.method} ${url.pathname}`);
+
+  if (req.method === "POST" && url.pathname === "/token/v1/autentica/cartaopostagem") {
+    return json({
+      ambiente: "MOCK",
+      id: "mock",
+      token: "mock-token",
+      expiraEm: new Date(Date.now() + 3600 * 1000).toISOString(),
+    });
+  }
+
+  if (req.method === "POST" && url.pathname === "/preco/v1/nacional") {
+    const { cdServico = [] } = await req.json();
+    return json((cdServico as string[]).map((coProduto, index) => ({
+      coProduto,
+      pcBase: "0,00",
+      pcBaseGeral: "0,00",
+      pcFinal: (19.9 + index * 15).toFixed(2).replace(".", ","),
+    })));
+  }
+
+  if (req.method === "POST" && url.pathname === "/prazo/v1/nacional") {
+    const { cdServico = [] } = await req.json();
+    return json((cdServico as string[]).map((coProduto, index) => ({
+      coProduto,
+      prazoEntrega: Math.max(2, 8 - index * 5),
+      dataMaxima: "",
+    })));
+  }
+
+  const rastroMatch = url.pathname.match(/^\/srorastro\/v1\/objetos\/([^/]+)$/);
+  if (req.method === "GET" && rastroMatch) {
+    return json(rastro(decodeURIComponent(rastroMatch[1]).toUpperCase()));
+  }
+
+  return json({ msgs: ["Not found"] }, 404);
+}, { port: PORT });
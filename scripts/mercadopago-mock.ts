@@ -0,0 +1,158 @@
+// Local mock of the Mercado Pago API used by create-pix-charge, mercadopago-webhook
+// and refund-order (Pix payments only; the hosted checkout is not mocked).
+//
+// Run:   deno run --allow-net --allow-env scripts/mercadopago-mock.ts
+// Then:  MERCADOPAGO_API_URL=http://host.docker.internal:8788 supabase functions serve
+//
+// Payments are kept in memory. To simulate the customer:
+//   POST /mock/payments/<id>/approve  -> approved, notifies the webhook
+//   POST /mock/payments/<id>/expire   -> cancelled (expired), notifies the webhook
+// A pending payment past date_of_expiration is reported as expired on the next GET.
+// WEBHOOK_URL overrides notification_url (the functions see SUPABASE_URL as an
+// internal docker host), e.g. http://localhost:54321/functions/v1/mercadopago-webhook
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const PORT = Number(Deno.env.get("PORT") || 8788);
+const WEBHOOK_URL = Deno.env.get("WEBHOOK_URL");
+
+interface MockPayment {
+  id: number;
+  status: string;
+  status_detail: string;
+  transaction_amount: number;
+  description: string;
+  payment_method_id: string;
+  payment_type_id: string;
+  external_reference: string;
+  notification_url: string | null;
+  date_of_expiration: string;
+  date_created: string;
+  date_approved: string | null;
+  point_of_interaction: {
+    transaction_data: { qr_code: string; qr_code_base64: string | null };
+  };
+}
+
+const payments = new Map<number, MockPayment>();
+const idempotencyKeys = new Map<string, number>();
+let nextId = 1000000001;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+// Not a valid BR Code CRC, but the same shape as a real copia-e-cola
+const pixCode = (id: number, amount: number) => {
+  const value = amount.toFixed(2);
+  return `00020126580014br.gov.bcb.pix0136mock-${id}52040000530398654${String(value.length).padStart(2, "0")}${value}` +
+    "5802BR5910CALIBRASIL6006RECIFE62070503***6304MOCK";
+};
+
+const refreshExpiration = (payment: MockPayment) => {
+  if (payment.status === "pending" && new Date(payment.date_of_expiration) < new Date()) {
+    payment.status = "cancelled";
+    payment.status_detail = "expired";
+  }
+  return payment;
+};
+
+// Same shape as the real IPN: query params + JSON body
+const notify = async (payment: MockPayment) => {
+  const target = WEBHOOK_URL || payment.notification_url;
+  if (!target) return;
+  const url = new URL(target);
+  url.searchParams.set("type", "payment");
+  url.searchParams.set("data.id", String(payment.id));
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "payment.updated", type: "payment", data: { id: String(payment.id) } }),
+    });
+    console.log(`[MERCADOPAGO-MOCK] Webhook ${payment.id} -> ${response.status}`);
+  } catch (err) {
+    console.error(`[MERCADOPAGO-MOCK] Webhook ${payment.id} failed:`, err);
+  }
+};
+
+serve(async (req) => {
+  const url = new URL(req.url);
+  console.log(`[MERCADOPAGO-MOCK] ${req.method} ${url.pathname}`);
+
+  if (req.method === "POST" && url.pathname === "/v1/payments") {
+    const key = req.headers.get("X-Idempotency-Key");
+    if (key && idempotencyKeys.has(key)) {
+      return json(payments.get(idempotencyKeys.get(key)!), 201);
+    }
+
+    const body = await req.json();
+    if (body.payment_method_id !== "pix") {
+      return json({ message: "Only pix is supported by the mock", status: 400 }, 400);
+    }
+
+    const id = nextId++;
+    const amount = Number(body.transaction_amount);
+    const payment: MockPayment = {
+      id,
+      status: "pending",
+      status_detail: "pending_waiting_transfer",
+      transaction_amount: amount,
+      description: body.description || "",
+      payment_method_id: "pix",
+      payment_type_id: "bank_transfer",
+      external_reference: body.external_reference || "",
+      notification_url: body.notification_url || null,
+      date_of_expiration: body.date_of_expiration || new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+      date_created: new Date().toISOString(),
+      date_approved: null,
+      point_of_interaction: {
+        transaction_data: { qr_code: pixCode(id, amount), qr_code_base64: null },
+      },
+    };
+
+    payments.set(id, payment);
+    if (key) idempotencyKeys.set(key, id);
+    // Mercado Pago also notifies on creation
+    notify(payment);
+    return json(payment, 201);
+  }
+
+  const paymentMatch = url.pathname.match(/^\/v1\/payments\/(\d+)$/);
+  if (req.method === "GET" && paymentMatch) {
+    const payment = payments.get(Number(paymentMatch[1]));
+    return payment ? json(refreshExpiration(payment)) : json({ message: "Payment not found", status: 404 }, 404);
+  }
+
+  const refundMatch = url.pathname.match(/^\/v1\/payments\/(\d+)\/refunds$/);
+  if (req.method === "POST" && refundMatch) {
+    const payment = payments.get(Number(refundMatch[1]));
+    if (!payment || payment.status !== "approved") {
+      return json({ message: "Payment not refundable", status: 400 }, 400);
+    }
+    const { amount } = await req.json().catch(() => ({}));
+    if (!amount || Number(amount) >= payment.transaction_amount) {
+      payment.status = "refunded";
+      payment.status_detail = "refunded";
+    }
+    notify(payment);
+    return json({ id: nextId++, payment_id: payment.id, amount: amount ?? payment.transaction_amount, status: "approved" }, 201);
+  }
+
+  const actionMatch = url.pathname.match(/^\/mock\/payments\/(\d+)\/(approve|expire)$/);
+  if (req.method === "POST" && actionMatch) {
+    const payment = payments.get(Number(actionMatch[1]));
+    if (!payment) return json({ message: "Payment not found", status: 404 }, 404);
+
+    if (actionMatch[2] === "approve") {
+      payment.status = "approved";
+      payment.status_detail = "accredited";
+      payment.date_approved = new Date().toISOString();
+    } else {
+      payment.status = "cancelled";
+      payment.status_detail = "expired";
+    }
+    await notify(payment);
+    return json(payment);
+  }
+
+  return json({ message: "Not found", status: 404 }, 404);
+}, { port: PORT });
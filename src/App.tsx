@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { CartProvider } from "@/contexts/CartContext";
+import { CompareProvider } from "@/contexts/CompareContext";
 import { AuthProvider } from "@/hooks/useAuth";
 import { WishlistProvider } from "@/hooks/useWishlist";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
@@ -17,6 +18,7 @@ import Index from "./pages/Index";
 const Shop = lazy(() => import("./pages/Shop"));
 const ProductDetail = lazy(() => import("./pages/ProductDetail"));
 const Cart = lazy(() => import("./pages/Cart"));
+const CartRecovery = lazy(() => import("./pages/CartRecovery"));
 const Checkout = lazy(() => import("./pages/Checkout"));
 const OrderConfirmation = lazy(() => import("./pages/OrderConfirmation"));
 const Auth = lazy(() => import("./pages/Auth"));
@@ -26,6 +28,7 @@ const FAQ = lazy(() => import("./pages/FAQ"));
 const Shipping = lazy(() => import("./pages/Shipping"));
 const Returns = lazy(() => import("./pages/Returns"));
 const Wishlist = lazy(() => import("./pages/Wishlist"));
+const Compare = lazy(() => import("./pages/Compare"));
 const Profile = lazy(() => import("./pages/Profile"));
 const OrderDetail = lazy(() => import("./pages/OrderDetail"));
 const MyOrders = lazy(() => import("./pages/MyOrders"));
@@ -47,6 +50,7 @@ const Reports = lazy(() => import("./pages/admin/Reports"));
 const Settings = lazy(() => import("./pages/admin/Settings"));
 const Roadmap = lazy(() => import("./pages/admin/Roadmap"));
 const Coupons = lazy(() => import("./pages/admin/Coupons"));
+const Promotions = lazy(() => import("./pages/admin/Promotions"));
 const Categories = lazy(() => import("./pages/admin/Categories"));
 const EmailTemplates = lazy(() => import("./pages/admin/EmailTemplates"));
 const Sellers = lazy(() => import("./pages/admin/Sellers"));
@@ -54,9 +58,12 @@ const OrderMonitor = lazy(() => import("./pages/admin/OrderMonitor"));
 const Diagnostic = lazy(() => import("./pages/admin/Diagnostic"));
 const EmailTests = lazy(() => import("./pages/admin/EmailTests"));
 const Reviews = lazy(() => import("./pages/admin/Reviews"));
+const Questions = lazy(() => import("./pages/admin/Questions"));
 const Stock = lazy(() => import("./pages/admin/Stock"));
 const ShippingLabelPage = lazy(() => import("./pages/admin/ShippingLabelPage"));
 const ShippingLabels = lazy(() => import("./pages/admin/ShippingLabels"));
+const ReturnRequests = lazy(() => import("./pages/admin/ReturnRequests"));
+const BackInStockDemand = lazy(() => import("./pages/admin/BackInStockDemand"));
 
 const queryClient = new QueryClient();
 
@@ -67,6 +74,7 @@ const App = () => (
         <AuthProvider>
           <WishlistProvider>
             <CartProvider>
+            <CompareProvider>
               <Toaster />
               <Sonner />
               <BrowserRouter>
@@ -77,6 +85,7 @@ const App = () => (
                   <Route path="/shop" element={<Shop />} />
                   <Route path="/product/:id" element={<ProductDetail />} />
                   <Route path="/cart" element={<Cart />} />
+                  <Route path="/cart/recover" element={<CartRecovery />} />
                   <Route path="/checkout" element={<Checkout />} />
                   <Route path="/order-confirmation" element={<OrderConfirmation />} />
                   <Route path="/auth" element={<Auth />} />
@@ -91,6 +100,7 @@ const App = () => (
                   <Route path="/review/:productId" element={<Review />} />
                   <Route path="/avaliar" element={<Avaliar />} />
                   <Route path="/wishlist" element={<Wishlist />} />
+                  <Route path="/compare" element={<Compare />} />
                   <Route
                     path="/profile"
                     element={
@@ -127,12 +137,14 @@ const App = () => (
                   <Route index element={<Dashboard />} />
                   <Route path="products" element={<Products />} />
                   <Route path="stock" element={<Stock />} />
+                  <Route path="back-in-stock" element={<BackInStockDemand />} />
                   <Route path="orders" element={<Orders />} />
                   <Route path="monitor" element={<OrderMonitor />} />
                   <Route path="customers" element={<Customers />} />
                   <Route path="payments" element={<Payments />} />
                   <Route path="reports" element={<Reports />} />
                   <Route path="coupons" element={<Coupons />} />
+                  <Route path="promotions" element={<Promotions />} />
                   <Route path="sellers" element={<Sellers />} />
                   <Route path="categories" element={<Categories />} />
                   <Route path="email-templates" element={<EmailTemplates />} />
@@ -141,7 +153,9 @@ const App = () => (
                   <Route path="diagnostic" element={<Diagnostic />} />
                   <Route path="email-tests" element={<EmailTests />} />
                   <Route path="reviews" element={<Reviews />} />
+                  <Route path="questions" element={<Questions />} />
                   <Route path="shipping-labels" element={<ShippingLabels />} />
+                  <Route path="returns" element={<ReturnRequests />} />
                   <Route path="shipping-label/:orderId" element={<ShippingLabelPage />} />
                 </Route>
                 
@@ -150,6 +164,7 @@ const App = () => (
                 </Routes>
               </Suspense>
             </BrowserRouter>
+            </CompareProvider>
           </CartProvider>
         </WishlistProvider>
       </AuthProvider>
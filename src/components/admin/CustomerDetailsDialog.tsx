@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { User, Loader2, Trash2, Package, Calendar, Phone, Mail } from 'lucide-react';
+import { User, Loader2, Trash2, Package, Calendar, Phone, Mail, Award } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { fetchLoyaltySummary, fetchLoyaltyTransactions, LOYALTY_TRANSACTION_LABELS } from '@/hooks/useLoyalty';
 import { toast } from 'sonner';
 import {
   Dialog,
@@ -65,7 +66,7 @@ const getStatusVariant = (status: string) => {
 };
 
 export function CustomerDetailsDialog({ customer, open, onOpenChange }: CustomerDetailsDialogProps) {
-  const { isAdmin } = useAuth();
+  const { isAdmin, isManager } = useAuth();
   const queryClient = useQueryClient();
   
   const [isEditing, setIsEditing] = useState(false);
@@ -74,6 +75,8 @@ export function CustomerDetailsDialog({ customer, open, onOpenChange }: Customer
   const [editedEmail, setEditedEmail] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [adjustPoints, setAdjustPoints] = useState<number | ''>('');
+  const [adjustReason, setAdjustReason] = useState('');
 
   // Fetch customer email
   const { data: customerEmail, isLoading: loadingEmail } = useQuery({
@@ -110,6 +113,57 @@ export function CustomerDetailsDialog({ customer, open, onOpenChange }: Customer
     enabled: !!customer?.user_id && open,
   });
 
+  // Fetch loyalty balance and latest ledger entries
+  const { data: loyaltySummary } = useQuery({
+    queryKey: ['loyalty-summary', customer?.user_id],
+    queryFn: () => fetchLoyaltySummary(customer!.user_id),
+    enabled: !!customer?.user_id && open,
+  });
+
+  const { data: loyaltyTransactions = [] } = useQuery({
+    queryKey: ['loyalty-transactions', customer?.user_id],
+    queryFn: () => fetchLoyaltyTransactions(customer!.user_id, 5),
+    enabled: !!customer?.user_id && open,
+  });
+
+  // Manual points adjustment (logged in the ledger and audit log)
+  const adjustPointsMutation = useMutation({
+    mutationFn: async ({ points, reason }: { points: number; reason: string }) => {
+      if (!customer?.user_id) throw new Error('No customer');
+
+      const { error } = await supabase.rpc('adjust_loyalty_points', {
+        p_user_id: customer.user_id,
+        p_points: points,
+        p_reason: reason,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Pontos ajustados!');
+      setAdjustPoints('');
+      setAdjustReason('');
+      queryClient.invalidateQueries({ queryKey: ['loyalty-summary', customer?.user_id] });
+      queryClient.invalidateQueries({ queryKey: ['loyalty-transactions', customer?.user_id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message?.includes('Insufficient points') ? 'Saldo de pontos insuficiente' : 'Erro ao ajustar pontos');
+    },
+  });
+
+  const handleAdjustPoints = () => {
+    if (adjustPoints === '' || adjustPoints === 0) {
+      toast.error('Informe a quantidade de pontos');
+      return;
+    }
+    if (!adjustReason.trim()) {
+      toast.error('Informe o motivo do ajuste');
+      return;
+    }
+
+    adjustPointsMutation.mutate({ points: Number(adjustPoints), reason: adjustReason.trim() });
+  };
+
   // Update user mutation (uses edge function for email updates)
   const updateUserMutation = useMutation({
     mutationFn: async ({ email, fullName, phone }: { email: string; fullName: string; phone: string }) => {
@@ -186,6 +240,8 @@ export function CustomerDetailsDialog({ customer, open, onOpenChange }: Customer
   useEffect(() => {
     if (!open) {
       setIsEditing(false);
+      setAdjustPoints('');
+      setAdjustReason('');
     }
   }, [open]);
 
@@ -274,6 +330,63 @@ export function CustomerDetailsDialog({ customer, open, onOpenChange }: Customer
 
             <Separator />
 
+            {/* Loyalty Section */}
+            {loyaltySummary && (loyaltySummary.enabled || loyaltySummary.balance !== 0) && (
+              <>
+                <div>
+                  <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                    <Award className="h-5 w-5" />
+                    Pontos de Fidelidade
+                    <Badge variant="secondary" className="ml-auto">{loyaltySummary.balance} pontos</Badge>
+                  </h3>
+
+                  {loyaltyTransactions.length > 0 && (
+                    <div className="space-y-1 mb-3">
+                      {loyaltyTransactions.map((transaction) => (
+                        <div key={transaction.id} className="flex items-center justify-between text-xs">
+                          <span className="text-muted-foreground">
+                            {new Date(transaction.created_at).toLocaleDateString('pt-BR')} · {LOYALTY_TRANSACTION_LABELS[transaction.type]}
+                            {transaction.description && transaction.type === 'adjustment' && ` (${transaction.description})`}
+                          </span>
+                          <span className={transaction.points > 0 ? 'font-medium text-primary' : 'font-medium text-destructive'}>
+                            {transaction.points > 0 ? `+${transaction.points}` : transaction.points}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {(isAdmin || isManager) && (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Input
+                        type="number"
+                        step={1}
+                        value={adjustPoints}
+                        onChange={(e) => setAdjustPoints(e.target.value === '' ? '' : Math.trunc(Number(e.target.value)))}
+                        placeholder="+100 ou -50"
+                        className="sm:w-32"
+                      />
+                      <Input
+                        value={adjustReason}
+                        onChange={(e) => setAdjustReason(e.target.value)}
+                        placeholder="Motivo do ajuste"
+                        maxLength={200}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleAdjustPoints}
+                        disabled={adjustPointsMutation.isPending}
+                      >
+                        {adjustPointsMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Ajustar'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+              </>
+            )}
+
             {/* Orders Section */}
             <div>
               <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
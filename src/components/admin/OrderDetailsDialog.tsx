@@ -21,12 +21,16 @@ import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { MapPin, Phone, Mail, Package, CreditCard, Calendar, Truck, Loader2, User, Send, Trash2, Printer, Store } from 'lucide-react';
+import { MapPin, Phone, Mail, Package, CreditCard, Calendar, Truck, Loader2, User, Send, Trash2, Printer, Store, Undo2, FileText, Download, RefreshCw, IdCard } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
+import TrackingTimeline from '@/components/shipping/TrackingTimeline';
+import { RefundDialog } from '@/components/admin/RefundDialog';
+import { REFUNDABLE_PAYMENT_STATUSES } from '@/hooks/useRefunds';
+import { maskDocument } from '@/lib/formatters';
 import {
   Select,
   SelectContent,
@@ -43,8 +47,39 @@ interface OrderItem {
   color?: string;
   model?: string;
   source_store_id?: string;
+  components?: OrderItemComponent[];
 }
 
+// Itens de kit: snapshot dos componentes na hora da compra (quantidade por kit)
+interface OrderItemComponent {
+  id: string;
+  product_name: string;
+  color?: string | null;
+  model?: string | null;
+  quantity: number;
+}
+
+interface OrderInvoice {
+  id: string;
+  model: string;
+  series: number;
+  number: number;
+  status: string;
+  access_key: string | null;
+  protocol: string | null;
+  danfe_path: string | null;
+  error_message: string | null;
+  issued_at: string | null;
+}
+
+const INVOICE_STATUS: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  processing: { label: 'Em processamento', variant: 'secondary' },
+  authorized: { label: 'Autorizada', variant: 'default' },
+  rejected: { label: 'Rejeitada', variant: 'destructive' },
+  error: { label: 'Erro', variant: 'destructive' },
+  cancelled: { label: 'Cancelada', variant: 'outline' },
+};
+
 interface ShippingAddress {
   name?: string;
   firstName?: string;
@@ -64,8 +99,11 @@ interface Order {
   status: string;
   payment_method?: string;
   payment_status?: string;
+  payment_gateway?: string | null;
+  refunded_amount?: number | null;
   guest_email?: string;
   phone?: string;
+  customer_document?: string | null;
   shipping_address?: ShippingAddress;
   created_at: string;
   order_items?: OrderItem[];
@@ -136,8 +174,9 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
   const [isSaving, setIsSaving] = useState(false);
   const [isResending, setIsResending] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [refundOpen, setRefundOpen] = useState(false);
   const navigate = useNavigate();
-  const { isAdmin, isManager } = useAuth();
+  const { isAdmin, isManager, canEditPayments } = useAuth();
   const queryClient = useQueryClient();
   const canSeeStoreOrigin = isAdmin || isManager;
 
@@ -192,6 +231,68 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
     enabled: canSeeStoreOrigin && open,
   });
 
+  // Nota fiscal do pedido (emitida após o pagamento)
+  const { data: invoice } = useQuery({
+    queryKey: ['order-invoice', order?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_invoices')
+        .select('id, model, series, number, status, access_key, protocol, danfe_path, error_message, issued_at')
+        .eq('order_id', order!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as OrderInvoice | null;
+    },
+    enabled: !!order?.id && open,
+  });
+
+  const issueInvoiceMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const { data, error } = await supabase.functions.invoke('issue-invoice', {
+        body: { orderId },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Erro ao emitir nota');
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: 'Nota fiscal emitida' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao emitir nota fiscal', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['order-invoice', order?.id] });
+    },
+  });
+
+  const handleDownloadDanfe = async (path: string) => {
+    const { data, error } = await supabase.storage.from('invoices').createSignedUrl(path, 60);
+    if (error || !data) {
+      toast({ title: 'Erro ao abrir DANFE', variant: 'destructive' });
+      return;
+    }
+    window.open(data.signedUrl, '_blank');
+  };
+
+  const handleDownloadXml = async (invoiceId: string, accessKey: string) => {
+    const { data, error } = await supabase
+      .from('order_invoices')
+      .select('xml')
+      .eq('id', invoiceId)
+      .single();
+    if (error || !data?.xml) {
+      toast({ title: 'XML não disponível', variant: 'destructive' });
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([data.xml], { type: 'application/xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `NFe${accessKey}.xml`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // Update source store mutation
   const updateSourceStoreMutation = useMutation({
     mutationFn: async ({ itemId, storeId }: { itemId: string; storeId: string }) => {
@@ -448,6 +549,11 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
                 ✅ Código atual: {order.tracking_code}
               </p>
             )}
+            {order.tracking_code && (
+              <div className="mt-4">
+                <TrackingTimeline orderId={order.id} trackingCode={order.tracking_code} />
+              </div>
+            )}
           </div>
 
           <Separator />
@@ -479,6 +585,12 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
                   {customerPhone}
                 </div>
               )}
+              {order.customer_document && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <IdCard className="h-4 w-4" />
+                  {order.customer_document.length === 14 ? 'CNPJ' : 'CPF'} {maskDocument(order.customer_document)}
+                </div>
+              )}
             </div>
           </div>
 
@@ -526,6 +638,18 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
                     <p className="text-sm text-muted-foreground">
                       Qtd: {item.quantity} × {formatPrice(item.price)}
                     </p>
+                    {item.components && item.components.length > 0 && (
+                      <ul className="mt-2 space-y-0.5 border-l-2 border-border pl-3 text-xs text-muted-foreground">
+                        {item.components.map((component) => (
+                          <li key={component.id}>
+                            {component.quantity * item.quantity}× {component.product_name}
+                            {[component.color, component.model].filter(Boolean).length > 0 && (
+                              <span> ({[component.color, component.model].filter(Boolean).join(' / ')})</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                     {/* Loja de origem - só visível para admin/manager */}
                     {canSeeStoreOrigin && stores.length > 0 && (
                       <div className="flex items-center gap-2 mt-2">
@@ -575,6 +699,12 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
                 <span>Total</span>
                 <span>{formatPrice(Number(order.total))}</span>
               </div>
+              {Number(order.refunded_amount) > 0 && (
+                <div className="flex justify-between text-destructive">
+                  <span>Reembolsado</span>
+                  <span>-{formatPrice(Number(order.refunded_amount))}</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -591,6 +721,90 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
 
           <Separator />
 
+          {/* Nota Fiscal */}
+          <div>
+            <h3 className="font-semibold mb-3 flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              Nota Fiscal
+            </h3>
+            {invoice ? (
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span>
+                    {invoice.model === '65' ? 'NFC-e' : 'NF-e'} nº {invoice.number} · Série {invoice.series}
+                  </span>
+                  <Badge variant={INVOICE_STATUS[invoice.status]?.variant || 'outline'}>
+                    {INVOICE_STATUS[invoice.status]?.label || invoice.status}
+                  </Badge>
+                </div>
+                {invoice.access_key && (
+                  <p className="font-mono text-xs break-all text-muted-foreground">
+                    {invoice.access_key.replace(/(\d{4})(?=\d)/g, '$1 ')}
+                  </p>
+                )}
+                {invoice.issued_at && (
+                  <p className="text-xs text-muted-foreground">
+                    Autorizada em {new Date(invoice.issued_at).toLocaleString('pt-BR')}
+                    {invoice.protocol && ` · Protocolo ${invoice.protocol}`}
+                  </p>
+                )}
+                {invoice.error_message && (
+                  <p className="text-xs text-destructive">{invoice.error_message}</p>
+                )}
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {invoice.danfe_path && (
+                    <Button variant="outline" size="sm" onClick={() => handleDownloadDanfe(invoice.danfe_path!)}>
+                      <Download className="h-4 w-4 mr-2" />
+                      DANFE
+                    </Button>
+                  )}
+                  {invoice.status === 'authorized' && invoice.access_key && (
+                    <Button variant="outline" size="sm" onClick={() => handleDownloadXml(invoice.id, invoice.access_key!)}>
+                      <Download className="h-4 w-4 mr-2" />
+                      XML
+                    </Button>
+                  )}
+                  {invoice.status !== 'authorized' && invoice.status !== 'cancelled' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => issueInvoiceMutation.mutate(order.id)}
+                      disabled={issueInvoiceMutation.isPending}
+                    >
+                      {issueInvoiceMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                      )}
+                      Tentar novamente
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : order.payment_status === 'paid' ? (
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">Nenhuma nota emitida para este pedido.</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => issueInvoiceMutation.mutate(order.id)}
+                  disabled={issueInvoiceMutation.isPending}
+                >
+                  {issueInvoiceMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <FileText className="h-4 w-4 mr-2" />
+                  )}
+                  Emitir nota
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">A nota é emitida quando o pagamento é confirmado.</p>
+            )}
+          </div>
+
+          <Separator />
+
           {/* Ações */}
           <div>
             <h3 className="font-semibold mb-3">Ações</h3>
@@ -621,6 +835,13 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
                 Reenviar Email
               </Button>
 
+              {canEditPayments && REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status || '') && (
+                <Button variant="outline" size="sm" onClick={() => setRefundOpen(true)}>
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Reembolsar
+                </Button>
+              )}
+
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button variant="destructive" size="sm">
@@ -653,6 +874,8 @@ export function OrderDetailsDialog({ order, open, onOpenChange, onTrackingCodeSa
             </div>
           </div>
         </div>
+
+        <RefundDialog open={refundOpen} onOpenChange={setRefundOpen} order={order} />
       </DialogContent>
     </Dialog>
   );
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useQueryClient, useQuery } from '@tanstack/react-query';
-import { X, Upload, Loader2, Plus, GripVertical } from 'lucide-react';
+import { X, Upload, Loader2, Plus, GripVertical, Package } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,6 +18,41 @@ import { CSS } from '@dnd-kit/utilities';
 
 const MAX_IMAGES = 6;
 
+// Peso (g) e dimensões (cm) usados na cotação de frete; vazio = padrão / herda do produto
+interface Measures {
+  weight_grams?: number;
+  height_cm?: number;
+  width_cm?: number;
+  length_cm?: number;
+}
+
+const MEASURE_FIELDS: { key: keyof Measures; label: string; short: string }[] = [
+  { key: 'weight_grams', label: 'Peso (g)', short: 'Peso (g)' },
+  { key: 'height_cm', label: 'Altura (cm)', short: 'Alt. (cm)' },
+  { key: 'width_cm', label: 'Largura (cm)', short: 'Larg. (cm)' },
+  { key: 'length_cm', label: 'Comprimento (cm)', short: 'Comp. (cm)' },
+];
+
+const parseMeasure = (key: keyof Measures, value: string): number | undefined => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  return key === 'weight_grams' ? Math.round(parsed) : parsed;
+};
+
+const toMeasures = (row?: { [K in keyof Measures]?: number | null } | null): Measures => ({
+  weight_grams: row?.weight_grams ?? undefined,
+  height_cm: row?.height_cm ?? undefined,
+  width_cm: row?.width_cm ?? undefined,
+  length_cm: row?.length_cm ?? undefined,
+});
+
+const measuresToColumns = (measures: Measures) => ({
+  weight_grams: measures.weight_grams ?? null,
+  height_cm: measures.height_cm ?? null,
+  width_cm: measures.width_cm ?? null,
+  length_cm: measures.length_cm ?? null,
+});
+
 interface ProductFormData {
   id?: string;
   codigo_produto: string;
@@ -34,6 +69,25 @@ interface ProductFormData {
   images: string[];
   in_stock: boolean;
   featured: boolean;
+  is_bundle: boolean;
+  measures: Measures;
+  ncm: string;
+  cfop: string;
+  tax_origin: number;
+}
+
+// Componente de kit: variação de outro produto + unidades por kit
+interface BundleComponent {
+  variant_id: string;
+  quantity: number;
+}
+
+interface BundleComponentOption {
+  id: string;
+  product_id: string;
+  label: string;
+  price: number;
+  stock: number;
 }
 
 interface VariantStock {
@@ -41,6 +95,7 @@ interface VariantStock {
   color: string | null;
   variant_id?: string;
   stocks: Record<string, number>; // { store_id: quantidade }
+  measures: Measures; // Sobrescreve as medidas do produto
 }
 
 interface Store {
@@ -69,10 +124,25 @@ interface ProductFormProps {
     images?: string[];
     in_stock?: boolean;
     featured?: boolean;
+    is_bundle?: boolean;
+    ncm?: string | null;
+    cfop?: string | null;
+    tax_origin?: number;
+    weight_grams?: number | null;
+    height_cm?: number | null;
+    width_cm?: number | null;
+    length_cm?: number | null;
   } | null;
 }
 
 const CATEGORIES = ['Tech', 'Acessórios', 'Vestuário', 'Esporte'];
+
+// Origem da mercadoria (tabela A do CST)
+const TAX_ORIGINS = [
+  { value: 0, label: '0 - Nacional' },
+  { value: 1, label: '1 - Estrangeira, importação direta' },
+  { value: 2, label: '2 - Estrangeira, adquirida no mercado interno' },
+];
 const SIZE_OPTIONS = ['PP', 'P', 'M', 'G', 'GG', 'XGG', 'Único'];
 
 const PREDEFINED_COLORS: { name: string; hex: string }[] = [
@@ -228,9 +298,11 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
   const [customColorHex, setCustomColorHex] = useState('#000000');
   const [customModel, setCustomModel] = useState('');
   const [variantStocks, setVariantStocks] = useState<VariantStock[]>([]);
+  const [bundleComponents, setBundleComponents] = useState<BundleComponent[]>([]);
   
   // Refs para controle de estado
   const isVariantsInitialized = useRef(false);
+  const isBundleInitialized = useRef(false);
   const prevInitialDataId = useRef<string | undefined>(undefined);
   const prevOpen = useRef(false);
 
@@ -262,6 +334,11 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
     images: initialData?.images || [],
     in_stock: initialData?.in_stock ?? true,
     featured: initialData?.featured ?? false,
+    is_bundle: initialData?.is_bundle ?? false,
+    measures: toMeasures(initialData),
+    ncm: initialData?.ncm || '',
+    cfop: initialData?.cfop || '',
+    tax_origin: initialData?.tax_origin ?? 0,
   }), [initialData?.id, parseColors, parseModels]);
 
   const [formData, setFormData] = useState<ProductFormData>(initialFormData);
@@ -288,7 +365,7 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
       
       const { data: variants, error: variantError } = await supabase
         .from('product_variants')
-        .select('id, model, color, stock_quantity')
+        .select('id, model, color, stock_quantity, weight_grams, height_cm, width_cm, length_cm')
         .eq('product_id', initialData.id);
       
       if (variantError) throw variantError;
@@ -305,6 +382,7 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
         variant_id: v.id,
         model: v.model,
         color: v.color,
+        measures: toMeasures(v),
         stocks: Object.fromEntries(
           (stockData || [])
             .filter(s => s.product_variant_id === v.id)
@@ -315,6 +393,44 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
     enabled: !!initialData?.id && open,
   });
 
+  // Componentes do kit (edição)
+  const { data: existingBundleComponents = [] } = useQuery({
+    queryKey: ['product-bundle-items', initialData?.id],
+    queryFn: async () => {
+      if (!initialData?.id) return [];
+      const { data, error } = await supabase
+        .from('product_bundle_items')
+        .select('component_variant_id, quantity')
+        .eq('bundle_product_id', initialData.id)
+        .order('display_order');
+      if (error) throw error;
+      return data.map(item => ({ variant_id: item.component_variant_id, quantity: item.quantity }));
+    },
+    enabled: !!initialData?.id && open,
+  });
+
+  // Variações que podem compor um kit (produtos comuns)
+  const { data: componentOptions = [] } = useQuery({
+    queryKey: ['bundle-component-options'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('id, color, model, stock_quantity, products!inner(id, name, price, is_bundle)')
+        .eq('products.is_bundle', false);
+      if (error) throw error;
+      return data
+        .map((v): BundleComponentOption => ({
+          id: v.id,
+          product_id: v.products.id,
+          label: [v.products.name, [v.color, v.model].filter(Boolean).join(' / ')].filter(Boolean).join(' — '),
+          price: Number(v.products.price),
+          stock: v.stock_quantity,
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'pt-BR'));
+    },
+    enabled: open && formData.is_bundle,
+  });
+
   // Reset form quando dialog abre/fecha ou produto muda
   useEffect(() => {
     const justOpened = open && !prevOpen.current;
@@ -324,13 +440,16 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
       // Dialog abriu ou produto mudou - resetar tudo
       setFormData(initialFormData);
       setVariantStocks([]);
+      setBundleComponents([]);
       isVariantsInitialized.current = false;
+      isBundleInitialized.current = false;
       prevInitialDataId.current = initialData?.id;
     }
     
     if (!open && prevOpen.current) {
       // Dialog fechou - limpar flags
       isVariantsInitialized.current = false;
+      isBundleInitialized.current = false;
       prevInitialDataId.current = undefined;
     }
     
@@ -348,11 +467,20 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
         model: v.model,
         color: v.color,
         stocks: v.stocks || {},
+        measures: v.measures,
       })));
       isVariantsInitialized.current = true;
     }
   }, [existingVariants, open, initialData?.id]);
 
+  // Inicializar componentes de kit existente
+  useEffect(() => {
+    if (!open || isBundleInitialized.current) return;
+    if (!initialData?.id || existingBundleComponents.length === 0) return;
+    setBundleComponents(existingBundleComponents);
+    isBundleInitialized.current = true;
+  }, [existingBundleComponents, open, initialData?.id]);
+
   // Gerar combinações de variantes quando cores/modelos mudam
   const generateVariants = useCallback((colors: string[], models: string[]) => {
     const colorList = colors.length > 0 ? colors : [null];
@@ -364,7 +492,7 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
     for (const color of colorList) {
       for (const model of modelList) {
         if (color === null && model === null) continue;
-        newVariants.push({ model, color, stocks: { ...emptyStocks } });
+        newVariants.push({ model, color, stocks: { ...emptyStocks }, measures: {} });
       }
     }
     return newVariants;
@@ -396,7 +524,7 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
           Object.entries(existing.stocks).forEach(([storeId, qty]) => {
             mergedStocks[storeId] = qty;
           });
-          return { ...newV, variant_id: existing.variant_id, stocks: mergedStocks };
+          return { ...newV, variant_id: existing.variant_id, stocks: mergedStocks, measures: existing.measures };
         }
         return newV;
       });
@@ -620,6 +748,14 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
     ));
   };
 
+  const updateVariantMeasure = (model: string | null, color: string | null, key: keyof Measures, value: string) => {
+    setVariantStocks(prev => prev.map(v =>
+      v.model === model && v.color === color
+        ? { ...v, measures: { ...v.measures, [key]: parseMeasure(key, value) } }
+        : v
+    ));
+  };
+
   const getVariantTotal = (variant: VariantStock) => {
     return Object.values(variant.stocks).reduce((sum, qty) => sum + qty, 0);
   };
@@ -647,6 +783,80 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
     return trimmed;
   };
 
+  // Atualiza variações pelo id em vez de recriar, preservando vínculos
+  // (componentes de kit, pedidos) e reservas de estoque
+  const saveVariantStocks = async (productId: string) => {
+    const { data: existingVars, error: existingVarsError } = await supabase
+      .from('product_variants')
+      .select('id')
+      .eq('product_id', productId);
+
+    if (existingVarsError) throw existingVarsError;
+
+    const keptIds = new Set(variantStocks.map(v => v.variant_id).filter(Boolean));
+    const removedIds = existingVars.map(v => v.id).filter(id => !keptIds.has(id));
+
+    if (removedIds.length > 0) {
+      await supabase.from('product_variants').delete().in('id', removedIds);
+    }
+
+    const toVariantRow = (v: VariantStock) => ({
+      product_id: productId,
+      model: v.model ? normalizeModelName(v.model) : null,
+      color: v.color,
+      stock_quantity: getVariantTotal(v), // Total for backwards compatibility
+      ...measuresToColumns(v.measures),
+    });
+
+    const existing = variantStocks.filter(v => v.variant_id);
+    const created = variantStocks.filter(v => !v.variant_id);
+
+    const { data: updatedVariants, error: updateError } = existing.length > 0
+      ? await supabase
+          .from('product_variants')
+          .upsert(existing.map(v => ({ id: v.variant_id, ...toVariantRow(v) })))
+          .select('id, model, color')
+      : { data: [], error: null };
+
+    const { data: insertedVariants, error: insertError } = created.length > 0
+      ? await supabase
+          .from('product_variants')
+          .insert(created.map(toVariantRow))
+          .select('id, model, color')
+      : { data: [], error: null };
+
+    if (updateError || insertError) {
+      console.error('Variant save error:', updateError || insertError);
+      toast.error('Produto salvo, mas erro ao salvar estoque por variação');
+      return;
+    }
+
+    const savedVariants = [...(updatedVariants || []), ...(insertedVariants || [])];
+
+    // Upsert só da quantidade: reserved_quantity fica como está
+    const storeStockData = savedVariants.flatMap(savedV => {
+      const variantStock = variantStocks.find(
+        vs => (vs.model ? normalizeModelName(vs.model) : null) === savedV.model && vs.color === savedV.color
+      );
+      return stores.map(store => ({
+        product_variant_id: savedV.id,
+        store_id: store.id,
+        quantity: variantStock?.stocks[store.id] || 0,
+      }));
+    });
+
+    if (storeStockData.length > 0) {
+      const { error: stockError } = await supabase
+        .from('store_stock')
+        .upsert(storeStockData, { onConflict: 'product_variant_id,store_id' });
+
+      if (stockError) {
+        console.error('Store stock save error:', stockError);
+        toast.error('Erro ao salvar estoque por loja');
+      }
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -655,6 +865,27 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
       return;
     }
 
+    if (formData.is_bundle) {
+      if (bundleComponents.length === 0 || bundleComponents.some(c => !c.variant_id)) {
+        toast.error('Escolha pelo menos um componente para o kit');
+        return;
+      }
+      if (new Set(bundleComponents.map(c => c.variant_id)).size !== bundleComponents.length) {
+        toast.error('O mesmo componente aparece mais de uma vez no kit');
+        return;
+      }
+    }
+
+    // Dados fiscais (NF-e): NCM com 8 dígitos, CFOP de venda dentro do estado
+    if (formData.ncm && !/^\d{8}$/.test(formData.ncm)) {
+      toast.error('NCM deve ter 8 dígitos');
+      return;
+    }
+    if (formData.cfop && !/^5\d{3}$/.test(formData.cfop)) {
+      toast.error('CFOP deve ter 4 dígitos e começar com 5 (venda dentro do estado)');
+      return;
+    }
+
     // Validar código do produto
     const codeValidation = validateCodigoProduto(formData.codigo_produto);
     if (!codeValidation.valid) {
@@ -706,14 +937,19 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
         price: formData.price,
         original_price: formData.original_price || null,
         category: formData.category,
-        color: formData.colors.length > 0 ? formData.colors : null,
-        color_codes: Object.keys(formData.color_codes).length > 0 ? formData.color_codes : null,
-        model: formData.models.length > 0 ? formData.models : null,
+        color: !formData.is_bundle && formData.colors.length > 0 ? formData.colors : null,
+        color_codes: !formData.is_bundle && Object.keys(formData.color_codes).length > 0 ? formData.color_codes : null,
+        model: !formData.is_bundle && formData.models.length > 0 ? formData.models : null,
         sizes: formData.sizes.length > 0 ? formData.sizes : null,
         image: formData.image || formData.images[0] || null,
         images: formData.images.length > 0 ? formData.images : null,
         in_stock: formData.in_stock,
         featured: formData.featured,
+        is_bundle: formData.is_bundle,
+        ncm: formData.ncm || null,
+        cfop: formData.cfop || null,
+        tax_origin: formData.tax_origin,
+        ...measuresToColumns(formData.measures),
       };
 
       let productId = initialData?.id;
@@ -736,73 +972,70 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
         productId = data.id;
       }
 
-      // Save variant stocks
-      if (productId && variantStocks.length > 0) {
-        // Delete existing store_stock for this product's variants
-        const { data: existingVars } = await supabase
+      if (productId && formData.is_bundle) {
+        // Kit: uma única variação sem cor/modelo; o estoque vem dos componentes
+        const { data: existingVars, error: existingVarsError } = await supabase
           .from('product_variants')
-          .select('id')
+          .select('id, color, model')
           .eq('product_id', productId);
-        
-        if (existingVars && existingVars.length > 0) {
-          await supabase
-            .from('store_stock')
-            .delete()
-            .in('product_variant_id', existingVars.map(v => v.id));
+
+        if (existingVarsError) throw existingVarsError;
+
+        let bundleVariantId = existingVars.find(v => !v.color && !v.model)?.id;
+        const extraVariantIds = existingVars.filter(v => v.id !== bundleVariantId).map(v => v.id);
+
+        if (extraVariantIds.length > 0) {
+          await supabase.from('product_variants').delete().in('id', extraVariantIds);
         }
-        
-        // Delete existing variants
-        await supabase.from('product_variants').delete().eq('product_id', productId);
-        
-        // Insert new variants with normalized model names
-        const variantsToInsert = variantStocks.map(v => ({
-          product_id: productId,
-          model: v.model ? normalizeModelName(v.model) : null,
-          color: v.color,
-          stock_quantity: getVariantTotal(v), // Total for backwards compatibility
-        }));
-        
-        const { data: savedVariants, error: variantError } = await supabase
-          .from('product_variants')
-          .insert(variantsToInsert)
-          .select('id, model, color');
-        
-        if (variantError) {
-          console.error('Variant save error:', variantError);
-          toast.error('Produto salvo, mas erro ao salvar estoque por variação');
-        } else if (savedVariants) {
-          // Insert store_stock records
-          const storeStockData = savedVariants.flatMap(savedV => {
-            const variantStock = variantStocks.find(
-              vs => vs.model === savedV.model && vs.color === savedV.color
-            );
-            return stores.map(store => ({
-              product_variant_id: savedV.id,
-              store_id: store.id,
-              quantity: variantStock?.stocks[store.id] || 0,
-              reserved_quantity: 0,
-            }));
-          });
-          
-          if (storeStockData.length > 0) {
-            const { error: stockError } = await supabase
-              .from('store_stock')
-              .insert(storeStockData);
-            
-            if (stockError) {
-              console.error('Store stock save error:', stockError);
-              toast.error('Erro ao salvar estoque por loja');
-            }
-          }
+
+        if (!bundleVariantId) {
+          const { data: bundleVariant, error: bundleVariantError } = await supabase
+            .from('product_variants')
+            .insert({ product_id: productId, color: null, model: null, stock_quantity: 0 })
+            .select('id')
+            .single();
+
+          if (bundleVariantError) throw bundleVariantError;
+          bundleVariantId = bundleVariant.id;
+        }
+
+        // Substituir composição (o trigger recalcula o estoque do kit)
+        await supabase.from('product_bundle_items').delete().eq('bundle_product_id', productId);
+
+        const { error: bundleError } = await supabase
+          .from('product_bundle_items')
+          .insert(bundleComponents.map((c, index) => ({
+            bundle_product_id: productId,
+            component_variant_id: c.variant_id,
+            quantity: c.quantity,
+            display_order: index,
+          })));
+
+        if (bundleError) {
+          console.error('Bundle items save error:', bundleError);
+          toast.error('Produto salvo, mas erro ao salvar componentes do kit');
+        }
+      } else if (productId) {
+        if (initialData?.is_bundle) {
+          // Deixou de ser kit
+          await supabase.from('product_bundle_items').delete().eq('bundle_product_id', productId);
+        }
+
+        if (variantStocks.length > 0) {
+          await saveVariantStocks(productId);
         }
       }
 
       toast.success(initialData?.id ? 'Produto atualizado! 🎉' : 'Produto cadastrado! 🎉');
 
       queryClient.invalidateQueries({ queryKey: ['products'] });
-      queryClient.invalidateQueries({ queryKey: ['shop-products'] });
+      queryClient.invalidateQueries({ queryKey: ['product-search'] });
+      queryClient.invalidateQueries({ queryKey: ['product-search-facets'] });
       queryClient.invalidateQueries({ queryKey: ['admin-products'] });
       queryClient.invalidateQueries({ queryKey: ['product-variants'] });
+      queryClient.invalidateQueries({ queryKey: ['product-variants-with-stock'] });
+      queryClient.invalidateQueries({ queryKey: ['product-bundle-items'] });
+      queryClient.invalidateQueries({ queryKey: ['bundle-component-options'] });
       onOpenChange(false);
       
     } catch (error) {
@@ -813,6 +1046,20 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
     }
   };
 
+  // Esconde o próprio produto da lista de componentes
+  const availableComponentOptions = componentOptions.filter(option => option.product_id !== initialData?.id);
+
+  const bundleSummary = useMemo(() => {
+    const selected = bundleComponents
+      .map(c => ({ ...c, option: componentOptions.find(o => o.id === c.variant_id) }))
+      .filter(c => c.option);
+    if (selected.length === 0) return null;
+    return {
+      total: selected.reduce((sum, c) => sum + c.option!.price * c.quantity, 0),
+      available: Math.min(...selected.map(c => Math.floor(Math.max(c.option!.stock, 0) / c.quantity))),
+    };
+  }, [bundleComponents, componentOptions]);
+
   const imageCount = formData.images.length;
   const canAddMoreImages = imageCount < MAX_IMAGES;
 
@@ -961,6 +1208,175 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
             </div>
           </div>
 
+          {/* Weight and Dimensions */}
+          <div className="space-y-3">
+            <div>
+              <Label>Peso e Dimensões (frete)</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Usados para calcular o frete e a caixa da etiqueta. Sem preenchimento, vale o padrão de 300 g e 20 x 15 x 5 cm.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {MEASURE_FIELDS.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={field.key} className="text-xs">{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    step={field.key === 'weight_grams' ? '1' : '0.1'}
+                    min="0"
+                    value={formData.measures[field.key] ?? ''}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      measures: { ...prev.measures, [field.key]: parseMeasure(field.key, e.target.value) },
+                    }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Tax data */}
+          <div className="space-y-3">
+            <div>
+              <Label>Dados Fiscais (NF-e)</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Obrigatório o NCM para emitir a nota do pedido. Sem CFOP, vale o padrão do emissor (5102); fora do estado a nota usa 6xxx.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ncm" className="text-xs">NCM</Label>
+                <Input
+                  id="ncm"
+                  inputMode="numeric"
+                  maxLength={8}
+                  value={formData.ncm}
+                  onChange={(e) => setFormData(prev => ({ ...prev, ncm: e.target.value.replace(/\D/g, '') }))}
+                  placeholder="85176299"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cfop" className="text-xs">CFOP</Label>
+                <Input
+                  id="cfop"
+                  inputMode="numeric"
+                  maxLength={4}
+                  value={formData.cfop}
+                  onChange={(e) => setFormData(prev => ({ ...prev, cfop: e.target.value.replace(/\D/g, '') }))}
+                  placeholder="5102"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax_origin" className="text-xs">Origem</Label>
+                <Select
+                  value={String(formData.tax_origin)}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, tax_origin: Number(value) }))}
+                >
+                  <SelectTrigger id="tax_origin">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAX_ORIGINS.map(origin => (
+                      <SelectItem key={origin.value} value={String(origin.value)}>
+                        {origin.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* Bundle */}
+          <div className="flex items-start justify-between gap-4 rounded-lg border border-border p-3">
+            <div>
+              <Label htmlFor="is_bundle" className="flex items-center gap-2">
+                <Package className="h-4 w-4" />
+                Kit / combo
+              </Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Vendido como um único item, montado com variações de outros produtos. O estoque do kit vem dos componentes.
+              </p>
+            </div>
+            <Switch
+              id="is_bundle"
+              checked={formData.is_bundle}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_bundle: checked }))}
+            />
+          </div>
+
+          {formData.is_bundle ? (
+            <div className="space-y-3">
+              <Label>Componentes do Kit</Label>
+              {bundleComponents.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nenhum componente adicionado ainda.</p>
+              )}
+              {bundleComponents.map((component, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={component.variant_id}
+                    onValueChange={(value) => setBundleComponents(prev =>
+                      prev.map((c, i) => i === index ? { ...c, variant_id: value } : c)
+                    )}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Escolha a variação" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableComponentOptions
+                        .filter(option =>
+                          option.id === component.variant_id ||
+                          !bundleComponents.some(c => c.variant_id === option.id)
+                        )
+                        .map(option => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.label} ({option.stock} em estoque)
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    aria-label="Quantidade por kit"
+                    value={component.quantity}
+                    onChange={(e) => setBundleComponents(prev =>
+                      prev.map((c, i) => i === index ? { ...c, quantity: Math.max(1, parseInt(e.target.value) || 1) } : c)
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setBundleComponents(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setBundleComponents(prev => [...prev, { variant_id: '', quantity: 1 }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar componente
+              </Button>
+              {bundleSummary && (
+                <p className="text-xs text-muted-foreground">
+                  Componentes avulsos: R$ {bundleSummary.total.toFixed(2)}
+                  {formData.price > 0 && bundleSummary.total > formData.price && (
+                    <> · economia de R$ {(bundleSummary.total - formData.price).toFixed(2)} no kit</>
+                  )}
+                  {' · '}{bundleSummary.available} kit(s) disponíveis
+                </p>
+              )}
+            </div>
+          ) : (
+          <>
           {/* Colors */}
           <div className="space-y-3">
             <Label>Cores Disponíveis</Label>
@@ -1157,6 +1573,72 @@ const ProductForm = ({ open, onOpenChange, initialData }: ProductFormProps) => {
             </div>
           )}
 
+          {/* Measures per Variant */}
+          {variantStocks.length > 0 && (
+            <div className="space-y-3">
+              <div>
+                <Label>Peso e Dimensões por Variação</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Opcional. Campos vazios usam os valores do produto.
+                </p>
+              </div>
+              <div className="border border-border rounded-lg overflow-hidden">
+                <div className="max-h-80 overflow-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        {formData.colors.length > 0 && (
+                          <th className="text-left px-3 py-2 font-medium whitespace-nowrap">Cor</th>
+                        )}
+                        {formData.models.length > 0 && (
+                          <th className="text-left px-3 py-2 font-medium whitespace-nowrap">Modelo</th>
+                        )}
+                        {MEASURE_FIELDS.map(field => (
+                          <th key={field.key} className="text-center px-2 py-2 font-medium whitespace-nowrap">
+                            {field.short}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {variantStocks.map((variant, index) => (
+                        <tr key={index} className="border-t border-border">
+                          {formData.colors.length > 0 && (
+                            <td className="px-3 py-2 whitespace-nowrap">{variant.color}</td>
+                          )}
+                          {formData.models.length > 0 && (
+                            <td className="px-3 py-2 whitespace-nowrap">{variant.model}</td>
+                          )}
+                          {MEASURE_FIELDS.map(field => (
+                            <td key={field.key} className="px-2 py-2">
+                              <Input
+                                type="number"
+                                step={field.key === 'weight_grams' ? '1' : '0.1'}
+                                min="0"
+                                value={variant.measures[field.key] ?? ''}
+                                placeholder={formData.measures[field.key]?.toString() ?? '—'}
+                                onChange={(e) => updateVariantMeasure(
+                                  variant.model,
+                                  variant.color,
+                                  field.key,
+                                  e.target.value
+                                )}
+                                className="w-20 h-8 text-center"
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+
+          </>
+          )}
+
           {/* Sizes */}
           <div className="space-y-2">
             <Label>Tamanhos Disponíveis</Label>
@@ -19,7 +19,7 @@ import { ptBR } from 'date-fns/locale';
 type FileFormat = 'xlsx' | 'csv';
 
 // Tipos de template
-type TemplateType = 'simples' | 'variacoes' | 'completo';
+type TemplateType = 'simples' | 'variacoes' | 'completo' | 'kits';
 
 // IDs das lojas (ordem: Case 1, Cali, Case 2)
 const STORE_IDS = {
@@ -30,9 +30,25 @@ const STORE_IDS = {
 
 // Colunas por tipo de template
 const TEMPLATE_COLUMNS: Record<TemplateType, string[]> = {
-  simples: ['codigo_produto', 'nome_produto', 'categoria', 'status', 'preco', 'destaque'],
-  variacoes: ['codigo_produto', 'nome_produto', 'categoria', 'status', 'preco', 'destaque', 'modelo_variacao', 'cor_variacao', 'sku_variacao', 'preco_variacao', 'estoque_case1', 'estoque_cali', 'estoque_case2'],
-  completo: ['id_produto', 'codigo_produto', 'nome_produto', 'categoria', 'status', 'preco', 'destaque', 'url_imagem', 'modelo_variacao', 'cor_variacao', 'sku_variacao', 'preco_variacao', 'estoque_case1', 'estoque_cali', 'estoque_case2'],
+  simples: ['codigo_produto', 'nome_produto', 'categoria', 'status', 'preco', 'destaque', 'peso_g', 'altura_cm', 'largura_cm', 'comprimento_cm'],
+  variacoes: ['codigo_produto', 'nome_produto', 'categoria', 'status', 'preco', 'destaque', 'peso_g', 'altura_cm', 'largura_cm', 'comprimento_cm', 'modelo_variacao', 'cor_variacao', 'sku_variacao', 'preco_variacao', 'estoque_case1', 'estoque_cali', 'estoque_case2', 'peso_variacao_g', 'altura_variacao_cm', 'largura_variacao_cm', 'comprimento_variacao_cm'],
+  completo: ['id_produto', 'codigo_produto', 'nome_produto', 'categoria', 'status', 'preco', 'destaque', 'url_imagem', 'peso_g', 'altura_cm', 'largura_cm', 'comprimento_cm', 'modelo_variacao', 'cor_variacao', 'sku_variacao', 'preco_variacao', 'estoque_case1', 'estoque_cali', 'estoque_case2', 'peso_variacao_g', 'altura_variacao_cm', 'largura_variacao_cm', 'comprimento_variacao_cm', 'componentes_kit'],
+  kits: ['codigo_produto', 'nome_produto', 'categoria', 'status', 'preco', 'destaque', 'url_imagem', 'peso_g', 'altura_cm', 'largura_cm', 'comprimento_cm', 'componentes_kit'],
+};
+
+// Peso (g) e dimensões (cm) para o frete; na variação, vazio herda do produto
+interface Measures {
+  weight_grams?: number;
+  height_cm?: number;
+  width_cm?: number;
+  length_cm?: number;
+}
+
+const MEASURE_LABELS: Record<keyof Measures, string> = {
+  weight_grams: 'Peso',
+  height_cm: 'Altura',
+  width_cm: 'Largura',
+  length_cm: 'Comprimento',
 };
 
 // Mapeamento PT-BR para colunas internas
@@ -52,6 +68,15 @@ const COLUMN_MAP: Record<string, string> = {
   'estoque_case1': 'stock_case1',
   'estoque_cali': 'stock_cali',
   'estoque_case2': 'stock_case2',
+  'peso_g': 'weight_grams',
+  'altura_cm': 'height_cm',
+  'largura_cm': 'width_cm',
+  'comprimento_cm': 'length_cm',
+  'peso_variacao_g': 'variant_weight_grams',
+  'altura_variacao_cm': 'variant_height_cm',
+  'largura_variacao_cm': 'variant_width_cm',
+  'comprimento_variacao_cm': 'variant_length_cm',
+  'componentes_kit': 'bundle_components',
   // Backwards compatibility - estoque_variacao maps to total across stores
   'estoque_variacao': 'variant_stock',
   // Also support english columns
@@ -70,6 +95,15 @@ const COLUMN_MAP: Record<string, string> = {
   'stock_cali': 'stock_cali',
   'stock_case2': 'stock_case2',
   'variant_stock': 'variant_stock',
+  'weight_grams': 'weight_grams',
+  'height_cm': 'height_cm',
+  'width_cm': 'width_cm',
+  'length_cm': 'length_cm',
+  'variant_weight_grams': 'variant_weight_grams',
+  'variant_height_cm': 'variant_height_cm',
+  'variant_width_cm': 'variant_width_cm',
+  'variant_length_cm': 'variant_length_cm',
+  'bundle_components': 'bundle_components',
 };
 
 // Linhas de exemplo para templates
@@ -81,6 +115,10 @@ const EXAMPLE_ROWS: Record<TemplateType, Record<string, string>> = {
     status: 'em_estoque',
     preco: '79.90',
     destaque: 'false',
+    peso_g: '250',
+    altura_cm: '3',
+    largura_cm: '20',
+    comprimento_cm: '25',
   },
   variacoes: {
     codigo_produto: 'C-001',
@@ -89,6 +127,10 @@ const EXAMPLE_ROWS: Record<TemplateType, Record<string, string>> = {
     status: 'em_estoque',
     preco: '89.90',
     destaque: 'true',
+    peso_g: '250',
+    altura_cm: '3',
+    largura_cm: '20',
+    comprimento_cm: '25',
     modelo_variacao: 'M',
     cor_variacao: 'Azul',
     sku_variacao: 'CAM-M-AZL',
@@ -96,6 +138,10 @@ const EXAMPLE_ROWS: Record<TemplateType, Record<string, string>> = {
     estoque_case1: '10',
     estoque_cali: '5',
     estoque_case2: '8',
+    peso_variacao_g: '',
+    altura_variacao_cm: '',
+    largura_variacao_cm: '',
+    comprimento_variacao_cm: '',
   },
   completo: {
     id_produto: '',
@@ -106,6 +152,10 @@ const EXAMPLE_ROWS: Record<TemplateType, Record<string, string>> = {
     preco: '129.90',
     destaque: 'true',
     url_imagem: 'https://exemplo.com/imagem.jpg',
+    peso_g: '300',
+    altura_cm: '3',
+    largura_cm: '22',
+    comprimento_cm: '28',
     modelo_variacao: 'G',
     cor_variacao: 'Preta',
     sku_variacao: 'CAM-G-PRT',
@@ -113,9 +163,34 @@ const EXAMPLE_ROWS: Record<TemplateType, Record<string, string>> = {
     estoque_case1: '15',
     estoque_cali: '10',
     estoque_case2: '12',
+    peso_variacao_g: '320',
+    altura_variacao_cm: '',
+    largura_variacao_cm: '',
+    comprimento_variacao_cm: '',
+    componentes_kit: '',
+  },
+  kits: {
+    codigo_produto: '',
+    nome_produto: 'Kit Verão',
+    categoria: 'kits',
+    status: 'em_estoque',
+    preco: '199.90',
+    destaque: 'false',
+    url_imagem: '',
+    peso_g: '600',
+    altura_cm: '6',
+    largura_cm: '22',
+    comprimento_cm: '28',
+    componentes_kit: 'CAM-G-PRT:1; CAM-M-AZL:2',
   },
 };
 
+// Componentes do kit: "SKU:qtd; SKU:qtd" (qtd opcional, padrão 1)
+interface BundleComponentRef {
+  sku: string;
+  quantity: number;
+}
+
 interface ParsedRow {
   original: Record<string, string>;
   productId?: string;
@@ -137,6 +212,11 @@ interface ParsedRow {
   stockCase2: number;
   // Total para exibição
   variantStock: number;
+  // Só os campos preenchidos na planilha
+  measures: Measures;
+  variantMeasures: Measures;
+  isBundle: boolean;
+  bundleComponents: BundleComponentRef[];
   warnings: string[];
   errors: string[];
   rowIndex: number;
@@ -385,8 +465,27 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
       // Fallback para estoque_variacao antigo
       const variantStockRaw = (row.variant_stock || '').trim();
 
-      // Determinar se tem variação
-      const hasVariant = Boolean(variantModel || variantColor || variantSku);
+      // Componentes do kit
+      const bundleComponents: BundleComponentRef[] = [];
+      const bundleRaw = (row.bundle_components || '').trim();
+      for (const entry of bundleRaw.split(';').map((e: string) => e.trim()).filter(Boolean)) {
+        const [skuPart, qtyPart] = entry.split(':').map((p: string) => p.trim());
+        const quantity = qtyPart ? parseInt(qtyPart, 10) : 1;
+        if (!skuPart || isNaN(quantity) || quantity <= 0) {
+          errors.push(`Componente do kit inválido na linha ${index + 2}: "${entry}"`);
+        } else if (bundleComponents.some(c => c.sku.toUpperCase() === skuPart.toUpperCase())) {
+          errors.push(`Componente do kit repetido na linha ${index + 2}: "${skuPart}"`);
+        } else {
+          bundleComponents.push({ sku: skuPart, quantity });
+        }
+      }
+      const isBundle = bundleComponents.length > 0;
+
+      // Determinar se tem variação (kit tem variação única, sem cor/modelo)
+      const hasVariant = !isBundle && Boolean(variantModel || variantColor || variantSku);
+      if (isBundle && (variantModel || variantColor || variantSku)) {
+        warnings.push('Kit: colunas de variação ignoradas, o estoque vem dos componentes');
+      }
 
       // Preço da variação com fallback
       let variantPrice = price;
@@ -423,6 +522,25 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
 
       const variantStock = stockCase1 + stockCali + stockCase2;
 
+      // Peso e dimensões (opcionais, devem ser positivos)
+      const parseMeasures = (prefix: '' | 'variant_', suffix: string): Measures => {
+        const measures: Measures = {};
+        for (const key of Object.keys(MEASURE_LABELS) as (keyof Measures)[]) {
+          const raw = (row[`${prefix}${key}`] || '').toString().trim();
+          if (!raw) continue;
+          const parsed = parseFloat(raw.replace(',', '.'));
+          if (isNaN(parsed) || parsed <= 0) {
+            errors.push(`${MEASURE_LABELS[key]}${suffix} inválido na linha ${index + 2}: "${raw}"`);
+          } else {
+            measures[key] = key === 'weight_grams' ? Math.round(parsed) : parsed;
+          }
+        }
+        return measures;
+      };
+
+      const measures = parseMeasures('', '');
+      const variantMeasures = parseMeasures('variant_', ' da variação');
+
       // Gerar SKU se variação existe mas SKU está vazio
       if (hasVariant && !variantSku && productName && (variantModel || variantColor)) {
         variantSku = generateSku(productName, variantModel, variantColor);
@@ -458,6 +576,10 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
         stockCali,
         stockCase2,
         variantStock,
+        measures,
+        variantMeasures,
+        isBundle,
+        bundleComponents,
         warnings,
         errors,
         rowIndex: index + 2,
@@ -591,6 +713,8 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
       let variantsCreated = 0;
       let variantsUpdated = 0;
       const jobItems: Omit<ImportJobItem, 'id'>[] = [];
+      // Kits são montados depois, para achar componentes criados nesta mesma planilha
+      const pendingBundles: { productId: string; row: ParsedRow }[] = [];
 
       for (const [key, rows] of productMap) {
         const firstRow = rows[0];
@@ -638,7 +762,13 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
             in_stock: firstRow.status === 'em_estoque',
             featured: firstRow.featured,
             image: firstRow.imageUrl,
+            ...firstRow.measures,
           };
+
+          // Import só liga o kit; desfazer kit é pelo formulário do produto
+          if (firstRow.isBundle) {
+            updateData.is_bundle = true;
+          }
           
           // Só atualiza código se estava vazio
           if (!existingProduct?.codigo_produto && codigoProduto) {
@@ -675,6 +805,8 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
               in_stock: firstRow.status === 'em_estoque',
               featured: firstRow.featured,
               image: firstRow.imageUrl,
+              is_bundle: firstRow.isBundle,
+              ...firstRow.measures,
             })
             .select('*')
             .single();
@@ -693,6 +825,10 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
           });
         }
 
+        if (firstRow.isBundle) {
+          pendingBundles.push({ productId, row: firstRow });
+        }
+
         // Processar variações
         for (const row of rows) {
           if (row.hasVariant && row.variantSku) {
@@ -715,6 +851,7 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
                 .from('product_variants')
                 .update({
                   stock_quantity: row.variantStock,
+                  ...row.variantMeasures,
                 })
                 .eq('id', existingVariant.id);
               
@@ -725,7 +862,7 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
                 entity_id: existingVariant.id,
                 action: 'updated',
                 previous_state: existingVariant,
-                new_state: { ...existingVariant, stock_quantity: row.variantStock },
+                new_state: { ...existingVariant, stock_quantity: row.variantStock, ...row.variantMeasures },
               });
             } else {
               // Criar variação
@@ -736,6 +873,7 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
                   model: row.variantModel || null,
                   color: row.variantColor || null,
                   stock_quantity: row.variantStock,
+                  ...row.variantMeasures,
                 })
                 .select('*')
                 .single();
@@ -812,6 +950,84 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
         }
       }
 
+      // Montar kits
+      const bundleErrors: string[] = [];
+      if (pendingBundles.length > 0) {
+        const { data: allVariants, error: allVariantsError } = await supabase
+          .from('product_variants')
+          .select('id, product_id, model, color, codigo_variacao, products!inner(name, is_bundle)');
+
+        if (allVariantsError) throw allVariantsError;
+
+        // SKU -> variação (código da variação ou SKU gerado como na exportação)
+        const skuIndex = new Map<string, string>();
+        for (const v of allVariants) {
+          if (v.products.is_bundle) continue;
+          skuIndex.set(generateSku(v.products.name, v.model || '', v.color || ''), v.id);
+          if (v.codigo_variacao) skuIndex.set(v.codigo_variacao.toUpperCase(), v.id);
+        }
+
+        for (const { productId, row } of pendingBundles) {
+          const components = row.bundleComponents.map(c => ({ ...c, variantId: skuIndex.get(c.sku.toUpperCase()) }));
+          const missing = components.filter(c => !c.variantId).map(c => c.sku);
+          if (missing.length > 0) {
+            bundleErrors.push(`${row.productName}: componente não encontrado (${missing.join(', ')})`);
+            continue;
+          }
+
+          // Variação única do kit
+          const hasKitVariant = allVariants.some(v => v.product_id === productId && !v.model && !v.color);
+          if (!hasKitVariant) {
+            const { data: kitVariant, error: kitVariantError } = await supabase
+              .from('product_variants')
+              .insert({ product_id: productId, model: null, color: null, stock_quantity: 0 })
+              .select('*')
+              .single();
+
+            if (kitVariantError) throw kitVariantError;
+            variantsCreated++;
+
+            jobItems.push({
+              entity_type: 'product_variant',
+              entity_id: kitVariant.id,
+              action: 'created',
+              previous_state: null,
+              new_state: kitVariant,
+            });
+          }
+
+          const { data: previousItems } = await supabase
+            .from('product_bundle_items')
+            .select('component_variant_id, quantity, display_order')
+            .eq('bundle_product_id', productId);
+
+          await supabase.from('product_bundle_items').delete().eq('bundle_product_id', productId);
+
+          const newItems = components.map((c, index) => ({
+            component_variant_id: c.variantId!,
+            quantity: c.quantity,
+            display_order: index,
+          }));
+
+          const { error: bundleError } = await supabase
+            .from('product_bundle_items')
+            .insert(newItems.map(item => ({ ...item, bundle_product_id: productId })));
+
+          if (bundleError) {
+            bundleErrors.push(`${row.productName}: ${bundleError.message}`);
+            continue;
+          }
+
+          jobItems.push({
+            entity_type: 'product_bundle',
+            entity_id: productId,
+            action: previousItems && previousItems.length > 0 ? 'updated' : 'created',
+            previous_state: { components: previousItems || [] },
+            new_state: { components: newItems },
+          });
+        }
+      }
+
       // Salvar job de importação
       const { data: importJob, error: jobError } = await supabase
         .from('import_jobs')
@@ -850,6 +1066,9 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
       toast.success(
         `Importação concluída: ${productsCreated} produtos criados, ${productsUpdated} atualizados, ${variantsCreated} variações criadas`
       );
+      if (bundleErrors.length > 0) {
+        toast.warning(`Kits não montados: ${bundleErrors.join(' · ')}`);
+      }
       setImportComplete(true);
       queryClient.invalidateQueries({ queryKey: ['admin-products'] });
       queryClient.invalidateQueries({ queryKey: ['products'] });
@@ -883,6 +1102,20 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
 
       if (stocksError) throw stocksError;
 
+      const { data: bundleItems, error: bundleItemsError } = await supabase
+        .from('product_bundle_items')
+        .select('bundle_product_id, component_variant_id, quantity')
+        .order('display_order');
+
+      if (bundleItemsError) throw bundleItemsError;
+
+      const variantSku = (variantId: string): string => {
+        const variant = (variants || []).find(v => v.id === variantId);
+        if (!variant) return '';
+        const product = (products || []).find(p => p.id === variant.product_id);
+        return variant.codigo_variacao || generateSku(product?.name || '', variant.model || '', variant.color || '');
+      };
+
       // Criar mapa de estoques por variante e loja
       const stockMap = new Map<string, Record<string, number>>();
       for (const ss of storeStocks || []) {
@@ -896,6 +1129,8 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
         return stockMap.get(variantId)?.[storeId] ?? 0;
       };
 
+      const measureCell = (value: number | null): string => (value != null ? String(value) : '');
+
       // Construir linhas de exportação
       const exportRows: Record<string, string>[] = [];
       const columns = TEMPLATE_COLUMNS.completo;
@@ -903,7 +1138,27 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
       for (const product of products || []) {
         const productVariants = (variants || []).filter(v => v.product_id === product.id);
 
-        if (productVariants.length === 0) {
+        if (product.is_bundle) {
+          // Kit: uma linha, estoque vem dos componentes
+          exportRows.push({
+            id_produto: product.id,
+            codigo_produto: product.codigo_produto || '',
+            nome_produto: product.name,
+            categoria: product.category,
+            status: product.in_stock ? 'em_estoque' : 'esgotado',
+            preco: String(product.price),
+            destaque: product.featured ? 'true' : 'false',
+            url_imagem: product.image || '',
+            peso_g: measureCell(product.weight_grams),
+            altura_cm: measureCell(product.height_cm),
+            largura_cm: measureCell(product.width_cm),
+            comprimento_cm: measureCell(product.length_cm),
+            componentes_kit: (bundleItems || [])
+              .filter(item => item.bundle_product_id === product.id)
+              .map(item => `${variantSku(item.component_variant_id)}:${item.quantity}`)
+              .join('; '),
+          });
+        } else if (productVariants.length === 0) {
           // Produto simples
           exportRows.push({
             id_produto: product.id,
@@ -914,6 +1169,10 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
             preco: String(product.price),
             destaque: product.featured ? 'true' : 'false',
             url_imagem: product.image || '',
+            peso_g: measureCell(product.weight_grams),
+            altura_cm: measureCell(product.height_cm),
+            largura_cm: measureCell(product.width_cm),
+            comprimento_cm: measureCell(product.length_cm),
             modelo_variacao: '',
             cor_variacao: '',
             sku_variacao: '',
@@ -921,6 +1180,11 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
             estoque_case1: '',
             estoque_cali: '',
             estoque_case2: '',
+            peso_variacao_g: '',
+            altura_variacao_cm: '',
+            largura_variacao_cm: '',
+            comprimento_variacao_cm: '',
+            componentes_kit: '',
           });
         } else {
           // Produto com variações
@@ -934,6 +1198,10 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
               preco: String(product.price),
               destaque: product.featured ? 'true' : 'false',
               url_imagem: product.image || '',
+              peso_g: measureCell(product.weight_grams),
+              altura_cm: measureCell(product.height_cm),
+              largura_cm: measureCell(product.width_cm),
+              comprimento_cm: measureCell(product.length_cm),
               modelo_variacao: variant.model || '',
               cor_variacao: variant.color || '',
               sku_variacao: variant.codigo_variacao || generateSku(product.name, variant.model || '', variant.color || ''),
@@ -941,6 +1209,11 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
               estoque_case1: String(getStockForStore(variant.id, STORE_IDS.case1)),
               estoque_cali: String(getStockForStore(variant.id, STORE_IDS.cali)),
               estoque_case2: String(getStockForStore(variant.id, STORE_IDS.case2)),
+              peso_variacao_g: measureCell(variant.weight_grams),
+              altura_variacao_cm: measureCell(variant.height_cm),
+              largura_variacao_cm: measureCell(variant.width_cm),
+              comprimento_variacao_cm: measureCell(variant.length_cm),
+              componentes_kit: '',
             });
           }
         }
@@ -1014,7 +1287,36 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
 
       for (const item of (items || []) as ImportJobItem[]) {
         try {
-          if (item.action === 'created') {
+          if (item.entity_type === 'product_bundle') {
+            // Composição do kit: volta para a lista anterior (vazia se foi criada)
+            const { data: bundleProduct } = await supabase
+              .from('products')
+              .select('id')
+              .eq('id', item.entity_id)
+              .maybeSingle();
+
+            if (!bundleProduct) {
+              report.notFound++;
+              continue;
+            }
+
+            await supabase.from('product_bundle_items').delete().eq('bundle_product_id', item.entity_id);
+
+            const previousComponents = item.previous_state?.components || [];
+            if (previousComponents.length > 0) {
+              const { error: restoreError } = await supabase
+                .from('product_bundle_items')
+                .insert(previousComponents.map((c: { component_variant_id: string; quantity: number; display_order: number }) => ({
+                  ...c,
+                  bundle_product_id: item.entity_id,
+                })));
+
+              if (restoreError) throw restoreError;
+              report.restored++;
+            } else {
+              report.removed++;
+            }
+          } else if (item.action === 'created') {
             // Deletar entidade criada
             let table: 'products' | 'product_variants' | 'store_stock';
             if (item.entity_type === 'product') {
@@ -1220,6 +1522,11 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
                       Variação
                     </Badge>
                   )}
+                  {row.isBundle && (
+                    <Badge variant="secondary" className="text-xs">
+                      Kit
+                    </Badge>
+                  )}
                 </div>
                 <div className="text-sm text-muted-foreground">
                   {row.category} • R$ {row.price.toFixed(2)}
@@ -1228,6 +1535,11 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
                       {' '}• {row.variantModel} {row.variantColor}
                     </span>
                   )}
+                  {row.isBundle && (
+                    <span>
+                      {' '}• {row.bundleComponents.map(c => `${c.quantity}x ${c.sku}`).join(', ')}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
@@ -1301,6 +1613,7 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
                       <SelectItem value="simples">Produto simples (sem variações)</SelectItem>
                       <SelectItem value="variacoes">Produto com variações (modelo/cor/sku)</SelectItem>
                       <SelectItem value="completo">Completo (com extras)</SelectItem>
+                      <SelectItem value="kits">Kits / combos (componentes por SKU)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1553,7 +1866,11 @@ const ProductImportExport = ({ open, onOpenChange }: ProductImportExportProps) =
                       {item.action === 'created' ? 'Criado' : 'Atualizado'}
                     </Badge>
                     <Badge variant="outline">
-                      {item.entity_type === 'product' ? 'Produto' : 'Variação'}
+                      {item.entity_type === 'product'
+                        ? 'Produto'
+                        : item.entity_type === 'product_bundle'
+                        ? 'Kit'
+                        : 'Variação'}
                     </Badge>
                   </div>
                   <p className="text-sm text-muted-foreground truncate">
@@ -0,0 +1,350 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  useOrderRefunds,
+  REFUND_GATEWAY_LABELS,
+  REFUND_STATUS_LABELS,
+} from '@/hooks/useRefunds';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2 } from 'lucide-react';
+
+export interface RefundableOrder {
+  id: string;
+  total: number;
+  refunded_amount?: number | null;
+  payment_method?: string | null;
+  payment_gateway?: string | null;
+}
+
+interface RefundItem {
+  id: string;
+  product_name: string;
+  price: number;
+  quantity: number;
+  restocked_quantity: number;
+}
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: RefundableOrder | null;
+}
+
+type RefundMode = 'items' | 'amount';
+
+const formatPrice = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+export function RefundDialog({ open, onOpenChange, order }: RefundDialogProps) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<RefundMode>('items');
+  const [selected, setSelected] = useState<Record<string, number>>({});
+  const [customAmount, setCustomAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(false);
+  const [manual, setManual] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setMode('items');
+      setSelected({});
+      setCustomAmount('');
+      setReason('');
+      setRestock(false);
+      setManual(false);
+    }
+  }, [open]);
+
+  const { data: items = [], isLoading: itemsLoading } = useQuery({
+    queryKey: ['refund-order-items', order?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_items')
+        .select('id, product_name, price, quantity, restocked_quantity')
+        .eq('order_id', order!.id);
+      if (error) throw error;
+      return (data || []) as RefundItem[];
+    },
+    enabled: open && !!order,
+  });
+
+  const { refunds } = useOrderRefunds(order?.id, open);
+
+  const refunded = Number(order?.refunded_amount) || 0;
+  const available = Math.max(0, Math.round(((Number(order?.total) || 0) - refunded) * 100) / 100);
+
+  const itemsAmount = items.reduce(
+    (sum, item) => sum + (selected[item.id] || 0) * Number(item.price),
+    0,
+  );
+  const amount = mode === 'items'
+    ? Math.min(itemsAmount, available)
+    : parseFloat(customAmount.replace(',', '.')) || 0;
+
+  const canRestock = mode === 'items' && Object.keys(selected).length > 0;
+
+  const toggleItem = (item: RefundItem, checked: boolean) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[item.id] = item.quantity;
+      } else {
+        delete next[item.id];
+      }
+      return next;
+    });
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('refund-order', {
+        body: {
+          orderId: order!.id,
+          amount,
+          items: mode === 'items'
+            ? Object.entries(selected).map(([orderItemId, quantity]) => ({
+                order_item_id: orderItemId,
+                quantity,
+              }))
+            : [],
+          reason: reason.trim() || undefined,
+          restock: canRestock && restock,
+          manual,
+        },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Erro ao processar reembolso');
+      return data;
+    },
+    onSuccess: (data) => {
+      toast.success(
+        data.refund.status === 'pending'
+          ? 'Reembolso solicitado, aguardando confirmação do gateway'
+          : 'Reembolso realizado!',
+      );
+      queryClient.invalidateQueries({ queryKey: ['order-refunds', order?.id] });
+      queryClient.invalidateQueries({ queryKey: ['refund-order-items', order?.id] });
+      queryClient.invalidateQueries({ queryKey: ['admin-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['order-refunds', order?.id] });
+      toast.error(error.message || 'Erro ao processar reembolso');
+    },
+  });
+
+  const handleSubmit = () => {
+    if (mode === 'items' && Object.keys(selected).length === 0) {
+      toast.error('Selecione ao menos um item');
+      return;
+    }
+    if (amount <= 0) {
+      toast.error('Informe um valor válido');
+      return;
+    }
+    if (amount > available) {
+      toast.error(`O valor máximo para reembolso é ${formatPrice(available)}`);
+      return;
+    }
+    refundMutation.mutate();
+  };
+
+  if (!order) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reembolsar pedido</DialogTitle>
+          <DialogDescription>
+            Pedido #{order.id.slice(0, 8).toUpperCase()} · Total {formatPrice(Number(order.total))}
+            {refunded > 0 && ` · Já reembolsado ${formatPrice(refunded)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <RadioGroup
+            value={mode}
+            onValueChange={(value) => setMode(value as RefundMode)}
+            className="grid grid-cols-2 gap-2"
+          >
+            <Label
+              htmlFor="refund-mode-items"
+              className="flex items-center gap-2 rounded-lg border border-border p-3 cursor-pointer"
+            >
+              <RadioGroupItem id="refund-mode-items" value="items" />
+              Por item
+            </Label>
+            <Label
+              htmlFor="refund-mode-amount"
+              className="flex items-center gap-2 rounded-lg border border-border p-3 cursor-pointer"
+            >
+              <RadioGroupItem id="refund-mode-amount" value="amount" />
+              Valor livre
+            </Label>
+          </RadioGroup>
+
+          {mode === 'items' ? (
+            <div className="space-y-3">
+              {itemsLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                items.map((item) => {
+                  const quantity = selected[item.id];
+                  return (
+                    <div key={item.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                      <Checkbox
+                        id={`refund-item-${item.id}`}
+                        checked={quantity !== undefined}
+                        onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                      />
+                      <label htmlFor={`refund-item-${item.id}`} className="flex-1 text-sm cursor-pointer">
+                        <span className="font-medium">{item.product_name}</span>
+                        <span className="block text-muted-foreground">
+                          {item.quantity}x {formatPrice(Number(item.price))}
+                          {item.restocked_quantity > 0 && ` · ${item.restocked_quantity} já no estoque`}
+                        </span>
+                      </label>
+                      {quantity !== undefined && item.quantity > 1 && (
+                        <Input
+                          type="number"
+                          min={1}
+                          max={item.quantity}
+                          value={quantity}
+                          onChange={(e) =>
+                            setSelected((prev) => ({
+                              ...prev,
+                              [item.id]: Math.min(item.quantity, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                            }))
+                          }
+                          className="w-20"
+                        />
+                      )}
+                    </div>
+                  );
+                })
+              )}
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="refund-restock"
+                  checked={restock}
+                  disabled={!canRestock}
+                  onCheckedChange={(checked) => setRestock(checked === true)}
+                />
+                <Label htmlFor="refund-restock" className="font-normal">
+                  Devolver os itens ao estoque
+                </Label>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Valor do reembolso</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                max={available}
+                value={customAmount}
+                onChange={(e) => setCustomAmount(e.target.value)}
+                placeholder={`Até ${formatPrice(available)}`}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Motivo (opcional)</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex: produto com defeito, desistência..."
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="refund-manual"
+              checked={manual}
+              onCheckedChange={(checked) => setManual(checked === true)}
+            />
+            <Label htmlFor="refund-manual" className="font-normal leading-snug">
+              Apenas registrar estorno feito fora do gateway (ex: transferência Pix)
+            </Label>
+          </div>
+
+          <div className="flex justify-between rounded-lg bg-secondary/50 p-3 text-sm">
+            <span>
+              Valor a reembolsar
+              {!manual && order.payment_gateway && (
+                <span className="text-muted-foreground">
+                  {' '}via {REFUND_GATEWAY_LABELS[order.payment_gateway as keyof typeof REFUND_GATEWAY_LABELS] || order.payment_gateway}
+                </span>
+              )}
+            </span>
+            <span className="font-semibold">{formatPrice(amount)}</span>
+          </div>
+
+          {refunds.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <Label>Reembolsos anteriores</Label>
+                {refunds.map((refund) => (
+                  <div key={refund.id} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {format(new Date(refund.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                      {' · '}{REFUND_GATEWAY_LABELS[refund.gateway]}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      {formatPrice(Number(refund.amount))}
+                      <Badge variant={refund.status === 'failed' ? 'destructive' : 'secondary'}>
+                        {REFUND_STATUS_LABELS[refund.status]}
+                      </Badge>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={refundMutation.isPending || available <= 0}
+          >
+            {refundMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {manual ? 'Registrar reembolso' : 'Reembolsar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -41,6 +41,19 @@ export function ShippingLabel({ orderId, onClose }: ShippingLabelProps) {
     },
   });
 
+  // Fetch items (kits expand into their components for packing)
+  const { data: items = [], isLoading: itemsLoading } = useQuery({
+    queryKey: ['shipping-label-items', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_items')
+        .select('id, product_name, quantity, components:order_item_components(id, product_name, quantity, color, model)')
+        .eq('order_id', orderId);
+      if (error) throw error;
+      return data;
+    },
+  });
+
   // Fetch store settings for sender info
   const { data: settings, isLoading: settingsLoading } = useQuery({
     queryKey: ['shipping-label-settings'],
@@ -59,7 +72,7 @@ export function ShippingLabel({ orderId, onClose }: ShippingLabelProps) {
     window.print();
   };
 
-  if (orderLoading || settingsLoading) {
+  if (orderLoading || settingsLoading || itemsLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -87,6 +100,9 @@ export function ShippingLabel({ orderId, onClose }: ShippingLabelProps) {
   const senderAddress = settings?.store_pickup_address || 'Shopping RioMar, Av. República do Líbano, 251 - Piso L1, Recife - PE';
   const senderCep = '51110-160'; // CEP do RioMar Recife
 
+  const variantLabel = (color: string | null, model: string | null) =>
+    [color, model].filter(Boolean).join(' / ');
+
   return (
     <>
       {/* Print Styles */}
@@ -196,6 +212,30 @@ export function ShippingLabel({ orderId, onClose }: ShippingLabelProps) {
           )}
         </div>
 
+        {/* Conteúdo */}
+        {items.length > 0 && (
+          <div className="border-b-2 border-foreground/30 pb-3 mb-3">
+            <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">Conteúdo</p>
+            <ul className="text-xs space-y-0.5">
+              {items.map(item => (
+                <li key={item.id}>
+                  <span className="font-semibold">{item.quantity}×</span> {item.product_name}
+                  {item.components.length > 0 && (
+                    <ul className="pl-4">
+                      {item.components.map(component => (
+                        <li key={component.id}>
+                          ↳ {component.quantity * item.quantity}× {component.product_name}
+                          {variantLabel(component.color, component.model) && ` (${variantLabel(component.color, component.model)})`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Linha de Recorte */}
         <div className="flex items-center justify-center text-xs text-muted-foreground py-2 border-t border-dashed border-foreground/40">
           <span>✂️ Recorte aqui</span>
@@ -1,9 +1,10 @@
 import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { User, Loader2, Trash2, Package, Calendar, Phone, Shield, UserCog } from 'lucide-react';
+import { User, Loader2, Trash2, Package, Calendar, Phone, Shield, UserCog, IdCard } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
+import { maskDocument } from '@/lib/formatters';
 import {
   Dialog,
   DialogContent,
@@ -83,7 +84,7 @@ export function UserDetailsDialog({ user, open, onOpenChange }: UserDetailsDialo
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  // Fetch user's profile from profiles table to get created_at
+  // Fetch user's profile from profiles table to get created_at and document
   const { data: profileData } = useQuery({
     queryKey: ['user-profile-details', user?.user_id],
     queryFn: async () => {
@@ -91,7 +92,7 @@ export function UserDetailsDialog({ user, open, onOpenChange }: UserDetailsDialo
       
       const { data, error } = await supabase
         .from('profiles')
-        .select('created_at')
+        .select('created_at, document')
         .eq('user_id', user.user_id)
         .single();
       
@@ -286,6 +287,11 @@ export function UserDetailsDialog({ user, open, onOpenChange }: UserDetailsDialo
                     <span className="text-muted-foreground">Telefone:</span>
                     <span className="font-medium">{user.profile?.phone || '-'}</span>
                   </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <IdCard className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-muted-foreground">CPF/CNPJ:</span>
+                    <span className="font-medium">{maskDocument(profileData?.document) || '-'}</span>
+                  </div>
                   <div className="flex items-center gap-2 text-sm">
                     <Shield className="h-4 w-4 text-muted-foreground" />
                     <span className="text-muted-foreground">Permissão:</span>
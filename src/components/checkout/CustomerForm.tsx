@@ -5,6 +5,7 @@ import { Label } from "@/components/ui/label";
 interface FieldErrors {
   email?: string;
   phone?: string;
+  document?: string;
   firstName?: string;
   lastName?: string;
 }
@@ -14,11 +15,13 @@ interface CustomerFormProps {
   lastName: string;
   email: string;
   phone: string;
+  customerDocument: string;
   fieldErrors: FieldErrors;
   onFirstNameChange: (value: string) => void;
   onLastNameChange: (value: string) => void;
   onEmailChange: (value: string) => void;
   onPhoneChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onDocumentChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onFieldBlur: (field: keyof FieldErrors, value: string) => void;
 }
 
@@ -27,11 +30,13 @@ const CustomerForm = ({
   lastName,
   email,
   phone,
+  customerDocument,
   fieldErrors,
   onFirstNameChange,
   onLastNameChange,
   onEmailChange,
   onPhoneChange,
+  onDocumentChange,
   onFieldBlur,
 }: CustomerFormProps) => {
   return (
@@ -126,6 +131,30 @@ const CustomerForm = ({
           </p>
         )}
       </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="document" className="text-sm font-medium">
+          CPF ou CNPJ <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id="document"
+          inputMode="numeric"
+          required
+          placeholder="000.000.000-00"
+          value={customerDocument}
+          onChange={onDocumentChange}
+          onBlur={() => onFieldBlur("document", customerDocument)}
+          className={`h-11 ${fieldErrors.document ? "border-destructive focus-visible:ring-destructive" : ""}`}
+        />
+        {fieldErrors.document ? (
+          <p className="text-sm text-destructive flex items-center gap-1.5">
+            <AlertCircle className="h-3.5 w-3.5 flex-shrink-0" />
+            {fieldErrors.document}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">Usado na nota fiscal e no pagamento via Pix ou boleto.</p>
+        )}
+      </div>
     </section>
   );
 };
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useStoreSettings } from "@/hooks/useStoreSettings";
+import type { ShippingItem } from "@/components/shop/ShippingCalculator";
 
 export interface ShippingOption {
   service: string;
@@ -18,6 +19,7 @@ interface DeliveryMethodCardsProps {
   selectedOption: ShippingOption | null;
   onSelectOption: (option: ShippingOption) => void;
   itemsTotal: number;
+  items?: ShippingItem[];
   initialCep?: string;
   onCepChange?: (cep: string) => void;
   onCepValid?: (isValid: boolean) => void;
@@ -27,6 +29,7 @@ const DeliveryMethodCards = ({
   selectedOption,
   onSelectOption,
   itemsTotal,
+  items,
   initialCep = "",
   onCepChange,
   onCepValid,
@@ -152,7 +155,7 @@ const DeliveryMethodCards = ({
 
     try {
       const { data, error: fnError } = await supabase.functions.invoke("calculate-shipping", {
-        body: { cep_destino: cepClean, peso: 300 },
+        body: { cep_destino: cepClean, items },
       });
 
       if (fnError) throw fnError;
@@ -1,8 +1,9 @@
 import { useState } from "react";
-import { ChevronDown, ChevronUp, Ticket, UserCheck, X, Loader2, ShoppingBag } from "lucide-react";
+import { ChevronDown, ChevronUp, Ticket, UserCheck, X, Loader2, ShoppingBag, Award } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Collapsible,
   CollapsibleContent,
@@ -22,7 +23,10 @@ interface CartItem {
 
 interface AppliedCoupon {
   code: string;
+  discount_type: "percent" | "fixed" | "free_shipping";
   discount_percent: number;
+  free_shipping: boolean;
+  stacks_with_seller: boolean;
 }
 
 interface AppliedSeller {
@@ -31,6 +35,12 @@ interface AppliedSeller {
   discount_percent: number;
 }
 
+interface LoyaltyRedemption {
+  points?: number;
+  discount_amount?: number;
+  balance?: number;
+}
+
 interface ShippingOption {
   service: string;
   name: string;
@@ -60,6 +70,10 @@ interface OrderSummaryProps {
   onRemoveSeller: () => void;
   isProcessing: boolean;
   onFinalize: () => void;
+  loyaltyRedemption?: LoyaltyRedemption | null;
+  redeemPoints?: boolean;
+  onRedeemPointsChange?: (value: boolean) => void;
+  loyaltyDiscount?: number;
   compact?: boolean;
 }
 
@@ -67,6 +81,16 @@ const formatPrice = (price: number) => {
   return price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
 };
 
+const getCouponBadge = (coupon: AppliedCoupon, discountAmount: number) => {
+  if (coupon.free_shipping) return "Frete grátis";
+  if (coupon.discount_type === "fixed") return `-${formatPrice(discountAmount)}`;
+  return `-${coupon.discount_percent}%`;
+};
+
+const getCouponLabel = (coupon: AppliedCoupon) => {
+  return coupon.discount_type === "percent" ? `${coupon.discount_percent}%` : coupon.code;
+};
+
 const OrderSummary = ({
   items,
   total,
@@ -89,12 +113,19 @@ const OrderSummary = ({
   onRemoveSeller,
   isProcessing,
   onFinalize,
+  loyaltyRedemption = null,
+  redeemPoints = false,
+  onRedeemPointsChange,
+  loyaltyDiscount = 0,
   compact = false,
 }: OrderSummaryProps) => {
   const [isCouponOpen, setIsCouponOpen] = useState(false);
   const [isSellerOpen, setIsSellerOpen] = useState(false);
 
   const isPickup = selectedShipping?.service === "pickup";
+  const isCouponFreeShipping = !!appliedCoupon?.free_shipping && !isPickup;
+  const isSellerDiscountBlocked =
+    !!appliedCoupon && !appliedCoupon.stacks_with_seller && (appliedSeller?.discount_percent ?? 0) > 0;
 
   if (compact) {
     // Mobile collapsed version
@@ -143,9 +174,9 @@ const OrderSummary = ({
               <span>Subtotal</span>
               <span>{formatPrice(total)}</span>
             </div>
-            {appliedCoupon && (
+            {appliedCoupon && discountAmount > 0 && (
               <div className="flex justify-between text-sm text-primary">
-                <span>Cupom ({appliedCoupon.discount_percent}%)</span>
+                <span>Cupom ({getCouponLabel(appliedCoupon)})</span>
                 <span>-{formatPrice(discountAmount)}</span>
               </div>
             )}
@@ -155,10 +186,16 @@ const OrderSummary = ({
                 <span>-{formatPrice(sellerDiscount)}</span>
               </div>
             )}
+            {loyaltyDiscount > 0 && (
+              <div className="flex justify-between text-sm text-primary">
+                <span>Pontos ({loyaltyRedemption?.points})</span>
+                <span>-{formatPrice(loyaltyDiscount)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span>{isPickup ? "Retirada na loja" : "Frete"}</span>
               <span className={shipping === 0 ? "text-primary font-medium" : ""}>
-                {shipping === 0 ? "Grátis" : formatPrice(shipping)}
+                {shipping === 0 ? (isCouponFreeShipping ? "Grátis (cupom)" : "Grátis") : formatPrice(shipping)}
               </span>
             </div>
           </div>
@@ -222,7 +259,7 @@ const OrderSummary = ({
               <div className="flex items-center gap-2">
                 <Ticket className="h-4 w-4 text-primary" />
                 <span className="font-mono font-medium text-sm">{appliedCoupon.code}</span>
-                <span className="text-xs text-primary">-{appliedCoupon.discount_percent}%</span>
+                <span className="text-xs text-primary">{getCouponBadge(appliedCoupon, discountAmount)}</span>
               </div>
               <Button type="button" variant="ghost" size="sm" onClick={onRemoveCoupon} className="h-8 w-8 p-0">
                 <X className="h-4 w-4" />
@@ -304,18 +341,39 @@ const OrderSummary = ({
               </Button>
             </div>
           )}
+          {isSellerDiscountBlocked && (
+            <p className="text-xs text-muted-foreground mt-2">
+              O desconto do vendedor não é cumulativo com este cupom
+            </p>
+          )}
         </CollapsibleContent>
       </Collapsible>
 
+      {/* Loyalty Points */}
+      {loyaltyRedemption && onRedeemPointsChange && (
+        <div className="flex items-center justify-between gap-3 py-3 border-t border-border">
+          <Label htmlFor="redeem-points" className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+            <Award className="h-4 w-4" />
+            <span>
+              Usar {loyaltyRedemption.points} pontos
+              <span className="block text-xs text-muted-foreground font-normal">
+                -{formatPrice(Number(loyaltyRedemption.discount_amount || 0))} · saldo {loyaltyRedemption.balance} pontos
+              </span>
+            </span>
+          </Label>
+          <Switch id="redeem-points" checked={redeemPoints} onCheckedChange={onRedeemPointsChange} />
+        </div>
+      )}
+
       {/* Totals */}
       <div className="border-t border-border pt-4 space-y-2">
         <div className="flex justify-between text-sm">
           <span>Subtotal</span>
           <span>{formatPrice(total)}</span>
         </div>
-        {appliedCoupon && (
+        {appliedCoupon && discountAmount > 0 && (
           <div className="flex justify-between text-sm text-primary">
-            <span>Desconto cupom ({appliedCoupon.discount_percent}%)</span>
+            <span>Desconto cupom ({getCouponLabel(appliedCoupon)})</span>
             <span>-{formatPrice(discountAmount)}</span>
           </div>
         )}
@@ -325,6 +383,12 @@ const OrderSummary = ({
             <span>-{formatPrice(sellerDiscount)}</span>
           </div>
         )}
+        {loyaltyDiscount > 0 && (
+          <div className="flex justify-between text-sm text-primary">
+            <span>Pontos de fidelidade ({loyaltyRedemption?.points})</span>
+            <span>-{formatPrice(loyaltyDiscount)}</span>
+          </div>
+        )}
         <div className="flex justify-between text-sm">
           <span>
             {isPickup ? "Retirada na loja" : "Frete"}
@@ -333,7 +397,7 @@ const OrderSummary = ({
             )}
           </span>
           <span className={shipping === 0 ? "text-primary font-medium" : ""}>
-            {shipping === 0 ? "Grátis" : formatPrice(shipping)}
+            {shipping === 0 ? (isCouponFreeShipping ? "Grátis (cupom)" : "Grátis") : formatPrice(shipping)}
           </span>
         </div>
         {selectedShipping?.delivery_range && (
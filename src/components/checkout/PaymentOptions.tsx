@@ -1,21 +1,28 @@
-import { CreditCard, QrCode, Lock, Loader2 } from "lucide-react";
+import { CreditCard, Barcode, Lock, Loader2, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import type { PaymentGatewayName } from "@/hooks/useStoreSettings";
+import { formatInstallmentOffer, type InstallmentOffer } from "@/lib/installments";
+
+export type PaymentMethod = "card" | "pix" | "boleto";
 
 interface PaymentOptionsProps {
-  isProcessingStripe: boolean;
-  isProcessingMercadoPago: boolean;
+  gateways: Record<PaymentMethod, PaymentGatewayName>;
+  installmentOffer: InstallmentOffer | null;
+  processingMethod: PaymentMethod | null;
   isProcessing: boolean;
-  onStripeClick: () => void;
-  onMercadoPagoClick: () => void;
+  onSelect: (method: PaymentMethod) => void;
 }
 
-const PaymentOptions = ({
-  isProcessingStripe,
-  isProcessingMercadoPago,
-  isProcessing,
-  onStripeClick,
-  onMercadoPagoClick,
-}: PaymentOptionsProps) => {
+const GATEWAY_LABELS: Record<PaymentGatewayName, string> = {
+  stripe: "Stripe",
+  mercadopago: "Mercado Pago",
+  pagseguro: "PagSeguro",
+};
+
+const PaymentOptions = ({ gateways, installmentOffer, processingMethod, isProcessing, onSelect }: PaymentOptionsProps) => {
+  // Only Mercado Pago shows the Pix QR code on this page
+  const isInPagePix = gateways.pix === "mercadopago";
+
   return (
     <section className="space-y-4">
       <div>
@@ -30,16 +37,41 @@ const PaymentOptions = ({
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-        {/* Stripe Button */}
+        {/* Pix Button */}
+        <Button
+          type="button"
+          data-testid="pay-pix-btn"
+          size="lg"
+          onClick={() => onSelect("pix")}
+          disabled={isProcessing}
+          className="sm:col-span-2 h-auto min-h-[72px] py-4 flex flex-col items-center justify-center gap-1.5 bg-[#32BCAD] hover:bg-[#2a9d91] text-white focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[#32BCAD]"
+        >
+          {processingMethod === "pix" ? (
+            <>
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-sm">{isInPagePix ? "Gerando Pix..." : "Redirecionando..."}</span>
+            </>
+          ) : (
+            <>
+              <Zap className="h-5 w-5" />
+              <span className="font-semibold text-sm">Pagar com Pix</span>
+              <span className="text-xs opacity-80">
+                {isInPagePix ? "QR code aqui mesmo, aprovação na hora" : `Aprovação na hora, via ${GATEWAY_LABELS[gateways.pix]}`}
+              </span>
+            </>
+          )}
+        </Button>
+
+        {/* Card Button */}
         <Button
           type="button"
-          data-testid="pay-stripe-btn"
+          data-testid="pay-card-btn"
           size="lg"
-          onClick={onStripeClick}
+          onClick={() => onSelect("card")}
           disabled={isProcessing}
           className="h-auto min-h-[72px] py-4 flex flex-col items-center justify-center gap-1.5 bg-[#635BFF] hover:bg-[#5046e5] text-white focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[#635BFF]"
         >
-          {isProcessingStripe ? (
+          {processingMethod === "card" ? (
             <>
               <Loader2 className="h-5 w-5 animate-spin" />
               <span className="text-sm">Redirecionando...</span>
@@ -47,38 +79,40 @@ const PaymentOptions = ({
           ) : (
             <>
               <CreditCard className="h-5 w-5" />
-              <span className="font-semibold text-sm">Pagar com Stripe</span>
-              <span className="text-xs opacity-80">Cartão de crédito</span>
+              <span className="font-semibold text-sm">Cartão de crédito</span>
+              <span className="text-xs opacity-80">
+                {installmentOffer ? formatInstallmentOffer(installmentOffer) : `via ${GATEWAY_LABELS[gateways.card]}`}
+              </span>
             </>
           )}
         </Button>
 
-        {/* Mercado Pago Button */}
+        {/* Boleto Button */}
         <Button
           type="button"
-          data-testid="pay-mercadopago-btn"
+          data-testid="pay-boleto-btn"
           size="lg"
-          onClick={onMercadoPagoClick}
+          onClick={() => onSelect("boleto")}
           disabled={isProcessing}
           className="h-auto min-h-[72px] py-4 flex flex-col items-center justify-center gap-1.5 bg-[#009EE3] hover:bg-[#007eb8] text-white focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[#009EE3]"
         >
-          {isProcessingMercadoPago ? (
+          {processingMethod === "boleto" ? (
             <>
               <Loader2 className="h-5 w-5 animate-spin" />
               <span className="text-sm">Redirecionando...</span>
             </>
           ) : (
             <>
-              <QrCode className="h-5 w-5" />
-              <span className="font-semibold text-sm">Pagar com Mercado Pago</span>
-              <span className="text-xs opacity-80">Cartão, Pix e Boleto</span>
+              <Barcode className="h-5 w-5" />
+              <span className="font-semibold text-sm">Boleto</span>
+              <span className="text-xs opacity-80">via {GATEWAY_LABELS[gateways.boleto]}</span>
             </>
           )}
         </Button>
       </div>
 
       <p className="text-xs text-center text-muted-foreground">
-        Você será redirecionado para o gateway de pagamento escolhido
+        No cartão e no boleto você será redirecionado para a página segura do gateway de pagamento
       </p>
     </section>
   );
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { QrCode, Copy, Check, Clock, Loader2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { formatPrice } from "@/lib/formatters";
+import { toast } from "sonner";
+
+export interface PixChargeData {
+  orderId: string;
+  token: string;
+  qrCode: string;
+  amount: number;
+  expiresAt: string;
+}
+
+interface PixPaymentProps {
+  charge: PixChargeData;
+  onPaid: () => void;
+  onRestart: () => void;
+}
+
+// get-order-confirmation allows 10 requests/min per IP
+const POLL_INTERVAL_MS = 8000;
+
+const secondsLeft = (expiresAt: string) => Math.max(0, Math.floor((new Date(expiresAt).getTime() - Date.now()) / 1000));
+
+const formatCountdown = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+
+const PixPayment = ({ charge, onPaid, onRestart }: PixPaymentProps) => {
+  const [remaining, setRemaining] = useState(() => secondsLeft(charge.expiresAt));
+  const [expired, setExpired] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setRemaining(secondsLeft(charge.expiresAt)), 1000);
+    return () => clearInterval(timer);
+  }, [charge.expiresAt]);
+
+  // Wait for mercadopago-webhook to confirm the payment
+  useEffect(() => {
+    if (expired) return;
+
+    const checkStatus = async () => {
+      const { data, error } = await supabase.functions.invoke("get-order-confirmation", {
+        body: { order_id: charge.orderId, token: charge.token },
+      });
+      if (error || !data?.order) return;
+
+      if (data.order.payment_status === "paid") {
+        onPaid();
+      } else if (data.order.status === "cancelled" || ["expired", "failed"].includes(data.order.payment_status)) {
+        setExpired(true);
+      } else if (secondsLeft(charge.expiresAt) === 0) {
+        // Last check after the deadline came back unpaid
+        setExpired(true);
+      }
+    };
+
+    const poller = setInterval(checkStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(poller);
+  }, [charge.orderId, charge.token, charge.expiresAt, expired, onPaid]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(charge.qrCode);
+      setCopied(true);
+      toast.success("Código Pix copiado");
+      setTimeout(() => setCopied(false), 3000);
+    } catch {
+      toast.error("Não foi possível copiar. Selecione o código e copie manualmente.");
+    }
+  };
+
+  if (expired) {
+    return (
+      <section className="space-y-4" data-testid="pix-expired">
+        <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-6 text-center space-y-3">
+          <AlertCircle className="h-10 w-10 text-destructive mx-auto" />
+          <h2 className="text-lg font-semibold">Pix expirado</h2>
+          <p className="text-sm text-muted-foreground">
+            O prazo para pagamento terminou e o pedido foi cancelado. Seus itens continuam na sacola.
+          </p>
+          <Button type="button" onClick={onRestart}>Escolher forma de pagamento</Button>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-4" data-testid="pix-payment">
+      <div>
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Pague com Pix
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Escaneie o QR code no app do seu banco ou use o Pix copia e cola
+        </p>
+      </div>
+
+      <div className="rounded-lg border p-6 space-y-5">
+        <div className="flex flex-col items-center gap-3">
+          <div className="bg-white p-3 rounded-lg">
+            <QRCodeSVG value={charge.qrCode} size={200} level="M" />
+          </div>
+          <p className="text-2xl font-bold">{formatPrice(charge.amount)}</p>
+          <p className={`text-sm flex items-center gap-1.5 ${remaining < 120 ? "text-destructive" : "text-muted-foreground"}`}>
+            <Clock className="h-4 w-4" />
+            {remaining > 0 ? <>Expira em <span className="font-mono font-semibold">{formatCountdown(remaining)}</span></> : "Verificando pagamento..."}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Pix copia e cola</p>
+          <div className="flex gap-2">
+            <Input readOnly value={charge.qrCode} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" onClick={handleCopy} data-testid="pix-copy-btn">
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              <span className="ml-2">{copied ? "Copiado" : "Copiar"}</span>
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Aguardando pagamento. A confirmação aparece aqui automaticamente.
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default PixPayment;
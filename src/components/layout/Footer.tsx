@@ -45,7 +45,7 @@ const Footer = () => {
                 <li><Link to="/shop" className="hover:text-sidebar-primary transition-colors">Todos os Produtos</Link></li>
                 <li><Link to="/shop?category=tech" className="hover:text-sidebar-primary transition-colors">Tech</Link></li>
                 <li><Link to="/shop?category=acessorios" className="hover:text-sidebar-primary transition-colors">Acessórios</Link></li>
-                <li><Link to="/shop?sale=true" className="hover:text-sidebar-primary transition-colors">Promoções</Link></li>
+                <li><Link to="/shop?on_sale=1" className="hover:text-sidebar-primary transition-colors">Promoções</Link></li>
               </ul>
             </div>
             <div>
@@ -117,7 +117,7 @@ const Footer = () => {
               <li><Link to="/shop" className="hover:text-sidebar-primary transition-colors">Todos os Produtos</Link></li>
               <li><Link to="/shop?category=tech" className="hover:text-sidebar-primary transition-colors">Tech</Link></li>
               <li><Link to="/shop?category=acessorios" className="hover:text-sidebar-primary transition-colors">Acessórios</Link></li>
-              <li><Link to="/shop?sale=true" className="hover:text-sidebar-primary transition-colors">Promoções</Link></li>
+              <li><Link to="/shop?on_sale=1" className="hover:text-sidebar-primary transition-colors">Promoções</Link></li>
             </ul>
           </div>
 
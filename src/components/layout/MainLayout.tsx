@@ -1,6 +1,7 @@
 import Header from './Header';
 import Footer from './Footer';
 import WhatsAppButton from './WhatsAppButton';
+import CompareTray from '@/components/products/CompareTray';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -21,6 +22,7 @@ const MainLayout = ({ children }: MainLayoutProps) => {
         {children}
       </main>
       <Footer />
+      <CompareTray />
       <WhatsAppButton />
     </div>
   );
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Bell, Check, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+interface BackInStockFormProps {
+  variantId: string;
+}
+
+// "Avise-me" for sold out variants: logged-in customers use their account email
+const BackInStockForm = ({ variantId }: BackInStockFormProps) => {
+  const { user } = useAuth();
+  const [email, setEmail] = useState('');
+  const [subscribedVariant, setSubscribedVariant] = useState<string | null>(null);
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('subscribe_back_in_stock', {
+        p_variant_id: variantId,
+        p_email: user ? undefined : email.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setSubscribedVariant(variantId);
+      toast.success('Pronto! Vamos te avisar por email quando voltar 🔔');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao registrar aviso');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user && !email.trim()) {
+      toast.error('Informe seu email');
+      return;
+    }
+    subscribeMutation.mutate();
+  };
+
+  if (subscribedVariant === variantId) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-border bg-secondary/50 p-4 text-sm">
+        <Check className="h-4 w-4 text-primary" />
+        Você será avisado quando esta variação voltar ao estoque.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-border p-4">
+      <div>
+        <p className="font-medium">Esgotou! Quer que a gente te avise?</p>
+        <p className="text-sm text-muted-foreground">
+          {user ? `Enviaremos um email para ${user.email} quando voltar.` : 'Deixe seu email e avisamos quando voltar.'}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {!user && (
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="seu@email.com"
+            maxLength={255}
+            required
+          />
+        )}
+        <Button type="submit" variant="outline" disabled={subscribeMutation.isPending} className={user ? 'w-full' : ''}>
+          {subscribeMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Bell className="h-4 w-4 mr-2" />
+          )}
+          Avise-me
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default BackInStockForm;
@@ -0,0 +1,62 @@
+import { GitCompareArrows } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCompare } from '@/hooks/useCompare';
+import { cn } from '@/lib/utils';
+
+interface CompareButtonProps {
+  product: {
+    id: string;
+    name: string;
+    image: string | null;
+  };
+  variant?: 'icon' | 'default';
+  className?: string;
+}
+
+const CompareButton = ({ product, variant = 'icon', className }: CompareButtonProps) => {
+  const { isInCompare, toggleCompare } = useCompare();
+  const isCompared = isInCompare(product.id);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    toggleCompare({
+      id: product.id,
+      name: product.name,
+      image: product.image || '/placeholder.svg',
+    });
+  };
+
+  if (variant === 'icon') {
+    return (
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          "h-9 w-9 rounded-full bg-background/80 hover:bg-background backdrop-blur-sm transition-all",
+          isCompared && "text-primary",
+          className
+        )}
+        onClick={handleClick}
+        aria-label={isCompared ? "Remover do comparador" : "Adicionar ao comparador"}
+        aria-pressed={isCompared}
+      >
+        <GitCompareArrows className="h-5 w-5" />
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      variant={isCompared ? "default" : "outline"}
+      className={cn("gap-2", className)}
+      onClick={handleClick}
+      aria-pressed={isCompared}
+    >
+      <GitCompareArrows className="h-4 w-4" />
+      {isCompared ? "No Comparador" : "Comparar"}
+    </Button>
+  );
+};
+
+export default CompareButton;
@@ -0,0 +1,72 @@
+import { Link, useLocation } from 'react-router-dom';
+import { GitCompareArrows, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCompare } from '@/hooks/useCompare';
+
+const CompareTray = () => {
+  const { items, removeFromCompare, clearCompare, maxItems } = useCompare();
+  const { pathname } = useLocation();
+
+  if (items.length === 0 || pathname === '/compare') return null;
+
+  return (
+    <div
+      className="fixed bottom-4 left-4 right-20 sm:left-6 sm:right-auto z-40 bg-card border border-border rounded-xl shadow-lg p-3 animate-fade-in"
+      role="region"
+      aria-label="Comparador de produtos"
+    >
+      <div className="flex items-center gap-3">
+        <div className="flex gap-2">
+          {Array.from({ length: maxItems }).map((_, index) => {
+            const item = items[index];
+            if (!item) {
+              return (
+                <div
+                  key={index}
+                  className="h-12 w-12 rounded-md border border-dashed border-border bg-muted/50"
+                  aria-hidden="true"
+                />
+              );
+            }
+            return (
+              <div key={item.id} className="relative h-12 w-12">
+                <img
+                  src={item.image}
+                  alt={item.name}
+                  className="h-12 w-12 rounded-md object-cover border border-border"
+                />
+                <button
+                  onClick={() => removeFromCompare(item.id)}
+                  className="absolute -top-1.5 -right-1.5 h-5 w-5 rounded-full bg-background border border-border flex items-center justify-center hover:bg-muted"
+                  aria-label={`Remover ${item.name} do comparador`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex flex-col gap-1">
+          {items.length < 2 ? (
+            <Button size="sm" disabled className="gap-1.5">
+              <GitCompareArrows className="h-4 w-4" />
+              Adicione mais 1
+            </Button>
+          ) : (
+            <Button size="sm" asChild className="gap-1.5">
+              <Link to="/compare">
+                <GitCompareArrows className="h-4 w-4" />
+                Comparar ({items.length})
+              </Link>
+            </Button>
+          )}
+          <button onClick={clearCompare} className="text-xs text-muted-foreground hover:text-primary">
+            Limpar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareTray;
@@ -0,0 +1,209 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Plus, ShoppingCart } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useCart, type CartItem } from "@/contexts/CartContext";
+import { usePromotions } from "@/hooks/usePromotions";
+import { formatPrice } from "@/lib/formatters";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Product } from "@/types/product";
+
+const MAX_SUGGESTIONS = 2;
+
+interface SuggestionVariant {
+  id: string;
+  product_id: string;
+  color: string | null;
+  model: string | null;
+  stock_quantity: number;
+}
+
+interface FrequentlyBoughtTogetherProps {
+  product: Pick<Product, "id" | "name" | "image" | "price" | "original_price">;
+  // Current selection on the page; null while color/model/size is missing or out of stock
+  currentItem: Omit<CartItem, "quantity"> | null;
+}
+
+const variantLabel = (variant: SuggestionVariant) =>
+  [variant.color, variant.model].filter(Boolean).join(" / ") || "Padrão";
+
+const FrequentlyBoughtTogether = ({ product, currentItem }: FrequentlyBoughtTogetherProps) => {
+  const { addItem } = useCart();
+  const { getEffectivePrice } = usePromotions();
+  const [unchecked, setUnchecked] = useState<Set<string>>(new Set());
+  const [chosenVariants, setChosenVariants] = useState<Record<string, string>>({});
+
+  const { data } = useQuery({
+    queryKey: ["product-recommendations", product.id],
+    queryFn: async () => {
+      const { data: recommendations, error } = await supabase
+        .from("product_recommendations")
+        .select("recommended_product_id, product:products!product_recommendations_recommended_product_id_fkey(*)")
+        .eq("product_id", product.id)
+        .order("rank")
+        .limit(8);
+      if (error) throw error;
+
+      const products = recommendations.map(r => r.product as Product);
+      if (products.length === 0) return { products, variants: [] as SuggestionVariant[] };
+
+      const { data: variants, error: variantsError } = await supabase
+        .from("product_variants")
+        .select("id, product_id, color, model, stock_quantity")
+        .in("product_id", products.map(p => p.id));
+      if (variantsError) throw variantsError;
+
+      return { products, variants: variants as SuggestionVariant[] };
+    },
+  });
+
+  // One-click add needs a ready-to-buy option: skip size pickers and sold-out items
+  const suggestions = useMemo(() => {
+    if (!data) return [];
+    return data.products
+      .map(p => ({
+        product: p,
+        variants: data.variants
+          .filter(v => v.product_id === p.id && v.stock_quantity > 0)
+          .sort((a, b) => variantLabel(a).localeCompare(variantLabel(b))),
+        hasVariants: data.variants.some(v => v.product_id === p.id),
+      }))
+      .filter(s => !s.product.sizes?.length && s.product.in_stock !== false && (!s.hasVariants || s.variants.length > 0))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [data]);
+
+  if (suggestions.length === 0) return null;
+
+  const selectedVariant = (productId: string, variants: SuggestionVariant[]) =>
+    variants.find(v => v.id === chosenVariants[productId]) || variants[0];
+
+  const mainChecked = !unchecked.has(product.id);
+  const mainPrice = currentItem?.price ?? getEffectivePrice(product).price;
+
+  const lines = suggestions.map(s => {
+    const variant = selectedVariant(s.product.id, s.variants);
+    return {
+      ...s,
+      variant,
+      checked: !unchecked.has(s.product.id),
+      price: getEffectivePrice(s.product, variant?.id).price,
+    };
+  });
+
+  const checkedLines = lines.filter(l => l.checked);
+  const total = (mainChecked ? mainPrice : 0) + checkedLines.reduce((sum, l) => sum + l.price, 0);
+  const count = (mainChecked ? 1 : 0) + checkedLines.length;
+
+  const toggle = (productId: string, checked: boolean) => {
+    setUnchecked(prev => {
+      const next = new Set(prev);
+      if (checked) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const handleAddAll = () => {
+    if (mainChecked && !currentItem) {
+      toast.error("Escolha as opções deste produto antes de adicionar o combo");
+      return;
+    }
+
+    if (mainChecked && currentItem) addItem(currentItem);
+    for (const line of checkedLines) {
+      addItem({
+        id: line.product.id,
+        name: line.product.name,
+        price: line.price,
+        image: line.product.image || "/placeholder.svg",
+        color: line.variant?.color || undefined,
+        model: line.variant?.model || undefined,
+      });
+    }
+    toast.success(`${count} ${count === 1 ? "produto adicionado" : "produtos adicionados"} à sacola! 🛍️`);
+  };
+
+  return (
+    <div className="mt-16 pt-8 border-t border-border space-y-6">
+      <h2 className="text-2xl font-bold">Compre junto</h2>
+
+      <div className="bg-card border border-border rounded-2xl p-6 flex flex-col lg:flex-row lg:items-center gap-6">
+        {/* Thumbnails */}
+        <div className="flex items-center gap-3">
+          {[product, ...suggestions.map(s => s.product)].map((p, index) => (
+            <div key={p.id} className="flex items-center gap-3">
+              {index > 0 && <Plus className="h-4 w-4 text-muted-foreground flex-shrink-0" />}
+              <Link
+                to={`/product/${p.id}`}
+                className={`w-20 h-20 rounded-lg overflow-hidden bg-muted flex-shrink-0 transition-opacity ${
+                  unchecked.has(p.id) ? "opacity-40" : ""
+                }`}
+              >
+                <img src={p.image || "/placeholder.svg"} alt={p.name} className="h-full w-full object-cover" />
+              </Link>
+            </div>
+          ))}
+        </div>
+
+        {/* Items */}
+        <div className="flex-1 space-y-3">
+          <label className="flex items-center gap-3 text-sm">
+            <Checkbox checked={mainChecked} onCheckedChange={checked => toggle(product.id, checked === true)} />
+            <span className="flex-1">
+              <span className="font-medium">Este produto:</span> {product.name}
+            </span>
+            <span className="font-semibold">{formatPrice(mainPrice)}</span>
+          </label>
+          {lines.map(line => (
+            <div key={line.product.id} className="flex flex-wrap items-center gap-3 text-sm">
+              <Checkbox
+                id={`buy-together-${line.product.id}`}
+                checked={line.checked}
+                onCheckedChange={checked => toggle(line.product.id, checked === true)}
+              />
+              <label htmlFor={`buy-together-${line.product.id}`} className="flex-1 min-w-0 truncate">
+                {line.product.name}
+              </label>
+              {line.variants.length > 1 && (
+                <Select
+                  value={line.variant?.id}
+                  onValueChange={value => setChosenVariants(prev => ({ ...prev, [line.product.id]: value }))}
+                >
+                  <SelectTrigger className="h-8 w-[160px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {line.variants.map(v => (
+                      <SelectItem key={v.id} value={v.id}>
+                        {variantLabel(v)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <span className="font-semibold">{formatPrice(line.price)}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Total */}
+        <div className="lg:w-56 space-y-3 lg:border-l lg:border-border lg:pl-6">
+          <div>
+            <p className="text-sm text-muted-foreground">Total de {count} {count === 1 ? "item" : "itens"}</p>
+            <p className="text-2xl font-bold">{formatPrice(total)}</p>
+          </div>
+          <Button className="w-full bg-gradient-ocean text-primary-foreground" disabled={count === 0} onClick={handleAddAll}>
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Adicionar todos
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FrequentlyBoughtTogether;
@@ -5,7 +5,11 @@ import useEmblaCarousel from "embla-carousel-react";
 import Autoplay from "embla-carousel-autoplay";
 import { Badge } from "@/components/ui/badge";
 import WishlistButton from "@/components/products/WishlistButton";
+import CompareButton from "@/components/products/CompareButton";
 import { formatPrice } from "@/lib/formatters";
+import { formatInstallmentOffer, getInstallmentOffer } from "@/lib/installments";
+import { usePromotions } from "@/hooks/usePromotions";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
 import type { Product } from "@/types/product";
 
 interface ProductCardProps {
@@ -15,9 +19,13 @@ interface ProductCardProps {
 const ProductCard = ({ product }: ProductCardProps) => {
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [isHovered, setIsHovered] = useState(false);
+  const { getEffectivePrice } = usePromotions();
+  const { settings } = useStoreSettings();
 
-  const discount = product.original_price
-    ? Math.round(((product.original_price - product.price) / product.original_price) * 100)
+  const { price, compareAtPrice } = getEffectivePrice(product);
+  const installmentOffer = getInstallmentOffer(price, settings);
+  const discount = compareAtPrice
+    ? Math.round(((compareAtPrice - price) / compareAtPrice) * 100)
     : 0;
 
   // Get all images for the carousel
@@ -121,13 +129,14 @@ const ProductCard = ({ product }: ProductCardProps) => {
             </Badge>
           )}
 
-          {/* Wishlist Button with Slide-in Animation */}
+          {/* Wishlist and Compare Buttons with Slide-in Animation */}
           <div
-            className={`absolute top-2 right-2 sm:top-3 sm:right-3 z-10 transition-all duration-300 ${
+            className={`absolute top-2 right-2 sm:top-3 sm:right-3 z-10 flex flex-col gap-2 transition-all duration-300 ${
               isHovered ? "opacity-100 translate-x-0" : "opacity-0 translate-x-4 sm:opacity-0"
             }`}
           >
             <WishlistButton productId={product.id} />
+            <CompareButton product={product} />
           </div>
 
           {/* Quick View Overlay */}
@@ -172,14 +181,17 @@ const ProductCard = ({ product }: ProductCardProps) => {
                 isHovered ? "scale-105 sm:scale-110" : "scale-100"
               }`}
             >
-              {formatPrice(product.price)}
+              {formatPrice(price)}
             </span>
-            {product.original_price && (
+            {compareAtPrice && (
               <span className="text-[10px] sm:text-sm text-muted-foreground line-through">
-                {formatPrice(product.original_price)}
+                {formatPrice(compareAtPrice)}
               </span>
             )}
           </div>
+          {installmentOffer && (
+            <p className="text-[10px] sm:text-xs text-muted-foreground">{formatInstallmentOffer(installmentOffer)}</p>
+          )}
           {!product.in_stock && (
             <Badge variant="secondary" className="mt-1 sm:mt-2 text-[10px] sm:text-xs">
               Esgotado
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Clock, HelpCircle, Loader2, Store } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+
+const MIN_QUESTION_LENGTH = 5;
+const MAX_QUESTION_LENGTH = 500;
+
+interface ProductQuestionsProps {
+  productId: string;
+}
+
+const ProductQuestions = ({ productId }: ProductQuestionsProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [question, setQuestion] = useState("");
+
+  // Answered questions are public; the asker also sees their own pending ones (RLS)
+  const { data: questions = [], isLoading } = useQuery({
+    queryKey: ["product-questions", productId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_questions")
+        .select("id, user_id, question, answer, status, answered_at, created_at")
+        .eq("product_id", productId)
+        .in("status", ["answered", "pending"])
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      // Staff can read every pending question; only show the asker's own here
+      return data.filter(q => q.status === "answered" || q.user_id === user?.id);
+    },
+    enabled: !!productId,
+  });
+
+  const askMutation = useMutation({
+    mutationFn: async (text: string) => {
+      if (!user?.id) return;
+      const { error } = await supabase
+        .from("product_questions")
+        .insert({ product_id: productId, user_id: user.id, question: text });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setQuestion("");
+      queryClient.invalidateQueries({ queryKey: ["product-questions", productId] });
+      toast.success("Pergunta enviada! Avisamos por email quando responderem. 🌴");
+    },
+    onError: () => {
+      toast.error("Erro ao enviar pergunta. Tenta de novo?");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (text.length < MIN_QUESTION_LENGTH) {
+      toast.error(`Escreve pelo menos ${MIN_QUESTION_LENGTH} caracteres`);
+      return;
+    }
+    askMutation.mutate(text);
+  };
+
+  const answeredCount = questions.filter(q => q.status === "answered").length;
+
+  return (
+    <div id="questions" className="space-y-6">
+      <h2 className="text-2xl font-bold">
+        Perguntas e respostas{" "}
+        <span className="text-muted-foreground font-normal">({answeredCount})</span>
+      </h2>
+
+      {/* Ask form */}
+      {user ? (
+        <form onSubmit={handleSubmit} className="bg-card border border-border rounded-2xl p-6 space-y-3">
+          <label htmlFor="product-question" className="font-semibold block">
+            Tem alguma dúvida sobre este produto?
+          </label>
+          <Textarea
+            id="product-question"
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder="Ex: Serve no meu modelo de celular?"
+            maxLength={MAX_QUESTION_LENGTH}
+            rows={3}
+            disabled={askMutation.isPending}
+          />
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-xs text-muted-foreground">
+              {question.length}/{MAX_QUESTION_LENGTH} · A pergunta aparece aqui depois de respondida.
+            </span>
+            <Button type="submit" disabled={askMutation.isPending || !question.trim()}>
+              {askMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Perguntar
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="bg-muted/30 border border-border rounded-2xl p-6 flex flex-col sm:flex-row items-center justify-between gap-4">
+          <p className="text-muted-foreground">Faça login para perguntar sobre este produto.</p>
+          <Button asChild variant="outline">
+            <Link to="/auth">Entrar na Conta</Link>
+          </Button>
+        </div>
+      )}
+
+      {/* Questions list */}
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-20 w-full rounded-xl" />
+          <Skeleton className="h-20 w-full rounded-xl" />
+        </div>
+      ) : questions.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <HelpCircle className="h-10 w-10 mx-auto mb-3 opacity-50" />
+          <p>Ninguém perguntou nada ainda. Seja o primeiro!</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {questions.map(q => (
+            <div key={q.id} className="border border-border rounded-xl p-5">
+              <div className="flex items-start justify-between gap-3">
+                <p className="font-medium whitespace-pre-line">{q.question}</p>
+                {q.status === "pending" && (
+                  <Badge variant="secondary" className="shrink-0 gap-1">
+                    <Clock className="h-3 w-3" />
+                    Aguardando resposta
+                  </Badge>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {q.user_id === user?.id ? "Sua pergunta · " : ""}
+                {formatDistanceToNow(new Date(q.created_at), { addSuffix: true, locale: ptBR })}
+              </span>
+
+              {q.answer && (
+                <div className="mt-3 ml-2 border-l-2 border-primary/40 bg-primary/5 rounded-r-lg px-4 py-3">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Store className="h-3.5 w-3.5 text-primary" />
+                    <span className="text-sm font-semibold">Resposta da Cali Brasil</span>
+                    {q.answered_at && (
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(q.answered_at), { addSuffix: true, locale: ptBR })}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-foreground leading-relaxed whitespace-pre-line">{q.answer}</p>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductQuestions;
@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import ProductCard from "@/components/products/ProductCard";
+import type { Product } from "@/types/product";
+
+const MAX_PRODUCTS = 4;
+
+interface RecommendedProductsProps {
+  // Products the shopper already has (cart contents); never recommended back
+  productIds: string[];
+  title?: string;
+}
+
+const RecommendedProducts = ({ productIds, title = "Você também pode gostar" }: RecommendedProductsProps) => {
+  const ids = [...new Set(productIds)].sort();
+
+  const { data: products = [] } = useQuery({
+    queryKey: ["product-recommendations", "cart", ids],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_recommendations")
+        .select("recommended_product_id, source, score, rank, product:products!product_recommendations_recommended_product_id_fkey(*)")
+        .in("product_id", ids);
+      if (error) throw error;
+
+      // Merge the lists of every cart product: bought-together first, then by combined score
+      const merged = new Map<string, { product: Product; coPurchase: number; score: number; rank: number }>();
+      for (const rec of data) {
+        if (ids.includes(rec.recommended_product_id)) continue;
+        const entry = merged.get(rec.recommended_product_id) ?? {
+          product: rec.product as Product,
+          coPurchase: 0,
+          score: 0,
+          rank: Infinity,
+        };
+        if (rec.source === "co_purchase") entry.coPurchase++;
+        entry.score += Number(rec.score);
+        entry.rank = Math.min(entry.rank, rec.rank);
+        merged.set(rec.recommended_product_id, entry);
+      }
+
+      return [...merged.values()]
+        .sort((a, b) => b.coPurchase - a.coPurchase || b.score - a.score || a.rank - b.rank)
+        .slice(0, MAX_PRODUCTS)
+        .map(entry => entry.product);
+    },
+    enabled: ids.length > 0,
+  });
+
+  if (products.length === 0) return null;
+
+  return (
+    <section className="mt-16 pt-8 border-t border-border">
+      <h2 className="text-2xl font-bold mb-6">{title}</h2>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6">
+        {products.map(product => (
+          <ProductCard key={product.id} product={product} />
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RecommendedProducts;
@@ -0,0 +1,91 @@
+import { Award, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useLoyalty, LOYALTY_TRANSACTION_LABELS } from "@/hooks/useLoyalty";
+
+const formatPrice = (price: number) => {
+  return price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+};
+
+export const LoyaltySection = () => {
+  const { summary, transactions, isLoading } = useLoyalty();
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5" />
+            Pontos de Fidelidade
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Program disabled: hide the section unless the customer still has points
+  if (!summary || (!summary.enabled && summary.balance === 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Award className="h-5 w-5" />
+          Pontos de Fidelidade
+        </CardTitle>
+        <CardDescription>
+          Ganhe {summary.points_per_real} {summary.points_per_real === 1 ? "ponto" : "pontos"} por real gasto
+          {summary.accrual_trigger === "delivered" ? " quando o pedido for entregue" : " quando o pagamento for aprovado"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-baseline justify-between p-4 rounded-lg bg-primary/10 border border-primary/20">
+          <div>
+            <p className="text-3xl font-bold text-primary">{summary.balance}</p>
+            <p className="text-sm text-muted-foreground">pontos disponíveis</p>
+          </div>
+          <p className="text-sm text-muted-foreground text-right">
+            equivalem a
+            <span className="block font-semibold text-foreground">
+              {formatPrice(Math.max(summary.balance, 0) * summary.point_value)}
+            </span>
+          </p>
+        </div>
+
+        {summary.min_redeem_points > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Use a partir de {summary.min_redeem_points} pontos no checkout, até {summary.max_redeem_percent}% do valor dos produtos.
+          </p>
+        )}
+
+        {transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Nenhuma movimentação ainda
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {transactions.map((transaction) => (
+              <div key={transaction.id} className="flex items-center justify-between text-sm py-2 border-b border-border last:border-0">
+                <div>
+                  <p className="font-medium">{LOYALTY_TRANSACTION_LABELS[transaction.type]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(transaction.created_at), "dd/MM/yyyy", { locale: ptBR })}
+                    {transaction.order_id && ` · Pedido #${transaction.order_id.slice(0, 8).toUpperCase()}`}
+                    {transaction.type === "adjustment" && transaction.description && ` · ${transaction.description}`}
+                  </p>
+                </div>
+                <span className={transaction.points > 0 ? "font-semibold text-primary" : "font-semibold text-destructive"}>
+                  {transaction.points > 0 ? `+${transaction.points}` : transaction.points}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
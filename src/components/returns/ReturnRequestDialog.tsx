@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  RETURN_REASON_LABELS,
+  RETURN_RESOLUTION_LABELS,
+  type ReturnReason,
+  type ReturnResolution,
+} from '@/hooks/useReturns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+export interface ReturnableItem {
+  id: string;
+  product_id: string | null;
+  product_variant_id: string | null;
+  product_name: string;
+  price: number;
+  quantity: number;
+}
+
+interface VariantOption {
+  id: string;
+  product_id: string;
+  color: string | null;
+  model: string | null;
+  stock_quantity: number;
+}
+
+interface SelectedItem {
+  quantity: number;
+  exchangeVariantId: string;
+}
+
+interface ReturnRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  items: ReturnableItem[];
+  /** Quantities already in earlier (non-rejected) requests, by order item id */
+  returnedQuantities: Record<string, number>;
+  onCreated: () => void;
+}
+
+const variantLabel = (variant: Pick<VariantOption, 'color' | 'model'>) =>
+  [variant.color, variant.model].filter(Boolean).join(' / ') || 'Padrão';
+
+export function ReturnRequestDialog({
+  open,
+  onOpenChange,
+  orderId,
+  items,
+  returnedQuantities,
+  onCreated,
+}: ReturnRequestDialogProps) {
+  const [selected, setSelected] = useState<Record<string, SelectedItem>>({});
+  const [reason, setReason] = useState<ReturnReason | ''>('');
+  const [resolution, setResolution] = useState<ReturnResolution>('refund');
+  const [comments, setComments] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setSelected({});
+      setReason('');
+      setResolution('refund');
+      setComments('');
+    }
+  }, [open]);
+
+  const productIds = [...new Set(items.map((item) => item.product_id).filter((id): id is string => !!id))];
+
+  // Variants offered for exchanges (same product, with stock)
+  const { data: variants = [] } = useQuery({
+    queryKey: ['return-exchange-variants', productIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('id, product_id, color, model, stock_quantity')
+        .in('product_id', productIds);
+      if (error) throw error;
+      return (data || []) as VariantOption[];
+    },
+    enabled: open && resolution === 'exchange' && productIds.length > 0,
+  });
+
+  const getReturnable = (item: ReturnableItem) =>
+    Math.max(0, item.quantity - (returnedQuantities[item.id] || 0));
+
+  const toggleItem = (item: ReturnableItem, checked: boolean) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[item.id] = { quantity: getReturnable(item), exchangeVariantId: '' };
+      } else {
+        delete next[item.id];
+      }
+      return next;
+    });
+  };
+
+  const updateItem = (itemId: string, changes: Partial<SelectedItem>) => {
+    setSelected((prev) => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { data: returnId, error } = await supabase.rpc('create_return_request', {
+        p_order_id: orderId,
+        p_reason: reason,
+        p_resolution: resolution,
+        p_comments: comments.trim() || null,
+        p_items: Object.entries(selected).map(([orderItemId, item]) => ({
+          order_item_id: orderItemId,
+          quantity: item.quantity,
+          exchange_variant_id: resolution === 'exchange' && item.exchangeVariantId ? item.exchangeVariantId : null,
+        })),
+      });
+      if (error) throw error;
+
+      // Confirmation email; the request is already saved if it fails
+      const { error: emailError } = await supabase.functions.invoke('send-return-email', {
+        body: { returnId },
+      });
+      if (emailError) {
+        console.error('Error sending return email:', emailError);
+      }
+      return returnId;
+    },
+    onSuccess: () => {
+      toast.success('Solicitação enviada! Você vai receber a resposta por email.');
+      onOpenChange(false);
+      onCreated();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao enviar solicitação');
+    },
+  });
+
+  const handleSubmit = () => {
+    if (Object.keys(selected).length === 0) {
+      toast.error('Selecione ao menos um item');
+      return;
+    }
+    if (!reason) {
+      toast.error('Informe o motivo');
+      return;
+    }
+    if (reason === 'other' && !comments.trim()) {
+      toast.error('Conte pra gente o motivo nos comentários');
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Trocar ou devolver</DialogTitle>
+          <DialogDescription>
+            Pedido #{orderId.slice(0, 8).toUpperCase()} · Desistência em até 7 dias e defeitos em até 30 dias após o recebimento.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label>O que você quer fazer?</Label>
+            <RadioGroup
+              value={resolution}
+              onValueChange={(value) => setResolution(value as ReturnResolution)}
+              className="grid grid-cols-2 gap-2"
+            >
+              {(Object.keys(RETURN_RESOLUTION_LABELS) as ReturnResolution[]).map((key) => (
+                <Label
+                  key={key}
+                  htmlFor={`resolution-${key}`}
+                  className="flex items-center gap-2 rounded-lg border border-border p-3 cursor-pointer"
+                >
+                  <RadioGroupItem id={`resolution-${key}`} value={key} />
+                  {RETURN_RESOLUTION_LABELS[key]}
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Itens</Label>
+            {items.map((item) => {
+              const returnable = getReturnable(item);
+              const selection = selected[item.id];
+              const itemVariants = variants.filter((v) => v.product_id === item.product_id);
+
+              return (
+                <div key={item.id} className="rounded-lg border border-border p-3 space-y-3">
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      id={`return-item-${item.id}`}
+                      checked={!!selection}
+                      disabled={returnable === 0}
+                      onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                    />
+                    <label htmlFor={`return-item-${item.id}`} className="flex-1 text-sm cursor-pointer">
+                      <span className="font-medium">{item.product_name}</span>
+                      <span className="block text-muted-foreground">
+                        {returnable === 0
+                          ? 'Já incluído em outra solicitação'
+                          : `${returnable} de ${item.quantity} disponível(is)`}
+                      </span>
+                    </label>
+                    {selection && returnable > 1 && (
+                      <Input
+                        type="number"
+                        min={1}
+                        max={returnable}
+                        value={selection.quantity}
+                        onChange={(e) =>
+                          updateItem(item.id, {
+                            quantity: Math.min(returnable, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                          })
+                        }
+                        className="w-20"
+                      />
+                    )}
+                  </div>
+
+                  {selection && resolution === 'exchange' && itemVariants.length > 0 && (
+                    <Select
+                      value={selection.exchangeVariantId || 'same'}
+                      onValueChange={(value) =>
+                        updateItem(item.id, { exchangeVariantId: value === 'same' ? '' : value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Trocar por" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="same">Mesmo produto (novo)</SelectItem>
+                        {itemVariants.map((variant) => (
+                          <SelectItem
+                            key={variant.id}
+                            value={variant.id}
+                            disabled={variant.stock_quantity < selection.quantity}
+                          >
+                            {variantLabel(variant)}
+                            {variant.stock_quantity < selection.quantity && ' (sem estoque)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Motivo</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReturnReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {RETURN_REASON_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Comentários {reason !== 'other' && '(opcional)'}</Label>
+            <Textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Conte o que aconteceu. Fotos do defeito podem ser enviadas pelo WhatsApp."
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={createMutation.isPending}>
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Enviar solicitação
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,18 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Camera, X } from "lucide-react";
+import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { signReviewPhotos } from "@/lib/reviewPhotos";
 import RatingDistribution from "./RatingDistribution";
 import ReviewCard from "./ReviewCard";
 import ReviewForm from "./ReviewForm";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ReviewSort = "recent" | "helpful" | "rating-high" | "rating-low";
 
 interface ProductReviewsProps {
   productId: string;
@@ -12,8 +20,12 @@ interface ProductReviewsProps {
 
 const ProductReviews = ({ productId }: ProductReviewsProps) => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [sortBy, setSortBy] = useState<ReviewSort>("recent");
+  const [withPhotosOnly, setWithPhotosOnly] = useState(false);
+  const [starFilter, setStarFilter] = useState<number | null>(null);
 
-  // Fetch approved reviews
+  // Fetch approved reviews with their approved photos
   const {
     data: reviews = [],
     isLoading,
@@ -23,15 +35,88 @@ const ProductReviews = ({ productId }: ProductReviewsProps) => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("product_reviews")
-        .select("*")
+        .select("*, photos:review_photos(id, storage_path, status, created_at)")
         .eq("product_id", productId)
+        .eq("approved", true)
         .order("created_at", { ascending: false });
       if (error) throw error;
-      return data;
+
+      // Private bucket: approved photos are shown through signed URLs
+      const approvedPhotos = data.flatMap(review => review.photos.filter(photo => photo.status === "approved"));
+      const signedPhotos = new Map((await signReviewPhotos(approvedPhotos)).map(photo => [photo.id, photo]));
+
+      return data.map(review => ({
+        ...review,
+        photos: review.photos
+          .flatMap(photo => signedPhotos.get(photo.id) ?? [])
+          .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      }));
     },
     enabled: !!productId,
   });
 
+  // Reviews the current user already voted helpful
+  const reviewIds = reviews.map(r => r.id);
+  const { data: votedIds = [] } = useQuery({
+    queryKey: ["review-votes", productId, user?.id, reviewIds],
+    queryFn: async () => {
+      if (!user?.id || reviewIds.length === 0) return [];
+      const { data, error } = await supabase
+        .from("review_votes")
+        .select("review_id")
+        .eq("user_id", user.id)
+        .in("review_id", reviewIds);
+      if (error) throw error;
+      return data.map(v => v.review_id);
+    },
+    enabled: !!user?.id && reviewIds.length > 0,
+  });
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ reviewId, voted }: { reviewId: string; voted: boolean }) => {
+      if (!user?.id) return;
+      const { error } = voted
+        ? await supabase.from("review_votes").delete().eq("review_id", reviewId).eq("user_id", user.id)
+        : await supabase.from("review_votes").insert({ review_id: reviewId, user_id: user.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["product-reviews", productId] });
+      queryClient.invalidateQueries({ queryKey: ["review-votes", productId] });
+    },
+    onError: () => {
+      toast.error("Erro ao registrar seu voto");
+    },
+  });
+
+  const handleToggleHelpful = (reviewId: string) => {
+    if (!user) {
+      toast.info("Faça login para votar nas avaliações");
+      return;
+    }
+    voteMutation.mutate({ reviewId, voted: votedIds.includes(reviewId) });
+  };
+
+  const photoReviewsCount = reviews.filter(r => r.photos.length > 0).length;
+
+  const visibleReviews = useMemo(() => {
+    const result = reviews.filter(
+      r => (!withPhotosOnly || r.photos.length > 0) && (starFilter === null || r.rating === starFilter)
+    );
+
+    switch (sortBy) {
+      case "helpful":
+        return [...result].sort((a, b) => b.helpful_count - a.helpful_count);
+      case "rating-high":
+        return [...result].sort((a, b) => b.rating - a.rating);
+      case "rating-low":
+        return [...result].sort((a, b) => a.rating - b.rating);
+      case "recent":
+      default:
+        return result;
+    }
+  }, [reviews, withPhotosOnly, starFilter, sortBy]);
+
   // Check if user can review (has purchased and received the product)
   const { data: canReview = false, isLoading: canReviewLoading } = useQuery({
     queryKey: ["can-review", productId, user?.id],
@@ -100,6 +185,8 @@ const ProductReviews = ({ productId }: ProductReviewsProps) => {
           reviews={reviews}
           averageRating={averageRating}
           totalReviews={reviews.length}
+          selectedStar={starFilter}
+          onSelectStar={setStarFilter}
         />
       )}
 
@@ -118,9 +205,52 @@ const ProductReviews = ({ productId }: ProductReviewsProps) => {
         </div>
       ) : (
         <div className="space-y-4">
-          {reviews.map(review => (
-            <ReviewCard key={review.id} review={review} isVerifiedBuyer />
-          ))}
+          {/* Sort & filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={sortBy} onValueChange={value => setSortBy(value as ReviewSort)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Ordenar por" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recent">Mais recentes</SelectItem>
+                <SelectItem value="helpful">Mais úteis</SelectItem>
+                <SelectItem value="rating-high">Maior nota</SelectItem>
+                <SelectItem value="rating-low">Menor nota</SelectItem>
+              </SelectContent>
+            </Select>
+            {photoReviewsCount > 0 && (
+              <Button
+                variant={withPhotosOnly ? "default" : "outline"}
+                size="sm"
+                onClick={() => setWithPhotosOnly(!withPhotosOnly)}
+              >
+                <Camera className="h-4 w-4 mr-1" />
+                Com fotos ({photoReviewsCount})
+              </Button>
+            )}
+            {starFilter !== null && (
+              <Button variant="secondary" size="sm" onClick={() => setStarFilter(null)}>
+                {starFilter} {starFilter === 1 ? "estrela" : "estrelas"}
+                <X className="h-3 w-3 ml-1" />
+              </Button>
+            )}
+          </div>
+
+          {visibleReviews.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>Nenhuma avaliação com esses filtros.</p>
+            </div>
+          ) : (
+            visibleReviews.map(review => (
+              <ReviewCard
+                key={review.id}
+                review={review}
+                isVerifiedBuyer={review.verified_purchase}
+                hasVoted={votedIds.includes(review.id)}
+                onToggleHelpful={review.user_id === user?.id ? undefined : () => handleToggleHelpful(review.id)}
+              />
+            ))
+          )}
         </div>
       )}
     </div>
@@ -5,9 +5,18 @@ interface RatingDistributionProps {
   reviews: { rating: number }[];
   averageRating: number;
   totalReviews: number;
+  selectedStar?: number | null;
+  /** When set, each bar filters the list by that star */
+  onSelectStar?: (star: number | null) => void;
 }
 
-const RatingDistribution = ({ reviews, averageRating, totalReviews }: RatingDistributionProps) => {
+const RatingDistribution = ({
+  reviews,
+  averageRating,
+  totalReviews,
+  selectedStar = null,
+  onSelectStar,
+}: RatingDistributionProps) => {
   // Calculate distribution
   const distribution = [5, 4, 3, 2, 1].map(star => {
     const count = reviews.filter(r => r.rating === star).length;
@@ -43,7 +52,15 @@ const RatingDistribution = ({ reviews, averageRating, totalReviews }: RatingDist
         {/* Distribution Bars */}
         <div className="flex-1 space-y-3">
           {distribution.map(({ star, count, percentage }) => (
-            <div key={star} className="flex items-center gap-3">
+            <button
+              key={star}
+              type="button"
+              disabled={!onSelectStar || count === 0}
+              onClick={() => onSelectStar?.(selectedStar === star ? null : star)}
+              className={`flex w-full items-center gap-3 rounded-md px-1 transition-colors enabled:hover:bg-muted/50 ${
+                selectedStar === star ? "bg-muted" : ""
+              } ${selectedStar !== null && selectedStar !== star ? "opacity-50" : ""}`}
+            >
               <span className="text-sm font-medium w-4">{star}</span>
               <Star className="h-4 w-4 fill-accent text-accent" />
               <Progress 
@@ -53,7 +70,7 @@ const RatingDistribution = ({ reviews, averageRating, totalReviews }: RatingDist
               <span className="text-sm text-muted-foreground w-8 text-right">
                 {count}
               </span>
-            </div>
+            </button>
           ))}
         </div>
       </div>
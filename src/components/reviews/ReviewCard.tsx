@@ -1,7 +1,11 @@
-import { Star, CheckCircle } from "lucide-react";
+import { useState } from "react";
+import { Star, CheckCircle, ThumbsUp, Store } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
 
 interface ReviewCardProps {
   review: {
@@ -10,11 +14,21 @@ interface ReviewCardProps {
     comment: string | null;
     created_at: string | null;
     user_id: string;
+    helpful_count?: number;
+    store_reply?: string | null;
+    store_reply_at?: string | null;
+    photos?: { id: string; url: string }[];
   };
   isVerifiedBuyer?: boolean;
+  hasVoted?: boolean;
+  /** Omit to hide the "helpful" button (e.g. on the author's own review) */
+  onToggleHelpful?: () => void;
 }
 
-const ReviewCard = ({ review, isVerifiedBuyer = true }: ReviewCardProps) => {
+const ReviewCard = ({ review, isVerifiedBuyer = false, hasVoted = false, onToggleHelpful }: ReviewCardProps) => {
+  const [openPhoto, setOpenPhoto] = useState<string | null>(null);
+  const helpfulCount = review.helpful_count ?? 0;
+
   const timeAgo = review.created_at
     ? formatDistanceToNow(new Date(review.created_at), {
         addSuffix: true,
@@ -59,8 +73,68 @@ const ReviewCard = ({ review, isVerifiedBuyer = true }: ReviewCardProps) => {
         </div>
       </div>
 
-      {/* Time */}
-      <p className="text-xs text-muted-foreground mt-4">{timeAgo}</p>
+      {/* Photos */}
+      {review.photos && review.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {review.photos.map(photo => (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setOpenPhoto(photo.url)}
+              className="h-20 w-20 rounded-lg overflow-hidden border border-border hover:opacity-90 transition-opacity"
+            >
+              <img src={photo.url} alt="Foto da avaliação" className="h-full w-full object-cover" loading="lazy" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Time + helpful */}
+      <div className="flex items-center justify-between gap-4 mt-4">
+        <p className="text-xs text-muted-foreground">{timeAgo}</p>
+        {onToggleHelpful ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onToggleHelpful}
+            className={cn("h-8 text-xs gap-1.5", hasVoted && "text-primary")}
+          >
+            <ThumbsUp className={cn("h-3.5 w-3.5", hasVoted && "fill-primary")} />
+            Útil{helpfulCount > 0 && ` (${helpfulCount})`}
+          </Button>
+        ) : (
+          helpfulCount > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {helpfulCount} {helpfulCount === 1 ? "pessoa achou útil" : "pessoas acharam útil"}
+            </span>
+          )
+        )}
+      </div>
+
+      {/* Store reply */}
+      {review.store_reply && (
+        <div className="mt-4 ml-2 border-l-2 border-primary/40 bg-primary/5 rounded-r-lg px-4 py-3">
+          <div className="flex items-center gap-2 mb-1">
+            <Store className="h-3.5 w-3.5 text-primary" />
+            <span className="text-sm font-semibold">Resposta da Cali Brasil</span>
+            {review.store_reply_at && (
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(review.store_reply_at), { addSuffix: true, locale: ptBR })}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-foreground leading-relaxed whitespace-pre-line">{review.store_reply}</p>
+        </div>
+      )}
+
+      <Dialog open={!!openPhoto} onOpenChange={open => !open && setOpenPhoto(null)}>
+        <DialogContent className="max-w-3xl p-2">
+          <DialogTitle className="sr-only">Foto da avaliação</DialogTitle>
+          {openPhoto && (
+            <img src={openPhoto} alt="Foto da avaliação" className="w-full max-h-[80vh] object-contain rounded-lg" />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -6,6 +6,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { uploadReviewPhotos } from "@/lib/reviewPhotos";
+import ReviewPhotoInput from "./ReviewPhotoInput";
 
 interface ReviewFormProps {
   productId: string;
@@ -18,6 +20,7 @@ const ReviewForm = ({ productId, userId, canReview, onReviewSubmitted }: ReviewF
   const [rating, setRating] = useState(5);
   const [hoverRating, setHoverRating] = useState(0);
   const [comment, setComment] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
 
@@ -39,16 +42,29 @@ const ReviewForm = ({ productId, userId, canReview, onReviewSubmitted }: ReviewF
 
     setIsSubmitting(true);
     try {
-      const { error } = await supabase.from("product_reviews").insert({
-        product_id: productId,
-        user_id: userId,
-        rating: rating,
-        comment: comment.trim() || null,
-        approved: true, // Auto-approve for now
-      });
+      const { data: review, error } = await supabase
+        .from("product_reviews")
+        .insert({
+          product_id: productId,
+          user_id: userId,
+          rating: rating,
+          comment: comment.trim() || null,
+          approved: true, // Auto-approve for now
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
 
+      if (photos.length > 0) {
+        try {
+          await uploadReviewPhotos(userId, review.id, photos);
+        } catch (photoError) {
+          console.error("Review photo error:", photoError);
+          toast.error("Sua avaliação foi enviada, mas não conseguimos salvar as fotos");
+        }
+      }
+
       setSubmitted(true);
       toast.success("Avaliação enviada! Valeu! 🌴");
       onReviewSubmitted();
@@ -159,6 +175,14 @@ const ReviewForm = ({ productId, userId, canReview, onReviewSubmitted }: ReviewF
           </p>
         </div>
 
+        {/* Photos */}
+        <div>
+          <label className="block text-sm font-medium mb-3">
+            Fotos <span className="text-muted-foreground font-normal">(opcional)</span>
+          </label>
+          <ReviewPhotoInput files={photos} onChange={setPhotos} disabled={isSubmitting} />
+        </div>
+
         {/* Submit */}
         <Button
           onClick={handleSubmit}
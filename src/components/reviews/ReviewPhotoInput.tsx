@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Camera, X } from "lucide-react";
+import { toast } from "sonner";
+import { MAX_REVIEW_PHOTOS, validateReviewPhoto } from "@/lib/reviewPhotos";
+
+interface ReviewPhotoInputProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+const ReviewPhotoInput = ({ files, onChange, disabled }: ReviewPhotoInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+
+  useEffect(() => {
+    return () => previews.forEach(url => URL.revokeObjectURL(url));
+  }, [previews]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const valid = selected.filter(file => {
+      const error = validateReviewPhoto(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+
+    const remaining = MAX_REVIEW_PHOTOS - files.length;
+    if (valid.length > remaining) {
+      toast.warning(`Você pode enviar até ${MAX_REVIEW_PHOTOS} fotos`);
+    }
+
+    onChange([...files, ...valid.slice(0, Math.max(remaining, 0))]);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-3">
+        {previews.map((url, index) => (
+          <div key={url} className="relative h-20 w-20 rounded-lg overflow-hidden border border-border">
+            <img src={url} alt="" className="h-full w-full object-cover" />
+            <button
+              type="button"
+              onClick={() => onChange(files.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="absolute top-1 right-1 rounded-full bg-background/80 p-0.5 hover:bg-background"
+              aria-label="Remover foto"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+
+        {files.length < MAX_REVIEW_PHOTOS && (
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+            className="h-20 w-20 rounded-lg border-2 border-dashed border-border flex flex-col items-center justify-center gap-1 text-muted-foreground hover:border-primary/50 hover:text-primary transition-colors"
+          >
+            <Camera className="h-5 w-5" />
+            <span className="text-xs">Adicionar</span>
+          </button>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        className="hidden"
+        onChange={handleSelect}
+      />
+      <p className="text-xs text-muted-foreground mt-2">
+        Até {MAX_REVIEW_PHOTOS} fotos (.jpg, .png ou .webp, máx. 5MB). As fotos aparecem após aprovação.
+      </p>
+    </div>
+  );
+};
+
+export default ReviewPhotoInput;
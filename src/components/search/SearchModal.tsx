@@ -45,32 +45,47 @@ const SearchModal = ({ open, onOpenChange }: SearchModalProps) => {
     }
   }, [open]);
 
-  // Search products
+  // Search products (ranked full-text search with typo tolerance)
   const { data: results = [], isLoading } = useQuery({
-    queryKey: ['product-search', debouncedQuery],
+    queryKey: ['product-search-preview', debouncedQuery],
     queryFn: async () => {
       if (!debouncedQuery || debouncedQuery.length < 2) return [];
       
-      const { data, error } = await supabase
-        .from('products')
-        .select('id, name, price, image, category')
-        .ilike('name', `%${debouncedQuery}%`)
-        .limit(8);
+      const { data, error } = await supabase.rpc('search_products', {
+        p_query: debouncedQuery,
+        p_limit: 8,
+      });
       
       if (error) throw error;
-      return data as Product[];
+      return (data || []) as Product[];
     },
     enabled: debouncedQuery.length >= 2,
   });
 
+  const { data: suggestion = null } = useQuery({
+    queryKey: ['product-search-suggestion', debouncedQuery],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('suggest_search_query', { p_query: debouncedQuery });
+      if (error) throw error;
+      return data || null;
+    },
+    enabled: debouncedQuery.length >= 2 && !isLoading && results.length === 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
   const handleSelect = (productId: string) => {
     onOpenChange(false);
     navigate(`/product/${productId}`);
   };
 
+  const handleViewAll = (term: string) => {
+    onOpenChange(false);
+    navigate(`/shop?q=${encodeURIComponent(term.trim())}`);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && results.length > 0) {
-      handleSelect(results[0].id);
+    if (e.key === 'Enter' && query.trim().length >= 2) {
+      handleViewAll(query);
     }
   };
 
@@ -114,6 +129,15 @@ const SearchModal = ({ open, onOpenChange }: SearchModalProps) => {
           {!isLoading && debouncedQuery.length >= 2 && results.length === 0 && (
             <div className="py-8 text-center text-muted-foreground" role="status" aria-live="polite">
               <p>Nenhum produto encontrado para "{debouncedQuery}"</p>
+              {suggestion && (
+                <p className="mt-2 text-sm">
+                  Você quis dizer{' '}
+                  <button className="font-medium text-primary hover:underline" onClick={() => setQuery(suggestion)}>
+                    {suggestion}
+                  </button>
+                  ?
+                </p>
+              )}
             </div>
           )}
 
@@ -147,6 +171,14 @@ const SearchModal = ({ open, onOpenChange }: SearchModalProps) => {
                   </button>
                 </li>
               ))}
+              <li>
+                <button
+                  onClick={() => handleViewAll(debouncedQuery)}
+                  className="w-full px-4 py-3 text-sm font-medium text-primary hover:bg-muted transition-colors text-left"
+                >
+                  Ver todos os resultados para "{debouncedQuery}"
+                </button>
+              </li>
             </ul>
           )}
 
@@ -32,8 +32,10 @@ export interface ShippingLabelPrintData {
   orderData: {
     orderId: string;
     weight: number;
+    dimensions?: { height: number; width: number; length: number };
     declaredValue: number;
     serviceType: string;
+    invoiceKey?: string | null;
   };
 }
 
@@ -345,6 +347,11 @@ export function ShippingLabelPrint({ data, onClose }: ShippingLabelPrintProps) {
         <div className="flex justify-between items-center px-3 py-2 border-b border-dashed border-foreground/40">
           <div className="text-xs space-y-0.5">
             <p>Peso: {data.orderData.weight.toFixed(3)} kg</p>
+            {data.orderData.dimensions && (
+              <p>
+                Dimensões: {data.orderData.dimensions.length} x {data.orderData.dimensions.width} x {data.orderData.dimensions.height} cm
+              </p>
+            )}
             <p>Valor Declarado: R$ {data.orderData.declaredValue.toFixed(2)}</p>
             <p className="text-muted-foreground">Pedido: #{data.orderData.orderId.slice(0, 8)}</p>
           </div>
@@ -358,6 +365,16 @@ export function ShippingLabelPrint({ data, onClose }: ShippingLabelPrintProps) {
           </div>
         </div>
 
+        {/* NF-e access key */}
+        {data.orderData.invoiceKey && (
+          <div className="px-3 py-2 border-b border-dashed border-foreground/40">
+            <p className="text-[10px] text-muted-foreground uppercase tracking-wide">NF-e - Chave de acesso:</p>
+            <p className="font-mono text-[10px] font-semibold break-all">
+              {data.orderData.invoiceKey.replace(/(\d{4})(?=\d)/g, '$1 ')}
+            </p>
+          </div>
+        )}
+
         {/* Cut Line */}
         <div className="flex items-center justify-center text-xs text-muted-foreground py-2 border-t border-dashed border-foreground/40">
           <span>✂️ Recorte aqui</span>
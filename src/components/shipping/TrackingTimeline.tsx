@@ -0,0 +1,69 @@
+import { CheckCircle2, Circle, Loader2, MapPin } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useOrderTracking } from '@/hooks/useOrderTracking';
+import { cn } from '@/lib/utils';
+
+interface TrackingTimelineProps {
+  orderId: string;
+  trackingCode?: string | null;
+}
+
+const TrackingTimeline = ({ orderId, trackingCode }: TrackingTimelineProps) => {
+  const { events, isLoading } = useOrderTracking(orderId, trackingCode);
+
+  if (!trackingCode) return null;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Ainda sem movimentação dos Correios. As atualizações aparecem aqui automaticamente.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-border ml-2">
+      {events.map((event, index) => {
+        const isLatest = index === 0;
+        return (
+          <li key={event.id} className="ml-5">
+            <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background">
+              {event.is_delivery ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              ) : (
+                <Circle className={cn('h-3 w-3', isLatest ? 'fill-primary text-primary' : 'fill-muted text-muted-foreground')} />
+              )}
+            </span>
+            <p className={cn('text-sm', isLatest ? 'font-semibold' : 'font-medium text-muted-foreground')}>
+              {event.description}
+            </p>
+            {event.details && (
+              <p className="text-xs text-muted-foreground">{event.details}</p>
+            )}
+            <p className="text-xs text-muted-foreground flex items-center gap-1 mt-0.5">
+              {format(new Date(event.occurred_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+              {event.location && (
+                <>
+                  <span aria-hidden="true">·</span>
+                  <MapPin className="h-3 w-3" />
+                  {event.location}
+                </>
+              )}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default TrackingTimeline;
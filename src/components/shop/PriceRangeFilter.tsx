@@ -1,36 +0,0 @@
-import { useState, useEffect } from 'react';
-import { Slider } from '@/components/ui/slider';
-import { Label } from '@/components/ui/label';
-
-interface PriceRangeFilterProps {
-  minPrice: number;
-  maxPrice: number;
-  value: [number, number];
-  onChange: (value: [number, number]) => void;
-}
-
-const PriceRangeFilter = ({ minPrice, maxPrice, value, onChange }: PriceRangeFilterProps) => {
-  const formatPrice = (price: number) => {
-    return price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
-  };
-
-  return (
-    <div className="space-y-4">
-      <Label className="text-sm font-medium">Faixa de Preço</Label>
-      <Slider
-        min={minPrice}
-        max={maxPrice}
-        step={10}
-        value={value}
-        onValueChange={(v) => onChange(v as [number, number])}
-        className="w-full"
-      />
-      <div className="flex justify-between text-sm text-muted-foreground">
-        <span>{formatPrice(value[0])}</span>
-        <span>{formatPrice(value[1])}</span>
-      </div>
-    </div>
-  );
-};
-
-export default PriceRangeFilter;
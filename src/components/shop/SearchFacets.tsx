@@ -0,0 +1,179 @@
+import { Star } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { formatPrice } from '@/lib/formatters';
+import { priceBandKey, type PriceBandFacet, type ProductSearchFacets } from '@/hooks/useProductSearch';
+
+interface SearchFacetsProps {
+  facets: ProductSearchFacets;
+  categories: string[];
+  colors: string[];
+  models: string[];
+  priceBand: string | null;
+  minRating: number | null;
+  inStock: boolean;
+  onSale: boolean;
+  onToggleCategory: (value: string) => void;
+  onToggleColor: (value: string) => void;
+  onToggleModel: (value: string) => void;
+  onPriceBandChange: (value: string | null) => void;
+  onMinRatingChange: (value: number | null) => void;
+  onInStockChange: (value: boolean) => void;
+  onOnSaleChange: (value: boolean) => void;
+}
+
+const priceBandLabel = (band: PriceBandFacet) => {
+  if (band.max === null) return `Acima de ${formatPrice(band.min)}`;
+  if (band.min === 0) return `Até ${formatPrice(band.max)}`;
+  return `${formatPrice(band.min)} a ${formatPrice(band.max)}`;
+};
+
+const optionClass = (active: boolean) =>
+  `flex w-full items-center justify-between rounded-md px-2 py-1.5 text-sm transition-colors ${
+    active ? 'bg-primary/10 font-medium text-primary' : 'hover:bg-muted'
+  }`;
+
+const SearchFacets = ({
+  facets,
+  categories,
+  colors,
+  models,
+  priceBand,
+  minRating,
+  inStock,
+  onSale,
+  onToggleCategory,
+  onToggleColor,
+  onToggleModel,
+  onPriceBandChange,
+  onMinRatingChange,
+  onInStockChange,
+  onOnSaleChange,
+}: SearchFacetsProps) => {
+  return (
+    <aside className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between px-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="facet-in-stock"
+              checked={inStock}
+              onCheckedChange={(checked) => onInStockChange(checked === true)}
+            />
+            <Label htmlFor="facet-in-stock" className="font-normal">Somente em estoque</Label>
+          </div>
+          <span className="text-xs text-muted-foreground">{facets.in_stock}</span>
+        </div>
+        <div className="flex items-center justify-between px-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="facet-on-sale"
+              checked={onSale}
+              onCheckedChange={(checked) => onOnSaleChange(checked === true)}
+            />
+            <Label htmlFor="facet-on-sale" className="font-normal">Somente em promoção</Label>
+          </div>
+          <span className="text-xs text-muted-foreground">{facets.on_sale}</span>
+        </div>
+      </div>
+
+      {facets.categories.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Categoria</p>
+          {facets.categories.map((facet) => (
+            <div key={facet.value} className="flex items-center justify-between px-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`facet-category-${facet.value}`}
+                  checked={categories.includes(facet.value)}
+                  onCheckedChange={() => onToggleCategory(facet.value)}
+                />
+                <Label htmlFor={`facet-category-${facet.value}`} className="font-normal">
+                  {facet.label || facet.value}
+                </Label>
+              </div>
+              <span className="text-xs text-muted-foreground">{facet.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {facets.colors.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Cor</p>
+          {facets.colors.map((facet) => (
+            <div key={facet.value} className="flex items-center justify-between px-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`facet-color-${facet.value}`}
+                  checked={colors.includes(facet.value)}
+                  onCheckedChange={() => onToggleColor(facet.value)}
+                />
+                <Label htmlFor={`facet-color-${facet.value}`} className="font-normal">{facet.value}</Label>
+              </div>
+              <span className="text-xs text-muted-foreground">{facet.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {facets.models.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Modelo</p>
+          {facets.models.map((facet) => (
+            <div key={facet.value} className="flex items-center justify-between px-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`facet-model-${facet.value}`}
+                  checked={models.includes(facet.value)}
+                  onCheckedChange={() => onToggleModel(facet.value)}
+                />
+                <Label htmlFor={`facet-model-${facet.value}`} className="font-normal">{facet.value}</Label>
+              </div>
+              <span className="text-xs text-muted-foreground">{facet.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-semibold">Preço</p>
+        {facets.price_bands.map((band) => {
+          const key = priceBandKey(band);
+          return (
+            <button
+              key={key}
+              className={optionClass(priceBand === key)}
+              disabled={band.count === 0 && priceBand !== key}
+              onClick={() => onPriceBandChange(priceBand === key ? null : key)}
+            >
+              <span className={band.count === 0 ? 'text-muted-foreground' : ''}>{priceBandLabel(band)}</span>
+              <span className="text-xs text-muted-foreground">{band.count}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-semibold">Avaliação</p>
+        {facets.ratings.map((rating) => (
+          <button
+            key={rating.min}
+            className={optionClass(minRating === rating.min)}
+            disabled={rating.count === 0 && minRating !== rating.min}
+            onClick={() => onMinRatingChange(minRating === rating.min ? null : rating.min)}
+          >
+            <span className="flex items-center gap-1">
+              {rating.min}
+              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+              ou mais
+            </span>
+            <span className="text-xs text-muted-foreground">{rating.count}</span>
+          </button>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default SearchFacets;
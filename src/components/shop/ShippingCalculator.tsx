@@ -15,11 +15,20 @@ export interface ShippingOption {
   delivery_range: string;
 }
 
+// Item sent to calculate-shipping; weight and dimensions come from the product/variant
+export interface ShippingItem {
+  product_id: string;
+  color?: string;
+  model?: string;
+  quantity: number;
+}
+
 interface ShippingCalculatorProps {
   onSelectOption?: (option: ShippingOption) => void;
   selectedOption?: ShippingOption | null;
   compact?: boolean;
-  peso?: number; // Weight in grams, defaults to 300
+  peso?: number; // Weight in grams, defaults to 300; ignored when items are given
+  items?: ShippingItem[]; // Items to pack into the quoted box
   initialCep?: string; // Pre-fill CEP if available
   showPickup?: boolean; // Show pickup option
   itemsTotal?: number; // Total of items for free shipping calculation
@@ -30,6 +39,7 @@ const ShippingCalculator = ({
   selectedOption: externalSelectedOption, 
   compact = false, 
   peso = 300, 
+  items,
   initialCep = '',
   showPickup = false,
   itemsTotal = 0
@@ -130,7 +140,7 @@ const ShippingCalculator = ({
 
     try {
       const { data, error: fnError } = await supabase.functions.invoke('calculate-shipping', {
-        body: { cep_destino: cepClean, peso },
+        body: { cep_destino: cepClean, peso, items },
       });
 
       if (fnError) throw fnError;
@@ -11,17 +11,27 @@ export interface CartItem {
   model?: string;
 }
 
+// Set when the cart is rebuilt from an abandoned cart email link
+export interface CartRecovery {
+  cartId: string;
+  email: string | null;
+  couponCode: string | null;
+}
+
 interface CartContextType {
   items: CartItem[];
   addItem: (item: Omit<CartItem, 'quantity'>) => void;
   removeItem: (id: string, size?: string, color?: string, model?: string) => void;
   updateQuantity: (id: string, quantity: number, size?: string, color?: string, model?: string) => void;
   clearCart: () => void;
+  restoreCart: (items: CartItem[], recovery: CartRecovery) => void;
+  recovery: CartRecovery | null;
   total: number;
   itemCount: number;
 }
 
 const CART_STORAGE_KEY = 'cali-cart';
+const CART_RECOVERY_STORAGE_KEY = 'cali-cart-recovery';
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
@@ -43,6 +53,18 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return [];
   });
 
+  const [recovery, setRecovery] = useState<CartRecovery | null>(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        const saved = localStorage.getItem(CART_RECOVERY_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : null;
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  });
+
   // Persist to localStorage whenever items change
   useEffect(() => {
     try {
@@ -52,6 +74,18 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [items]);
 
+  useEffect(() => {
+    try {
+      if (recovery) {
+        localStorage.setItem(CART_RECOVERY_STORAGE_KEY, JSON.stringify(recovery));
+      } else {
+        localStorage.removeItem(CART_RECOVERY_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving cart recovery to localStorage:', error);
+    }
+  }, [recovery]);
+
   const addItem = useCallback((newItem: Omit<CartItem, 'quantity'>) => {
     setItems((prev) => {
       // Find existing item with same id AND same variants
@@ -100,6 +134,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const clearCart = useCallback(() => {
     setItems([]);
+    setRecovery(null);
     try {
       localStorage.removeItem(CART_STORAGE_KEY);
     } catch (error) {
@@ -107,12 +142,18 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, []);
 
+  // Replaces the current cart with the recovered one
+  const restoreCart = useCallback((restoredItems: CartItem[], cartRecovery: CartRecovery) => {
+    setItems(restoredItems);
+    setRecovery(cartRecovery);
+  }, []);
+
   const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
   const itemCount = items.reduce((count, item) => count + item.quantity, 0);
 
   return (
     <CartContext.Provider
-      value={{ items, addItem, removeItem, updateQuantity, clearCart, total, itemCount }}
+      value={{ items, addItem, removeItem, updateQuantity, clearCart, restoreCart, recovery, total, itemCount }}
     >
       {children}
     </CartContext.Provider>
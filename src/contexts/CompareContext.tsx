@@ -0,0 +1,62 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import { CompareContext, type CompareItem } from '@/hooks/useCompare';
+
+const COMPARE_STORAGE_KEY = 'cali-compare';
+const MAX_COMPARE_ITEMS = 3;
+
+export const CompareProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [items, setItems] = useState<CompareItem[]>(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        const saved = localStorage.getItem(COMPARE_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  });
+
+  // Persist to localStorage whenever items change
+  useEffect(() => {
+    try {
+      localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(items));
+    } catch (error) {
+      console.error('Error saving compare list to localStorage:', error);
+    }
+  }, [items]);
+
+  const isInCompare = useCallback((id: string) => {
+    return items.some((item) => item.id === id);
+  }, [items]);
+
+  const toggleCompare = useCallback((newItem: CompareItem) => {
+    if (items.some((item) => item.id === newItem.id)) {
+      setItems((prev) => prev.filter((item) => item.id !== newItem.id));
+      return;
+    }
+    if (items.length >= MAX_COMPARE_ITEMS) {
+      toast.error(`Compare até ${MAX_COMPARE_ITEMS} produtos por vez`);
+      return;
+    }
+    setItems((prev) => [...prev, newItem]);
+    toast.success('Adicionado ao comparador');
+  }, [items]);
+
+  const removeFromCompare = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const clearCompare = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  return (
+    <CompareContext.Provider
+      value={{ items, isInCompare, toggleCompare, removeFromCompare, clearCompare, compareCount: items.length, maxItems: MAX_COMPARE_ITEMS }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+};
@@ -4,9 +4,16 @@
  */
 
 export { useAuth } from './useAuth';
+export { useCompare } from './useCompare';
 export { useCoupon } from './useCoupon';
 export { useIsMobile } from './use-mobile';
+export { useLoyalty, useLoyaltyRedemption } from './useLoyalty';
 export { useOrderFlowChecker } from './useOrderFlowChecker';
+export { useOrderTracking } from './useOrderTracking';
+export { useProductSearch } from './useProductSearch';
+export { usePromotions } from './usePromotions';
+export { useOrderRefunds } from './useRefunds';
+export { useOrderReturns } from './useReturns';
 export { useScrollAnimation } from './useScrollAnimation';
 export { useSeller } from './useSeller';
 export { useStaggerAnimation } from './useStaggerAnimation';
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+
+export interface CompareItem {
+  id: string;
+  name: string;
+  image: string;
+}
+
+export interface CompareContextType {
+  items: CompareItem[];
+  isInCompare: (id: string) => boolean;
+  toggleCompare: (item: CompareItem) => void;
+  removeFromCompare: (id: string) => void;
+  clearCompare: () => void;
+  compareCount: number;
+  maxItems: number;
+}
+
+// Provided by CompareProvider (src/contexts/CompareContext.tsx)
+export const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+export const useCompare = () => {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+};
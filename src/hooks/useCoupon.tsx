@@ -1,18 +1,95 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
+export type CouponDiscountType = 'percent' | 'fixed' | 'free_shipping';
+
 interface CouponData {
   code: string;
+  discount_type: CouponDiscountType;
   discount_percent: number;
+  discount_amount: number;
+  free_shipping: boolean;
+  stacks_with_seller: boolean;
   min_purchase: number;
 }
 
-export const useCoupon = (cartTotal: number) => {
+interface CouponValidationResult {
+  valid: boolean;
+  error?: string;
+  code?: string;
+  discount_type?: CouponDiscountType;
+  discount_percent?: number;
+  discount_amount?: number;
+  free_shipping?: boolean;
+  stacks_with_seller?: boolean;
+  min_purchase?: number;
+}
+
+interface CouponCartItem {
+  id: string;
+  price: number;
+  quantity: number;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const getCouponErrorMessage = (result: CouponValidationResult): string => {
+  switch (result.error) {
+    case 'not_started':
+      return 'Este cupom ainda não está válido';
+    case 'expired':
+      return 'Este cupom expirou';
+    case 'usage_limit':
+      return 'Este cupom atingiu o limite de uso';
+    case 'customer_limit':
+      return 'Você já atingiu o limite de uso deste cupom';
+    case 'min_purchase':
+      return `Valor mínimo para usar este cupom: ${formatCurrency(result.min_purchase || 0)}`;
+    case 'not_applicable':
+      return 'Este cupom não é válido para os produtos do carrinho';
+    default:
+      return 'Cupom inválido ou expirado';
+  }
+};
+
+const toCouponData = (result: CouponValidationResult): CouponData => ({
+  code: result.code!,
+  discount_type: result.discount_type || 'percent',
+  discount_percent: Number(result.discount_percent || 0),
+  discount_amount: Number(result.discount_amount || 0),
+  free_shipping: !!result.free_shipping,
+  stacks_with_seller: result.stacks_with_seller ?? true,
+  min_purchase: Number(result.min_purchase || 0),
+});
+
+const getCouponSuccessMessage = (coupon: CouponData): string => {
+  if (coupon.free_shipping) return 'Cupom aplicado! Frete grátis';
+  if (coupon.discount_type === 'fixed') return `Cupom aplicado! ${formatCurrency(coupon.discount_amount)} de desconto`;
+  return `Cupom aplicado! ${coupon.discount_percent}% de desconto`;
+};
+
+export const useCoupon = (cartTotal: number, items: CouponCartItem[]) => {
   const [appliedCoupon, setAppliedCoupon] = useState<CouponData | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const lastCartKey = useRef('');
 
-  const validateCoupon = async (code: string): Promise<boolean> => {
+  // Validation runs in the server-side coupon engine, which checks the per-customer
+  // limit against the signed-in user; the checkout functions re-validate and redeem
+  // the coupon atomically (per e-mail too) when the order is created
+  const runValidation = useCallback(async (code: string) => {
+    const { data, error } = await supabase.rpc('validate_coupon', {
+      p_code: code,
+      p_subtotal: cartTotal,
+      p_items: items.map((item) => ({ product_id: item.id, price: item.price, quantity: item.quantity })),
+    });
+
+    if (error) throw error;
+    return data as unknown as CouponValidationResult;
+  }, [cartTotal, items]);
+
+  const validateCoupon = useCallback(async (code: string): Promise<boolean> => {
     if (!code.trim()) {
       toast.error('Digite um código de cupom');
       return false;
@@ -21,47 +98,16 @@ export const useCoupon = (cartTotal: number) => {
     setIsValidating(true);
 
     try {
-      const { data: coupon, error } = await supabase
-        .from('coupons')
-        .select('*')
-        .eq('code', code.toUpperCase().trim())
-        .eq('is_active', true)
-        .maybeSingle();
-
-      if (error) throw error;
+      const result = await runValidation(code);
 
-      if (!coupon) {
-        toast.error('Cupom inválido ou expirado');
+      if (!result?.valid) {
+        toast.error(getCouponErrorMessage(result));
         return false;
       }
 
-      // Check expiration
-      if (coupon.valid_until && new Date(coupon.valid_until) < new Date()) {
-        toast.error('Este cupom expirou');
-        return false;
-      }
-
-      // Check usage limit
-      if (coupon.max_uses && coupon.used_count >= coupon.max_uses) {
-        toast.error('Este cupom atingiu o limite de uso');
-        return false;
-      }
-
-      // Check minimum purchase
-      if (coupon.min_purchase && cartTotal < coupon.min_purchase) {
-        toast.error(
-          `Valor mínimo para usar este cupom: ${coupon.min_purchase.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`
-        );
-        return false;
-      }
-
-      setAppliedCoupon({
-        code: coupon.code,
-        discount_percent: coupon.discount_percent,
-        min_purchase: coupon.min_purchase,
-      });
-
-      toast.success(`Cupom aplicado! ${coupon.discount_percent}% de desconto`);
+      const coupon = toCouponData(result);
+      setAppliedCoupon(coupon);
+      toast.success(getCouponSuccessMessage(coupon));
       return true;
     } catch (error) {
       console.error('Error validating coupon:', error);
@@ -70,16 +116,38 @@ export const useCoupon = (cartTotal: number) => {
     } finally {
       setIsValidating(false);
     }
-  };
+  }, [runValidation]);
+
+  // Scoped and fixed coupons depend on the cart contents, so refresh the
+  // discount whenever the cart changes while a coupon is applied
+  const cartKey = items.map((item) => `${item.id}:${item.price}:${item.quantity}`).join('|');
+  useEffect(() => {
+    if (!appliedCoupon) {
+      lastCartKey.current = cartKey;
+      return;
+    }
+    if (lastCartKey.current === cartKey) return;
+    lastCartKey.current = cartKey;
+
+    runValidation(appliedCoupon.code)
+      .then((result) => {
+        if (result?.valid) {
+          setAppliedCoupon(toCouponData(result));
+        } else {
+          setAppliedCoupon(null);
+          toast.error(getCouponErrorMessage(result));
+        }
+      })
+      .catch((error) => console.error('Error revalidating coupon:', error));
+  }, [cartKey, appliedCoupon, runValidation]);
 
   const removeCoupon = () => {
     setAppliedCoupon(null);
     toast.success('Cupom removido');
   };
 
-  const discountAmount = appliedCoupon
-    ? (cartTotal * appliedCoupon.discount_percent) / 100
-    : 0;
+  const discountAmount = appliedCoupon?.discount_amount ?? 0;
+  const freeShipping = !!appliedCoupon?.free_shipping;
 
   return {
     appliedCoupon,
@@ -87,5 +155,6 @@ export const useCoupon = (cartTotal: number) => {
     validateCoupon,
     removeCoupon,
     discountAmount,
+    freeShipping,
   };
 };
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type LoyaltyTransactionType = 'earn' | 'redeem' | 'redeem_release' | 'reversal' | 'adjustment';
+
+export interface LoyaltySummary {
+  enabled: boolean;
+  balance: number;
+  point_value: number;
+  points_per_real: number;
+  min_redeem_points: number;
+  max_redeem_percent: number;
+  accrual_trigger: 'delivered' | 'paid';
+}
+
+export interface LoyaltyTransaction {
+  id: string;
+  order_id: string | null;
+  type: LoyaltyTransactionType;
+  points: number;
+  description: string | null;
+  created_at: string;
+}
+
+interface LoyaltyQuote {
+  valid: boolean;
+  error?: 'disabled' | 'below_minimum';
+  balance?: number;
+  points?: number;
+  discount_amount?: number;
+  min_redeem_points?: number;
+}
+
+export const LOYALTY_TRANSACTION_LABELS: Record<LoyaltyTransactionType, string> = {
+  earn: 'Pontos ganhos',
+  redeem: 'Resgate',
+  redeem_release: 'Resgate devolvido',
+  reversal: 'Estorno',
+  adjustment: 'Ajuste',
+};
+
+export const fetchLoyaltySummary = async (userId: string) => {
+  const { data, error } = await supabase.rpc('get_loyalty_summary', { p_user_id: userId });
+  if (error) throw error;
+  return data as unknown as LoyaltySummary;
+};
+
+export const fetchLoyaltyTransactions = async (userId: string, limit = 20) => {
+  const { data, error } = await supabase
+    .from('loyalty_transactions')
+    .select('id, order_id, type, points, description, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as LoyaltyTransaction[];
+};
+
+/**
+ * Points balance and history of the signed-in customer.
+ * The balance is always the sum of the ledger, computed server-side.
+ */
+export const useLoyalty = () => {
+  const { user } = useAuth();
+
+  const { data: summary, isLoading: loadingSummary } = useQuery({
+    queryKey: ['loyalty-summary', user?.id],
+    queryFn: () => fetchLoyaltySummary(user!.id),
+    enabled: !!user,
+  });
+
+  const { data: transactions = [], isLoading: loadingTransactions } = useQuery({
+    queryKey: ['loyalty-transactions', user?.id],
+    queryFn: () => fetchLoyaltyTransactions(user!.id),
+    enabled: !!user && !!summary?.enabled,
+  });
+
+  return {
+    summary: summary ?? null,
+    transactions,
+    isLoading: loadingSummary || loadingTransactions,
+  };
+};
+
+/**
+ * Checkout redemption: quotes the maximum points usable on the given subtotal
+ * (items after coupon and seller discounts). The checkout functions redeem the
+ * same quote atomically when the order is created.
+ */
+export const useLoyaltyRedemption = (subtotal: number) => {
+  const { user } = useAuth();
+  const [redeemPoints, setRedeemPoints] = useState(false);
+
+  const { data: quote = null, isLoading } = useQuery({
+    queryKey: ['loyalty-quote', user?.id, subtotal],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('quote_loyalty_redemption', {
+        p_user_id: user!.id,
+        p_subtotal: subtotal,
+      });
+      if (error) throw error;
+      return data as unknown as LoyaltyQuote;
+    },
+    enabled: !!user && subtotal > 0,
+  });
+
+  const canRedeem = !!quote?.valid;
+  const isRedeeming = redeemPoints && canRedeem;
+
+  return {
+    quote,
+    isLoading,
+    canRedeem,
+    redeemPoints: isRedeeming,
+    setRedeemPoints,
+    loyaltyPoints: isRedeeming ? quote?.points ?? 0 : 0,
+    loyaltyDiscount: isRedeeming ? Number(quote?.discount_amount ?? 0) : 0,
+  };
+};
@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface OrderTrackingEvent {
+  id: string;
+  tracking_code: string;
+  event_code: string;
+  description: string;
+  details: string | null;
+  location: string | null;
+  is_delivery: boolean;
+  occurred_at: string;
+}
+
+/**
+ * Correios tracking events of an order, newest first.
+ * Events are stored by the scheduled sync-tracking function; only the
+ * events of the current tracking code are returned.
+ */
+export const useOrderTracking = (orderId?: string, trackingCode?: string | null) => {
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['order-tracking', orderId, trackingCode],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_tracking_events')
+        .select('id, tracking_code, event_code, description, details, location, is_delivery, occurred_at')
+        .eq('order_id', orderId!)
+        .eq('tracking_code', trackingCode!.trim().toUpperCase())
+        .order('occurred_at', { ascending: false });
+      if (error) throw error;
+      return (data || []) as OrderTrackingEvent[];
+    },
+    enabled: !!orderId && !!trackingCode,
+  });
+
+  return { events, isLoading };
+};
@@ -0,0 +1,141 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Product } from '@/types/product';
+
+export type SearchSort = 'relevance' | 'featured' | 'newest' | 'best-selling' | 'price-low' | 'price-high' | 'rating';
+
+export interface ProductSearchFilters {
+  query: string;
+  /** Category slugs (or names) */
+  categories?: string[];
+  colors?: string[];
+  models?: string[];
+  minPrice?: number | null;
+  /** Exclusive upper bound, as in the price band facets */
+  maxPrice?: number | null;
+  minRating?: number | null;
+  inStock?: boolean;
+  onSale?: boolean;
+  sort?: SearchSort;
+}
+
+export interface FacetValue {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export interface PriceBandFacet {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface RatingFacet {
+  min: number;
+  count: number;
+}
+
+export interface ProductSearchFacets {
+  total: number;
+  categories: FacetValue[];
+  colors: FacetValue[];
+  models: FacetValue[];
+  price_bands: PriceBandFacet[];
+  ratings: RatingFacet[];
+  in_stock: number;
+  on_sale: number;
+}
+
+/** "50-100" in the URL; open-ended bands have no max ("200-") */
+export const priceBandKey = (band: Pick<PriceBandFacet, 'min' | 'max'>) => `${band.min}-${band.max ?? ''}`;
+
+export const parsePriceBand = (key: string | null): { minPrice: number | null; maxPrice: number | null } => {
+  const match = key?.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)?$/);
+  if (!match) return { minPrice: null, maxPrice: null };
+  return { minPrice: Number(match[1]), maxPrice: match[2] ? Number(match[2]) : null };
+};
+
+const toFilterArgs = (filters: ProductSearchFilters) => ({
+  p_query: filters.query,
+  p_categories: filters.categories?.length ? filters.categories : undefined,
+  p_colors: filters.colors?.length ? filters.colors : undefined,
+  p_models: filters.models?.length ? filters.models : undefined,
+  p_min_price: filters.minPrice ?? undefined,
+  p_max_price: filters.maxPrice ?? undefined,
+  p_min_rating: filters.minRating ?? undefined,
+  p_in_stock: filters.inStock || undefined,
+  p_on_sale: filters.onSale || undefined,
+});
+
+/**
+ * Paginated product catalog (search_products RPC), filtered and sorted on the
+ * server. With a query, results are ranked with Portuguese stemming, accent
+ * insensitive, with a typo-tolerant fallback. Also returns the facet counts
+ * for the current filters and a "did you mean" suggestion when nothing matches.
+ */
+export const useProductSearch = (filters: ProductSearchFilters, pageSize = 24) => {
+  const hasQuery = filters.query.trim().length > 0;
+  const filterArgs = toFilterArgs(filters);
+  const sort = filters.sort || (hasQuery ? 'relevance' : 'featured');
+
+  const {
+    data,
+    isLoading: productsLoading,
+    isFetching,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['product-search', filterArgs, sort, pageSize],
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('search_products', {
+        ...filterArgs,
+        p_sort: sort,
+        p_limit: pageSize,
+        p_offset: pageParam,
+      });
+      if (error) throw error;
+      return (data || []) as Product[];
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < pageSize ? undefined : allPages.length * pageSize,
+    placeholderData: (previous) => previous,
+  });
+
+  const { data: facets, isLoading: facetsLoading } = useQuery({
+    queryKey: ['product-search-facets', filterArgs],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_product_search_facets', filterArgs);
+      if (error) throw error;
+      return data as unknown as ProductSearchFacets;
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const nothingFound = hasQuery && !facetsLoading && facets?.total === 0;
+
+  const { data: suggestion = null } = useQuery({
+    queryKey: ['product-search-suggestion', filters.query],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('suggest_search_query', { p_query: filters.query });
+      if (error) throw error;
+      return data || null;
+    },
+    enabled: nothingFound,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    products: data?.pages.flat() ?? [],
+    facets,
+    total: facets?.total ?? 0,
+    suggestion: nothingFound ? suggestion : null,
+    isLoading: productsLoading || facetsLoading,
+    isFetching,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  };
+};
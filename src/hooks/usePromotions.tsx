@@ -0,0 +1,78 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+interface PromotionalPriceRow {
+  product_id: string;
+  variant_id: string | null;
+  regular_price: number;
+  price: number;
+  promotion_id: string;
+  promotion_name: string;
+  ends_at: string | null;
+}
+
+export interface EffectivePrice {
+  price: number;
+  /** Price to show struck through, if any (regular price during a promotion, or original_price) */
+  compareAtPrice: number | null;
+  promotionName: string | null;
+  promotionEndsAt: string | null;
+}
+
+interface PricedProduct {
+  id: string;
+  price: number;
+  original_price?: number | null;
+}
+
+/**
+ * Active scheduled promotions for the storefront.
+ * Prices come from the get_promotional_prices RPC, the same source the
+ * checkout functions use, so the cart total always matches what is shown.
+ */
+export const usePromotions = () => {
+  const { data: promotionalPrices = [], isLoading } = useQuery({
+    queryKey: ['promotional-prices'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_promotional_prices');
+      if (error) throw error;
+      return (data || []) as PromotionalPriceRow[];
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const getEffectivePrice = useCallback(
+    (product: PricedProduct, variantId?: string | null): EffectivePrice => {
+      const candidates = promotionalPrices.filter(
+        (row) => row.product_id === product.id && (!row.variant_id || row.variant_id === variantId)
+      );
+      const best = candidates.reduce<PromotionalPriceRow | null>(
+        (lowest, row) => (!lowest || Number(row.price) < Number(lowest.price) ? row : lowest),
+        null
+      );
+
+      if (!best) {
+        return {
+          price: product.price,
+          compareAtPrice: product.original_price && product.original_price > product.price ? product.original_price : null,
+          promotionName: null,
+          promotionEndsAt: null,
+        };
+      }
+
+      return {
+        price: Number(best.price),
+        compareAtPrice: Math.max(product.price, product.original_price || 0),
+        promotionName: best.promotion_name,
+        promotionEndsAt: best.ends_at,
+      };
+    },
+    [promotionalPrices]
+  );
+
+  return {
+    isLoading,
+    getEffectivePrice,
+  };
+};
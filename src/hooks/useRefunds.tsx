@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export type RefundGateway = 'stripe' | 'mercadopago' | 'manual';
+export type RefundStatus = 'succeeded' | 'pending' | 'failed';
+
+export interface OrderRefund {
+  id: string;
+  order_id: string;
+  return_request_id: string | null;
+  amount: number;
+  gateway: RefundGateway;
+  gateway_refund_id: string | null;
+  status: RefundStatus;
+  reason: string | null;
+  items: { order_item_id: string; quantity: number }[];
+  restocked: boolean;
+  error_message: string | null;
+  created_at: string;
+}
+
+export const REFUND_GATEWAY_LABELS: Record<RefundGateway, string> = {
+  stripe: 'Stripe',
+  mercadopago: 'Mercado Pago',
+  manual: 'Manual',
+};
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  succeeded: 'Concluído',
+  pending: 'Processando',
+  failed: 'Falhou',
+};
+
+/** Orders that can still receive a refund */
+export const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+/**
+ * Refunds issued for an order (admin), newest first, including failed attempts.
+ * Refunds are created by the refund-order edge function.
+ */
+export const useOrderRefunds = (orderId?: string, enabled = true) => {
+  const { data: refunds = [], isLoading, refetch } = useQuery({
+    queryKey: ['order-refunds', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_refunds')
+        .select('id, order_id, return_request_id, amount, gateway, gateway_refund_id, status, reason, items, restocked, error_message, created_at')
+        .eq('order_id', orderId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []) as unknown as OrderRefund[];
+    },
+    enabled: !!orderId && enabled,
+  });
+
+  return { refunds, isLoading, refetch };
+};
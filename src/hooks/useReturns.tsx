@@ -0,0 +1,121 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export type ReturnStatus =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'label_generated'
+  | 'received'
+  | 'refunded'
+  | 'exchanged';
+
+export type ReturnResolution = 'refund' | 'exchange';
+
+export type ReturnReason =
+  | 'defect'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'damaged'
+  | 'changed_mind'
+  | 'other';
+
+export interface ReturnRequestItem {
+  id: string;
+  order_item_id: string;
+  quantity: number;
+  exchange_variant_id: string | null;
+  order_items: { product_name: string; price: number } | null;
+  exchange_variant: { color: string | null; model: string | null } | null;
+}
+
+export interface ReturnRequest {
+  id: string;
+  order_id: string;
+  user_id: string;
+  status: ReturnStatus;
+  resolution: ReturnResolution;
+  reason: ReturnReason;
+  comments: string | null;
+  admin_notes: string | null;
+  reverse_tracking_code: string | null;
+  reverse_label_number: string | null;
+  refund_amount: number | null;
+  replacement_order_id: string | null;
+  created_at: string;
+  updated_at: string;
+  return_request_items: ReturnRequestItem[];
+}
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Em análise',
+  approved: 'Aprovada',
+  rejected: 'Não aprovada',
+  label_generated: 'Aguardando postagem',
+  received: 'Produtos recebidos',
+  refunded: 'Reembolsada',
+  exchanged: 'Troca enviada',
+};
+
+export const RETURN_STATUS_COLORS: Record<ReturnStatus, string> = {
+  requested: 'bg-blue-100 text-blue-800',
+  approved: 'bg-teal-100 text-teal-800',
+  rejected: 'bg-red-100 text-red-800',
+  label_generated: 'bg-purple-100 text-purple-800',
+  received: 'bg-cyan-100 text-cyan-800',
+  refunded: 'bg-green-100 text-green-800',
+  exchanged: 'bg-green-100 text-green-800',
+};
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  defect: 'Produto com defeito',
+  wrong_item: 'Recebi o produto errado',
+  not_as_described: 'Diferente do anunciado',
+  damaged: 'Chegou danificado',
+  changed_mind: 'Desisti da compra',
+  other: 'Outro motivo',
+};
+
+export const RETURN_RESOLUTION_LABELS: Record<ReturnResolution, string> = {
+  refund: 'Devolução com reembolso',
+  exchange: 'Troca',
+};
+
+/** Statuses that still block a new request for the same order */
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'label_generated', 'received'];
+
+export const RETURN_REQUEST_SELECT = `
+  id, order_id, user_id, status, resolution, reason, comments, admin_notes,
+  reverse_tracking_code, reverse_label_number, refund_amount, replacement_order_id,
+  created_at, updated_at,
+  return_request_items(
+    id, order_item_id, quantity, exchange_variant_id,
+    order_items(product_name, price),
+    exchange_variant:product_variants(color, model)
+  )
+`;
+
+/**
+ * Return/exchange requests of an order, newest first.
+ * Requests are created through the create_return_request RPC, which checks
+ * ownership, delivery status and the quantities already returned.
+ */
+export const useOrderReturns = (orderId?: string) => {
+  const { data: returns = [], isLoading, refetch } = useQuery({
+    queryKey: ['order-returns', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('return_requests')
+        .select(RETURN_REQUEST_SELECT)
+        .eq('order_id', orderId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []) as unknown as ReturnRequest[];
+    },
+    enabled: !!orderId,
+  });
+
+  const hasOpenRequest = returns.some((request) => OPEN_RETURN_STATUSES.includes(request.status));
+
+  return { returns, isLoading, hasOpenRequest, refetch };
+};
@@ -1,9 +1,12 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_INSTALLMENT_BANDS, parseInstallmentBands, type InstallmentSettings } from '@/lib/installments';
 
 export type ShippingMode = 'correios' | 'free' | 'fixed';
 
-interface StoreSettings {
+export type PaymentGatewayName = 'stripe' | 'mercadopago' | 'pagseguro';
+
+interface StoreSettings extends InstallmentSettings {
   free_shipping_threshold: number;
   standard_shipping_rate: number;
   delivery_min_days: number;
@@ -11,6 +14,9 @@ interface StoreSettings {
   shipping_mode: ShippingMode;
   store_pickup_enabled: boolean;
   store_pickup_address: string | null;
+  card_gateway: PaymentGatewayName;
+  pix_gateway: PaymentGatewayName;
+  boleto_gateway: PaymentGatewayName;
 }
 
 const DEFAULT_SETTINGS: StoreSettings = {
@@ -21,6 +27,13 @@ const DEFAULT_SETTINGS: StoreSettings = {
   shipping_mode: 'correios',
   store_pickup_enabled: true,
   store_pickup_address: 'Shopping RioMar, Av. República do Líbano, 251 - Piso L1, Recife - PE',
+  card_gateway: 'stripe',
+  pix_gateway: 'mercadopago',
+  boleto_gateway: 'mercadopago',
+  installment_bands: DEFAULT_INSTALLMENT_BANDS,
+  max_installments: 12,
+  interest_free_installments: 6,
+  installment_interest_rate: 1.99,
 };
 
 export const useStoreSettings = () => {
@@ -30,7 +43,7 @@ export const useStoreSettings = () => {
       // Fetch shipping config and additional fields
       const { data, error } = await supabase
         .from('store_settings')
-        .select('free_shipping_threshold, standard_shipping_rate, delivery_min_days, delivery_max_days, shipping_mode, store_pickup_enabled, store_pickup_address')
+        .select('free_shipping_threshold, standard_shipping_rate, delivery_min_days, delivery_max_days, shipping_mode, store_pickup_enabled, store_pickup_address, card_gateway, pix_gateway, boleto_gateway, installment_bands, max_installments, interest_free_installments, installment_interest_rate')
         .limit(1)
         .maybeSingle();
 
@@ -47,6 +60,13 @@ export const useStoreSettings = () => {
         shipping_mode: (data?.shipping_mode as ShippingMode) ?? DEFAULT_SETTINGS.shipping_mode,
         store_pickup_enabled: data?.store_pickup_enabled ?? DEFAULT_SETTINGS.store_pickup_enabled,
         store_pickup_address: data?.store_pickup_address ?? DEFAULT_SETTINGS.store_pickup_address,
+        card_gateway: (data?.card_gateway as PaymentGatewayName) ?? DEFAULT_SETTINGS.card_gateway,
+        pix_gateway: (data?.pix_gateway as PaymentGatewayName) ?? DEFAULT_SETTINGS.pix_gateway,
+        boleto_gateway: (data?.boleto_gateway as PaymentGatewayName) ?? DEFAULT_SETTINGS.boleto_gateway,
+        installment_bands: parseInstallmentBands(data?.installment_bands),
+        max_installments: data?.max_installments ?? DEFAULT_SETTINGS.max_installments,
+        interest_free_installments: data?.interest_free_installments ?? DEFAULT_SETTINGS.interest_free_installments,
+        installment_interest_rate: data?.installment_interest_rate ?? DEFAULT_SETTINGS.installment_interest_rate,
       };
     },
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
@@ -1,14 +1,24 @@
-import { createContext, useContext, ReactNode, useCallback } from 'react';
+import { createContext, useContext, ReactNode, useCallback, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 
+export interface WishlistItem {
+  product_id: string;
+  /** Effective price (with promotions) when the product was saved */
+  price_at_add: number | null;
+  /** Per-item price drop / back in stock email alerts */
+  alerts_enabled: boolean;
+}
+
 interface WishlistContextType {
   wishlistIds: string[];
+  wishlistItems: WishlistItem[];
   isLoading: boolean;
   isInWishlist: (productId: string) => boolean;
   toggleWishlist: (productId: string) => void;
+  setItemAlerts: (productId: string, enabled: boolean) => void;
   wishlistCount: number;
 }
 
@@ -26,7 +36,7 @@ export function WishlistProvider({ children }: { children: ReactNode }) {
       
       const { data, error } = await supabase
         .from('wishlist')
-        .select('product_id')
+        .select('product_id, price_at_add, alerts_enabled')
         .eq('user_id', user.id);
       
       if (error) {
@@ -34,14 +44,16 @@ export function WishlistProvider({ children }: { children: ReactNode }) {
         return [];
       }
       
-      return data.map(item => item.product_id);
+      return data as WishlistItem[];
     },
     enabled: !!user,
   });
 
+  const wishlistIds = useMemo(() => wishlistItems.map(item => item.product_id), [wishlistItems]);
+
   const isInWishlist = useCallback((productId: string) => {
-    return wishlistItems.includes(productId);
-  }, [wishlistItems]);
+    return wishlistIds.includes(productId);
+  }, [wishlistIds]);
 
   // Add to wishlist mutation
   const addMutation = useMutation({
@@ -85,6 +97,32 @@ export function WishlistProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  // Alerts opt-out mutation
+  const alertsMutation = useMutation({
+    mutationFn: async ({ productId, enabled }: { productId: string; enabled: boolean }) => {
+      if (!user) throw new Error('Faça login para alterar os avisos');
+
+      const { error } = await supabase
+        .from('wishlist')
+        .update({ alerts_enabled: enabled })
+        .eq('user_id', user.id)
+        .eq('product_id', productId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { enabled }) => {
+      queryClient.invalidateQueries({ queryKey: ['wishlist', user?.id] });
+      toast.success(enabled ? 'Avisos ativados para este produto' : 'Avisos desativados para este produto');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const setItemAlerts = useCallback((productId: string, enabled: boolean) => {
+    alertsMutation.mutate({ productId, enabled });
+  }, [alertsMutation]);
+
   const toggleWishlist = useCallback((productId: string) => {
     if (!user) {
       toast.error('Faça login para salvar produtos na wishlist');
@@ -101,11 +139,13 @@ export function WishlistProvider({ children }: { children: ReactNode }) {
   return (
     <WishlistContext.Provider
       value={{
-        wishlistIds: wishlistItems,
+        wishlistIds,
+        wishlistItems,
         isLoading,
         isInWishlist,
         toggleWishlist,
-        wishlistCount: wishlistItems.length,
+        setItemAlerts,
+        wishlistCount: wishlistIds.length,
       }}
     >
       {children}
@@ -16,36 +16,77 @@ export type Database = {
     Tables: {
       abandoned_carts: {
         Row: {
+          capture_ip: string | null
+          closed_at: string | null
           created_at: string
+          customer_name: string | null
+          email: string | null
           email_sent: boolean | null
+          emails_sent: number
           id: string
           items: Json
+          last_activity_at: string
+          last_email_sent_at: string | null
           recovered: boolean | null
+          recovered_amount: number | null
+          recovered_at: string | null
+          recovered_order_id: string | null
+          recovery_coupon_code: string | null
           total: number
           updated_at: string
-          user_id: string
+          user_id: string | null
         }
         Insert: {
+          capture_ip?: string | null
+          closed_at?: string | null
           created_at?: string
+          customer_name?: string | null
+          email?: string | null
           email_sent?: boolean | null
+          emails_sent?: number
           id?: string
           items: Json
+          last_activity_at?: string
+          last_email_sent_at?: string | null
           recovered?: boolean | null
+          recovered_amount?: number | null
+          recovered_at?: string | null
+          recovered_order_id?: string | null
+          recovery_coupon_code?: string | null
           total: number
           updated_at?: string
-          user_id: string
+          user_id?: string | null
         }
         Update: {
+          capture_ip?: string | null
+          closed_at?: string | null
           created_at?: string
+          customer_name?: string | null
+          email?: string | null
           email_sent?: boolean | null
+          emails_sent?: number
           id?: string
           items?: Json
+          last_activity_at?: string
+          last_email_sent_at?: string | null
           recovered?: boolean | null
+          recovered_amount?: number | null
+          recovered_at?: string | null
+          recovered_order_id?: string | null
+          recovery_coupon_code?: string | null
           total?: number
           updated_at?: string
-          user_id?: string
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "abandoned_carts_recovered_order_id_fkey"
+            columns: ["recovered_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       audit_logs: {
         Row: {
@@ -89,6 +130,57 @@ export type Database = {
         }
         Relationships: []
       }
+      back_in_stock_subscriptions: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          notified_at: string | null
+          product_id: string
+          product_variant_id: string
+          ready_at: string | null
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id?: string
+          notified_at?: string | null
+          product_id: string
+          product_variant_id: string
+          ready_at?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          notified_at?: string | null
+          product_id?: string
+          product_variant_id?: string
+          ready_at?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "back_in_stock_subscriptions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "back_in_stock_subscriptions_product_variant_id_fkey"
+            columns: ["product_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
@@ -125,44 +217,119 @@ export type Database = {
         }
         Relationships: []
       }
+      coupon_redemptions: {
+        Row: {
+          confirmed_at: string | null
+          coupon_id: string
+          created_at: string | null
+          customer_email: string | null
+          discount_amount: number
+          id: string
+          order_id: string
+          released_at: string | null
+          status: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          confirmed_at?: string | null
+          coupon_id: string
+          created_at?: string | null
+          customer_email?: string | null
+          discount_amount?: number
+          id?: string
+          order_id: string
+          released_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          confirmed_at?: string | null
+          coupon_id?: string
+          created_at?: string | null
+          customer_email?: string | null
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          released_at?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coupons: {
         Row: {
+          category_ids: string[]
           code: string
           created_at: string | null
           created_by: string | null
           discount_percent: number
+          discount_type: string
+          fixed_amount: number | null
           id: string
           is_active: boolean | null
           max_uses: number | null
+          max_uses_per_customer: number | null
           min_purchase: number | null
+          product_ids: string[]
+          stacks_with_seller: boolean
           updated_at: string | null
           used_count: number | null
           valid_from: string | null
           valid_until: string | null
         }
         Insert: {
+          category_ids?: string[]
           code: string
           created_at?: string | null
           created_by?: string | null
           discount_percent: number
+          discount_type?: string
+          fixed_amount?: number | null
           id?: string
           is_active?: boolean | null
           max_uses?: number | null
+          max_uses_per_customer?: number | null
           min_purchase?: number | null
+          product_ids?: string[]
+          stacks_with_seller?: boolean
           updated_at?: string | null
           used_count?: number | null
           valid_from?: string | null
           valid_until?: string | null
         }
         Update: {
+          category_ids?: string[]
           code?: string
           created_at?: string | null
           created_by?: string | null
           discount_percent?: number
+          discount_type?: string
+          fixed_amount?: number | null
           id?: string
           is_active?: boolean | null
           max_uses?: number | null
+          max_uses_per_customer?: number | null
           min_purchase?: number | null
+          product_ids?: string[]
+          stacks_with_seller?: boolean
           updated_at?: string | null
           used_count?: number | null
           valid_from?: string | null
@@ -301,6 +468,54 @@ export type Database = {
         }
         Relationships: []
       }
+      loyalty_transactions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          order_id: string | null
+          points: number
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          order_id?: string | null
+          points: number
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          order_id?: string | null
+          points?: number
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       order_confirm_tokens: {
         Row: {
           created_at: string
@@ -336,6 +551,129 @@ export type Database = {
           },
         ]
       }
+      order_invoices: {
+        Row: {
+          access_key: string | null
+          attempts: number
+          created_at: string
+          danfe_path: string | null
+          error_message: string | null
+          id: string
+          issued_at: string | null
+          model: string
+          number: number
+          order_id: string
+          protocol: string | null
+          provider: string | null
+          series: number
+          status: string
+          updated_at: string
+          xml: string | null
+        }
+        Insert: {
+          access_key?: string | null
+          attempts?: number
+          created_at?: string
+          danfe_path?: string | null
+          error_message?: string | null
+          id?: string
+          issued_at?: string | null
+          model?: string
+          number: number
+          order_id: string
+          protocol?: string | null
+          provider?: string | null
+          series?: number
+          status?: string
+          updated_at?: string
+          xml?: string | null
+        }
+        Update: {
+          access_key?: string | null
+          attempts?: number
+          created_at?: string
+          danfe_path?: string | null
+          error_message?: string | null
+          id?: string
+          issued_at?: string | null
+          model?: string
+          number?: number
+          order_id?: string
+          protocol?: string | null
+          provider?: string | null
+          series?: number
+          status?: string
+          updated_at?: string
+          xml?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_components: {
+        Row: {
+          color: string | null
+          created_at: string
+          id: string
+          model: string | null
+          order_item_id: string
+          product_id: string | null
+          product_name: string
+          product_variant_id: string | null
+          quantity: number
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          model?: string | null
+          order_item_id: string
+          product_id?: string | null
+          product_name: string
+          product_variant_id?: string | null
+          quantity: number
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          model?: string | null
+          order_item_id?: string
+          product_id?: string | null
+          product_name?: string
+          product_variant_id?: string | null
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_components_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_components_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_components_product_variant_id_fkey"
+            columns: ["product_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           assigned_at: string | null
@@ -345,7 +683,9 @@ export type Database = {
           price: number
           product_id: string | null
           product_name: string
+          product_variant_id: string | null
           quantity: number
+          restocked_quantity: number
           source_store_id: string | null
         }
         Insert: {
@@ -356,7 +696,9 @@ export type Database = {
           price: number
           product_id?: string | null
           product_name: string
+          product_variant_id?: string | null
           quantity: number
+          restocked_quantity?: number
           source_store_id?: string | null
         }
         Update: {
@@ -367,7 +709,9 @@ export type Database = {
           price?: number
           product_id?: string | null
           product_name?: string
+          product_variant_id?: string | null
           quantity?: number
+          restocked_quantity?: number
           source_store_id?: string | null
         }
         Relationships: [
@@ -385,6 +729,13 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_product_variant_id_fkey"
+            columns: ["product_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "order_items_source_store_id_fkey"
             columns: ["source_store_id"]
@@ -394,72 +745,206 @@ export type Database = {
           },
         ]
       }
-      orders: {
+      order_refunds: {
         Row: {
-          coupon_code: string | null
-          created_at: string
-          declared_value: number | null
-          discount_amount: number | null
-          guest_email: string | null
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          error_message: string | null
+          gateway: string
+          gateway_refund_id: string | null
           id: string
-          label_generated: boolean | null
-          label_generated_at: string | null
-          label_pdf_url: string | null
-          mercadopago_payment_id: string | null
-          pagseguro_transaction_id: string | null
-          payment_gateway: string | null
-          payment_method: string | null
-          payment_status: string | null
-          phone: string | null
-          received_at: string | null
-          review_email_sent: boolean | null
-          seller_code: string | null
-          seller_discount_amount: number | null
-          shipping_address: Json | null
-          shipping_cost: number | null
-          shipping_method: string | null
-          shipping_weight: number | null
-          sigep_etiqueta: string | null
+          items: Json
+          order_id: string
+          reason: string | null
+          restocked: boolean
+          return_request_id: string | null
           status: string
-          total: number
-          tracking_code: string | null
-          updated_at: string
-          user_id: string | null
         }
         Insert: {
-          coupon_code?: string | null
-          created_at?: string
-          declared_value?: number | null
-          discount_amount?: number | null
-          guest_email?: string | null
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          error_message?: string | null
+          gateway: string
+          gateway_refund_id?: string | null
           id?: string
-          label_generated?: boolean | null
-          label_generated_at?: string | null
-          label_pdf_url?: string | null
-          mercadopago_payment_id?: string | null
-          pagseguro_transaction_id?: string | null
-          payment_gateway?: string | null
-          payment_method?: string | null
-          payment_status?: string | null
-          phone?: string | null
+          items?: Json
+          order_id: string
+          reason?: string | null
+          restocked?: boolean
+          return_request_id?: string | null
+          status: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          error_message?: string | null
+          gateway?: string
+          gateway_refund_id?: string | null
+          id?: string
+          items?: Json
+          order_id?: string
+          reason?: string | null
+          restocked?: boolean
+          return_request_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_return_request_id_fkey"
+            columns: ["return_request_id"]
+            isOneToOne: false
+            referencedRelation: "return_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_tracking_events: {
+        Row: {
+          created_at: string | null
+          description: string
+          details: string | null
+          event_code: string
+          event_type: string
+          id: string
+          is_delivery: boolean
+          location: string | null
+          occurred_at: string
+          order_id: string
+          raw: Json | null
+          tracking_code: string
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          details?: string | null
+          event_code: string
+          event_type?: string
+          id?: string
+          is_delivery?: boolean
+          location?: string | null
+          occurred_at: string
+          order_id: string
+          raw?: Json | null
+          tracking_code: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          details?: string | null
+          event_code?: string
+          event_type?: string
+          id?: string
+          is_delivery?: boolean
+          location?: string | null
+          occurred_at?: string
+          order_id?: string
+          raw?: Json | null
+          tracking_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_tracking_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          abandoned_cart_id: string | null
+          coupon_code: string | null
+          created_at: string
+          customer_document: string | null
+          declared_value: number | null
+          discount_amount: number | null
+          guest_email: string | null
+          id: string
+          label_generated: boolean | null
+          label_generated_at: string | null
+          label_pdf_url: string | null
+          loyalty_discount_amount: number
+          loyalty_points_redeemed: number
+          mercadopago_payment_id: string | null
+          pagseguro_transaction_id: string | null
+          payment_gateway: string | null
+          payment_method: string | null
+          payment_status: string | null
+          phone: string | null
+          received_at: string | null
+          refunded_amount: number
+          review_email_sent: boolean | null
+          seller_code: string | null
+          seller_discount_amount: number | null
+          shipping_address: Json | null
+          shipping_cost: number | null
+          shipping_dimensions: Json | null
+          shipping_method: string | null
+          shipping_weight: number | null
+          sigep_etiqueta: string | null
+          status: string
+          stripe_payment_intent_id: string | null
+          total: number
+          tracking_code: string | null
+          tracking_synced_at: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          abandoned_cart_id?: string | null
+          coupon_code?: string | null
+          created_at?: string
+          customer_document?: string | null
+          declared_value?: number | null
+          discount_amount?: number | null
+          guest_email?: string | null
+          id?: string
+          label_generated?: boolean | null
+          label_generated_at?: string | null
+          label_pdf_url?: string | null
+          loyalty_discount_amount?: number
+          loyalty_points_redeemed?: number
+          mercadopago_payment_id?: string | null
+          pagseguro_transaction_id?: string | null
+          payment_gateway?: string | null
+          payment_method?: string | null
+          payment_status?: string | null
+          phone?: string | null
           received_at?: string | null
+          refunded_amount?: number
           review_email_sent?: boolean | null
           seller_code?: string | null
           seller_discount_amount?: number | null
           shipping_address?: Json | null
           shipping_cost?: number | null
+          shipping_dimensions?: Json | null
           shipping_method?: string | null
           shipping_weight?: number | null
           sigep_etiqueta?: string | null
           status?: string
+          stripe_payment_intent_id?: string | null
           total: number
           tracking_code?: string | null
+          tracking_synced_at?: string | null
           updated_at?: string
           user_id?: string | null
         }
         Update: {
+          abandoned_cart_id?: string | null
           coupon_code?: string | null
           created_at?: string
+          customer_document?: string | null
           declared_value?: number | null
           discount_amount?: number | null
           guest_email?: string | null
@@ -467,6 +952,8 @@ export type Database = {
           label_generated?: boolean | null
           label_generated_at?: string | null
           label_pdf_url?: string | null
+          loyalty_discount_amount?: number
+          loyalty_points_redeemed?: number
           mercadopago_payment_id?: string | null
           pagseguro_transaction_id?: string | null
           payment_gateway?: string | null
@@ -474,21 +961,223 @@ export type Database = {
           payment_status?: string | null
           phone?: string | null
           received_at?: string | null
+          refunded_amount?: number
           review_email_sent?: boolean | null
           seller_code?: string | null
           seller_discount_amount?: number | null
           shipping_address?: Json | null
           shipping_cost?: number | null
+          shipping_dimensions?: Json | null
           shipping_method?: string | null
           shipping_weight?: number | null
           sigep_etiqueta?: string | null
           status?: string
+          stripe_payment_intent_id?: string | null
           total?: number
           tracking_code?: string | null
+          tracking_synced_at?: string | null
           updated_at?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "orders_abandoned_cart_id_fkey"
+            columns: ["abandoned_cart_id"]
+            isOneToOne: false
+            referencedRelation: "abandoned_carts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pix_charges: {
+        Row: {
+          amount: number
+          created_at: string
+          expires_at: string
+          gateway: string
+          gateway_charge_id: string
+          id: string
+          order_id: string
+          paid_at: string | null
+          qr_code: string
+          qr_code_base64: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          expires_at: string
+          gateway?: string
+          gateway_charge_id: string
+          id?: string
+          order_id: string
+          paid_at?: string | null
+          qr_code: string
+          qr_code_base64?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          expires_at?: string
+          gateway?: string
+          gateway_charge_id?: string
+          id?: string
+          order_id?: string
+          paid_at?: string | null
+          qr_code?: string
+          qr_code_base64?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pix_charges_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_bundle_items: {
+        Row: {
+          bundle_product_id: string
+          component_variant_id: string
+          created_at: string
+          display_order: number
+          id: string
+          quantity: number
+        }
+        Insert: {
+          bundle_product_id: string
+          component_variant_id: string
+          created_at?: string
+          display_order?: number
+          id?: string
+          quantity?: number
+        }
+        Update: {
+          bundle_product_id?: string
+          component_variant_id?: string
+          created_at?: string
+          display_order?: number
+          id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_bundle_items_bundle_product_id_fkey"
+            columns: ["bundle_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_bundle_items_component_variant_id_fkey"
+            columns: ["component_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_questions: {
+        Row: {
+          answer: string | null
+          answer_notified_at: string | null
+          answered_at: string | null
+          answered_by: string | null
+          created_at: string
+          id: string
+          product_id: string
+          question: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          answer?: string | null
+          answer_notified_at?: string | null
+          answered_at?: string | null
+          answered_by?: string | null
+          created_at?: string
+          id?: string
+          product_id: string
+          question: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          answer?: string | null
+          answer_notified_at?: string | null
+          answered_at?: string | null
+          answered_by?: string | null
+          created_at?: string
+          id?: string
+          product_id?: string
+          question?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_questions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_recommendations: {
+        Row: {
+          id: string
+          product_id: string
+          rank: number
+          recommended_product_id: string
+          refreshed_at: string
+          score: number
+          source: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          rank: number
+          recommended_product_id: string
+          refreshed_at?: string
+          score?: number
+          source: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          rank?: number
+          recommended_product_id?: string
+          refreshed_at?: string
+          score?: number
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_recommendations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_recommendations_recommended_product_id_fkey"
+            columns: ["recommended_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       product_reviews: {
         Row: {
@@ -497,12 +1186,18 @@ export type Database = {
           approved: boolean | null
           comment: string | null
           created_at: string | null
+          helpful_count: number
           id: string
           order_id: string | null
           product_id: string
           rating: number
+          store_reply: string | null
+          store_reply_at: string | null
+          store_reply_by: string | null
+          store_reply_notified_at: string | null
           updated_at: string | null
           user_id: string
+          verified_purchase: boolean
         }
         Insert: {
           admin_comment?: string | null
@@ -510,12 +1205,18 @@ export type Database = {
           approved?: boolean | null
           comment?: string | null
           created_at?: string | null
+          helpful_count?: number
           id?: string
           order_id?: string | null
           product_id: string
           rating: number
+          store_reply?: string | null
+          store_reply_at?: string | null
+          store_reply_by?: string | null
+          store_reply_notified_at?: string | null
           updated_at?: string | null
           user_id: string
+          verified_purchase?: boolean
         }
         Update: {
           admin_comment?: string | null
@@ -523,12 +1224,18 @@ export type Database = {
           approved?: boolean | null
           comment?: string | null
           created_at?: string | null
+          helpful_count?: number
           id?: string
           order_id?: string | null
           product_id?: string
           rating?: number
+          store_reply?: string | null
+          store_reply_at?: string | null
+          store_reply_by?: string | null
+          store_reply_notified_at?: string | null
           updated_at?: string | null
           user_id?: string
+          verified_purchase?: boolean
         }
         Relationships: [
           {
@@ -547,36 +1254,77 @@ export type Database = {
           },
         ]
       }
+      product_search_index: {
+        Row: {
+          product_id: string
+          search_text: string
+          search_vector: unknown
+          updated_at: string
+        }
+        Insert: {
+          product_id: string
+          search_text: string
+          search_vector: unknown
+          updated_at?: string
+        }
+        Update: {
+          product_id?: string
+          search_text?: string
+          search_vector?: unknown
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_search_index_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: true
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       product_variants: {
         Row: {
           codigo_variacao: string | null
           color: string | null
           created_at: string | null
+          height_cm: number | null
           id: string
+          length_cm: number | null
           model: string | null
           product_id: string
           stock_quantity: number
           updated_at: string | null
+          weight_grams: number | null
+          width_cm: number | null
         }
         Insert: {
           codigo_variacao?: string | null
           color?: string | null
           created_at?: string | null
+          height_cm?: number | null
           id?: string
+          length_cm?: number | null
           model?: string | null
           product_id: string
           stock_quantity?: number
           updated_at?: string | null
+          weight_grams?: number | null
+          width_cm?: number | null
         }
         Update: {
           codigo_variacao?: string | null
           color?: string | null
           created_at?: string | null
+          height_cm?: number | null
           id?: string
+          length_cm?: number | null
           model?: string | null
           product_id?: string
           stock_quantity?: number
           updated_at?: string | null
+          weight_grams?: number | null
+          width_cm?: number | null
         }
         Relationships: [
           {
@@ -591,92 +1339,377 @@ export type Database = {
       products: {
         Row: {
           category: string
+          cfop: string | null
           codigo_produto: string | null
           color: string[] | null
           color_codes: Json | null
           created_at: string
           description: string | null
           featured: boolean | null
+          height_cm: number | null
           id: string
           image: string | null
           images: string[] | null
           in_stock: boolean | null
+          is_bundle: boolean
+          length_cm: number | null
           model: string[] | null
           name: string
+          ncm: string | null
           original_price: number | null
           price: number
           rating: number | null
           sizes: string[] | null
+          tax_origin: number
+          updated_at: string
+          weight_grams: number | null
+          width_cm: number | null
+        }
+        Insert: {
+          category: string
+          cfop?: string | null
+          codigo_produto?: string | null
+          color?: string[] | null
+          color_codes?: Json | null
+          created_at?: string
+          description?: string | null
+          featured?: boolean | null
+          height_cm?: number | null
+          id?: string
+          image?: string | null
+          images?: string[] | null
+          in_stock?: boolean | null
+          is_bundle?: boolean
+          length_cm?: number | null
+          model?: string[] | null
+          name: string
+          ncm?: string | null
+          original_price?: number | null
+          price: number
+          rating?: number | null
+          sizes?: string[] | null
+          tax_origin?: number
+          updated_at?: string
+          weight_grams?: number | null
+          width_cm?: number | null
+        }
+        Update: {
+          category?: string
+          cfop?: string | null
+          codigo_produto?: string | null
+          color?: string[] | null
+          color_codes?: Json | null
+          created_at?: string
+          description?: string | null
+          featured?: boolean | null
+          height_cm?: number | null
+          id?: string
+          image?: string | null
+          images?: string[] | null
+          in_stock?: boolean | null
+          is_bundle?: boolean
+          length_cm?: number | null
+          model?: string[] | null
+          name?: string
+          ncm?: string | null
+          original_price?: number | null
+          price?: number
+          rating?: number | null
+          sizes?: string[] | null
+          tax_origin?: number
+          updated_at?: string
+          weight_grams?: number | null
+          width_cm?: number | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          document: string | null
+          full_name: string | null
+          id: string
+          phone: string | null
           updated_at: string
+          user_id: string
+          wishlist_alerts_enabled: boolean
+        }
+        Insert: {
+          created_at?: string
+          document?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+          wishlist_alerts_enabled?: boolean
+        }
+        Update: {
+          created_at?: string
+          document?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+          wishlist_alerts_enabled?: boolean
+        }
+        Relationships: []
+      }
+      promotions: {
+        Row: {
+          category_ids: string[]
+          created_at: string | null
+          created_by: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          id: string
+          is_active: boolean
+          name: string
+          product_ids: string[]
+          starts_at: string
+          target_type: string
+          updated_at: string | null
+          variant_ids: string[]
+        }
+        Insert: {
+          category_ids?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          discount_type?: string
+          discount_value: number
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          product_ids?: string[]
+          starts_at?: string
+          target_type: string
+          updated_at?: string | null
+          variant_ids?: string[]
+        }
+        Update: {
+          category_ids?: string[]
+          created_at?: string | null
+          created_by?: string | null
+          discount_type?: string
+          discount_value?: number
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          product_ids?: string[]
+          starts_at?: string
+          target_type?: string
+          updated_at?: string | null
+          variant_ids?: string[]
+        }
+        Relationships: []
+      }
+      return_request_items: {
+        Row: {
+          created_at: string | null
+          exchange_variant_id: string | null
+          id: string
+          order_item_id: string
+          quantity: number
+          restocked_store_id: string | null
+          return_request_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          exchange_variant_id?: string | null
+          id?: string
+          order_item_id: string
+          quantity: number
+          restocked_store_id?: string | null
+          return_request_id: string
+        }
+        Update: {
+          created_at?: string | null
+          exchange_variant_id?: string | null
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          restocked_store_id?: string | null
+          return_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_request_items_exchange_variant_id_fkey"
+            columns: ["exchange_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_request_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_request_items_restocked_store_id_fkey"
+            columns: ["restocked_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_request_items_return_request_id_fkey"
+            columns: ["return_request_id"]
+            isOneToOne: false
+            referencedRelation: "return_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_requests: {
+        Row: {
+          admin_notes: string | null
+          approved_at: string | null
+          comments: string | null
+          created_at: string | null
+          id: string
+          label_generated_at: string | null
+          order_id: string
+          reason: string
+          received_at: string | null
+          refund_amount: number | null
+          replacement_order_id: string | null
+          resolution: string
+          resolved_at: string | null
+          reverse_label_number: string | null
+          reverse_tracking_code: string | null
+          status: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          admin_notes?: string | null
+          approved_at?: string | null
+          comments?: string | null
+          created_at?: string | null
+          id?: string
+          label_generated_at?: string | null
+          order_id: string
+          reason: string
+          received_at?: string | null
+          refund_amount?: number | null
+          replacement_order_id?: string | null
+          resolution: string
+          resolved_at?: string | null
+          reverse_label_number?: string | null
+          reverse_tracking_code?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          admin_notes?: string | null
+          approved_at?: string | null
+          comments?: string | null
+          created_at?: string | null
+          id?: string
+          label_generated_at?: string | null
+          order_id?: string
+          reason?: string
+          received_at?: string | null
+          refund_amount?: number | null
+          replacement_order_id?: string | null
+          resolution?: string
+          resolved_at?: string | null
+          reverse_label_number?: string | null
+          reverse_tracking_code?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_replacement_order_id_fkey"
+            columns: ["replacement_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_photos: {
+        Row: {
+          created_at: string
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          review_id: string
+          status: string
+          storage_path: string
+          user_id: string
         }
         Insert: {
-          category: string
-          codigo_produto?: string | null
-          color?: string[] | null
-          color_codes?: Json | null
           created_at?: string
-          description?: string | null
-          featured?: boolean | null
           id?: string
-          image?: string | null
-          images?: string[] | null
-          in_stock?: boolean | null
-          model?: string[] | null
-          name: string
-          original_price?: number | null
-          price: number
-          rating?: number | null
-          sizes?: string[] | null
-          updated_at?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          review_id: string
+          status?: string
+          storage_path: string
+          user_id: string
         }
         Update: {
-          category?: string
-          codigo_produto?: string | null
-          color?: string[] | null
-          color_codes?: Json | null
           created_at?: string
-          description?: string | null
-          featured?: boolean | null
           id?: string
-          image?: string | null
-          images?: string[] | null
-          in_stock?: boolean | null
-          model?: string[] | null
-          name?: string
-          original_price?: number | null
-          price?: number
-          rating?: number | null
-          sizes?: string[] | null
-          updated_at?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          review_id?: string
+          status?: string
+          storage_path?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "review_photos_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "product_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      review_votes: {
         Row: {
           created_at: string
-          full_name: string | null
-          id: string
-          phone: string | null
-          updated_at: string
+          review_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          full_name?: string | null
-          id?: string
-          phone?: string | null
-          updated_at?: string
+          review_id: string
           user_id: string
         }
         Update: {
           created_at?: string
-          full_name?: string | null
-          id?: string
-          phone?: string | null
-          updated_at?: string
+          review_id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "review_votes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "product_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       roadmap_items: {
         Row: {
@@ -806,6 +1839,83 @@ export type Database = {
           },
         ]
       }
+      stock_reservations: {
+        Row: {
+          committed_at: string | null
+          created_at: string | null
+          expires_at: string
+          id: string
+          order_id: string
+          order_item_id: string | null
+          product_variant_id: string
+          quantity: number
+          release_reason: string | null
+          released_at: string | null
+          status: string
+          store_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          committed_at?: string | null
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          order_id: string
+          order_item_id?: string | null
+          product_variant_id: string
+          quantity: number
+          release_reason?: string | null
+          released_at?: string | null
+          status?: string
+          store_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          committed_at?: string | null
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          order_id?: string
+          order_item_id?: string | null
+          product_variant_id?: string
+          quantity?: number
+          release_reason?: string | null
+          released_at?: string | null
+          status?: string
+          store_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_product_variant_id_fkey"
+            columns: ["product_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       stock_transfers: {
         Row: {
           completed_at: string | null
@@ -872,6 +1982,12 @@ export type Database = {
       }
       store_settings: {
         Row: {
+          abandoned_cart_coupon_enabled: boolean
+          abandoned_cart_coupon_percent: number
+          abandoned_cart_coupon_valid_days: number
+          abandoned_cart_steps: number[]
+          boleto_gateway: string
+          card_gateway: string
           created_at: string
           currency: string | null
           delivery_max_days: number | null
@@ -879,10 +1995,21 @@ export type Database = {
           diagnostic_test_email: string | null
           free_shipping_threshold: number | null
           id: string
+          installment_bands: Json
+          installment_interest_rate: number
+          interest_free_installments: number
+          loyalty_accrual_trigger: string
+          loyalty_enabled: boolean
+          loyalty_max_redeem_percent: number
+          loyalty_min_redeem_points: number
+          loyalty_point_value: number
+          loyalty_points_per_real: number
+          max_installments: number
           notify_abandoned_cart: boolean | null
           notify_low_stock: boolean | null
           notify_messages: boolean | null
           notify_orders: boolean | null
+          pix_gateway: string
           shipping_mode: string | null
           standard_shipping_rate: number | null
           store_description: string | null
@@ -894,6 +2021,12 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          abandoned_cart_coupon_enabled?: boolean
+          abandoned_cart_coupon_percent?: number
+          abandoned_cart_coupon_valid_days?: number
+          abandoned_cart_steps?: number[]
+          boleto_gateway?: string
+          card_gateway?: string
           created_at?: string
           currency?: string | null
           delivery_max_days?: number | null
@@ -901,10 +2034,21 @@ export type Database = {
           diagnostic_test_email?: string | null
           free_shipping_threshold?: number | null
           id?: string
+          installment_bands?: Json
+          installment_interest_rate?: number
+          interest_free_installments?: number
+          loyalty_accrual_trigger?: string
+          loyalty_enabled?: boolean
+          loyalty_max_redeem_percent?: number
+          loyalty_min_redeem_points?: number
+          loyalty_point_value?: number
+          loyalty_points_per_real?: number
+          max_installments?: number
           notify_abandoned_cart?: boolean | null
           notify_low_stock?: boolean | null
           notify_messages?: boolean | null
           notify_orders?: boolean | null
+          pix_gateway?: string
           shipping_mode?: string | null
           standard_shipping_rate?: number | null
           store_description?: string | null
@@ -916,6 +2060,12 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          abandoned_cart_coupon_enabled?: boolean
+          abandoned_cart_coupon_percent?: number
+          abandoned_cart_coupon_valid_days?: number
+          abandoned_cart_steps?: number[]
+          boleto_gateway?: string
+          card_gateway?: string
           created_at?: string
           currency?: string | null
           delivery_max_days?: number | null
@@ -923,10 +2073,21 @@ export type Database = {
           diagnostic_test_email?: string | null
           free_shipping_threshold?: number | null
           id?: string
+          installment_bands?: Json
+          installment_interest_rate?: number
+          interest_free_installments?: number
+          loyalty_accrual_trigger?: string
+          loyalty_enabled?: boolean
+          loyalty_max_redeem_percent?: number
+          loyalty_min_redeem_points?: number
+          loyalty_point_value?: number
+          loyalty_points_per_real?: number
+          max_installments?: number
           notify_abandoned_cart?: boolean | null
           notify_low_stock?: boolean | null
           notify_messages?: boolean | null
           notify_orders?: boolean | null
+          pix_gateway?: string
           shipping_mode?: string | null
           standard_shipping_rate?: number | null
           store_description?: string | null
@@ -1112,20 +2273,35 @@ export type Database = {
       }
       wishlist: {
         Row: {
+          alerts_enabled: boolean
           created_at: string
           id: string
+          last_alerted_at: string | null
+          last_known_available: boolean
+          last_notified_price: number | null
+          price_at_add: number | null
           product_id: string
           user_id: string
         }
         Insert: {
+          alerts_enabled?: boolean
           created_at?: string
           id?: string
+          last_alerted_at?: string | null
+          last_known_available?: boolean
+          last_notified_price?: number | null
+          price_at_add?: number | null
           product_id: string
           user_id: string
         }
         Update: {
+          alerts_enabled?: boolean
           created_at?: string
           id?: string
+          last_alerted_at?: string | null
+          last_known_available?: boolean
+          last_notified_price?: number | null
+          price_at_add?: number | null
           product_id?: string
           user_id?: string
         }
@@ -1144,22 +2320,104 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      adjust_loyalty_points: {
+        Args: { p_points: number; p_reason: string; p_user_id: string }
+        Returns: number
+      }
+      award_order_loyalty_points: { Args: { p_order_id: string }; Returns: number }
+      can_view_loyalty: { Args: { p_user_id: string }; Returns: boolean }
       cancel_stock_transfer: {
         Args: { p_transfer_id: string; p_user_id: string }
         Returns: boolean
       }
+      capture_abandoned_cart: {
+        Args: {
+          p_customer_name?: string
+          p_email: string
+          p_items: Json
+          p_total: number
+        }
+        Returns: string
+      }
       check_webhook_processed: {
         Args: { p_event_id: string; p_provider: string }
         Returns: boolean
       }
+      claim_order_invoice: {
+        Args: { p_model: string; p_order_id: string; p_series: number }
+        Returns: {
+          access_key: string | null
+          attempts: number
+          created_at: string
+          danfe_path: string | null
+          error_message: string | null
+          id: string
+          issued_at: string | null
+          model: string
+          number: number
+          order_id: string
+          protocol: string | null
+          provider: string | null
+          series: number
+          status: string
+          updated_at: string
+          xml: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "order_invoices"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      claim_order_refund: {
+        Args: { p_amount: number; p_order_id: string }
+        Returns: number
+      }
+      collect_wishlist_alerts: {
+        Args: { p_limit?: number }
+        Returns: {
+          alert_type: string
+          current_price: number
+          product_id: string
+          product_image: string
+          product_name: string
+          reference_price: number
+          user_id: string
+          wishlist_id: string
+        }[]
+      }
+      commit_order_stock: { Args: { p_order_id: string }; Returns: number }
       complete_stock_transfer: {
         Args: { p_transfer_id: string; p_user_id: string }
         Returns: boolean
       }
+      confirm_coupon_redemption: {
+        Args: { p_order_id: string }
+        Returns: boolean
+      }
+      create_cart_recovery_coupon: {
+        Args: { p_cart_id: string }
+        Returns: string
+      }
       create_order_confirm_token: {
         Args: { p_order_id: string }
         Returns: string
       }
+      create_return_replacement_order: {
+        Args: { p_return_id: string }
+        Returns: string
+      }
+      create_return_request: {
+        Args: {
+          p_comments: string
+          p_items: Json
+          p_order_id: string
+          p_reason: string
+          p_resolution: string
+        }
+        Returns: string
+      }
       create_stock_transfer: {
         Args: {
           p_from_store_id: string
@@ -1171,11 +2429,85 @@ export type Database = {
         }
         Returns: string
       }
+      filter_catalog_products: {
+        Args: {
+          p_categories?: string[]
+          p_colors?: string[]
+          p_in_stock?: boolean
+          p_max_price?: number
+          p_min_price?: number
+          p_min_rating?: number
+          p_models?: string[]
+          p_on_sale?: boolean
+          p_query?: string
+        }
+        Returns: {
+          ok_category: boolean
+          ok_color: boolean
+          ok_model: boolean
+          ok_price: boolean
+          ok_rating: boolean
+          ok_sale: boolean
+          ok_stock: boolean
+          on_sale: boolean
+          price: number
+          product_id: string
+          rank: number
+        }[]
+      }
       generate_next_product_code: { Args: never; Returns: string }
       generate_next_variant_code: {
         Args: { p_product_code: string }
         Returns: string
       }
+      get_back_in_stock_demand: {
+        Args: never
+        Returns: {
+          available_stock: number
+          color: string
+          last_requested_at: string
+          model: string
+          notified_count: number
+          product_id: string
+          product_image: string
+          product_name: string
+          product_variant_id: string
+          ready_count: number
+          waiting_count: number
+        }[]
+      }
+      get_effective_product_price: {
+        Args: { p_product_id: string }
+        Returns: number
+      }
+      get_loyalty_balance: { Args: { p_user_id: string }; Returns: number }
+      get_loyalty_summary: { Args: { p_user_id: string }; Returns: Json }
+      get_product_search_facets: {
+        Args: {
+          p_categories?: string[]
+          p_colors?: string[]
+          p_in_stock?: boolean
+          p_max_price?: number
+          p_min_price?: number
+          p_min_rating?: number
+          p_models?: string[]
+          p_on_sale?: boolean
+          p_query?: string
+        }
+        Returns: Json
+      }
+      get_promotional_prices: {
+        Args: { p_product_ids?: string[] }
+        Returns: {
+          ends_at: string
+          price: number
+          product_id: string
+          promotion_id: string
+          promotion_name: string
+          regular_price: number
+          variant_id: string
+        }[]
+      }
       get_shipping_config: {
         Args: never
         Returns: {
@@ -1197,6 +2529,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_product_available: {
+        Args: { p_product_id: string }
+        Returns: boolean
+      }
       log_audit: {
         Args: {
           p_action: string
@@ -1220,10 +2556,143 @@ export type Database = {
         }
         Returns: boolean
       }
+      mark_wishlist_alerted: {
+        Args: { p_wishlist_ids: string[] }
+        Returns: number
+      }
+      match_products: {
+        Args: { p_query: string }
+        Returns: {
+          product_id: string
+          rank: number
+        }[]
+      }
+      normalize_search_text: { Args: { p_text: string }; Returns: string }
+      product_search_tsquery: { Args: { p_query: string }; Returns: unknown }
+      quote_loyalty_redemption: {
+        Args: { p_points?: number; p_subtotal: number; p_user_id: string }
+        Returns: Json
+      }
+      receive_return_items: {
+        Args: { p_return_id: string; p_store_id?: string }
+        Returns: number
+      }
+      redeem_coupon: {
+        Args: {
+          p_code: string
+          p_email?: string
+          p_items?: Json
+          p_order_id: string
+          p_subtotal: number
+          p_user_id?: string
+        }
+        Returns: Json
+      }
+      redeem_loyalty_points: {
+        Args: {
+          p_order_id: string
+          p_points: number
+          p_subtotal: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      refresh_product_recommendations: {
+        Args: { p_limit?: number }
+        Returns: number
+      }
+      release_coupon_redemption: {
+        Args: { p_order_id: string }
+        Returns: boolean
+      }
+      release_expired_stock_reservations: { Args: never; Returns: number }
+      release_loyalty_redemption: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      release_order_refund: {
+        Args: { p_amount: number; p_order_id: string }
+        Returns: undefined
+      }
+      release_order_stock: {
+        Args: { p_order_id: string; p_reason?: string }
+        Returns: number
+      }
+      reserve_order_stock: {
+        Args: { p_expires_at?: string; p_order_id: string }
+        Returns: number
+      }
+      restock_order_item: {
+        Args: {
+          p_order_item_id: string
+          p_quantity: number
+          p_store_id?: string
+        }
+        Returns: string
+      }
+      reverse_order_loyalty_points: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      search_products: {
+        Args: {
+          p_categories?: string[]
+          p_colors?: string[]
+          p_in_stock?: boolean
+          p_limit?: number
+          p_max_price?: number
+          p_min_price?: number
+          p_min_rating?: number
+          p_models?: string[]
+          p_offset?: number
+          p_on_sale?: boolean
+          p_query?: string
+          p_sort?: string
+        }
+        Returns: {
+          category: string
+          codigo_produto: string | null
+          color: string[] | null
+          color_codes: Json | null
+          created_at: string
+          description: string | null
+          featured: boolean | null
+          height_cm: number | null
+          id: string
+          image: string | null
+          images: string[] | null
+          in_stock: boolean | null
+          length_cm: number | null
+          model: string[] | null
+          name: string
+          original_price: number | null
+          price: number
+          rating: number | null
+          sizes: string[] | null
+          updated_at: string
+          weight_grams: number | null
+          width_cm: number | null
+        }[]
+      }
       select_source_store: {
         Args: { p_quantity: number; p_variant_id: string }
         Returns: string
       }
+      subscribe_back_in_stock: {
+        Args: { p_email?: string; p_variant_id: string }
+        Returns: boolean
+      }
+      suggest_search_query: { Args: { p_query: string }; Returns: string }
+      validate_coupon: {
+        Args: {
+          p_code: string
+          p_email?: string
+          p_items?: Json
+          p_subtotal: number
+          p_user_id?: string
+        }
+        Returns: Json
+      }
       validate_order_confirm_token: {
         Args: { p_order_id: string; p_token: string }
         Returns: Json
@@ -46,6 +46,38 @@ export function formatCPF(cpf: string): string {
   return `${cleaned.slice(0, 3)}.${cleaned.slice(3, 6)}.${cleaned.slice(6, 9)}-${cleaned.slice(9, 11)}`;
 }
 
+/**
+ * Format a CNPJ with the pattern XX.XXX.XXX/XXXX-XX
+ */
+export function formatCNPJ(cnpj: string): string {
+  const cleaned = cnpj.replace(/\D/g, '');
+  
+  if (cleaned.length <= 2) return cleaned;
+  if (cleaned.length <= 5) return `${cleaned.slice(0, 2)}.${cleaned.slice(2)}`;
+  if (cleaned.length <= 8) return `${cleaned.slice(0, 2)}.${cleaned.slice(2, 5)}.${cleaned.slice(5)}`;
+  if (cleaned.length <= 12) return `${cleaned.slice(0, 2)}.${cleaned.slice(2, 5)}.${cleaned.slice(5, 8)}/${cleaned.slice(8)}`;
+  return `${cleaned.slice(0, 2)}.${cleaned.slice(2, 5)}.${cleaned.slice(5, 8)}/${cleaned.slice(8, 12)}-${cleaned.slice(12, 14)}`;
+}
+
+/**
+ * Format a CPF or CNPJ as it is typed (CNPJ once it has more than 11 digits)
+ */
+export function formatDocument(document: string): string {
+  const cleaned = document.replace(/\D/g, '');
+  return cleaned.length > 11 ? formatCNPJ(cleaned) : formatCPF(cleaned);
+}
+
+/**
+ * Mask a CPF/CNPJ for display, keeping only the middle digits
+ * e.g. ***.456.789-** / **.345.678/0001-**
+ */
+export function maskDocument(document: string | null | undefined): string {
+  const cleaned = (document || '').replace(/\D/g, '');
+  if (cleaned.length === 11) return `***.${cleaned.slice(3, 6)}.${cleaned.slice(6, 9)}-**`;
+  if (cleaned.length === 14) return `**.${cleaned.slice(2, 5)}.${cleaned.slice(5, 8)}/${cleaned.slice(8, 12)}-**`;
+  return '';
+}
+
 /**
  * Format a date to Brazilian locale string
  */
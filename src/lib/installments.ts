@@ -0,0 +1,109 @@
+/**
+ * Card installment offers from the store settings.
+ * Same rules as supabase/functions/_shared/installments.ts, which the
+ * checkout functions use to configure the gateway.
+ */
+import { formatPrice } from '@/lib/formatters';
+
+// Type alias (not an interface) so the bands can be saved as the installment_bands JSON column
+export type InstallmentBand = {
+  min_total: number;
+  installments: number;
+};
+
+export interface InstallmentSettings {
+  card_gateway: string;
+  installment_bands: InstallmentBand[];
+  max_installments: number;
+  interest_free_installments: number;
+  installment_interest_rate: number;
+}
+
+export interface InstallmentOffer {
+  installments: number;
+  amount: number;
+  interestFree: boolean;
+}
+
+export const DEFAULT_INSTALLMENT_BANDS: InstallmentBand[] = [
+  { min_total: 0, installments: 1 },
+  { min_total: 100, installments: 3 },
+  { min_total: 200, installments: 6 },
+];
+
+// Only PagSeguro takes the interest-free limit on each checkout. Stripe and Mercado Pago
+// apply the rules of their own account, so the store does not promise "sem juros" for them
+const INTEREST_FREE_GATEWAYS = ['pagseguro'];
+
+const clampInstallments = (value: number) => Math.min(12, Math.max(1, Math.floor(value) || 1));
+
+/**
+ * Normalize the installment_bands JSON: valid bands only, sorted by minimum total
+ */
+export function parseInstallmentBands(value: unknown): InstallmentBand[] {
+  if (!Array.isArray(value)) return DEFAULT_INSTALLMENT_BANDS;
+
+  const bands = value
+    .map((band) => ({
+      min_total: Number((band as Partial<InstallmentBand>)?.min_total),
+      installments: Number((band as Partial<InstallmentBand>)?.installments),
+    }))
+    .filter((band) => Number.isFinite(band.min_total) && band.min_total >= 0 && Number.isFinite(band.installments))
+    .map((band) => ({ ...band, installments: clampInstallments(band.installments) }))
+    .sort((a, b) => a.min_total - b.min_total);
+
+  return bands.length > 0 ? bands : DEFAULT_INSTALLMENT_BANDS;
+}
+
+/**
+ * Maximum installments for a total: the highest band it reaches, capped by max_installments
+ */
+export function getMaxInstallments(total: number, settings: InstallmentSettings): number {
+  const band = parseInstallmentBands(settings.installment_bands).filter((b) => total >= b.min_total).pop();
+  return Math.min(band?.installments ?? 1, clampInstallments(settings.max_installments));
+}
+
+/**
+ * Interest-free installments the card gateway actually honours
+ */
+export function getInterestFreeInstallments(settings: InstallmentSettings): number {
+  return INTEREST_FREE_GATEWAYS.includes(settings.card_gateway) ? settings.interest_free_installments : 1;
+}
+
+/**
+ * Installment amount with the monthly rate (Price table) above the interest-free limit
+ */
+export function getInstallmentAmount(total: number, installments: number, settings: InstallmentSettings): number {
+  const rate = settings.installment_interest_rate / 100;
+  if (installments <= getInterestFreeInstallments(settings) || rate <= 0) {
+    return total / installments;
+  }
+  return (total * rate) / (1 - Math.pow(1 + rate, -installments));
+}
+
+/**
+ * Best offer to advertise: the longest interest-free plan, else the longest plan with interest
+ */
+export function getInstallmentOffer(total: number, settings: InstallmentSettings): InstallmentOffer | null {
+  const maxInstallments = getMaxInstallments(total, settings);
+  const interestFree = Math.min(maxInstallments, clampInstallments(getInterestFreeInstallments(settings)));
+
+  if (interestFree >= 2) {
+    return { installments: interestFree, amount: total / interestFree, interestFree: true };
+  }
+  if (maxInstallments >= 2) {
+    return {
+      installments: maxInstallments,
+      amount: getInstallmentAmount(total, maxInstallments, settings),
+      interestFree: false,
+    };
+  }
+  return null;
+}
+
+/**
+ * Format an offer as "em até 6x de R$ 50,00 sem juros"
+ */
+export function formatInstallmentOffer(offer: InstallmentOffer): string {
+  return `em até ${offer.installments}x de ${formatPrice(offer.amount)}${offer.interestFree ? ' sem juros' : ''}`;
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Review photos: stored in the private review-photos bucket under <user_id>/<review_id>/
+ * and published only after moderation (review_photos.status = 'approved').
+ * Photos are shown through signed URLs; the storage policies only sign approved
+ * photos for the public, and any photo for its author and admins.
+ */
+
+export const MAX_REVIEW_PHOTOS = 5;
+export const MAX_REVIEW_PHOTO_SIZE = 5 * 1024 * 1024;
+
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const SIGNED_URL_TTL = 60 * 60; // 1 hour
+
+/**
+ * Validate a review photo before upload (same limits as the bucket)
+ */
+export function validateReviewPhoto(file: File): string | null {
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return `${file.name}: use fotos .jpg, .png ou .webp`;
+  }
+  if (file.size > MAX_REVIEW_PHOTO_SIZE) {
+    return `${file.name}: a foto deve ter no máximo 5MB`;
+  }
+  return null;
+}
+
+/**
+ * Upload photos for a review and register them for moderation.
+ * Returns how many photos were saved.
+ */
+export async function uploadReviewPhotos(userId: string, reviewId: string, files: File[]): Promise<number> {
+  let saved = 0;
+
+  for (const file of files.slice(0, MAX_REVIEW_PHOTOS)) {
+    const fileExt = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+    const storagePath = `${userId}/${reviewId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('review-photos')
+      .upload(storagePath, file, {
+        contentType: file.type,
+        cacheControl: '3600',
+      });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from('review_photos').insert({
+      review_id: reviewId,
+      user_id: userId,
+      storage_path: storagePath,
+    });
+
+    if (error) throw error;
+    saved++;
+  }
+
+  return saved;
+}
+
+/**
+ * Add a signed url to each photo. Photos the caller may not read are left out.
+ */
+export async function signReviewPhotos<T extends { storage_path: string }>(photos: T[]): Promise<(T & { url: string })[]> {
+  if (photos.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from('review-photos')
+    .createSignedUrls(photos.map((photo) => photo.storage_path), SIGNED_URL_TTL);
+
+  if (error) throw error;
+
+  const urls = new Map((data || []).filter((item) => item.signedUrl).map((item) => [item.path, item.signedUrl]));
+  return photos
+    .filter((photo) => urls.has(photo.storage_path))
+    .map((photo) => ({ ...photo, url: urls.get(photo.storage_path)! }));
+}
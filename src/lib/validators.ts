@@ -59,6 +59,41 @@ export function validateCPF(cpf: string): boolean {
   return true;
 }
 
+/**
+ * Validate Brazilian CNPJ format and check digit
+ */
+export function validateCNPJ(cnpj: string): boolean {
+  const cleaned = cnpj.replace(/\D/g, '');
+  
+  if (cleaned.length !== 14) return false;
+  
+  // Check for known invalid CNPJs (all same digits)
+  if (/^(\d)\1{13}$/.test(cleaned)) return false;
+  
+  // Validate check digits (weights 5..2,9..2 and 6..2,9..2)
+  for (const length of [12, 13]) {
+    let sum = 0;
+    let weight = length - 7;
+    for (let i = 0; i < length; i++) {
+      sum += parseInt(cleaned[i]) * weight;
+      weight = weight === 2 ? 9 : weight - 1;
+    }
+    const remainder = sum % 11;
+    const digit = remainder < 2 ? 0 : 11 - remainder;
+    if (digit !== parseInt(cleaned[length])) return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Validate a CPF (11 digits) or CNPJ (14 digits)
+ */
+export function validateDocument(document: string): boolean {
+  const cleaned = document.replace(/\D/g, '');
+  return cleaned.length === 14 ? validateCNPJ(cleaned) : validateCPF(cleaned);
+}
+
 /**
  * Validate if a string is not empty after trimming
  */
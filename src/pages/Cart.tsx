@@ -4,6 +4,7 @@ import MainLayout from '@/components/layout/MainLayout';
 import { useCart } from '@/contexts/CartContext';
 import { useStoreSettings } from '@/hooks/useStoreSettings';
 import { Button } from '@/components/ui/button';
+import RecommendedProducts from '@/components/products/RecommendedProducts';
 
 const Cart = () => {
   const { items, removeItem, updateQuantity, total, clearCart } = useCart();
@@ -154,6 +155,8 @@ const Cart = () => {
             </div>
           </div>
         </div>
+
+        <RecommendedProducts productIds={items.map(item => item.id)} />
       </div>
     </MainLayout>
   );
@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
+import { AlertCircle, Loader2, ShoppingBag } from "lucide-react";
+import MainLayout from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { CartItem, useCart } from "@/contexts/CartContext";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+/**
+ * CART RECOVERY PAGE
+ *
+ * Route: /cart/recover
+ *
+ * Accessed via the signed link in the abandoned cart emails.
+ * Rebuilds the cart (and the recovery coupon, if any) and sends the customer to /cart.
+ */
+
+interface RecoverResponse {
+  cart?: {
+    id: string;
+    items: CartItem[];
+    email: string | null;
+    coupon_code: string | null;
+  };
+  completed?: boolean;
+  error?: string;
+}
+
+const CartRecovery = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { restoreCart } = useCart();
+  const hasAttempted = useRef(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const cartId = searchParams.get("cart");
+  const token = searchParams.get("token");
+
+  useEffect(() => {
+    if (hasAttempted.current) return;
+    hasAttempted.current = true;
+
+    const recover = async () => {
+      if (!cartId || !token) {
+        setErrorMessage("Link inválido. Parâmetros ausentes.");
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke<RecoverResponse>("recover-abandoned-cart", {
+        body: { cart_id: cartId, token },
+      });
+
+      if (error || !data?.cart) {
+        setErrorMessage(
+          data?.completed
+            ? "Esse carrinho já virou pedido. Obrigado pela compra! 💙"
+            : "Não foi possível recuperar seu carrinho. O link pode ter expirado."
+        );
+        return;
+      }
+
+      restoreCart(data.cart.items, {
+        cartId: data.cart.id,
+        email: data.cart.email,
+        couponCode: data.cart.coupon_code,
+      });
+
+      toast.success(
+        data.cart.coupon_code
+          ? `Carrinho recuperado! Cupom ${data.cart.coupon_code} será aplicado no checkout 🎉`
+          : "Carrinho recuperado! 🛒"
+      );
+      navigate("/cart", { replace: true });
+    };
+
+    recover();
+  }, [cartId, token, restoreCart, navigate]);
+
+  return (
+    <MainLayout>
+      <div className="container py-12 animate-fade-in">
+        <div className="max-w-lg mx-auto">
+          <Card className="text-center">
+            <CardContent className="pt-8 pb-8">
+              {errorMessage ? (
+                <>
+                  <div className="flex justify-center mb-6">
+                    <AlertCircle className="h-16 w-16 text-amber-500" />
+                  </div>
+                  <h1 className="text-2xl font-bold mb-3">Carrinho indisponível</h1>
+                  <p className="text-muted-foreground mb-8">{errorMessage}</p>
+                  <Button asChild variant="outline">
+                    <Link to="/shop">
+                      <ShoppingBag className="h-4 w-4 mr-2" />
+                      Continuar Comprando
+                    </Link>
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <div className="flex justify-center mb-6">
+                    <Loader2 className="h-16 w-16 text-primary animate-spin" />
+                  </div>
+                  <h1 className="text-2xl font-bold">Recuperando seu carrinho...</h1>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default CartRecovery;
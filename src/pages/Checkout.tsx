@@ -1,21 +1,26 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { ArrowLeft } from "lucide-react";
 import MainLayout from "@/components/layout/MainLayout";
 import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/hooks/useAuth";
 import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { getInstallmentOffer } from "@/lib/installments";
 import { useUserAddresses, UserAddress } from "@/hooks/useUserAddresses";
 import { useCoupon } from "@/hooks/useCoupon";
+import { useLoyaltyRedemption } from "@/hooks/useLoyalty";
 import { useSeller } from "@/hooks/useSeller";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
+import { formatDocument } from "@/lib/formatters";
+import { validateDocument } from "@/lib/validators";
 
 import CustomerForm from "@/components/checkout/CustomerForm";
 import DeliveryMethodCards, { ShippingOption } from "@/components/checkout/DeliveryMethodCards";
 import AddressForm from "@/components/checkout/AddressForm";
-import PaymentOptions from "@/components/checkout/PaymentOptions";
+import PaymentOptions, { type PaymentMethod } from "@/components/checkout/PaymentOptions";
+import PixPayment, { PixChargeData } from "@/components/checkout/PixPayment";
 import OrderSummary from "@/components/checkout/OrderSummary";
 import MobileBottomBar from "@/components/checkout/MobileBottomBar";
 
@@ -27,6 +32,7 @@ const nameRegex = /^[a-zA-ZÀ-ÿ\s'-]+$/;
 interface FieldErrors {
   email?: string;
   phone?: string;
+  document?: string;
   firstName?: string;
   lastName?: string;
   zip?: string;
@@ -49,16 +55,20 @@ const formatPhone = (phone: string): string => {
 };
 
 const Checkout = () => {
-  const { items, total } = useCart();
+  const { items, total, recovery } = useCart();
   const isRedirecting = useRef(false);
+  const handledRecoveryId = useRef<string | null>(null);
+  // Pix order whose charge failed: a retry with the same data reuses it instead of placing another order
+  const pendingPixOrder = useRef<{ orderId: string; token: string; payload: string } | null>(null);
+  const navigate = useNavigate();
   const { user } = useAuth();
   const { settings } = useStoreSettings();
   const { addresses, isLoading: isLoadingAddresses, addAddress, canAddMore } = useUserAddresses();
-  const { appliedCoupon, isValidating, validateCoupon, removeCoupon, discountAmount } = useCoupon(total);
-  const { appliedSeller, isValidating: isValidatingSeller, validateSeller, removeSeller, sellerDiscount } = useSeller(total);
+  const { appliedCoupon, isValidating, validateCoupon, removeCoupon, discountAmount, freeShipping } = useCoupon(total, items);
+  const { appliedSeller, isValidating: isValidatingSeller, validateSeller, removeSeller, sellerDiscount: rawSellerDiscount } = useSeller(total);
   
-  const [isProcessingStripe, setIsProcessingStripe] = useState(false);
-  const [isProcessingMercadoPago, setIsProcessingMercadoPago] = useState(false);
+  const [processingMethod, setProcessingMethod] = useState<PaymentMethod | null>(null);
+  const [pixCharge, setPixCharge] = useState<PixChargeData | null>(null);
   const [couponCode, setCouponCode] = useState("");
   const [sellerCode, setSellerCode] = useState("");
   const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
@@ -67,10 +77,12 @@ const Checkout = () => {
   const [useNewAddress, setUseNewAddress] = useState(false);
   const [saveNewAddress, setSaveNewAddress] = useState(false);
   const [addressLabel, setAddressLabel] = useState("");
+  const [capturedCartId, setCapturedCartId] = useState<string | null>(null);
 
   // Form state
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
+  const [customerDocument, setCustomerDocument] = useState("");
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [zip, setZip] = useState("");
@@ -82,19 +94,23 @@ const Checkout = () => {
   const [state, setState] = useState("");
   const [isLoadingCep, setIsLoadingCep] = useState(false);
 
-  const isProcessing = isProcessingStripe || isProcessingMercadoPago;
+  const isProcessing = processingMethod !== null;
+  const paymentGateways = { card: settings.card_gateway, pix: settings.pix_gateway, boleto: settings.boleto_gateway };
   const isPickup = selectedShipping?.service === "pickup";
-  const shipping = selectedShipping?.price ?? 0;
+  const shipping = freeShipping ? 0 : selectedShipping?.price ?? 0;
+  // Non-stacking coupons keep the seller code for attribution only
+  const sellerDiscount = appliedCoupon && !appliedCoupon.stacks_with_seller ? 0 : rawSellerDiscount;
   const totalAfterCouponDiscount = total - discountAmount;
   const totalAfterSellerDiscount = totalAfterCouponDiscount - sellerDiscount;
-  const finalTotal = totalAfterSellerDiscount + shipping;
+  const { quote: loyaltyQuote, canRedeem: canRedeemPoints, redeemPoints, setRedeemPoints, loyaltyPoints, loyaltyDiscount } = useLoyaltyRedemption(totalAfterSellerDiscount);
+  const finalTotal = totalAfterSellerDiscount - loyaltyDiscount + shipping;
 
   // Auto-fill contact info from user profile
   useEffect(() => {
     const fetchProfile = async () => {
       if (!user) return;
       setEmail(user.email || "");
-      const { data } = await supabase.from("profiles").select("full_name, phone").eq("user_id", user.id).single();
+      const { data } = await supabase.from("profiles").select("full_name, phone, document").eq("user_id", user.id).single();
       if (data) {
         if (data.full_name) {
           const nameParts = data.full_name.trim().split(" ");
@@ -102,11 +118,41 @@ const Checkout = () => {
           setLastName(nameParts.slice(1).join(" ") || "");
         }
         if (data.phone) setPhone(formatPhone(data.phone));
+        if (data.document) setCustomerDocument(formatDocument(data.document));
       }
     };
     fetchProfile();
   }, [user]);
 
+  // Cart restored from a recovery email: prefill the email and apply the recovery coupon
+  useEffect(() => {
+    if (!recovery || handledRecoveryId.current === recovery.cartId) return;
+    handledRecoveryId.current = recovery.cartId;
+    if (recovery.email) setEmail((current) => current || recovery.email || "");
+    if (recovery.couponCode && !appliedCoupon) {
+      setCouponCode(recovery.couponCode);
+      validateCoupon(recovery.couponCode);
+    }
+  }, [recovery, appliedCoupon, validateCoupon]);
+
+  // Capture the cart for the abandoned cart emails once a valid email is typed
+  useEffect(() => {
+    const trimmedEmail = email.trim();
+    if (items.length === 0 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail)) return;
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("capture_abandoned_cart", {
+        p_email: trimmedEmail,
+        p_items: items.map((item) => ({ id: item.id, name: item.name, price: item.price, quantity: item.quantity, image: item.image, size: item.size, color: item.color, model: item.model })),
+        p_total: total,
+        p_customer_name: `${firstName} ${lastName}`.trim() || undefined,
+      });
+      if (!error && data) setCapturedCartId(data);
+    }, 1500);
+
+    return () => clearTimeout(timeout);
+  }, [email, items, total, firstName, lastName]);
+
   useEffect(() => {
     if (addresses.length > 0 && !selectedAddressId && !useNewAddress) {
       const defaultAddr = addresses.find((a) => a.is_default) || addresses[0];
@@ -177,6 +223,12 @@ const Checkout = () => {
     if (fieldErrors.phone) setFieldErrors((prev) => ({ ...prev, phone: undefined }));
   };
 
+  const handleDocumentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const digits = e.target.value.replace(/\D/g, "").slice(0, 14);
+    setCustomerDocument(formatDocument(digits));
+    if (fieldErrors.document) setFieldErrors((prev) => ({ ...prev, document: undefined }));
+  };
+
   const validateField = useCallback((field: keyof FieldErrors, value: string) => {
     const addressFields: (keyof FieldErrors)[] = ["zip", "street", "houseNumber", "neighborhood", "city", "state"];
     if (isPickup && addressFields.includes(field)) {
@@ -187,6 +239,7 @@ const Checkout = () => {
     switch (field) {
       case "email": error = !value.trim() ? "Email é obrigatório" : !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? "Email inválido" : undefined; break;
       case "phone": error = !value.trim() ? "Telefone é obrigatório" : !brazilianPhoneRegex.test(value) ? "Telefone inválido" : undefined; break;
+      case "document": error = !value.trim() ? "CPF/CNPJ é obrigatório" : !validateDocument(value) ? "CPF/CNPJ inválido" : undefined; break;
       case "firstName": error = !value.trim() ? "Nome é obrigatório" : value.trim().length < 2 ? "Nome muito curto" : !nameRegex.test(value) ? "Nome inválido" : undefined; break;
       case "lastName": error = !value.trim() ? "Sobrenome é obrigatório" : value.trim().length < 2 ? "Sobrenome muito curto" : !nameRegex.test(value) ? "Sobrenome inválido" : undefined; break;
       case "zip": error = !cepRegex.test(value) ? "CEP inválido" : undefined; break;
@@ -207,6 +260,7 @@ const Checkout = () => {
     let hasErrors = false;
     if (!email.trim() || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) { errors.email = !email.trim() ? "Email é obrigatório" : "Email inválido"; hasErrors = true; }
     if (!phone.trim() || !brazilianPhoneRegex.test(phone)) { errors.phone = !phone.trim() ? "Telefone é obrigatório" : "Telefone inválido"; hasErrors = true; }
+    if (!customerDocument.trim() || !validateDocument(customerDocument)) { errors.document = !customerDocument.trim() ? "CPF/CNPJ é obrigatório" : "CPF/CNPJ inválido"; hasErrors = true; }
     if (!firstName.trim() || firstName.trim().length < 2 || !nameRegex.test(firstName)) { errors.firstName = !firstName.trim() ? "Nome é obrigatório" : "Nome inválido"; hasErrors = true; }
     if (!lastName.trim() || lastName.trim().length < 2 || !nameRegex.test(lastName)) { errors.lastName = !lastName.trim() ? "Sobrenome é obrigatório" : "Sobrenome inválido"; hasErrors = true; }
     if (!isPickup) {
@@ -229,28 +283,47 @@ const Checkout = () => {
     }
   };
 
+  // Keep the document on the profile to prefill the next checkout
+  const saveDocumentIfNeeded = async () => {
+    if (!user) return;
+    const { error } = await supabase.from("profiles").update({ document: customerDocument.replace(/\D/g, "") }).eq("user_id", user.id);
+    if (error) console.error("Error saving document on profile:", error);
+  };
+
   const getCheckoutPayload = () => ({
     items: items.map((item) => ({ id: item.id, name: item.name, price: item.price, quantity: item.quantity, image: item.image, size: item.size, color: item.color, model: item.model })),
-    customerEmail: email, customerName: `${firstName} ${lastName}`, customerPhone: phone,
+    customerEmail: email, customerName: `${firstName} ${lastName}`, customerPhone: phone, customerDocument,
     shippingAddress: isPickup ? null : { street, houseNumber, complement: complement || null, neighborhood, city, state, zip },
     shippingCost: shipping, shippingMethod: selectedShipping?.service || "standard",
     couponCode: appliedCoupon?.code || null, sellerCode: appliedSeller?.code || null, user_id: user?.id || null,
+    loyaltyPoints, abandonedCartId: recovery?.cartId || capturedCartId,
   });
 
-  const handleStripeCheckout = async () => {
+  // Hosted checkout of the gateway chosen for the method in the admin settings.
+  // Mercado Pago keeps its own function (seller codes); Stripe and PagSeguro go through create-checkout-session
+  const handleHostedCheckout = async (method: PaymentMethod) => {
     if (!validateForm()) return;
-    setIsProcessingStripe(true);
+    setProcessingMethod(method);
     try {
       await saveAddressIfNeeded();
+      await saveDocumentIfNeeded();
       const baseUrl = window.location.origin;
       const payload = getCheckoutPayload();
-      const checkoutData = {
-        items: payload.items, email: payload.customerEmail, phone: payload.customerPhone,
-        shipping_address: isPickup ? { firstName, lastName, street: "Retirada na Loja", number: "", complement: settings.store_pickup_address || "", neighborhood: "", city: "", state: "", zip: "" }
-          : { firstName, lastName, street: payload.shippingAddress?.street, number: payload.shippingAddress?.houseNumber, complement: payload.shippingAddress?.complement, neighborhood: payload.shippingAddress?.neighborhood, city: payload.shippingAddress?.city, state: payload.shippingAddress?.state, zip: payload.shippingAddress?.zip },
-        user_id: payload.user_id, total: finalTotal, shipping, shipping_method: payload.shippingMethod, payment_method: "card",
-        success_url: `${baseUrl}/order-confirmation`, cancel_url: `${baseUrl}/checkout`, coupon_code: payload.couponCode || "",
-      };
+      const isMercadoPago = paymentGateways[method] === "mercadopago";
+      const checkoutData = isMercadoPago
+        ? {
+            ...payload,
+            shippingAddress: isPickup ? { street: "Retirada na Loja", houseNumber: "", complement: settings.store_pickup_address || "", neighborhood: "", city: "", state: "", zip: "" } : payload.shippingAddress,
+            success_url: `${baseUrl}/order-confirmation`, cancel_url: `${baseUrl}/checkout`, paymentMethod: method,
+          }
+        : {
+            items: payload.items, email: payload.customerEmail, phone: payload.customerPhone, customer_document: payload.customerDocument,
+            shipping_address: isPickup ? { firstName, lastName, street: "Retirada na Loja", number: "", complement: settings.store_pickup_address || "", neighborhood: "", city: "", state: "", zip: "" }
+              : { firstName, lastName, street: payload.shippingAddress?.street, number: payload.shippingAddress?.houseNumber, complement: payload.shippingAddress?.complement, neighborhood: payload.shippingAddress?.neighborhood, city: payload.shippingAddress?.city, state: payload.shippingAddress?.state, zip: payload.shippingAddress?.zip },
+            user_id: payload.user_id, total: finalTotal, shipping, shipping_method: payload.shippingMethod, payment_method: method,
+            success_url: `${baseUrl}/order-confirmation`, cancel_url: `${baseUrl}/checkout`, coupon_code: payload.couponCode || "",
+            loyalty_points: payload.loyaltyPoints, abandoned_cart_id: payload.abandonedCartId,
+          };
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
       const supabaseAnonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
       const session = await supabase.auth.getSession();
@@ -260,7 +333,7 @@ const Checkout = () => {
       // The Edge Function validates the request and enforces rate limiting
       const authHeader = accessToken ? `Bearer ${accessToken}` : `Bearer ${supabaseAnonKey}`;
       
-      const response = await fetch(`${supabaseUrl}/functions/v1/create-checkout-session`, {
+      const response = await fetch(`${supabaseUrl}/functions/v1/${isMercadoPago ? "create-mercadopago-checkout" : "create-checkout-session"}`, {
         method: "POST", 
         headers: { 
           "Content-Type": "application/json", 
@@ -270,55 +343,85 @@ const Checkout = () => {
         body: JSON.stringify(checkoutData),
       });
       const data = await response.json();
-      if (!response.ok || !data.success) throw new Error(data.error || "Erro ao criar sessão Stripe");
-      if (data.sessionUrl) { isRedirecting.current = true; window.location.href = data.sessionUrl; return; }
+      if (!response.ok || !data.success) throw new Error(data.error || "Erro ao criar checkout");
+      const paymentUrl = isMercadoPago ? data.url : data.sessionUrl;
+      if (paymentUrl) { isRedirecting.current = true; window.location.href = paymentUrl; return; }
       throw new Error("URL de pagamento não recebida");
-    } catch (error: any) {
-      toast.error(error.message || "Erro ao processar pagamento");
-      setIsProcessingStripe(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao processar pagamento");
+      setProcessingMethod(null);
     }
   };
 
-  const handleMercadoPagoCheckout = async () => {
+  // In-page Pix: the order is placed through create-mercadopago-checkout and the
+  // QR code comes from create-pix-charge, authorized by the order confirmation token
+  const handlePixCheckout = async () => {
     if (!validateForm()) return;
-    setIsProcessingMercadoPago(true);
+    setProcessingMethod("pix");
     try {
       await saveAddressIfNeeded();
+      await saveDocumentIfNeeded();
       const baseUrl = window.location.origin;
       const payload = getCheckoutPayload();
       const checkoutData = {
         ...payload,
         shippingAddress: isPickup ? { street: "Retirada na Loja", houseNumber: "", complement: settings.store_pickup_address || "", neighborhood: "", city: "", state: "", zip: "" } : payload.shippingAddress,
-        success_url: `${baseUrl}/order-confirmation`, cancel_url: `${baseUrl}/checkout`,
+        success_url: `${baseUrl}/order-confirmation`, cancel_url: `${baseUrl}/checkout`, paymentMethod: "pix",
       };
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
       const supabaseAnonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
       const session = await supabase.auth.getSession();
       const accessToken = session.data.session?.access_token;
-      
-      // Use access token if available, otherwise use anon key for guest checkout
-      // The Edge Function validates the request and enforces rate limiting
-      const authHeader = accessToken ? `Bearer ${accessToken}` : `Bearer ${supabaseAnonKey}`;
-      
-      const response = await fetch(`${supabaseUrl}/functions/v1/create-mercadopago-checkout`, {
-        method: "POST", 
-        headers: { 
-          "Content-Type": "application/json", 
-          apikey: supabaseAnonKey, 
-          Authorization: authHeader 
-        },
-        body: JSON.stringify(checkoutData),
+      const headers = {
+        "Content-Type": "application/json",
+        apikey: supabaseAnonKey,
+        Authorization: accessToken ? `Bearer ${accessToken}` : `Bearer ${supabaseAnonKey}`,
+      };
+
+      const body = JSON.stringify(checkoutData);
+      let order = pendingPixOrder.current?.payload === body ? pendingPixOrder.current : null;
+      if (!order) {
+        const orderResponse = await fetch(`${supabaseUrl}/functions/v1/create-mercadopago-checkout`, { method: "POST", headers, body });
+        const data = await orderResponse.json();
+        if (!orderResponse.ok || !data.success) throw new Error(data.error || "Erro ao criar pedido");
+        order = { orderId: data.orderId, token: data.token, payload: body };
+        pendingPixOrder.current = order;
+      }
+
+      const chargeResponse = await fetch(`${supabaseUrl}/functions/v1/create-pix-charge`, {
+        method: "POST", headers, body: JSON.stringify({ orderId: order.orderId, token: order.token }),
       });
-      const data = await response.json();
-      if (!response.ok || !data.success) throw new Error(data.error || "Erro ao criar sessão Mercado Pago");
-      if (data.url) { isRedirecting.current = true; window.location.href = data.url; return; }
-      throw new Error("URL de pagamento não recebida");
-    } catch (error: any) {
-      toast.error(error.message || "Erro ao processar pagamento");
-      setIsProcessingMercadoPago(false);
+      const charge = await chargeResponse.json();
+      if (!chargeResponse.ok || !charge.success) {
+        // An order that no longer takes payment cannot be reused: the next try places a new one
+        if (charge.expired || chargeResponse.status === 409) pendingPixOrder.current = null;
+        throw new Error(charge.error || "Erro ao gerar cobrança Pix");
+      }
+      pendingPixOrder.current = null;
+
+      setPixCharge({ orderId: order.orderId, token: order.token, qrCode: charge.qrCode, amount: charge.amount, expiresAt: charge.expiresAt });
+      document.getElementById("payment-section")?.scrollIntoView({ behavior: "smooth" });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao processar pagamento");
+    } finally {
+      setProcessingMethod(null);
     }
   };
 
+  const handlePaymentSelect = (method: PaymentMethod) => {
+    if (method === "pix" && paymentGateways.pix === "mercadopago") {
+      handlePixCheckout();
+    } else {
+      handleHostedCheckout(method);
+    }
+  };
+
+  const handlePixPaid = useCallback(() => {
+    if (!pixCharge) return;
+    isRedirecting.current = true;
+    navigate(`/order-confirmation?order_id=${pixCharge.orderId}&token=${pixCharge.token}&gateway=mercadopago`);
+  }, [pixCharge, navigate]);
+
   const handleFinalize = () => {
     if (!validateForm()) return;
     // Scroll to payment section
@@ -346,7 +449,8 @@ const Checkout = () => {
           appliedCoupon={appliedCoupon} appliedSeller={appliedSeller} selectedShipping={selectedShipping}
           couponCode={couponCode} sellerCode={sellerCode} isValidatingCoupon={isValidating} isValidatingSeller={isValidatingSeller}
           onCouponCodeChange={setCouponCode} onSellerCodeChange={setSellerCode} onValidateCoupon={() => validateCoupon(couponCode)} onValidateSeller={() => validateSeller(sellerCode)}
-          onRemoveCoupon={removeCoupon} onRemoveSeller={removeSeller} isProcessing={isProcessing} onFinalize={handleFinalize} compact
+          onRemoveCoupon={removeCoupon} onRemoveSeller={removeSeller} isProcessing={isProcessing} onFinalize={handleFinalize}
+          loyaltyRedemption={canRedeemPoints ? loyaltyQuote : null} redeemPoints={redeemPoints} onRedeemPointsChange={setRedeemPoints} loyaltyDiscount={loyaltyDiscount} compact
         />
       </div>
 
@@ -362,14 +466,14 @@ const Checkout = () => {
             <h1 className="text-2xl lg:text-3xl font-bold">Finalizar Compra</h1>
 
             <CustomerForm
-              firstName={firstName} lastName={lastName} email={email} phone={phone} fieldErrors={fieldErrors}
+              firstName={firstName} lastName={lastName} email={email} phone={phone} customerDocument={customerDocument} fieldErrors={fieldErrors}
               onFirstNameChange={(v) => { setFirstName(v); if (fieldErrors.firstName) setFieldErrors((p) => ({ ...p, firstName: undefined })); }}
               onLastNameChange={(v) => { setLastName(v); if (fieldErrors.lastName) setFieldErrors((p) => ({ ...p, lastName: undefined })); }}
               onEmailChange={(v) => { setEmail(v); if (fieldErrors.email) setFieldErrors((p) => ({ ...p, email: undefined })); }}
-              onPhoneChange={handlePhoneChange} onFieldBlur={handleFieldBlur}
+              onPhoneChange={handlePhoneChange} onDocumentChange={handleDocumentChange} onFieldBlur={handleFieldBlur}
             />
 
-            <DeliveryMethodCards selectedOption={selectedShipping} onSelectOption={setSelectedShipping} itemsTotal={total} initialCep={zip} onCepChange={setZip} />
+            <DeliveryMethodCards selectedOption={selectedShipping} onSelectOption={setSelectedShipping} itemsTotal={total} items={items.map((item) => ({ product_id: item.id, color: item.color, model: item.model, quantity: item.quantity }))} initialCep={zip} onCepChange={setZip} />
 
             {!isPickup && (
               <AddressForm
@@ -389,10 +493,14 @@ const Checkout = () => {
             )}
 
             <div id="payment-section">
-              <PaymentOptions
-                isProcessingStripe={isProcessingStripe} isProcessingMercadoPago={isProcessingMercadoPago} isProcessing={isProcessing}
-                onStripeClick={handleStripeCheckout} onMercadoPagoClick={handleMercadoPagoCheckout}
-              />
+              {pixCharge ? (
+                <PixPayment charge={pixCharge} onPaid={handlePixPaid} onRestart={() => setPixCharge(null)} />
+              ) : (
+                <PaymentOptions
+                  gateways={paymentGateways} installmentOffer={getInstallmentOffer(finalTotal, settings)}
+                  processingMethod={processingMethod} isProcessing={isProcessing} onSelect={handlePaymentSelect}
+                />
+              )}
             </div>
           </div>
 
@@ -404,6 +512,7 @@ const Checkout = () => {
               couponCode={couponCode} sellerCode={sellerCode} isValidatingCoupon={isValidating} isValidatingSeller={isValidatingSeller}
               onCouponCodeChange={setCouponCode} onSellerCodeChange={setSellerCode} onValidateCoupon={() => validateCoupon(couponCode)} onValidateSeller={() => validateSeller(sellerCode)}
               onRemoveCoupon={removeCoupon} onRemoveSeller={removeSeller} isProcessing={isProcessing} onFinalize={handleFinalize}
+              loyaltyRedemption={canRedeemPoints ? loyaltyQuote : null} redeemPoints={redeemPoints} onRedeemPointsChange={setRedeemPoints} loyaltyDiscount={loyaltyDiscount}
             />
           </div>
         </div>
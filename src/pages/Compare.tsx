@@ -0,0 +1,340 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { GitCompareArrows, Loader2, ShoppingBag, ShoppingCart, Star, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import MainLayout from '@/components/layout/MainLayout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCart } from '@/contexts/CartContext';
+import { useCompare } from '@/hooks/useCompare';
+import { usePromotions } from '@/hooks/usePromotions';
+import { supabase } from '@/integrations/supabase/client';
+import { formatPrice } from '@/lib/formatters';
+import type { Product } from '@/types/product';
+
+interface CompareVariant {
+  id: string;
+  product_id: string;
+  color: string | null;
+  model: string | null;
+  stock_quantity: number;
+}
+
+const variantLabel = (variant: CompareVariant) =>
+  [variant.color, variant.model].filter(Boolean).join(' / ') || 'Padrão';
+
+const Compare = () => {
+  const { items, removeFromCompare, clearCompare } = useCompare();
+  const { addItem } = useCart();
+  const { getEffectivePrice } = usePromotions();
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+  const productIds = items.map((item) => item.id);
+
+  const { data: products = [], isLoading: productsLoading } = useQuery({
+    queryKey: ['compare-products', productIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*')
+        .in('id', productIds);
+      if (error) throw error;
+      // Keep the order in which the customer added the products
+      return productIds
+        .map((id) => (data as Product[]).find((product) => product.id === id))
+        .filter((product): product is Product => !!product);
+    },
+    enabled: productIds.length > 0,
+  });
+
+  const { data: variants = [], isLoading: variantsLoading } = useQuery({
+    queryKey: ['compare-variants', productIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('id, product_id, color, model, stock_quantity')
+        .in('product_id', productIds);
+      if (error) throw error;
+      return data as CompareVariant[];
+    },
+    enabled: productIds.length > 0,
+  });
+
+  const { data: reviews = [] } = useQuery({
+    queryKey: ['compare-reviews', productIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_reviews')
+        .select('product_id, rating')
+        .in('product_id', productIds);
+      if (error) throw error;
+      return data;
+    },
+    enabled: productIds.length > 0,
+  });
+
+  const isLoading = productsLoading || variantsLoading;
+
+  const getVariants = (productId: string) =>
+    variants
+      .filter((variant) => variant.product_id === productId)
+      .sort((a, b) => variantLabel(a).localeCompare(variantLabel(b)));
+
+  const getRating = (product: Product) => {
+    const productReviews = reviews.filter((review) => review.product_id === product.id);
+    const average = productReviews.length > 0
+      ? productReviews.reduce((sum, review) => sum + review.rating, 0) / productReviews.length
+      : product.rating || 0;
+    return { average, count: productReviews.length };
+  };
+
+  const handleAddToCart = (product: Product) => {
+    const productVariants = getVariants(product.id);
+    const variant = productVariants.find((v) => v.id === selectedVariants[product.id]);
+
+    if (productVariants.length > 0 && !variant) {
+      toast.error('Selecione uma variação');
+      return;
+    }
+    if (variant && variant.stock_quantity <= 0) {
+      toast.error('Esta variação está esgotada');
+      return;
+    }
+
+    addItem({
+      id: product.id,
+      name: product.name,
+      price: getEffectivePrice(product, variant?.id).price,
+      image: product.image || '/placeholder.svg',
+      color: variant?.color || undefined,
+      model: variant?.model || undefined,
+    });
+    toast.success(`${product.name} adicionado à sacola! 🛍️`);
+  };
+
+  return (
+    <MainLayout>
+      <div className="bg-muted py-12">
+        <div className="container">
+          <h1 className="text-4xl font-bold text-foreground mb-2 flex items-center gap-3">
+            <GitCompareArrows className="h-8 w-8 text-primary" />
+            Comparar Produtos
+          </h1>
+          <p className="text-muted-foreground">
+            Coloca lado a lado e escolhe o que combina mais com você!
+          </p>
+        </div>
+      </div>
+
+      <div className="container py-8">
+        {items.length === 0 ? (
+          <div className="text-center py-20">
+            <GitCompareArrows className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Nenhum produto pra comparar</h2>
+            <p className="text-muted-foreground mb-6">
+              Use o botão de comparar nos produtos da loja para adicionar até 3 itens.
+            </p>
+            <Link to="/shop">
+              <Button>
+                <ShoppingBag className="h-4 w-4 mr-2" />
+                Explorar Loja
+              </Button>
+            </Link>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <p className="text-sm text-muted-foreground">
+                {products.length} {products.length === 1 ? 'produto' : 'produtos'} no comparador
+              </p>
+              <Button variant="ghost" size="sm" onClick={clearCompare}>
+                Limpar comparador
+              </Button>
+            </div>
+
+            <Table className="min-w-[640px] table-fixed">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40" />
+                  {products.map((product) => (
+                    <TableHead key={product.id} className="h-auto py-4 align-top">
+                      <div className="relative space-y-2">
+                        <button
+                          onClick={() => removeFromCompare(product.id)}
+                          className="absolute top-1 right-1 h-7 w-7 rounded-full bg-background/80 border border-border flex items-center justify-center hover:bg-muted"
+                          aria-label={`Remover ${product.name} do comparador`}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                        <Link to={`/product/${product.id}`} className="block space-y-2 group">
+                          <img
+                            src={product.image || '/placeholder.svg'}
+                            alt={product.name}
+                            className="aspect-square w-full max-w-[200px] rounded-lg object-cover bg-muted"
+                            loading="lazy"
+                          />
+                          <span className="block font-semibold text-foreground group-hover:text-primary transition-colors">
+                            {product.name}
+                          </span>
+                        </Link>
+                        <span className="block text-xs uppercase tracking-wide">{product.category}</span>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="font-medium">Preço</TableCell>
+                  {products.map((product) => {
+                    const { price, promotionName } = getEffectivePrice(product, selectedVariants[product.id]);
+                    return (
+                      <TableCell key={product.id}>
+                        <span className="text-lg font-bold text-primary">{formatPrice(price)}</span>
+                        {promotionName && (
+                          <Badge className="ml-2 bg-accent text-accent-foreground">{promotionName}</Badge>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="font-medium">Preço original</TableCell>
+                  {products.map((product) => {
+                    const { compareAtPrice } = getEffectivePrice(product, selectedVariants[product.id]);
+                    return (
+                      <TableCell key={product.id} className="text-muted-foreground">
+                        {compareAtPrice ? <span className="line-through">{formatPrice(compareAtPrice)}</span> : '—'}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="font-medium">Cores</TableCell>
+                  {products.map((product) => (
+                    <TableCell key={product.id}>
+                      {product.color && product.color.length > 0 ? product.color.join(', ') : '—'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="font-medium">Modelos</TableCell>
+                  {products.map((product) => (
+                    <TableCell key={product.id}>
+                      {product.model && product.model.length > 0 ? product.model.join(', ') : '—'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="font-medium align-top">Disponibilidade</TableCell>
+                  {products.map((product) => {
+                    const productVariants = getVariants(product.id);
+                    return (
+                      <TableCell key={product.id} className="align-top">
+                        {productVariants.length === 0 ? (
+                          product.in_stock ? (
+                            <span className="text-primary">Em estoque</span>
+                          ) : (
+                            <Badge variant="secondary">Esgotado</Badge>
+                          )
+                        ) : (
+                          <ul className="space-y-1">
+                            {productVariants.map((variant) => (
+                              <li key={variant.id} className="flex items-center justify-between gap-2 text-xs">
+                                <span>{variantLabel(variant)}</span>
+                                {variant.stock_quantity > 0 ? (
+                                  <span className="text-muted-foreground">{variant.stock_quantity} un.</span>
+                                ) : (
+                                  <Badge variant="secondary" className="text-[10px]">Esgotado</Badge>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                <TableRow>
+                  <TableCell className="font-medium">Avaliação</TableCell>
+                  {products.map((product) => {
+                    const { average, count } = getRating(product);
+                    return (
+                      <TableCell key={product.id}>
+                        <div className="flex items-center gap-1">
+                          <Star className="h-4 w-4 fill-accent text-accent" />
+                          <span className="font-medium">{average > 0 ? average.toFixed(1) : '—'}</span>
+                          <span className="text-muted-foreground">
+                            ({count} {count === 1 ? 'avaliação' : 'avaliações'})
+                          </span>
+                        </div>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                <TableRow className="hover:bg-transparent">
+                  <TableCell />
+                  {products.map((product) => {
+                    const productVariants = getVariants(product.id);
+                    const soldOut = !product.in_stock ||
+                      (productVariants.length > 0 && productVariants.every((variant) => variant.stock_quantity <= 0));
+                    return (
+                      <TableCell key={product.id} className="space-y-2">
+                        {productVariants.length > 0 && (
+                          <Select
+                            value={selectedVariants[product.id] || ''}
+                            onValueChange={(value) =>
+                              setSelectedVariants((prev) => ({ ...prev, [product.id]: value }))
+                            }
+                          >
+                            <SelectTrigger aria-label={`Variação de ${product.name}`}>
+                              <SelectValue placeholder="Escolha a variação" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {productVariants.map((variant) => (
+                                <SelectItem
+                                  key={variant.id}
+                                  value={variant.id}
+                                  disabled={variant.stock_quantity <= 0}
+                                >
+                                  {variantLabel(variant)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {product.sizes && product.sizes.length > 0 && !soldOut ? (
+                          // Size is picked on the product page, like the rest of the storefront
+                          <Button variant="outline" className="w-full" asChild>
+                            <Link to={`/product/${product.id}`}>Escolher tamanho</Link>
+                          </Button>
+                        ) : (
+                          <Button
+                            className="w-full bg-gradient-ocean text-primary-foreground hover:opacity-90"
+                            onClick={() => handleAddToCart(product)}
+                            disabled={soldOut}
+                          >
+                            <ShoppingCart className="mr-2 h-4 w-4" />
+                            {soldOut ? 'Esgotado' : 'Joga na Sacola'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Compare;
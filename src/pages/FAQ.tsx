@@ -4,6 +4,8 @@ import { Link } from "react-router-dom";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { ShoppingBag, CreditCard, Package, Truck, RefreshCw, MessageCircle, ArrowRight } from "lucide-react";
 import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { formatPrice } from "@/lib/formatters";
+import { getInterestFreeInstallments, parseInstallmentBands } from "@/lib/installments";
 
 const FAQ = () => {
   const { settings } = useStoreSettings();
@@ -12,6 +14,25 @@ const FAQ = () => {
   const deliveryMaxDays = settings?.delivery_max_days || 10;
   const freeShippingThreshold = settings?.free_shipping_threshold || 250;
 
+  // Installment answer from the same store_settings bands used by the checkout
+  const installmentBands = parseInstallmentBands(settings.installment_bands)
+    .map((band) => ({ ...band, installments: Math.min(band.installments, settings.max_installments) }))
+    .filter((band) => band.installments >= 2);
+  const installmentTiers = installmentBands.map((band) =>
+    band.min_total > 0 ? `em até ${band.installments}x a partir de ${formatPrice(band.min_total)}` : `em até ${band.installments}x`
+  );
+  const highestInstallments = Math.max(1, ...installmentBands.map((band) => band.installments));
+  const interestRate = `${settings.installment_interest_rate.toLocaleString("pt-BR")}% ao mês`;
+  const interestFreeInstallments = getInterestFreeInstallments(settings);
+  const interestText = interestFreeInstallments >= highestInstallments
+    ? " sem juros"
+    : interestFreeInstallments >= 2
+      ? `, sendo até ${interestFreeInstallments}x sem juros e acima disso com juros de ${interestRate}`
+      : `, com juros de ${interestRate}`;
+  const installmentAnswer = installmentTiers.length > 0
+    ? `Sim! No cartão de crédito você parcela ${[installmentTiers.slice(0, -1).join(", "), installmentTiers[installmentTiers.length - 1]].filter(Boolean).join(" e ")}${interestText}.`
+    : "No momento as compras no cartão de crédito são à vista, sem parcelamento.";
+
   const faqCategories = [
     {
       icon: ShoppingBag,
@@ -55,8 +76,7 @@ const FAQ = () => {
         },
         {
           question: "Posso parcelar minha compra?",
-          answer:
-            "Sim! Compras acima de R$ 100 podem ser parceladas em até 3x, e compras acima de R$ 200 em até 6x sem juros no cartão de crédito.",
+          answer: installmentAnswer,
         },
         {
           question: "Quando meu cartão será cobrado?",
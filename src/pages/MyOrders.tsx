@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { ArrowLeft, Package, ChevronRight, ShoppingBag, Star, CheckCircle, PackageCheck, Loader2 } from "lucide-react";
+import { ArrowLeft, Package, ChevronRight, ShoppingBag, Star, CheckCircle, PackageCheck, Loader2, RotateCcw } from "lucide-react";
 import MainLayout from "@/components/layout/MainLayout";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
@@ -347,6 +347,18 @@ const MyOrders = () => {
                                 </Link>
                               )
                             )}
+
+                            {/* Return/exchange shortcut for delivered orders */}
+                            {order.status === "delivered" && (
+                              <Link
+                                to={`/order/${order.id}?devolucao=1`}
+                                onClick={(e) => e.stopPropagation()}
+                                className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md border border-border hover:bg-muted transition-colors"
+                              >
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                                Trocar/Devolver
+                              </Link>
+                            )}
                           </div>
                           <p className="font-semibold text-lg">
                             {formatPrice(order.total)}
@@ -1,8 +1,16 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
-import { ArrowLeft, Package, MapPin, CreditCard, Truck, Loader2 } from "lucide-react";
+import { useParams, useNavigate, Link, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Package, MapPin, CreditCard, Truck, Loader2, Route, RotateCcw } from "lucide-react";
 import MainLayout from "@/components/layout/MainLayout";
+import TrackingTimeline from "@/components/shipping/TrackingTimeline";
+import { ReturnRequestDialog } from "@/components/returns/ReturnRequestDialog";
 import { useAuth } from "@/hooks/useAuth";
+import {
+  useOrderReturns,
+  RETURN_STATUS_LABELS,
+  RETURN_STATUS_COLORS,
+  RETURN_RESOLUTION_LABELS,
+} from "@/hooks/useReturns";
 import { useStoreSettings } from "@/hooks/useStoreSettings";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -18,6 +26,8 @@ interface OrderItem {
   price: number;
   quantity: number;
   product_id: string | null;
+  product_variant_id: string | null;
+  components: { id: string; product_name: string; quantity: number }[];
 }
 
 interface Order {
@@ -27,6 +37,7 @@ interface Order {
   payment_status: string | null;
   payment_method: string | null;
   created_at: string;
+  tracking_code: string | null;
   shipping_address: Record<string, any> | null;
 }
 
@@ -44,6 +55,9 @@ const OrderDetail = () => {
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [products, setProducts] = useState<Record<string, Product>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [searchParams] = useSearchParams();
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+  const { returns, hasOpenRequest, refetch: refetchReturns } = useOrderReturns(id);
 
   useEffect(() => {
     if (user && id) {
@@ -51,6 +65,13 @@ const OrderDetail = () => {
     }
   }, [user, id]);
 
+  // Deep link from "Meus Pedidos" (/order/:id?devolucao=1)
+  useEffect(() => {
+    if (searchParams.get("devolucao") === "1" && order?.status === "delivered" && !hasOpenRequest) {
+      setReturnDialogOpen(true);
+    }
+  }, [searchParams, order?.status, hasOpenRequest]);
+
   const fetchOrderDetails = async () => {
     if (!user || !id) return;
     setIsLoading(true);
@@ -75,7 +96,7 @@ const OrderDetail = () => {
       // Fetch order items
       const { data: itemsData, error: itemsError } = await supabase
         .from("order_items")
-        .select("*")
+        .select("*, components:order_item_components(id, product_name, quantity)")
         .eq("order_id", id);
 
       if (itemsError) {
@@ -144,6 +165,7 @@ const OrderDetail = () => {
       card: "Cartão de Crédito",
       pix: "Pix",
       boleto: "Boleto Bancário",
+      exchange: "Troca",
     };
     return methodMap[method] || method;
   };
@@ -206,6 +228,18 @@ const OrderDetail = () => {
   const subtotal = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
   const shipping = order.total - subtotal;
 
+  // Quantities already covered by earlier requests (rejected ones don't count)
+  const returnedQuantities: Record<string, number> = {};
+  returns
+    .filter((request) => request.status !== "rejected")
+    .forEach((request) => {
+      request.return_request_items.forEach((item) => {
+        returnedQuantities[item.order_item_id] = (returnedQuantities[item.order_item_id] || 0) + item.quantity;
+      });
+    });
+  const canRequestReturn = order.status === "delivered" && !hasOpenRequest &&
+    orderItems.some((item) => item.quantity > (returnedQuantities[item.id] || 0));
+
   return (
     <MainLayout>
       <div className="container py-12 animate-fade-in">
@@ -268,6 +302,11 @@ const OrderDetail = () => {
                         <p className="text-sm text-muted-foreground">
                           Qtd: {item.quantity} × {formatPrice(item.price)}
                         </p>
+                        {item.components.length > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Kit com: {item.components.map(c => `${c.quantity * item.quantity}× ${c.product_name}`).join(", ")}
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className="font-semibold">{formatPrice(item.price * item.quantity)}</p>
@@ -277,6 +316,88 @@ const OrderDetail = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Tracking */}
+            {order.tracking_code && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Route className="h-5 w-5" />
+                    Rastreamento
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Código: <span className="font-mono">{order.tracking_code}</span>
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <TrackingTimeline orderId={order.id} trackingCode={order.tracking_code} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Returns & exchanges */}
+            {(order.status === "delivered" || returns.length > 0) && (
+              <Card className="mt-6">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+                  <CardTitle className="flex items-center gap-2">
+                    <RotateCcw className="h-5 w-5" />
+                    Trocas e Devoluções
+                  </CardTitle>
+                  {canRequestReturn && (
+                    <Button variant="outline" size="sm" onClick={() => setReturnDialogOpen(true)}>
+                      Trocar/Devolver
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {returns.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Algo não saiu como esperado? Solicite a troca ou devolução por aqui.{" "}
+                      <Link to="/returns" className="text-primary hover:underline">Ver política</Link>
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      {returns.map((request) => (
+                        <div key={request.id} className="p-4 border border-border rounded-lg space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium text-sm">
+                              {RETURN_RESOLUTION_LABELS[request.resolution]} · {format(new Date(request.created_at), "dd/MM/yyyy", { locale: ptBR })}
+                            </p>
+                            <Badge className={RETURN_STATUS_COLORS[request.status]}>
+                              {RETURN_STATUS_LABELS[request.status]}
+                            </Badge>
+                          </div>
+                          <ul className="text-sm text-muted-foreground">
+                            {request.return_request_items.map((item) => (
+                              <li key={item.id}>
+                                {item.order_items?.product_name} × {item.quantity}
+                                {item.exchange_variant && ` → ${[item.exchange_variant.color, item.exchange_variant.model].filter(Boolean).join(" / ")}`}
+                              </li>
+                            ))}
+                          </ul>
+                          {request.status === "label_generated" && request.reverse_tracking_code && (
+                            <p className="text-sm">
+                              Código de postagem: <span className="font-mono font-medium">{request.reverse_tracking_code}</span>
+                            </p>
+                          )}
+                          {request.status === "rejected" && request.admin_notes && (
+                            <p className="text-sm text-muted-foreground">{request.admin_notes}</p>
+                          )}
+                          {request.status === "refunded" && request.refund_amount != null && (
+                            <p className="text-sm">Reembolso: {formatPrice(Number(request.refund_amount))}</p>
+                          )}
+                          {request.status === "exchanged" && request.replacement_order_id && (
+                            <Link to={`/order/${request.replacement_order_id}`} className="text-sm text-primary hover:underline">
+                              Ver pedido da troca #{request.replacement_order_id.slice(0, 8).toUpperCase()}
+                            </Link>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Order Summary & Details */}
@@ -362,6 +483,15 @@ const OrderDetail = () => {
           </div>
         </div>
       </div>
+
+      <ReturnRequestDialog
+        open={returnDialogOpen}
+        onOpenChange={setReturnDialogOpen}
+        orderId={order.id}
+        items={orderItems}
+        returnedQuantities={returnedQuantities}
+        onCreated={refetchReturns}
+      />
     </MainLayout>
   );
 };
@@ -11,13 +11,22 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
 import ShippingCalculator from '@/components/shop/ShippingCalculator';
 import ProductReviews from '@/components/reviews/ProductReviews';
+import CompareButton from '@/components/products/CompareButton';
+import BackInStockForm from '@/components/products/BackInStockForm';
+import ProductQuestions from '@/components/products/ProductQuestions';
+import FrequentlyBoughtTogether from '@/components/products/FrequentlyBoughtTogether';
 import { formatPrice } from '@/lib/formatters';
+import { formatInstallmentOffer, getInstallmentOffer } from '@/lib/installments';
+import { usePromotions } from '@/hooks/usePromotions';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
 import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '@/components/ui/carousel';
 import Autoplay from 'embla-carousel-autoplay';
 
 const ProductDetail = () => {
   const { id } = useParams();
   const { addItem } = useCart();
+  const { getEffectivePrice } = usePromotions();
+  const { settings: storeSettings } = useStoreSettings();
   const [quantity, setQuantity] = useState(1);
   const [selectedColor, setSelectedColor] = useState<string | null>(null);
   const [selectedSize, setSelectedSize] = useState<string | null>(null);
@@ -140,6 +149,12 @@ const ProductDetail = () => {
     return variant?.stock_quantity ?? 0;
   };
   
+  // Variant matching the current selection (variant-targeted promotions depend on it)
+  const selectedVariant = variants.find(v =>
+    (v.color === selectedColor || !v.color && !selectedColor) &&
+    (v.model === selectedModel || !v.model && !selectedModel)
+  );
+
   const variantStock = getSelectedVariantStock();
   const isOutOfStock = variantStock !== null && variantStock <= 0;
 
@@ -194,9 +209,29 @@ const ProductDetail = () => {
     );
   }
 
-  const discount = product.original_price 
-    ? Math.round((product.original_price - product.price) / product.original_price * 100) 
+  const { price, compareAtPrice, promotionName, promotionEndsAt } = getEffectivePrice(product, selectedVariant?.id);
+  const discount = compareAtPrice 
+    ? Math.round((compareAtPrice - price) / compareAtPrice * 100) 
     : 0;
+  const installmentOffer = getInstallmentOffer(price, storeSettings);
+
+  // Cart line for the current selection; null until every option is picked and in stock
+  const isSelectionComplete =
+    (colors.length === 0 || !!selectedColor) &&
+    (models.length === 0 || !!selectedModel) &&
+    (sizes.length === 0 || !!selectedSize) &&
+    !isOutOfStock;
+  const currentCartItem = isSelectionComplete
+    ? {
+        id: product.id,
+        name: product.name,
+        price,
+        image: product.image || '/placeholder.svg',
+        size: selectedSize || undefined,
+        color: selectedColor || undefined,
+        model: selectedModel || undefined,
+      }
+    : null;
 
   const handleAddToCart = () => {
     if (colors.length > 0 && !selectedColor) {
@@ -220,7 +255,7 @@ const ProductDetail = () => {
       addItem({
         id: product.id,
         name: product.name,
-        price: product.price,
+        price,
         image: product.image || '/placeholder.svg',
         size: selectedSize || undefined,
         color: selectedColor || undefined,
@@ -314,14 +349,25 @@ const ProductDetail = () => {
 
             <div className="flex items-baseline gap-4">
               <span className="text-4xl font-bold text-primary">
-                {formatPrice(product.price)}
+                {formatPrice(price)}
               </span>
-              {product.original_price && (
+              {compareAtPrice && (
                 <span className="text-xl text-muted-foreground line-through">
-                  {formatPrice(product.original_price)}
+                  {formatPrice(compareAtPrice)}
                 </span>
               )}
             </div>
+            {installmentOffer && (
+              <p className="text-sm text-muted-foreground -mt-4">
+                ou {formatInstallmentOffer(installmentOffer)} no cartão
+              </p>
+            )}
+            {promotionName && (
+              <p className="text-sm text-accent font-medium -mt-4">
+                {promotionName}
+                {promotionEndsAt && ` · até ${new Date(promotionEndsAt).toLocaleDateString('pt-BR')}`}
+              </p>
+            )}
 
             <p className="text-muted-foreground leading-relaxed">
               {product.description}
@@ -433,6 +479,10 @@ const ProductDetail = () => {
               </div>
             )}
 
+            {isOutOfStock && selectedVariant && (
+              <BackInStockForm variantId={selectedVariant.id} />
+            )}
+
             {/* Quantity */}
             <div>
               <p className="font-medium mb-3" id="quantity-label">Quantidade</p>
@@ -482,10 +532,14 @@ const ProductDetail = () => {
                 <Heart className="h-5 w-5" />
               </Button>
             </div>
+            <CompareButton product={product} variant="default" className="w-full" />
 
             {/* Shipping Calculator */}
             <div className="pt-6 border-t border-border">
-              <ShippingCalculator peso={300} compact />
+              <ShippingCalculator
+                items={[{ product_id: product.id, color: selectedColor || undefined, model: selectedModel || undefined, quantity }]}
+                compact
+              />
             </div>
 
             {/* Features */}
@@ -502,10 +556,18 @@ const ProductDetail = () => {
           </div>
         </div>
 
+        {/* Frequently bought together */}
+        <FrequentlyBoughtTogether product={product} currentItem={currentCartItem} />
+
         {/* Reviews Section - Using new component */}
         <div className="mt-16 pt-8 border-t border-border">
           {id && <ProductReviews productId={id} />}
         </div>
+
+        {/* Questions & Answers */}
+        <div className="mt-16 pt-8 border-t border-border">
+          {id && <ProductQuestions productId={id} />}
+        </div>
       </div>
     </MainLayout>
   );
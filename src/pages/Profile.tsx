@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { User, Package, LogOut, Loader2, Save, Mail, Phone, Calendar, ChevronRight } from "lucide-react";
+import { User, Package, LogOut, Loader2, Save, Mail, Phone, Calendar, ChevronRight, Bell } from "lucide-react";
 import MainLayout from "@/components/layout/MainLayout";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
@@ -10,7 +10,9 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { AddressSection } from "@/components/profile/AddressSection";
+import { LoyaltySection } from "@/components/profile/LoyaltySection";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -30,6 +32,7 @@ const formatPhone = (phone: string): string => {
 interface Profile {
   full_name: string | null;
   phone: string | null;
+  wishlist_alerts_enabled: boolean;
 }
 
 interface Order {
@@ -44,7 +47,7 @@ interface Order {
 const Profile = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
-  const [profile, setProfile] = useState<Profile>({ full_name: null, phone: null });
+  const [profile, setProfile] = useState<Profile>({ full_name: null, phone: null, wishlist_alerts_enabled: true });
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -63,7 +66,7 @@ const Profile = () => {
       // Fetch profile
       const { data: profileData } = await supabase
         .from("profiles")
-        .select("full_name, phone")
+        .select("full_name, phone, wishlist_alerts_enabled")
         .eq("user_id", user.id)
         .single();
 
@@ -114,6 +117,26 @@ const Profile = () => {
     }
   };
 
+  // Global opt-out for wishlist price drop / back in stock emails, saved right away
+  const handleWishlistAlertsChange = async (enabled: boolean) => {
+    if (!user) return;
+    setProfile({ ...profile, wishlist_alerts_enabled: enabled });
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ wishlist_alerts_enabled: enabled })
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error updating wishlist alerts:", error);
+      setProfile({ ...profile, wishlist_alerts_enabled: !enabled });
+      toast.error("Erro ao atualizar preferência");
+      return;
+    }
+
+    toast.success(enabled ? "Avisos da wishlist ativados" : "Avisos da wishlist desativados");
+  };
+
   const handleSignOut = async () => {
     await signOut();
     navigate("/");
@@ -222,6 +245,23 @@ const Profile = () => {
                   </span>
                 </div>
 
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="wishlistAlerts" className="flex items-start gap-2 font-normal">
+                    <Bell className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                    <span>
+                      Avisos da wishlist
+                      <span className="block text-xs text-muted-foreground">
+                        Email quando um favorito baixar de preço ou voltar ao estoque
+                      </span>
+                    </span>
+                  </Label>
+                  <Switch
+                    id="wishlistAlerts"
+                    checked={profile.wishlist_alerts_enabled}
+                    onCheckedChange={handleWishlistAlertsChange}
+                  />
+                </div>
+
                 <Separator />
 
                 <div className="flex flex-col gap-2">
@@ -246,8 +286,10 @@ const Profile = () => {
             <AddressSection />
           </div>
 
-          {/* Orders */}
-          <div className="lg:col-span-2">
+          {/* Loyalty & Orders */}
+          <div className="lg:col-span-2 space-y-6">
+            <LoyaltySection />
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -25,18 +25,18 @@ const Returns = () => {
   const steps = [
     {
       number: "1",
-      title: "Entre em Contato",
-      description: "Fale com a gente pelo WhatsApp ou e-mail informando o número do pedido e o motivo da troca/devolução.",
+      title: "Solicite pelo Site",
+      description: "Em Meus Pedidos, abra o pedido entregue e clique em \"Trocar/Devolver\". Escolha os itens, o motivo e se prefere troca ou reembolso.",
     },
     {
       number: "2",
       title: "Aguarde a Aprovação",
-      description: "Nossa equipe vai analisar seu pedido e te enviar as instruções de envio em até 48h.",
+      description: "Nossa equipe vai analisar sua solicitação em até 48h. Você acompanha cada etapa por e-mail e na página do pedido.",
     },
     {
       number: "3",
       title: "Envie o Produto",
-      description: "Embale o produto com cuidado e envie pelos Correios. O código de postagem será enviado por e-mail.",
+      description: "Embale o produto com cuidado e leve a uma agência dos Correios com o código de postagem que enviamos por e-mail. Sem custo pra você.",
     },
     {
       number: "4",
@@ -3,11 +3,13 @@ import { useState } from 'react';
 import { Star, ArrowLeft, Loader2, CheckCircle } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import MainLayout from '@/components/layout/MainLayout';
+import ReviewPhotoInput from '@/components/reviews/ReviewPhotoInput';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Skeleton } from '@/components/ui/skeleton';
+import { uploadReviewPhotos } from '@/lib/reviewPhotos';
 import { toast } from 'sonner';
 
 const Review = () => {
@@ -16,6 +18,7 @@ const Review = () => {
   const { user } = useAuth();
   const [rating, setRating] = useState(5);
   const [comment, setComment] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
 
@@ -85,14 +88,27 @@ const Review = () => {
     
     setIsSubmitting(true);
     try {
-      const { error } = await supabase.from('product_reviews').insert({
-        product_id: productId,
-        user_id: user.id,
-        rating: rating,
-        comment: comment.trim() || null
-      });
+      const { data: review, error } = await supabase
+        .from('product_reviews')
+        .insert({
+          product_id: productId,
+          user_id: user.id,
+          rating: rating,
+          comment: comment.trim() || null
+        })
+        .select('id')
+        .single();
       
       if (error) throw error;
+
+      if (photos.length > 0) {
+        try {
+          await uploadReviewPhotos(user.id, review.id, photos);
+        } catch (photoError) {
+          console.error('Review photo error:', photoError);
+          toast.error('Sua avaliação foi enviada, mas não conseguimos salvar as fotos');
+        }
+      }
       
       setSubmitted(true);
       toast.success('Avaliação enviada! Valeu! 🌴');
@@ -278,6 +294,12 @@ const Review = () => {
               />
             </div>
 
+            {/* Photos */}
+            <div>
+              <label className="block font-medium mb-3">Fotos (opcional)</label>
+              <ReviewPhotoInput files={photos} onChange={setPhotos} disabled={isSubmitting} />
+            </div>
+
             {/* Submit */}
             <Button 
               onClick={handleSubmitReview} 
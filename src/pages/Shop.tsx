@@ -1,219 +1,205 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
 import { Filter, Grid3X3, List, Plus, Loader2, X } from 'lucide-react';
 import MainLayout from '@/components/layout/MainLayout';
 import ProductCard from '@/components/products/ProductCard';
 import ProductForm from '@/components/admin/ProductForm';
-import PriceRangeFilter from '@/components/shop/PriceRangeFilter';
+import SearchFacets from '@/components/shop/SearchFacets';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { parsePriceBand, useProductSearch, type SearchSort } from '@/hooks/useProductSearch';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { Product } from '@/types/product';
 
-type Category = {
-  id: string;
-  name: string;
-  slug: string;
-};
+const PAGE_SIZE = 24;
+const INFINITE_SCROLL_STORAGE_KEY = 'cali-shop-infinite-scroll';
+
+const SORT_OPTIONS: { value: SearchSort; label: string }[] = [
+  { value: 'featured', label: 'Destaques' },
+  { value: 'newest', label: 'Lançamentos' },
+  { value: 'best-selling', label: 'Mais Vendidos' },
+  { value: 'price-low', label: 'Menor Preço' },
+  { value: 'price-high', label: 'Maior Preço' },
+  { value: 'rating', label: 'Mais Avaliados' },
+];
+
+// Filter params that "Limpar filtros" removes (q and sort are kept)
+const FILTER_PARAMS = ['category', 'color', 'model', 'price', 'rating', 'in_stock', 'on_sale'];
 
 const Shop = () => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [sortBy, setSortBy] = useState('featured');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showProductForm, setShowProductForm] = useState(false);
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 1000]);
-  const [isPriceFilterActive, setIsPriceFilterActive] = useState(false);
-  
+  const [showFilters, setShowFilters] = useState(false);
+  const [infiniteScroll, setInfiniteScroll] = useState(
+    () => localStorage.getItem(INFINITE_SCROLL_STORAGE_KEY) === 'true'
+  );
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
   const { isAdmin, isManager } = useAuth();
   const canManageProducts = isAdmin || isManager;
-  const selectedCategory = searchParams.get('category') || 'todos';
 
-  // Fetch categories from database
-  const { data: categories = [] } = useQuery({
-    queryKey: ['categories'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('categories')
-        .select('id, name, slug')
-        .eq('is_active', true)
-        .order('display_order', { ascending: true });
-      if (error) throw error;
-      return data as Category[];
-    },
-  });
+  // The whole filter state lives in the URL, so filtered views are shareable
+  // and the back button restores them
+  const searchQuery = searchParams.get('q')?.trim() || '';
+  const isSearch = searchQuery.length > 0;
+  const defaultSort: SearchSort = isSearch ? 'relevance' : 'featured';
+  const sortParam = searchParams.get('sort');
+  const sortBy = (
+    sortParam && (sortParam === 'relevance' || SORT_OPTIONS.some((option) => option.value === sortParam))
+      ? sortParam
+      : defaultSort
+  ) as SearchSort;
+  const selectedCategories = searchParams.getAll('category');
+  const selectedColors = searchParams.getAll('color');
+  const selectedModels = searchParams.getAll('model');
+  const selectedPriceBand = searchParams.get('price');
+  const selectedMinRating = searchParams.get('rating') ? Number(searchParams.get('rating')) : null;
+  const inStockOnly = searchParams.get('in_stock') === '1';
+  const onSaleOnly = searchParams.get('on_sale') === '1';
 
-  // Fetch products from database
-  const { data: products = [], isLoading } = useQuery({
-    queryKey: ['shop-products'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .order('created_at', { ascending: false });
-      if (error) throw error;
-      return data as Product[];
+  const catalog = useProductSearch(
+    {
+      query: searchQuery,
+      categories: selectedCategories,
+      colors: selectedColors,
+      models: selectedModels,
+      ...parsePriceBand(selectedPriceBand),
+      minRating: selectedMinRating,
+      inStock: inStockOnly,
+      onSale: onSaleOnly,
+      sort: sortBy,
     },
-  });
-
-  // Calculate min/max prices from products
-  const { minProductPrice, maxProductPrice } = useMemo(() => {
-    if (products.length === 0) return { minProductPrice: 0, maxProductPrice: 1000 };
-    const prices = products.map((p) => p.price);
-    return {
-      minProductPrice: Math.floor(Math.min(...prices)),
-      maxProductPrice: Math.ceil(Math.max(...prices)),
-    };
-  }, [products]);
+    PAGE_SIZE
+  );
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = catalog;
 
-  // Initialize price range when products load
   useEffect(() => {
-    if (!isPriceFilterActive && products.length > 0) {
-      setPriceRange([minProductPrice, maxProductPrice]);
-    }
-  }, [minProductPrice, maxProductPrice, products.length, isPriceFilterActive]);
+    localStorage.setItem(INFINITE_SCROLL_STORAGE_KEY, String(infiniteScroll));
+  }, [infiniteScroll]);
 
-  const filteredProducts = useMemo(() => {
-    let result = [...products];
-
-    // Filter by category
-    if (selectedCategory && selectedCategory !== 'todos') {
-      result = result.filter((p) => p.category.toLowerCase() === selectedCategory.toLowerCase());
-    }
+  // Infinite scroll: fetch the next page when the sentinel becomes visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!infiniteScroll || !sentinel || !hasNextPage) return;
 
-    // Filter by price range
-    if (isPriceFilterActive) {
-      result = result.filter((p) => p.price >= priceRange[0] && p.price <= priceRange[1]);
-    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [infiniteScroll, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-    // Sort
-    switch (sortBy) {
-      case 'price-low':
-        result.sort((a, b) => a.price - b.price);
-        break;
-      case 'price-high':
-        result.sort((a, b) => b.price - a.price);
-        break;
-      case 'rating':
-        result.sort((a, b) => (b.rating || 0) - (a.rating || 0));
-        break;
-      case 'featured':
-      default:
-        result.sort((a, b) => (b.featured ? 1 : 0) - (a.featured ? 1 : 0));
-    }
-    return result;
-  }, [products, selectedCategory, sortBy, priceRange, isPriceFilterActive]);
-  const handleCategoryChange = (slug: string) => {
-    if (slug === 'todos') {
-      searchParams.delete('category');
+  const updateSearchParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === null) {
+      next.delete(key);
     } else {
-      searchParams.set('category', slug);
+      next.set(key, value);
     }
-    setSearchParams(searchParams);
+    setSearchParams(next);
+  };
+
+  const toggleSearchParamValue = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    const values = next.getAll(key);
+    next.delete(key);
+    (values.includes(value) ? values.filter((v) => v !== value) : [...values, value]).forEach((v) => next.append(key, v));
+    setSearchParams(next);
   };
-  const handlePriceRangeChange = (value: [number, number]) => {
-    setPriceRange(value);
-    setIsPriceFilterActive(true);
+
+  const handleSortChange = (value: string) => {
+    updateSearchParam('sort', value === defaultSort ? null : value);
   };
 
   const clearFilters = () => {
-    setSearchParams({});
-    setPriceRange([minProductPrice, maxProductPrice]);
-    setIsPriceFilterActive(false);
-    setSortBy('featured');
+    const next = new URLSearchParams(searchParams);
+    FILTER_PARAMS.forEach((key) => next.delete(key));
+    setSearchParams(next);
   };
 
-  const hasActiveFilters = selectedCategory !== 'todos' || isPriceFilterActive;
+  const hasActiveFilters = FILTER_PARAMS.some((key) => searchParams.has(key));
+
+  const products = catalog.products;
+
+  const emptyState = (
+    <div className="text-center py-20">
+      <p className="text-muted-foreground">Ops! Nenhum produto encontrado. Tenta outro filtro aí!</p>
+      {catalog.suggestion && (
+        <p className="mt-2">
+          Você quis dizer{' '}
+          <button
+            className="font-medium text-primary underline-offset-4 hover:underline"
+            onClick={() => setSearchParams({ q: catalog.suggestion as string })}
+          >
+            {catalog.suggestion}
+          </button>
+          ?
+        </p>
+      )}
+      {hasActiveFilters && (
+        <Button className="mt-4" variant="outline" onClick={clearFilters}>
+          Limpar Filtros
+        </Button>
+      )}
+      {canManageProducts && !hasActiveFilters && !isSearch && (
+        <Button className="mt-4" onClick={() => setShowProductForm(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Cadastrar Primeiro Produto
+        </Button>
+      )}
+    </div>
+  );
 
   return (
     <MainLayout>
       <div className="bg-muted py-12">
         <div className="container">
-          <h1 className="text-4xl font-bold text-foreground mb-2">Loja</h1>
-          <p className="text-muted-foreground">
-            Descubra nossa coleção de essenciais. É só escolher e partir pro abraço!
-          </p>
+          <h1 className="text-4xl font-bold text-foreground mb-2">
+            {isSearch ? `Resultados para "${searchQuery}"` : 'Loja'}
+          </h1>
+          {isSearch ? (
+            <button
+              className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+              onClick={() => updateSearchParam('q', null)}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Limpar busca
+            </button>
+          ) : (
+            <p className="text-muted-foreground">
+              Descubra nossa coleção de essenciais. É só escolher e partir pro abraço!
+            </p>
+          )}
         </div>
       </div>
 
       <div className="container py-8">
-        {/* Filters Bar */}
-        <div className="flex flex-col gap-4 mb-8 p-4 bg-card rounded-xl border border-border">
-          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-            <div className="flex items-center gap-2 flex-wrap">
-              <Filter className="h-5 w-5 text-muted-foreground" />
-              <span className="text-sm font-medium">Filtrar:</span>
-              <div className="flex gap-2 flex-wrap">
-                <Button
-                  variant={selectedCategory === 'todos' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => handleCategoryChange('todos')}
-                >
-                  Todos
-                </Button>
-                {categories.map((category) => (
-                  <Button
-                    key={category.id}
-                    variant={selectedCategory === category.slug ? 'default' : 'outline'}
-                    size="sm"
-                    onClick={() => handleCategoryChange(category.slug)}
-                  >
-                    {category.name}
-                  </Button>
-                ))}
-              </div>
-            </div>
-
-            <div className="flex items-center gap-4">
-              {canManageProducts && (
-                <Button onClick={() => setShowProductForm(true)} size="sm">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Novo Produto
-                </Button>
-              )}
-
-              <Select value={sortBy} onValueChange={setSortBy}>
-                <SelectTrigger className="w-[180px]">
-                  <SelectValue placeholder="Ordenar por" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="featured">Destaques</SelectItem>
-                  <SelectItem value="price-low">Menor Preço</SelectItem>
-                  <SelectItem value="price-high">Maior Preço</SelectItem>
-                  <SelectItem value="rating">Mais Avaliados</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <div className="hidden md:flex gap-1">
-                <Button
-                  variant={viewMode === 'grid' ? 'default' : 'outline'}
-                  size="icon"
-                  onClick={() => setViewMode('grid')}
-                >
-                  <Grid3X3 className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant={viewMode === 'list' ? 'default' : 'outline'}
-                  size="icon"
-                  onClick={() => setViewMode('list')}
-                >
-                  <List className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-          </div>
-
-          {/* Price Range Filter */}
-          <div className="flex flex-col md:flex-row md:items-end gap-4 pt-4 border-t border-border">
-            <div className="flex-1 max-w-xs">
-              <PriceRangeFilter
-                minPrice={minProductPrice}
-                maxPrice={maxProductPrice}
-                value={priceRange}
-                onChange={handlePriceRangeChange}
-              />
-            </div>
+        {/* Toolbar */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8 p-4 bg-card rounded-xl border border-border">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Button
+              variant="outline"
+              size="sm"
+              className="lg:hidden"
+              onClick={() => setShowFilters((show) => !show)}
+            >
+              <Filter className="h-4 w-4 mr-2" />
+              Filtros
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              {catalog.isLoading
+                ? 'Carregando...'
+                : isSearch
+                  ? `${catalog.total} ${catalog.total === 1 ? 'resultado' : 'resultados'}`
+                  : `Mostrando ${products.length} de ${catalog.total} produtos`}
+            </p>
             {hasActiveFilters && (
               <Button variant="ghost" size="sm" onClick={clearFilters}>
                 <X className="h-4 w-4 mr-1" />
@@ -221,57 +207,119 @@ const Shop = () => {
               </Button>
             )}
           </div>
-        </div>
 
-        {/* Results count */}
-        <p className="text-sm text-muted-foreground mb-6">
-          {isLoading ? 'Carregando...' : `Mostrando ${filteredProducts.length} produtos`}
-        </p>
+          <div className="flex items-center gap-4 flex-wrap">
+            {canManageProducts && (
+              <Button onClick={() => setShowProductForm(true)} size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Produto
+              </Button>
+            )}
 
-        {/* Loading state */}
-        {isLoading && (
-          <div className="flex justify-center py-20">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          </div>
-        )}
+            <div className="flex items-center gap-2">
+              <Switch id="infinite-scroll" checked={infiniteScroll} onCheckedChange={setInfiniteScroll} />
+              <Label htmlFor="infinite-scroll" className="text-sm font-normal">Rolagem infinita</Label>
+            </div>
 
-        {/* Products Grid */}
-        {!isLoading && (
-          <div
-            className={
-              viewMode === 'grid'
-                ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6'
-                : 'flex flex-col gap-4'
-            }
-          >
-            {filteredProducts.map((product, index) => (
-              <div
-                key={product.id}
-                className="animate-fade-in"
-                style={{ animationDelay: `${index * 50}ms` }}
-              >
-                <ProductCard product={product} />
-              </div>
-            ))}
-          </div>
-        )}
+            <Select value={sortBy} onValueChange={handleSortChange}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Ordenar por" />
+              </SelectTrigger>
+              <SelectContent>
+                {isSearch && <SelectItem value="relevance">Relevância</SelectItem>}
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
 
-        {!isLoading && filteredProducts.length === 0 && (
-          <div className="text-center py-20">
-            <p className="text-muted-foreground">Ops! Nenhum produto encontrado. Tenta outro filtro aí!</p>
-            {hasActiveFilters && (
-              <Button className="mt-4" variant="outline" onClick={clearFilters}>
-                Limpar Filtros
+            <div className="hidden md:flex gap-1">
+              <Button
+                variant={viewMode === 'grid' ? 'default' : 'outline'}
+                size="icon"
+                onClick={() => setViewMode('grid')}
+              >
+                <Grid3X3 className="h-4 w-4" />
               </Button>
-            )}
-            {canManageProducts && !hasActiveFilters && (
-              <Button className="mt-4" onClick={() => setShowProductForm(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Cadastrar Primeiro Produto
+              <Button
+                variant={viewMode === 'list' ? 'default' : 'outline'}
+                size="icon"
+                onClick={() => setViewMode('list')}
+              >
+                <List className="h-4 w-4" />
               </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-8">
+          {catalog.facets && (
+            <div className={showFilters ? 'block' : 'hidden lg:block'}>
+              <SearchFacets
+                facets={catalog.facets}
+                categories={selectedCategories}
+                colors={selectedColors}
+                models={selectedModels}
+                priceBand={selectedPriceBand}
+                minRating={selectedMinRating}
+                inStock={inStockOnly}
+                onSale={onSaleOnly}
+                onToggleCategory={(value) => toggleSearchParamValue('category', value)}
+                onToggleColor={(value) => toggleSearchParamValue('color', value)}
+                onToggleModel={(value) => toggleSearchParamValue('model', value)}
+                onPriceBandChange={(value) => updateSearchParam('price', value)}
+                onMinRatingChange={(value) => updateSearchParam('rating', value === null ? null : String(value))}
+                onInStockChange={(value) => updateSearchParam('in_stock', value ? '1' : null)}
+                onOnSaleChange={(value) => updateSearchParam('on_sale', value ? '1' : null)}
+              />
+            </div>
+          )}
+
+          <div className="lg:col-start-2">
+            {catalog.isLoading ? (
+              <div className="flex justify-center py-20">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : products.length === 0 ? (
+              emptyState
+            ) : (
+              <>
+                <div
+                  className={
+                    viewMode === 'grid'
+                      ? 'grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6'
+                      : 'flex flex-col gap-4'
+                  }
+                >
+                  {products.map((product, index) => (
+                    <div
+                      key={product.id}
+                      className="animate-fade-in"
+                      style={{ animationDelay: `${(index % PAGE_SIZE) * 50}ms` }}
+                    >
+                      <ProductCard product={product} />
+                    </div>
+                  ))}
+                </div>
+
+                {hasNextPage && (
+                  <div ref={loadMoreRef} className="flex justify-center mt-8">
+                    {infiniteScroll ? (
+                      isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    ) : (
+                      <Button variant="outline" disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+                        {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Carregar mais
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </>
             )}
           </div>
-        )}
+        </div>
       </div>
 
       {/* Product Form Modal */}
@@ -280,4 +328,4 @@ const Shop = () => {
   );
 };
 
-export default Shop;
\ No newline at end of file
+export default Shop;
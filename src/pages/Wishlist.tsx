@@ -1,17 +1,35 @@
 import { useQuery } from '@tanstack/react-query';
-import { Heart, Loader2, ShoppingBag } from 'lucide-react';
+import { Bell, Heart, Loader2, ShoppingBag } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import MainLayout from '@/components/layout/MainLayout';
 import ProductCard from '@/components/products/ProductCard';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useAuth } from '@/hooks/useAuth';
 import { useWishlist } from '@/hooks/useWishlist';
 import { supabase } from '@/integrations/supabase/client';
 import type { Product } from '@/types/product';
+import { formatPrice } from '@/lib/formatters';
 
 const Wishlist = () => {
   const { user, isLoading: authLoading } = useAuth();
-  const { wishlistIds, isLoading: wishlistLoading } = useWishlist();
+  const { wishlistIds, wishlistItems, setItemAlerts, isLoading: wishlistLoading } = useWishlist();
+
+  // Global opt-out lives in the profile
+  const { data: globalAlertsEnabled = true } = useQuery({
+    queryKey: ['wishlist-alerts-enabled', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('wishlist_alerts_enabled')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.wishlist_alerts_enabled ?? true;
+    },
+    enabled: !!user,
+  });
 
   // Fetch full product details for wishlist items
   const { data: products = [], isLoading: productsLoading } = useQuery({
@@ -87,19 +105,49 @@ const Wishlist = () => {
           </div>
         ) : (
           <>
-            <p className="text-sm text-muted-foreground mb-6">
+            <p className="text-sm text-muted-foreground mb-2">
               {products.length} {products.length === 1 ? 'produto salvo' : 'produtos salvos'}
             </p>
+            <p className="text-sm text-muted-foreground mb-6 flex items-center gap-2">
+              <Bell className="h-4 w-4" />
+              {globalAlertsEnabled ? (
+                'A gente te avisa por email quando o preço baixar ou um produto esgotado voltar.'
+              ) : (
+                <span>
+                  Avisos por email desativados no seu{' '}
+                  <Link to="/profile" className="text-primary hover:underline">perfil</Link>.
+                </span>
+              )}
+            </p>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {products.map((product, index) => (
-                <div
-                  key={product.id}
-                  className="animate-fade-in"
-                  style={{ animationDelay: `${index * 50}ms` }}
-                >
-                  <ProductCard product={product} />
-                </div>
-              ))}
+              {products.map((product, index) => {
+                const item = wishlistItems.find((i) => i.product_id === product.id);
+                return (
+                  <div
+                    key={product.id}
+                    className="animate-fade-in space-y-2"
+                    style={{ animationDelay: `${index * 50}ms` }}
+                  >
+                    <ProductCard product={product} />
+                    {item && (
+                      <div className="flex items-center justify-between gap-2 px-1 text-sm">
+                        <Label htmlFor={`wishlist-alerts-${product.id}`} className="font-normal text-muted-foreground">
+                          Avisar preço e estoque
+                          {item.price_at_add !== null && (
+                            <span className="block text-xs">Salvo por {formatPrice(Number(item.price_at_add))}</span>
+                          )}
+                        </Label>
+                        <Switch
+                          id={`wishlist-alerts-${product.id}`}
+                          checked={item.alerts_enabled}
+                          disabled={!globalAlertsEnabled}
+                          onCheckedChange={(checked) => setItemAlerts(product.id, checked)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </>
         )}
@@ -24,7 +24,11 @@ import {
   Cog,
   MailCheck,
   MessageSquare,
+  HelpCircle,
   Tag,
+  BadgePercent,
+  RotateCcw,
+  Bell,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -100,6 +104,22 @@ const AdminLayout = () => {
     refetchInterval: 60000,
   });
 
+  // Moderation queues waiting on the team (pending reviews, unanswered questions)
+  const { data: pendingCounts } = useQuery({
+    queryKey: ['admin-pending-counts'],
+    queryFn: async () => {
+      const [reviewsRes, questionsRes] = await Promise.all([
+        supabase.from('product_reviews').select('id', { count: 'exact', head: true }).eq('approved', false),
+        supabase.from('product_questions').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
+      ]);
+      return {
+        reviews: reviewsRes.count || 0,
+        questions: questionsRes.count || 0,
+      };
+    },
+    refetchInterval: 60000,
+  });
+
   const toggleMenu = (name: string) => {
     setOpenMenus(prev => 
       prev.includes(name) ? prev.filter(m => m !== name) : [...prev, name]
@@ -121,6 +141,7 @@ const AdminLayout = () => {
       subItems: [
         { name: 'Produtos', icon: Package, path: '/admin/products' },
         { name: 'Estoque', icon: Warehouse, path: '/admin/stock' },
+        { name: 'Avise-me', icon: Bell, path: '/admin/back-in-stock' },
         { name: 'Categorias', icon: Layers, path: '/admin/categories' },
       ]
     },
@@ -138,6 +159,7 @@ const AdminLayout = () => {
           badgeType: monitorStats?.errors ? 'error' : 'warning'
         },
         { name: 'Etiquetas', icon: Tag, path: '/admin/shipping-labels' },
+        { name: 'Trocas e Devoluções', icon: RotateCcw, path: '/admin/returns' },
       ]
     },
     { 
@@ -150,7 +172,17 @@ const AdminLayout = () => {
       name: 'Avaliações', 
       icon: MessageSquare, 
       path: '/admin/reviews', 
-      showFor: ['admin', 'manager'] 
+      showFor: ['admin', 'manager'],
+      badge: pendingCounts?.reviews || 0,
+      badgeType: 'warning'
+    },
+    { 
+      name: 'Perguntas', 
+      icon: HelpCircle, 
+      path: '/admin/questions', 
+      showFor: ['admin', 'manager'],
+      badge: pendingCounts?.questions || 0,
+      badgeType: 'warning'
     },
     { 
       name: 'Marketing', 
@@ -158,6 +190,7 @@ const AdminLayout = () => {
       showFor: ['admin', 'manager'],
       subItems: [
         { name: 'Cupons', icon: Ticket, path: '/admin/coupons' },
+        { name: 'Promoções', icon: BadgePercent, path: '/admin/promotions' },
         { name: 'Vendedores', icon: UserCheck, path: '/admin/sellers' },
       ]
     },
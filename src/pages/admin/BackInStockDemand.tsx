@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Bell, BellRing, Search, Send, Warehouse } from 'lucide-react';
+
+interface DemandRow {
+  product_variant_id: string;
+  product_id: string;
+  product_name: string;
+  product_image: string | null;
+  color: string | null;
+  model: string | null;
+  available_stock: number;
+  waiting_count: number;
+  ready_count: number;
+  notified_count: number;
+  last_requested_at: string;
+}
+
+const BackInStockDemand = () => {
+  const [search, setSearch] = useState('');
+  const [onlyWaiting, setOnlyWaiting] = useState(true);
+
+  const { data: demand = [], isLoading } = useQuery({
+    queryKey: ['back-in-stock-demand'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_back_in_stock_demand');
+      if (error) throw error;
+      return (data || []) as DemandRow[];
+    },
+  });
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return demand.filter((row) => {
+      if (onlyWaiting && row.waiting_count === 0) return false;
+      if (!term) return true;
+      return [row.product_name, row.color, row.model].some((value) => value?.toLowerCase().includes(term));
+    });
+  }, [demand, search, onlyWaiting]);
+
+  const totalWaiting = demand.reduce((sum, row) => sum + row.waiting_count, 0);
+  const totalReady = demand.reduce((sum, row) => sum + row.ready_count, 0);
+  const totalNotified = demand.reduce((sum, row) => sum + row.notified_count, 0);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold">Avise-me</h1>
+        <p className="text-muted-foreground">
+          Clientes esperando variações esgotadas. Priorize a reposição das mais pedidas.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Aguardando</CardTitle>
+            <Bell className="h-5 w-5 text-yellow-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalWaiting}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Envio em andamento</CardTitle>
+            <Send className="h-5 w-5 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalReady}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Avisados</CardTitle>
+            <BellRing className="h-5 w-5 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalNotified}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle>Demanda por variação</CardTitle>
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="only-waiting" checked={onlyWaiting} onCheckedChange={setOnlyWaiting} />
+              <Label htmlFor="only-waiting" className="font-normal">Somente com clientes aguardando</Label>
+            </div>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Buscar produto..."
+                className="pl-9 md:w-[240px]"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">Nenhum pedido de aviso por aqui</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produto</TableHead>
+                  <TableHead>Variação</TableHead>
+                  <TableHead className="text-center">Aguardando</TableHead>
+                  <TableHead className="text-center">Avisados</TableHead>
+                  <TableHead className="text-center">Estoque</TableHead>
+                  <TableHead>Último pedido</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((row) => (
+                  <TableRow key={row.product_variant_id}>
+                    <TableCell>
+                      <Link to={`/product/${row.product_id}`} target="_blank" className="flex items-center gap-3 hover:underline">
+                        <img
+                          src={row.product_image || '/placeholder.svg'}
+                          alt={row.product_name}
+                          className="h-10 w-10 rounded object-cover"
+                        />
+                        <span className="font-medium">{row.product_name}</span>
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {[row.color, row.model].filter(Boolean).join(' / ') || 'Padrão'}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Badge className={row.waiting_count > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-muted text-muted-foreground'}>
+                        {row.waiting_count + row.ready_count}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-center">{row.notified_count}</TableCell>
+                    <TableCell className="text-center">
+                      {row.available_stock > 0 ? (
+                        <span className="text-green-700">{row.available_stock}</span>
+                      ) : (
+                        <Badge variant="destructive">Esgotado</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(row.last_requested_at), 'dd/MM/yyyy', { locale: ptBR })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <p className="mt-4 flex items-center gap-2 text-xs text-muted-foreground">
+            <Warehouse className="h-3 w-3" />
+            Ao repor o estoque (manual, importação ou transferência), os clientes são avisados automaticamente por email.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BackInStockDemand;
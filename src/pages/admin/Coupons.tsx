@@ -34,14 +34,32 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 
+type CouponDiscountType = 'percent' | 'fixed' | 'free_shipping';
+
 interface Coupon {
   id: string;
   code: string;
+  discount_type: CouponDiscountType;
   discount_percent: number;
+  fixed_amount: number | null;
+  product_ids: string[];
+  category_ids: string[];
+  stacks_with_seller: boolean;
   min_purchase: number;
   max_uses: number | null;
+  max_uses_per_customer: number | null;
   used_count: number;
   valid_from: string;
   valid_until: string | null;
@@ -49,6 +67,17 @@ interface Coupon {
   created_at: string;
 }
 
+interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+const DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  percent: 'Percentual',
+  fixed: 'Valor fixo',
+  free_shipping: 'Frete grátis',
+};
+
 const Coupons = () => {
   const { isAdmin } = useAuth();
   const queryClient = useQueryClient();
@@ -58,9 +87,15 @@ const Coupons = () => {
 
   // Form state
   const [code, setCode] = useState('');
+  const [discountType, setDiscountType] = useState<CouponDiscountType>('percent');
   const [discountPercent, setDiscountPercent] = useState(10);
+  const [fixedAmount, setFixedAmount] = useState<number | ''>('');
+  const [productIds, setProductIds] = useState<string[]>([]);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [stacksWithSeller, setStacksWithSeller] = useState(true);
   const [minPurchase, setMinPurchase] = useState(0);
   const [maxUses, setMaxUses] = useState<number | ''>('');
+  const [maxUsesPerCustomer, setMaxUsesPerCustomer] = useState<number | ''>('');
   const [validUntil, setValidUntil] = useState('');
 
   const maxDiscount = isAdmin ? 100 : 40;
@@ -78,13 +113,44 @@ const Coupons = () => {
     },
   });
 
+  // Products and categories for scoped coupons
+  const { data: scopeProducts = [] } = useQuery({
+    queryKey: ['coupon-scope-products'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name')
+        .order('name');
+      if (error) throw error;
+      return data as ScopeOption[];
+    },
+  });
+
+  const { data: scopeCategories = [] } = useQuery({
+    queryKey: ['coupon-scope-categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name')
+        .order('display_order', { ascending: true });
+      if (error) throw error;
+      return data as ScopeOption[];
+    },
+  });
+
   // Create/Update coupon
   const saveMutation = useMutation({
     mutationFn: async (couponData: {
       code: string;
+      discount_type: CouponDiscountType;
       discount_percent: number;
+      fixed_amount: number | null;
+      product_ids: string[];
+      category_ids: string[];
+      stacks_with_seller: boolean;
       min_purchase: number;
       max_uses: number | null;
+      max_uses_per_customer: number | null;
       valid_until: string | null;
       is_active: boolean;
     }) => {
@@ -156,16 +222,28 @@ const Coupons = () => {
     if (coupon) {
       setEditingCoupon(coupon);
       setCode(coupon.code);
-      setDiscountPercent(coupon.discount_percent);
+      setDiscountType(coupon.discount_type);
+      setDiscountPercent(coupon.discount_percent || 10);
+      setFixedAmount(coupon.fixed_amount ?? '');
+      setProductIds(coupon.product_ids || []);
+      setCategoryIds(coupon.category_ids || []);
+      setStacksWithSeller(coupon.stacks_with_seller);
       setMinPurchase(coupon.min_purchase);
       setMaxUses(coupon.max_uses ?? '');
+      setMaxUsesPerCustomer(coupon.max_uses_per_customer ?? '');
       setValidUntil(coupon.valid_until ? coupon.valid_until.split('T')[0] : '');
     } else {
       setEditingCoupon(null);
       setCode('');
+      setDiscountType('percent');
       setDiscountPercent(10);
+      setFixedAmount('');
+      setProductIds([]);
+      setCategoryIds([]);
+      setStacksWithSeller(true);
       setMinPurchase(0);
       setMaxUses('');
+      setMaxUsesPerCustomer('');
       setValidUntil('');
     }
     setShowForm(true);
@@ -175,9 +253,15 @@ const Coupons = () => {
     setShowForm(false);
     setEditingCoupon(null);
     setCode('');
+    setDiscountType('percent');
     setDiscountPercent(10);
+    setFixedAmount('');
+    setProductIds([]);
+    setCategoryIds([]);
+    setStacksWithSeller(true);
     setMinPurchase(0);
     setMaxUses('');
+    setMaxUsesPerCustomer('');
     setValidUntil('');
   };
 
@@ -189,16 +273,27 @@ const Coupons = () => {
       return;
     }
 
-    if (discountPercent > maxDiscount) {
+    if (discountType === 'percent' && discountPercent > maxDiscount) {
       toast.error(`Desconto máximo permitido: ${maxDiscount}%`);
       return;
     }
 
+    if (discountType === 'fixed' && (fixedAmount === '' || Number(fixedAmount) <= 0)) {
+      toast.error('Informe o valor do desconto');
+      return;
+    }
+
     saveMutation.mutate({
       code: code.toUpperCase().trim(),
-      discount_percent: discountPercent,
+      discount_type: discountType,
+      discount_percent: discountType === 'percent' ? discountPercent : 0,
+      fixed_amount: discountType === 'fixed' ? Number(fixedAmount) : null,
+      product_ids: productIds,
+      category_ids: categoryIds,
+      stacks_with_seller: stacksWithSeller,
       min_purchase: minPurchase,
       max_uses: maxUses === '' ? null : Number(maxUses),
+      max_uses_per_customer: maxUsesPerCustomer === '' ? null : Number(maxUsesPerCustomer),
       valid_until: validUntil || null,
       is_active: editingCoupon?.is_active ?? true,
     });
@@ -208,6 +303,27 @@ const Coupons = () => {
     return price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
   };
 
+  const toggleScope = (list: string[], id: string, checked: boolean) => {
+    return checked ? [...list, id] : list.filter((item) => item !== id);
+  };
+
+  const formatDiscount = (coupon: Coupon) => {
+    if (coupon.discount_type === 'free_shipping') return 'Frete grátis';
+    if (coupon.discount_type === 'fixed') return formatPrice(coupon.fixed_amount || 0);
+    return `${coupon.discount_percent}%`;
+  };
+
+  const formatScope = (coupon: Coupon) => {
+    const parts: string[] = [];
+    if (coupon.category_ids?.length) {
+      parts.push(`${coupon.category_ids.length} ${coupon.category_ids.length === 1 ? 'categoria' : 'categorias'}`);
+    }
+    if (coupon.product_ids?.length) {
+      parts.push(`${coupon.product_ids.length} ${coupon.product_ids.length === 1 ? 'produto' : 'produtos'}`);
+    }
+    return parts.length ? parts.join(' + ') : null;
+  };
+
   const isExpired = (validUntil: string | null) => {
     if (!validUntil) return false;
     return new Date(validUntil) < new Date();
@@ -266,13 +382,28 @@ const Coupons = () => {
                   <TableRow key={coupon.id}>
                     <TableCell className="font-mono font-bold">{coupon.code}</TableCell>
                     <TableCell>
-                      <Badge variant="secondary">{coupon.discount_percent}%</Badge>
+                      <Badge variant="secondary">{formatDiscount(coupon)}</Badge>
+                      {formatScope(coupon) && (
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          {formatScope(coupon)}
+                        </span>
+                      )}
+                      {!coupon.stacks_with_seller && (
+                        <span className="block text-xs text-muted-foreground">
+                          Não cumulativo com vendedor
+                        </span>
+                      )}
                     </TableCell>
                     <TableCell>
                       {coupon.min_purchase > 0 ? formatPrice(coupon.min_purchase) : '-'}
                     </TableCell>
                     <TableCell>
                       {coupon.used_count}/{coupon.max_uses ?? '∞'}
+                      {coupon.max_uses_per_customer && (
+                        <span className="block text-xs text-muted-foreground">
+                          {coupon.max_uses_per_customer} por cliente
+                        </span>
+                      )}
                     </TableCell>
                     <TableCell>
                       {coupon.valid_until ? (
@@ -320,7 +451,7 @@ const Coupons = () => {
 
       {/* Form Dialog */}
       <Dialog open={showForm} onOpenChange={setShowForm}>
-        <DialogContent>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingCoupon ? 'Editar Cupom' : 'Criar Cupom'}</DialogTitle>
           </DialogHeader>
@@ -336,18 +467,95 @@ const Coupons = () => {
               />
             </div>
 
-            <div className="space-y-2">
-              <Label>Desconto: {discountPercent}%</Label>
-              <Slider
-                value={[discountPercent]}
-                onValueChange={(v) => setDiscountPercent(v[0])}
-                min={1}
-                max={maxDiscount}
-                step={1}
-              />
+            <div>
+              <Label>Tipo de Desconto</Label>
+              <Select value={discountType} onValueChange={(v) => setDiscountType(v as CouponDiscountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DISCOUNT_TYPE_LABELS) as CouponDiscountType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {discountType === 'percent' && (
+              <div className="space-y-2">
+                <Label>Desconto: {discountPercent}%</Label>
+                <Slider
+                  value={[discountPercent]}
+                  onValueChange={(v) => setDiscountPercent(v[0])}
+                  min={1}
+                  max={maxDiscount}
+                  step={1}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {!isAdmin && 'Gerentes podem aplicar até 40% de desconto'}
+                </p>
+              </div>
+            )}
+
+            {discountType === 'fixed' && (
+              <div>
+                <Label htmlFor="fixedAmount">Valor do Desconto (R$)</Label>
+                <Input
+                  id="fixedAmount"
+                  type="number"
+                  value={fixedAmount}
+                  onChange={(e) => setFixedAmount(e.target.value === '' ? '' : Number(e.target.value))}
+                  min={0.01}
+                  step={0.01}
+                  placeholder="20,00"
+                />
+              </div>
+            )}
+
+            {discountType === 'free_shipping' && (
               <p className="text-xs text-muted-foreground">
-                {!isAdmin && 'Gerentes podem aplicar até 40% de desconto'}
+                O frete calculado no checkout será zerado ao aplicar este cupom.
               </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Categorias (vazio = todas)</Label>
+                <ScrollArea className="h-32 rounded-md border p-2">
+                  {scopeCategories.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 py-1 text-sm">
+                      <Checkbox
+                        checked={categoryIds.includes(category.id)}
+                        onCheckedChange={(checked) => setCategoryIds(toggleScope(categoryIds, category.id, !!checked))}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </ScrollArea>
+              </div>
+              <div className="space-y-2">
+                <Label>Produtos (vazio = todos)</Label>
+                <ScrollArea className="h-32 rounded-md border p-2">
+                  {scopeProducts.map((product) => (
+                    <label key={product.id} className="flex items-center gap-2 py-1 text-sm">
+                      <Checkbox
+                        checked={productIds.includes(product.id)}
+                        onCheckedChange={(checked) => setProductIds(toggleScope(productIds, product.id, !!checked))}
+                      />
+                      <span className="truncate">{product.name}</span>
+                    </label>
+                  ))}
+                </ScrollArea>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="stacksWithSeller">Acumula com desconto de vendedor</Label>
+              <Switch
+                id="stacksWithSeller"
+                checked={stacksWithSeller}
+                onCheckedChange={setStacksWithSeller}
+              />
             </div>
 
             <div>
@@ -374,6 +582,18 @@ const Coupons = () => {
               />
             </div>
 
+            <div>
+              <Label htmlFor="maxUsesPerCustomer">Limite por Cliente (vazio = ilimitado)</Label>
+              <Input
+                id="maxUsesPerCustomer"
+                type="number"
+                value={maxUsesPerCustomer}
+                onChange={(e) => setMaxUsesPerCustomer(e.target.value === '' ? '' : Number(e.target.value))}
+                min={1}
+                placeholder="Ilimitado"
+              />
+            </div>
+
             <div>
               <Label htmlFor="validUntil">Válido até (opcional)</Label>
               <Input
@@ -122,9 +122,13 @@ const Dashboard = () => {
 
   // Calculate conversion rate and average ticket
   const avgTicket = totalOrders > 0 ? totalRevenue / totalOrders : 0;
-  const totalCarts = abandonedCarts.length + totalOrders;
+  // Recovered and closed carts became paid orders and are already counted there
+  const openCarts = abandonedCarts.filter(c => !c.recovered && !c.closed_at);
+  const totalCarts = openCarts.length + totalOrders;
   const conversionRate = totalCarts > 0 ? (totalOrders / totalCarts) * 100 : 0;
-  const abandonmentRate = totalCarts > 0 ? (abandonedCarts.filter(c => !c.recovered).length / totalCarts) * 100 : 0;
+  const abandonmentRate = totalCarts > 0 ? (openCarts.length / totalCarts) * 100 : 0;
+  const recoveredCarts = abandonedCarts.filter(c => c.recovered);
+  const recoveredRevenue = recoveredCarts.reduce((sum, cart) => sum + Number(cart.recovered_amount || 0), 0);
 
   // Group orders by month for chart - only paid orders
   const monthlyData = paidOrders.reduce((acc, order) => {
@@ -245,6 +249,13 @@ const Dashboard = () => {
       trend: conversionRate > 5 ? 'up' as const : 'down' as const,
       icon: Percent,
     },
+    {
+      title: 'Receita Recuperada',
+      value: formatPrice(recoveredRevenue),
+      change: `${recoveredCarts.length} carrinhos recuperados`,
+      trend: 'up' as const,
+      icon: ShoppingCart,
+    },
     {
       title: 'Clientes',
       value: customersCount.toString(),
@@ -294,7 +305,7 @@ const Dashboard = () => {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
         {stats.map((stat, index) => (
           <Card 
             key={stat.title}
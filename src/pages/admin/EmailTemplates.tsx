@@ -33,6 +33,11 @@ const templateIcons: Record<string, string> = {
   abandoned_cart: "🛒",
   low_stock_alert: "⚠️",
   review_request: "⭐",
+  return_status_update: "🔄",
+  back_in_stock: "🔔",
+  wishlist_alert: "💙",
+  review_reply: "💬",
+  question_answered: "❓",
 };
 
 export default function EmailTemplates() {
@@ -124,13 +129,28 @@ export default function EmailTemplates() {
       review_section: "",
       items_count: "3",
       admin_url: "https://calibrasil.com/admin/products",
-      cart_url: "https://calibrasil.com/cart",
+      cart_url: "https://calibrasil.com/cart/recover?cart=exemplo&token=exemplo123",
+      coupon_section: '<p style="text-align:center"><strong>10% OFF</strong> com o cupom <strong>VOLTA1A2B3C4D</strong></p>',
       tracking_code: "BR123456789BR",
       tracking_url: "https://www.linkcorreios.com.br/?id=BR123456789BR",
       confirmation_url: "https://calibrasil.com/confirmar-recebimento?token=exemplo123",
       review_url: "https://calibrasil.com/avaliar?token=exemplo123",
       store_name: "Calibrasil",
       store_email: "contato@calibrasil.com",
+      return_id: "RMA12345",
+      resolution_label: "Troca",
+      details_section: "<p><strong>📮 Código de postagem:</strong> LR123456789BR</p>",
+      product_name: "Capa iPhone 15",
+      variant_label: "Azul / iPhone 15",
+      product_image: "https://calibrasil.com/placeholder.svg",
+      product_url: "https://calibrasil.com/product/exemplo",
+      headline: "Baixou o preço dos seus favoritos!",
+      wishlist_url: "https://calibrasil.com/wishlist",
+      rating_stars: "★★★★☆",
+      review_comment: "Gostei muito da capa, só achei que demorou um pouco pra chegar.",
+      store_reply: "Oi, João! Obrigado pelo feedback. Já estamos trabalhando pra agilizar as entregas. 💙",
+      question: "Essa capa serve no iPhone 15 Pro Max?",
+      answer: "Serve sim! Temos o modelo específico pro 15 Pro Max, é só selecionar na página do produto.",
     };
 
     for (const [key, value] of Object.entries(sampleData)) {
@@ -84,6 +84,7 @@ const getPaymentStatusBadge = (paymentStatus: string | null) => {
     failed: 'bg-red-100 text-red-800',
     expired: 'bg-gray-100 text-gray-800',
     refunded: 'bg-purple-100 text-purple-800',
+    partially_refunded: 'bg-purple-100 text-purple-800',
   };
   return styles[paymentStatus || 'pending'] || 'bg-muted text-muted-foreground';
 };
@@ -97,6 +98,7 @@ const getPaymentStatusLabel = (paymentStatus: string | null) => {
     failed: 'Falhou',
     expired: 'Expirado',
     refunded: 'Reembolsado',
+    partially_refunded: 'Reembolso Parcial',
   };
   return labels[paymentStatus || 'pending'] || paymentStatus || 'Pendente';
 };
@@ -191,7 +193,7 @@ const Orders = () => {
         .from('orders')
         .select(`
           *,
-          order_items (*)
+          order_items (*, components:order_item_components (*))
         `)
         .order('created_at', { ascending: false });
       
@@ -372,6 +374,7 @@ const Orders = () => {
                 <SelectItem value="failed">Falhou</SelectItem>
                 <SelectItem value="expired">Expirado</SelectItem>
                 <SelectItem value="refunded">Reembolsado</SelectItem>
+                <SelectItem value="partially_refunded">Reembolso Parcial</SelectItem>
               </SelectContent>
             </Select>
 
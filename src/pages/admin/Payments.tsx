@@ -1,16 +1,35 @@
-import { DollarSign, CreditCard, ArrowUpRight, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { DollarSign, CreditCard, ArrowUpRight, Loader2, Undo2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { REFUNDABLE_PAYMENT_STATUSES } from '@/hooks/useRefunds';
+import { RefundDialog, type RefundableOrder } from '@/components/admin/RefundDialog';
 
 const formatPrice = (price: number) => {
   return price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
 };
 
+const getPaymentStatusBadge = (paymentStatus: string | null) => {
+  switch (paymentStatus) {
+    case 'approved':
+    case 'paid':
+      return { className: 'bg-green-100 text-green-800', label: 'Aprovado' };
+    case 'refunded':
+      return { className: 'bg-purple-100 text-purple-800', label: 'Reembolsado' };
+    case 'partially_refunded':
+      return { className: 'bg-purple-100 text-purple-800', label: 'Reembolso Parcial' };
+    default:
+      return { className: 'bg-yellow-100 text-yellow-800', label: 'Pendente' };
+  }
+};
+
 const Payments = () => {
   const { canEditPayments } = useAuth();
+  const [refundOrder, setRefundOrder] = useState<RefundableOrder | null>(null);
 
   // Fetch orders as payment data
   const { data: orders = [], isLoading } = useQuery({
@@ -26,8 +45,8 @@ const Payments = () => {
   });
 
   const totalRevenue = orders
-    .filter(o => o.payment_status === 'paid')
-    .reduce((sum, o) => sum + Number(o.total), 0);
+    .filter(o => REFUNDABLE_PAYMENT_STATUSES.includes(o.payment_status || ''))
+    .reduce((sum, o) => sum + Number(o.total) - Number(o.refunded_amount || 0), 0);
   const approvedPayments = orders.filter(o => o.payment_status === 'approved' || o.payment_status === 'paid').length;
   const pendingPayments = orders.filter(o => o.payment_status === 'pending' || !o.payment_status).length;
 
@@ -96,6 +115,9 @@ const Payments = () => {
                   <th className="text-left py-3 px-4 font-medium text-muted-foreground">Método</th>
                   <th className="text-left py-3 px-4 font-medium text-muted-foreground">Status</th>
                   <th className="text-left py-3 px-4 font-medium text-muted-foreground">Data</th>
+                  {canEditPayments && (
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Ações</th>
+                  )}
                 </tr>
               </thead>
               <tbody>
@@ -103,7 +125,14 @@ const Payments = () => {
                   orders.slice(0, 10).map((order) => (
                     <tr key={order.id} className="border-b border-border last:border-0">
                       <td className="py-3 px-4 font-medium">#{order.id.slice(0, 8)}</td>
-                      <td className="py-3 px-4 font-medium">{formatPrice(Number(order.total))}</td>
+                      <td className="py-3 px-4 font-medium">
+                        {formatPrice(Number(order.total))}
+                        {Number(order.refunded_amount) > 0 && (
+                          <span className="block text-xs text-muted-foreground">
+                            Reembolsado {formatPrice(Number(order.refunded_amount))}
+                          </span>
+                        )}
+                      </td>
                       <td className="py-3 px-4">
                         <Badge className={
                           order.payment_gateway === 'stripe' 
@@ -117,22 +146,28 @@ const Payments = () => {
                       </td>
                       <td className="py-3 px-4">{order.payment_method || 'N/A'}</td>
                       <td className="py-3 px-4">
-                        <Badge className={
-                          order.payment_status === 'approved' || order.payment_status === 'paid'
-                            ? 'bg-green-100 text-green-800'
-                            : 'bg-yellow-100 text-yellow-800'
-                        }>
-                          {order.payment_status === 'approved' || order.payment_status === 'paid' ? 'Aprovado' : 'Pendente'}
+                        <Badge className={getPaymentStatusBadge(order.payment_status).className}>
+                          {getPaymentStatusBadge(order.payment_status).label}
                         </Badge>
                       </td>
                       <td className="py-3 px-4 text-muted-foreground">
                         {new Date(order.created_at).toLocaleDateString('pt-BR')}
                       </td>
+                      {canEditPayments && (
+                        <td className="py-3 px-4 text-right">
+                          {REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status || '') && (
+                            <Button variant="ghost" size="sm" onClick={() => setRefundOrder(order)}>
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Reembolsar
+                            </Button>
+                          )}
+                        </td>
+                      )}
                     </tr>
                   ))
                 ) : (
                   <tr>
-                    <td colSpan={6} className="py-8 text-center text-muted-foreground">
+                    <td colSpan={canEditPayments ? 7 : 6} className="py-8 text-center text-muted-foreground">
                       Nenhuma transação ainda
                     </td>
                   </tr>
@@ -142,6 +177,12 @@ const Payments = () => {
           </div>
         </CardContent>
       </Card>
+
+      <RefundDialog
+        open={!!refundOrder}
+        onOpenChange={(open) => !open && setRefundOrder(null)}
+        order={refundOrder}
+      />
     </div>
   );
 };
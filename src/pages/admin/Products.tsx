@@ -64,7 +64,8 @@ const Products = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin-products'] });
       queryClient.invalidateQueries({ queryKey: ['products'] });
-      queryClient.invalidateQueries({ queryKey: ['shop-products'] });
+      queryClient.invalidateQueries({ queryKey: ['product-search'] });
+      queryClient.invalidateQueries({ queryKey: ['product-search-facets'] });
       toast.success('Produto excluído!');
       setDeleteProduct(null);
     },
@@ -173,6 +174,9 @@ const Products = () => {
                           {product.featured && (
                             <Badge variant="secondary" className="text-xs">Destaque</Badge>
                           )}
+                          {product.is_bundle && (
+                            <Badge variant="outline" className="text-xs ml-1">Kit</Badge>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -0,0 +1,611 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Loader2, Pencil, Trash2, ToggleLeft, ToggleRight, BadgePercent } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+
+type PromotionDiscountType = 'percent' | 'fixed_price';
+type PromotionTargetType = 'product' | 'category' | 'variant';
+
+interface Promotion {
+  id: string;
+  name: string;
+  discount_type: PromotionDiscountType;
+  discount_value: number;
+  target_type: PromotionTargetType;
+  product_ids: string[];
+  category_ids: string[];
+  variant_ids: string[];
+  starts_at: string;
+  ends_at: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface TargetOption {
+  id: string;
+  name: string;
+}
+
+interface VariantOption {
+  id: string;
+  color: string | null;
+  model: string | null;
+  products: { name: string } | null;
+}
+
+const DISCOUNT_TYPE_LABELS: Record<PromotionDiscountType, string> = {
+  percent: 'Percentual',
+  fixed_price: 'Preço fixo',
+};
+
+const TARGET_TYPE_LABELS: Record<PromotionTargetType, string> = {
+  product: 'Produtos',
+  category: 'Categorias',
+  variant: 'Variações',
+};
+
+// datetime-local inputs work in local time without timezone
+const toDateTimeLocal = (iso: string) => {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const Promotions = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [discountType, setDiscountType] = useState<PromotionDiscountType>('percent');
+  const [discountValue, setDiscountValue] = useState<number | ''>('');
+  const [targetType, setTargetType] = useState<PromotionTargetType>('product');
+  const [productIds, setProductIds] = useState<string[]>([]);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [variantIds, setVariantIds] = useState<string[]>([]);
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+
+  // Fetch promotions
+  const { data: promotions = [], isLoading } = useQuery({
+    queryKey: ['admin-promotions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .order('starts_at', { ascending: false });
+      if (error) throw error;
+      return data as Promotion[];
+    },
+  });
+
+  // Targets
+  const { data: targetProducts = [] } = useQuery({
+    queryKey: ['promotion-target-products'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name')
+        .order('name');
+      if (error) throw error;
+      return data as TargetOption[];
+    },
+  });
+
+  const { data: targetCategories = [] } = useQuery({
+    queryKey: ['promotion-target-categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name')
+        .order('display_order', { ascending: true });
+      if (error) throw error;
+      return data as TargetOption[];
+    },
+  });
+
+  const { data: targetVariants = [] } = useQuery({
+    queryKey: ['promotion-target-variants'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('id, color, model, products(name)')
+        .order('product_id');
+      if (error) throw error;
+      return data as unknown as VariantOption[];
+    },
+  });
+
+  // Create/Update promotion
+  const saveMutation = useMutation({
+    mutationFn: async (promotionData: {
+      name: string;
+      discount_type: PromotionDiscountType;
+      discount_value: number;
+      target_type: PromotionTargetType;
+      product_ids: string[];
+      category_ids: string[];
+      variant_ids: string[];
+      starts_at: string;
+      ends_at: string | null;
+      is_active: boolean;
+    }) => {
+      if (editingPromotion) {
+        const { error } = await supabase
+          .from('promotions')
+          .update(promotionData)
+          .eq('id', editingPromotion.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('promotions')
+          .insert([{ ...promotionData, created_by: user?.id }]);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-promotions'] });
+      queryClient.invalidateQueries({ queryKey: ['promotional-prices'] });
+      toast.success(editingPromotion ? 'Promoção atualizada!' : 'Promoção criada!');
+      handleCloseForm();
+    },
+    onError: () => {
+      toast.error('Erro ao salvar promoção');
+    },
+  });
+
+  // Toggle active status
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ is_active })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-promotions'] });
+      queryClient.invalidateQueries({ queryKey: ['promotional-prices'] });
+      toast.success('Status atualizado!');
+    },
+    onError: () => {
+      toast.error('Erro ao atualizar status');
+    },
+  });
+
+  // Delete promotion
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('promotions')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-promotions'] });
+      queryClient.invalidateQueries({ queryKey: ['promotional-prices'] });
+      toast.success('Promoção excluída!');
+      setDeleteId(null);
+    },
+    onError: () => {
+      toast.error('Erro ao excluir promoção');
+    },
+  });
+
+  const resetForm = () => {
+    setEditingPromotion(null);
+    setName('');
+    setDiscountType('percent');
+    setDiscountValue('');
+    setTargetType('product');
+    setProductIds([]);
+    setCategoryIds([]);
+    setVariantIds([]);
+    setStartsAt(toDateTimeLocal(new Date().toISOString()));
+    setEndsAt('');
+  };
+
+  const handleOpenForm = (promotion?: Promotion) => {
+    if (promotion) {
+      setEditingPromotion(promotion);
+      setName(promotion.name);
+      setDiscountType(promotion.discount_type);
+      setDiscountValue(promotion.discount_value);
+      setTargetType(promotion.target_type);
+      setProductIds(promotion.product_ids || []);
+      setCategoryIds(promotion.category_ids || []);
+      setVariantIds(promotion.variant_ids || []);
+      setStartsAt(toDateTimeLocal(promotion.starts_at));
+      setEndsAt(promotion.ends_at ? toDateTimeLocal(promotion.ends_at) : '');
+    } else {
+      resetForm();
+    }
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    resetForm();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error('Nome da promoção é obrigatório');
+      return;
+    }
+
+    if (discountValue === '' || Number(discountValue) <= 0) {
+      toast.error(discountType === 'percent' ? 'Informe o percentual de desconto' : 'Informe o preço promocional');
+      return;
+    }
+
+    if (discountType === 'percent' && Number(discountValue) >= 100) {
+      toast.error('O desconto deve ser menor que 100%');
+      return;
+    }
+
+    const selectedTargets = { product: productIds, category: categoryIds, variant: variantIds }[targetType];
+    if (selectedTargets.length === 0) {
+      toast.error(`Selecione ao menos um item em ${TARGET_TYPE_LABELS[targetType]}`);
+      return;
+    }
+
+    if (!startsAt) {
+      toast.error('Informe o início da promoção');
+      return;
+    }
+
+    if (endsAt && new Date(endsAt) <= new Date(startsAt)) {
+      toast.error('O fim da promoção deve ser depois do início');
+      return;
+    }
+
+    saveMutation.mutate({
+      name: name.trim(),
+      discount_type: discountType,
+      discount_value: Number(discountValue),
+      target_type: targetType,
+      product_ids: targetType === 'product' ? productIds : [],
+      category_ids: targetType === 'category' ? categoryIds : [],
+      variant_ids: targetType === 'variant' ? variantIds : [],
+      starts_at: new Date(startsAt).toISOString(),
+      ends_at: endsAt ? new Date(endsAt).toISOString() : null,
+      is_active: editingPromotion?.is_active ?? true,
+    });
+  };
+
+  const formatPrice = (price: number) => {
+    return price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+  };
+
+  const toggleTarget = (list: string[], id: string, checked: boolean) => {
+    return checked ? [...list, id] : list.filter((item) => item !== id);
+  };
+
+  const formatDiscount = (promotion: Promotion) => {
+    if (promotion.discount_type === 'fixed_price') return `Por ${formatPrice(promotion.discount_value)}`;
+    return `${promotion.discount_value}% off`;
+  };
+
+  const formatTargets = (promotion: Promotion) => {
+    const count = {
+      product: promotion.product_ids?.length,
+      category: promotion.category_ids?.length,
+      variant: promotion.variant_ids?.length,
+    }[promotion.target_type] || 0;
+    return `${count} ${TARGET_TYPE_LABELS[promotion.target_type].toLowerCase()}`;
+  };
+
+  const formatVariant = (variant: VariantOption) => {
+    const details = [variant.color, variant.model].filter(Boolean).join(' / ');
+    return `${variant.products?.name || 'Produto'}${details ? ` - ${details}` : ''}`;
+  };
+
+  const getStatus = (promotion: Promotion) => {
+    const now = new Date();
+    if (!promotion.is_active) return { label: 'Inativa', active: false };
+    if (new Date(promotion.starts_at) > now) return { label: 'Agendada', active: false };
+    if (promotion.ends_at && new Date(promotion.ends_at) <= now) return { label: 'Encerrada', active: false };
+    return { label: 'Ativa', active: true };
+  };
+
+  const formatDateTime = (iso: string) => {
+    return new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <BadgePercent className="h-8 w-8" />
+            Promoções
+          </h1>
+          <p className="text-muted-foreground">
+            Agende preços promocionais por produto, categoria ou variação
+          </p>
+        </div>
+        <Button onClick={() => handleOpenForm()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Criar Promoção
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Desconto</TableHead>
+                <TableHead>Aplicação</TableHead>
+                <TableHead>Período</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    Nenhuma promoção cadastrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                promotions.map((promotion) => {
+                  const status = getStatus(promotion);
+                  return (
+                    <TableRow key={promotion.id}>
+                      <TableCell className="font-medium">{promotion.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{formatDiscount(promotion)}</Badge>
+                      </TableCell>
+                      <TableCell>{formatTargets(promotion)}</TableCell>
+                      <TableCell className="text-sm">
+                        {formatDateTime(promotion.starts_at)}
+                        <span className="block text-xs text-muted-foreground">
+                          até {promotion.ends_at ? formatDateTime(promotion.ends_at) : 'sem data de fim'}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.active ? 'default' : 'secondary'}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => toggleMutation.mutate({ id: promotion.id, is_active: !promotion.is_active })}
+                            title={promotion.is_active ? 'Desativar' : 'Ativar'}
+                          >
+                            {promotion.is_active ? (
+                              <ToggleRight className="h-4 w-4 text-primary" />
+                            ) : (
+                              <ToggleLeft className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleOpenForm(promotion)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setDeleteId(promotion.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Form Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromotion ? 'Editar Promoção' : 'Criar Promoção'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="name">Nome *</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Black Friday"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Tipo de Desconto</Label>
+                <Select value={discountType} onValueChange={(v) => setDiscountType(v as PromotionDiscountType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DISCOUNT_TYPE_LABELS) as PromotionDiscountType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="discountValue">
+                  {discountType === 'percent' ? 'Desconto (%)' : 'Preço promocional (R$)'}
+                </Label>
+                <Input
+                  id="discountValue"
+                  type="number"
+                  value={discountValue}
+                  onChange={(e) => setDiscountValue(e.target.value === '' ? '' : Number(e.target.value))}
+                  min={0.01}
+                  max={discountType === 'percent' ? 99 : undefined}
+                  step={discountType === 'percent' ? 1 : 0.01}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Aplicar em</Label>
+              <Select value={targetType} onValueChange={(v) => setTargetType(v as PromotionTargetType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TARGET_TYPE_LABELS) as PromotionTargetType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{TARGET_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ScrollArea className="h-40 rounded-md border p-2">
+                {targetType === 'product' && targetProducts.map((product) => (
+                  <label key={product.id} className="flex items-center gap-2 py-1 text-sm">
+                    <Checkbox
+                      checked={productIds.includes(product.id)}
+                      onCheckedChange={(checked) => setProductIds(toggleTarget(productIds, product.id, !!checked))}
+                    />
+                    <span className="truncate">{product.name}</span>
+                  </label>
+                ))}
+                {targetType === 'category' && targetCategories.map((category) => (
+                  <label key={category.id} className="flex items-center gap-2 py-1 text-sm">
+                    <Checkbox
+                      checked={categoryIds.includes(category.id)}
+                      onCheckedChange={(checked) => setCategoryIds(toggleTarget(categoryIds, category.id, !!checked))}
+                    />
+                    {category.name}
+                  </label>
+                ))}
+                {targetType === 'variant' && targetVariants.map((variant) => (
+                  <label key={variant.id} className="flex items-center gap-2 py-1 text-sm">
+                    <Checkbox
+                      checked={variantIds.includes(variant.id)}
+                      onCheckedChange={(checked) => setVariantIds(toggleTarget(variantIds, variant.id, !!checked))}
+                    />
+                    <span className="truncate">{formatVariant(variant)}</span>
+                  </label>
+                ))}
+              </ScrollArea>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="startsAt">Início *</Label>
+                <Input
+                  id="startsAt"
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="endsAt">Fim (opcional)</Label>
+                <Input
+                  id="endsAt"
+                  type="datetime-local"
+                  value={endsAt}
+                  onChange={(e) => setEndsAt(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Se mais de uma promoção valer para o mesmo item, o menor preço é aplicado.
+            </p>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCloseForm}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingPromotion ? 'Salvar' : 'Criar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir promoção?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta ação não pode ser desfeita. Os preços voltam ao valor normal imediatamente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteId && deleteMutation.mutate(deleteId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Promotions;
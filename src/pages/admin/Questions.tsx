@@ -0,0 +1,511 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, X, Search, Filter, Trash2, HelpCircle, Loader2, Clock, CheckCircle, Ban, MessageSquareReply } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface Question {
+  id: string;
+  product_id: string;
+  user_id: string;
+  question: string;
+  answer: string | null;
+  status: string;
+  answered_at: string | null;
+  answer_notified_at: string | null;
+  created_at: string;
+  product?: { name: string; image: string | null };
+}
+
+const Questions = () => {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+  const [answeringQuestion, setAnsweringQuestion] = useState<Question | null>(null);
+  const [answerText, setAnswerText] = useState("");
+  const [notifyAsker, setNotifyAsker] = useState(true);
+  const [deleteQuestion, setDeleteQuestion] = useState<Question | null>(null);
+  const [page, setPage] = useState(1);
+  const pageSize = 10;
+
+  // Fetch stats for dashboard cards
+  const { data: stats } = useQuery({
+    queryKey: ["admin-questions-stats"],
+    queryFn: async () => {
+      const [pendingRes, answeredRes, rejectedRes] = await Promise.all([
+        supabase.from("product_questions").select("id", { count: "exact", head: true }).eq("status", "pending"),
+        supabase.from("product_questions").select("id", { count: "exact", head: true }).eq("status", "answered"),
+        supabase.from("product_questions").select("id", { count: "exact", head: true }).eq("status", "rejected"),
+      ]);
+      return {
+        pending: pendingRes.count || 0,
+        answered: answeredRes.count || 0,
+        rejected: rejectedRes.count || 0,
+      };
+    },
+  });
+
+  // Fetch questions with product info (oldest first while working the queue)
+  const { data: questionsData, isLoading } = useQuery({
+    queryKey: ["admin-questions", statusFilter, page],
+    queryFn: async () => {
+      let query = supabase
+        .from("product_questions")
+        .select("*, product:products(name, image)", { count: "exact" })
+        .order("created_at", { ascending: statusFilter === "pending" })
+        .range((page - 1) * pageSize, page * pageSize - 1);
+
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return { questions: data as unknown as Question[], total: count || 0 };
+    },
+  });
+
+  const questions = questionsData?.questions || [];
+  const totalPages = Math.ceil((questionsData?.total || 0) / pageSize);
+
+  // Filter by search
+  const filteredQuestions = questions.filter(question => {
+    if (!search) return true;
+    const searchLower = search.toLowerCase();
+    return (
+      question.product?.name?.toLowerCase().includes(searchLower) ||
+      question.question.toLowerCase().includes(searchLower)
+    );
+  });
+
+  const invalidateQuestions = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-questions"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-questions-stats"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-pending-counts"] });
+    queryClient.invalidateQueries({ queryKey: ["product-questions"] });
+  };
+
+  // Answer mutation (the DB trigger marks the question as answered)
+  const answerMutation = useMutation({
+    mutationFn: async ({ id, answer, notify }: { id: string; answer: string; notify: boolean }) => {
+      const { error } = await supabase
+        .from("product_questions")
+        .update({ answer })
+        .eq("id", id);
+      if (error) throw error;
+
+      if (notify) {
+        const { error: emailError } = await supabase.functions.invoke("send-question-answer-email", {
+          body: { questionId: id },
+        });
+        if (emailError) {
+          console.error("Question answer email error:", emailError);
+          toast.warning("Resposta salva, mas o email ao cliente não foi enviado");
+        }
+      }
+    },
+    onSuccess: () => {
+      invalidateQuestions();
+      setAnsweringQuestion(null);
+      toast.success("Resposta publicada!");
+    },
+    onError: () => {
+      toast.error("Erro ao salvar resposta");
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "pending" | "rejected" }) => {
+      const { error } = await supabase
+        .from("product_questions")
+        .update({ status, answer: null })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      invalidateQuestions();
+      toast.success(status === "rejected" ? "Pergunta rejeitada" : "Pergunta reaberta");
+    },
+    onError: () => {
+      toast.error("Erro ao atualizar status");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("product_questions")
+        .delete()
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateQuestions();
+      setDeleteQuestion(null);
+      toast.success("Pergunta excluída!");
+    },
+    onError: () => {
+      toast.error("Erro ao excluir pergunta");
+    },
+  });
+
+  const handleAnswer = (question: Question) => {
+    setAnsweringQuestion(question);
+    setAnswerText(question.answer || "");
+    setNotifyAsker(!question.answer_notified_at);
+  };
+
+  const handleStatusFilter = (status: string) => {
+    setStatusFilter(status);
+    setPage(1);
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return "-";
+    return formatDistanceToNow(new Date(date), {
+      addSuffix: true,
+      locale: ptBR,
+    });
+  };
+
+  const statCards = [
+    { key: "pending", label: "Sem resposta", value: stats?.pending, icon: Clock, color: "amber" },
+    { key: "answered", label: "Respondidas", value: stats?.answered, icon: CheckCircle, color: "green" },
+    { key: "rejected", label: "Rejeitadas", value: stats?.rejected, icon: Ban, color: "red" },
+  ];
+
+  const colorClasses: Record<string, string> = {
+    amber: "bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400",
+    green: "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400",
+    red: "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400",
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Perguntas</h1>
+        <p className="text-muted-foreground">
+          Responda as dúvidas dos clientes sobre os produtos
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {statCards.map(card => (
+          <Card
+            key={card.key}
+            className={`cursor-pointer transition-all hover:border-primary/50 ${statusFilter === card.key ? "border-primary ring-1 ring-primary/20" : ""}`}
+            onClick={() => handleStatusFilter(card.key)}
+          >
+            <CardContent className="p-4 flex items-center gap-4">
+              <div className={`h-12 w-12 rounded-full flex items-center justify-center ${colorClasses[card.color]}`}>
+                <card.icon className="h-6 w-6" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">{card.label}</p>
+                <p className="text-2xl font-bold">{card.value || 0}</p>
+              </div>
+              {card.key === "pending" && (stats?.pending || 0) > 0 && (
+                <Badge variant="secondary" className="ml-auto bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                  Requer ação
+                </Badge>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por produto ou pergunta..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={handleStatusFilter}>
+          <SelectTrigger className="w-full md:w-[180px]">
+            <Filter className="h-4 w-4 mr-2" />
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas</SelectItem>
+            <SelectItem value="pending">Sem resposta</SelectItem>
+            <SelectItem value="answered">Respondidas</SelectItem>
+            <SelectItem value="rejected">Rejeitadas</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Table */}
+      <div className="bg-card border border-border rounded-xl overflow-hidden">
+        {isLoading ? (
+          <div className="p-6 space-y-4">
+            {[1, 2, 3].map(i => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : filteredQuestions.length === 0 ? (
+          <div className="p-12 text-center text-muted-foreground">
+            <HelpCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>Nenhuma pergunta encontrada</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Produto</TableHead>
+                <TableHead>Pergunta</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="hidden md:table-cell">Data</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredQuestions.map(question => (
+                <TableRow key={question.id} className="group">
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      {question.product?.image && (
+                        <img
+                          src={question.product.image}
+                          alt=""
+                          className="h-10 w-10 rounded-lg object-cover"
+                        />
+                      )}
+                      <p className="font-medium line-clamp-1">
+                        {question.product?.name || "Produto removido"}
+                      </p>
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-[360px]">
+                    <p className="line-clamp-2 text-sm">{question.question}</p>
+                    {question.answer && (
+                      <p className="line-clamp-1 text-xs text-muted-foreground mt-1">
+                        ↳ {question.answer}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {question.status === "answered" ? (
+                      <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                        <Check className="h-3 w-3 mr-1" />
+                        Respondida
+                      </Badge>
+                    ) : question.status === "rejected" ? (
+                      <Badge variant="destructive">Rejeitada</Badge>
+                    ) : (
+                      <Badge variant="secondary">Sem resposta</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                    {formatDate(question.created_at)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleAnswer(question)}
+                        title={question.answer ? "Editar resposta" : "Responder"}
+                      >
+                        <MessageSquareReply className="h-4 w-4" />
+                      </Button>
+                      {question.status === "rejected" ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => statusMutation.mutate({ id: question.id, status: "pending" })}
+                          title="Reabrir"
+                        >
+                          <Clock className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => statusMutation.mutate({ id: question.id, status: "rejected" })}
+                          title="Rejeitar"
+                        >
+                          <X className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleteQuestion(question)}
+                        title="Excluir"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+          >
+            Anterior
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Página {page} de {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+          >
+            Próxima
+          </Button>
+        </div>
+      )}
+
+      {/* Answer Dialog */}
+      <Dialog open={!!answeringQuestion} onOpenChange={() => setAnsweringQuestion(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Responder Pergunta</DialogTitle>
+            <DialogDescription>
+              {answeringQuestion?.product?.name || "Produto removido"} — a pergunta fica pública na página do produto depois de respondida.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-sm whitespace-pre-line">
+              {answeringQuestion?.question}
+            </div>
+            <div>
+              <label className="text-sm font-medium">Resposta da loja</label>
+              <Textarea
+                value={answerText}
+                onChange={e => setAnswerText(e.target.value)}
+                rows={4}
+                maxLength={1000}
+                className="mt-1"
+                placeholder="Oi! Serve sim..."
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="notify-asker"
+                checked={notifyAsker}
+                onCheckedChange={checked => setNotifyAsker(checked === true)}
+              />
+              <Label htmlFor="notify-asker" className="font-normal">
+                Avisar o cliente por email
+              </Label>
+            </div>
+            {answeringQuestion?.answer_notified_at && (
+              <p className="text-xs text-muted-foreground">
+                Cliente avisado {formatDate(answeringQuestion.answer_notified_at)}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAnsweringQuestion(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() =>
+                answeringQuestion &&
+                answerMutation.mutate({ id: answeringQuestion.id, answer: answerText.trim(), notify: notifyAsker })
+              }
+              disabled={answerMutation.isPending || !answerText.trim()}
+            >
+              {answerMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Salvando...
+                </>
+              ) : (
+                "Publicar resposta"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteQuestion} onOpenChange={() => setDeleteQuestion(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir pergunta?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Essa ação não pode ser desfeita. A pergunta e a resposta serão removidas da loja.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteQuestion && deleteMutation.mutate(deleteQuestion.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Questions;
@@ -0,0 +1,493 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { RotateCcw, Filter, Loader2, Check, X, Tag, PackageCheck, Wallet, Repeat } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  RETURN_REQUEST_SELECT,
+  RETURN_STATUS_LABELS,
+  RETURN_STATUS_COLORS,
+  RETURN_REASON_LABELS,
+  RETURN_RESOLUTION_LABELS,
+  type ReturnRequest,
+  type ReturnStatus,
+} from "@/hooks/useReturns";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface Store {
+  id: string;
+  name: string;
+}
+
+const formatPrice = (price: number) =>
+  price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const getItemsTotal = (request: ReturnRequest) =>
+  request.return_request_items.reduce(
+    (sum, item) => sum + Number(item.order_items?.price || 0) * item.quantity,
+    0
+  );
+
+// Every step notifies the customer; the action itself is already saved if the email fails
+const notifyCustomer = async (returnId: string) => {
+  const { error } = await supabase.functions.invoke("send-return-email", {
+    body: { returnId },
+  });
+  if (error) {
+    console.error("Error sending return email:", error);
+    toast.warning("Status atualizado, mas o email ao cliente falhou");
+  }
+};
+
+const ReturnRequests = () => {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [adminNotes, setAdminNotes] = useState("");
+  const [storeId, setStoreId] = useState("origin");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundManual, setRefundManual] = useState(false);
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: ["admin-return-requests", statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("return_requests")
+        .select(RETURN_REQUEST_SELECT)
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      if (statusFilter === "open") {
+        query = query.in("status", ["requested", "approved", "label_generated", "received"]);
+      } else if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as unknown as ReturnRequest[];
+    },
+  });
+
+  const { data: stores = [] } = useQuery({
+    queryKey: ["stores-active"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stores")
+        .select("id, name")
+        .eq("is_active", true)
+        .order("display_order");
+      if (error) throw error;
+      return (data || []) as Store[];
+    },
+  });
+
+  const selected = requests.find((request) => request.id === selectedId) || null;
+
+  const openRequest = (request: ReturnRequest) => {
+    setSelectedId(request.id);
+    setAdminNotes(request.admin_notes || "");
+    setStoreId("origin");
+    setRefundAmount(getItemsTotal(request).toFixed(2));
+    setRefundManual(false);
+  };
+
+  const onActionSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["admin-return-requests"] });
+    toast.success(message);
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, approved }: { id: string; approved: boolean }) => {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from("return_requests")
+        .update({
+          status: approved ? "approved" : "rejected",
+          admin_notes: adminNotes.trim() || null,
+          ...(approved ? { approved_at: now } : { resolved_at: now }),
+        })
+        .eq("id", id);
+      if (error) throw error;
+      await notifyCustomer(id);
+    },
+    onSuccess: (_, { approved }) => onActionSuccess(approved ? "Solicitação aprovada!" : "Solicitação recusada"),
+    onError: (error: Error) => toast.error(error.message || "Erro ao atualizar solicitação"),
+  });
+
+  const labelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.functions.invoke("generate-sigep-label", {
+        body: { returnRequestId: id, serviceType: "PAC" },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Erro ao gerar etiqueta reversa");
+      return data;
+    },
+    onSuccess: (data) => {
+      onActionSuccess(`Código de postagem: ${data.trackingCode}`);
+      if (data.isSimulated) {
+        toast.warning(`Etiqueta simulada: ${data.errorDetails || "modo offline"}`);
+      }
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao gerar etiqueta reversa"),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("receive_return_items", {
+        p_return_id: id,
+        p_store_id: storeId === "origin" ? null : storeId,
+      });
+      if (error) throw error;
+      await notifyCustomer(id);
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["store-stock"] });
+      onActionSuccess(`Recebido! ${count} item(ns) devolvido(s) ao estoque`);
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao receber itens"),
+  });
+
+  // Items were already restocked on receipt; refund-order also closes the request and emails the customer
+  const refundMutation = useMutation({
+    mutationFn: async (request: ReturnRequest) => {
+      const amount = parseFloat(refundAmount.replace(",", "."));
+      if (isNaN(amount) || amount <= 0) {
+        throw new Error("Valor de reembolso inválido");
+      }
+      const { data, error } = await supabase.functions.invoke("refund-order", {
+        body: {
+          orderId: request.order_id,
+          amount,
+          returnRequestId: request.id,
+          reason: `Devolução #${request.id.slice(0, 8).toUpperCase()}`,
+          manual: refundManual,
+        },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Erro ao processar reembolso");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-payments"] });
+      onActionSuccess("Reembolso realizado!");
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao registrar reembolso"),
+  });
+
+  const exchangeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("create_return_replacement_order", {
+        p_return_id: id,
+      });
+      if (error) throw error;
+      await notifyCustomer(id);
+      return data;
+    },
+    onSuccess: (orderId) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-orders"] });
+      onActionSuccess(`Pedido da troca criado: #${String(orderId).slice(0, 8).toUpperCase()}`);
+    },
+    onError: (error: Error) => toast.error(error.message || "Erro ao criar pedido da troca"),
+  });
+
+  const isBusy =
+    reviewMutation.isPending ||
+    labelMutation.isPending ||
+    receiveMutation.isPending ||
+    refundMutation.isPending ||
+    exchangeMutation.isPending;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Trocas e Devoluções</h1>
+          <p className="text-muted-foreground">
+            Analise as solicitações, gere o código de postagem e conclua com reembolso ou troca
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-full md:w-[200px]">
+            <Filter className="h-4 w-4 mr-2" />
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Em andamento</SelectItem>
+            <SelectItem value="all">Todas</SelectItem>
+            {(Object.keys(RETURN_STATUS_LABELS) as ReturnStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {RETURN_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Table */}
+      <div className="bg-card border border-border rounded-xl overflow-hidden">
+        {isLoading ? (
+          <div className="p-6 space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="p-12 text-center text-muted-foreground">
+            <RotateCcw className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>Nenhuma solicitação encontrada</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pedido</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead className="hidden md:table-cell">Motivo</TableHead>
+                <TableHead className="hidden md:table-cell">Itens</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="hidden md:table-cell">Data</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow
+                  key={request.id}
+                  className="cursor-pointer"
+                  onClick={() => openRequest(request)}
+                >
+                  <TableCell className="font-mono text-sm">
+                    #{request.order_id.slice(0, 8).toUpperCase()}
+                  </TableCell>
+                  <TableCell>{RETURN_RESOLUTION_LABELS[request.resolution]}</TableCell>
+                  <TableCell className="hidden md:table-cell text-sm">
+                    {RETURN_REASON_LABELS[request.reason]}
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell text-sm">
+                    {request.return_request_items.reduce((sum, item) => sum + item.quantity, 0)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={RETURN_STATUS_COLORS[request.status]}>
+                      {RETURN_STATUS_LABELS[request.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                    {format(new Date(request.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Details / actions */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {RETURN_RESOLUTION_LABELS[selected.resolution]} #{selected.id.slice(0, 8).toUpperCase()}
+                  <Badge className={RETURN_STATUS_COLORS[selected.status]}>
+                    {RETURN_STATUS_LABELS[selected.status]}
+                  </Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  Pedido #{selected.order_id.slice(0, 8).toUpperCase()} · {RETURN_REASON_LABELS[selected.reason]}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 py-2">
+                <div className="space-y-2">
+                  {selected.return_request_items.map((item) => (
+                    <div key={item.id} className="flex justify-between text-sm">
+                      <span>
+                        {item.order_items?.product_name} × {item.quantity}
+                        {item.exchange_variant && (
+                          <span className="text-muted-foreground">
+                            {" "}→ {[item.exchange_variant.color, item.exchange_variant.model].filter(Boolean).join(" / ")}
+                          </span>
+                        )}
+                      </span>
+                      <span>{formatPrice(Number(item.order_items?.price || 0) * item.quantity)}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {selected.comments && (
+                  <div className="text-sm bg-muted/50 rounded-lg p-3">
+                    <p className="font-medium mb-1">Comentário do cliente</p>
+                    <p className="text-muted-foreground whitespace-pre-line">{selected.comments}</p>
+                  </div>
+                )}
+
+                {selected.reverse_tracking_code && (
+                  <p className="text-sm">
+                    Código de postagem: <span className="font-mono font-medium">{selected.reverse_tracking_code}</span>
+                  </p>
+                )}
+                {selected.refund_amount != null && (
+                  <p className="text-sm">Reembolsado: {formatPrice(Number(selected.refund_amount))}</p>
+                )}
+                {selected.replacement_order_id && (
+                  <p className="text-sm">
+                    Pedido da troca: <span className="font-mono">#{selected.replacement_order_id.slice(0, 8).toUpperCase()}</span>
+                  </p>
+                )}
+
+                <Separator />
+
+                {selected.status === "requested" && (
+                  <div className="space-y-2">
+                    <Label>Observações para o cliente</Label>
+                    <Textarea
+                      value={adminNotes}
+                      onChange={(e) => setAdminNotes(e.target.value)}
+                      rows={3}
+                      placeholder="Obrigatório ao recusar. Enviado no email ao cliente."
+                    />
+                  </div>
+                )}
+
+                {["approved", "label_generated"].includes(selected.status) && (
+                  <div className="space-y-2">
+                    <Label>Devolver ao estoque da loja</Label>
+                    <Select value={storeId} onValueChange={setStoreId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="origin">Loja de origem do pedido</SelectItem>
+                        {stores.map((store) => (
+                          <SelectItem key={store.id} value={store.id}>
+                            {store.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {selected.status === "received" && selected.resolution === "refund" && (
+                  <div className="space-y-2">
+                    <Label>Valor reembolsado (R$)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      O valor é estornado pelo gateway em que o pedido foi pago.
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="return-refund-manual"
+                        checked={refundManual}
+                        onCheckedChange={(checked) => setRefundManual(checked === true)}
+                      />
+                      <Label htmlFor="return-refund-manual" className="font-normal">
+                        Apenas registrar estorno feito fora do gateway
+                      </Label>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter className="gap-2 sm:gap-0">
+                {selected.status === "requested" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      disabled={isBusy}
+                      onClick={() => {
+                        if (!adminNotes.trim()) {
+                          toast.error("Informe o motivo da recusa");
+                          return;
+                        }
+                        reviewMutation.mutate({ id: selected.id, approved: false });
+                      }}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Recusar
+                    </Button>
+                    <Button disabled={isBusy} onClick={() => reviewMutation.mutate({ id: selected.id, approved: true })}>
+                      {reviewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                      Aprovar
+                    </Button>
+                  </>
+                )}
+
+                {["approved", "label_generated"].includes(selected.status) && (
+                  <>
+                    <Button variant="outline" disabled={isBusy} onClick={() => labelMutation.mutate(selected.id)}>
+                      {labelMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Tag className="h-4 w-4 mr-2" />}
+                      {selected.status === "approved" ? "Gerar código de postagem" : "Gerar novo código"}
+                    </Button>
+                    <Button disabled={isBusy} onClick={() => receiveMutation.mutate(selected.id)}>
+                      {receiveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PackageCheck className="h-4 w-4 mr-2" />}
+                      Marcar como recebido
+                    </Button>
+                  </>
+                )}
+
+                {selected.status === "received" && selected.resolution === "refund" && (
+                  <Button disabled={isBusy} onClick={() => refundMutation.mutate(selected)}>
+                    {refundMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wallet className="h-4 w-4 mr-2" />}
+                    Registrar reembolso
+                  </Button>
+                )}
+
+                {selected.status === "received" && selected.resolution === "exchange" && (
+                  <Button disabled={isBusy} onClick={() => exchangeMutation.mutate(selected.id)}>
+                    {exchangeMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Repeat className="h-4 w-4 mr-2" />}
+                    Criar pedido da troca
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReturnRequests;
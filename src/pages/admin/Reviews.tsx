@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Star, Check, X, Search, Filter, Edit2, Trash2, MessageSquare, Loader2, Clock, CheckCircle, AlertCircle } from "lucide-react";
+import { Star, Check, X, Search, Filter, Edit2, Trash2, MessageSquare, Loader2, Clock, CheckCircle, AlertCircle, Camera, ThumbsUp, MessageSquareReply } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { signReviewPhotos } from "@/lib/reviewPhotos";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
@@ -11,6 +13,8 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import {
   Table,
   TableBody,
@@ -46,6 +50,21 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 
+interface ReviewPhoto {
+  id: string;
+  url?: string;
+  status: string;
+  storage_path: string;
+}
+
+interface ReplyHistoryEntry {
+  id: string;
+  action: string;
+  created_at: string;
+  previous_state: { reply?: string } | null;
+  new_state: { reply?: string } | null;
+}
+
 interface Review {
   id: string;
   product_id: string;
@@ -58,11 +77,18 @@ interface Review {
   created_at: string | null;
   updated_at: string | null;
   order_id: string | null;
+  verified_purchase: boolean;
+  helpful_count: number;
+  store_reply: string | null;
+  store_reply_at: string | null;
+  store_reply_notified_at: string | null;
   product?: { name: string; image: string | null };
+  photos: ReviewPhoto[];
 }
 
 const Reviews = () => {
   const queryClient = useQueryClient();
+  const { user, isAdmin } = useAuth();
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [ratingFilter, setRatingFilter] = useState<string>("all");
@@ -70,6 +96,10 @@ const Reviews = () => {
   const [editComment, setEditComment] = useState("");
   const [adminNote, setAdminNote] = useState("");
   const [deleteReview, setDeleteReview] = useState<Review | null>(null);
+  const [photosReview, setPhotosReview] = useState<Review | null>(null);
+  const [replyingReview, setReplyingReview] = useState<Review | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [notifyReviewer, setNotifyReviewer] = useState(true);
   const [page, setPage] = useState(1);
   const pageSize = 10;
 
@@ -77,15 +107,17 @@ const Reviews = () => {
   const { data: stats } = useQuery({
     queryKey: ["admin-reviews-stats"],
     queryFn: async () => {
-      const [pendingRes, approvedRes, lowRatingRes] = await Promise.all([
+      const [pendingRes, approvedRes, lowRatingRes, pendingPhotosRes] = await Promise.all([
         supabase.from("product_reviews").select("id", { count: "exact", head: true }).eq("approved", false),
         supabase.from("product_reviews").select("id", { count: "exact", head: true }).eq("approved", true),
         supabase.from("product_reviews").select("id", { count: "exact", head: true }).lte("rating", 2),
+        supabase.from("review_photos").select("id", { count: "exact", head: true }).eq("status", "pending"),
       ]);
       return {
         pending: pendingRes.count || 0,
         approved: approvedRes.count || 0,
         lowRating: lowRatingRes.count || 0,
+        pendingPhotos: pendingPhotosRes.count || 0,
       };
     },
   });
@@ -94,9 +126,14 @@ const Reviews = () => {
   const { data: reviewsData, isLoading } = useQuery({
     queryKey: ["admin-reviews", statusFilter, ratingFilter, page],
     queryFn: async () => {
+      // "photos" lists only reviews with photos awaiting moderation
+      const photosSelect = statusFilter === "photos"
+        ? "photos:review_photos!inner(id, status, storage_path)"
+        : "photos:review_photos(id, status, storage_path)";
+
       let query = supabase
         .from("product_reviews")
-        .select("*, product:products(name, image)", { count: "exact" })
+        .select(`*, product:products(name, image), ${photosSelect}`, { count: "exact" })
         .order("created_at", { ascending: false })
         .range((page - 1) * pageSize, page * pageSize - 1);
 
@@ -104,6 +141,8 @@ const Reviews = () => {
         query = query.eq("approved", true);
       } else if (statusFilter === "pending") {
         query = query.eq("approved", false);
+      } else if (statusFilter === "photos") {
+        query = query.eq("photos.status", "pending");
       }
 
       if (ratingFilter !== "all") {
@@ -112,7 +151,19 @@ const Reviews = () => {
 
       const { data, error, count } = await query;
       if (error) throw error;
-      return { reviews: data as Review[], total: count || 0 };
+
+      // Private bucket: pending photos are reviewed through signed URLs
+      const reviews = data as unknown as Review[];
+      const signedPhotos = new Map(
+        (await signReviewPhotos(reviews.flatMap(review => review.photos))).map(photo => [photo.id, photo.url])
+      );
+      return {
+        reviews: reviews.map(review => ({
+          ...review,
+          photos: review.photos.map(photo => ({ ...photo, url: signedPhotos.get(photo.id) })),
+        })),
+        total: count || 0,
+      };
     },
   });
 
@@ -140,6 +191,7 @@ const Reviews = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-pending-counts"] });
       toast.success("Status atualizado!");
     },
     onError: () => {
@@ -147,6 +199,111 @@ const Reviews = () => {
     },
   });
 
+  // Reply history (audit_logs is admin-only)
+  const { data: replyHistory = [] } = useQuery({
+    queryKey: ["admin-review-reply-history", replyingReview?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("audit_logs")
+        .select("id, action, created_at, previous_state, new_state")
+        .eq("entity_type", "review_reply")
+        .eq("entity_id", replyingReview!.id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as unknown as ReplyHistoryEntry[];
+    },
+    enabled: !!replyingReview && isAdmin,
+  });
+
+  // Store reply mutation
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, reply, notify }: { id: string; reply: string | null; notify: boolean }) => {
+      const { error } = await supabase
+        .from("product_reviews")
+        .update({ store_reply: reply })
+        .eq("id", id);
+      if (error) throw error;
+
+      if (reply && notify) {
+        const { error: emailError } = await supabase.functions.invoke("send-review-reply-email", {
+          body: { reviewId: id },
+        });
+        if (emailError) {
+          console.error("Review reply email error:", emailError);
+          toast.warning("Resposta salva, mas o email ao cliente não foi enviado");
+        }
+      }
+    },
+    onSuccess: (_, { reply }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-review-reply-history"] });
+      setReplyingReview(null);
+      toast.success(reply ? "Resposta publicada!" : "Resposta removida");
+    },
+    onError: () => {
+      toast.error("Erro ao salvar resposta");
+    },
+  });
+
+  const handleReply = (review: Review) => {
+    setReplyingReview(review);
+    setReplyText(review.store_reply || "");
+    setNotifyReviewer(true);
+  };
+
+  // Photo moderation
+  const moderatePhotoMutation = useMutation({
+    mutationFn: async ({ photo, status }: { photo: ReviewPhoto; status: "approved" | "rejected" }) => {
+      const { error } = await supabase
+        .from("review_photos")
+        .update({
+          status,
+          moderated_at: new Date().toISOString(),
+          moderated_by: user?.id ?? null,
+        })
+        .eq("id", photo.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { photo, status }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews-stats"] });
+      setPhotosReview(prev =>
+        prev && {
+          ...prev,
+          photos: prev.photos.map(p => (p.id === photo.id ? { ...p, status } : p)),
+        }
+      );
+      toast.success(status === "approved" ? "Foto aprovada!" : "Foto reprovada");
+    },
+    onError: () => {
+      toast.error("Erro ao moderar foto");
+    },
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: async (photo: ReviewPhoto) => {
+      const { error: storageError } = await supabase.storage
+        .from("review-photos")
+        .remove([photo.storage_path]);
+      if (storageError) throw storageError;
+
+      const { error } = await supabase
+        .from("review_photos")
+        .delete()
+        .eq("id", photo.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, photo) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews-stats"] });
+      setPhotosReview(prev => prev && { ...prev, photos: prev.photos.filter(p => p.id !== photo.id) });
+      toast.success("Foto excluída!");
+    },
+    onError: () => {
+      toast.error("Erro ao excluir foto");
+    },
+  });
+
   // Edit mutation
   const editMutation = useMutation({
     mutationFn: async ({
@@ -189,6 +346,7 @@ const Reviews = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-pending-counts"] });
       setDeleteReview(null);
       toast.success("Avaliação excluída!");
     },
@@ -231,7 +389,7 @@ const Reviews = () => {
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
         <Card 
           className={`cursor-pointer transition-all hover:border-primary/50 ${statusFilter === "pending" ? "border-primary ring-1 ring-primary/20" : ""}`}
           onClick={() => setStatusFilter("pending")}
@@ -281,6 +439,21 @@ const Reviews = () => {
             </div>
           </CardContent>
         </Card>
+
+        <Card 
+          className={`cursor-pointer transition-all hover:border-primary/50 ${statusFilter === "photos" ? "border-primary ring-1 ring-primary/20" : ""}`}
+          onClick={() => setStatusFilter("photos")}
+        >
+          <CardContent className="p-4 flex items-center gap-4">
+            <div className="h-12 w-12 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+              <Camera className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Fotos Pendentes</p>
+              <p className="text-2xl font-bold">{stats?.pendingPhotos || 0}</p>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Filters */}
@@ -303,6 +476,7 @@ const Reviews = () => {
             <SelectItem value="all">Todos</SelectItem>
             <SelectItem value="approved">Aprovadas</SelectItem>
             <SelectItem value="pending">Pendentes</SelectItem>
+            <SelectItem value="photos">Fotos pendentes</SelectItem>
           </SelectContent>
         </Select>
         <Select value={ratingFilter} onValueChange={setRatingFilter}>
@@ -362,11 +536,39 @@ const Reviews = () => {
                         <p className="font-medium line-clamp-1">
                           {review.product?.name || "Produto removido"}
                         </p>
-                        {review.admin_edited && (
-                          <Badge variant="outline" className="text-xs">
-                            Editado
-                          </Badge>
-                        )}
+                        <div className="flex flex-wrap gap-1">
+                          {review.admin_edited && (
+                            <Badge variant="outline" className="text-xs">
+                              Editado
+                            </Badge>
+                          )}
+                          {review.store_reply && (
+                            <Badge variant="outline" className="text-xs gap-1">
+                              <MessageSquareReply className="h-3 w-3" />
+                              Respondida
+                            </Badge>
+                          )}
+                          {review.verified_purchase && (
+                            <Badge variant="outline" className="text-xs text-primary border-primary/30">
+                              Compra verificada
+                            </Badge>
+                          )}
+                          {review.photos.length > 0 && (
+                            <Badge
+                              variant="outline"
+                              className={`text-xs gap-1 ${review.photos.some(p => p.status === "pending") ? "border-amber-300 text-amber-700 dark:text-amber-400" : ""}`}
+                            >
+                              <Camera className="h-3 w-3" />
+                              {review.photos.length}
+                            </Badge>
+                          )}
+                          {review.helpful_count > 0 && (
+                            <Badge variant="outline" className="text-xs gap-1">
+                              <ThumbsUp className="h-3 w-3" />
+                              {review.helpful_count}
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                     </div>
                   </TableCell>
@@ -433,6 +635,24 @@ const Reviews = () => {
                           <Check className="h-4 w-4 text-green-600" />
                         </Button>
                       )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleReply(review)}
+                        title="Responder"
+                      >
+                        <MessageSquareReply className="h-4 w-4" />
+                      </Button>
+                      {review.photos.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setPhotosReview(review)}
+                          title="Moderar fotos"
+                        >
+                          <Camera className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
@@ -533,6 +753,188 @@ const Reviews = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Store Reply Dialog */}
+      <Dialog open={!!replyingReview} onOpenChange={() => setReplyingReview(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Responder Avaliação</DialogTitle>
+            <DialogDescription>
+              A resposta aparece publicamente abaixo da avaliação, como resposta oficial da loja.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-sm">
+              <div className="flex items-center gap-1 mb-1">
+                {[1, 2, 3, 4, 5].map(star => (
+                  <Star
+                    key={star}
+                    className={`h-3 w-3 ${
+                      star <= (replyingReview?.rating || 0) ? "fill-accent text-accent" : "text-muted"
+                    }`}
+                  />
+                ))}
+              </div>
+              <p className="text-muted-foreground">
+                {replyingReview?.comment || <span className="italic">Sem comentário</span>}
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Resposta da loja</label>
+              <Textarea
+                value={replyText}
+                onChange={e => setReplyText(e.target.value)}
+                rows={4}
+                maxLength={1000}
+                className="mt-1"
+                placeholder="Oi! Obrigado pela avaliação..."
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="notify-reviewer"
+                checked={notifyReviewer}
+                onCheckedChange={checked => setNotifyReviewer(checked === true)}
+              />
+              <Label htmlFor="notify-reviewer" className="font-normal">
+                Avisar o cliente por email
+              </Label>
+            </div>
+            {replyingReview?.store_reply_notified_at && (
+              <p className="text-xs text-muted-foreground">
+                Cliente avisado {formatDate(replyingReview.store_reply_notified_at)}
+              </p>
+            )}
+            {isAdmin && replyHistory.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Histórico</p>
+                <div className="max-h-40 overflow-y-auto space-y-2">
+                  {replyHistory.map(entry => (
+                    <div key={entry.id} className="text-xs border-l-2 border-border pl-2">
+                      <p className="text-muted-foreground">
+                        {entry.action === "create" ? "Publicada" : entry.action === "delete" ? "Removida" : "Editada"}{" "}
+                        {formatDate(entry.created_at)}
+                      </p>
+                      {(entry.new_state?.reply || entry.previous_state?.reply) && (
+                        <p className={`line-clamp-2 ${entry.action === "delete" ? "line-through text-muted-foreground" : ""}`}>
+                          {entry.new_state?.reply || entry.previous_state?.reply}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            {replyingReview?.store_reply && (
+              <Button
+                variant="ghost"
+                className="text-destructive sm:mr-auto"
+                disabled={replyMutation.isPending}
+                onClick={() => replyMutation.mutate({ id: replyingReview.id, reply: null, notify: false })}
+              >
+                Remover resposta
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setReplyingReview(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() =>
+                replyingReview &&
+                replyMutation.mutate({ id: replyingReview.id, reply: replyText.trim(), notify: notifyReviewer })
+              }
+              disabled={replyMutation.isPending || !replyText.trim()}
+            >
+              {replyMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Salvando...
+                </>
+              ) : (
+                "Publicar resposta"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Photo Moderation Dialog */}
+      <Dialog open={!!photosReview} onOpenChange={() => setPhotosReview(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Fotos da Avaliação</DialogTitle>
+            <DialogDescription>
+              {photosReview?.product?.name || "Produto removido"} — só fotos aprovadas aparecem na loja.
+            </DialogDescription>
+          </DialogHeader>
+          {photosReview && photosReview.photos.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Nenhuma foto nesta avaliação</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 py-4">
+              {photosReview?.photos.map(photo => (
+                <div key={photo.id} className="space-y-2">
+                  <a href={photo.url} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={photo.url}
+                      alt=""
+                      className="aspect-square w-full rounded-lg object-cover border border-border"
+                    />
+                  </a>
+                  <div className="flex items-center justify-between gap-1">
+                    {photo.status === "approved" ? (
+                      <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                        Aprovada
+                      </Badge>
+                    ) : photo.status === "rejected" ? (
+                      <Badge variant="destructive">Reprovada</Badge>
+                    ) : (
+                      <Badge variant="secondary">Pendente</Badge>
+                    )}
+                    <div className="flex">
+                      {photo.status !== "approved" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          disabled={moderatePhotoMutation.isPending}
+                          onClick={() => moderatePhotoMutation.mutate({ photo, status: "approved" })}
+                          title="Aprovar"
+                        >
+                          <Check className="h-4 w-4 text-green-600" />
+                        </Button>
+                      )}
+                      {photo.status !== "rejected" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          disabled={moderatePhotoMutation.isPending}
+                          onClick={() => moderatePhotoMutation.mutate({ photo, status: "rejected" })}
+                          title="Reprovar"
+                        >
+                          <X className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={deletePhotoMutation.isPending}
+                        onClick={() => deletePhotoMutation.mutate(photo)}
+                        title="Excluir"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteReview} onOpenChange={() => setDeleteReview(null)}>
         <AlertDialogContent>
@@ -31,7 +31,7 @@ const DEFAULT_ROADMAP = `# Roadmap Cali Brasil - v1.0
   - Rastreamento de encomendas
 
 ### Pagamentos
-- [ ] **Parcelamento no Cartão** - Opção de parcelamento em até 12x
+- [x] **Parcelamento no Cartão** - Faixas de parcelamento, parcelas sem juros e juros configuráveis (até 12x)
 - [ ] **Cupons de Desconto** - Sistema de cupons promocionais
 
 ### Marketing e Engajamento
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Loader2, Shield, User, UserCog, Plus, Truck, Store, Bug } from 'lucide-react';
+import { Loader2, Shield, User, UserCog, Plus, Truck, Store, Bug, Award } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -15,6 +15,9 @@ import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
 import { UserDetailsDialog } from '@/components/admin/UserDetailsDialog';
+import type { PaymentGatewayName } from '@/hooks/useStoreSettings';
+import type { Json } from '@/integrations/supabase/types';
+import { DEFAULT_INSTALLMENT_BANDS, parseInstallmentBands, type InstallmentBand } from '@/lib/installments';
 
 interface UserWithRole {
   user_id: string;
@@ -39,11 +42,28 @@ interface StoreSettings {
   shipping_mode: 'correios' | 'free' | 'fixed';
   store_pickup_enabled: boolean;
   store_pickup_address: string | null;
+  card_gateway: PaymentGatewayName;
+  pix_gateway: PaymentGatewayName;
+  boleto_gateway: PaymentGatewayName;
+  installment_bands: Json;
+  max_installments: number;
+  interest_free_installments: number;
+  installment_interest_rate: number;
   notify_orders: boolean;
   notify_low_stock: boolean;
   notify_messages: boolean;
   notify_abandoned_cart: boolean;
+  abandoned_cart_steps: number[];
+  abandoned_cart_coupon_enabled: boolean;
+  abandoned_cart_coupon_percent: number;
+  abandoned_cart_coupon_valid_days: number;
   diagnostic_test_email: string;
+  loyalty_enabled: boolean;
+  loyalty_points_per_real: number;
+  loyalty_point_value: number;
+  loyalty_accrual_trigger: 'delivered' | 'paid';
+  loyalty_min_redeem_points: number;
+  loyalty_max_redeem_percent: number;
 }
 
 const ROLE_CONFIG = {
@@ -58,6 +78,43 @@ const SHIPPING_MODE_OPTIONS = [
   { value: 'fixed', label: '💰 Taxa Fixa', description: 'Usar valor fixo configurado' },
 ];
 
+const PAYMENT_GATEWAY_OPTIONS: { value: PaymentGatewayName; label: string }[] = [
+  { value: 'stripe', label: 'Stripe' },
+  { value: 'mercadopago', label: 'Mercado Pago' },
+  { value: 'pagseguro', label: 'PagSeguro' },
+];
+
+const PAYMENT_METHOD_GATEWAYS = [
+  { key: 'card_gateway', label: 'Cartão de crédito' },
+  { key: 'pix_gateway', label: 'Pix' },
+  { key: 'boleto_gateway', label: 'Boleto' },
+] as const;
+
+// "1, 24, 72" -> [1, 24, 72]; hours since the last cart activity, strictly increasing
+const parseAbandonedCartSteps = (value: string): number[] | null => {
+  const steps = value.split(',').map((part) => Number(part.trim()));
+  if (steps.length < 1 || steps.length > 5) return null;
+  if (steps.some((step, i) => !Number.isInteger(step) || step <= 0 || (i > 0 && step <= steps[i - 1]))) return null;
+  return steps;
+};
+
+// "0:1, 100:3, 200:6" -> bands of minimum order total and installments; starts at 0, totals increasing
+const parseInstallmentBandsInput = (value: string): InstallmentBand[] | null => {
+  const bands = value.split(',').map((part) => {
+    const [minTotal, installments] = part.split(':').map((piece) => Number(piece.trim().replace(/x$/i, '')));
+    return { min_total: minTotal, installments };
+  });
+  if (bands.length < 1 || bands.length > 10 || bands[0].min_total !== 0) return null;
+  if (bands.some((band, i) =>
+    !Number.isFinite(band.min_total) || band.min_total < 0 || (i > 0 && band.min_total <= bands[i - 1].min_total) ||
+    !Number.isInteger(band.installments) || band.installments < 1 || band.installments > 12
+  )) return null;
+  return bands;
+};
+
+const formatInstallmentBands = (bands: InstallmentBand[]) =>
+  bands.map((band) => `${band.min_total}:${band.installments}`).join(', ');
+
 const Settings = () => {
   const { isAdmin } = useAuth();
   const queryClient = useQueryClient();
@@ -76,6 +133,8 @@ const Settings = () => {
 
   // Store settings state
   const [settings, setSettings] = useState<StoreSettings | null>(null);
+  const [abandonedCartStepsInput, setAbandonedCartStepsInput] = useState('1, 24, 72');
+  const [installmentBandsInput, setInstallmentBandsInput] = useState(formatInstallmentBands(DEFAULT_INSTALLMENT_BANDS));
 
   // Fetch users with roles
   const { data: users = [], isLoading: loadingUsers } = useQuery({
@@ -125,6 +184,8 @@ const Settings = () => {
   useEffect(() => {
     if (storeSettings) {
       setSettings(storeSettings);
+      setAbandonedCartStepsInput((storeSettings.abandoned_cart_steps || [1, 24, 72]).join(', '));
+      setInstallmentBandsInput(formatInstallmentBands(parseInstallmentBands(storeSettings.installment_bands)));
     }
   }, [storeSettings]);
 
@@ -217,6 +278,18 @@ const Settings = () => {
 
   const handleSave = () => {
     if (!settings) return;
+
+    const abandonedCartSteps = parseAbandonedCartSteps(abandonedCartStepsInput);
+    if (!abandonedCartSteps) {
+      toast.error('Sequência de carrinho abandonado inválida: use de 1 a 5 intervalos em horas, em ordem crescente');
+      return;
+    }
+
+    const installmentBands = parseInstallmentBandsInput(installmentBandsInput);
+    if (!installmentBands) {
+      toast.error('Faixas de parcelamento inválidas: use "valor mínimo:parcelas", começando em 0, com valores crescentes e de 1 a 12 parcelas');
+      return;
+    }
     
     saveSettingsMutation.mutate({
       store_name: settings.store_name,
@@ -231,11 +304,28 @@ const Settings = () => {
       shipping_mode: settings.shipping_mode,
       store_pickup_enabled: settings.store_pickup_enabled,
       store_pickup_address: settings.store_pickup_address,
+      card_gateway: settings.card_gateway,
+      pix_gateway: settings.pix_gateway,
+      boleto_gateway: settings.boleto_gateway,
+      installment_bands: installmentBands,
+      max_installments: settings.max_installments,
+      interest_free_installments: settings.interest_free_installments,
+      installment_interest_rate: settings.installment_interest_rate,
       notify_orders: settings.notify_orders,
       notify_low_stock: settings.notify_low_stock,
       notify_messages: settings.notify_messages,
       notify_abandoned_cart: settings.notify_abandoned_cart,
+      abandoned_cart_steps: abandonedCartSteps,
+      abandoned_cart_coupon_enabled: settings.abandoned_cart_coupon_enabled,
+      abandoned_cart_coupon_percent: settings.abandoned_cart_coupon_percent,
+      abandoned_cart_coupon_valid_days: settings.abandoned_cart_coupon_valid_days,
       diagnostic_test_email: settings.diagnostic_test_email,
+      loyalty_enabled: settings.loyalty_enabled,
+      loyalty_points_per_real: settings.loyalty_points_per_real,
+      loyalty_point_value: settings.loyalty_point_value,
+      loyalty_accrual_trigger: settings.loyalty_accrual_trigger,
+      loyalty_min_redeem_points: settings.loyalty_min_redeem_points,
+      loyalty_max_redeem_percent: settings.loyalty_max_redeem_percent,
     });
   };
 
@@ -506,6 +596,59 @@ const Settings = () => {
               onCheckedChange={(checked) => updateSetting('notify_abandoned_cart', checked)}
             />
           </div>
+          {settings?.notify_abandoned_cart && (
+            <div className="space-y-4 rounded-lg border p-4">
+              <div>
+                <Label htmlFor="abandonedCartSteps">Sequência de e-mails (horas)</Label>
+                <Input
+                  id="abandonedCartSteps"
+                  value={abandonedCartStepsInput}
+                  onChange={(e) => setAbandonedCartStepsInput(e.target.value)}
+                  placeholder="1, 24, 72"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Horas após a última atividade no carrinho para cada e-mail (até 5). Carrinhos de visitantes são capturados pelo e-mail do checkout.
+                </p>
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">Cupom no último e-mail</p>
+                  <p className="text-sm text-muted-foreground">
+                    Gera um cupom de uso único, aplicado pelo link de recuperação
+                  </p>
+                </div>
+                <Switch
+                  checked={settings?.abandoned_cart_coupon_enabled ?? false}
+                  onCheckedChange={(checked) => updateSetting('abandoned_cart_coupon_enabled', checked)}
+                />
+              </div>
+              {settings?.abandoned_cart_coupon_enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="abandonedCartCouponPercent">Desconto do cupom (%)</Label>
+                    <Input
+                      id="abandonedCartCouponPercent"
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={settings?.abandoned_cart_coupon_percent ?? 10}
+                      onChange={(e) => updateSetting('abandoned_cart_coupon_percent', Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="abandonedCartCouponDays">Validade do cupom (dias)</Label>
+                    <Input
+                      id="abandonedCartCouponDays"
+                      type="number"
+                      min={1}
+                      value={settings?.abandoned_cart_coupon_valid_days ?? 3}
+                      onChange={(e) => updateSetting('abandoned_cart_coupon_valid_days', Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -534,10 +677,92 @@ const Settings = () => {
               />
             </div>
           </div>
-          <div className="p-4 bg-muted rounded-lg">
-            <p className="text-sm text-muted-foreground">
-              <strong className="text-primary">Gateway de Pagamento:</strong> Stripe e Mercado Pago estão configurados.
+          <div>
+            <Label className="text-base font-medium">Gateway por Forma de Pagamento</Label>
+            <p className="text-sm text-muted-foreground mb-3">
+              Escolha qual gateway processa cada forma de pagamento no checkout
             </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {PAYMENT_METHOD_GATEWAYS.map(({ key, label }) => (
+                <div key={key}>
+                  <Label htmlFor={key}>{label}</Label>
+                  <Select
+                    value={settings?.[key] || 'stripe'}
+                    onValueChange={(v: PaymentGatewayName) => updateSetting(key, v)}
+                  >
+                    <SelectTrigger id={key} className="w-full mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_GATEWAY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Pix pelo Mercado Pago é pago na própria página do checkout; os demais abrem a página do gateway.
+            </p>
+          </div>
+          <div>
+            <Label className="text-base font-medium">Parcelamento no Cartão</Label>
+            <p className="text-sm text-muted-foreground mb-3">
+              Parcelas oferecidas por faixa de valor do pedido, exibidas nos produtos e no checkout
+            </p>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="installmentBands">Faixas de parcelamento (valor mínimo:parcelas)</Label>
+                <Input
+                  id="installmentBands"
+                  value={installmentBandsInput}
+                  onChange={(e) => setInstallmentBandsInput(e.target.value)}
+                  placeholder="0:1, 100:3, 200:6"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Ex.: "0:1, 100:3, 200:6" — pedidos a partir de R$ 100 em até 3x e a partir de R$ 200 em até 6x
+                </p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="maxInstallments">Máximo de parcelas</Label>
+                  <Input
+                    id="maxInstallments"
+                    type="number"
+                    min="1"
+                    max="12"
+                    value={settings?.max_installments ?? 12}
+                    onChange={(e) => updateSetting('max_installments', Number(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="interestFreeInstallments">Parcelas sem juros</Label>
+                  <Input
+                    id="interestFreeInstallments"
+                    type="number"
+                    min="1"
+                    max="12"
+                    value={settings?.interest_free_installments ?? 6}
+                    onChange={(e) => updateSetting('interest_free_installments', Number(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="installmentInterestRate">Juros acima disso (% ao mês)</Label>
+                  <Input
+                    id="installmentInterestRate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={settings?.installment_interest_rate ?? 1.99}
+                    onChange={(e) => updateSetting('installment_interest_rate', Number(e.target.value))}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                O gateway de cartão é quem cobra os juros. Só o PagSeguro recebe as parcelas sem juros no checkout; com Stripe ou Mercado Pago a loja não anuncia "sem juros" e vale a configuração da conta do gateway.
+              </p>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -678,6 +903,111 @@ const Settings = () => {
         </CardContent>
       </Card>
 
+      {/* Loyalty Program */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5" />
+            Programa de Fidelidade
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="font-medium">Ativar programa de pontos</p>
+              <p className="text-sm text-muted-foreground">
+                Clientes cadastrados acumulam pontos e podem usá-los como desconto no checkout
+              </p>
+            </div>
+            <Switch
+              checked={settings?.loyalty_enabled ?? false}
+              onCheckedChange={(checked) => updateSetting('loyalty_enabled', checked)}
+            />
+          </div>
+
+          {settings?.loyalty_enabled && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="loyaltyPointsPerReal">Pontos por R$ 1,00 gasto</Label>
+                  <Input
+                    id="loyaltyPointsPerReal"
+                    type="number"
+                    step="0.1"
+                    min={0}
+                    value={settings?.loyalty_points_per_real ?? 1}
+                    onChange={(e) => updateSetting('loyalty_points_per_real', Number(e.target.value))}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Calculado sobre o valor dos produtos, sem o frete
+                  </p>
+                </div>
+                <div>
+                  <Label htmlFor="loyaltyPointValue">Valor de cada ponto (R$)</Label>
+                  <Input
+                    id="loyaltyPointValue"
+                    type="number"
+                    step="0.01"
+                    min={0.01}
+                    value={settings?.loyalty_point_value ?? 0.05}
+                    onChange={(e) => updateSetting('loyalty_point_value', Number(e.target.value))}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Desconto concedido por ponto no resgate
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-base font-medium">Quando creditar os pontos</Label>
+                <Select
+                  value={settings?.loyalty_accrual_trigger || 'delivered'}
+                  onValueChange={(v: 'delivered' | 'paid') => updateSetting('loyalty_accrual_trigger', v)}
+                >
+                  <SelectTrigger className="w-full mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="delivered">Quando o pedido for entregue</SelectItem>
+                    <SelectItem value="paid">Quando o pagamento for aprovado</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Pontos de pedidos reembolsados são estornados automaticamente
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="loyaltyMinRedeem">Resgate mínimo (pontos)</Label>
+                  <Input
+                    id="loyaltyMinRedeem"
+                    type="number"
+                    min={0}
+                    value={settings?.loyalty_min_redeem_points ?? 100}
+                    onChange={(e) => updateSetting('loyalty_min_redeem_points', Number(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="loyaltyMaxPercent">Desconto máximo por pedido (%)</Label>
+                  <Input
+                    id="loyaltyMaxPercent"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={settings?.loyalty_max_redeem_percent ?? 50}
+                    onChange={(e) => updateSetting('loyalty_max_redeem_percent', Number(e.target.value))}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Percentual do valor dos produtos que pode ser pago com pontos
+                  </p>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* System / Diagnostic Settings */}
       <Card>
         <CardHeader>
@@ -130,7 +130,7 @@ const ShippingLabels = () => {
 
   // Generate label mutation
   const generateLabelMutation = useMutation({
-    mutationFn: async ({ orderId, serviceType, weight, offline = false }: { orderId: string; serviceType: 'PAC' | 'SEDEX'; weight: number; offline?: boolean }) => {
+    mutationFn: async ({ orderId, serviceType, weight, offline = false }: { orderId: string; serviceType: 'PAC' | 'SEDEX'; weight?: number; offline?: boolean }) => {
       const { data, error } = await supabase.functions.invoke('generate-sigep-label', {
         body: { orderId, serviceType, weight, declaredValue: undefined, offline },
       });
@@ -182,7 +182,7 @@ const ShippingLabels = () => {
   });
 
   const handleGenerateLabel = (orderId: string, offline = false) => {
-    generateLabelMutation.mutate({ orderId, serviceType, weight: 0.5, offline });
+    generateLabelMutation.mutate({ orderId, serviceType, offline });
   };
 
   const handleSelectOrder = (orderId: string, checked: boolean) => {
@@ -15,6 +15,10 @@ export interface Product {
   in_stock: boolean | null;
   featured: boolean | null;
   rating: number | null;
+  weight_grams: number | null;
+  height_cm: number | null;
+  width_cm: number | null;
+  length_cm: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,68 @@
+// Shared Correios API access (token + base URL) for calculate-shipping and sync-tracking.
+// CORREIOS_API_URL can point to a local mock (see scripts/correios-mock.ts) for testing.
+
+interface CorreiosAuthResponse {
+  ambiente: string;
+  id: string;
+  token: string;
+  expiraEm: string;
+}
+
+export const CORREIOS_API_URL = (Deno.env.get("CORREIOS_API_URL") || "https://api.correios.com.br").replace(/\/$/, "");
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[CORREIOS] ${step}${detailsStr}`);
+};
+
+// Token cache
+let cachedToken: { token: string; expiraEm: Date } | null = null;
+
+export async function getCorreiosToken(): Promise<string> {
+  // Check if cached token is still valid (with 5 min buffer)
+  if (cachedToken && new Date(cachedToken.expiraEm.getTime() - 5 * 60 * 1000) > new Date()) {
+    logStep("Using cached Correios token");
+    return cachedToken.token;
+  }
+
+  const usuario = Deno.env.get("CORREIOS_USUARIO");
+  const senha = Deno.env.get("CORREIOS_SENHA_API");
+  const cartaoPostagem = Deno.env.get("CORREIOS_CARTAO_POSTAGEM");
+
+  if (!usuario || !senha || !cartaoPostagem) {
+    throw new Error("Credenciais dos Correios não configuradas");
+  }
+
+  logStep("Authenticating with Correios API");
+
+  const authString = btoa(`${usuario}:${senha}`);
+
+  const response = await fetch(
+    `${CORREIOS_API_URL}/token/v1/autentica/cartaopostagem`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Basic ${authString}`,
+      },
+      body: JSON.stringify({ numero: cartaoPostagem }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logStep("Correios auth failed", { status: response.status, error: errorText });
+    throw new Error(`Erro na autenticação dos Correios: ${response.status}`);
+  }
+
+  const authData: CorreiosAuthResponse = await response.json();
+
+  // Cache the token
+  cachedToken = {
+    token: authData.token,
+    expiraEm: new Date(authData.expiraEm),
+  };
+
+  logStep("Correios auth successful", { expiraEm: authData.expiraEm });
+  return authData.token;
+}
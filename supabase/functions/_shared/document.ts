@@ -0,0 +1,60 @@
+// Shared CPF/CNPJ validation for the checkout functions (create-order,
+// create-checkout-session, create-mercadopago-checkout). Same check-digit
+// algorithm as src/lib/validators.ts, so the client and server agree.
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, "");
+
+export function isValidCPF(value: string): boolean {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  for (const length of [9, 10]) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(cpf[i]) * (length + 1 - i);
+    }
+    const digit = (sum * 10) % 11 % 10;
+    if (digit !== Number(cpf[length])) return false;
+  }
+  return true;
+}
+
+export function isValidCNPJ(value: string): boolean {
+  const cnpj = onlyDigits(value);
+  if (cnpj.length !== 14 || /^(\d)\1{13}$/.test(cnpj)) return false;
+
+  for (const length of [12, 13]) {
+    let sum = 0;
+    let weight = length - 7;
+    for (let i = 0; i < length; i++) {
+      sum += Number(cnpj[i]) * weight;
+      weight = weight === 2 ? 9 : weight - 1;
+    }
+    const remainder = sum % 11;
+    const digit = remainder < 2 ? 0 : 11 - remainder;
+    if (digit !== Number(cnpj[length])) return false;
+  }
+  return true;
+}
+
+export const isValidDocument = (value: string) =>
+  onlyDigits(value).length === 14 ? isValidCNPJ(value) : isValidCPF(value);
+
+export const documentType = (document: string): "CPF" | "CNPJ" =>
+  onlyDigits(document).length === 14 ? "CNPJ" : "CPF";
+
+// 000.000.000-00 / 00.000.000/0000-00 (format expected by Stripe tax ids)
+export function formatDocument(document: string): string {
+  const digits = onlyDigits(document);
+  return digits.length === 14
+    ? digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5")
+    : digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4");
+}
+
+// Accepts masked or plain input; the parsed value is digits only (as stored on orders)
+export const DocumentSchema = z
+  .string({ required_error: "CPF/CNPJ é obrigatório" })
+  .max(18, "CPF/CNPJ inválido")
+  .refine(isValidDocument, "CPF/CNPJ inválido")
+  .transform(onlyDigits);
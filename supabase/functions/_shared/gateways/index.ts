@@ -0,0 +1,36 @@
+// Payment gateway registry. store_settings.<method>_gateway picks the gateway used
+// for each payment method (card_gateway, pix_gateway, boleto_gateway).
+import { mercadoPagoGateway } from "./mercadopago.ts";
+import { pagSeguroGateway } from "./pagseguro.ts";
+import { stripeGateway } from "./stripe.ts";
+import type { GatewayName, GatewayPaymentMethod, PaymentGateway } from "./types.ts";
+
+export * from "./types.ts";
+
+const GATEWAYS: Record<GatewayName, PaymentGateway> = {
+  stripe: stripeGateway,
+  mercadopago: mercadoPagoGateway,
+  pagseguro: pagSeguroGateway,
+};
+
+// Used when store_settings has no value for the method
+export const DEFAULT_GATEWAYS: Record<GatewayPaymentMethod, GatewayName> = {
+  card: "stripe",
+  pix: "mercadopago",
+  boleto: "mercadopago",
+};
+
+export const isGatewayName = (value: unknown): value is GatewayName =>
+  typeof value === "string" && Object.hasOwn(GATEWAYS, value);
+
+export function getPaymentGateway(name: GatewayName): PaymentGateway {
+  return GATEWAYS[name];
+}
+
+export function resolveMethodGateway(
+  settings: Partial<Record<`${GatewayPaymentMethod}_gateway`, string | null>> | null,
+  method: GatewayPaymentMethod,
+): GatewayName {
+  const configured = settings?.[`${method}_gateway`];
+  return isGatewayName(configured) ? configured : DEFAULT_GATEWAYS[method];
+}
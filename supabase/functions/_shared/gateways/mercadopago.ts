@@ -0,0 +1,304 @@
+// Mercado Pago adapter: Checkout Pro preferences, in-page Pix charges, IPN
+// notifications verified against the payments API, refunds. MERCADOPAGO_API_URL can point to a local
+// mock (see scripts/mercadopago-mock.ts) for testing.
+import { documentType } from "../document.ts";
+import {
+  discountTotal,
+  spreadDiscount,
+  toCents,
+  type GatewayPaymentMethod,
+  type GatewayStatus,
+  type PaymentGateway,
+} from "./types.ts";
+
+export const MERCADOPAGO_API_URL = (Deno.env.get("MERCADOPAGO_API_URL") || "https://api.mercadopago.com").replace(/\/$/, "");
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[MERCADOPAGO] ${step}${detailsStr}`);
+};
+
+function getToken(): string {
+  const token = Deno.env.get("MERCADOPAGO_ACCESS_TOKEN");
+  if (!token) throw new Error("Mercado Pago credentials not configured");
+  return token;
+}
+
+// Payment types hidden on the checkout page for each method
+const ALL_PAYMENT_TYPES = ["credit_card", "debit_card", "ticket", "bank_transfer", "atm"];
+const PAYMENT_TYPES: Record<GatewayPaymentMethod, string[]> = {
+  card: ["credit_card", "debit_card"],
+  pix: ["bank_transfer"],
+  boleto: ["ticket", "atm"],
+};
+
+// Mercado Pago expects date_of_expiration with an explicit offset (Brasília time)
+const toMercadoPagoDate = (date: Date) =>
+  new Date(date.getTime() - 3 * 3600 * 1000).toISOString().replace("Z", "-03:00");
+
+// payment_type_id -> orders.payment_method
+const METHOD_MAP: Record<string, GatewayPaymentMethod> = {
+  credit_card: "card",
+  debit_card: "card",
+  pix: "pix",
+  bank_transfer: "pix",
+  ticket: "boleto",
+  atm: "boleto",
+};
+
+export const mercadoPagoGateway: PaymentGateway = {
+  name: "mercadopago",
+  paymentColumn: "mercadopago_payment_id",
+
+  async createCheckout(input) {
+    const cleanPhone = (input.customer.phone || "").replace(/\D/g, "");
+
+    const payer: Record<string, unknown> = {
+      name: input.customer.firstName,
+      surname: input.customer.lastName,
+      email: input.customer.email,
+      phone: {
+        area_code: cleanPhone.substring(0, 2) || "11",
+        number: cleanPhone.substring(2) || "999999999",
+      },
+      // Required by Pix and boleto (bolbradesco)
+      identification: {
+        type: documentType(input.customer.document),
+        number: input.customer.document,
+      },
+    };
+
+    // Checkout Pro rejects negative unit prices: discounts go into the item prices
+    const items = spreadDiscount(input.items, discountTotal(input.discounts));
+
+    const preference: Record<string, unknown> = {
+      items: items.map((item) => ({
+        id: item.id,
+        title: item.title.substring(0, 256),
+        description: (item.description || item.title).substring(0, 256),
+        picture_url: item.imageUrl || undefined,
+        quantity: item.quantity,
+        unit_price: Number(item.unitPrice),
+        currency_id: "BRL",
+      })),
+      payer,
+      back_urls: {
+        success: input.successUrl,
+        failure: input.cancelUrl,
+        pending: input.pendingUrl || input.successUrl,
+      },
+      auto_return: "approved",
+      external_reference: input.orderId,
+      notification_url: input.notificationUrl,
+      statement_descriptor: "CALIBRASIL",
+      payment_methods: {
+        excluded_payment_types: input.method
+          ? ALL_PAYMENT_TYPES.filter((type) => !PAYMENT_TYPES[input.method!].includes(type)).map((id) => ({ id }))
+          : [],
+        excluded_payment_methods: [],
+        // Interest-free installments are set up in the Mercado Pago account
+        installments: input.maxInstallments || 1,
+        default_installments: 1,
+      },
+      expires: true,
+      expiration_date_from: new Date().toISOString(),
+      expiration_date_to: input.expiresAt.toISOString(),
+    };
+
+    if (input.address) {
+      payer.address = {
+        street_name: input.address.street,
+        street_number: parseInt(input.address.number) || 1,
+        zip_code: input.address.zip.replace(/\D/g, ""),
+      };
+      preference.shipments = {
+        receiver_address: {
+          street_name: input.address.street,
+          street_number: parseInt(input.address.number) || 1,
+          zip_code: input.address.zip.replace(/\D/g, ""),
+          city_name: input.address.city || "",
+          state_name: input.address.state || "",
+        },
+      };
+    }
+
+    logStep("Creating preference", { reference: input.orderId, method: input.method, installments: input.maxInstallments });
+
+    const response = await fetch(`${MERCADOPAGO_API_URL}/checkout/preferences`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${getToken()}`,
+      },
+      body: JSON.stringify(preference),
+    });
+
+    const responseText = await response.text();
+    let data;
+    try {
+      data = responseText ? JSON.parse(responseText) : {};
+    } catch {
+      logStep("Failed to parse preference response", { status: response.status, responseText });
+      throw new Error(`Erro na resposta do Mercado Pago: ${responseText || "Resposta vazia"}`);
+    }
+
+    if (!response.ok) {
+      logStep("Preference error", { status: response.status, error: data });
+      throw new Error(data.message || "Erro ao criar checkout Mercado Pago");
+    }
+
+    // init_point for production, sandbox_init_point for test credentials
+    return { id: data.id, url: data.init_point || data.sandbox_init_point };
+  },
+
+  async verifyWebhook(req) {
+    // IPN notifications come as query params or JSON body
+    const url = new URL(req.url);
+    const topic = url.searchParams.get("topic") || url.searchParams.get("type");
+    const resourceId = url.searchParams.get("id") || url.searchParams.get("data.id");
+
+    let body: { type?: string; action?: string; data?: { id?: string | number } } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // No JSON body, using query params
+    }
+
+    const notificationType = topic || body.type || body.action;
+    const dataId = resourceId || body.data?.id;
+    logStep("Notification received", { type: notificationType, id: dataId });
+
+    if (!notificationType || !["payment", "payment.created", "payment.updated"].includes(notificationType) || !dataId) {
+      return null;
+    }
+
+    // SECURITY: The notification is not signed; trust only what the payments API says
+    const response = await fetch(`${MERCADOPAGO_API_URL}/v1/payments/${dataId}`, {
+      headers: {
+        "Authorization": `Bearer ${getToken()}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logStep("Failed to verify payment", { status: response.status, error: errorText });
+      throw new Error(`Failed to verify payment with Mercado Pago: ${response.status}`);
+    }
+
+    const payment = await response.json();
+    logStep("Payment verified", {
+      status: payment.status,
+      external_reference: payment.external_reference,
+      status_detail: payment.status_detail,
+    });
+
+    return {
+      // The same payment notifies when created (pending) and again when approved
+      id: `${dataId}:${payment.status}`,
+      type: notificationType,
+      orderId: payment.external_reference || null,
+      paymentId: String(dataId),
+      status: payment.status,
+      statusDetail: payment.status_detail || null,
+      paymentMethod: METHOD_MAP[payment.payment_type_id] || null,
+    };
+  },
+
+  mapStatus(status): GatewayStatus {
+    switch (status) {
+      case "approved":
+        return { paymentStatus: "paid", orderStatus: "processing" };
+      case "pending":
+      case "in_process":
+      case "authorized":
+        return { paymentStatus: "awaiting_payment", orderStatus: "awaiting_payment" };
+      case "rejected":
+      case "cancelled":
+        return { paymentStatus: "failed", orderStatus: "cancelled" };
+      case "refunded":
+      case "charged_back":
+        return { paymentStatus: "refunded", orderStatus: "cancelled" };
+      case "in_mediation":
+        return { paymentStatus: "disputed", orderStatus: "processing" };
+      default:
+        return { paymentStatus: "pending", orderStatus: "pending" };
+    }
+  },
+
+  async refund({ paymentId, amount, idempotencyKey }) {
+    if (!paymentId) {
+      throw new Error("Pagamento Mercado Pago não encontrado para este pedido");
+    }
+
+    const response = await fetch(`${MERCADOPAGO_API_URL}/v1/payments/${paymentId}/refunds`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${getToken()}`,
+        "Content-Type": "application/json",
+        "X-Idempotency-Key": idempotencyKey,
+      },
+      body: JSON.stringify({ amount: toCents(amount) / 100 }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      logStep("Refund failed", { status: response.status, error: data?.message });
+      throw new Error(`Mercado Pago recusou o reembolso: ${data?.message || response.status}`);
+    }
+
+    logStep("Refund created", { refundId: data.id, status: data.status });
+    return { refundId: String(data.id), status: data.status === "approved" ? "succeeded" : "pending" };
+  },
+
+  async createPixCharge(input) {
+    const payer: Record<string, unknown> = {
+      email: input.payer.email,
+      first_name: input.payer.firstName || undefined,
+      last_name: input.payer.lastName || undefined,
+    };
+    if (input.payer.document) {
+      payer.identification = { type: documentType(input.payer.document), number: input.payer.document };
+    }
+
+    const response = await fetch(`${MERCADOPAGO_API_URL}/v1/payments`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${getToken()}`,
+        "Content-Type": "application/json",
+        // One charge per order: a retry after a timeout returns the same payment
+        "X-Idempotency-Key": `pix-${input.orderId}`,
+      },
+      body: JSON.stringify({
+        transaction_amount: Math.round(input.amount * 100) / 100,
+        description: input.description,
+        payment_method_id: "pix",
+        payer,
+        external_reference: input.orderId,
+        notification_url: input.notificationUrl,
+        date_of_expiration: toMercadoPagoDate(input.expiresAt),
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Mercado Pago recusou a cobrança Pix: ${data?.message || response.status}`);
+    }
+
+    const transactionData = data.point_of_interaction?.transaction_data;
+    if (!transactionData?.qr_code) {
+      throw new Error("Mercado Pago não retornou o QR code do Pix");
+    }
+
+    logStep("Pix charge created", { paymentId: data.id, reference: input.orderId });
+
+    return {
+      id: String(data.id),
+      paymentId: String(data.id),
+      status: data.status,
+      qrCode: transactionData.qr_code,
+      qrCodeBase64: transactionData.qr_code_base64 || null,
+      expiresAt: data.date_of_expiration ? new Date(data.date_of_expiration).toISOString() : input.expiresAt.toISOString(),
+    };
+  },
+};
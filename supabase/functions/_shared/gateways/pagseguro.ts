@@ -0,0 +1,300 @@
+// PagSeguro (PagBank) adapter: hosted checkout (Checkout API), in-page Pix charges
+// (Orders API), order notifications signed with x-authenticity-token, refunds by
+// cancelling the charge.
+// PAGSEGURO_API_URL switches to the sandbox (https://sandbox.api.pagseguro.com).
+import { onlyDigits } from "../document.ts";
+import {
+  discountTotal,
+  SHIPPING_LINE_ID,
+  toCents,
+  WebhookVerificationError,
+  type GatewayPaymentMethod,
+  type GatewayStatus,
+  type PaymentGateway,
+} from "./types.ts";
+
+export const PAGSEGURO_API_URL = (Deno.env.get("PAGSEGURO_API_URL") || "https://api.pagseguro.com").replace(/\/$/, "");
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[PAGSEGURO] ${step}${detailsStr}`);
+};
+
+function getToken(): string {
+  const token = Deno.env.get("PAGSEGURO_TOKEN");
+  if (!token) throw new Error("PagSeguro credentials not configured");
+  return token;
+}
+
+const PAYMENT_TYPES: Record<GatewayPaymentMethod, string> = {
+  card: "CREDIT_CARD",
+  pix: "PIX",
+  boleto: "BOLETO",
+};
+
+// charges[].payment_method.type -> orders.payment_method
+const METHOD_MAP: Record<string, GatewayPaymentMethod> = {
+  CREDIT_CARD: "card",
+  DEBIT_CARD: "card",
+  PIX: "pix",
+  BOLETO: "boleto",
+};
+
+// PagBank expects dates with an explicit offset (Brasília time)
+const toPagSeguroDate = (date: Date) =>
+  new Date(date.getTime() - 3 * 3600 * 1000).toISOString().replace(/\.\d{3}Z$/, "-03:00");
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+interface PagSeguroCharge {
+  id: string;
+  status: string;
+  payment_method?: { type?: string };
+  payment_response?: { message?: string };
+}
+
+interface PagSeguroQrCode {
+  id: string;
+  text: string;
+  expiration_date?: string;
+  links?: Array<{ rel: string; href: string }>;
+}
+
+interface PagSeguroOrder {
+  id: string;
+  reference_id?: string;
+  charges?: PagSeguroCharge[];
+}
+
+export const pagSeguroGateway: PaymentGateway = {
+  name: "pagseguro",
+  paymentColumn: "pagseguro_transaction_id",
+
+  async createCheckout(input) {
+    const phone = onlyDigits(input.customer.phone || "").replace(/^55(?=\d{10,11}$)/, "");
+    const methods = input.method ? [input.method] : (["card", "pix", "boleto"] as GatewayPaymentMethod[]);
+
+    // Discounts go to discount_amount, shipping to shipping.amount
+    const shippingLine = input.items.find((item) => item.id === SHIPPING_LINE_ID);
+    const productLines = input.items.filter((item) => item !== shippingLine);
+    const discount = toCents(discountTotal(input.discounts));
+
+    const checkout: Record<string, unknown> = {
+      reference_id: input.orderId,
+      expiration_date: toPagSeguroDate(input.expiresAt),
+      customer: {
+        name: `${input.customer.firstName} ${input.customer.lastName}`.trim(),
+        email: input.customer.email,
+        tax_id: onlyDigits(input.customer.document),
+        phone: phone.length >= 10
+          ? { country: "+55", area: phone.substring(0, 2), number: phone.substring(2) }
+          : undefined,
+      },
+      customer_modifiable: false,
+      items: productLines.map((item) => ({
+        reference_id: item.id,
+        name: item.title.substring(0, 100),
+        description: item.description?.substring(0, 255),
+        image_url: item.imageUrl || undefined,
+        quantity: item.quantity,
+        unit_amount: toCents(item.unitPrice),
+      })),
+      discount_amount: discount || undefined,
+      payment_methods: methods.map((method) => ({ type: PAYMENT_TYPES[method] })),
+      redirect_url: input.successUrl,
+      return_url: input.cancelUrl,
+      notification_urls: [input.notificationUrl],
+      payment_notification_urls: [input.notificationUrl],
+    };
+
+    if (methods.includes("card")) {
+      checkout.payment_methods_configs = [{
+        type: "CREDIT_CARD",
+        config_options: [
+          { option: "INSTALLMENTS_LIMIT", value: String(input.maxInstallments || 1) },
+          { option: "INTEREST_FREE_INSTALLMENTS", value: String(input.interestFreeInstallments || 1) },
+        ],
+      }];
+    }
+
+    if (input.address) {
+      checkout.shipping = {
+        type: "FIXED",
+        amount: shippingLine ? toCents(shippingLine.unitPrice) : 0,
+        address_modifiable: false,
+        address: {
+          street: input.address.street,
+          number: input.address.number || "S/N",
+          complement: input.address.complement || undefined,
+          locality: input.address.neighborhood || "",
+          city: input.address.city || "",
+          region_code: input.address.state || "",
+          country: "BRA",
+          postal_code: onlyDigits(input.address.zip),
+        },
+      };
+    }
+
+    logStep("Creating checkout", { reference: input.orderId, methods, installments: input.maxInstallments, interestFree: input.interestFreeInstallments });
+
+    const response = await fetch(`${PAGSEGURO_API_URL}/checkouts`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${getToken()}`,
+        "Content-Type": "application/json",
+        "x-idempotency-key": `checkout-${input.orderId}`,
+      },
+      body: JSON.stringify(checkout),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      logStep("Checkout error", { status: response.status, error: data?.error_messages });
+      throw new Error(`PagSeguro recusou o checkout: ${data?.error_messages?.[0]?.description || response.status}`);
+    }
+
+    const payLink = (data.links as Array<{ rel: string; href: string }> | undefined)?.find((link) => link.rel === "PAY");
+    if (!payLink) {
+      throw new Error("PagSeguro não retornou o link de pagamento");
+    }
+
+    return { id: data.id, url: payLink.href };
+  },
+
+  async verifyWebhook(req) {
+    const rawBody = await req.text();
+
+    // SECURITY: x-authenticity-token = sha256("<token>-<payload>")
+    const signature = req.headers.get("x-authenticity-token");
+    if (!signature) {
+      throw new WebhookVerificationError("Missing authenticity token");
+    }
+    const expected = await sha256Hex(`${getToken()}-${rawBody}`);
+    if (signature.toLowerCase() !== expected) {
+      throw new WebhookVerificationError("Invalid authenticity token");
+    }
+
+    let order: PagSeguroOrder;
+    try {
+      order = JSON.parse(rawBody);
+    } catch {
+      throw new WebhookVerificationError("Invalid payload");
+    }
+
+    // Checkout notifications (created/expired) carry no charge yet
+    const charge = order.charges?.[0];
+    logStep("Notification verified", { order: order.id, reference: order.reference_id, charge: charge?.id, status: charge?.status });
+    if (!charge) return null;
+
+    return {
+      // One event per charge and status (PagBank retries the same notification)
+      id: `${charge.id}:${charge.status}`,
+      type: "order",
+      orderId: order.reference_id || null,
+      paymentId: charge.id,
+      status: charge.status,
+      statusDetail: charge.payment_response?.message || null,
+      paymentMethod: METHOD_MAP[charge.payment_method?.type || ""] || null,
+    };
+  },
+
+  mapStatus(status): GatewayStatus {
+    switch (status) {
+      case "PAID":
+        return { paymentStatus: "paid", orderStatus: "processing" };
+      case "WAITING":
+      case "IN_ANALYSIS":
+      case "AUTHORIZED":
+        return { paymentStatus: "awaiting_payment", orderStatus: "awaiting_payment" };
+      // CANCELED on a paid charge is a refund; pagseguro-webhook tells them apart
+      case "DECLINED":
+      case "CANCELED":
+        return { paymentStatus: "failed", orderStatus: "cancelled" };
+      default:
+        return { paymentStatus: "pending", orderStatus: "pending" };
+    }
+  },
+
+  async refund({ paymentId, amount, idempotencyKey }) {
+    if (!paymentId) {
+      throw new Error("Pagamento PagSeguro não encontrado para este pedido");
+    }
+
+    const response = await fetch(`${PAGSEGURO_API_URL}/charges/${paymentId}/cancel`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${getToken()}`,
+        "Content-Type": "application/json",
+        "x-idempotency-key": idempotencyKey,
+      },
+      body: JSON.stringify({ amount: { value: toCents(amount) } }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const message = data?.error_messages?.[0]?.description || response.status;
+      logStep("Refund failed", { status: response.status, error: data?.error_messages });
+      throw new Error(`PagSeguro recusou o reembolso: ${message}`);
+    }
+
+    logStep("Refund created", { chargeId: data.id, status: data.status });
+    // The cancellation of a card charge is immediate; Pix devolutions settle later
+    return { refundId: data.id ? String(data.id) : null, status: data.status === "CANCELED" ? "succeeded" : "pending" };
+  },
+
+  async createPixCharge(input) {
+    if (!input.payer.document) {
+      throw new Error("CPF/CNPJ é obrigatório para o Pix no PagSeguro");
+    }
+
+    const amount = toCents(input.amount);
+    const response = await fetch(`${PAGSEGURO_API_URL}/orders`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${getToken()}`,
+        "Content-Type": "application/json",
+        // One charge per order: a retry after a timeout returns the same order
+        "x-idempotency-key": `pix-${input.orderId}`,
+      },
+      body: JSON.stringify({
+        reference_id: input.orderId,
+        customer: {
+          name: [input.payer.firstName, input.payer.lastName].filter(Boolean).join(" ") || input.payer.email,
+          email: input.payer.email,
+          tax_id: onlyDigits(input.payer.document),
+        },
+        items: [{ reference_id: input.orderId, name: input.description.substring(0, 100), quantity: 1, unit_amount: amount }],
+        qr_codes: [{ amount: { value: amount }, expiration_date: toPagSeguroDate(input.expiresAt) }],
+        notification_urls: [input.notificationUrl],
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      logStep("Pix charge error", { status: response.status, error: data?.error_messages });
+      throw new Error(`PagSeguro recusou a cobrança Pix: ${data?.error_messages?.[0]?.description || response.status}`);
+    }
+
+    const qrCode = (data.qr_codes as PagSeguroQrCode[] | undefined)?.[0];
+    if (!qrCode?.text) {
+      throw new Error("PagSeguro não retornou o QR code do Pix");
+    }
+
+    logStep("Pix charge created", { order: data.id, qrCode: qrCode.id, reference: input.orderId });
+
+    // The charge (pagseguro_transaction_id) only exists once the QR code is paid
+    return {
+      id: qrCode.id,
+      paymentId: null,
+      status: "WAITING",
+      qrCode: qrCode.text,
+      qrCodeBase64: null,
+      expiresAt: qrCode.expiration_date ? new Date(qrCode.expiration_date).toISOString() : input.expiresAt.toISOString(),
+    };
+  },
+};
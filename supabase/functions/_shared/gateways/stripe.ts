@@ -0,0 +1,257 @@
+// Stripe adapter: Checkout Sessions, signed webhooks (STRIPE_WEBHOOK_SECRET),
+// refunds by payment intent.
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { documentType, formatDocument } from "../document.ts";
+import {
+  discountTotal,
+  toCents,
+  WebhookVerificationError,
+  type GatewayPaymentMethod,
+  type GatewayStatus,
+  type PaymentGateway,
+} from "./types.ts";
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[STRIPE] ${step}${detailsStr}`);
+};
+
+function getStripe(): Stripe {
+  const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!stripeKey) throw new Error("Stripe secret key not configured");
+  return new Stripe(stripeKey, { apiVersion: "2023-10-16" });
+}
+
+const MINIMUM_AMOUNTS: Record<GatewayPaymentMethod, number> = {
+  boleto: 5.00,
+  pix: 0.50,
+  card: 0.50,
+};
+
+const METHOD_LABELS: Record<GatewayPaymentMethod, string> = {
+  boleto: "Boleto",
+  pix: "Pix",
+  card: "Cartão",
+};
+
+const paymentIntentIdOf = (paymentIntent: string | Stripe.PaymentIntent | null) =>
+  typeof paymentIntent === "string" ? paymentIntent : paymentIntent?.id ?? null;
+
+export const stripeGateway: PaymentGateway = {
+  name: "stripe",
+  paymentColumn: "stripe_payment_intent_id",
+
+  async createCheckout(input) {
+    const method = input.method || "card";
+    const minAmount = MINIMUM_AMOUNTS[method];
+    if (input.total < minAmount) {
+      throw new Error(`O valor mínimo para ${METHOD_LABELS[method]} é R$ ${minAmount.toFixed(2).replace('.', ',')}`);
+    }
+
+    const stripe = getStripe();
+
+    const sessionParams: Stripe.Checkout.SessionCreateParams = {
+      payment_method_types: [method],
+      line_items: input.items.map((item) => ({
+        price_data: {
+          currency: "brl",
+          product_data: {
+            name: item.title,
+            images: item.imageUrl ? [item.imageUrl] : undefined,
+          },
+          unit_amount: toCents(item.unitPrice),
+        },
+        quantity: item.quantity,
+      })),
+      mode: "payment",
+      success_url: `${input.successUrl}&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: input.cancelUrl,
+      customer_email: input.customer.email,
+      metadata: { order_id: input.orderId, ...input.metadata },
+      // Lets refund-order find the payment of orders without a stored payment intent
+      payment_intent_data: {
+        metadata: { order_id: input.orderId },
+      },
+      locale: "pt-BR",
+    };
+
+    // Pix and boleto need the payer's CPF/CNPJ: attach it through a customer tax id
+    if (method === "pix" || method === "boleto") {
+      const customer = await stripe.customers.create({
+        email: input.customer.email,
+        name: `${input.customer.firstName} ${input.customer.lastName}`,
+        phone: input.customer.phone || undefined,
+        tax_id_data: [{
+          type: documentType(input.customer.document) === "CNPJ" ? "br_cnpj" : "br_cpf",
+          value: formatDocument(input.customer.document),
+        }],
+        metadata: { order_id: input.orderId },
+      });
+      sessionParams.customer = customer.id;
+      delete sessionParams.customer_email;
+    }
+
+    if (method === "boleto") {
+      sessionParams.payment_method_options = {
+        boleto: {
+          expires_after_days: 3,
+        },
+      };
+    } else if (method === "card" && (input.maxInstallments || 1) > 1) {
+      sessionParams.payment_method_options = {
+        card: {
+          installments: { enabled: true },
+        },
+      };
+    }
+
+    // Negative unit_amount is not allowed: the discounts become a one-off coupon
+    const discount = toCents(discountTotal(input.discounts));
+    if (discount > 0) {
+      const coupon = await stripe.coupons.create({
+        amount_off: discount,
+        currency: "brl",
+        duration: "once",
+        max_redemptions: 1,
+        name: input.discounts!.map((entry) => entry.title).join(" + ").substring(0, 40),
+        metadata: { order_id: input.orderId },
+      });
+      sessionParams.discounts = [{ coupon: coupon.id }];
+    }
+
+    const session = await stripe.checkout.sessions.create(sessionParams);
+    logStep("Session created", { sessionId: session.id, reference: input.orderId, method });
+
+    return { id: session.id, url: session.url! };
+  },
+
+  async verifyWebhook(req) {
+    const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+    if (!webhookSecret) {
+      throw new Error("STRIPE_WEBHOOK_SECRET is not configured");
+    }
+
+    // SECURITY: Always require webhook signature verification
+    const signature = req.headers.get("stripe-signature");
+    if (!signature) {
+      throw new WebhookVerificationError("Missing webhook signature");
+    }
+
+    const stripe = getStripe();
+    const body = await req.text();
+
+    let event: Stripe.Event;
+    try {
+      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
+    } catch (err) {
+      logStep("Webhook signature verification failed", { error: err instanceof Error ? err.message : String(err) });
+      throw new WebhookVerificationError("Invalid signature");
+    }
+
+    logStep("Event verified", { id: event.id, type: event.type });
+    const base = { id: event.id, type: event.type, paymentMethod: null };
+
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+      case "checkout.session.async_payment_failed":
+      case "checkout.session.expired": {
+        const session = event.data.object as Stripe.Checkout.Session;
+        // For async payment methods (boleto, pix) a completed session is still "unpaid"
+        const status = {
+          "checkout.session.completed": session.payment_status === "paid" ? "paid" : "unpaid",
+          "checkout.session.async_payment_succeeded": "paid",
+          "checkout.session.async_payment_failed": "async_payment_failed",
+          "checkout.session.expired": "session_expired",
+        }[event.type];
+        return {
+          ...base,
+          orderId: session.metadata?.order_id || null,
+          paymentId: paymentIntentIdOf(session.payment_intent),
+          status,
+        };
+      }
+
+      case "payment_intent.payment_failed": {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+        return {
+          ...base,
+          orderId: paymentIntent.metadata?.order_id || null,
+          paymentId: paymentIntent.id,
+          status: "payment_failed",
+        };
+      }
+
+      case "charge.refunded": {
+        const charge = event.data.object as Stripe.Charge;
+        // Partial refunds keep the order (and its points) as is
+        if (!charge.refunded || !charge.payment_intent) return null;
+
+        // The order id lives in the Checkout Session metadata
+        const paymentIntentId = paymentIntentIdOf(charge.payment_intent);
+        const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId!, limit: 1 });
+        return {
+          ...base,
+          orderId: sessions.data[0]?.metadata?.order_id || null,
+          paymentId: paymentIntentId,
+          status: "refunded",
+        };
+      }
+
+      default:
+        return null;
+    }
+  },
+
+  mapStatus(status): GatewayStatus {
+    switch (status) {
+      case "paid":
+        return { paymentStatus: "paid", orderStatus: "confirmed" };
+      case "unpaid":
+        return { paymentStatus: "awaiting_payment", orderStatus: "awaiting_payment" };
+      // Boleto/Pix not paid in time, or the checkout page was abandoned
+      case "async_payment_failed":
+      case "session_expired":
+        return { paymentStatus: "expired", orderStatus: "cancelled" };
+      case "payment_failed":
+        return { paymentStatus: "failed", orderStatus: null };
+      case "refunded":
+        return { paymentStatus: "refunded", orderStatus: null };
+      default:
+        return { paymentStatus: "pending", orderStatus: null };
+    }
+  },
+
+  async refund({ orderId, paymentId, amount, idempotencyKey }) {
+    const stripe = getStripe();
+
+    let paymentIntentId = paymentId;
+    if (!paymentIntentId) {
+      // Orders paid before the payment intent was stored on the order
+      const search = await stripe.paymentIntents.search({
+        query: `metadata['order_id']:'${orderId}' AND status:'succeeded'`,
+        limit: 1,
+      });
+      paymentIntentId = search.data[0]?.id ?? null;
+    }
+
+    if (!paymentIntentId) {
+      throw new Error("Pagamento Stripe não encontrado para este pedido. Faça o estorno pelo painel da Stripe e registre como manual.");
+    }
+
+    const refund = await stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      amount: toCents(amount),
+      reason: "requested_by_customer",
+      metadata: { order_id: orderId },
+    }, { idempotencyKey });
+
+    logStep("Refund created", { refundId: refund.id, status: refund.status });
+
+    if (refund.status === "failed" || refund.status === "canceled") {
+      throw new Error(`Stripe recusou o reembolso (${refund.failure_reason || refund.status})`);
+    }
+
+    return { refundId: refund.id, status: refund.status === "succeeded" ? "succeeded" : "pending" };
+  },
+};
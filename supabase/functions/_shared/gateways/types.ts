@@ -0,0 +1,189 @@
+// Common interface of the payment gateways (Stripe, Mercado Pago, PagSeguro).
+// Order creation, coupons, stock and e-mails stay in the edge functions; an adapter
+// only talks to its gateway: hosted checkout, webhook verification, status mapping
+// and refunds. See docs/PAGAMENTOS.md.
+
+export type GatewayName = "stripe" | "mercadopago" | "pagseguro";
+
+export type GatewayPaymentMethod = "card" | "pix" | "boleto";
+
+// One checkout line (never negative); shipping is the line with id SHIPPING_LINE_ID
+export interface GatewayLineItem {
+  id: string;
+  title: string;
+  description?: string;
+  imageUrl?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export const SHIPPING_LINE_ID = "shipping";
+
+// Order discount (coupon, seller, loyalty points); each adapter applies it the
+// way its gateway supports, since none of them accept negative lines
+export interface GatewayDiscount {
+  id: string;
+  title: string;
+  amount: number;
+}
+
+export interface GatewayAddress {
+  street: string;
+  number: string;
+  complement?: string | null;
+  neighborhood?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip: string;
+}
+
+export interface GatewayCheckoutInput {
+  orderId: string;
+  // null: every method the gateway offers on its checkout page
+  method: GatewayPaymentMethod | null;
+  items: GatewayLineItem[];
+  discounts?: GatewayDiscount[];
+  total: number;
+  customer: {
+    email: string;
+    firstName: string;
+    lastName: string;
+    phone?: string | null;
+    document: string;
+  };
+  address: GatewayAddress | null;
+  successUrl: string;
+  pendingUrl?: string;
+  cancelUrl: string;
+  notificationUrl: string;
+  expiresAt: Date;
+  maxInstallments?: number;
+  // Installments up to this number are interest-free (store pays the fee)
+  interestFreeInstallments?: number;
+  metadata?: Record<string, string>;
+}
+
+export interface GatewayCheckout {
+  id: string;
+  url: string;
+}
+
+// A verified gateway notification about one payment
+export interface GatewayWebhookEvent {
+  // Idempotency key for webhook_events
+  id: string;
+  type: string;
+  orderId: string | null;
+  paymentId: string | null;
+  // Gateway status, translated by mapStatus
+  status: string;
+  statusDetail?: string | null;
+  paymentMethod: GatewayPaymentMethod | null;
+}
+
+// orderStatus null keeps the order status as is
+export interface GatewayStatus {
+  paymentStatus: string;
+  orderStatus: string | null;
+}
+
+export interface GatewayPixChargeInput {
+  orderId: string;
+  amount: number;
+  description: string;
+  expiresAt: Date;
+  notificationUrl: string;
+  payer: {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    document: string | null;
+  };
+}
+
+// Immediate Pix charge (QR code + copia-e-cola) shown on the store's checkout;
+// the payment is confirmed by the gateway webhook like any other
+export interface GatewayPixCharge {
+  id: string;
+  // Stored in paymentColumn; null when the gateway only assigns it once paid
+  paymentId: string | null;
+  status: string;
+  qrCode: string;
+  qrCodeBase64: string | null;
+  expiresAt: string;
+}
+
+export interface GatewayRefundInput {
+  orderId: string;
+  paymentId: string | null;
+  amount: number;
+  idempotencyKey: string;
+}
+
+export interface GatewayRefund {
+  refundId: string | null;
+  status: "succeeded" | "pending";
+}
+
+export interface PaymentGateway {
+  name: GatewayName;
+  // orders column holding the gateway payment id (used for refunds)
+  paymentColumn: "stripe_payment_intent_id" | "mercadopago_payment_id" | "pagseguro_transaction_id";
+  createCheckout(input: GatewayCheckoutInput): Promise<GatewayCheckout>;
+  // null: not a payment notification (ignored); throws WebhookVerificationError when forged
+  verifyWebhook(req: Request): Promise<GatewayWebhookEvent | null>;
+  mapStatus(status: string): GatewayStatus;
+  refund(input: GatewayRefundInput): Promise<GatewayRefund>;
+  // Omitted by gateways that only take Pix on their hosted checkout (Stripe)
+  createPixCharge?(input: GatewayPixChargeInput): Promise<GatewayPixCharge>;
+}
+
+// Missing or invalid webhook signature: answer 4xx so the request is not trusted
+export class WebhookVerificationError extends Error {}
+
+export const toCents = (value: number) => Math.round(value * 100);
+
+export const discountTotal = (discounts: GatewayDiscount[] = []) =>
+  discounts.reduce((sum, discount) => sum + Math.max(discount.amount, 0), 0);
+
+// For gateways without an order discount: spreads the discount over the product
+// lines in proportion to their value (shipping too only when the products are not
+// enough). A line whose new total does not divide by its quantity is split in two
+// so the sum stays exact to the cent.
+export function spreadDiscount(items: GatewayLineItem[], discount: number): GatewayLineItem[] {
+  const lineCents = (item: GatewayLineItem) => toCents(item.unitPrice) * item.quantity;
+  const sumCents = (lines: GatewayLineItem[]) => lines.reduce((sum, item) => sum + lineCents(item), 0);
+
+  const products = items.filter((item) => item.id !== SHIPPING_LINE_ID);
+  const base = toCents(discount) > sumCents(products) ? items : products;
+  const baseCents = sumCents(base);
+  const discountCents = Math.min(toCents(discount), baseCents);
+  if (discountCents <= 0) return items;
+
+  const shares = new Map(base.map((item) => [item, Math.floor((lineCents(item) * discountCents) / baseCents)]));
+  let rest = discountCents - [...shares.values()].reduce((sum, share) => sum + share, 0);
+  for (const item of base) {
+    if (rest <= 0) break;
+    if (lineCents(item) > shares.get(item)!) {
+      shares.set(item, shares.get(item)! + 1);
+      rest--;
+    }
+  }
+
+  return items.flatMap((item) => {
+    const share = shares.get(item);
+    if (!share) return [item];
+
+    const newCents = lineCents(item) - share;
+    const unitCents = Math.floor(newCents / item.quantity);
+    const remainder = newCents - unitCents * item.quantity;
+    const lines: GatewayLineItem[] = [];
+    if (unitCents > 0 && item.quantity > remainder) {
+      lines.push({ ...item, quantity: item.quantity - remainder, unitPrice: unitCents / 100 });
+    }
+    if (remainder > 0) {
+      lines.push({ ...item, id: `${item.id}-${unitCents + 1}`, quantity: remainder, unitPrice: (unitCents + 1) / 100 });
+    }
+    return lines;
+  });
+}
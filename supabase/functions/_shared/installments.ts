@@ -0,0 +1,62 @@
+// Card installment policy from store_settings (installment_bands, max_installments,
+// interest_free_installments), used by create-checkout-session and
+// create-mercadopago-checkout. Same rules as src/lib/installments.ts, so the offer
+// shown in the store matches the checkout. installment_interest_rate only feeds the
+// store's estimate: the gateway charges the rate set up in its own account.
+
+export interface InstallmentBand {
+  min_total: number;
+  installments: number;
+}
+
+export interface InstallmentSettings {
+  installment_bands?: unknown;
+  max_installments?: number | null;
+  interest_free_installments?: number | null;
+}
+
+export interface InstallmentPlan {
+  maxInstallments: number;
+  interestFreeInstallments: number;
+}
+
+// Used when store_settings has no value (same as the column defaults)
+export const DEFAULT_INSTALLMENT_BANDS: InstallmentBand[] = [
+  { min_total: 0, installments: 1 },
+  { min_total: 100, installments: 3 },
+  { min_total: 200, installments: 6 },
+];
+
+const clampInstallments = (value: number) => Math.min(12, Math.max(1, Math.floor(value) || 1));
+
+export function parseInstallmentBands(value: unknown): InstallmentBand[] {
+  if (!Array.isArray(value)) return DEFAULT_INSTALLMENT_BANDS;
+
+  const bands = value
+    .map((band) => ({
+      min_total: Number((band as Partial<InstallmentBand>)?.min_total),
+      installments: Number((band as Partial<InstallmentBand>)?.installments),
+    }))
+    .filter((band) => Number.isFinite(band.min_total) && band.min_total >= 0 && Number.isFinite(band.installments))
+    .map((band) => ({ ...band, installments: clampInstallments(band.installments) }))
+    .sort((a, b) => a.min_total - b.min_total);
+
+  return bands.length > 0 ? bands : DEFAULT_INSTALLMENT_BANDS;
+}
+
+// Installments allowed for an order total: the highest band the total reaches,
+// capped by max_installments
+export function getInstallmentPlan(total: number, settings: InstallmentSettings | null): InstallmentPlan {
+  const bands = parseInstallmentBands(settings?.installment_bands);
+  const band = bands.filter((b) => total >= b.min_total).pop();
+
+  const maxInstallments = Math.min(
+    band?.installments ?? 1,
+    clampInstallments(settings?.max_installments ?? 12),
+  );
+
+  return {
+    maxInstallments,
+    interestFreeInstallments: Math.min(maxInstallments, clampInstallments(settings?.interest_free_installments ?? 6)),
+  };
+}
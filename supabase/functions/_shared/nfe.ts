@@ -0,0 +1,504 @@
+// Shared NF-e / NFC-e building blocks for issue-invoice.
+// Builds the (unsigned) layout 4.00 XML and hands it to the emitter selected by
+// NFE_PROVIDER: "http" posts to NFE_PROVIDER_URL (the provider signs with the
+// A1 certificate and talks to SEFAZ); "stub" authorizes locally for testing.
+// See docs/NOTA_FISCAL.md for the environment variables and provider contract.
+
+const UF_CODES: Record<string, string> = {
+  RO: "11", AC: "12", AM: "13", RR: "14", PA: "15", AP: "16", TO: "17",
+  MA: "21", PI: "22", CE: "23", RN: "24", PB: "25", PE: "26", AL: "27", SE: "28", BA: "29",
+  MG: "31", ES: "32", RJ: "33", SP: "35",
+  PR: "41", SC: "42", RS: "43",
+  MS: "50", MT: "51", GO: "52", DF: "53",
+};
+
+// tPag by orders.payment_method
+const PAYMENT_TYPES: Record<string, string> = {
+  credit_card: "03",
+  card: "03",
+  debit_card: "04",
+  boleto: "15",
+  pix: "17",
+};
+
+export interface NfeEmitterConfig {
+  cnpj: string;
+  ie: string;
+  name: string;
+  crt: string;
+  street: string;
+  number: string;
+  neighborhood: string;
+  cityCode: string;
+  city: string;
+  uf: string;
+  cep: string;
+  environment: "1" | "2";
+  series: number;
+  defaultCfop: string;
+  csosn: string;
+}
+
+export interface NfeItem {
+  code: string;
+  name: string;
+  ncm: string | null;
+  cfop: string | null;
+  origin: number;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface NfeRecipient {
+  document: string | null;
+  name: string;
+  email: string | null;
+  street: string;
+  number: string;
+  complement: string;
+  neighborhood: string;
+  city: string;
+  cityCode: string | null;
+  uf: string;
+  cep: string;
+}
+
+export interface NfeInput {
+  orderId: string;
+  model: "55" | "65";
+  number: number;
+  issuedAt: Date;
+  recipient: NfeRecipient;
+  items: NfeItem[];
+  shipping: number;
+  total: number;
+  paymentMethod: string | null;
+}
+
+export interface NfeDocument {
+  accessKey: string;
+  xml: string;
+}
+
+export interface NfeEmitResult {
+  status: "authorized" | "rejected" | "processing";
+  accessKey: string;
+  protocol: string | null;
+  xml: string;
+  danfePdf: Uint8Array | null;
+  message: string | null;
+}
+
+export interface NfeEmitter {
+  name: string;
+  emit(doc: NfeDocument, input: NfeInput): Promise<NfeEmitResult>;
+}
+
+// Errors in the order data itself (missing NCM, no address...): retrying won't help
+export class NfeValidationError extends Error {}
+
+const onlyDigits = (value: string | null | undefined) => (value || "").replace(/\D/g, "");
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) throw new Error(`${key} não configurado`);
+  return value;
+};
+
+export function getEmitterConfig(): NfeEmitterConfig {
+  const uf = requireEnv("NFE_EMITTER_UF").toUpperCase();
+  if (!UF_CODES[uf]) throw new Error(`NFE_EMITTER_UF inválida: ${uf}`);
+
+  return {
+    cnpj: onlyDigits(requireEnv("NFE_EMITTER_CNPJ")),
+    ie: onlyDigits(requireEnv("NFE_EMITTER_IE")),
+    name: requireEnv("NFE_EMITTER_NAME"),
+    crt: Deno.env.get("NFE_EMITTER_CRT") || "1",
+    street: requireEnv("NFE_EMITTER_STREET"),
+    number: Deno.env.get("NFE_EMITTER_NUMBER") || "S/N",
+    neighborhood: requireEnv("NFE_EMITTER_NEIGHBORHOOD"),
+    cityCode: onlyDigits(requireEnv("NFE_EMITTER_CITY_CODE")),
+    city: requireEnv("NFE_EMITTER_CITY"),
+    uf,
+    cep: onlyDigits(requireEnv("NFE_EMITTER_CEP")),
+    environment: Deno.env.get("NFE_ENVIRONMENT") === "1" ? "1" : "2",
+    series: Number(Deno.env.get("NFE_SERIES") || 1),
+    defaultCfop: Deno.env.get("NFE_DEFAULT_CFOP") || "5102",
+    csosn: Deno.env.get("NFE_CSOSN") || "102",
+  };
+}
+
+// === Access key (chave de acesso) ===
+
+// Mod-11 check digit, weights 2..9 from the right
+const mod11 = (digits: string): string => {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const dv = 11 - (sum % 11);
+  return dv >= 10 ? "0" : String(dv);
+};
+
+// cNF: 8 digits derived from the order id so retries produce the same key
+const numericCode = (orderId: string): string => {
+  const hex = orderId.replace(/-/g, "").slice(0, 12);
+  return String(parseInt(hex, 16) % 100000000).padStart(8, "0");
+};
+
+export function buildAccessKey(
+  config: NfeEmitterConfig,
+  input: Pick<NfeInput, "orderId" | "model" | "number" | "issuedAt">,
+): string {
+  const yymm = `${String(input.issuedAt.getUTCFullYear()).slice(2)}${String(input.issuedAt.getUTCMonth() + 1).padStart(2, "0")}`;
+  const base = [
+    UF_CODES[config.uf],
+    yymm,
+    config.cnpj.padStart(14, "0"),
+    input.model,
+    String(config.series).padStart(3, "0"),
+    String(input.number).padStart(9, "0"),
+    "1", // tpEmis: emissão normal
+    numericCode(input.orderId),
+  ].join("");
+  return base + mod11(base);
+}
+
+export const formatAccessKey = (key: string) => key.replace(/(\d{4})(?=\d)/g, "$1 ");
+
+// === XML ===
+
+const xmlEscape = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const tag = (name: string, value: string | number) => `<${name}>${xmlEscape(String(value))}</${name}>`;
+const money = (value: number) => value.toFixed(2);
+
+// dhEmi in Brasília time (UTC-03:00)
+const brazilDateTime = (date: Date) =>
+  new Date(date.getTime() - 3 * 3600 * 1000).toISOString().substring(0, 19) + "-03:00";
+
+// Spreads an order-level amount over items by value; rounding leftovers go to the last item
+const apportion = (amount: number, weights: number[]): number[] => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (amount <= 0 || total <= 0) return weights.map(() => 0);
+  const parts = weights.map((w) => Math.floor((amount * w / total) * 100) / 100);
+  const leftover = Math.round((amount - parts.reduce((sum, p) => sum + p, 0)) * 100) / 100;
+  parts[parts.length - 1] = Math.round((parts[parts.length - 1] + leftover) * 100) / 100;
+  return parts;
+};
+
+export function buildNfeXml(config: NfeEmitterConfig, input: NfeInput): NfeDocument {
+  if (input.items.length === 0) throw new NfeValidationError("Pedido sem itens");
+
+  const missingNcm = input.items.filter((item) => !item.ncm).map((item) => item.name);
+  if (missingNcm.length > 0) {
+    throw new NfeValidationError(`Produto sem NCM: ${missingNcm.join(", ")}`);
+  }
+
+  const { recipient } = input;
+  const recipientUf = recipient.uf.toUpperCase();
+  if (input.model === "55") {
+    if (!recipient.document) throw new NfeValidationError("NF-e exige CPF/CNPJ do cliente");
+    if (!UF_CODES[recipientUf] || !recipient.street || !recipient.city || !recipient.cep) {
+      throw new NfeValidationError("Endereço de entrega incompleto para a NF-e");
+    }
+  }
+
+  const interstate = input.model === "55" && recipientUf !== config.uf;
+  const accessKey = buildAccessKey(config, input);
+
+  const itemValues = input.items.map((item) => Math.round(item.unitPrice * item.quantity * 100) / 100);
+  const productsTotal = itemValues.reduce((sum, v) => sum + v, 0);
+  const shipping = input.model === "55" ? input.shipping : 0;
+  // Coupons, seller, loyalty: whatever brings items + shipping down to the order total
+  const discount = Math.max(0, Math.round((productsTotal + shipping - input.total) * 100) / 100);
+  const itemDiscounts = apportion(discount, itemValues);
+  const itemShipping = apportion(shipping, itemValues);
+  const invoiceTotal = Math.round((productsTotal + shipping - discount) * 100) / 100;
+
+  const ide = [
+    tag("cUF", UF_CODES[config.uf]),
+    tag("cNF", accessKey.substring(35, 43)),
+    tag("natOp", "Venda de mercadoria"),
+    tag("mod", input.model),
+    tag("serie", config.series),
+    tag("nNF", input.number),
+    tag("dhEmi", brazilDateTime(input.issuedAt)),
+    tag("tpNF", 1),
+    tag("idDest", interstate ? 2 : 1),
+    tag("cMunFG", config.cityCode),
+    tag("tpImp", input.model === "55" ? 1 : 4),
+    tag("tpEmis", 1),
+    tag("cDV", accessKey.substring(43)),
+    tag("tpAmb", config.environment),
+    tag("finNFe", 1),
+    tag("indFinal", 1),
+    tag("indPres", 2), // operação não presencial, pela internet
+    tag("procEmi", 0),
+    tag("verProc", "calibrasil"),
+  ].join("");
+
+  const emit = [
+    tag("CNPJ", config.cnpj),
+    tag("xNome", config.name),
+    "<enderEmit>",
+    tag("xLgr", config.street),
+    tag("nro", config.number),
+    tag("xBairro", config.neighborhood),
+    tag("cMun", config.cityCode),
+    tag("xMun", config.city),
+    tag("UF", config.uf),
+    tag("CEP", config.cep),
+    tag("cPais", 1058),
+    tag("xPais", "Brasil"),
+    "</enderEmit>",
+    tag("IE", config.ie),
+    tag("CRT", config.crt),
+  ].join("");
+
+  let dest = "";
+  if (recipient.document) {
+    dest = [
+      "<dest>",
+      recipient.document.length === 14 ? tag("CNPJ", recipient.document) : tag("CPF", recipient.document),
+      tag("xNome", config.environment === "2"
+        ? "NF-E EMITIDA EM AMBIENTE DE HOMOLOGACAO - SEM VALOR FISCAL"
+        : recipient.name),
+      input.model === "55"
+        ? [
+          "<enderDest>",
+          tag("xLgr", recipient.street),
+          tag("nro", recipient.number || "S/N"),
+          recipient.complement ? tag("xCpl", recipient.complement) : "",
+          tag("xBairro", recipient.neighborhood || "Centro"),
+          recipient.cityCode ? tag("cMun", recipient.cityCode) : "",
+          tag("xMun", recipient.city),
+          tag("UF", recipientUf),
+          tag("CEP", recipient.cep),
+          tag("cPais", 1058),
+          tag("xPais", "Brasil"),
+          "</enderDest>",
+        ].join("")
+        : "",
+      tag("indIEDest", 9), // não contribuinte
+      recipient.email ? tag("email", recipient.email) : "",
+      "</dest>",
+    ].join("");
+  }
+
+  const det = input.items.map((item, index) => {
+    const cfop = item.cfop || config.defaultCfop;
+    const icms = config.crt === "3"
+      ? `<ICMS><ICMS40>${tag("orig", item.origin)}${tag("CST", "41")}</ICMS40></ICMS>`
+      : `<ICMS><ICMSSN102>${tag("orig", item.origin)}${tag("CSOSN", config.csosn)}</ICMSSN102></ICMS>`;
+
+    return [
+      `<det nItem="${index + 1}">`,
+      "<prod>",
+      tag("cProd", item.code),
+      tag("cEAN", "SEM GTIN"),
+      tag("xProd", item.name),
+      tag("NCM", item.ncm!),
+      tag("CFOP", interstate ? `6${cfop.substring(1)}` : cfop),
+      tag("uCom", "UN"),
+      tag("qCom", item.quantity.toFixed(4)),
+      tag("vUnCom", item.unitPrice.toFixed(10)),
+      tag("vProd", money(itemValues[index])),
+      tag("cEANTrib", "SEM GTIN"),
+      tag("uTrib", "UN"),
+      tag("qTrib", item.quantity.toFixed(4)),
+      tag("vUnTrib", item.unitPrice.toFixed(10)),
+      itemShipping[index] > 0 ? tag("vFrete", money(itemShipping[index])) : "",
+      itemDiscounts[index] > 0 ? tag("vDesc", money(itemDiscounts[index])) : "",
+      tag("indTot", 1),
+      "</prod>",
+      "<imposto>",
+      icms,
+      `<PIS><PISNT>${tag("CST", "07")}</PISNT></PIS>`,
+      `<COFINS><COFINSNT>${tag("CST", "07")}</COFINSNT></COFINS>`,
+      "</imposto>",
+      "</det>",
+    ].join("");
+  }).join("");
+
+  const zeroTotals = ["vBC", "vICMS", "vICMSDeson", "vFCP", "vBCST", "vST", "vFCPST", "vFCPSTRet"]
+    .map((name) => tag(name, "0.00")).join("");
+  const total = [
+    "<total><ICMSTot>",
+    zeroTotals,
+    tag("vProd", money(productsTotal)),
+    tag("vFrete", money(shipping)),
+    tag("vSeg", "0.00"),
+    tag("vDesc", money(discount)),
+    tag("vII", "0.00"),
+    tag("vIPI", "0.00"),
+    tag("vIPIDevol", "0.00"),
+    tag("vPIS", "0.00"),
+    tag("vCOFINS", "0.00"),
+    tag("vOutro", "0.00"),
+    tag("vNF", money(invoiceTotal)),
+    "</ICMSTot></total>",
+  ].join("");
+
+  // modFrete 0: frete por conta do remetente (CIF); NFC-e sem transporte
+  const transp = `<transp>${tag("modFrete", input.model === "55" ? 0 : 9)}</transp>`;
+  const pag = [
+    "<pag><detPag>",
+    tag("tPag", PAYMENT_TYPES[input.paymentMethod || ""] || "99"),
+    PAYMENT_TYPES[input.paymentMethod || ""] ? "" : tag("xPag", "Pagamento online"),
+    tag("vPag", money(invoiceTotal)),
+    "</detPag></pag>",
+  ].join("");
+  const infAdic = `<infAdic>${tag("infCpl", `Pedido #${input.orderId.substring(0, 8).toUpperCase()}`)}</infAdic>`;
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>` +
+    `<NFe xmlns="http://www.portalfiscal.inf.br/nfe">` +
+    `<infNFe Id="NFe${accessKey}" versao="4.00">` +
+    `<ide>${ide}</ide><emit>${emit}</emit>${dest}${det}${total}${transp}${pag}${infAdic}` +
+    `</infNFe></NFe>`;
+
+  return { accessKey, xml };
+}
+
+// === Emitters ===
+
+const decodeBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// Generic REST emitter. POST {NFE_PROVIDER_URL}/nfe with the unsigned XML; the
+// reference (order id) makes retries idempotent on the provider side.
+const httpEmitter: NfeEmitter = {
+  name: "http",
+  async emit(doc, input) {
+    const baseUrl = requireEnv("NFE_PROVIDER_URL").replace(/\/$/, "");
+    const response = await fetch(`${baseUrl}/nfe`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${Deno.env.get("NFE_PROVIDER_TOKEN") || ""}`,
+      },
+      body: JSON.stringify({
+        reference: input.orderId,
+        model: input.model,
+        accessKey: doc.accessKey,
+        xml: doc.xml,
+      }),
+    });
+
+    if (!response.ok && response.status !== 422) {
+      const errorText = await response.text();
+      throw new Error(`Emissor NF-e respondeu ${response.status}: ${errorText.substring(0, 200)}`);
+    }
+
+    const result = await response.json();
+    let danfePdf: Uint8Array | null = null;
+    if (result.danfePdfBase64) {
+      danfePdf = decodeBase64(result.danfePdfBase64);
+    } else if (result.danfeUrl) {
+      const pdfResponse = await fetch(result.danfeUrl);
+      if (pdfResponse.ok) danfePdf = new Uint8Array(await pdfResponse.arrayBuffer());
+    }
+
+    return {
+      status: result.status === "authorized" || result.status === "processing" ? result.status : "rejected",
+      accessKey: result.accessKey || doc.accessKey,
+      protocol: result.protocol || null,
+      xml: result.xml || doc.xml,
+      danfePdf,
+      message: result.message || null,
+    };
+  },
+};
+
+// Local stand-in: authorizes immediately with a fake protocol and a plain DANFE
+const stubEmitter: NfeEmitter = {
+  name: "stub",
+  emit(doc, input) {
+    const protocol = `9${Date.now()}`.substring(0, 15);
+    const xml = doc.xml.replace(
+      "</NFe>",
+      `</NFe><protNFe versao="4.00"><infProt>${tag("chNFe", doc.accessKey)}${tag("nProt", protocol)}` +
+        `${tag("cStat", 100)}${tag("xMotivo", "Autorizado o uso da NF-e (stub)")}</infProt></protNFe>`,
+    );
+    return Promise.resolve({
+      status: "authorized",
+      accessKey: doc.accessKey,
+      protocol,
+      xml: `<nfeProc versao="4.00" xmlns="http://www.portalfiscal.inf.br/nfe">${xml.replace(/^<\?xml[^>]*>/, "")}</nfeProc>`,
+      danfePdf: buildSimpleDanfe(doc.accessKey, protocol, input),
+      message: null,
+    });
+  },
+};
+
+export function getNfeEmitter(): NfeEmitter {
+  const provider = Deno.env.get("NFE_PROVIDER") || "stub";
+  if (provider === "http") return httpEmitter;
+  if (provider === "stub") return stubEmitter;
+  throw new Error(`NFE_PROVIDER desconhecido: ${provider}`);
+}
+
+// === Minimal DANFE (stub) ===
+
+// Single-page text PDF; Helvetica/WinAnsi, so accents are kept and anything else dropped
+function buildSimpleDanfe(accessKey: string, protocol: string, input: NfeInput): Uint8Array {
+  const pdfText = (value: string) =>
+    value.normalize("NFC").replace(/[^\x20-\x7E\xA0-\xFF]/g, "").replace(/([\\()])/g, "\\$1");
+
+  const lines: [number, string][] = [
+    [14, input.model === "55" ? "DANFE - Documento Auxiliar da NF-e" : "DANFE NFC-e"],
+    [9, `Número ${input.number}   Emissão ${input.issuedAt.toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" })}`],
+    [9, `Chave de acesso: ${formatAccessKey(accessKey)}`],
+    [9, `Protocolo de autorização: ${protocol}`],
+    [9, ""],
+    [10, `Destinatário: ${input.recipient.name}${input.recipient.document ? ` (${input.recipient.document})` : ""}`],
+    [9, [input.recipient.street, input.recipient.number, input.recipient.city, input.recipient.uf].filter(Boolean).join(", ")],
+    [9, ""],
+    ...input.items.map((item): [number, string] => [
+      9,
+      `${item.quantity} x ${item.name}  (NCM ${item.ncm})  R$ ${(item.unitPrice * item.quantity).toFixed(2)}`,
+    ]),
+    [9, ""],
+    [11, `Valor total: R$ ${input.total.toFixed(2)}`],
+    [8, "Documento gerado pelo emissor de teste (stub) - sem valor fiscal"],
+  ];
+
+  let y = 800;
+  const content = ["BT"];
+  for (const [size, text] of lines) {
+    content.push(`/F1 ${size} Tf 1 0 0 1 40 ${y} Tm (${pdfText(text)}) Tj`);
+    y -= size + 8;
+  }
+  content.push("ET");
+  const stream = content.join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+  ];
+
+  // Latin-1 bytes: one byte per char keeps the xref offsets right
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0) & 0xff);
+}
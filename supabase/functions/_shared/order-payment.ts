@@ -0,0 +1,219 @@
+// Side effects of a confirmed payment shared by the gateway webhooks
+// (stripe-webhook, mercadopago-webhook, pagseguro-webhook): confirmation e-mails, coupon,
+// stock commit, NF-e and low stock alerts. Failures are only logged so the
+// webhook still acknowledges the notification.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export interface PaidOrder {
+  id: string;
+  user_id: string | null;
+  guest_email: string | null;
+  coupon_code: string | null;
+}
+
+type LogStep = (step: string, details?: Record<string, unknown>) => void;
+
+// Guest e-mail, else the account e-mail (auth, then get-user-email as a fallback)
+async function resolveCustomerEmail(supabase: SupabaseClient, order: PaidOrder, logStep: LogStep) {
+  let customerEmail = order.guest_email;
+  let customerName: string | null = null;
+
+  if (!customerEmail && order.user_id) {
+    logStep('Fetching email for logged-in user', { userId: order.user_id });
+
+    // Tentativa 1: Buscar email do auth.users
+    try {
+      const { data: authUser, error: authError } = await supabase.auth.admin.getUserById(order.user_id);
+
+      if (authError) {
+        logStep('Auth getUserById failed', { error: authError.message });
+      } else if (authUser?.user?.email) {
+        customerEmail = authUser.user.email;
+        customerName = authUser.user.user_metadata?.full_name || null;
+        logStep('User email found via auth', { email: customerEmail });
+      }
+    } catch (authErr) {
+      logStep('Auth getUserById exception', { error: String(authErr) });
+    }
+
+    // Tentativa 2: Buscar na tabela profiles se ainda não temos email
+    if (!customerEmail) {
+      logStep('Trying fallback: get-user-email function');
+      try {
+        const emailResponse = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/get-user-email`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`
+          },
+          body: JSON.stringify({ userId: order.user_id })
+        });
+
+        if (emailResponse.ok) {
+          const emailData = await emailResponse.json();
+          if (emailData.email) {
+            customerEmail = emailData.email;
+            customerName = emailData.full_name || null;
+            logStep('User email found via get-user-email', { email: customerEmail });
+          }
+        }
+      } catch (fallbackErr) {
+        logStep('Fallback get-user-email failed', { error: String(fallbackErr) });
+      }
+    }
+  }
+
+  return { customerEmail, customerName };
+}
+
+export async function handleOrderPaid(supabase: SupabaseClient, order: PaidOrder, logStep: LogStep) {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const internalApiSecret = Deno.env.get("INTERNAL_API_SECRET")!;
+  const orderId = order.id;
+
+  logStep('EMAIL_PAYMENT_TRIGGERED', { orderId, hasUserId: !!order.user_id, hasGuestEmail: !!order.guest_email });
+
+  try {
+    const { customerEmail, customerName } = await resolveCustomerEmail(supabase, order, logStep);
+
+    if (!customerEmail) {
+      logStep('EMAIL_PAYMENT_ERROR', { error: 'No customer email available after all attempts', orderId, userId: order.user_id });
+    } else {
+      const emailResponse = await fetch(`${supabaseUrl}/functions/v1/send-order-emails`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-internal-secret': internalApiSecret
+        },
+        body: JSON.stringify({
+          orderId,
+          customerEmail,
+          customerName
+        })
+      });
+
+      const emailResult = await emailResponse.json();
+
+      if (emailResult.error) {
+        logStep('EMAIL_PAYMENT_ERROR', { error: emailResult.error, orderId, email: customerEmail });
+      } else {
+        logStep('EMAIL_PAYMENT_SENT', { orderId, email: customerEmail });
+      }
+    }
+  } catch (emailError) {
+    const errorMsg = emailError instanceof Error ? emailError.message : String(emailError);
+    logStep('EMAIL_PAYMENT_ERROR', { error: errorMsg, orderId });
+    // Don't fail webhook for email errors
+  }
+
+  // Confirm the coupon redemption reserved at checkout
+  if (order.coupon_code) {
+    const { error: couponError } = await supabase
+      .rpc('confirm_coupon_redemption', { p_order_id: orderId });
+
+    if (couponError) {
+      logStep('Error confirming coupon redemption', { error: couponError.message });
+    } else {
+      logStep('Coupon redemption confirmed', { code: order.coupon_code });
+    }
+  }
+
+  // Convert the stock reservation into a real decrement (idempotent)
+  const { data: committedCount, error: commitError } = await supabase
+    .rpc('commit_order_stock', { p_order_id: orderId });
+
+  if (commitError) {
+    logStep('Error committing stock', { error: commitError.message });
+  } else {
+    logStep('Stock committed', { orderId, reservations: committedCount });
+  }
+
+  // FISCAL: Emitir NF-e/NFC-e do pedido pago
+  try {
+    const invoiceResponse = await fetch(`${supabaseUrl}/functions/v1/issue-invoice`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-internal-secret': internalApiSecret
+      },
+      body: JSON.stringify({ orderId })
+    });
+    const invoiceResult = await invoiceResponse.json();
+    logStep(invoiceResult.success ? 'Invoice issued' : 'Invoice not issued', {
+      orderId,
+      status: invoiceResult.invoice?.status || invoiceResult.status,
+      error: invoiceResult.error
+    });
+  } catch (invoiceError) {
+    // Don't fail webhook for invoice errors (admin can retry from the order)
+    logStep('Error issuing invoice', { error: String(invoiceError) });
+  }
+
+  // Check for low stock and send alerts
+  const { data: orderItems } = await supabase
+    .from('order_items')
+    .select('product_id, product_name, product_variant_id')
+    .eq('order_id', orderId);
+
+  const variantIds = (orderItems || [])
+    .map((item) => item.product_variant_id)
+    .filter(Boolean);
+
+  if (variantIds.length > 0) {
+    const { data: variants } = await supabase
+      .from('product_variants')
+      .select('id, color, model, stock_quantity')
+      .in('id', variantIds);
+
+    const lowStockItems = (orderItems || [])
+      .map((item) => {
+        const variant = variants?.find((v) => v.id === item.product_variant_id);
+        if (!variant || variant.stock_quantity > 5) return null;
+        return {
+          productName: item.product_name,
+          productId: item.product_id,
+          color: variant.color,
+          model: variant.model,
+          currentStock: variant.stock_quantity,
+        };
+      })
+      .filter(Boolean);
+
+    if (lowStockItems.length > 0) {
+      try {
+        await fetch(`${supabaseUrl}/functions/v1/send-low-stock-email`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-internal-secret': internalApiSecret
+          },
+          body: JSON.stringify({ items: lowStockItems })
+        });
+      } catch (e) {
+        logStep('Error sending low stock email', { error: String(e) });
+      }
+    }
+  }
+}
+
+// Reserved stock goes back on sale when the payment did not go through
+export async function releaseOrderStock(supabase: SupabaseClient, orderId: string, reason: string, logStep: LogStep) {
+  const { error: releaseError } = await supabase
+    .rpc('release_order_stock', { p_order_id: orderId, p_reason: reason });
+
+  if (releaseError) {
+    logStep('Error releasing stock', { error: releaseError.message });
+  } else {
+    logStep('Stock released', { orderId, reason });
+  }
+}
+
+// FIDELIDADE: Reembolso estorna os pontos ganhos e devolve os resgatados
+export async function reverseOrderLoyalty(supabase: SupabaseClient, orderId: string, logStep: LogStep) {
+  const { data: reversed, error: loyaltyError } = await supabase.rpc('reverse_order_loyalty_points', { p_order_id: orderId });
+  if (loyaltyError) {
+    logStep('Error reversing loyalty points', { error: loyaltyError.message });
+  } else {
+    logStep('Loyalty points reversed', { orderId, reversed });
+  }
+}
@@ -0,0 +1,141 @@
+// Shared package estimate for Correios quotes (calculate-shipping) and labels (generate-sigep-label).
+// Items are packed into a single box: the longest sides set the footprint and the
+// summed item volume sets the height. Variant values override the product ones.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface PackageItem {
+  product_id: string;
+  variant_id?: string | null;
+  color?: string | null;
+  model?: string | null;
+  quantity: number;
+}
+
+export interface ItemMeasures {
+  weight_grams: number;
+  height_cm: number;
+  width_cm: number;
+  length_cm: number;
+}
+
+export interface PackageEstimate {
+  weight_grams: number;
+  height_cm: number;
+  width_cm: number;
+  length_cm: number;
+}
+
+interface MeasuresRow {
+  weight_grams: number | null;
+  height_cm: number | null;
+  width_cm: number | null;
+  length_cm: number | null;
+}
+
+interface VariantMeasuresRow extends MeasuresRow {
+  id: string;
+  product_id: string;
+  color: string | null;
+  model: string | null;
+}
+
+// Used for products without registered measures (the previous fixed quote: 300g, 20x15x5)
+export const DEFAULT_ITEM_MEASURES: ItemMeasures = {
+  weight_grams: 300,
+  height_cm: 5,
+  width_cm: 15,
+  length_cm: 20,
+};
+
+// Correios minimums for "Pacote/Caixa"
+const MIN_LENGTH_CM = 15;
+const MIN_WIDTH_CM = 10;
+const MIN_HEIGHT_CM = 1;
+
+const roundUp = (value: number) => Math.ceil(value * 10) / 10;
+
+export function estimatePackage(items: { measures: ItemMeasures; quantity: number }[]): PackageEstimate {
+  if (items.length === 0) {
+    return estimatePackage([{ measures: DEFAULT_ITEM_MEASURES, quantity: 1 }]);
+  }
+
+  let weight = 0;
+  let volume = 0;
+  let length = 0;
+  let width = 0;
+  let minHeight = 0;
+
+  for (const { measures, quantity } of items) {
+    const qty = Math.max(1, Math.floor(quantity));
+    const [largest, middle, smallest] = [measures.length_cm, measures.width_cm, measures.height_cm]
+      .sort((a, b) => b - a);
+
+    weight += measures.weight_grams * qty;
+    volume += largest * middle * smallest * qty;
+    length = Math.max(length, largest);
+    width = Math.max(width, middle);
+    minHeight = Math.max(minHeight, smallest);
+  }
+
+  length = Math.max(MIN_LENGTH_CM, length);
+  width = Math.max(MIN_WIDTH_CM, width);
+  const height = Math.max(MIN_HEIGHT_CM, minHeight, volume / (length * width));
+
+  return {
+    weight_grams: Math.round(weight),
+    height_cm: roundUp(height),
+    width_cm: roundUp(width),
+    length_cm: roundUp(length),
+  };
+}
+
+const pickMeasures = (variant: MeasuresRow | undefined, product: MeasuresRow | undefined): ItemMeasures => ({
+  weight_grams: variant?.weight_grams ?? product?.weight_grams ?? DEFAULT_ITEM_MEASURES.weight_grams,
+  height_cm: Number(variant?.height_cm ?? product?.height_cm ?? DEFAULT_ITEM_MEASURES.height_cm),
+  width_cm: Number(variant?.width_cm ?? product?.width_cm ?? DEFAULT_ITEM_MEASURES.width_cm),
+  length_cm: Number(variant?.length_cm ?? product?.length_cm ?? DEFAULT_ITEM_MEASURES.length_cm),
+});
+
+// Same matching as create-order: an explicit variant id, or the single variant for the color/model
+function findVariant(variants: VariantMeasuresRow[], item: PackageItem): VariantMeasuresRow | undefined {
+  if (item.variant_id) {
+    return variants.find(v => v.id === item.variant_id);
+  }
+  let candidates = variants.filter(v => v.product_id === item.product_id);
+  if (item.color) candidates = candidates.filter(v => v.color === item.color);
+  if (item.model) candidates = candidates.filter(v => v.model === item.model);
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+export async function resolvePackage(
+  supabase: ReturnType<typeof createClient>,
+  items: PackageItem[]
+): Promise<PackageEstimate> {
+  const productIds = [...new Set(items.map(item => item.product_id))];
+  if (productIds.length === 0) {
+    return estimatePackage([]);
+  }
+
+  const [{ data: products, error: productsError }, { data: variants, error: variantsError }] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, weight_grams, height_cm, width_cm, length_cm')
+      .in('id', productIds),
+    supabase
+      .from('product_variants')
+      .select('id, product_id, color, model, weight_grams, height_cm, width_cm, length_cm')
+      .in('product_id', productIds),
+  ]);
+
+  if (productsError || variantsError) {
+    throw new Error(`Erro ao buscar medidas dos produtos: ${(productsError || variantsError)!.message}`);
+  }
+
+  const productMap = new Map(((products || []) as (MeasuresRow & { id: string })[]).map(p => [p.id, p]));
+  const variantRows = (variants || []) as VariantMeasuresRow[];
+
+  return estimatePackage(items.map(item => ({
+    measures: pickMeasures(findVariant(variantRows, item), productMap.get(item.product_id)),
+    quantity: item.quantity,
+  })));
+}
@@ -0,0 +1,8 @@
+// Pix settings shared by create-mercadopago-checkout and create-pix-charge.
+// The charge itself comes from the gateway adapter (PaymentGateway.createPixCharge).
+
+// Time the customer has to pay (PIX_EXPIRATION_MINUTES, 30 by default)
+export function getPixExpirationMinutes(): number {
+  const minutes = Number(Deno.env.get("PIX_EXPIRATION_MINUTES") || 30);
+  return Number.isFinite(minutes) && minutes >= 5 ? minutes : 30;
+}
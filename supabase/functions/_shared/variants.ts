@@ -0,0 +1,47 @@
+// Cart item -> product_variants row and effective unit price, used by create-order,
+// create-checkout-session and create-mercadopago-checkout to price and reserve the
+// exact color/model bought.
+
+export interface VariantRow {
+  id: string;
+  product_id: string;
+  color: string | null;
+  model: string | null;
+}
+
+export interface PromotionalPriceRow {
+  product_id: string;
+  variant_id: string | null;
+  price: number;
+}
+
+export interface VariantCartItem {
+  id: string;
+  name?: string;
+  color?: string;
+  model?: string;
+}
+
+// Resolve the product_variants row for a cart item (by color/model) so its stock can be
+// reserved. null only for products without variants; a product with variants must match
+// exactly one, otherwise the checkout fails instead of selling untracked stock.
+export function resolveVariantId(variants: VariantRow[], item: VariantCartItem): string | null {
+  const productVariants = variants.filter(v => v.product_id === item.id);
+  if (productVariants.length === 0) return null;
+
+  let candidates = productVariants;
+  if (item.color) candidates = candidates.filter(v => v.color === item.color);
+  if (item.model) candidates = candidates.filter(v => v.model === item.model);
+  if (candidates.length !== 1) {
+    throw new Error(`Variação indisponível: ${item.name || item.id}. Escolha a cor/modelo novamente.`);
+  }
+  return candidates[0].id;
+}
+
+// Effective unit price: lowest active promotion for the product or its variant, else the base price
+export function resolveUnitPrice(promoPrices: PromotionalPriceRow[], productId: string, variantId: string | null, basePrice: number): number {
+  const prices = promoPrices
+    .filter(row => row.product_id === productId && (!row.variant_id || row.variant_id === variantId))
+    .map(row => Number(row.price));
+  return prices.length ? Math.min(basePrice, ...prices) : basePrice;
+}
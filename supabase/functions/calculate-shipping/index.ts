@@ -1,5 +1,14 @@
 // Edge Function Deploy - Updated: 2026-01-05
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CORREIOS_API_URL, getCorreiosToken } from "../_shared/correios.ts";
+import {
+  DEFAULT_ITEM_MEASURES,
+  estimatePackage,
+  resolvePackage,
+  type PackageEstimate,
+  type PackageItem,
+} from "../_shared/packing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,9 +17,12 @@ const corsHeaders = {
 
 interface ShippingRequest {
   cep_destino: string;
-  peso?: number; // Weight in grams, defaults to 300
+  peso?: number; // Weight in grams, defaults to 300; ignored when items are sent
+  items?: PackageItem[]; // Cart items, measured from products/product_variants
 }
 
+const MAX_ITEMS = 50;
+
 interface ShippingOption {
   service: string;
   name: string;
@@ -19,13 +31,6 @@ interface ShippingOption {
   delivery_range: string;
 }
 
-interface CorreiosAuthResponse {
-  ambiente: string;
-  id: string;
-  token: string;
-  expiraEm: string;
-}
-
 interface CorreiosPrecoItem {
   coProduto: string;
   pcBase: string;
@@ -91,69 +96,17 @@ const logStep = (step: string, details?: unknown) => {
   console.log(`[CALCULATE-SHIPPING] ${step}${detailsStr}`);
 };
 
-// Token cache
-let cachedToken: { token: string; expiraEm: Date } | null = null;
-
-async function getCorreiosToken(): Promise<string> {
-  // Check if cached token is still valid (with 5 min buffer)
-  if (cachedToken && new Date(cachedToken.expiraEm.getTime() - 5 * 60 * 1000) > new Date()) {
-    logStep("Using cached Correios token");
-    return cachedToken.token;
-  }
-
-  const usuario = Deno.env.get("CORREIOS_USUARIO");
-  const senha = Deno.env.get("CORREIOS_SENHA_API");
-  const cartaoPostagem = Deno.env.get("CORREIOS_CARTAO_POSTAGEM");
-
-  if (!usuario || !senha || !cartaoPostagem) {
-    throw new Error("Credenciais dos Correios não configuradas");
-  }
-
-  logStep("Authenticating with Correios API");
-
-  const authString = btoa(`${usuario}:${senha}`);
-  
-  const response = await fetch(
-    "https://api.correios.com.br/token/v1/autentica/cartaopostagem",
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Basic ${authString}`,
-      },
-      body: JSON.stringify({ numero: cartaoPostagem }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    logStep("Correios auth failed", { status: response.status, error: errorText });
-    throw new Error(`Erro na autenticação dos Correios: ${response.status}`);
-  }
-
-  const authData: CorreiosAuthResponse = await response.json();
-  
-  // Cache the token
-  cachedToken = {
-    token: authData.token,
-    expiraEm: new Date(authData.expiraEm),
-  };
-
-  logStep("Correios auth successful", { expiraEm: authData.expiraEm });
-  return authData.token;
-}
-
 async function fetchCorreiosPreco(
   token: string,
   cepOrigem: string,
   cepDestino: string,
-  peso: number,
+  pacote: PackageEstimate,
   servicos: string[]
 ): Promise<CorreiosPrecoItem[]> {
-  logStep("Fetching Correios prices", { cepDestino, peso, servicos });
+  logStep("Fetching Correios prices", { cepDestino, pacote, servicos });
 
   const response = await fetch(
-    "https://api.correios.com.br/preco/v1/nacional",
+    `${CORREIOS_API_URL}/preco/v1/nacional`,
     {
       method: "POST",
       headers: {
@@ -163,11 +116,11 @@ async function fetchCorreiosPreco(
       body: JSON.stringify({
         cepOrigem,
         cepDestino,
-        psObjeto: peso, // Weight in grams
+        psObjeto: pacote.weight_grams, // Weight in grams
         tpObjeto: "2", // Pacote/Caixa
-        comprimento: 20,
-        altura: 5,
-        largura: 15,
+        comprimento: pacote.length_cm,
+        altura: pacote.height_cm,
+        largura: pacote.width_cm,
         diametro: 0,
         cdServico: servicos,
       }),
@@ -194,7 +147,7 @@ async function fetchCorreiosPrazo(
   logStep("Fetching Correios deadlines", { cepDestino, servicos });
 
   const response = await fetch(
-    "https://api.correios.com.br/prazo/v1/nacional",
+    `${CORREIOS_API_URL}/prazo/v1/nacional`,
     {
       method: "POST",
       headers: {
@@ -222,7 +175,7 @@ async function fetchCorreiosPrazo(
 
 async function calculateShippingWithCorreios(
   cepDestino: string,
-  peso: number
+  pacote: PackageEstimate
 ): Promise<ShippingOption[]> {
   const cepOrigem = Deno.env.get("CORREIOS_CEP_ORIGEM") || "51110160";
   const servicosConfig = Deno.env.get("CORREIOS_SERVICOS") || "03085,03050";
@@ -232,7 +185,7 @@ async function calculateShippingWithCorreios(
   
   // Fetch prices and deadlines in parallel
   const [precos, prazos] = await Promise.all([
-    fetchCorreiosPreco(token, cepOrigem, cepDestino, peso, servicos),
+    fetchCorreiosPreco(token, cepOrigem, cepDestino, pacote, servicos),
     fetchCorreiosPrazo(token, cepOrigem, cepDestino, servicos),
   ]);
 
@@ -361,7 +314,7 @@ serve(async (req) => {
     logStep("Function started");
 
     const body: ShippingRequest = await req.json();
-    const { cep_destino, peso = 300 } = body;
+    const { cep_destino, peso = 300, items } = body;
 
     if (!cep_destino) {
       throw new Error("CEP de destino é obrigatório");
@@ -373,12 +326,35 @@ serve(async (req) => {
       throw new Error("CEP inválido. Deve conter 8 dígitos.");
     }
 
-    logStep("Calculating shipping", { cep_destino: cepClean, peso });
+    if (items !== undefined && (!Array.isArray(items) || items.length > MAX_ITEMS ||
+      items.some(item => typeof item?.product_id !== "string" || !Number.isFinite(item.quantity) || item.quantity < 1))) {
+      throw new Error("Itens inválidos para cálculo de frete");
+    }
+
+    let pacote: PackageEstimate;
+    if (items && items.length > 0) {
+      try {
+        const supabase = createClient(
+          Deno.env.get("SUPABASE_URL")!,
+          Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+        );
+        pacote = await resolvePackage(supabase, items);
+      } catch (measuresError) {
+        logStep("Could not load product measures, using defaults", {
+          error: measuresError instanceof Error ? measuresError.message : String(measuresError)
+        });
+        pacote = estimatePackage(items.map(item => ({ measures: DEFAULT_ITEM_MEASURES, quantity: item.quantity })));
+      }
+    } else {
+      pacote = { ...estimatePackage([]), weight_grams: peso };
+    }
+
+    logStep("Calculating shipping", { cep_destino: cepClean, pacote });
 
     let shippingOptions: ShippingOption[];
     
     try {
-      shippingOptions = await calculateShippingWithCorreios(cepClean, peso);
+      shippingOptions = await calculateShippingWithCorreios(cepClean, pacote);
       
       if (shippingOptions.length === 0) {
         throw new Error("Nenhuma opção de frete disponível");
@@ -387,14 +363,15 @@ serve(async (req) => {
       logStep("Correios API error, using fallback", { 
         error: correiosError instanceof Error ? correiosError.message : String(correiosError) 
       });
-      shippingOptions = calculateShippingFallback(cepClean, peso);
+      shippingOptions = calculateShippingFallback(cepClean, pacote.weight_grams);
     }
 
     logStep("Shipping calculated", { options: shippingOptions.length });
 
     return new Response(JSON.stringify({ 
       success: true, 
-      options: shippingOptions 
+      options: shippingOptions,
+      package: pacote,
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
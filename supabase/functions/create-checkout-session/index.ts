@@ -1,7 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { DocumentSchema } from "../_shared/document.ts";
+import {
+  getPaymentGateway,
+  resolveMethodGateway,
+  SHIPPING_LINE_ID,
+  type GatewayCheckout,
+  type GatewayDiscount,
+  type GatewayLineItem,
+} from "../_shared/gateways/index.ts";
+import { getInstallmentPlan } from "../_shared/installments.ts";
+import { resolveUnitPrice, resolveVariantId } from "../_shared/variants.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -68,6 +78,7 @@ const CartItemSchema = z.object({
   image: z.string().url().optional().or(z.literal("")),
   size: z.string().max(50).optional(),
   color: z.string().max(50).optional(),
+  model: z.string().max(50).optional(),
 });
 
 const ShippingAddressSchema = z.object({
@@ -86,6 +97,7 @@ const CheckoutRequestSchema = z.object({
   items: z.array(CartItemSchema).min(1, "Carrinho vazio").max(50, "Limite de 50 itens por pedido"),
   email: z.string().email("Email inválido").max(255, "Email muito longo"),
   phone: z.string().regex(brazilianPhoneRegex, "Telefone inválido").optional().or(z.literal("")),
+  customer_document: DocumentSchema,
   shipping_address: ShippingAddressSchema,
   user_id: z.string().uuid().optional().nullable(),
   total: z.number().positive(),
@@ -95,62 +107,142 @@ const CheckoutRequestSchema = z.object({
   success_url: z.string().url("URL de sucesso inválida"),
   cancel_url: z.string().url("URL de cancelamento inválida"),
   coupon_code: z.string().max(50).optional().or(z.literal("")),
+  loyalty_points: z.number().int().min(0).optional(),
+  abandoned_cart_id: z.string().uuid().optional().nullable(),
 });
 
 type CheckoutRequest = z.infer<typeof CheckoutRequestSchema>;
 
 interface ValidatedCoupon {
+  coupon_id: string;
   code: string;
+  discount_type: "percent" | "fixed" | "free_shipping";
   discount_percent: number;
+  discount_amount: number;
+  free_shipping: boolean;
+  stacks_with_seller: boolean;
 }
 
-// Validate coupon code against database
+interface CouponItem {
+  product_id: string;
+  price: number;
+  quantity: number;
+}
+
+interface CouponResult extends Partial<ValidatedCoupon> {
+  valid: boolean;
+  error?: string;
+  min_purchase?: number;
+}
+
+// Customer-facing message for each coupon engine error code
+function couponErrorMessage(result: CouponResult): string {
+  switch (result.error) {
+    case "not_started":
+      return "Este cupom ainda não está válido";
+    case "expired":
+      return "Este cupom expirou";
+    case "usage_limit":
+      return "Este cupom atingiu o limite de uso";
+    case "customer_limit":
+      return "Você já atingiu o limite de uso deste cupom";
+    case "min_purchase":
+      return `Valor mínimo para usar este cupom: R$ ${Number(result.min_purchase || 0).toFixed(2)}`;
+    case "not_applicable":
+      return "Este cupom não é válido para os produtos do carrinho";
+    default:
+      return "Cupom inválido ou expirado";
+  }
+}
+
+// Validate coupon code with the server-side coupon engine
 async function validateCoupon(
   supabase: any,
   couponCode: string,
-  orderTotal: number
-): Promise<ValidatedCoupon | null> {
+  orderTotal: number,
+  userId: string | null,
+  email: string,
+  items: CouponItem[]
+): Promise<ValidatedCoupon> {
   console.log(`[COUPON] Validating coupon: ${couponCode} for total: ${orderTotal}`);
 
-  const { data: coupon, error } = await supabase
-    .from("coupons")
-    .select("*")
-    .eq("code", couponCode.toUpperCase())
-    .eq("is_active", true)
-    .single();
+  const { data, error } = await supabase.rpc("validate_coupon", {
+    p_code: couponCode,
+    p_subtotal: orderTotal,
+    p_user_id: userId,
+    p_email: email,
+    p_items: items,
+  });
+
+  if (error) {
+    console.error("[COUPON] Validation error:", error.message);
+    throw new Error("Erro ao validar cupom");
+  }
 
-  if (error || !coupon) {
-    console.log("[COUPON] Coupon not found or inactive");
-    return null;
+  const result = data as CouponResult;
+  if (!result.valid) {
+    console.log(`[COUPON] Coupon rejected: ${result.error}`);
+    throw new Error(couponErrorMessage(result));
   }
 
-  const now = new Date();
+  console.log(`[COUPON] Valid coupon: ${result.code} (${result.discount_type}) discount: R$ ${Number(result.discount_amount).toFixed(2)}`);
+  return result as ValidatedCoupon;
+}
+
+interface LoyaltyResult {
+  valid: boolean;
+  error?: string;
+  points?: number;
+  discount_amount?: number;
+  min_redeem_points?: number;
+}
 
-  if (coupon.valid_from && new Date(coupon.valid_from) > now) {
-    console.log("[COUPON] Coupon not yet valid");
-    return null;
+function loyaltyErrorMessage(result: LoyaltyResult): string {
+  switch (result.error) {
+    case "disabled":
+      return "O programa de fidelidade não está ativo";
+    case "below_minimum":
+      return `Resgate mínimo: ${result.min_redeem_points || 0} pontos`;
+    default:
+      return "Saldo de pontos insuficiente";
   }
+}
 
-  if (coupon.valid_until && new Date(coupon.valid_until) < now) {
-    console.log("[COUPON] Coupon expired");
-    return null;
+// Quote a loyalty points redemption. Points belong to an account, so only the
+// signed-in owner (checked against the request JWT) can spend them
+async function validateLoyaltyRedemption(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  userId: string | null | undefined,
+  points: number,
+  subtotal: number
+): Promise<LoyaltyResult> {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  const { data: authData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+  if (!userId || authData.user?.id !== userId) {
+    console.warn("SECURITY: Loyalty redemption without a matching signed-in user");
+    throw new Error("Faça login para usar seus pontos");
   }
 
-  if (coupon.max_uses !== null && coupon.used_count >= coupon.max_uses) {
-    console.log("[COUPON] Coupon usage limit reached");
-    return null;
+  const { data, error } = await supabase.rpc("quote_loyalty_redemption", {
+    p_user_id: userId,
+    p_subtotal: subtotal,
+    p_points: points,
+  });
+
+  if (error) {
+    console.error("[LOYALTY] Quote error:", error.message);
+    throw new Error("Erro ao validar pontos");
   }
 
-  if (coupon.min_purchase && orderTotal < coupon.min_purchase) {
-    console.log(`[COUPON] Order total ${orderTotal} below minimum ${coupon.min_purchase}`);
-    return null;
+  const result = data as LoyaltyResult;
+  if (!result.valid || result.points !== points) {
+    console.log(`[LOYALTY] Redemption rejected: ${result.error || "insufficient_points"}`);
+    throw new Error(loyaltyErrorMessage(result));
   }
 
-  console.log(`[COUPON] Valid coupon: ${coupon.code} with ${coupon.discount_percent}% discount`);
-  return {
-    code: coupon.code,
-    discount_percent: coupon.discount_percent,
-  };
+  return result;
 }
 
 serve(async (req) => {
@@ -177,15 +269,6 @@ serve(async (req) => {
       );
     }
 
-    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
-    if (!stripeKey) {
-      throw new Error("Stripe secret key not configured");
-    }
-
-    const stripe = new Stripe(stripeKey, {
-      apiVersion: "2023-10-16",
-    });
-
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -246,10 +329,29 @@ serve(async (req) => {
       throw new Error("Failed to validate product prices");
     }
 
+    const { data: variantRows, error: variantRowsError } = await supabase
+      .from('product_variants')
+      .select('id, product_id, color, model')
+      .in('product_id', productIds);
+
+    if (variantRowsError) {
+      console.error("Error fetching product variants:", variantRowsError);
+      throw new Error("Failed to validate product variants");
+    }
+
+    // Active scheduled promotions (same source as the storefront prices)
+    const { data: promoPrices, error: promoError } = await supabase
+      .rpc('get_promotional_prices', { p_product_ids: productIds });
+
+    if (promoError) {
+      console.error("Error fetching promotional prices:", promoError);
+      throw new Error("Failed to validate product prices");
+    }
+
     // Fetch store settings
     const { data: storeSettings, error: settingsError } = await supabase
       .from('store_settings')
-      .select('free_shipping_threshold, standard_shipping_rate, shipping_mode')
+      .select('free_shipping_threshold, standard_shipping_rate, shipping_mode, card_gateway, pix_gateway, boleto_gateway, installment_bands, max_installments, interest_free_installments')
       .limit(1)
       .single();
 
@@ -258,41 +360,34 @@ serve(async (req) => {
       throw new Error("Failed to fetch shipping configuration");
     }
 
+    // Gateway configured in the admin for the chosen payment method
+    const gateway = getPaymentGateway(resolveMethodGateway(storeSettings, body.payment_method));
+
     const priceMap = new Map(products.map(p => [p.id, { price: p.price, name: p.name }]));
+    const unitPriceFor = (item: { id: string; color?: string; model?: string }, basePrice: number) =>
+      resolveUnitPrice(promoPrices || [], item.id, resolveVariantId(variantRows || [], item), basePrice);
 
     let realItemsTotal = 0;
 
-    const lineItems: Array<{
-      price_data: {
-        currency: string;
-        product_data: { name: string; images?: string[] };
-        unit_amount: number;
-      };
-      quantity: number;
-    }> = body.items.map((item) => {
+    const lineItems: GatewayLineItem[] = body.items.map((item) => {
       const realProduct = priceMap.get(item.id);
       if (!realProduct) {
         throw new Error(`Product not found: ${item.id}`);
       }
 
-      if (Math.abs(item.price - realProduct.price) > 0.01) {
-        console.warn(`SECURITY: Price mismatch detected for product ${item.id}: client=${item.price}, real=${realProduct.price}`);
+      const unitPrice = unitPriceFor(item, realProduct.price);
+      if (Math.abs(item.price - unitPrice) > 0.01) {
+        console.warn(`SECURITY: Price mismatch detected for product ${item.id}: client=${item.price}, real=${unitPrice}`);
       }
 
-      realItemsTotal += realProduct.price * item.quantity;
+      realItemsTotal += unitPrice * item.quantity;
 
-      const validImage = item.image && isValidUrl(item.image) ? [item.image] : undefined;
-      
       return {
-        price_data: {
-          currency: "brl",
-          product_data: {
-            name: realProduct.name,
-            images: validImage,
-          },
-          unit_amount: Math.round(realProduct.price * 100),
-        },
+        id: item.id,
+        title: realProduct.name,
+        imageUrl: item.image && isValidUrl(item.image) ? item.image : undefined,
         quantity: item.quantity,
+        unitPrice,
       };
     });
 
@@ -322,6 +417,36 @@ serve(async (req) => {
       }
     }
 
+    // Validate coupon server-side (same engine used by the storefront and Mercado Pago)
+    const couponItems: CouponItem[] = body.items.map((item) => ({
+      product_id: item.id,
+      price: unitPriceFor(item, priceMap.get(item.id)!.price),
+      quantity: item.quantity,
+    }));
+    let validatedCoupon: ValidatedCoupon | null = null;
+    let discountAmount = 0;
+
+    if (body.coupon_code) {
+      validatedCoupon = await validateCoupon(supabase, body.coupon_code, realItemsTotal, body.user_id || null, body.email, couponItems);
+      discountAmount = validatedCoupon.discount_amount;
+
+      if (validatedCoupon.free_shipping) {
+        realShipping = 0;
+        console.log("[COUPON] Free shipping applied");
+      }
+      console.log(`[COUPON] Applied discount: R$ ${discountAmount.toFixed(2)}`);
+    }
+
+    // FIDELIDADE: Pontos como desconto sobre os itens (após o cupom)
+    let loyaltyPoints = 0;
+    let loyaltyDiscount = 0;
+    if (body.loyalty_points) {
+      const loyalty = await validateLoyaltyRedemption(supabase, req, body.user_id, body.loyalty_points, realItemsTotal - discountAmount);
+      loyaltyPoints = body.loyalty_points;
+      loyaltyDiscount = Number(loyalty.discount_amount || 0);
+      console.log(`[LOYALTY] Redeeming ${loyaltyPoints} points: R$ ${loyaltyDiscount.toFixed(2)}`);
+    }
+
     console.log(`[SHIPPING] Mode: ${storeSettings.shipping_mode}, Method: ${body.shipping_method}, Cost: ${realShipping}`);
 
     if (Math.abs(body.shipping - realShipping) > 0.01) {
@@ -330,48 +455,22 @@ serve(async (req) => {
 
     // Add shipping as a line item if applicable
     if (realShipping > 0) {
-      lineItems.push({
-        price_data: {
-          currency: "brl",
-          product_data: {
-            name: "Frete",
-          },
-          unit_amount: Math.round(realShipping * 100),
-        },
-        quantity: 1,
-      });
+      lineItems.push({ id: SHIPPING_LINE_ID, title: "Frete", quantity: 1, unitPrice: realShipping });
     }
 
     const subtotalBeforeDiscount = realItemsTotal + realShipping;
 
-    // Validate coupon server-side
-    let validatedCoupon: ValidatedCoupon | null = null;
-    let discountAmount = 0;
+    // Each gateway adapter applies the discounts its own way
+    const discounts: GatewayDiscount[] = [];
+    if (validatedCoupon && discountAmount > 0) {
+      discounts.push({ id: "coupon", title: `Desconto (${validatedCoupon.code})`, amount: discountAmount });
+    }
 
-    if (body.coupon_code) {
-      validatedCoupon = await validateCoupon(supabase, body.coupon_code, realItemsTotal);
-      
-      if (validatedCoupon) {
-        discountAmount = (realItemsTotal * validatedCoupon.discount_percent) / 100;
-        discountAmount = Math.round(discountAmount * 100) / 100;
-        console.log(`[COUPON] Applied discount: R$ ${discountAmount.toFixed(2)}`);
-
-        lineItems.push({
-          price_data: {
-            currency: "brl",
-            product_data: {
-              name: `Desconto (${validatedCoupon.code})`,
-            },
-            unit_amount: -Math.round(discountAmount * 100),
-          },
-          quantity: 1,
-        });
-      } else {
-        console.log(`[COUPON] Invalid coupon code: ${body.coupon_code}`);
-      }
+    if (loyaltyDiscount > 0) {
+      discounts.push({ id: "loyalty", title: `Pontos de fidelidade (${loyaltyPoints})`, amount: loyaltyDiscount });
     }
 
-    const realTotal = subtotalBeforeDiscount - discountAmount;
+    const realTotal = subtotalBeforeDiscount - discountAmount - loyaltyDiscount;
 
     // Create pending order in database
     const { data: order, error: orderError } = await supabase
@@ -380,15 +479,20 @@ serve(async (req) => {
         user_id: body.user_id || null,
         guest_email: body.user_id ? null : body.email,
         phone: body.phone || null,
+        customer_document: body.customer_document,
         total: realTotal,
         shipping_address: body.shipping_address,
         shipping_method: body.shipping_method || 'standard',
         shipping_cost: realShipping,
         payment_method: body.payment_method,
+        payment_gateway: gateway.name,
         payment_status: "pending",
         status: "pending",
         coupon_code: validatedCoupon?.code || null,
         discount_amount: discountAmount > 0 ? discountAmount : null,
+        loyalty_points_redeemed: loyaltyPoints,
+        loyalty_discount_amount: loyaltyDiscount,
+        abandoned_cart_id: body.abandoned_cart_id || null,
       })
       .select()
       .single();
@@ -406,8 +510,9 @@ serve(async (req) => {
         order_id: order.id,
         product_id: item.id,
         product_name: realProduct?.name || item.name,
-        price: realProduct?.price || item.price,
+        price: realProduct ? unitPriceFor(item, realProduct.price) : item.price,
         quantity: item.quantity,
+        product_variant_id: resolveVariantId(variantRows || [], item),
       };
     });
 
@@ -421,38 +526,56 @@ serve(async (req) => {
       throw new Error("Failed to create order items");
     }
 
-    let paymentMethodTypes: Stripe.Checkout.SessionCreateParams.PaymentMethodType[] = [];
-    
-    const MINIMUM_AMOUNTS: Record<string, number> = {
-      boleto: 5.00,
-      pix: 0.50,
-      card: 0.50,
-    };
+    // ESTOQUE: Reservar até o pagamento. Boleto pode ser pago em até 3 dias,
+    // demais métodos seguem a expiração padrão do checkout (24h)
+    const reservationHours = body.payment_method === "boleto" ? 96 : 24;
+    const reservationExpiresAt = new Date(Date.now() + reservationHours * 60 * 60 * 1000);
+    const { error: reserveError } = await supabase.rpc("reserve_order_stock", {
+      p_order_id: order.id,
+      p_expires_at: reservationExpiresAt.toISOString(),
+    });
 
-    const minAmount = MINIMUM_AMOUNTS[body.payment_method] || 0.50;
-    if (realTotal < minAmount) {
-      throw new Error(`O valor mínimo para ${body.payment_method === 'boleto' ? 'Boleto' : body.payment_method === 'pix' ? 'Pix' : 'Cartão'} é R$ ${minAmount.toFixed(2).replace('.', ',')}`);
+    if (reserveError) {
+      console.error("[STOCK] Reservation failed:", reserveError.message);
+      await supabase.from("orders").delete().eq("id", order.id);
+      throw new Error("Um ou mais produtos não têm estoque suficiente");
     }
-    
-    switch (body.payment_method) {
-      case "pix":
-        paymentMethodTypes = ["pix"];
-        break;
-      case "boleto":
-        paymentMethodTypes = ["boleto"];
-        break;
-      case "card":
-      default:
-        paymentMethodTypes = ["card"];
-        break;
+
+    // CUPOM: Resgate atômico (trava o cupom e conta o uso para este pedido)
+    if (validatedCoupon) {
+      const { data: redemption, error: redeemError } = await supabase.rpc("redeem_coupon", {
+        p_code: validatedCoupon.code,
+        p_order_id: order.id,
+        p_subtotal: realItemsTotal,
+        p_user_id: body.user_id || null,
+        p_email: body.email,
+        p_items: couponItems,
+      });
+
+      const redeemResult = redemption as CouponResult | null;
+      if (redeemError || !redeemResult?.valid) {
+        console.error("[COUPON] Redemption failed:", redeemError?.message || redeemResult?.error);
+        await supabase.from("orders").delete().eq("id", order.id);
+        throw new Error(redeemResult ? couponErrorMessage(redeemResult) : "Erro ao validar cupom");
+      }
     }
 
-    const totalInCents = Math.round(realTotal * 100);
-    const getInstallmentsConfig = () => {
-      if (totalInCents < 10000) return undefined;
-      if (totalInCents < 20000) return { enabled: true };
-      return { enabled: true };
-    };
+    // FIDELIDADE: Debita os pontos (trava o saldo do cliente para este pedido)
+    if (loyaltyPoints > 0) {
+      const { data: loyaltyRedemption, error: loyaltyError } = await supabase.rpc("redeem_loyalty_points", {
+        p_order_id: order.id,
+        p_user_id: body.user_id,
+        p_points: loyaltyPoints,
+        p_subtotal: realItemsTotal - discountAmount,
+      });
+
+      const loyaltyResult = loyaltyRedemption as LoyaltyResult | null;
+      if (loyaltyError || !loyaltyResult?.valid) {
+        console.error("[LOYALTY] Redemption failed:", loyaltyError?.message || loyaltyResult?.error);
+        await supabase.from("orders").delete().eq("id", order.id);
+        throw new Error(loyaltyResult ? loyaltyErrorMessage(loyaltyResult) : "Erro ao validar pontos");
+      }
+    }
 
     // Generate secure confirmation token
     const internalSecret = Deno.env.get('INTERNAL_API_SECRET');
@@ -461,42 +584,56 @@ serve(async (req) => {
       confirmationToken = await generateHMAC(order.id, internalSecret);
     }
 
-    const sessionParams: Stripe.Checkout.SessionCreateParams = {
-      payment_method_types: paymentMethodTypes,
-      line_items: lineItems,
-      mode: "payment",
-      success_url: `${body.success_url}?order_id=${order.id}&token=${confirmationToken}&session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${body.cancel_url}?order_id=${order.id}`,
-      customer_email: body.email,
-      metadata: {
-        order_id: order.id,
-        coupon_code: validatedCoupon?.code || "",
-        discount_amount: discountAmount.toString(),
-        shipping_method: body.shipping_method || 'standard',
-      },
-      locale: "pt-BR",
-    };
+    // Card installments allowed for the total (store_settings price bands)
+    const installmentPlan = body.payment_method === "card"
+      ? getInstallmentPlan(realTotal, storeSettings)
+      : { maxInstallments: 1, interestFreeInstallments: 1 };
 
-    if (body.payment_method === "boleto") {
-      sessionParams.payment_method_options = {
-        boleto: {
-          expires_after_days: 3,
+    let checkout: GatewayCheckout;
+    try {
+      checkout = await gateway.createCheckout({
+        orderId: order.id,
+        method: body.payment_method,
+        items: lineItems,
+        discounts,
+        total: realTotal,
+        customer: {
+          email: body.email,
+          firstName: body.shipping_address.firstName,
+          lastName: body.shipping_address.lastName,
+          phone: body.phone || null,
+          document: body.customer_document,
         },
-      };
-    } else if (body.payment_method === "card") {
-      const installmentsConfig = getInstallmentsConfig();
-      if (installmentsConfig) {
-        sessionParams.payment_method_options = {
-          card: {
-            installments: installmentsConfig,
-          },
-        };
-      }
+        address: !isPickup && body.shipping_address.street && body.shipping_address.zip
+          ? {
+              street: body.shipping_address.street,
+              number: body.shipping_address.number || "",
+              complement: body.shipping_address.complement || null,
+              neighborhood: body.shipping_address.neighborhood || null,
+              city: body.shipping_address.city || null,
+              state: body.shipping_address.state || null,
+              zip: body.shipping_address.zip,
+            }
+          : null,
+        successUrl: `${body.success_url}?order_id=${order.id}&token=${confirmationToken}&gateway=${gateway.name}`,
+        cancelUrl: `${body.cancel_url}?order_id=${order.id}`,
+        notificationUrl: `${supabaseUrl}/functions/v1/${gateway.name}-webhook`,
+        expiresAt: reservationExpiresAt,
+        maxInstallments: installmentPlan.maxInstallments,
+        interestFreeInstallments: installmentPlan.interestFreeInstallments,
+        metadata: {
+          coupon_code: validatedCoupon?.code || "",
+          discount_amount: discountAmount.toString(),
+          shipping_method: body.shipping_method || 'standard',
+        },
+      });
+    } catch (gatewayError) {
+      // Cancelling the order releases its stock reservation
+      await supabase.from("orders").update({ status: "cancelled", payment_status: "failed" }).eq("id", order.id);
+      throw gatewayError;
     }
 
-    const session = await stripe.checkout.sessions.create(sessionParams);
-
-    console.log("Stripe session created:", session.id);
+    console.log(`[CHECKOUT-SESSION] ${gateway.name} checkout created:`, checkout.id);
 
     await supabase
       .from("orders")
@@ -508,8 +645,9 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
-        sessionId: session.id,
-        sessionUrl: session.url,
+        gateway: gateway.name,
+        sessionId: checkout.id,
+        sessionUrl: checkout.url,
         orderId: order.id,
       }),
       {
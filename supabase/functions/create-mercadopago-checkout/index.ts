@@ -1,6 +1,17 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { DocumentSchema } from "../_shared/document.ts";
+import { mercadoPagoGateway } from "../_shared/gateways/mercadopago.ts";
+import {
+  SHIPPING_LINE_ID,
+  type GatewayCheckout,
+  type GatewayDiscount,
+  type GatewayLineItem,
+} from "../_shared/gateways/types.ts";
+import { getInstallmentPlan } from "../_shared/installments.ts";
+import { getPixExpirationMinutes } from "../_shared/pix.ts";
+import { resolveUnitPrice, resolveVariantId } from "../_shared/variants.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -37,6 +48,7 @@ const CheckoutRequestSchema = z.object({
   customerEmail: z.string().email("Email inválido").max(255, "Email muito longo"),
   customerName: z.string().min(1, "Nome é obrigatório").max(200, "Nome muito longo").regex(/^[a-zA-ZÀ-ÿ\s'-]+$/, "Nome contém caracteres inválidos"),
   customerPhone: z.string().regex(brazilianPhoneRegex, "Telefone inválido"),
+  customerDocument: DocumentSchema,
   shippingAddress: ShippingAddressSchema,
   shippingCost: z.number().min(0),
   shippingMethod: z.string().max(50).optional(),
@@ -45,6 +57,11 @@ const CheckoutRequestSchema = z.object({
   success_url: z.string().url("URL de sucesso inválida"),
   cancel_url: z.string().url("URL de cancelamento inválida"),
   user_id: z.string().uuid().optional().nullable(),
+  loyaltyPoints: z.number().int().min(0).optional(),
+  abandonedCartId: z.string().uuid().optional().nullable(),
+  // "pix": in-page Pix (create-pix-charge) instead of the hosted checkout.
+  // "card" / "boleto": hosted checkout restricted to that method; omitted: every method
+  paymentMethod: z.enum(["card", "pix", "boleto"]).optional(),
 });
 
 type CheckoutRequest = z.infer<typeof CheckoutRequestSchema>;
@@ -93,45 +110,126 @@ async function generateHMAC(data: string, secret: string): Promise<string> {
     .join('');
 }
 
-// Validate coupon
-async function validateCoupon(supabase: any, couponCode: string, orderTotal: number) {
-  const { data: coupon, error } = await supabase
-    .from('coupons')
-    .select('*')
-    .eq('code', couponCode.toUpperCase())
-    .eq('is_active', true)
-    .single();
+interface CouponResult {
+  valid: boolean;
+  error?: string;
+  coupon_id?: string;
+  code?: string;
+  discount_type?: 'percent' | 'fixed' | 'free_shipping';
+  discount_percent?: number;
+  free_shipping?: boolean;
+  stacks_with_seller?: boolean;
+  discount_amount?: number;
+  min_purchase?: number;
+}
 
-  if (error || !coupon) {
-    logStep('Coupon not found or inactive', { couponCode });
-    return null;
+interface CouponItem {
+  product_id: string;
+  price: number;
+  quantity: number;
+}
+
+// Customer-facing message for each coupon engine error code
+function couponErrorMessage(result: CouponResult): string {
+  switch (result.error) {
+    case 'not_started':
+      return 'Este cupom ainda não está válido';
+    case 'expired':
+      return 'Este cupom expirou';
+    case 'usage_limit':
+      return 'Este cupom atingiu o limite de uso';
+    case 'customer_limit':
+      return 'Você já atingiu o limite de uso deste cupom';
+    case 'min_purchase':
+      return `Valor mínimo para usar este cupom: R$ ${Number(result.min_purchase || 0).toFixed(2)}`;
+    case 'not_applicable':
+      return 'Este cupom não é válido para os produtos do carrinho';
+    default:
+      return 'Cupom inválido ou expirado';
   }
+}
 
-  const now = new Date();
-  if (coupon.valid_from && new Date(coupon.valid_from) > now) {
-    logStep('Coupon not yet valid', { valid_from: coupon.valid_from });
-    return null;
+// Validate coupon with the server-side coupon engine
+async function validateCoupon(supabase: any, couponCode: string, orderTotal: number, userId: string | null, email: string, items: CouponItem[]): Promise<CouponResult> {
+  const { data, error } = await supabase.rpc('validate_coupon', {
+    p_code: couponCode,
+    p_subtotal: orderTotal,
+    p_user_id: userId,
+    p_email: email,
+    p_items: items
+  });
+
+  if (error) {
+    logStep('Coupon validation error', { error: error.message });
+    throw new Error('Erro ao validar cupom');
   }
 
-  if (coupon.valid_until && new Date(coupon.valid_until) < now) {
-    logStep('Coupon expired', { valid_until: coupon.valid_until });
-    return null;
+  const result = data as CouponResult;
+  if (!result.valid) {
+    logStep('Coupon rejected', { couponCode, reason: result.error });
+    throw new Error(couponErrorMessage(result));
   }
 
-  if (coupon.max_uses && coupon.used_count >= coupon.max_uses) {
-    logStep('Coupon usage limit reached', { max_uses: coupon.max_uses, used_count: coupon.used_count });
-    return null;
+  return result;
+}
+
+// Validate seller
+interface LoyaltyResult {
+  valid: boolean;
+  error?: string;
+  points?: number;
+  discount_amount?: number;
+  min_redeem_points?: number;
+}
+
+function loyaltyErrorMessage(result: LoyaltyResult): string {
+  switch (result.error) {
+    case 'disabled':
+      return 'O programa de fidelidade não está ativo';
+    case 'below_minimum':
+      return `Resgate mínimo: ${result.min_redeem_points || 0} pontos`;
+    default:
+      return 'Saldo de pontos insuficiente';
   }
+}
 
-  if (coupon.min_purchase && orderTotal < coupon.min_purchase) {
-    logStep('Order total below minimum purchase', { min_purchase: coupon.min_purchase, orderTotal });
-    return null;
+// Quote a loyalty points redemption. Points belong to an account, so only the
+// signed-in owner (checked against the request JWT) can spend them
+async function validateLoyaltyRedemption(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  userId: string | null | undefined,
+  points: number,
+  subtotal: number
+): Promise<LoyaltyResult> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: authData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+  if (!userId || authData.user?.id !== userId) {
+    logStep('SECURITY: Loyalty redemption without a matching signed-in user');
+    throw new Error('Faça login para usar seus pontos');
   }
 
-  return coupon;
+  const { data, error } = await supabase.rpc('quote_loyalty_redemption', {
+    p_user_id: userId,
+    p_subtotal: subtotal,
+    p_points: points
+  });
+
+  if (error) {
+    logStep('Loyalty quote error', { error: error.message });
+    throw new Error('Erro ao validar pontos');
+  }
+
+  const result = data as LoyaltyResult;
+  if (!result.valid || result.points !== points) {
+    logStep('Loyalty redemption rejected', { error: result.error || 'insufficient_points' });
+    throw new Error(loyaltyErrorMessage(result));
+  }
+
+  return result;
 }
 
-// Validate seller
 async function validateSeller(supabase: any, sellerCode: string) {
   const { data: seller, error } = await supabase
     .from('sellers')
@@ -148,13 +246,6 @@ async function validateSeller(supabase: any, sellerCode: string) {
   return seller;
 }
 
-// Get installment plan based on order total
-function getInstallments(total: number): number {
-  if (total < 100) return 1;
-  if (total < 200) return 3;
-  return 6;
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -173,12 +264,6 @@ serve(async (req) => {
   try {
     logStep('Function started');
 
-    const mercadoPagoToken = Deno.env.get("MERCADOPAGO_ACCESS_TOKEN");
-    
-    if (!mercadoPagoToken) {
-      throw new Error("Mercado Pago credentials not configured");
-    }
-
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -197,7 +282,16 @@ serve(async (req) => {
     const requestData = validationResult.data;
     logStep('Validated request', { itemCount: requestData.items.length, shippingMethod: requestData.shippingMethod });
 
-    const { items, customerEmail, customerName, customerPhone, shippingAddress, shippingCost, shippingMethod, couponCode, sellerCode, success_url, cancel_url, user_id } = requestData;
+    const { items, customerEmail, customerName, customerPhone, customerDocument, shippingAddress, shippingCost, shippingMethod, couponCode, sellerCode, success_url, cancel_url, user_id, loyaltyPoints: requestedLoyaltyPoints, abandonedCartId, paymentMethod } = requestData;
+    const isPix = paymentMethod === 'pix';
+
+    // PIX: create-pix-charge only accepts the order with its confirmation token, so
+    // fail before the order, stock, coupon and points are touched
+    const internalSecret = Deno.env.get('INTERNAL_API_SECRET');
+    if (isPix && !internalSecret) {
+      logStep('ERROR: INTERNAL_API_SECRET not configured');
+      throw new Error("Server configuration error");
+    }
 
     // Validate URLs against allowed domains
     const allowedDomains = ["localhost", "lovableproject.com", "lovable.app", "calibrasil.com"];
@@ -225,6 +319,23 @@ serve(async (req) => {
       throw new Error("Failed to fetch product prices");
     }
 
+    const { data: variantRows, error: variantRowsError } = await supabase
+      .from('product_variants')
+      .select('id, product_id, color, model')
+      .in('product_id', productIds);
+
+    if (variantRowsError) {
+      throw new Error("Failed to fetch product variants");
+    }
+
+    // Active scheduled promotions (same source as the storefront prices)
+    const { data: promoPrices, error: promoError } = await supabase
+      .rpc('get_promotional_prices', { p_product_ids: productIds });
+
+    if (promoError) {
+      throw new Error("Failed to fetch promotional prices");
+    }
+
     // Create price lookup map
     const priceMap = new Map(products.map(p => [p.id, { price: p.price, image: p.image }]));
 
@@ -235,14 +346,15 @@ serve(async (req) => {
       if (!productData) {
         throw new Error(`Product not found: ${item.id}`);
       }
-      realItemsTotal += productData.price * item.quantity;
-      return { ...item, price: productData.price, image: item.image || productData.image };
+      const unitPrice = resolveUnitPrice(promoPrices || [], item.id, resolveVariantId(variantRows || [], item), productData.price);
+      realItemsTotal += unitPrice * item.quantity;
+      return { ...item, price: unitPrice, image: item.image || productData.image };
     });
 
     // Get store settings for shipping validation
     const { data: storeSettings } = await supabase
       .from('store_settings')
-      .select('free_shipping_threshold, standard_shipping_rate, shipping_mode')
+      .select('free_shipping_threshold, standard_shipping_rate, shipping_mode, installment_bands, max_installments, interest_free_installments')
       .single();
 
     // Determine real shipping cost based on shipping mode and method
@@ -274,25 +386,33 @@ serve(async (req) => {
       }
     }
 
-    logStep('Shipping calculated', { mode: storeSettings?.shipping_mode, method: shippingMethod, cost: realShippingCost });
-
     // Validate and apply coupon
+    const couponItems: CouponItem[] = validatedItems.map(item => ({
+      product_id: item.id,
+      price: item.price,
+      quantity: item.quantity
+    }));
     let discountAmount = 0;
-    let validatedCoupon = null;
+    let validatedCoupon: CouponResult | null = null;
     if (couponCode) {
-      validatedCoupon = await validateCoupon(supabase, couponCode, realItemsTotal);
-      if (validatedCoupon) {
-        discountAmount = (realItemsTotal * validatedCoupon.discount_percent) / 100;
-        logStep('Coupon applied', { code: couponCode, discount: discountAmount });
+      validatedCoupon = await validateCoupon(supabase, couponCode, realItemsTotal, user_id || null, customerEmail, couponItems);
+      discountAmount = Number(validatedCoupon.discount_amount || 0);
+      if (validatedCoupon.free_shipping) {
+        realShippingCost = 0;
       }
+      logStep('Coupon applied', { code: validatedCoupon.code, type: validatedCoupon.discount_type, discount: discountAmount });
     }
 
+    logStep('Shipping calculated', { mode: storeSettings?.shipping_mode, method: shippingMethod, cost: realShippingCost });
+
     // Validate and apply seller discount
     let sellerDiscountAmount = 0;
     let validatedSeller = null;
     if (sellerCode) {
       validatedSeller = await validateSeller(supabase, sellerCode);
-      if (validatedSeller && validatedSeller.discount_percent > 0) {
+      if (validatedSeller && validatedCoupon && !validatedCoupon.stacks_with_seller) {
+        logStep('Seller applied (tracking only, coupon does not stack)', { code: sellerCode });
+      } else if (validatedSeller && validatedSeller.discount_percent > 0) {
         sellerDiscountAmount = ((realItemsTotal - discountAmount) * validatedSeller.discount_percent) / 100;
         logStep('Seller applied', { code: sellerCode, discount: sellerDiscountAmount });
       } else if (validatedSeller) {
@@ -300,9 +420,20 @@ serve(async (req) => {
       }
     }
 
-    const totalDiscount = discountAmount + sellerDiscountAmount;
+    // Validate loyalty points redemption (applied on items after coupon and seller discounts)
+    let loyaltyPoints = 0;
+    let loyaltyDiscount = 0;
+    const loyaltySubtotal = realItemsTotal - discountAmount - sellerDiscountAmount;
+    if (requestedLoyaltyPoints) {
+      const loyalty = await validateLoyaltyRedemption(supabase, req, user_id, requestedLoyaltyPoints, loyaltySubtotal);
+      loyaltyPoints = requestedLoyaltyPoints;
+      loyaltyDiscount = Number(loyalty.discount_amount || 0);
+      logStep('Loyalty points applied', { points: loyaltyPoints, discount: loyaltyDiscount });
+    }
+
+    const totalDiscount = discountAmount + sellerDiscountAmount + loyaltyDiscount;
     const finalTotal = realItemsTotal + realShippingCost - totalDiscount;
-    logStep('Order totals calculated', { itemsTotal: realItemsTotal, shipping: realShippingCost, couponDiscount: discountAmount, sellerDiscount: sellerDiscountAmount, final: finalTotal });
+    logStep('Order totals calculated', { itemsTotal: realItemsTotal, shipping: realShippingCost, couponDiscount: discountAmount, sellerDiscount: sellerDiscountAmount, loyaltyDiscount, final: finalTotal });
 
     // Create order in database
     // IMPORTANT: Always save guest_email for email delivery, even for logged-in users
@@ -312,10 +443,11 @@ serve(async (req) => {
         user_id: user_id || null,
         guest_email: customerEmail, // Always save email for order confirmation delivery
         phone: customerPhone,
+        customer_document: customerDocument,
         total: finalTotal,
         status: 'pending',
         payment_status: 'pending',
-        payment_method: 'mercadopago',
+        payment_method: paymentMethod ?? 'mercadopago',
         payment_gateway: 'mercadopago',
         shipping_address: shippingAddress,
         shipping_method: shippingMethod || 'standard',
@@ -323,7 +455,10 @@ serve(async (req) => {
         coupon_code: validatedCoupon?.code || null,
         discount_amount: discountAmount,
         seller_code: validatedSeller?.code || null,
-        seller_discount_amount: sellerDiscountAmount
+        seller_discount_amount: sellerDiscountAmount,
+        loyalty_points_redeemed: loyaltyPoints,
+        loyalty_discount_amount: loyaltyDiscount,
+        abandoned_cart_id: abandonedCartId || null
       })
       .select()
       .single();
@@ -341,7 +476,8 @@ serve(async (req) => {
       product_id: item.id,
       product_name: `${item.name}${item.color ? ` - ${item.color}` : ''}${item.model ? ` - ${item.model}` : ''}`,
       quantity: item.quantity,
-      price: item.price
+      price: item.price,
+      product_variant_id: resolveVariantId(variantRows || [], item)
     }));
 
     const { error: itemsError } = await supabase
@@ -350,56 +486,93 @@ serve(async (req) => {
 
     if (itemsError) {
       logStep('Error creating order items', { error: itemsError });
+      // Without items the reservation below would hold no stock
+      await supabase.from('orders').delete().eq('id', order.id);
+      throw new Error("Failed to create order items");
+    }
+
+    // ESTOQUE: Reservar até o pagamento. A preferência expira em 24h, mas Pix/boleto
+    // gerados nela podem ficar pendentes por até 3 dias. No Pix na página a reserva
+    // vence com a cobrança (create-pix-charge ajusta para o vencimento exato)
+    const reservationMs = isPix ? getPixExpirationMinutes() * 60 * 1000 : 72 * 60 * 60 * 1000;
+    const { error: reserveError } = await supabase.rpc('reserve_order_stock', {
+      p_order_id: order.id,
+      p_expires_at: new Date(Date.now() + reservationMs).toISOString()
+    });
+
+    if (reserveError) {
+      logStep('Stock reservation failed', { error: reserveError.message });
+      await supabase.from('orders').delete().eq('id', order.id);
+      throw new Error("Um ou mais produtos não têm estoque suficiente");
+    }
+
+    // CUPOM: Resgate atômico (trava o cupom e conta o uso para este pedido)
+    if (validatedCoupon) {
+      const { data: redemption, error: redeemError } = await supabase.rpc('redeem_coupon', {
+        p_code: validatedCoupon.code,
+        p_order_id: order.id,
+        p_subtotal: realItemsTotal,
+        p_user_id: user_id || null,
+        p_email: customerEmail,
+        p_items: couponItems
+      });
+
+      const redeemResult = redemption as CouponResult | null;
+      if (redeemError || !redeemResult?.valid) {
+        logStep('Coupon redemption failed', { error: redeemError?.message || redeemResult?.error });
+        await supabase.from('orders').delete().eq('id', order.id);
+        throw new Error(redeemResult ? couponErrorMessage(redeemResult) : 'Erro ao validar cupom');
+      }
+    }
+
+    // FIDELIDADE: Debita os pontos (trava o saldo do cliente para este pedido)
+    if (loyaltyPoints > 0) {
+      const { data: loyaltyRedemption, error: loyaltyError } = await supabase.rpc('redeem_loyalty_points', {
+        p_order_id: order.id,
+        p_user_id: user_id,
+        p_points: loyaltyPoints,
+        p_subtotal: loyaltySubtotal
+      });
+
+      const loyaltyResult = loyaltyRedemption as LoyaltyResult | null;
+      if (loyaltyError || !loyaltyResult?.valid) {
+        logStep('Loyalty redemption failed', { error: loyaltyError?.message || loyaltyResult?.error });
+        await supabase.from('orders').delete().eq('id', order.id);
+        throw new Error(loyaltyResult ? loyaltyErrorMessage(loyaltyResult) : 'Erro ao validar pontos');
+      }
     }
 
     // Build Mercado Pago preference items
-    const mercadoPagoItems = validatedItems.map((item) => ({
+    const mercadoPagoItems: GatewayLineItem[] = validatedItems.map((item) => ({
       id: item.id,
-      title: `${item.name}${item.color ? ` - ${item.color}` : ''}${item.model ? ` - ${item.model}` : ''}`.substring(0, 256),
-      description: `${item.name}`.substring(0, 256),
-      picture_url: item.image || undefined,
+      title: `${item.name}${item.color ? ` - ${item.color}` : ''}${item.model ? ` - ${item.model}` : ''}`,
+      description: item.name,
+      imageUrl: item.image || undefined,
       quantity: item.quantity,
-      unit_price: Number(item.price),
-      currency_id: 'BRL'
+      unitPrice: Number(item.price)
     }));
 
     // Add shipping as an item if applicable
     if (realShippingCost > 0) {
       mercadoPagoItems.push({
-        id: 'shipping',
+        id: SHIPPING_LINE_ID,
         title: shippingMethod === 'pickup' ? 'Retirada na Loja' : 'Frete',
         description: 'Custo de envio',
-        picture_url: undefined,
         quantity: 1,
-        unit_price: Number(realShippingCost),
-        currency_id: 'BRL'
+        unitPrice: Number(realShippingCost)
       });
     }
 
-    // Add coupon discount as negative item if applicable
+    // Discounts are not items: the adapter spreads them over the item prices
+    const discounts: GatewayDiscount[] = [];
     if (discountAmount > 0) {
-      mercadoPagoItems.push({
-        id: 'discount',
-        title: `Desconto (${validatedCoupon?.code})`,
-        description: `Cupom de desconto: ${validatedCoupon?.discount_percent}%`,
-        picture_url: undefined,
-        quantity: 1,
-        unit_price: -Number(discountAmount),
-        currency_id: 'BRL'
-      });
+      discounts.push({ id: 'discount', title: `Desconto (${validatedCoupon?.code})`, amount: Number(discountAmount) });
     }
-
-    // Add seller discount as negative item if applicable
     if (sellerDiscountAmount > 0) {
-      mercadoPagoItems.push({
-        id: 'seller-discount',
-        title: `Desconto Vendedor (${validatedSeller?.code})`,
-        description: `Desconto do vendedor: ${validatedSeller?.discount_percent}%`,
-        picture_url: undefined,
-        quantity: 1,
-        unit_price: -Number(sellerDiscountAmount),
-        currency_id: 'BRL'
-      });
+      discounts.push({ id: 'seller-discount', title: `Desconto Vendedor (${validatedSeller?.code})`, amount: Number(sellerDiscountAmount) });
+    }
+    if (loyaltyDiscount > 0) {
+      discounts.push({ id: 'loyalty-discount', title: `Pontos de fidelidade (${loyaltyPoints})`, amount: Number(loyaltyDiscount) });
     }
 
     // Parse customer name
@@ -407,132 +580,72 @@ serve(async (req) => {
     const firstName = nameParts[0] || 'Cliente';
     const lastName = nameParts.slice(1).join(' ') || 'Cali';
 
-    // Clean phone number
-    const cleanPhone = customerPhone.replace(/\D/g, '');
-    const phoneAreaCode = cleanPhone.substring(0, 2) || '11';
-    const phoneNumber = cleanPhone.substring(2) || '999999999';
-
-    // Get max installments based on total
-    const maxInstallments = getInstallments(finalTotal);
+    // Installments allowed for the total (store_settings price bands)
+    const { maxInstallments, interestFreeInstallments } = getInstallmentPlan(finalTotal, storeSettings);
 
     // Generate secure confirmation token
-    const internalSecret = Deno.env.get('INTERNAL_API_SECRET');
     let confirmationToken = '';
     if (internalSecret) {
       confirmationToken = await generateHMAC(order.id, internalSecret);
     }
 
-    // Build Mercado Pago Preference payload
-    const preferencePayload: any = {
-      items: mercadoPagoItems,
-      payer: {
-        name: firstName,
-        surname: lastName,
-        email: customerEmail,
-        phone: {
-          area_code: phoneAreaCode,
-          number: phoneNumber
-        }
-      },
-      back_urls: {
-        success: `${success_url}?order_id=${order.id}&token=${confirmationToken}&gateway=mercadopago`,
-        failure: cancel_url,
-        pending: `${success_url}?order_id=${order.id}&token=${confirmationToken}&gateway=mercadopago&status=pending`
-      },
-      auto_return: 'approved',
-      external_reference: order.id,
-      notification_url: `${supabaseUrl}/functions/v1/mercadopago-webhook`,
-      statement_descriptor: 'CALIBRASIL',
-      payment_methods: {
-        excluded_payment_types: [],
-        excluded_payment_methods: [],
-        installments: maxInstallments,
-        default_installments: 1
-      },
-      expires: true,
-      expiration_date_from: new Date().toISOString(),
-      expiration_date_to: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
-    };
-
-    // Only add shipping address if not pickup and address fields are present
-    if (shippingAddress && !isPickup && shippingAddress.street && shippingAddress.houseNumber && shippingAddress.zip) {
-      preferencePayload.payer.address = {
-        street_name: shippingAddress.street,
-        street_number: parseInt(shippingAddress.houseNumber) || 1,
-        zip_code: shippingAddress.zip.replace(/\D/g, '')
-      };
-      preferencePayload.shipments = {
-        receiver_address: {
-          street_name: shippingAddress.street,
-          street_number: parseInt(shippingAddress.houseNumber) || 1,
-          zip_code: shippingAddress.zip.replace(/\D/g, ''),
-          city_name: shippingAddress.city || '',
-          state_name: shippingAddress.state || ''
-        }
-      };
+    // PIX: Pedido criado; a cobrança (QR code) sai de create-pix-charge com este token
+    if (isPix) {
+      logStep('✅ Pix order created', { orderId: order.id, total: finalTotal });
+      return new Response(
+        JSON.stringify({ success: true, orderId: order.id, token: confirmationToken }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
+      );
     }
 
-    // DEBUG: Log token type (masked for security)
-    const tokenType = mercadoPagoToken.startsWith('APP_USR-') ? 'PRODUCTION' : 
-                      mercadoPagoToken.startsWith('TEST-') ? 'SANDBOX' : 'UNKNOWN';
-    logStep('🔑 TOKEN INFO', { 
-      type: tokenType, 
-      last4: mercadoPagoToken.slice(-4),
-      length: mercadoPagoToken.length 
-    });
-
-    // DEBUG: Log full preference payload
-    logStep('📦 FULL PREFERENCE PAYLOAD', JSON.stringify(preferencePayload, null, 2));
+    logStep('Creating Mercado Pago preference', { reference: order.id, paymentMethod, maxInstallments, interestFreeInstallments });
 
-    logStep('Creating Mercado Pago preference', { reference: order.id, maxInstallments });
-
-    // Create Mercado Pago Preference
-    const mercadoPagoApiUrl = 'https://api.mercadopago.com/checkout/preferences';
-    
-    const mercadoPagoResponse = await fetch(mercadoPagoApiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${mercadoPagoToken}`
-      },
-      body: JSON.stringify(preferencePayload)
-    });
-
-    const responseText = await mercadoPagoResponse.text();
-    
-    // DEBUG: Log full raw response
-    logStep('📥 MERCADO PAGO RAW RESPONSE', { 
-      status: mercadoPagoResponse.status, 
-      statusText: mercadoPagoResponse.statusText,
-      headers: Object.fromEntries(mercadoPagoResponse.headers.entries()),
-      body: responseText 
-    });
-    
-    let mercadoPagoData;
+    let checkout: GatewayCheckout;
     try {
-      mercadoPagoData = responseText ? JSON.parse(responseText) : {};
-    } catch (parseError) {
-      logStep('Failed to parse Mercado Pago response', { responseText });
-      throw new Error(`Erro na resposta do Mercado Pago: ${responseText || 'Resposta vazia'}`);
-    }
-
-    // DEBUG: Log parsed response
-    logStep('📥 MERCADO PAGO PARSED RESPONSE', JSON.stringify(mercadoPagoData, null, 2));
-
-    if (!mercadoPagoResponse.ok) {
-      logStep('❌ Mercado Pago error', { error: mercadoPagoData });
-      
-      // Update order status to failed
+      checkout = await mercadoPagoGateway.createCheckout({
+        orderId: order.id,
+        method: paymentMethod ?? null,
+        items: mercadoPagoItems,
+        discounts,
+        total: finalTotal,
+        customer: {
+          email: customerEmail,
+          firstName,
+          lastName,
+          phone: customerPhone,
+          document: customerDocument
+        },
+        // Only add shipping address if not pickup and address fields are present
+        address: shippingAddress && !isPickup && shippingAddress.street && shippingAddress.houseNumber && shippingAddress.zip
+          ? {
+              street: shippingAddress.street,
+              number: shippingAddress.houseNumber,
+              complement: shippingAddress.complement || null,
+              neighborhood: shippingAddress.neighborhood || null,
+              city: shippingAddress.city || null,
+              state: shippingAddress.state || null,
+              zip: shippingAddress.zip
+            }
+          : null,
+        successUrl: `${success_url}?order_id=${order.id}&token=${confirmationToken}&gateway=mercadopago`,
+        pendingUrl: `${success_url}?order_id=${order.id}&token=${confirmationToken}&gateway=mercadopago&status=pending`,
+        cancelUrl: cancel_url,
+        notificationUrl: `${supabaseUrl}/functions/v1/mercadopago-webhook`,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+        maxInstallments,
+        interestFreeInstallments
+      });
+    } catch (gatewayError) {
+      // Cancelling the order releases its stock reservation
       await supabase
         .from('orders')
         .update({ status: 'cancelled', payment_status: 'failed' })
         .eq('id', order.id);
-      
-      throw new Error(mercadoPagoData.message || 'Erro ao criar checkout Mercado Pago');
+      throw gatewayError;
     }
 
     // Update order with Mercado Pago preference ID
-    const preferenceId = mercadoPagoData.id;
+    const preferenceId = checkout.id;
     await supabase
       .from('orders')
       .update({ 
@@ -542,23 +655,14 @@ serve(async (req) => {
       })
       .eq('id', order.id);
 
-    // Get checkout URL (init_point for production, sandbox_init_point for testing)
-    const checkoutUrl = mercadoPagoData.init_point || mercadoPagoData.sandbox_init_point;
+    logStep('✅ Preference created successfully', { preferenceId, url: checkout.url });
 
-    logStep('✅ Preference created successfully', { preferenceId, url: checkoutUrl });
-
-    // Return with debug info
     return new Response(
       JSON.stringify({ 
         success: true,
-        url: checkoutUrl,
+        url: checkout.url,
         orderId: order.id,
-        preferenceId,
-        debug: {
-          tokenType,
-          preferencePayload,
-          mercadoPagoResponse: mercadoPagoData
-        }
+        preferenceId
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
     );
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { DocumentSchema } from "../_shared/document.ts";
+import { resolveUnitPrice, resolveVariantId } from "../_shared/variants.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -67,6 +69,7 @@ const CartItemSchema = z.object({
   image: z.string().url().optional().or(z.literal("")),
   size: z.string().max(50).optional(),
   color: z.string().max(50).optional(),
+  model: z.string().max(50).optional(),
 });
 
 const ShippingAddressSchema = z.object({
@@ -81,6 +84,7 @@ const OrderRequestSchema = z.object({
   items: z.array(CartItemSchema).min(1, "Carrinho vazio").max(50, "Limite de 50 itens por pedido"),
   email: z.string().email("Email inválido").max(255, "Email muito longo"),
   phone: z.string().regex(brazilianPhoneRegex, "Telefone inválido").optional().or(z.literal("")),
+  customer_document: DocumentSchema,
   shipping_address: ShippingAddressSchema,
   user_id: z.string().uuid().optional().nullable(),
   total: z.number().positive(),
@@ -165,13 +169,36 @@ serve(async (req) => {
       throw new Error('Um ou mais produtos não foram encontrados');
     }
 
+    // Fetch variants to link each order item to the exact color/model bought
+    const { data: variantRows, error: variantRowsError } = await supabase
+      .from('product_variants')
+      .select('id, product_id, color, model')
+      .in('product_id', productIds);
+
+    if (variantRowsError) {
+      console.error('Error fetching variants:', variantRowsError);
+      throw new Error('Erro ao validar variações');
+    }
+
+    // Active scheduled promotions (same source as the storefront prices)
+    const { data: promoPrices, error: promoError } = await supabase
+      .rpc('get_promotional_prices', { p_product_ids: productIds });
+
+    if (promoError) {
+      console.error('Error fetching promotional prices:', promoError);
+      throw new Error('Erro ao validar preços');
+    }
+
+    const unitPriceFor = (item: { id: string; color?: string; model?: string }, basePrice: number) =>
+      resolveUnitPrice(promoPrices || [], item.id, resolveVariantId(variantRows || [], item), basePrice);
+
     // Calculate total using real prices from database
     const itemsTotal = body.items.reduce((sum, item) => {
       const realProduct = products.find(p => p.id === item.id);
       if (!realProduct) {
         throw new Error(`Produto não encontrado: ${item.id}`);
       }
-      return sum + (realProduct.price * item.quantity);
+      return sum + (unitPriceFor(item, realProduct.price) * item.quantity);
     }, 0);
     
     const finalTotal = itemsTotal + (body.shipping || 0);
@@ -189,6 +216,7 @@ serve(async (req) => {
       user_id: body.user_id || null,
       guest_email: body.email, // Sempre salvar email, mesmo para usuários logados
       phone: body.phone || null,
+      customer_document: body.customer_document,
       total: finalTotal,
       status: 'pending',
       payment_status: 'pending',
@@ -218,8 +246,9 @@ serve(async (req) => {
         order_id: order.id,
         product_id: item.id,
         product_name: realProduct.name,
-        price: realProduct.price, // Use price from database
+        price: unitPriceFor(item, realProduct.price), // Use price from database (with active promotions)
         quantity: item.quantity,
+        product_variant_id: resolveVariantId(variantRows || [], item),
       };
     });
 
@@ -236,6 +265,17 @@ serve(async (req) => {
       throw new Error(`Erro ao criar itens do pedido: ${itemsError.message}`);
     }
 
+    // ESTOQUE: Reservar as variações na loja de origem até o pagamento
+    const { error: reserveError } = await supabase.rpc('reserve_order_stock', {
+      p_order_id: order.id,
+    });
+
+    if (reserveError) {
+      console.error('[CREATE-ORDER] Stock reservation failed:', reserveError.message);
+      await supabase.from('orders').delete().eq('id', order.id);
+      throw new Error('Um ou mais produtos não têm estoque suficiente');
+    }
+
     console.log('Order completed successfully:', order.id);
 
     // Check for low stock after order and send alert if needed
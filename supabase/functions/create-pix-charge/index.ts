@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getPaymentGateway, isGatewayName } from "../_shared/gateways/index.ts";
+import { getPixExpirationMinutes } from "../_shared/pix.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const RequestSchema = z.object({
+  orderId: z.string().uuid("ID do pedido inválido"),
+  token: z.string().min(1, "Token é obrigatório"),
+});
+
+// HMAC-SHA256 token (same as the order confirmation token)
+async function generateHMAC(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[CREATE-PIX-CHARGE] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+interface PixChargeRow {
+  gateway_charge_id: string;
+  qr_code: string;
+  amount: number;
+  expires_at: string;
+}
+
+const chargeResponse = (charge: PixChargeRow) => ({
+  success: true,
+  chargeId: charge.gateway_charge_id,
+  qrCode: charge.qr_code,
+  amount: Number(charge.amount),
+  expiresAt: charge.expires_at,
+});
+
+// Creates (or returns the active) Pix charge of an order placed by
+// create-mercadopago-checkout with paymentMethod "pix", through the order's gateway
+// adapter. The checkout shows the QR code and polls get-order-confirmation until
+// the gateway webhook confirms.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const validation = RequestSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return jsonResponse({ error: validation.error.errors[0]?.message || "Dados inválidos" }, 400);
+    }
+    const { orderId, token } = validation.data;
+
+    const secret = Deno.env.get("INTERNAL_API_SECRET");
+    if (!secret) {
+      logStep("ERROR: INTERNAL_API_SECRET not configured");
+      return jsonResponse({ error: "Server configuration error" }, 500);
+    }
+
+    if (token !== await generateHMAC(orderId, secret)) {
+      logStep("Invalid token", { orderId });
+      return jsonResponse({ error: "Invalid or expired token" }, 403);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "", {
+      auth: { persistSession: false },
+    });
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("id, user_id, guest_email, total, status, payment_status, payment_gateway, customer_document")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (orderError || !order) {
+      return jsonResponse({ error: "Pedido não encontrado" }, 404);
+    }
+
+    if (order.payment_status === "paid") {
+      return jsonResponse({ success: true, paid: true });
+    }
+
+    if (order.status === "cancelled" || !["pending", "awaiting_payment"].includes(order.payment_status || "pending")) {
+      logStep("Order not payable", { orderId, status: order.status, paymentStatus: order.payment_status });
+      return jsonResponse({ error: "Este pedido não aceita mais pagamento", expired: order.payment_status === "expired" }, 409);
+    }
+
+    // Active charge: show the same QR code again (page reload, retry)
+    const { data: existing } = await supabase
+      .from("pix_charges")
+      .select("gateway_charge_id, qr_code, amount, expires_at")
+      .eq("order_id", orderId)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (existing) {
+      if (new Date(existing.expires_at) <= new Date()) {
+        return jsonResponse({ error: "Cobrança Pix expirada", expired: true }, 409);
+      }
+      logStep("Returning active charge", { orderId, chargeId: existing.gateway_charge_id });
+      return jsonResponse(chargeResponse(existing));
+    }
+
+    const gatewayName = order.payment_gateway || "mercadopago";
+    const gateway = isGatewayName(gatewayName) ? getPaymentGateway(gatewayName) : null;
+    if (!gateway?.createPixCharge) {
+      logStep("Gateway without in-page Pix", { orderId, gateway: gatewayName });
+      return jsonResponse({ error: `Pix não disponível para o gateway ${gatewayName}` }, 422);
+    }
+
+    let email = order.guest_email as string | null;
+    let fullName = "";
+    if (order.user_id) {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", order.user_id)
+        .maybeSingle();
+      fullName = profile?.full_name?.trim() || "";
+
+      if (!email) {
+        const { data: authData } = await supabase.auth.admin.getUserById(order.user_id);
+        email = authData?.user?.email || null;
+      }
+    }
+
+    if (!email) {
+      return jsonResponse({ error: "Email do cliente não encontrado" }, 422);
+    }
+
+    const [firstName, ...lastNames] = fullName.split(/\s+/);
+    const expiresAt = new Date(Date.now() + getPixExpirationMinutes() * 60 * 1000);
+
+    logStep("Creating charge", { orderId, gateway: gateway.name, amount: order.total });
+
+    const charge = await gateway.createPixCharge({
+      orderId,
+      amount: Number(order.total),
+      description: `Pedido #${orderId.substring(0, 8).toUpperCase()} - Cali Brasil`,
+      expiresAt,
+      notificationUrl: `${supabaseUrl}/functions/v1/${gateway.name}-webhook`,
+      payer: {
+        email,
+        firstName: firstName || undefined,
+        lastName: lastNames.join(" ") || undefined,
+        document: order.customer_document,
+      },
+    });
+
+    // idx_pix_charges_order_pending allows one pending charge per order: when a concurrent
+    // request saved first (usually the same charge, thanks to the gateway idempotency key),
+    // its charge wins and both callers get its QR code
+    const { data: saved, error: saveError } = await supabase
+      .from("pix_charges")
+      .upsert({
+        order_id: orderId,
+        gateway: gateway.name,
+        gateway_charge_id: charge.id,
+        amount: Number(order.total),
+        qr_code: charge.qrCode,
+        qr_code_base64: charge.qrCodeBase64,
+        status: "pending",
+        expires_at: charge.expiresAt,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: "gateway,gateway_charge_id" })
+      .select("gateway_charge_id, qr_code, amount, expires_at")
+      .single();
+
+    if (saveError?.code === "23505") {
+      const { data: winner } = await supabase
+        .from("pix_charges")
+        .select("gateway_charge_id, qr_code, amount, expires_at")
+        .eq("order_id", orderId)
+        .eq("status", "pending")
+        .maybeSingle();
+
+      if (winner) {
+        logStep("Concurrent charge already saved", { orderId, chargeId: winner.gateway_charge_id, discarded: charge.id });
+        return jsonResponse(chargeResponse(winner));
+      }
+    }
+
+    if (saveError || !saved) {
+      throw new Error(saveError?.message || "Falha ao salvar cobrança Pix");
+    }
+
+    await supabase
+      .from("orders")
+      .update({
+        ...(charge.paymentId ? { [gateway.paymentColumn]: charge.paymentId } : {}),
+        payment_method: "pix",
+        status: "awaiting_payment",
+        payment_status: "awaiting_payment",
+      })
+      .eq("id", orderId)
+      .in("payment_status", ["pending", "awaiting_payment"]);
+
+    // ESTOQUE: A reserva vence junto com a cobrança
+    await supabase
+      .from("stock_reservations")
+      .update({ expires_at: charge.expiresAt })
+      .eq("order_id", orderId)
+      .eq("status", "reserved");
+
+    logStep("Charge created", { orderId, chargeId: charge.id, expiresAt: charge.expiresAt });
+
+    return jsonResponse(chargeResponse(saved));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
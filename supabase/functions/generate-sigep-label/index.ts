@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolvePackage, type PackageEstimate } from "../_shared/packing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,8 +9,9 @@ const corsHeaders = {
 
 interface GenerateLabelRequest {
   orderId?: string;
+  returnRequestId?: string; // reverse label: customer -> store, for an approved return request
   serviceType?: "PAC" | "SEDEX";
-  weight?: number;
+  weight?: number; // kg; estimated from the order items when omitted
   declaredValue?: number;
   test?: boolean;
   offline?: boolean;
@@ -29,6 +31,23 @@ interface ShippingAddress {
   cep?: string;
 }
 
+interface SenderData {
+  name: string;
+  address: string;
+  neighborhood?: string;
+  city: string;
+  state: string;
+  zipcode: string;
+  phone: string;
+}
+
+interface ReturnItemRow {
+  quantity: number;
+  order_items: { product_id: string | null; product_variant_id: string | null; price: number } | null;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
 interface CwsCredentials {
   user: string;
   password: string;
@@ -278,6 +297,7 @@ async function createCwsPrePosting(
   shippingAddress: ShippingAddress,
   senderData: any,
   weight: number,
+  pacote: PackageEstimate,
   declaredValue: number
 ): Promise<PrePostingResult> {
   const baseUrl = credentials.environment === "production"
@@ -322,6 +342,9 @@ async function createCwsPrePosting(
     },
     objetoPostal: {
       peso: Math.max(1, Math.round(weight * 1000)), // Weight in grams
+      altura: pacote.height_cm,
+      largura: pacote.width_cm,
+      comprimento: pacote.length_cm,
       valorDeclarado: declaredValue > 0 ? Math.round(declaredValue * 100) : undefined, // Value in cents
     },
     codigoRastreio: "", // CWS will generate
@@ -412,6 +435,284 @@ function formatTrackingCode(code: string): string {
   return code;
 }
 
+async function getStoreAddress(supabase: SupabaseClient): Promise<SenderData> {
+  const { data: storeSettings } = await supabase
+    .from("store_settings")
+    .select("store_name, store_pickup_address")
+    .limit(1)
+    .maybeSingle();
+
+  return {
+    name: storeSettings?.store_name || "Cali Beach Tech",
+    address: storeSettings?.store_pickup_address || "Shopping RioMar, Av. República do Líbano, 251 - Piso L1, Recife - PE",
+    city: "Recife",
+    state: "PE",
+    zipcode: Deno.env.get("CORREIOS_CEP_ORIGEM") || "51110-160",
+    phone: "",
+  };
+}
+
+async function requestLabel(
+  serviceType: "PAC" | "SEDEX",
+  offline: boolean,
+  order: unknown,
+  recipient: ShippingAddress,
+  senderData: SenderData,
+  weight: number,
+  pacote: PackageEstimate,
+  declaredValue: number
+): Promise<{ result: PrePostingResult; isOffline: boolean }> {
+  // CWS service codes: PAC = 03298, SEDEX = 03220
+  const serviceCode = serviceType === "SEDEX" ? "03220" : "03298";
+
+  if (offline) {
+    console.log("[CWS-LABEL] Modo OFFLINE solicitado");
+    const prefix = serviceType === "SEDEX" ? "NX" : "PM";
+    const timestamp = Date.now().toString().slice(-9);
+    return {
+      result: {
+        trackingCode: `OFFLINE-${prefix}${timestamp}`,
+        etiquetaNumber: `${prefix} ${timestamp.substring(0, 3)} ${timestamp.substring(3, 6)} ${timestamp.substring(6)} BR`,
+        isSimulated: true,
+        errorDetails: null,
+      },
+      isOffline: true,
+    };
+  }
+
+  const credentials = getCwsCredentials();
+  if (!credentials) {
+    console.log("[CWS-LABEL] Credenciais CWS não configuradas - modo simulado");
+    return { result: generateSimulatedLabel(serviceCode, "Credenciais CWS não configuradas"), isOffline: false };
+  }
+
+  // Get CWS token
+  const tokenResult = await getCwsToken(credentials);
+  if (!tokenResult) {
+    console.log("[CWS-LABEL] Falha na autenticação CWS - modo simulado");
+    return { result: generateSimulatedLabel(serviceCode, "Falha na autenticação CWS"), isOffline: false };
+  }
+
+  // Create pre-posting
+  const result = await createCwsPrePosting(
+    credentials,
+    tokenResult.token,
+    serviceCode,
+    order,
+    recipient,
+    senderData,
+    weight,
+    pacote,
+    declaredValue
+  );
+  return { result, isOffline: false };
+}
+
+// === Reverse label (returns) ===
+// The customer posts the returned items to the store: the customer's shipping
+// address is the sender and the store is the recipient. The original order's
+// tracking code and status are left untouched.
+async function generateReturnLabel(
+  supabase: SupabaseClient,
+  returnRequestId: string,
+  serviceType: "PAC" | "SEDEX",
+  offline: boolean
+): Promise<Response> {
+  console.log(`[CWS-LABEL] Gerando etiqueta reversa para devolução ${returnRequestId}, serviço: ${serviceType}`);
+
+  const { data: returnRequest, error: returnError } = await supabase
+    .from("return_requests")
+    .select("id, order_id, status")
+    .eq("id", returnRequestId)
+    .single();
+
+  if (returnError || !returnRequest) {
+    throw new Error("Solicitação de devolução não encontrada");
+  }
+
+  if (!["approved", "label_generated"].includes(returnRequest.status)) {
+    throw new Error("A solicitação precisa estar aprovada para gerar a etiqueta reversa");
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("*")
+    .eq("id", returnRequest.order_id)
+    .single();
+
+  if (orderError || !order) {
+    throw new Error("Pedido não encontrado");
+  }
+
+  const customerAddress = order.shipping_address as ShippingAddress | null;
+  const validationErrors = validateOrderData(order, customerAddress);
+  if (validationErrors.length > 0) {
+    throw new Error(`Dados incompletos: ${validationErrors.join("; ")}`);
+  }
+
+  const { data: returnItems } = await supabase
+    .from("return_request_items")
+    .select("quantity, order_items(product_id, product_variant_id, price)")
+    .eq("return_request_id", returnRequestId);
+
+  const items = ((returnItems || []) as ReturnItemRow[]).filter((item) => item.order_items?.product_id);
+  const pacote = await resolvePackage(
+    supabase,
+    items.map((item) => ({
+      product_id: item.order_items!.product_id!,
+      variant_id: item.order_items!.product_variant_id,
+      quantity: item.quantity,
+    }))
+  );
+  const weight = pacote.weight_grams / 1000;
+  const declaredValue = items.reduce(
+    (sum, item) => sum + Number(item.order_items!.price) * item.quantity,
+    0
+  );
+
+  const store = await getStoreAddress(supabase);
+  const customerName = customerAddress!.name ||
+    `${customerAddress!.firstName || ''} ${customerAddress!.lastName || ''}`.trim();
+
+  const senderData: SenderData = {
+    name: customerName,
+    address: `${customerAddress!.street || ""}, ${customerAddress!.number || "S/N"}`,
+    neighborhood: customerAddress!.neighborhood || "",
+    city: customerAddress!.city || "",
+    state: customerAddress!.state || "",
+    zipcode: customerAddress!.zip || customerAddress!.cep || "",
+    phone: order.phone || "",
+  };
+
+  const storeRecipient: ShippingAddress = {
+    name: store.name,
+    street: store.address.split(",")[0],
+    number: "S/N",
+    neighborhood: "",
+    city: store.city,
+    state: store.state,
+    zip: store.zipcode,
+  };
+
+  const { result, isOffline } = await requestLabel(
+    serviceType,
+    offline,
+    order,
+    storeRecipient,
+    senderData,
+    weight,
+    pacote,
+    declaredValue
+  );
+
+  console.log(`[CWS-LABEL] Etiqueta reversa gerada: ${result.trackingCode} (simulado: ${result.isSimulated})`);
+
+  const { error: updateError } = await supabase
+    .from("return_requests")
+    .update({
+      reverse_tracking_code: result.trackingCode,
+      reverse_label_number: result.etiquetaNumber,
+      status: "label_generated",
+      label_generated_at: new Date().toISOString(),
+    })
+    .eq("id", returnRequestId);
+
+  if (updateError) {
+    console.error("[CWS-LABEL] Erro ao atualizar devolução:", updateError);
+    throw new Error("Erro ao atualizar solicitação de devolução");
+  }
+
+  const { error: labelError } = await supabase
+    .from("shipping_labels")
+    .insert({
+      order_id: order.id,
+      tracking_code: result.trackingCode,
+      label_number: result.etiquetaNumber,
+      service_type: serviceType,
+      weight,
+      declared_value: declaredValue,
+      xml_request: "",
+      xml_response: `REVERSA ${returnRequestId}${result.isSimulated ? ` - SIMULADO: ${result.errorDetails || "offline"}` : ""}`,
+    });
+
+  if (labelError) {
+    console.error("[CWS-LABEL] Erro ao criar registro de etiqueta:", labelError);
+  }
+
+  // Send the posting code to the customer
+  let emailSent = false;
+  let emailErrorMsg: string | null = null;
+  const internalSecret = Deno.env.get("INTERNAL_API_SECRET");
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+
+  if (internalSecret && supabaseUrl && supabaseAnonKey) {
+    try {
+      const emailResponse = await fetch(`${supabaseUrl}/functions/v1/send-return-email`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${supabaseAnonKey}`,
+          "x-internal-secret": internalSecret,
+        },
+        body: JSON.stringify({ returnId: returnRequestId }),
+      });
+
+      const emailResult = await emailResponse.json();
+      emailSent = emailResponse.ok && emailResult.success;
+      if (!emailSent) {
+        emailErrorMsg = emailResult.error || "Falha no envio";
+      }
+      console.log(`[CWS-LABEL] Email de devolução ${emailSent ? "✓ enviado" : "✗ falhou"}`);
+    } catch (err) {
+      emailErrorMsg = err instanceof Error ? err.message : String(err);
+      console.error("[CWS-LABEL] Erro ao enviar email de devolução:", err);
+    }
+  }
+
+  const credentials = getCwsCredentials();
+  const environment = isOffline ? "offline" : (credentials?.environment || "simulated");
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      reverse: true,
+      returnRequestId,
+      trackingCode: result.trackingCode,
+      etiquetaNumber: result.etiquetaNumber,
+      environment,
+      isSimulated: result.isSimulated,
+      isOffline,
+      errorDetails: result.errorDetails,
+      emailSent,
+      emailError: emailErrorMsg,
+      apiType: "cws",
+      sender: senderData,
+      receiver: {
+        name: store.name,
+        address: store.address,
+        neighborhood: "",
+        city: store.city,
+        state: store.state,
+        zipcode: store.zipcode,
+        phone: store.phone,
+      },
+      orderData: {
+        orderId: order.id,
+        weight,
+        dimensions: {
+          height: pacote.height_cm,
+          width: pacote.width_cm,
+          length: pacote.length_cm,
+        },
+        declaredValue,
+        serviceType,
+      },
+    }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
 // === Main Handler ===
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -430,7 +731,7 @@ serve(async (req) => {
     );
 
     const body: GenerateLabelRequest = await req.json();
-    const { orderId, serviceType = "PAC", weight = 0.5, declaredValue, test = false, offline = false } = body;
+    const { orderId, returnRequestId, serviceType = "PAC", weight: requestedWeight, declaredValue, test = false, offline = false } = body;
 
     // === TEST MODE ===
     if (test) {
@@ -473,6 +774,11 @@ serve(async (req) => {
       );
     }
 
+    // === REVERSE LABEL (RETURNS) ===
+    if (returnRequestId) {
+      return await generateReturnLabel(supabase, returnRequestId, serviceType, offline);
+    }
+
     // === LABEL GENERATION ===
     if (!orderId) {
       throw new Error("orderId é obrigatório");
@@ -520,72 +826,40 @@ serve(async (req) => {
 
     const recipientZip = (shippingAddress!.zip || shippingAddress!.cep || "").replace(/\D/g, "");
 
-    // Get sender data
-    const { data: storeSettings } = await supabase
-      .from("store_settings")
-      .select("store_name, store_pickup_address")
-      .limit(1)
-      .maybeSingle();
+    // Package estimate from the order items' registered weight/dimensions
+    const { data: orderItems } = await supabase
+      .from("order_items")
+      .select("product_id, product_variant_id, quantity")
+      .eq("order_id", orderId);
+
+    const pacote = await resolvePackage(
+      supabase,
+      (orderItems || [])
+        .filter((item) => item.product_id)
+        .map((item) => ({
+          product_id: item.product_id,
+          variant_id: item.product_variant_id,
+          quantity: item.quantity,
+        }))
+    );
+    const weight = requestedWeight && requestedWeight > 0 ? requestedWeight : pacote.weight_grams / 1000;
 
-    const senderName = storeSettings?.store_name || "Cali Beach Tech";
-    const senderAddress = storeSettings?.store_pickup_address || "Shopping RioMar, Av. República do Líbano, 251 - Piso L1, Recife - PE";
-    const senderCep = Deno.env.get("CORREIOS_CEP_ORIGEM") || "51110-160";
-
-    const senderData = {
-      name: senderName,
-      address: senderAddress,
-      city: "Recife",
-      state: "PE",
-      zipcode: senderCep,
-      phone: "",
-    };
+    console.log(`[CWS-LABEL] Pacote: ${weight.toFixed(3)} kg, ${pacote.length_cm}x${pacote.width_cm}x${pacote.height_cm} cm`);
 
-    // CWS service codes: PAC = 03298, SEDEX = 03220
-    const serviceCode = serviceType === "SEDEX" ? "03220" : "03298";
+    // Get sender data
+    const senderData = await getStoreAddress(supabase);
 
     // Generate label
-    let result: PrePostingResult;
-    let isOffline = false;
-
-    if (offline) {
-      console.log("[CWS-LABEL] Modo OFFLINE solicitado");
-      const prefix = serviceType === "SEDEX" ? "NX" : "PM";
-      const timestamp = Date.now().toString().slice(-9);
-      result = {
-        trackingCode: `OFFLINE-${prefix}${timestamp}`,
-        etiquetaNumber: `${prefix} ${timestamp.substring(0, 3)} ${timestamp.substring(3, 6)} ${timestamp.substring(6)} BR`,
-        isSimulated: true,
-        errorDetails: null,
-      };
-      isOffline = true;
-    } else {
-      const credentials = getCwsCredentials();
-      
-      if (!credentials) {
-        console.log("[CWS-LABEL] Credenciais CWS não configuradas - modo simulado");
-        result = generateSimulatedLabel(serviceCode, "Credenciais CWS não configuradas");
-      } else {
-        // Get CWS token
-        const tokenResult = await getCwsToken(credentials);
-        
-        if (!tokenResult) {
-          console.log("[CWS-LABEL] Falha na autenticação CWS - modo simulado");
-          result = generateSimulatedLabel(serviceCode, "Falha na autenticação CWS");
-        } else {
-          // Create pre-posting
-          result = await createCwsPrePosting(
-            credentials,
-            tokenResult.token,
-            serviceCode,
-            order,
-            shippingAddress!,
-            senderData,
-            weight,
-            declaredValue || order.total
-          );
-        }
-      }
-    }
+    const { result, isOffline } = await requestLabel(
+      serviceType,
+      offline,
+      order,
+      shippingAddress!,
+      senderData,
+      weight,
+      pacote,
+      declaredValue || order.total
+    );
 
     console.log(`[CWS-LABEL] Etiqueta gerada: ${result.trackingCode} (simulado: ${result.isSimulated})`);
 
@@ -599,6 +873,11 @@ serve(async (req) => {
         shipping_method: serviceType,
         sigep_etiqueta: result.etiquetaNumber,
         shipping_weight: weight,
+        shipping_dimensions: {
+          height_cm: pacote.height_cm,
+          width_cm: pacote.width_cm,
+          length_cm: pacote.length_cm,
+        },
         declared_value: declaredValue || order.total,
         status: order.status === "processing" ? "shipped" : order.status,
       })
@@ -685,6 +964,14 @@ serve(async (req) => {
       }
     }
 
+    // Authorized NF-e key, printed on the label
+    const { data: invoice } = await supabase
+      .from("order_invoices")
+      .select("access_key")
+      .eq("order_id", order.id)
+      .eq("status", "authorized")
+      .maybeSingle();
+
     // Build recipient name for response
     const recipientName = shippingAddress!.name || 
       `${shippingAddress!.firstName || ''} ${shippingAddress!.lastName || ''}`.trim() || 
@@ -719,8 +1006,14 @@ serve(async (req) => {
         orderData: {
           orderId: order.id,
           weight,
+          dimensions: {
+            height: pacote.height_cm,
+            width: pacote.width_cm,
+            length: pacote.length_cm,
+          },
           declaredValue: declaredValue || order.total,
           serviceType,
+          invoiceKey: invoice?.access_key || null,
         },
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
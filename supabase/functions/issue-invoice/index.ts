@@ -0,0 +1,265 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildNfeXml,
+  getEmitterConfig,
+  getNfeEmitter,
+  NfeValidationError,
+  type NfeInput,
+} from "../_shared/nfe.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-internal-secret",
+};
+
+interface ShippingAddress {
+  firstName?: string;
+  lastName?: string;
+  name?: string;
+  street?: string;
+  number?: string;
+  houseNumber?: string;
+  complement?: string;
+  neighborhood?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  cep?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// IBGE city code for the recipient address (required by the NF-e layout)
+async function lookupCityCode(cep: string): Promise<string | null> {
+  if (cep.length !== 8) return null;
+  try {
+    const response = await fetch(`https://viacep.com.br/ws/${cep}/json/`);
+    const data = await response.json();
+    return data.erro ? null : data.ibge || null;
+  } catch (err) {
+    console.error("[NFE] Erro ao buscar código IBGE do CEP:", err);
+    return null;
+  }
+}
+
+// Issues the NF-e (or NFC-e, when the customer has no CPF/CNPJ) of a paid order.
+// Called by the payment webhooks and from the admin order dialog (retry).
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Internal call (webhooks) via secret header, otherwise admin/manager JWT
+    const internalSecret = req.headers.get("x-internal-secret");
+    const expectedSecret = Deno.env.get("INTERNAL_API_SECRET");
+    const isInternalCall = internalSecret && expectedSecret && internalSecret === expectedSecret;
+
+    if (!isInternalCall) {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        console.error("[NFE] No authorization header");
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
+
+      const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+      if (authError || !user) {
+        console.error("[NFE] Auth error:", authError);
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
+
+      const { data: roleData, error: roleError } = await supabaseAuth
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .single();
+
+      if (roleError || !roleData || !["admin", "manager"].includes(roleData.role)) {
+        console.error("[NFE] User does not have permission to issue invoices");
+        return jsonResponse({ error: "Forbidden - Admin or Manager role required" }, 403);
+      }
+    }
+
+    const { orderId } = await req.json();
+    if (!orderId || typeof orderId !== "string") {
+      return jsonResponse({ error: "orderId é obrigatório" }, 400);
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("id, user_id, guest_email, total, shipping_cost, payment_status, payment_method, customer_document, shipping_address, shipping_method")
+      .eq("id", orderId)
+      .single();
+
+    if (orderError || !order) {
+      return jsonResponse({ error: "Pedido não encontrado" }, 404);
+    }
+
+    if (order.payment_status !== "paid") {
+      return jsonResponse({ error: "A nota só pode ser emitida para pedidos pagos" }, 409);
+    }
+
+    const config = getEmitterConfig();
+    const emitter = getNfeEmitter();
+    const document = order.customer_document as string | null;
+    const model = document ? "55" : "65";
+
+    const { data: invoice, error: claimError } = await supabase.rpc("claim_order_invoice", {
+      p_order_id: order.id,
+      p_model: model,
+      p_series: config.series,
+    });
+
+    if (claimError || !invoice) {
+      throw new Error(claimError?.message || "Falha ao reservar número da nota");
+    }
+
+    if (invoice.status === "authorized") {
+      console.log(`[NFE] Pedido ${order.id.substring(0, 8)} já tem nota autorizada (${invoice.number})`);
+      return jsonResponse({ success: true, alreadyIssued: true, invoice });
+    }
+
+    // A "processing" invoice is sent again as is: same number and access key, and
+    // the provider dedupes by order reference, so a stuck attempt can be retried
+
+    const failInvoice = async (status: "error" | "rejected", message: string) => {
+      await supabase
+        .from("order_invoices")
+        .update({ status, error_message: message, provider: emitter.name, updated_at: new Date().toISOString() })
+        .eq("id", invoice.id);
+    };
+
+    try {
+      const { data: items, error: itemsError } = await supabase
+        .from("order_items")
+        .select("product_id, product_variant_id, product_name, quantity, price, product:products (ncm, cfop, tax_origin)")
+        .eq("order_id", order.id);
+
+      if (itemsError) throw new Error(itemsError.message);
+
+      const address = (order.shipping_address || {}) as ShippingAddress;
+      let recipientName = address.name || `${address.firstName || ""} ${address.lastName || ""}`.trim();
+      let email = order.guest_email as string | null;
+
+      if (order.user_id) {
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("full_name")
+          .eq("user_id", order.user_id)
+          .maybeSingle();
+        recipientName = recipientName || profile?.full_name || "";
+
+        if (!email) {
+          const { data: authData } = await supabase.auth.admin.getUserById(order.user_id);
+          email = authData?.user?.email || null;
+        }
+      }
+
+      const cep = (address.zip || address.cep || "").replace(/\D/g, "");
+
+      const input: NfeInput = {
+        orderId: order.id,
+        model,
+        number: invoice.number,
+        issuedAt: new Date(),
+        recipient: {
+          document,
+          name: recipientName || "Consumidor",
+          email,
+          street: address.street || "",
+          number: address.number || address.houseNumber || "",
+          complement: address.complement || "",
+          neighborhood: address.neighborhood || "",
+          city: address.city || "",
+          cityCode: model === "55" ? await lookupCityCode(cep) : null,
+          uf: address.state || "",
+          cep,
+        },
+        items: (items || []).map((item) => {
+          const product = item.product as { ncm: string | null; cfop: string | null; tax_origin: number } | null;
+          return {
+            code: (item.product_variant_id || item.product_id || "").substring(0, 8).toUpperCase() || "AVULSO",
+            name: item.product_name,
+            ncm: product?.ncm || null,
+            cfop: product?.cfop || null,
+            origin: product?.tax_origin ?? 0,
+            quantity: item.quantity,
+            unitPrice: Number(item.price),
+          };
+        }),
+        shipping: order.shipping_method === "pickup" ? 0 : Number(order.shipping_cost || 0),
+        total: Number(order.total),
+        paymentMethod: order.payment_method,
+      };
+
+      const doc = buildNfeXml(config, input);
+      console.log(`[NFE] Emitindo ${model === "55" ? "NF-e" : "NFC-e"} ${invoice.number} (${emitter.name}) para pedido ${order.id.substring(0, 8)}`);
+
+      const result = await emitter.emit(doc, input);
+
+      if (result.status === "rejected") {
+        console.error(`[NFE] Nota ${invoice.number} rejeitada: ${result.message}`);
+        await failInvoice("rejected", result.message || "Rejeitada pelo emissor");
+        return jsonResponse({ success: false, status: "rejected", error: result.message }, 422);
+      }
+
+      let danfePath: string | null = null;
+      if (result.danfePdf) {
+        danfePath = `${order.id}/${result.accessKey}.pdf`;
+        const { error: uploadError } = await supabase.storage
+          .from("invoices")
+          .upload(danfePath, result.danfePdf, { contentType: "application/pdf", upsert: true });
+
+        if (uploadError) {
+          console.error("[NFE] Erro ao salvar DANFE:", uploadError);
+          danfePath = null;
+        }
+      }
+
+      const { data: updated, error: updateError } = await supabase
+        .from("order_invoices")
+        .update({
+          status: result.status,
+          provider: emitter.name,
+          access_key: result.accessKey,
+          protocol: result.protocol,
+          xml: result.xml,
+          danfe_path: danfePath,
+          error_message: null,
+          issued_at: result.status === "authorized" ? new Date().toISOString() : null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", invoice.id)
+        .select()
+        .single();
+
+      if (updateError) throw new Error(updateError.message);
+
+      console.log(`[NFE] Nota ${invoice.number} ${result.status === "authorized" ? "autorizada" : "em processamento"}: ${result.accessKey}`);
+
+      return jsonResponse({ success: true, invoice: updated });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Erro desconhecido";
+      console.error(`[NFE] Falha ao emitir nota ${invoice.number}:`, message);
+      await failInvoice("error", message);
+      return jsonResponse({ success: false, status: "error", error: message }, err instanceof NfeValidationError ? 422 : 502);
+    }
+  } catch (error) {
+    console.error("[NFE] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
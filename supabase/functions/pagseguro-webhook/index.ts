@@ -0,0 +1,169 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { pagSeguroGateway } from "../_shared/gateways/pagseguro.ts";
+import { WebhookVerificationError, type GatewayWebhookEvent } from "../_shared/gateways/types.ts";
+import { handleOrderPaid, releaseOrderStock, reverseOrderLoyalty } from "../_shared/order-payment.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-authenticity-token",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[PAGSEGURO-WEBHOOK] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// PagBank order notifications (notification_urls / payment_notification_urls of
+// the checkout created by create-checkout-session). Same flow as mercadopago-webhook.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep('Webhook received');
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let event: GatewayWebhookEvent | null;
+    try {
+      event = await pagSeguroGateway.verifyWebhook(req);
+    } catch (verificationError) {
+      if (verificationError instanceof WebhookVerificationError) {
+        console.error("SECURITY: PagSeguro notification rejected:", verificationError.message);
+        return jsonResponse({ error: verificationError.message }, 401);
+      }
+      throw verificationError;
+    }
+
+    if (!event) {
+      logStep('Ignoring notification without charge');
+      return jsonResponse({ received: true, ignored: true });
+    }
+
+    // IDEMPOTÊNCIA: Um evento por cobrança e status
+    const { data: alreadyProcessed } = await supabase.rpc('check_webhook_processed', {
+      p_event_id: event.id,
+      p_provider: 'pagseguro'
+    });
+
+    if (alreadyProcessed) {
+      logStep('Event already processed, skipping', { id: event.id });
+      return jsonResponse({ received: true, duplicate: true });
+    }
+
+    const orderId = event.orderId;
+    if (!orderId) {
+      logStep('No order ID (reference_id) in notification');
+      return jsonResponse({ received: true, error: 'No order reference' });
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      logStep('Order not found', { orderId, error: orderError?.message });
+      throw new Error(`Order not found: ${orderId}`);
+    }
+
+    if (order.payment_gateway !== 'pagseguro') {
+      logStep('Order is not a PagSeguro order', { gateway: order.payment_gateway });
+      return jsonResponse({ received: true, skipped: true });
+    }
+
+    let { paymentStatus: newPaymentStatus, orderStatus: newOrderStatus } = pagSeguroGateway.mapStatus(event.status);
+    // Cancelling a paid charge is how PagBank refunds (refund-order or the PagBank panel)
+    if (event.status === 'CANCELED' && ['paid', 'partially_refunded', 'refunded'].includes(order.payment_status ?? '')) {
+      newPaymentStatus = 'refunded';
+      newOrderStatus = 'cancelled';
+    }
+    // A partial refund keeps the charge PAID
+    if (event.status === 'PAID' && order.payment_status === 'partially_refunded') {
+      newPaymentStatus = 'partially_refunded';
+      newOrderStatus = order.status;
+    }
+    const shouldSendEmails = newPaymentStatus === 'paid' && order.payment_status !== 'paid';
+
+    logStep('Updating order status', { orderId, newPaymentStatus, newOrderStatus, paymentMethod: event.paymentMethod });
+
+    const { error: updateError } = await supabase
+      .from('orders')
+      .update({
+        payment_status: newPaymentStatus,
+        status: newOrderStatus,
+        pagseguro_transaction_id: event.paymentId,
+        ...(event.paymentMethod ? { payment_method: event.paymentMethod } : {})
+      })
+      .eq('id', orderId);
+
+    if (updateError) {
+      logStep('Error updating order', { error: updateError.message });
+      throw new Error("Failed to update order");
+    }
+
+    // PIX: Fechar a cobrança exibida no checkout (create-pix-charge guarda o id do QR code,
+    // não o da cobrança, então a busca é pelo pedido)
+    if (newPaymentStatus === 'paid' || newPaymentStatus === 'failed') {
+      await supabase
+        .from('pix_charges')
+        .update({
+          status: newPaymentStatus === 'paid' ? 'paid' : 'cancelled',
+          paid_at: newPaymentStatus === 'paid' ? new Date().toISOString() : null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('gateway', 'pagseguro')
+        .eq('order_id', orderId)
+        .eq('status', 'pending');
+    }
+
+    if (newPaymentStatus === 'refunded' && order.payment_status !== 'refunded') {
+      await reverseOrderLoyalty(supabase, orderId, logStep);
+    }
+
+    // E-mails, cupom, estoque, NF-e e alerta de estoque baixo
+    if (shouldSendEmails) {
+      await handleOrderPaid(supabase, order, logStep);
+    }
+
+    if (newPaymentStatus === 'failed') {
+      await releaseOrderStock(supabase, orderId, `payment_${event.status.toLowerCase()}`, logStep);
+    }
+
+    logStep('Webhook processed successfully', { orderId, newStatus: newPaymentStatus });
+
+    // IDEMPOTÊNCIA: Marcar evento como processado
+    await supabase.rpc('mark_webhook_processed', {
+      p_event_id: event.id,
+      p_provider: 'pagseguro',
+      p_event_type: event.type,
+      p_payload: { orderId, status: newPaymentStatus }
+    });
+
+    // AUDITORIA: Registrar webhook processado
+    await supabase.rpc('log_audit', {
+      p_user_id: null,
+      p_action: 'webhook_processed',
+      p_entity_type: 'pagseguro_event',
+      p_entity_id: event.paymentId,
+      p_metadata: { event_type: event.type, status: event.status, order_id: orderId }
+    });
+
+    return jsonResponse({ received: true, orderId, status: newPaymentStatus });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep('ERROR', { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
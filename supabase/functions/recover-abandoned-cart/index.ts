@@ -0,0 +1,149 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Rate limiting
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT_MAX = 10;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+function checkRateLimit(clientIP: string): boolean {
+  const now = Date.now();
+  const record = rateLimitMap.get(clientIP);
+
+  if (!record || now > record.resetTime) {
+    rateLimitMap.set(clientIP, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
+    return true;
+  }
+
+  if (record.count >= RATE_LIMIT_MAX) {
+    return false;
+  }
+
+  record.count++;
+  return true;
+}
+
+// HMAC-SHA256 token generation/verification (same token as send-abandoned-cart-email)
+async function generateHMAC(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[RECOVER-ABANDONED-CART] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Recovery link from the abandoned cart emails: returns the cart contents so the
+// storefront can rebuild CartContext, plus the recovery coupon while it is usable.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const clientIP = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+                     req.headers.get('cf-connecting-ip') ||
+                     'unknown';
+
+    if (!checkRateLimit(clientIP)) {
+      logStep("Rate limit exceeded", { ip: clientIP });
+      return jsonResponse({ error: "Too many requests. Please try again later." }, 429);
+    }
+
+    const { cart_id, token } = await req.json();
+
+    if (!cart_id || !token) {
+      return jsonResponse({ error: "cart_id and token are required" }, 400);
+    }
+
+    const secret = Deno.env.get("INTERNAL_API_SECRET");
+    if (!secret) {
+      logStep("ERROR: INTERNAL_API_SECRET not configured");
+      return jsonResponse({ error: "Server configuration error" }, 500);
+    }
+
+    const expectedToken = await generateHMAC(`abandoned-cart:${cart_id}`, secret);
+    if (token !== expectedToken) {
+      logStep("Invalid token", { cart_id });
+      return jsonResponse({ error: "Invalid or expired link" }, 403);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: cart, error: cartError } = await supabaseAdmin
+      .from("abandoned_carts")
+      .select("id, items, email, recovered, closed_at, recovery_coupon_code")
+      .eq("id", cart_id)
+      .maybeSingle();
+
+    if (cartError) {
+      logStep("Error fetching cart", { error: cartError.message });
+      return jsonResponse({ error: "Failed to fetch cart" }, 500);
+    }
+
+    if (!cart) {
+      return jsonResponse({ error: "Cart not found" }, 404);
+    }
+
+    if (cart.recovered || cart.closed_at) {
+      logStep("Cart already completed", { cart_id });
+      return jsonResponse({ completed: true });
+    }
+
+    let couponCode: string | null = null;
+    if (cart.recovery_coupon_code) {
+      const { data: coupon } = await supabaseAdmin
+        .from("coupons")
+        .select("code, is_active, valid_until, max_uses, used_count")
+        .eq("code", cart.recovery_coupon_code)
+        .maybeSingle();
+
+      const isUsable = coupon?.is_active
+        && (!coupon.valid_until || new Date(coupon.valid_until) > new Date())
+        && (coupon.max_uses === null || (coupon.used_count ?? 0) < coupon.max_uses);
+
+      couponCode = isUsable ? coupon.code : null;
+    }
+
+    logStep("Cart recovered", { cart_id, hasCoupon: !!couponCode });
+
+    return jsonResponse({
+      cart: {
+        id: cart.id,
+        items: cart.items,
+        email: cart.email,
+        coupon_code: couponCode,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
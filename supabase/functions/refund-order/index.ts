@@ -0,0 +1,354 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getPaymentGateway, toCents, type GatewayName, type GatewayRefund } from "../_shared/gateways/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : "";
+  console.log(`[REFUND-ORDER] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Business errors are returned with 200 so the admin sees the message
+const refundError = (error: string, details?: unknown) =>
+  jsonResponse({ success: false, error, details });
+
+// amount: custom value; when omitted the value of the selected items is refunded.
+// manual: records a refund already made outside the gateways (e.g. Pix transfer).
+const refundSchema = z.object({
+  orderId: z.string().uuid(),
+  amount: z.number().positive().max(1000000).optional(),
+  items: z.array(z.object({
+    order_item_id: z.string().uuid(),
+    quantity: z.number().int().positive().max(1000),
+  })).max(100).default([]),
+  reason: z.string().trim().max(500).optional(),
+  restock: z.boolean().default(false),
+  returnRequestId: z.string().uuid().optional(),
+  manual: z.boolean().default(false),
+});
+
+type Gateway = GatewayName | "manual";
+
+interface RefundableOrder {
+  id: string;
+  total: number;
+  refunded_amount: number | null;
+  payment_status: string | null;
+  payment_method: string | null;
+  payment_gateway: string | null;
+  stripe_payment_intent_id: string | null;
+  mercadopago_payment_id: string | null;
+  pagseguro_transaction_id: string | null;
+}
+
+function resolveGateway(order: RefundableOrder, manual: boolean): Gateway | null {
+  if (manual) return "manual";
+  if (order.payment_gateway === "mercadopago" || order.mercadopago_payment_id) return "mercadopago";
+  if (order.payment_gateway === "pagseguro" || order.pagseguro_transaction_id) return "pagseguro";
+  if (order.payment_gateway === "stripe" || order.stripe_payment_intent_id) return "stripe";
+  // Stripe orders created before payment_gateway was recorded
+  if (!order.payment_gateway && ["card", "pix", "boleto"].includes(order.payment_method ?? "")) return "stripe";
+  return null;
+}
+
+// Admin-initiated refund of an order, fully or partially, through the gateway
+// the order was paid with. Records an order_refunds row, optionally puts the
+// refunded items back in stock and writes to audit_logs.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Não autorizado" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: "Não autorizado" }, 401);
+    }
+
+    // Refunds follow canEditPayments: admins only
+    const { data: roleData } = await supabaseUser
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (roleData?.role !== "admin") {
+      return jsonResponse({ error: "Apenas administradores podem reembolsar pedidos" }, 403);
+    }
+
+    const parsed = refundSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return refundError("Dados inválidos", parsed.error.flatten().fieldErrors);
+    }
+    const { orderId, items, reason, restock, returnRequestId, manual } = parsed.data;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("*")
+      .eq("id", orderId)
+      .single();
+
+    if (orderError || !order) {
+      return refundError("Pedido não encontrado");
+    }
+
+    if (!["paid", "partially_refunded"].includes(order.payment_status ?? "")) {
+      return refundError("Só é possível reembolsar pedidos pagos");
+    }
+
+    const { data: orderItems } = await supabase
+      .from("order_items")
+      .select("id, product_name, price, quantity, restocked_quantity")
+      .eq("order_id", orderId);
+
+    const itemMap = new Map((orderItems || []).map((item) => [item.id, item]));
+    for (const item of items) {
+      const orderItem = itemMap.get(item.order_item_id);
+      if (!orderItem) {
+        return refundError("Item não pertence ao pedido");
+      }
+      if (item.quantity > orderItem.quantity) {
+        return refundError(`Quantidade inválida para ${orderItem.product_name}`);
+      }
+      if (restock && item.quantity > orderItem.quantity - orderItem.restocked_quantity) {
+        return refundError(`${orderItem.product_name} já foi devolvido ao estoque`);
+      }
+    }
+
+    const itemsValue = items.reduce(
+      (sum, item) => sum + Number(itemMap.get(item.order_item_id)!.price) * item.quantity,
+      0
+    );
+    const amount = parsed.data.amount ?? itemsValue;
+    const refundable = Number(order.total) - Number(order.refunded_amount || 0);
+
+    if (amount <= 0) {
+      return refundError("Informe os itens ou o valor do reembolso");
+    }
+    if (toCents(amount) > toCents(refundable)) {
+      return refundError(`Valor acima do disponível para reembolso (R$ ${refundable.toFixed(2)})`);
+    }
+
+    const gateway = resolveGateway(order, manual);
+    if (!gateway) {
+      return refundError("Gateway de pagamento não identificado. Registre o reembolso como manual.");
+    }
+
+    logStep("Refund requested", { orderId, amount, gateway, items: items.length, restock, by: user.id });
+
+    // Add the amount to refunded_amount with the order locked, so concurrent refunds
+    // cannot go over the total; given back if the gateway refuses
+    const { data: claimedTotal, error: claimError } = await supabase.rpc("claim_order_refund", {
+      p_order_id: orderId,
+      p_amount: amount,
+    });
+    if (claimError) {
+      logStep("Refund claim rejected", { orderId, amount, error: claimError.message });
+      return refundError(claimError.message);
+    }
+
+    const refundRowId = crypto.randomUUID();
+    let result: GatewayRefund;
+    try {
+      if (gateway === "manual") {
+        result = { refundId: null, status: "succeeded" };
+      } else {
+        const paymentGateway = getPaymentGateway(gateway);
+        result = await paymentGateway.refund({
+          orderId: order.id,
+          paymentId: order[paymentGateway.paymentColumn],
+          amount,
+          idempotencyKey: refundRowId,
+        });
+        logStep("Gateway refund created", { gateway, refundId: result.refundId, status: result.status });
+      }
+    } catch (gatewayError) {
+      const message = gatewayError instanceof Error ? gatewayError.message : String(gatewayError);
+      logStep("Gateway refund failed", { orderId, gateway, error: message });
+
+      const { error: releaseError } = await supabase.rpc("release_order_refund", { p_order_id: orderId, p_amount: amount });
+      if (releaseError) {
+        logStep("Error releasing refund claim", { error: releaseError.message });
+      }
+
+      await supabase.from("order_refunds").insert({
+        id: refundRowId,
+        order_id: orderId,
+        return_request_id: returnRequestId ?? null,
+        amount,
+        gateway,
+        status: "failed",
+        reason: reason || null,
+        items,
+        error_message: message,
+        created_by: user.id,
+      });
+
+      return refundError(message);
+    }
+
+    // From here on the money has moved: record everything, only log secondary failures
+    const refundedTotal = Number(claimedTotal);
+    const isFullRefund = toCents(refundedTotal) >= toCents(Number(order.total));
+
+    const { error: refundInsertError } = await supabase.from("order_refunds").insert({
+      id: refundRowId,
+      order_id: orderId,
+      return_request_id: returnRequestId ?? null,
+      amount,
+      gateway,
+      gateway_refund_id: result.refundId,
+      status: result.status,
+      reason: reason || null,
+      items,
+      restocked: restock && items.length > 0,
+      created_by: user.id,
+    });
+    if (refundInsertError) {
+      logStep("Error recording refund", { error: refundInsertError.message });
+    }
+
+    const previousState = {
+      payment_status: order.payment_status,
+      refunded_amount: refundedTotal - amount,
+    };
+    const newState = {
+      payment_status: isFullRefund ? "refunded" : "partially_refunded",
+      refunded_amount: refundedTotal,
+    };
+
+    // refunded_amount was already added by claim_order_refund; a concurrent refund
+    // may have completed the total in the meantime, so never go back from refunded
+    const { error: orderUpdateError } = await supabase
+      .from("orders")
+      .update({ payment_status: newState.payment_status, updated_at: new Date().toISOString() })
+      .eq("id", orderId)
+      .neq("payment_status", "refunded");
+    if (orderUpdateError) {
+      logStep("Error updating order", { error: orderUpdateError.message });
+    }
+
+    // FIDELIDADE: Reembolso total estorna os pontos ganhos e devolve os resgatados
+    if (isFullRefund) {
+      const { error: loyaltyError } = await supabase.rpc("reverse_order_loyalty_points", { p_order_id: orderId });
+      if (loyaltyError) {
+        logStep("Error reversing loyalty points", { error: loyaltyError.message });
+      }
+    }
+
+    let restockedCount = 0;
+    if (restock) {
+      for (const item of items) {
+        const { error: restockError } = await supabase.rpc("restock_order_item", {
+          p_order_item_id: item.order_item_id,
+          p_quantity: item.quantity,
+        });
+        if (restockError) {
+          logStep("Error restocking item", { orderItemId: item.order_item_id, error: restockError.message });
+        } else {
+          restockedCount++;
+        }
+      }
+    }
+
+    if (returnRequestId) {
+      const { error: returnError } = await supabase
+        .from("return_requests")
+        .update({
+          status: "refunded",
+          refund_amount: amount,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("id", returnRequestId)
+        .eq("order_id", orderId);
+
+      if (returnError) {
+        logStep("Error updating return request", { error: returnError.message });
+      } else {
+        const internalSecret = Deno.env.get("INTERNAL_API_SECRET");
+        if (internalSecret) {
+          try {
+            await fetch(`${supabaseUrl}/functions/v1/send-return-email`, {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                "Authorization": `Bearer ${supabaseAnonKey}`,
+                "x-internal-secret": internalSecret,
+              },
+              body: JSON.stringify({ returnId: returnRequestId }),
+            });
+          } catch (emailError) {
+            logStep("Error sending return email", { error: String(emailError) });
+          }
+        }
+      }
+    }
+
+    await supabase.from("audit_logs").insert({
+      user_id: user.id,
+      action: "refund",
+      entity_type: "order",
+      entity_id: orderId,
+      previous_state: previousState,
+      new_state: newState,
+      metadata: {
+        refund_id: refundRowId,
+        amount,
+        gateway,
+        gateway_refund_id: result.refundId,
+        gateway_status: result.status,
+        items,
+        restocked: restockedCount,
+        reason: reason || null,
+        return_request_id: returnRequestId ?? null,
+      },
+      user_agent: req.headers.get("user-agent"),
+    });
+
+    logStep("Refund completed", { orderId, amount, gateway, full: isFullRefund, restocked: restockedCount });
+
+    return jsonResponse({
+      success: true,
+      refund: {
+        id: refundRowId,
+        amount,
+        gateway,
+        status: result.status,
+        gatewayRefundId: result.refundId,
+      },
+      paymentStatus: newState.payment_status,
+      refundedAmount: refundedTotal,
+      restocked: restockedCount,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[REFUND-ORDER] Error:", error);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,55 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-internal-secret",
+};
+
+// Scheduled job: releases stock reserved by unpaid orders whose reservation expired
+// (e.g. abandoned Mercado Pago checkouts, expired boletos) and cancels those orders.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify internal secret to prevent unauthorized access
+    // Header: x-internal-secret
+    // ENV: INTERNAL_API_SECRET
+    const internalSecret = req.headers.get("x-internal-secret");
+    const expectedSecret = Deno.env.get("INTERNAL_API_SECRET");
+
+    if (!internalSecret || internalSecret !== expectedSecret) {
+      console.error("[STOCK-RELEASE] Header x-internal-secret ausente ou inválido");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: releasedOrders, error } = await supabase.rpc('release_expired_stock_reservations');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log(`[STOCK-RELEASE] Released reservations for ${releasedOrders ?? 0} expired orders`);
+
+    return new Response(
+      JSON.stringify({ success: true, released: releasedOrders ?? 0 }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("[STOCK-RELEASE] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+});
@@ -20,13 +20,33 @@ interface CartItem {
 
 interface AbandonedCart {
   id: string;
-  user_id: string;
+  user_id: string | null;
+  email: string | null;
+  customer_name: string | null;
   items: CartItem[];
   total: number;
-  email_sent: boolean;
-  created_at: string;
+  emails_sent: number;
+  last_activity_at: string;
+  recovery_coupon_code: string | null;
 }
 
+interface SequenceSettings {
+  notify_abandoned_cart: boolean | null;
+  abandoned_cart_steps: number[];
+  abandoned_cart_coupon_enabled: boolean;
+  abandoned_cart_coupon_percent: number;
+  abandoned_cart_coupon_valid_days: number;
+}
+
+// Carts processed per run (due steps only)
+const CART_BATCH_SIZE = 100;
+
+const STEP_SUBJECTS = [
+  "🛒 Ei {{customer_name}}, você esqueceu algo!",
+  "🛒 {{customer_name}}, seu carrinho ainda está te esperando",
+  "🛒 Última chamada, {{customer_name}}! Seus produtos continuam no carrinho",
+];
+
 const formatPrice = (price: number): string => {
   return price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
 };
@@ -40,6 +60,37 @@ const escapeHtml = (str: string): string => {
     .replace(/'/g, '&#039;');
 };
 
+// items_html and coupon_section are built here and already escaped
+const replaceTemplateVariables = (template: string, variables: Record<string, string>): string => {
+  let result = template;
+  for (const [key, value] of Object.entries(variables)) {
+    const regex = new RegExp(`{{${key}}}`, 'g');
+    result = result.replace(regex, key === 'items_html' || key === 'coupon_section' ? value : escapeHtml(value));
+  }
+  return result;
+};
+
+// Same token as recover-abandoned-cart
+async function generateHMAC(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const buildRecoveryUrl = async (cartId: string, frontendUrl: string, secret: string): Promise<string> => {
+  const token = await generateHMAC(`abandoned-cart:${cartId}`, secret);
+  return `${frontendUrl}/cart/recover?cart=${cartId}&token=${token}`;
+};
+
 const isValidImageUrl = (url: string): boolean => {
   try {
     const parsed = new URL(url);
@@ -62,7 +113,18 @@ const generateItemsHtml = (items: CartItem[]): string => {
   `).join('');
 };
 
-const generateAbandonedCartEmail = (items: CartItem[], total: number): string => {
+const generateCouponSection = (couponCode: string | null, percent: number): string => {
+  if (!couponCode) return '';
+  return `
+    <div style="background: #fef3c7; border: 2px dashed #f59e0b; border-radius: 8px; padding: 20px; margin: 20px 0; text-align: center;">
+      <p style="margin: 0;">Para te ajudar a decidir, um presente: <strong>${percent}% OFF</strong></p>
+      <p style="margin: 10px 0 0; font-size: 22px; font-weight: bold; letter-spacing: 2px;">${escapeHtml(couponCode)}</p>
+      <p style="margin: 10px 0 0; color: #666; font-size: 12px;">Cupom de uso único, já aplicado pelo link abaixo.</p>
+    </div>
+  `;
+};
+
+const generateAbandonedCartEmail = (items: CartItem[], total: number, cartUrl: string, couponSection: string): string => {
   return `
     <!DOCTYPE html>
     <html>
@@ -101,8 +163,10 @@ const generateAbandonedCartEmail = (items: CartItem[], total: number): string =>
         </tfoot>
       </table>
 
+      ${couponSection}
+
       <div style="text-align: center; margin: 30px 0;">
-        <a href="https://calibrasil.com/cart" style="background: #16a34a; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+        <a href="${escapeHtml(cartUrl)}" style="background: #16a34a; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
           Finalizar Compra 🎉
         </a>
       </div>
@@ -117,6 +181,13 @@ const generateAbandonedCartEmail = (items: CartItem[], total: number): string =>
   `;
 };
 
+// Step N is due once N emails were sent and steps[N] hours passed since the last cart activity
+const isStepDue = (cart: AbandonedCart, steps: number[], now: number): boolean => {
+  const hours = steps[cart.emails_sent];
+  if (hours === undefined) return false;
+  return now - new Date(cart.last_activity_at).getTime() >= hours * 60 * 60 * 1000;
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -162,6 +233,32 @@ serve(async (req) => {
 
     console.log("[ABANDONED-CART] Starting check. testMode:", testMode, "testEmail:", testEmail);
 
+    const frontendUrl = Deno.env.get("FRONTEND_URL") || "https://calibrasil.com";
+
+    const { data: template } = await supabase
+      .from("email_templates")
+      .select("subject, html_content")
+      .eq("template_key", "abandoned_cart")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    const buildEmail = (
+      step: number,
+      variables: Record<string, string>,
+      items: CartItem[],
+      total: number
+    ): { subject: string; html: string } => {
+      // The template subject (editable in the admin) opens the sequence
+      const subject = replaceTemplateVariables(
+        template && step === 0 ? template.subject : STEP_SUBJECTS[Math.min(step, STEP_SUBJECTS.length - 1)],
+        variables
+      );
+      if (template) {
+        return { subject, html: replaceTemplateVariables(template.html_content, variables) };
+      }
+      return { subject, html: generateAbandonedCartEmail(items, total, variables.cart_url, variables.coupon_section) };
+    };
+
     // TEST MODE: Send mock data to test email immediately
     if (testMode && testEmail) {
       console.log("[ABANDONED-CART] TEST MODE - Sending mock email to:", testEmail);
@@ -172,11 +269,19 @@ serve(async (req) => {
       ];
       const mockTotal = 349.70;
 
+      const emailContent = buildEmail(0, {
+        customer_name: "Testador",
+        items_html: generateItemsHtml(mockItems),
+        total: formatPrice(mockTotal),
+        cart_url: `${frontendUrl}/cart`,
+        coupon_section: generateCouponSection("VOLTATESTE", 10),
+      }, mockItems, mockTotal);
+
       const emailResult = await resend.emails.send({
         from: "Cali Brasil <pedidos@calibrasil.com>",
         to: [testEmail],
-        subject: `🛒 [TESTE] Ei Testador, você esqueceu algo!`,
-        html: generateAbandonedCartEmail(mockItems, mockTotal),
+        subject: `[TESTE] ${emailContent.subject}`,
+        html: emailContent.html,
       });
 
       console.log("[ABANDONED-CART] TEST email sent:", emailResult);
@@ -192,85 +297,139 @@ serve(async (req) => {
       );
     }
 
-    // PRODUCTION MODE: Normal logic
-    // Find abandoned carts older than 2 hours that haven't been emailed
-    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    // PRODUCTION MODE: Send the next due step of each open cart
+    const { data: settingsData } = await supabase
+      .from('store_settings')
+      .select('notify_abandoned_cart, abandoned_cart_steps, abandoned_cart_coupon_enabled, abandoned_cart_coupon_percent, abandoned_cart_coupon_valid_days')
+      .limit(1)
+      .maybeSingle();
+
+    const settings = settingsData as SequenceSettings | null;
+
+    if (settings && settings.notify_abandoned_cart === false) {
+      console.log("[ABANDONED-CART] Disabled in store settings");
+      return new Response(
+        JSON.stringify({ success: true, message: "Abandoned cart emails disabled", processed: 0 }),
+        { headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const steps = settings?.abandoned_cart_steps?.length ? settings.abandoned_cart_steps : [1, 24, 72];
+    const firstStepCutoff = new Date(Date.now() - Math.min(...steps) * 60 * 60 * 1000).toISOString();
     
-    const { data: abandonedCarts, error: fetchError } = await supabase
+    const { data: openCarts, error: fetchError } = await supabase
       .from('abandoned_carts')
-      .select('*')
-      .eq('email_sent', false)
+      .select('id, user_id, email, customer_name, items, total, emails_sent, last_activity_at, recovery_coupon_code')
       .eq('recovered', false)
-      .lt('updated_at', twoHoursAgo);
+      .is('closed_at', null)
+      .lt('emails_sent', steps.length)
+      .lt('last_activity_at', firstStepCutoff)
+      .order('last_activity_at', { ascending: true })
+      .limit(500);
 
     if (fetchError) {
       console.error("[ABANDONED-CART] Error fetching carts:", fetchError);
       throw fetchError;
     }
 
-    console.log(`[ABANDONED-CART] Found ${abandonedCarts?.length || 0} abandoned carts`);
+    const now = Date.now();
+    const dueCarts = ((openCarts || []) as AbandonedCart[])
+      .filter(cart => isStepDue(cart, steps, now))
+      .slice(0, CART_BATCH_SIZE);
 
-    if (!abandonedCarts || abandonedCarts.length === 0) {
+    console.log(`[ABANDONED-CART] Found ${dueCarts.length} carts with a due step`);
+
+    if (dueCarts.length === 0) {
       return new Response(
         JSON.stringify({ success: true, message: "No abandoned carts to process", processed: 0 }),
         { headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
+    const secret = Deno.env.get("INTERNAL_API_SECRET")!;
     const results = [];
 
-    for (const cart of abandonedCarts) {
+    for (const cart of dueCarts) {
       try {
-        // Get user email from profiles
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('full_name')
-          .eq('user_id', cart.user_id)
-          .single();
-
-        // Get email from auth.users via edge function workaround - use user_id to get email
-        const { data: userData } = await supabase.auth.admin.getUserById(cart.user_id);
-        
-        if (!userData?.user?.email) {
-          console.log(`[ABANDONED-CART] No email for user ${cart.user_id}, skipping`);
+        let customerEmail = cart.email;
+        let customerName = cart.customer_name;
+
+        if (cart.user_id) {
+          const { data: userData } = await supabase.auth.admin.getUserById(cart.user_id);
+          customerEmail = userData?.user?.email || customerEmail;
+
+          if (!customerName) {
+            const { data: profile } = await supabase
+              .from('profiles')
+              .select('full_name')
+              .eq('user_id', cart.user_id)
+              .maybeSingle();
+            customerName = profile?.full_name || null;
+          }
+        }
+
+        if (!customerEmail) {
+          console.log(`[ABANDONED-CART] No email for cart ${cart.id}, skipping`);
           continue;
         }
 
-        const items = cart.items as CartItem[];
-        const customerEmail = userData.user.email;
-        const customerName = profile?.full_name || 'Cliente';
+        const step = cart.emails_sent;
+        const isLastStep = step === steps.length - 1;
+        let couponCode = cart.recovery_coupon_code;
+
+        if (isLastStep && settings?.abandoned_cart_coupon_enabled && !couponCode) {
+          const { data: code, error: couponError } = await supabase.rpc('create_cart_recovery_coupon', {
+            p_cart_id: cart.id,
+          });
+          if (couponError) {
+            console.error(`[ABANDONED-CART] Coupon failed for cart ${cart.id}:`, couponError.message);
+          } else {
+            couponCode = code as string;
+          }
+        }
+
+        const items = cart.items;
+        const emailContent = buildEmail(step, {
+          customer_name: customerName?.split(' ')[0] || 'Cliente',
+          items_html: generateItemsHtml(items),
+          total: formatPrice(Number(cart.total)),
+          cart_url: await buildRecoveryUrl(cart.id, frontendUrl, secret),
+          coupon_section: generateCouponSection(couponCode, Number(settings?.abandoned_cart_coupon_percent ?? 10)),
+        }, items, Number(cart.total));
 
-        console.log(`[ABANDONED-CART] Sending email for cart ${cart.id}`);
+        console.log(`[ABANDONED-CART] Sending step ${step + 1}/${steps.length} for cart ${cart.id}`);
 
         const emailResult = await resend.emails.send({
           from: "Cali Brasil <pedidos@calibrasil.com>",
           to: [customerEmail],
-          subject: `🛒 Ei ${customerName}, você esqueceu algo!`,
-          html: generateAbandonedCartEmail(items, cart.total),
+          subject: emailContent.subject,
+          html: emailContent.html,
         });
 
-        // Mark cart as email sent
         await supabase
           .from('abandoned_carts')
-          .update({ email_sent: true })
+          .update({ email_sent: true, emails_sent: step + 1, last_email_sent_at: new Date().toISOString() })
           .eq('id', cart.id);
 
-        console.log(`[ABANDONED-CART] Email sent for cart ${cart.id}`);
-        results.push({ cartId: cart.id, success: true, emailResult });
-      } catch (cartError: any) {
-        console.error(`[ABANDONED-CART] Error processing cart ${cart.id}:`, cartError);
-        results.push({ cartId: cart.id, success: false, error: cartError.message });
+        results.push({ cartId: cart.id, step: step + 1, success: true, emailResult });
+      } catch (cartError) {
+        const message = cartError instanceof Error ? cartError.message : "Unknown error";
+        console.error(`[ABANDONED-CART] Error processing cart ${cart.id}:`, message);
+        results.push({ cartId: cart.id, success: false, error: message });
       }
     }
 
+    console.log(`[ABANDONED-CART] Processed ${results.length} carts${template ? "" : " (fallback)"}`);
+
     return new Response(
       JSON.stringify({ success: true, processed: results.length, results }),
       { headers: { "Content-Type": "application/json", ...corsHeaders } }
     );
-  } catch (error: any) {
+  } catch (error) {
     console.error("[ABANDONED-CART] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: message }),
       { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
     );
   }
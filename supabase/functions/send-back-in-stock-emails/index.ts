@@ -0,0 +1,189 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-internal-secret",
+};
+
+const BATCH_SIZE = 100;
+const STORE_EMAIL = "oi@calibrasil.com";
+
+interface ReadySubscription {
+  id: string;
+  email: string;
+  product_variant_id: string;
+  product_id: string;
+  product_variants: { color: string | null; model: string | null } | null;
+  products: { name: string; image: string | null } | null;
+}
+
+const escapeHtml = (str: string): string => {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+};
+
+const replaceTemplateVariables = (template: string, variables: Record<string, string>): string => {
+  let result = template;
+  for (const [key, value] of Object.entries(variables)) {
+    const regex = new RegExp(`{{${key}}}`, "g");
+    result = result.replace(regex, escapeHtml(value));
+  }
+  return result;
+};
+
+function buildFallbackEmail(variables: Record<string, string>): { subject: string; html: string } {
+  const subject = `🔔 ${variables.product_name} voltou ao estoque!`;
+  const html = replaceTemplateVariables(`
+    <!DOCTYPE html>
+    <html>
+    <head><meta charset="utf-8"></head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; text-align: center;">
+      <h1 style="color: #0d9488;">🔔 Voltou ao estoque!</h1>
+      <p>O produto que você pediu para avisar está disponível de novo:</p>
+      <img src="{{product_image}}" alt="{{product_name}}" style="max-width: 220px; border-radius: 8px;">
+      <h2>{{product_name}}</h2>
+      <p>{{variant_label}}</p>
+      <a href="{{product_url}}" style="background: #16a34a; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+        Comprar agora 🛍️
+      </a>
+      <p style="color: #999; font-size: 12px; margin-top: 30px;">Cali Brasil - Beach Tech Style 🌴<br>Dúvidas? {{store_email}}</p>
+    </body>
+    </html>
+  `, variables);
+  return { subject, html };
+}
+
+// Scheduled job: emails subscribers whose variant came back in stock. Subscriptions
+// are flagged as ready by the flag_back_in_stock trigger on store_stock.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify internal secret to prevent unauthorized access
+    // Header: x-internal-secret
+    // ENV: INTERNAL_API_SECRET
+    const internalSecret = req.headers.get("x-internal-secret");
+    const expectedSecret = Deno.env.get("INTERNAL_API_SECRET");
+
+    if (!internalSecret || internalSecret !== expectedSecret) {
+      console.error("[BACK-IN-STOCK] Header x-internal-secret ausente ou inválido");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const frontendUrl = Deno.env.get("FRONTEND_URL") || "https://calibrasil.com";
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from("back_in_stock_subscriptions")
+      .select("id, email, product_variant_id, product_id, product_variants(color, model), products(name, image)")
+      .eq("status", "ready")
+      .order("ready_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (subscriptionsError) {
+      throw new Error(subscriptionsError.message);
+    }
+
+    if (!subscriptions || subscriptions.length === 0) {
+      console.log("[BACK-IN-STOCK] No subscriptions ready");
+      return new Response(
+        JSON.stringify({ success: true, sent: 0 }),
+        { headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { data: template } = await supabase
+      .from("email_templates")
+      .select("subject, html_content")
+      .eq("template_key", "back_in_stock")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    // The stock may have sold out again between the trigger and this run
+    const availableByVariant = new Map<string, number>();
+    for (const variantId of new Set(subscriptions.map((s) => s.product_variant_id))) {
+      const { data: available } = await supabase.rpc("get_total_available_stock", { p_variant_id: variantId });
+      availableByVariant.set(variantId, available ?? 0);
+    }
+
+    let sent = 0;
+    let requeued = 0;
+    const failures: { subscriptionId: string; error: string }[] = [];
+
+    for (const subscription of subscriptions as unknown as ReadySubscription[]) {
+      if ((availableByVariant.get(subscription.product_variant_id) ?? 0) <= 0) {
+        await supabase
+          .from("back_in_stock_subscriptions")
+          .update({ status: "waiting", ready_at: null })
+          .eq("id", subscription.id);
+        requeued++;
+        continue;
+      }
+
+      const variant = subscription.product_variants;
+      const variables: Record<string, string> = {
+        product_name: subscription.products?.name || "Produto",
+        variant_label: [variant?.color, variant?.model].filter(Boolean).join(" / "),
+        product_image: subscription.products?.image || `${frontendUrl}/placeholder.svg`,
+        product_url: `${frontendUrl}/product/${subscription.product_id}`,
+        store_email: STORE_EMAIL,
+      };
+
+      const emailContent = template
+        ? {
+            subject: replaceTemplateVariables(template.subject, variables),
+            html: replaceTemplateVariables(template.html_content, variables),
+          }
+        : buildFallbackEmail(variables);
+
+      try {
+        await resend.emails.send({
+          from: "Cali Brasil <pedidos@calibrasil.com>",
+          to: [subscription.email],
+          subject: emailContent.subject,
+          html: emailContent.html,
+        });
+
+        await supabase
+          .from("back_in_stock_subscriptions")
+          .update({ status: "notified", notified_at: new Date().toISOString() })
+          .eq("id", subscription.id);
+
+        sent++;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error(`[BACK-IN-STOCK] Failed for subscription ${subscription.id.substring(0, 8)}:`, message);
+        failures.push({ subscriptionId: subscription.id, error: message });
+      }
+    }
+
+    console.log(`[BACK-IN-STOCK] Sent ${sent} emails, ${requeued} back to waiting, ${failures.length} failures${template ? "" : " (fallback)"}`);
+
+    return new Response(
+      JSON.stringify({ success: true, sent, requeued, failures }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("[BACK-IN-STOCK] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+});
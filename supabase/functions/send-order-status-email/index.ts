@@ -3,6 +3,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
 import { create } from "https://deno.land/x/djwt@v3.0.2/mod.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
@@ -62,6 +63,33 @@ async function generateConfirmReceiptUrl(supabase: any, orderId: string): Promis
   }
 }
 
+// DANFE of the order's authorized invoice, attached to the shipped email.
+// Missing or unreadable invoice just sends the email without it.
+async function fetchDanfeAttachment(supabase: ReturnType<typeof createClient>, orderId: string): Promise<{ filename: string; content: string } | null> {
+  const { data: invoice, error } = await supabase
+    .from("order_invoices")
+    .select("number, danfe_path")
+    .eq("order_id", orderId)
+    .eq("status", "authorized")
+    .maybeSingle();
+
+  if (error || !invoice?.danfe_path) {
+    if (error) console.error("[ORDER-STATUS] Error fetching invoice:", error);
+    return null;
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage.from("invoices").download(invoice.danfe_path);
+  if (downloadError || !file) {
+    console.error("[ORDER-STATUS] Error downloading DANFE:", downloadError);
+    return null;
+  }
+
+  return {
+    filename: `DANFE-${invoice.number}.pdf`,
+    content: encodeBase64(new Uint8Array(await file.arrayBuffer())),
+  };
+}
+
 // Keep Magic Login for review only (backward compatibility)
 async function generateMagicLoginUrl(email: string, orderId: string): Promise<string> {
   const jwtSecret = Deno.env.get("MAGIC_LOGIN_JWT_SECRET");
@@ -496,12 +524,18 @@ serve(async (req) => {
       emailContent = await generateEmailFromTemplate(supabaseAdmin, data, "order_status_update", variables);
     }
 
+    const danfe = data.newStatus === "shipped" ? await fetchDanfeAttachment(supabaseAdmin, data.orderId) : null;
+    if (danfe) {
+      console.log(`[ORDER-STATUS] Attaching ${danfe.filename}`);
+    }
+
     // Using verified domain calibrasil.com for transactional emails
     const emailResult = await resend.emails.send({
       from: "Cali Brasil <pedidos@calibrasil.com>",
       to: [data.customerEmail],
       subject: emailContent.subject,
       html: emailContent.html,
+      ...(danfe ? { attachments: [danfe] } : {}),
     });
 
     console.log("[ORDER-STATUS] Email sent successfully");
@@ -0,0 +1,318 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-internal-secret",
+};
+
+interface ReturnEmailRequest {
+  returnId: string;
+}
+
+interface ShippingAddress {
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+interface ReturnItemRow {
+  quantity: number;
+  order_items: { product_name: string; price: number } | null;
+  exchange_variant: { color: string | null; model: string | null } | null;
+}
+
+const STORE_EMAIL = "oi@calibrasil.com";
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  refund: "Devolução com reembolso",
+  exchange: "Troca",
+};
+
+const escapeHtml = (str: string): string => {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+};
+
+const formatPrice = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+// The email content follows the current status of the request, so each step
+// (requested, approved, label, received, refunded/exchanged) sends its own message
+const getStatusInfo = (status: string): { label: string; emoji: string; color: string; message: string } => {
+  const statusMap: Record<string, { label: string; emoji: string; color: string; message: string }> = {
+    requested: {
+      label: "Solicitação recebida",
+      emoji: "📝",
+      color: "#3b82f6",
+      message: "Recebemos sua solicitação de troca/devolução. Nossa equipe vai analisar e responder em até 48h.",
+    },
+    approved: {
+      label: "Solicitação aprovada",
+      emoji: "👍",
+      color: "#0d9488",
+      message: "Sua solicitação foi aprovada! Em breve enviaremos o código de postagem para você devolver os produtos.",
+    },
+    rejected: {
+      label: "Solicitação não aprovada",
+      emoji: "❌",
+      color: "#dc2626",
+      message: "Infelizmente não foi possível aprovar sua solicitação. Veja os detalhes abaixo ou fale com a gente.",
+    },
+    label_generated: {
+      label: "Código de postagem",
+      emoji: "📮",
+      color: "#8b5cf6",
+      message: "Seu código de postagem está pronto. Embale os produtos e leve a uma agência dos Correios informando o código abaixo. O envio não tem custo para você.",
+    },
+    received: {
+      label: "Produtos recebidos",
+      emoji: "📦",
+      color: "#0891b2",
+      message: "Recebemos os produtos devolvidos. Agora vamos concluir sua solicitação.",
+    },
+    refunded: {
+      label: "Reembolso realizado",
+      emoji: "💸",
+      color: "#16a34a",
+      message: "Seu reembolso foi processado. O prazo para aparecer no extrato depende do meio de pagamento.",
+    },
+    exchanged: {
+      label: "Troca enviada",
+      emoji: "🔄",
+      color: "#16a34a",
+      message: "Criamos o pedido com os produtos da sua troca. Você vai receber o código de rastreio assim que ele for postado.",
+    },
+  };
+
+  return (
+    statusMap[status] || {
+      label: "Atualização da solicitação",
+      emoji: "📋",
+      color: "#6b7280",
+      message: "Sua solicitação de troca/devolução foi atualizada.",
+    }
+  );
+};
+
+// HTML sections (items_html, details_section) are not escaped
+const replaceTemplateVariables = (template: string, variables: Record<string, string>): string => {
+  let result = template;
+  const htmlSections = ["items_html", "details_section"];
+
+  for (const [key, value] of Object.entries(variables)) {
+    const regex = new RegExp(`{{${key}}}`, "g");
+    const replacement = htmlSections.includes(key) ? value : escapeHtml(value);
+    result = result.replace(regex, replacement);
+  }
+  return result;
+};
+
+function buildFallbackEmail(variables: Record<string, string>): { subject: string; html: string } {
+  const subject = `${variables.status_emoji} ${variables.status_label} - Pedido #${variables.order_id}`;
+  const html = replaceTemplateVariables(`
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 20px; background-color: #f5f5f5; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; background: #fff; border-radius: 8px; overflow: hidden;">
+    <div style="background: {{status_color}}; padding: 30px; text-align: center; color: #fff;">
+      <h1 style="margin: 0;">{{status_emoji}} {{status_label}}</h1>
+    </div>
+    <div style="padding: 30px;">
+      <p>Olá, <strong>{{customer_name}}</strong>!</p>
+      <p>{{status_message}}</p>
+      <p><strong>Pedido:</strong> #{{order_id}}<br><strong>Solicitação:</strong> #{{return_id}} ({{resolution_label}})</p>
+      <h3>📦 Itens</h3>
+      {{items_html}}
+      {{details_section}}
+    </div>
+    <div style="background: #f8f8f8; padding: 20px; text-align: center; color: #666; font-size: 12px;">
+      <p>Cali Brasil - Beach Tech Style 🌴</p>
+      <p>Dúvidas? Fale com a gente: {{store_email}}</p>
+    </div>
+  </div>
+</body>
+</html>`, variables);
+
+  return { subject, html };
+}
+
+// Sends the email of the current step of a return request (RMA).
+// Callers: admin/manager after each action, generate-sigep-label (internal secret)
+// and the customer right after opening the request.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { returnId }: ReturnEmailRequest = await req.json();
+    if (!returnId) {
+      throw new Error("returnId é obrigatório");
+    }
+
+    const { data: returnRequest, error: returnError } = await supabaseAdmin
+      .from("return_requests")
+      .select("id, order_id, user_id, status, resolution, admin_notes, reverse_tracking_code, refund_amount, replacement_order_id")
+      .eq("id", returnId)
+      .maybeSingle();
+
+    if (returnError || !returnRequest) {
+      throw new Error("Solicitação não encontrada");
+    }
+
+    const internalSecret = req.headers.get("x-internal-secret");
+    const expectedSecret = Deno.env.get("INTERNAL_API_SECRET");
+    const isInternalCall = internalSecret && expectedSecret && internalSecret === expectedSecret;
+
+    if (isInternalCall) {
+      console.log("[RETURN-EMAIL] Chamada interna autorizada via x-internal-secret");
+    } else {
+      const authHeader = req.headers.get("Authorization");
+      const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+        global: { headers: { Authorization: authHeader ?? "" } },
+      });
+
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+      if (authError || !user) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: roleData } = await supabaseAuth
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      const isStaff = !!roleData && ["admin", "manager"].includes(roleData.role);
+      // Customers may only trigger the confirmation of their own new request
+      const isOwnNewRequest = returnRequest.user_id === user.id && returnRequest.status === "requested";
+
+      if (!isStaff && !isOwnNewRequest) {
+        return new Response(JSON.stringify({ error: "Forbidden" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const { data: order } = await supabaseAdmin
+      .from("orders")
+      .select("id, user_id, guest_email, shipping_address")
+      .eq("id", returnRequest.order_id)
+      .single();
+
+    let customerEmail: string | null = order?.guest_email || null;
+    if (!customerEmail && order?.user_id) {
+      const { data: authData } = await supabaseAdmin.auth.admin.getUserById(order.user_id);
+      customerEmail = authData?.user?.email || null;
+    }
+
+    if (!customerEmail) {
+      console.log(`[RETURN-EMAIL] No email for return ${returnId.substring(0, 8)}`);
+      return new Response(JSON.stringify({ success: false, error: "Cliente sem email" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const address = order?.shipping_address as ShippingAddress | null;
+    const customerName = address?.name ||
+      `${address?.firstName || ''} ${address?.lastName || ''}`.trim() ||
+      "Cliente";
+
+    const { data: items } = await supabaseAdmin
+      .from("return_request_items")
+      .select("quantity, order_items(product_name, price), exchange_variant:product_variants(color, model)")
+      .eq("return_request_id", returnId);
+
+    const itemsHtml = ((items || []) as unknown as ReturnItemRow[]).map((item) => {
+      const exchange = item.exchange_variant
+        ? ` → troca por ${escapeHtml([item.exchange_variant.color, item.exchange_variant.model].filter(Boolean).join(" / "))}`
+        : "";
+      return `<div class="item" style="padding: 10px 0; border-bottom: 1px solid #eee;"><strong>${escapeHtml(item.order_items?.product_name || "Produto")}</strong> x ${item.quantity}${exchange}</div>`;
+    }).join("");
+
+    const statusInfo = getStatusInfo(returnRequest.status);
+
+    let detailsSection = "";
+    if (returnRequest.status === "label_generated" && returnRequest.reverse_tracking_code) {
+      detailsSection = `
+        <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 15px 0;">
+          <p style="margin: 0 0 10px 0;"><strong>📮 Código de postagem:</strong></p>
+          <p style="margin: 0; font-family: monospace; font-size: 18px; letter-spacing: 1px;">${escapeHtml(returnRequest.reverse_tracking_code)}</p>
+        </div>
+      `;
+    } else if (returnRequest.status === "refunded" && returnRequest.refund_amount != null) {
+      detailsSection = `<p><strong>Valor reembolsado:</strong> ${formatPrice(Number(returnRequest.refund_amount))}</p>`;
+    } else if (returnRequest.status === "exchanged" && returnRequest.replacement_order_id) {
+      detailsSection = `<p><strong>Pedido da troca:</strong> #${returnRequest.replacement_order_id.substring(0, 8).toUpperCase()}</p>`;
+    }
+
+    if (returnRequest.admin_notes && ["approved", "rejected", "received"].includes(returnRequest.status)) {
+      detailsSection += `<p><strong>Observações da equipe:</strong> ${escapeHtml(returnRequest.admin_notes)}</p>`;
+    }
+
+    const variables: Record<string, string> = {
+      customer_name: customerName,
+      order_id: returnRequest.order_id.substring(0, 8).toUpperCase(),
+      return_id: returnRequest.id.substring(0, 8).toUpperCase(),
+      resolution_label: RESOLUTION_LABELS[returnRequest.resolution] || returnRequest.resolution,
+      status_emoji: statusInfo.emoji,
+      status_label: statusInfo.label,
+      status_message: statusInfo.message,
+      status_color: statusInfo.color,
+      items_html: itemsHtml,
+      details_section: detailsSection,
+      store_email: STORE_EMAIL,
+    };
+
+    const { data: template } = await supabaseAdmin
+      .from("email_templates")
+      .select("subject, html_content")
+      .eq("template_key", "return_status_update")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    const emailContent = template
+      ? {
+          subject: replaceTemplateVariables(template.subject, variables),
+          html: replaceTemplateVariables(template.html_content, variables),
+        }
+      : buildFallbackEmail(variables);
+
+    console.log(`[RETURN-EMAIL] Sending ${returnRequest.status} email for return ${returnId.substring(0, 8)}${template ? "" : " (fallback)"}`);
+
+    const emailResult = await resend.emails.send({
+      from: "Cali Brasil <pedidos@calibrasil.com>",
+      to: [customerEmail],
+      subject: emailContent.subject,
+      html: emailContent.html,
+    });
+
+    return new Response(JSON.stringify({ success: true, emailResult }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("[RETURN-EMAIL] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
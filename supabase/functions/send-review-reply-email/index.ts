@@ -0,0 +1,198 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReviewReplyEmailRequest {
+  reviewId: string;
+}
+
+const STORE_EMAIL = "oi@calibrasil.com";
+
+const escapeHtml = (str: string): string => {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+};
+
+const replaceTemplateVariables = (template: string, variables: Record<string, string>): string => {
+  let result = template;
+  for (const [key, value] of Object.entries(variables)) {
+    const regex = new RegExp(`{{${key}}}`, "g");
+    result = result.replace(regex, escapeHtml(value));
+  }
+  return result;
+};
+
+function buildFallbackEmail(variables: Record<string, string>): { subject: string; html: string } {
+  const subject = replaceTemplateVariables("💬 A Cali Brasil respondeu sua avaliação de {{product_name}}", variables);
+  const html = replaceTemplateVariables(`
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 20px; background-color: #f5f5f5; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; background: #fff; border-radius: 8px; overflow: hidden;">
+    <div style="background: #0d9488; padding: 30px; text-align: center; color: #fff;">
+      <h1 style="margin: 0;">💬 Respondemos sua avaliação</h1>
+    </div>
+    <div style="padding: 30px;">
+      <p>Olá, <strong>{{customer_name}}</strong>!</p>
+      <p>Obrigado por avaliar <strong>{{product_name}}</strong>. Nossa equipe deixou uma resposta:</p>
+      <div style="background: #f8f8f8; border-radius: 8px; padding: 15px; margin: 15px 0;">
+        <p style="margin: 0 0 5px 0;">{{rating_stars}}</p>
+        <p style="margin: 0;">{{review_comment}}</p>
+      </div>
+      <div style="border-left: 4px solid #0d9488; padding: 10px 15px;">
+        <p style="margin: 0 0 5px 0;"><strong>Resposta da Cali Brasil</strong></p>
+        <p style="margin: 0;">{{store_reply}}</p>
+      </div>
+      <p style="margin-top: 20px;"><a href="{{product_url}}">Ver avaliação</a></p>
+    </div>
+    <div style="background: #f8f8f8; padding: 20px; text-align: center; color: #666; font-size: 12px;">
+      <p>Cali Brasil - Beach Tech Style 🌴</p>
+      <p>Dúvidas? Fale com a gente: {{store_email}}</p>
+    </div>
+  </div>
+</body>
+</html>`, variables);
+
+  return { subject, html };
+}
+
+// Notifies the reviewer that the store replied to their review.
+// Called by admin/manager right after saving the reply (admin Reviews page).
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get("Authorization");
+    const supabaseAuth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: authHeader ?? "" } },
+    });
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: roleData } = await supabaseAuth
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!roleData || !["admin", "manager"].includes(roleData.role)) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { reviewId }: ReviewReplyEmailRequest = await req.json();
+    if (!reviewId) {
+      throw new Error("reviewId é obrigatório");
+    }
+
+    const { data: review, error: reviewError } = await supabaseAdmin
+      .from("product_reviews")
+      .select("id, user_id, product_id, rating, comment, store_reply, products(name)")
+      .eq("id", reviewId)
+      .maybeSingle();
+
+    if (reviewError || !review) {
+      throw new Error("Avaliação não encontrada");
+    }
+
+    if (!review.store_reply) {
+      return new Response(JSON.stringify({ success: false, error: "Avaliação sem resposta" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: authData } = await supabaseAdmin.auth.admin.getUserById(review.user_id);
+    const customerEmail = authData?.user?.email || null;
+
+    if (!customerEmail) {
+      console.log(`[REVIEW-REPLY-EMAIL] No email for review ${reviewId.substring(0, 8)}`);
+      return new Response(JSON.stringify({ success: false, error: "Cliente sem email" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", review.user_id)
+      .maybeSingle();
+
+    const product = review.products as unknown as { name: string } | null;
+    const baseUrl = Deno.env.get("FRONTEND_URL") || "https://calibrasil.com";
+
+    const variables: Record<string, string> = {
+      customer_name: profile?.full_name?.split(" ")[0] || "Cliente",
+      product_name: product?.name || "seu produto",
+      rating_stars: "★".repeat(review.rating) + "☆".repeat(5 - review.rating),
+      review_comment: review.comment || "Sem comentário",
+      store_reply: review.store_reply,
+      product_url: `${baseUrl}/product/${review.product_id}#reviews`,
+      store_email: STORE_EMAIL,
+    };
+
+    const { data: template } = await supabaseAdmin
+      .from("email_templates")
+      .select("subject, html_content")
+      .eq("template_key", "review_reply")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    const emailContent = template
+      ? {
+          subject: replaceTemplateVariables(template.subject, variables),
+          html: replaceTemplateVariables(template.html_content, variables),
+        }
+      : buildFallbackEmail(variables);
+
+    console.log(`[REVIEW-REPLY-EMAIL] Sending reply email for review ${reviewId.substring(0, 8)}${template ? "" : " (fallback)"}`);
+
+    const emailResult = await resend.emails.send({
+      from: "Cali Brasil <pedidos@calibrasil.com>",
+      to: [customerEmail],
+      subject: emailContent.subject,
+      html: emailContent.html,
+    });
+
+    await supabaseAdmin
+      .from("product_reviews")
+      .update({ store_reply_notified_at: new Date().toISOString() })
+      .eq("id", reviewId);
+
+    return new Response(JSON.stringify({ success: true, emailResult }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("[REVIEW-REPLY-EMAIL] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,222 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-internal-secret",
+};
+
+// Customers with at least one alert per run; each gets a single email with all items
+const USER_BATCH_SIZE = 50;
+
+interface WishlistAlert {
+  wishlist_id: string;
+  user_id: string;
+  product_id: string;
+  product_name: string;
+  product_image: string | null;
+  reference_price: number | null;
+  current_price: number;
+  alert_type: "price_drop" | "back_in_stock";
+}
+
+const formatPrice = (price: number): string => {
+  return price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+};
+
+const escapeHtml = (str: string): string => {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+};
+
+// products_html is built here and already escaped
+const replaceTemplateVariables = (template: string, variables: Record<string, string>): string => {
+  let result = template;
+  for (const [key, value] of Object.entries(variables)) {
+    const regex = new RegExp(`{{${key}}}`, "g");
+    result = result.replace(regex, key === "products_html" ? value : escapeHtml(value));
+  }
+  return result;
+};
+
+const generateProductsHtml = (alerts: WishlistAlert[], frontendUrl: string): string => {
+  return alerts.map((alert) => {
+    const image = alert.product_image || `${frontendUrl}/placeholder.svg`;
+    const priceHtml = alert.alert_type === "price_drop" && alert.reference_price
+      ? `<span class="old" style="color: #999; text-decoration: line-through;">${formatPrice(Number(alert.reference_price))}</span> <span class="new" style="color: #16a34a; font-weight: bold;">${formatPrice(Number(alert.current_price))}</span>`
+      : `<span class="new" style="color: #16a34a; font-weight: bold;">Voltou ao estoque · ${formatPrice(Number(alert.current_price))}</span>`;
+
+    return `
+      <div class="product" style="display: flex; align-items: center; gap: 15px; padding: 15px 0; border-bottom: 1px solid #eee;">
+        <img src="${escapeHtml(image)}" alt="${escapeHtml(alert.product_name)}" style="width: 70px; height: 70px; object-fit: cover; border-radius: 8px;">
+        <div>
+          <a href="${frontendUrl}/product/${alert.product_id}" style="color: #333; font-weight: bold; text-decoration: none;">${escapeHtml(alert.product_name)}</a><br>
+          ${priceHtml}
+        </div>
+      </div>
+    `;
+  }).join("");
+};
+
+const getHeadline = (alerts: WishlistAlert[]): string => {
+  const hasDrop = alerts.some((a) => a.alert_type === "price_drop");
+  const hasRestock = alerts.some((a) => a.alert_type === "back_in_stock");
+  if (hasDrop && hasRestock) return "Novidades na sua wishlist";
+  if (hasDrop) return alerts.length === 1 ? "Baixou o preço de um favorito seu!" : "Baixou o preço dos seus favoritos!";
+  return alerts.length === 1 ? "Um favorito seu voltou ao estoque!" : "Seus favoritos voltaram ao estoque!";
+};
+
+function buildFallbackEmail(variables: Record<string, string>): { subject: string; html: string } {
+  const subject = `💙 ${variables.headline}`;
+  const html = replaceTemplateVariables(`
+    <!DOCTYPE html>
+    <html>
+    <head><meta charset="utf-8"></head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h1 style="color: #0d9488; text-align: center;">💙 {{headline}}</h1>
+      <p>Olá, <strong>{{customer_name}}</strong>!</p>
+      <p>Separamos as novidades dos produtos que você salvou na sua wishlist:</p>
+      {{products_html}}
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="{{wishlist_url}}" style="background: #16a34a; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">Ver minha wishlist</a>
+      </div>
+      <p style="color: #999; font-size: 12px; text-align: center;">
+        Cali Brasil - Beach Tech Style 🌴<br>
+        Não quer mais esses avisos? Desative na sua wishlist ou no seu perfil.
+      </p>
+    </body>
+    </html>
+  `, variables);
+  return { subject, html };
+}
+
+// Scheduled job: emails customers when a wishlisted product gets cheaper than
+// when it was saved (or than the last alert) or comes back in stock.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify internal secret to prevent unauthorized access
+    // Header: x-internal-secret
+    // ENV: INTERNAL_API_SECRET
+    const internalSecret = req.headers.get("x-internal-secret");
+    const expectedSecret = Deno.env.get("INTERNAL_API_SECRET");
+
+    if (!internalSecret || internalSecret !== expectedSecret) {
+      console.error("[WISHLIST-ALERTS] Header x-internal-secret ausente ou inválido");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const frontendUrl = Deno.env.get("FRONTEND_URL") || "https://calibrasil.com";
+
+    const { data: alerts, error: alertsError } = await supabase.rpc("collect_wishlist_alerts");
+
+    if (alertsError) {
+      throw new Error(alertsError.message);
+    }
+
+    const alertsByUser = new Map<string, WishlistAlert[]>();
+    for (const alert of (alerts || []) as WishlistAlert[]) {
+      alertsByUser.set(alert.user_id, [...(alertsByUser.get(alert.user_id) || []), alert]);
+    }
+
+    if (alertsByUser.size === 0) {
+      console.log("[WISHLIST-ALERTS] No alerts to send");
+      return new Response(
+        JSON.stringify({ success: true, sent: 0 }),
+        { headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { data: template } = await supabase
+      .from("email_templates")
+      .select("subject, html_content")
+      .eq("template_key", "wishlist_alert")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    let sent = 0;
+    const failures: { userId: string; error: string }[] = [];
+
+    for (const [userId, userAlerts] of [...alertsByUser.entries()].slice(0, USER_BATCH_SIZE)) {
+      try {
+        const { data: userData } = await supabase.auth.admin.getUserById(userId);
+        const email = userData?.user?.email;
+
+        if (!email) {
+          throw new Error("Usuário sem email");
+        }
+
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("full_name")
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        const variables: Record<string, string> = {
+          customer_name: profile?.full_name?.split(" ")[0] || "cliente",
+          headline: getHeadline(userAlerts),
+          products_html: generateProductsHtml(userAlerts, frontendUrl),
+          wishlist_url: `${frontendUrl}/wishlist`,
+        };
+
+        const emailContent = template
+          ? {
+              subject: replaceTemplateVariables(template.subject, variables),
+              html: replaceTemplateVariables(template.html_content, variables),
+            }
+          : buildFallbackEmail(variables);
+
+        await resend.emails.send({
+          from: "Cali Brasil <pedidos@calibrasil.com>",
+          to: [email],
+          subject: emailContent.subject,
+          html: emailContent.html,
+        });
+
+        const { error: markError } = await supabase.rpc("mark_wishlist_alerted", {
+          p_wishlist_ids: userAlerts.map((a) => a.wishlist_id),
+        });
+
+        if (markError) {
+          console.error(`[WISHLIST-ALERTS] Failed to mark alerts for user ${userId.substring(0, 8)}:`, markError.message);
+        }
+
+        sent++;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        console.error(`[WISHLIST-ALERTS] Failed for user ${userId.substring(0, 8)}:`, message);
+        failures.push({ userId, error: message });
+      }
+    }
+
+    console.log(`[WISHLIST-ALERTS] Sent ${sent} emails, ${failures.length} failures${template ? "" : " (fallback)"}`);
+
+    return new Response(
+      JSON.stringify({ success: true, sent, failures }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("[WISHLIST-ALERTS] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+});
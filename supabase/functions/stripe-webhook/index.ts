@@ -1,12 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import Stripe from "https://esm.sh/stripe@14.21.0";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { stripeGateway } from "../_shared/gateways/stripe.ts";
+import { WebhookVerificationError, type GatewayWebhookEvent } from "../_shared/gateways/types.ts";
+import { handleOrderPaid, releaseOrderStock, reverseOrderLoyalty } from "../_shared/order-payment.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, stripe-signature",
 };
 
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[STRIPE-WEBHOOK] ${step}${detailsStr}`);
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -14,26 +21,7 @@ serve(async (req) => {
   }
 
   try {
-    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
     const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
-    
-    if (!stripeKey) {
-      throw new Error("Stripe secret key not configured");
-    }
-
-    const stripe = new Stripe(stripeKey, {
-      apiVersion: "2023-10-16",
-    });
-
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const body = await req.text();
-    const signature = req.headers.get("stripe-signature");
-
-    let event: Stripe.Event;
-
     // SECURITY: Always require webhook signature verification
     if (!webhookSecret) {
       console.error("STRIPE_WEBHOOK_SECRET is not configured");
@@ -43,22 +31,29 @@ serve(async (req) => {
       );
     }
 
-    if (!signature) {
-      console.error("Missing stripe-signature header");
-      return new Response(
-        JSON.stringify({ error: "Missing webhook signature" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    let event: GatewayWebhookEvent | null;
     try {
-      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
+      event = await stripeGateway.verifyWebhook(req);
       console.log("Webhook signature verified successfully");
-    } catch (err: any) {
-      console.error("Webhook signature verification failed:", err.message);
+    } catch (err) {
+      if (err instanceof WebhookVerificationError) {
+        console.error("Webhook signature verification failed:", err.message);
+        return new Response(
+          JSON.stringify({ error: err.message }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      throw err;
+    }
+
+    if (!event) {
       return new Response(
-        JSON.stringify({ error: "Invalid signature" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ received: true, ignored: true }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
       );
     }
 
@@ -78,305 +73,58 @@ serve(async (req) => {
 
     console.log("Received webhook event:", event.type);
 
-    // Helper function to increment coupon usage
-    const incrementCouponUsage = async (couponCode: string) => {
-      if (!couponCode) return;
-
-      console.log(`[COUPON] Incrementing usage for coupon: ${couponCode}`);
-      
-      try {
-        // Fetch current count and increment
-        const { data: coupon, error: fetchError } = await supabase
-          .from("coupons")
-          .select("used_count")
-          .eq("code", couponCode)
-          .single();
+    const orderId = event.orderId;
+    if (orderId) {
+      const { paymentStatus, orderStatus } = stripeGateway.mapStatus(event.status);
+      console.log(`Stripe ${event.type} for order ${orderId}: ${event.status} -> ${paymentStatus}`);
 
-        if (fetchError) {
-          console.error("[COUPON] Error fetching coupon:", fetchError);
-          return;
-        }
-
-        if (coupon) {
-          const { error: updateError } = await supabase
-            .from("coupons")
-            .update({ used_count: (coupon.used_count || 0) + 1 })
-            .eq("code", couponCode);
-
-          if (updateError) {
-            console.error("[COUPON] Error updating coupon usage:", updateError);
-          } else {
-            console.log(`[COUPON] Successfully incremented usage for: ${couponCode}`);
-          }
-        }
-      } catch (err) {
-        console.error("[COUPON] Error incrementing usage:", err);
-      }
-    };
-
-    // Helper function to send order emails
-    const sendOrderEmails = async (orderId: string) => {
-      // Fetch order details for email
-      const { data: orderData, error: orderError } = await supabase
+      const { data: order, error: orderError } = await supabase
         .from("orders")
         .select("*")
         .eq("id", orderId)
         .single();
 
-      if (orderError) {
-        console.error("Error fetching order for email:", orderError);
-        return;
+      if (orderError || !order) {
+        console.error("Order not found:", orderId, orderError);
+        throw new Error(`Order not found: ${orderId}`);
       }
 
-      // Fetch order items
-      const { data: itemsData, error: itemsError } = await supabase
-        .from("order_items")
-        .select("*")
-        .eq("order_id", orderId);
-
-      if (itemsError) {
-        console.error("Error fetching order items:", itemsError);
-        return;
-      }
-
-      // Fetch store settings for delivery time
-      const { data: storeSettings } = await supabase
-        .from("store_settings")
-        .select("delivery_min_days, delivery_max_days")
-        .limit(1)
-        .single();
-
-      // Send notification emails
-      const shippingAddress = orderData.shipping_address as any;
-      const customerEmail = orderData.guest_email || "";
-      const customerName = shippingAddress?.name || "Cliente";
-      
-      const emailPayload = {
-        orderId: orderId,
-        customerEmail: customerEmail,
-        customerName: customerName,
-        customerPhone: orderData.phone || "",
-        items: itemsData.map((item: any) => ({
-          product_name: item.product_name,
-          quantity: item.quantity,
-          price: item.price,
-        })),
-        total: orderData.total,
-        shippingAddress: {
-          name: shippingAddress?.name || "",
-          street: shippingAddress?.street || "",
-          number: shippingAddress?.number || "",
-          complement: shippingAddress?.complement || "",
-          neighborhood: shippingAddress?.neighborhood || "",
-          city: shippingAddress?.city || "",
-          state: shippingAddress?.state || "",
-          zipCode: shippingAddress?.zipCode || "",
-        },
-        paymentMethod: orderData.payment_method || "card",
-        deliveryMinDays: storeSettings?.delivery_min_days || 5,
-        deliveryMaxDays: storeSettings?.delivery_max_days || 10,
-        couponCode: orderData.coupon_code || null,
-        discountAmount: orderData.discount_amount || 0,
-      };
-
-      console.log("Sending order emails for order:", orderId);
-
-      try {
-        const emailResponse = await fetch(
-          `${supabaseUrl}/functions/v1/send-order-emails`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${supabaseServiceKey}`,
-              "x-internal-secret": webhookSecret,
-            },
-            body: JSON.stringify(emailPayload),
-          }
+      if (order.payment_gateway !== "stripe") {
+        console.log("Order is not a Stripe order:", order.payment_gateway);
+        return new Response(
+          JSON.stringify({ received: true, skipped: true }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
         );
-
-        const emailResult = await emailResponse.json();
-        console.log("Email send result:", emailResult);
-      } catch (emailError) {
-        console.error("Error sending emails:", emailError);
-      }
-    };
-
-    // Handle different event types
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const orderId = session.metadata?.order_id;
-        const paymentStatus = session.payment_status;
-        const couponCode = session.metadata?.coupon_code || null;
-        const discountAmount = parseFloat(session.metadata?.discount_amount || "0");
-
-        if (orderId) {
-          console.log("Checkout completed for order:", orderId, "Payment status:", paymentStatus);
-          
-          if (couponCode) {
-            console.log(`[COUPON] Order ${orderId} used coupon: ${couponCode} with discount: R$ ${discountAmount.toFixed(2)}`);
-          }
-
-          // For async payment methods (boleto, pix), payment_status will be "unpaid"
-          // For card payments, payment_status will be "paid"
-          if (paymentStatus === "paid") {
-            // Instant payment (card) - mark as paid
-            console.log("Instant payment confirmed for order:", orderId);
-            
-            const { error } = await supabase
-              .from("orders")
-              .update({
-                payment_status: "paid",
-                status: "confirmed",
-                updated_at: new Date().toISOString(),
-                coupon_code: couponCode || null,
-                discount_amount: discountAmount > 0 ? discountAmount : null,
-              })
-              .eq("id", orderId);
-
-            if (error) {
-              console.error("Error updating order:", error);
-            } else {
-              console.log("Order updated to paid/confirmed:", orderId);
-              
-              // Increment coupon usage on successful payment
-              if (couponCode) {
-                await incrementCouponUsage(couponCode);
-              }
-              
-              await sendOrderEmails(orderId);
-            }
-          } else {
-            // Async payment (boleto, pix) - waiting for payment
-            console.log("Async payment method - awaiting payment for order:", orderId);
-            
-            const { error } = await supabase
-              .from("orders")
-              .update({
-                payment_status: "awaiting_payment",
-                status: "awaiting_payment",
-                updated_at: new Date().toISOString(),
-                coupon_code: couponCode || null,
-                discount_amount: discountAmount > 0 ? discountAmount : null,
-              })
-              .eq("id", orderId);
-
-            if (error) {
-              console.error("Error updating order to awaiting_payment:", error);
-            } else {
-              console.log("Order updated to awaiting_payment:", orderId);
-            }
-          }
-        }
-        break;
-      }
-
-      case "checkout.session.async_payment_succeeded": {
-        // This event fires when boleto/pix is actually paid
-        const session = event.data.object as Stripe.Checkout.Session;
-        const orderId = session.metadata?.order_id;
-        const couponCode = session.metadata?.coupon_code || null;
-
-        if (orderId) {
-          console.log("Async payment succeeded for order:", orderId);
-
-          const { error } = await supabase
-            .from("orders")
-            .update({
-              payment_status: "paid",
-              status: "confirmed",
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", orderId);
-
-          if (error) {
-            console.error("Error updating order after async payment:", error);
-          } else {
-            console.log("Order updated to paid/confirmed after async payment:", orderId);
-            
-            // Increment coupon usage on successful async payment
-            if (couponCode) {
-              await incrementCouponUsage(couponCode);
-            }
-            
-            await sendOrderEmails(orderId);
-          }
-        }
-        break;
-      }
-
-      case "checkout.session.async_payment_failed": {
-        // This event fires when boleto expires without payment
-        const session = event.data.object as Stripe.Checkout.Session;
-        const orderId = session.metadata?.order_id;
-
-        if (orderId) {
-          console.log("Async payment failed/expired for order:", orderId);
-
-          const { error } = await supabase
-            .from("orders")
-            .update({
-              payment_status: "expired",
-              status: "cancelled",
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", orderId);
-
-          if (error) {
-            console.error("Error updating order after async payment failure:", error);
-          } else {
-            console.log("Order updated to expired/cancelled:", orderId);
-          }
-        }
-        break;
       }
 
-      case "checkout.session.expired": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const orderId = session.metadata?.order_id;
-
-        if (orderId) {
-          console.log("Checkout session expired for order:", orderId);
-
-          await supabase
-            .from("orders")
-            .update({
-              payment_status: "expired",
-              status: "cancelled",
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", orderId);
-        }
-        break;
-      }
-
-      case "payment_intent.payment_failed": {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        const orderId = paymentIntent.metadata?.order_id;
-
-        if (orderId) {
-          console.log("Payment failed for order:", orderId);
-
-          await supabase
-            .from("orders")
-            .update({
-              payment_status: "failed",
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", orderId);
-        }
-        break;
+      const { error } = await supabase
+        .from("orders")
+        .update({
+          payment_status: paymentStatus,
+          ...(orderStatus ? { status: orderStatus } : {}),
+          // Kept on the order so admin refunds can reach the payment
+          ...(event.paymentId ? { stripe_payment_intent_id: event.paymentId } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", orderId);
+
+      if (error) {
+        console.error(`Error updating order to ${paymentStatus}:`, error);
+        throw new Error("Failed to update order");
       }
 
-      case "charge.refunded": {
-        const charge = event.data.object as Stripe.Charge;
-        console.log("Charge refunded:", charge.id);
-        break;
+      // Card payments are paid on checkout.session.completed; boleto/pix on async_payment_succeeded.
+      // E-mails, cupom, estoque, NF-e e alerta de estoque baixo
+      if (paymentStatus === "paid" && order.payment_status !== "paid") {
+        await handleOrderPaid(supabase, order, logStep);
+      } else if (paymentStatus === "expired") {
+        // Boleto/Pix not paid in time or abandoned checkout: the stock goes back on sale
+        await releaseOrderStock(supabase, orderId, event.status, logStep);
+      } else if (paymentStatus === "refunded") {
+        await reverseOrderLoyalty(supabase, orderId, logStep);
       }
-
-      default:
-        console.log("Unhandled event type:", event.type);
+    } else {
+      console.log("Stripe event without order:", event.type);
     }
 
     // IDEMPOTÊNCIA: Marcar evento como processado
@@ -0,0 +1,255 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CORREIOS_API_URL, getCorreiosToken } from "../_shared/correios.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-internal-secret",
+};
+
+interface RastroEvento {
+  codigo: string;
+  tipo: string;
+  dtHrCriado: string;
+  descricao: string;
+  detalhe?: string;
+  unidade?: {
+    tipo?: string;
+    endereco?: { cidade?: string; uf?: string };
+  };
+}
+
+interface RastroObjeto {
+  codObjeto: string;
+  mensagem?: string;
+  eventos?: RastroEvento[];
+}
+
+interface ShippingAddress {
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+interface ShippedOrder {
+  id: string;
+  status: string;
+  tracking_code: string;
+  user_id: string | null;
+  guest_email: string | null;
+  shipping_address: ShippingAddress | null;
+}
+
+// Orders polled per run; the least recently synced go first
+const BATCH_SIZE = 50;
+
+// Final delivery events ("Objeto entregue ao destinatário")
+const DELIVERY_EVENT_CODES = ["BDE", "BDI", "BDR"];
+const isDeliveryEvent = (evento: RastroEvento) =>
+  DELIVERY_EVENT_CODES.includes(evento.codigo) && evento.tipo === "01";
+
+// Correios returns local Brasília time without offset
+const parseEventDate = (value: string) =>
+  new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}-03:00`).toISOString();
+
+const formatLocation = (evento: RastroEvento) => {
+  const endereco = evento.unidade?.endereco;
+  if (!endereco?.cidade) return evento.unidade?.tipo || null;
+  return endereco.uf ? `${endereco.cidade} - ${endereco.uf}` : endereco.cidade;
+};
+
+async function fetchRastro(token: string, trackingCode: string): Promise<RastroObjeto | null> {
+  const response = await fetch(
+    `${CORREIOS_API_URL}/srorastro/v1/objetos/${encodeURIComponent(trackingCode)}?resultado=T`,
+    {
+      headers: {
+        "Accept": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Erro na consulta de rastro (${response.status}): ${errorText.substring(0, 200)}`);
+  }
+
+  const data = await response.json();
+  return data?.objetos?.[0] ?? null;
+}
+
+async function sendDeliveredEmail(supabase: ReturnType<typeof createClient>, order: ShippedOrder) {
+  const internalSecret = Deno.env.get("INTERNAL_API_SECRET");
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!internalSecret || !supabaseUrl || !supabaseAnonKey) return;
+
+  let customerEmail = order.guest_email;
+  if (!customerEmail && order.user_id) {
+    const { data: authData } = await supabase.auth.admin.getUserById(order.user_id);
+    customerEmail = authData?.user?.email || null;
+  }
+  if (!customerEmail) return;
+
+  const address = order.shipping_address;
+  const customerName = address?.name ||
+    `${address?.firstName || ''} ${address?.lastName || ''}`.trim() ||
+    "Cliente";
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-order-status-email`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${supabaseAnonKey}`,
+      "x-internal-secret": internalSecret,
+    },
+    body: JSON.stringify({
+      orderId: order.id,
+      customerEmail,
+      customerName,
+      oldStatus: order.status,
+      newStatus: "delivered",
+      trackingCode: order.tracking_code,
+    }),
+  });
+
+  console.log(`[TRACKING-SYNC] Delivered email ${response.ok ? "sent" : "failed"} for order ${order.id.substring(0, 8)}`);
+}
+
+// Scheduled job: polls the Correios rastro API for shipped orders, stores new
+// tracking events and moves orders to delivered on the final delivery event.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify internal secret to prevent unauthorized access
+    // Header: x-internal-secret
+    // ENV: INTERNAL_API_SECRET
+    const internalSecret = req.headers.get("x-internal-secret");
+    const expectedSecret = Deno.env.get("INTERNAL_API_SECRET");
+
+    if (!internalSecret || internalSecret !== expectedSecret) {
+      console.error("[TRACKING-SYNC] Header x-internal-secret ausente ou inválido");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: orders, error: ordersError } = await supabase
+      .from('orders')
+      .select('id, status, tracking_code, user_id, guest_email, shipping_address')
+      .eq('status', 'shipped')
+      .not('tracking_code', 'is', null)
+      .order('tracking_synced_at', { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (ordersError) {
+      throw new Error(ordersError.message);
+    }
+
+    if (!orders || orders.length === 0) {
+      console.log("[TRACKING-SYNC] No shipped orders to sync");
+      return new Response(
+        JSON.stringify({ success: true, synced: 0, delivered: 0 }),
+        { headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const token = await getCorreiosToken();
+    let synced = 0;
+    let delivered = 0;
+    const failures: { orderId: string; error: string }[] = [];
+
+    for (const order of orders as ShippedOrder[]) {
+      const trackingCode = order.tracking_code.trim().toUpperCase();
+
+      try {
+        const objeto = await fetchRastro(token, trackingCode);
+        const eventos = objeto?.eventos ?? [];
+
+        if (eventos.length > 0) {
+          const { error: insertError } = await supabase
+            .from('order_tracking_events')
+            .upsert(
+              eventos.map((evento) => ({
+                order_id: order.id,
+                tracking_code: trackingCode,
+                event_code: evento.codigo,
+                event_type: evento.tipo || '',
+                description: evento.descricao,
+                details: evento.detalhe || null,
+                location: formatLocation(evento),
+                is_delivery: isDeliveryEvent(evento),
+                occurred_at: parseEventDate(evento.dtHrCriado),
+                raw: evento,
+              })),
+              { onConflict: 'order_id,tracking_code,event_code,event_type,occurred_at', ignoreDuplicates: true }
+            );
+
+          if (insertError) {
+            throw new Error(insertError.message);
+          }
+        } else if (objeto?.mensagem) {
+          console.log(`[TRACKING-SYNC] ${trackingCode}: ${objeto.mensagem}`);
+        }
+
+        synced++;
+
+        if (eventos.some(isDeliveryEvent)) {
+          // Only a shipped order moves forward; a status changed meanwhile by an admin wins
+          const { data: updated, error: statusError } = await supabase
+            .from('orders')
+            .update({ status: 'delivered' })
+            .eq('id', order.id)
+            .eq('status', 'shipped')
+            .select('id');
+
+          if (statusError) {
+            throw new Error(statusError.message);
+          }
+
+          if (updated && updated.length > 0) {
+            delivered++;
+            console.log(`[TRACKING-SYNC] Order ${order.id.substring(0, 8)} delivered (${trackingCode})`);
+            try {
+              await sendDeliveredEmail(supabase, order);
+            } catch (emailError) {
+              console.error("[TRACKING-SYNC] Error sending delivered email:", emailError);
+            }
+          }
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error(`[TRACKING-SYNC] Failed to sync order ${order.id.substring(0, 8)}:`, message);
+        failures.push({ orderId: order.id, error: message });
+      }
+
+      // Failed lookups also move to the back of the queue so they don't starve the batch
+      await supabase
+        .from('orders')
+        .update({ tracking_synced_at: new Date().toISOString() })
+        .eq('id', order.id);
+    }
+
+    console.log(`[TRACKING-SYNC] Synced ${synced}/${orders.length} orders, ${delivered} delivered`);
+
+    return new Response(
+      JSON.stringify({ success: true, synced, delivered, failures }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("[TRACKING-SYNC] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+});
@@ -0,0 +1,257 @@
+-- =====================================================
+-- ESTOQUE: Reserva de estoque por pedido
+-- Ciclo: reservado (pedido criado) -> baixado (pagamento aprovado)
+--        ou liberado (sessão expirada, pagamento recusado, pedido cancelado)
+-- =====================================================
+
+-- Fase 1: Vincular item do pedido à variação comprada
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS product_variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_variant ON public.order_items(product_variant_id);
+
+-- Fase 2: Tabela de reservas
+CREATE TABLE public.stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL,
+  product_variant_id UUID NOT NULL REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'committed', 'released')),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (now() + interval '24 hours'),
+  committed_at TIMESTAMPTZ,
+  released_at TIMESTAMPTZ,
+  release_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_stock_reservations_order ON public.stock_reservations(order_id);
+CREATE INDEX idx_stock_reservations_status_expires ON public.stock_reservations(status, expires_at);
+
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin manage stock_reservations" ON public.stock_reservations FOR ALL
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager view stock_reservations" ON public.stock_reservations FOR SELECT
+  USING (has_role(auth.uid(), 'manager'));
+
+CREATE TRIGGER update_stock_reservations_updated_at
+  BEFORE UPDATE ON public.stock_reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Fase 3: Reservar estoque dos itens de um pedido
+-- Idempotente: se o pedido já tem reservas, não reserva novamente
+CREATE OR REPLACE FUNCTION public.reserve_order_stock(
+  p_order_id UUID,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_store_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = p_order_id) THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_item IN
+    SELECT id, product_variant_id, quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+      AND product_variant_id IS NOT NULL
+    ORDER BY product_variant_id
+  LOOP
+    -- Mesma regra de select_source_store, mas com lock da linha para evitar corrida
+    SELECT store_id INTO v_store_id
+    FROM store_stock
+    WHERE product_variant_id = v_item.product_variant_id
+      AND (quantity - reserved_quantity) >= v_item.quantity
+    ORDER BY quantity DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_store_id IS NULL THEN
+      RAISE EXCEPTION 'Estoque insuficiente para a variação %', v_item.product_variant_id;
+    END IF;
+
+    UPDATE store_stock
+    SET reserved_quantity = reserved_quantity + v_item.quantity,
+        updated_at = now()
+    WHERE product_variant_id = v_item.product_variant_id AND store_id = v_store_id;
+
+    INSERT INTO stock_reservations (order_id, order_item_id, product_variant_id, store_id, quantity, expires_at)
+    VALUES (p_order_id, v_item.id, v_item.product_variant_id, v_store_id, v_item.quantity,
+            COALESCE(p_expires_at, now() + interval '24 hours'));
+
+    UPDATE order_items
+    SET source_store_id = v_store_id,
+        assigned_at = now()
+    WHERE id = v_item.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Fase 4: Converter reservas em baixa de estoque (pagamento aprovado)
+-- Idempotente: reservas já baixadas são ignoradas. Reservas liberadas por
+-- expiração também são baixadas, pois o pagamento chegou mesmo assim.
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_res RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_res IN
+    SELECT * FROM stock_reservations
+    WHERE order_id = p_order_id
+      AND status IN ('reserved', 'released')
+    FOR UPDATE
+  LOOP
+    UPDATE store_stock
+    SET quantity = GREATEST(quantity - v_res.quantity, 0),
+        reserved_quantity = CASE
+          WHEN v_res.status = 'reserved' THEN GREATEST(reserved_quantity - v_res.quantity, 0)
+          ELSE reserved_quantity
+        END,
+        updated_at = now()
+    WHERE product_variant_id = v_res.product_variant_id AND store_id = v_res.store_id;
+
+    UPDATE stock_reservations
+    SET status = 'committed', committed_at = now()
+    WHERE id = v_res.id;
+
+    -- Manter product_variants.stock_quantity em sincronia (usado na vitrine)
+    UPDATE product_variants
+    SET stock_quantity = (
+      SELECT COALESCE(SUM(quantity), 0) FROM store_stock WHERE product_variant_id = v_res.product_variant_id
+    )
+    WHERE id = v_res.product_variant_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Fase 5: Liberar reservas de um pedido (expirado, recusado ou cancelado)
+-- Idempotente: só afeta reservas ainda ativas
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_res RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_res IN
+    SELECT * FROM stock_reservations
+    WHERE order_id = p_order_id
+      AND status = 'reserved'
+    FOR UPDATE
+  LOOP
+    UPDATE store_stock
+    SET reserved_quantity = GREATEST(reserved_quantity - v_res.quantity, 0),
+        updated_at = now()
+    WHERE product_variant_id = v_res.product_variant_id AND store_id = v_res.store_id;
+
+    UPDATE stock_reservations
+    SET status = 'released', released_at = now(), release_reason = p_reason
+    WHERE id = v_res.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Fase 6: Liberar reservas vencidas de pedidos não pagos (chamada pelo job agendado)
+CREATE OR REPLACE FUNCTION public.release_expired_stock_reservations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT DISTINCT r.order_id
+    FROM stock_reservations r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.status = 'reserved'
+      AND r.expires_at < now()
+      AND COALESCE(o.payment_status, 'pending') NOT IN ('paid', 'approved')
+  LOOP
+    PERFORM release_order_stock(v_order_id, 'expired');
+
+    UPDATE orders
+    SET status = 'cancelled', payment_status = 'expired'
+    WHERE id = v_order_id
+      AND status IN ('pending', 'awaiting_payment');
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Fase 7: Liberar automaticamente ao cancelar ou excluir um pedido (ex.: pelo admin)
+CREATE OR REPLACE FUNCTION public.release_stock_on_order_cancel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM release_order_stock(OLD.id, 'order_deleted');
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM release_order_stock(NEW.id, 'order_cancelled');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_stock_on_order_cancel
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_stock_on_order_cancel();
+
+CREATE TRIGGER release_stock_on_order_delete
+  BEFORE DELETE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_stock_on_order_cancel();
+
+-- Fase 8: Permissões
+-- Apenas as funções de servidor (service role) reservam, baixam ou liberam estoque
+REVOKE EXECUTE ON FUNCTION public.reserve_order_stock(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_order_stock(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_expired_stock_reservations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_stock_on_order_cancel() FROM PUBLIC, anon, authenticated;
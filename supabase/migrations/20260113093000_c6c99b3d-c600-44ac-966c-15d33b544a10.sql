@@ -0,0 +1,267 @@
+-- =====================================================
+-- CUPONS: Validação no servidor e resgate atômico
+-- Ciclo: reservado (pedido criado) -> confirmado (pagamento aprovado)
+--        ou liberado (pedido cancelado/excluído), devolvendo o uso ao cupom
+-- =====================================================
+
+-- Fase 1: Limite de uso por cliente
+ALTER TABLE public.coupons
+  ADD COLUMN IF NOT EXISTS max_uses_per_customer INTEGER
+  CHECK (max_uses_per_customer IS NULL OR max_uses_per_customer > 0);
+
+-- Fase 2: Tabela de resgates (um por pedido)
+CREATE TABLE public.coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID,
+  customer_email TEXT,
+  discount_amount NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'confirmed', 'released')),
+  confirmed_at TIMESTAMPTZ,
+  released_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(order_id)
+);
+
+CREATE INDEX idx_coupon_redemptions_coupon ON public.coupon_redemptions(coupon_id, status);
+CREATE INDEX idx_coupon_redemptions_user ON public.coupon_redemptions(user_id);
+CREATE INDEX idx_coupon_redemptions_email ON public.coupon_redemptions(lower(customer_email));
+
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin manage coupon_redemptions" ON public.coupon_redemptions FOR ALL
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager view coupon_redemptions" ON public.coupon_redemptions FOR SELECT
+  USING (has_role(auth.uid(), 'manager'));
+
+CREATE TRIGGER update_coupon_redemptions_updated_at
+  BEFORE UPDATE ON public.coupon_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Fase 3: Validar cupom e calcular o desconto exato
+-- Retorna { valid, error, coupon_id, code, discount_percent, min_purchase, discount_amount }
+-- Códigos de erro: not_found, not_started, expired, usage_limit, customer_limit, min_purchase
+CREATE OR REPLACE FUNCTION public.validate_coupon(
+  p_code TEXT,
+  p_subtotal NUMERIC,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon RECORD;
+  v_customer_uses INTEGER;
+  v_discount NUMERIC;
+BEGIN
+  SELECT * INTO v_coupon
+  FROM coupons
+  WHERE code = UPPER(TRIM(p_code))
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'not_found');
+  END IF;
+
+  IF v_coupon.valid_from IS NOT NULL AND v_coupon.valid_from > now() THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'not_started');
+  END IF;
+
+  IF v_coupon.valid_until IS NOT NULL AND v_coupon.valid_until < now() THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'expired');
+  END IF;
+
+  IF v_coupon.max_uses IS NOT NULL AND COALESCE(v_coupon.used_count, 0) >= v_coupon.max_uses THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'usage_limit');
+  END IF;
+
+  IF v_coupon.max_uses_per_customer IS NOT NULL AND (p_user_id IS NOT NULL OR p_email IS NOT NULL) THEN
+    SELECT COUNT(*) INTO v_customer_uses
+    FROM coupon_redemptions
+    WHERE coupon_id = v_coupon.id
+      AND status IN ('reserved', 'confirmed')
+      AND (
+        (p_user_id IS NOT NULL AND user_id = p_user_id)
+        OR (p_email IS NOT NULL AND lower(customer_email) = lower(TRIM(p_email)))
+      );
+
+    IF v_customer_uses >= v_coupon.max_uses_per_customer THEN
+      RETURN jsonb_build_object('valid', false, 'error', 'customer_limit');
+    END IF;
+  END IF;
+
+  IF COALESCE(v_coupon.min_purchase, 0) > 0 AND p_subtotal < v_coupon.min_purchase THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'min_purchase', 'min_purchase', v_coupon.min_purchase);
+  END IF;
+
+  v_discount := ROUND(p_subtotal * v_coupon.discount_percent / 100, 2);
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'coupon_id', v_coupon.id,
+    'code', v_coupon.code,
+    'discount_percent', v_coupon.discount_percent,
+    'min_purchase', COALESCE(v_coupon.min_purchase, 0),
+    'discount_amount', v_discount
+  );
+END;
+$$;
+
+-- Fase 4: Resgatar cupom para um pedido (trava a linha do cupom)
+-- Idempotente: se o pedido já tem resgate ativo, devolve o mesmo resultado
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+  p_code TEXT,
+  p_order_id UUID,
+  p_subtotal NUMERIC,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon_id UUID;
+  v_existing RECORD;
+  v_result JSONB;
+BEGIN
+  SELECT id INTO v_coupon_id
+  FROM coupons
+  WHERE code = UPPER(TRIM(p_code))
+  FOR UPDATE;
+
+  IF v_coupon_id IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'not_found');
+  END IF;
+
+  SELECT r.*, c.code, c.discount_percent INTO v_existing
+  FROM coupon_redemptions r
+  JOIN coupons c ON c.id = r.coupon_id
+  WHERE r.order_id = p_order_id
+    AND r.status IN ('reserved', 'confirmed');
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'valid', true,
+      'coupon_id', v_existing.coupon_id,
+      'code', v_existing.code,
+      'discount_percent', v_existing.discount_percent,
+      'discount_amount', v_existing.discount_amount
+    );
+  END IF;
+
+  -- Com a linha travada, a contagem de usos não muda até o fim da transação
+  v_result := validate_coupon(p_code, p_subtotal, p_user_id, p_email);
+
+  IF NOT (v_result->>'valid')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  INSERT INTO coupon_redemptions (coupon_id, order_id, user_id, customer_email, discount_amount)
+  VALUES (v_coupon_id, p_order_id, p_user_id, lower(TRIM(p_email)), (v_result->>'discount_amount')::NUMERIC)
+  ON CONFLICT (order_id) DO UPDATE
+  SET coupon_id = EXCLUDED.coupon_id,
+      user_id = EXCLUDED.user_id,
+      customer_email = EXCLUDED.customer_email,
+      discount_amount = EXCLUDED.discount_amount,
+      status = 'reserved',
+      released_at = NULL;
+
+  UPDATE coupons
+  SET used_count = COALESCE(used_count, 0) + 1
+  WHERE id = v_coupon_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Fase 5: Confirmar resgate (pagamento aprovado)
+CREATE OR REPLACE FUNCTION public.confirm_coupon_redemption(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE coupon_redemptions
+  SET status = 'confirmed', confirmed_at = now()
+  WHERE order_id = p_order_id
+    AND status = 'reserved';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Fase 6: Liberar resgate (pedido cancelado, expirado ou excluído)
+-- Idempotente: só devolve o uso de resgates ainda não liberados
+CREATE OR REPLACE FUNCTION public.release_coupon_redemption(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon_id UUID;
+BEGIN
+  UPDATE coupon_redemptions
+  SET status = 'released', released_at = now()
+  WHERE order_id = p_order_id
+    AND status IN ('reserved', 'confirmed')
+  RETURNING coupon_id INTO v_coupon_id;
+
+  IF v_coupon_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE coupons
+  SET used_count = GREATEST(COALESCE(used_count, 0) - 1, 0)
+  WHERE id = v_coupon_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Apenas o service role (edge functions) pode resgatar, confirmar ou liberar
+REVOKE EXECUTE ON FUNCTION public.redeem_coupon(TEXT, UUID, NUMERIC, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.confirm_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Fase 7: Liberar automaticamente ao cancelar ou excluir um pedido
+CREATE OR REPLACE FUNCTION public.release_coupon_on_order_cancel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM release_coupon_redemption(OLD.id);
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM release_coupon_redemption(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_coupon_on_order_cancel
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_coupon_on_order_cancel();
+
+CREATE TRIGGER release_coupon_on_order_delete
+  BEFORE DELETE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_coupon_on_order_cancel();
@@ -0,0 +1,218 @@
+-- =====================================================
+-- CUPONS: Tipos de desconto e restrições
+-- percent (padrão), fixed (valor fixo em R$) e free_shipping (frete grátis)
+-- Restrição opcional por produtos e/ou categorias, e opção de acumular
+-- com o desconto do código de vendedor
+-- =====================================================
+
+-- Fase 1: Novas colunas
+ALTER TABLE public.coupons
+  ADD COLUMN IF NOT EXISTS discount_type TEXT NOT NULL DEFAULT 'percent'
+    CHECK (discount_type IN ('percent', 'fixed', 'free_shipping')),
+  ADD COLUMN IF NOT EXISTS fixed_amount NUMERIC
+    CHECK (fixed_amount IS NULL OR fixed_amount > 0),
+  ADD COLUMN IF NOT EXISTS product_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS category_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS stacks_with_seller BOOLEAN NOT NULL DEFAULT true;
+
+-- Cupons de valor fixo ou frete grátis não usam percentual (gravado como 0)
+ALTER TABLE public.coupons DROP CONSTRAINT IF EXISTS coupons_discount_percent_check;
+ALTER TABLE public.coupons
+  ADD CONSTRAINT coupons_discount_percent_check CHECK (discount_percent >= 0 AND discount_percent <= 100);
+
+ALTER TABLE public.coupons
+  ADD CONSTRAINT coupons_discount_type_values_check CHECK (
+    (discount_type = 'percent' AND discount_percent > 0)
+    OR (discount_type = 'fixed' AND fixed_amount IS NOT NULL)
+    OR discount_type = 'free_shipping'
+  );
+
+-- Fase 2: Motor de cupons com itens do carrinho
+-- p_items: [{ "product_id": uuid, "price": number, "quantity": number }]
+-- Novo código de erro: not_applicable (nenhum item elegível no carrinho)
+-- Chamada pela loja (anon/authenticated), o cliente é sempre auth.uid() e p_email é
+-- ignorado: ninguém consulta o histórico de cupons de outro e-mail ou usuário. O
+-- limite por e-mail vale no redeem_coupon (service_role, nas edge functions)
+DROP FUNCTION IF EXISTS public.redeem_coupon(TEXT, UUID, NUMERIC, UUID, TEXT);
+DROP FUNCTION IF EXISTS public.validate_coupon(TEXT, NUMERIC, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.validate_coupon(
+  p_code TEXT,
+  p_subtotal NUMERIC,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon RECORD;
+  v_customer_uses INTEGER;
+  v_eligible NUMERIC;
+  v_discount NUMERIC;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    p_user_id := auth.uid();
+    p_email := NULL;
+  END IF;
+
+  SELECT * INTO v_coupon
+  FROM coupons
+  WHERE code = UPPER(TRIM(p_code))
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'not_found');
+  END IF;
+
+  IF v_coupon.valid_from IS NOT NULL AND v_coupon.valid_from > now() THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'not_started');
+  END IF;
+
+  IF v_coupon.valid_until IS NOT NULL AND v_coupon.valid_until < now() THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'expired');
+  END IF;
+
+  IF v_coupon.max_uses IS NOT NULL AND COALESCE(v_coupon.used_count, 0) >= v_coupon.max_uses THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'usage_limit');
+  END IF;
+
+  IF v_coupon.max_uses_per_customer IS NOT NULL AND (p_user_id IS NOT NULL OR p_email IS NOT NULL) THEN
+    SELECT COUNT(*) INTO v_customer_uses
+    FROM coupon_redemptions
+    WHERE coupon_id = v_coupon.id
+      AND status IN ('reserved', 'confirmed')
+      AND (
+        (p_user_id IS NOT NULL AND user_id = p_user_id)
+        OR (p_email IS NOT NULL AND lower(customer_email) = lower(TRIM(p_email)))
+      );
+
+    IF v_customer_uses >= v_coupon.max_uses_per_customer THEN
+      RETURN jsonb_build_object('valid', false, 'error', 'customer_limit');
+    END IF;
+  END IF;
+
+  IF COALESCE(v_coupon.min_purchase, 0) > 0 AND p_subtotal < v_coupon.min_purchase THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'min_purchase', 'min_purchase', v_coupon.min_purchase);
+  END IF;
+
+  -- Subtotal elegível: itens dos produtos/categorias do cupom (ou o carrinho todo)
+  IF cardinality(v_coupon.product_ids) > 0 OR cardinality(v_coupon.category_ids) > 0 THEN
+    SELECT COALESCE(SUM((i->>'price')::NUMERIC * (i->>'quantity')::INTEGER), 0) INTO v_eligible
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) i
+    JOIN products p ON p.id = (i->>'product_id')::UUID
+    WHERE p.id = ANY(v_coupon.product_ids)
+       OR EXISTS (
+         SELECT 1 FROM categories c
+         WHERE c.id = ANY(v_coupon.category_ids)
+           AND lower(p.category) IN (lower(c.name), lower(c.slug))
+       );
+
+    IF v_eligible <= 0 THEN
+      RETURN jsonb_build_object('valid', false, 'error', 'not_applicable');
+    END IF;
+  ELSE
+    v_eligible := p_subtotal;
+  END IF;
+
+  v_discount := CASE v_coupon.discount_type
+    WHEN 'fixed' THEN LEAST(v_coupon.fixed_amount, v_eligible)
+    WHEN 'free_shipping' THEN 0
+    ELSE ROUND(v_eligible * v_coupon.discount_percent / 100, 2)
+  END;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'coupon_id', v_coupon.id,
+    'code', v_coupon.code,
+    'discount_type', v_coupon.discount_type,
+    'discount_percent', v_coupon.discount_percent,
+    'fixed_amount', v_coupon.fixed_amount,
+    'free_shipping', v_coupon.discount_type = 'free_shipping',
+    'stacks_with_seller', v_coupon.stacks_with_seller,
+    'min_purchase', COALESCE(v_coupon.min_purchase, 0),
+    'eligible_subtotal', v_eligible,
+    'discount_amount', v_discount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+  p_code TEXT,
+  p_order_id UUID,
+  p_subtotal NUMERIC,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon_id UUID;
+  v_existing RECORD;
+  v_result JSONB;
+BEGIN
+  SELECT id INTO v_coupon_id
+  FROM coupons
+  WHERE code = UPPER(TRIM(p_code))
+  FOR UPDATE;
+
+  IF v_coupon_id IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'not_found');
+  END IF;
+
+  SELECT r.coupon_id, r.discount_amount, c.code, c.discount_type, c.discount_percent,
+         c.fixed_amount, c.stacks_with_seller
+  INTO v_existing
+  FROM coupon_redemptions r
+  JOIN coupons c ON c.id = r.coupon_id
+  WHERE r.order_id = p_order_id
+    AND r.status IN ('reserved', 'confirmed');
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'valid', true,
+      'coupon_id', v_existing.coupon_id,
+      'code', v_existing.code,
+      'discount_type', v_existing.discount_type,
+      'discount_percent', v_existing.discount_percent,
+      'fixed_amount', v_existing.fixed_amount,
+      'free_shipping', v_existing.discount_type = 'free_shipping',
+      'stacks_with_seller', v_existing.stacks_with_seller,
+      'discount_amount', v_existing.discount_amount
+    );
+  END IF;
+
+  -- Com a linha travada, a contagem de usos não muda até o fim da transação
+  v_result := validate_coupon(p_code, p_subtotal, p_user_id, p_email, p_items);
+
+  IF NOT (v_result->>'valid')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  INSERT INTO coupon_redemptions (coupon_id, order_id, user_id, customer_email, discount_amount)
+  VALUES (v_coupon_id, p_order_id, p_user_id, lower(TRIM(p_email)), (v_result->>'discount_amount')::NUMERIC)
+  ON CONFLICT (order_id) DO UPDATE
+  SET coupon_id = EXCLUDED.coupon_id,
+      user_id = EXCLUDED.user_id,
+      customer_email = EXCLUDED.customer_email,
+      discount_amount = EXCLUDED.discount_amount,
+      status = 'reserved',
+      released_at = NULL;
+
+  UPDATE coupons
+  SET used_count = COALESCE(used_count, 0) + 1
+  WHERE id = v_coupon_id;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_coupon(TEXT, UUID, NUMERIC, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,114 @@
+-- =====================================================
+-- PROMOÇÕES: Regras de preço agendadas
+-- Desconto percentual ou preço fixo, aplicado a produtos, categorias
+-- ou variações, dentro de uma janela starts_at/ends_at.
+-- products.price continua sendo o preço base (não é editado).
+-- =====================================================
+
+-- Fase 1: Tabela de promoções
+CREATE TABLE public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'fixed_price')),
+  discount_value NUMERIC NOT NULL CHECK (discount_value > 0),
+  target_type TEXT NOT NULL CHECK (target_type IN ('product', 'category', 'variant')),
+  product_ids UUID[] NOT NULL DEFAULT '{}',
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  variant_ids UUID[] NOT NULL DEFAULT '{}',
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ends_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR discount_value < 100),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX idx_promotions_active_window ON public.promotions(is_active, starts_at, ends_at);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin manage promotions" ON public.promotions FOR ALL
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager manage promotions" ON public.promotions FOR ALL
+  USING (has_role(auth.uid(), 'manager'));
+
+CREATE TRIGGER update_promotions_updated_at
+  BEFORE UPDATE ON public.promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Fase 2: Preços promocionais vigentes
+-- Uma linha por produto (variant_id NULL) com o menor preço entre as promoções
+-- de produto/categoria, e uma linha por variação com promoção específica.
+-- O preço efetivo de uma variação é o menor entre a linha dela e a do produto.
+-- Produtos sem promoção ativa não aparecem (usar products.price).
+CREATE OR REPLACE FUNCTION public.get_promotional_prices(p_product_ids UUID[] DEFAULT NULL)
+RETURNS TABLE(
+  product_id UUID,
+  variant_id UUID,
+  regular_price NUMERIC,
+  price NUMERIC,
+  promotion_id UUID,
+  promotion_name TEXT,
+  ends_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH active AS (
+    SELECT *
+    FROM promotions
+    WHERE is_active = true
+      AND starts_at <= now()
+      AND (ends_at IS NULL OR ends_at > now())
+  ),
+  candidates AS (
+    SELECT p.id AS product_id,
+           NULL::UUID AS variant_id,
+           p.price AS regular_price,
+           a.id AS promotion_id,
+           a.name AS promotion_name,
+           a.ends_at,
+           CASE a.discount_type
+             WHEN 'percent' THEN ROUND(p.price * (1 - a.discount_value / 100), 2)
+             ELSE LEAST(a.discount_value, p.price)
+           END AS price
+    FROM products p
+    JOIN active a ON (
+      (a.target_type = 'product' AND p.id = ANY(a.product_ids))
+      OR (a.target_type = 'category' AND EXISTS (
+        SELECT 1 FROM categories c
+        WHERE c.id = ANY(a.category_ids)
+          AND lower(p.category) IN (lower(c.name), lower(c.slug))
+      ))
+    )
+    WHERE p_product_ids IS NULL OR p.id = ANY(p_product_ids)
+
+    UNION ALL
+
+    SELECT v.product_id,
+           v.id,
+           p.price,
+           a.id,
+           a.name,
+           a.ends_at,
+           CASE a.discount_type
+             WHEN 'percent' THEN ROUND(p.price * (1 - a.discount_value / 100), 2)
+             ELSE LEAST(a.discount_value, p.price)
+           END
+    FROM product_variants v
+    JOIN products p ON p.id = v.product_id
+    JOIN active a ON a.target_type = 'variant' AND v.id = ANY(a.variant_ids)
+    WHERE p_product_ids IS NULL OR v.product_id = ANY(p_product_ids)
+  )
+  SELECT DISTINCT ON (c.product_id, c.variant_id)
+         c.product_id, c.variant_id, c.regular_price, c.price, c.promotion_id, c.promotion_name, c.ends_at
+  FROM candidates c
+  WHERE c.price < c.regular_price
+  ORDER BY c.product_id, c.variant_id, c.price ASC;
+$$;
@@ -0,0 +1,407 @@
+-- =====================================================
+-- FIDELIDADE: Programa de pontos
+-- Extrato (ledger) por cliente; o saldo é sempre a soma do extrato.
+-- Ciclo: ganho ao entregar/pagar (configurável) -> estornado em reembolso.
+-- Resgate como desconto no checkout, devolvido se o pedido for cancelado.
+-- =====================================================
+
+-- Fase 1: Configuração na loja
+ALTER TABLE public.store_settings
+  ADD COLUMN IF NOT EXISTS loyalty_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS loyalty_points_per_real NUMERIC NOT NULL DEFAULT 1 CHECK (loyalty_points_per_real >= 0),
+  ADD COLUMN IF NOT EXISTS loyalty_point_value NUMERIC NOT NULL DEFAULT 0.05 CHECK (loyalty_point_value > 0),
+  ADD COLUMN IF NOT EXISTS loyalty_accrual_trigger TEXT NOT NULL DEFAULT 'delivered' CHECK (loyalty_accrual_trigger IN ('delivered', 'paid')),
+  ADD COLUMN IF NOT EXISTS loyalty_min_redeem_points INTEGER NOT NULL DEFAULT 100 CHECK (loyalty_min_redeem_points >= 0),
+  ADD COLUMN IF NOT EXISTS loyalty_max_redeem_percent NUMERIC NOT NULL DEFAULT 50 CHECK (loyalty_max_redeem_percent > 0 AND loyalty_max_redeem_percent <= 100);
+
+-- Fase 2: Pontos usados no pedido
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS loyalty_discount_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Fase 3: Extrato de pontos
+-- earn (ganho), redeem (resgate, negativo), redeem_release (resgate devolvido),
+-- reversal (estorno do ganho, negativo), adjustment (ajuste manual)
+CREATE TABLE public.loyalty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN ('earn', 'redeem', 'redeem_release', 'reversal', 'adjustment')),
+  points INTEGER NOT NULL CHECK (points <> 0),
+  description TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_loyalty_transactions_user ON public.loyalty_transactions(user_id, created_at DESC);
+
+-- Um lançamento automático de cada tipo por pedido (idempotência dos webhooks/triggers)
+CREATE UNIQUE INDEX idx_loyalty_transactions_order_type
+  ON public.loyalty_transactions(order_id, type)
+  WHERE order_id IS NOT NULL AND type <> 'adjustment';
+
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own loyalty_transactions" ON public.loyalty_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admin view loyalty_transactions" ON public.loyalty_transactions FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager view loyalty_transactions" ON public.loyalty_transactions FOR SELECT
+  USING (has_role(auth.uid(), 'manager'));
+
+-- Fase 4: Saldo e resumo do programa
+CREATE OR REPLACE FUNCTION public.get_loyalty_balance(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(points), 0)::INTEGER
+  FROM loyalty_transactions
+  WHERE user_id = p_user_id;
+$$;
+
+-- Cliente vê o próprio saldo; admin/gerente e funções de servidor veem qualquer um
+CREATE OR REPLACE FUNCTION public.can_view_loyalty(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() = p_user_id
+    OR has_role(auth.uid(), 'admin')
+    OR has_role(auth.uid(), 'manager')
+    OR auth.role() = 'service_role';
+$$;
+
+-- Retorna { enabled, balance, point_value, points_per_real, min_redeem_points,
+--           max_redeem_percent, accrual_trigger }
+CREATE OR REPLACE FUNCTION public.get_loyalty_summary(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+BEGIN
+  IF NOT can_view_loyalty(p_user_id) THEN
+    RAISE EXCEPTION 'Not allowed to view loyalty points of this user';
+  END IF;
+
+  SELECT * INTO v_settings FROM store_settings LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'enabled', COALESCE(v_settings.loyalty_enabled, false),
+    'balance', get_loyalty_balance(p_user_id),
+    'point_value', v_settings.loyalty_point_value,
+    'points_per_real', v_settings.loyalty_points_per_real,
+    'min_redeem_points', v_settings.loyalty_min_redeem_points,
+    'max_redeem_percent', v_settings.loyalty_max_redeem_percent,
+    'accrual_trigger', v_settings.loyalty_accrual_trigger
+  );
+END;
+$$;
+
+-- Fase 5: Calcular o desconto de um resgate
+-- p_points NULL = usar o máximo permitido. p_subtotal = itens após cupom/vendedor.
+-- Retorna { valid, error, balance, points, discount_amount, min_redeem_points }
+-- Códigos de erro: disabled, below_minimum
+CREATE OR REPLACE FUNCTION public.quote_loyalty_redemption(
+  p_user_id UUID,
+  p_subtotal NUMERIC,
+  p_points INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_balance INTEGER;
+  v_max_points INTEGER;
+  v_points INTEGER;
+BEGIN
+  IF NOT can_view_loyalty(p_user_id) THEN
+    RAISE EXCEPTION 'Not allowed to redeem loyalty points of this user';
+  END IF;
+
+  SELECT * INTO v_settings FROM store_settings LIMIT 1;
+
+  IF NOT COALESCE(v_settings.loyalty_enabled, false) THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'disabled');
+  END IF;
+
+  v_balance := get_loyalty_balance(p_user_id);
+  v_max_points := FLOOR(GREATEST(p_subtotal, 0) * v_settings.loyalty_max_redeem_percent / 100 / v_settings.loyalty_point_value);
+  v_points := LEAST(COALESCE(p_points, v_balance), v_balance, v_max_points);
+
+  IF v_points <= 0 OR v_points < v_settings.loyalty_min_redeem_points THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'error', 'below_minimum',
+      'balance', v_balance,
+      'min_redeem_points', v_settings.loyalty_min_redeem_points
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'balance', v_balance,
+    'points', v_points,
+    'discount_amount', ROUND(v_points * v_settings.loyalty_point_value, 2),
+    'min_redeem_points', v_settings.loyalty_min_redeem_points
+  );
+END;
+$$;
+
+-- Fase 6: Resgatar pontos para um pedido (chamado pelas funções de checkout)
+-- Trava o perfil para serializar resgates simultâneos do mesmo cliente
+CREATE OR REPLACE FUNCTION public.redeem_loyalty_points(
+  p_order_id UUID,
+  p_user_id UUID,
+  p_points INTEGER,
+  p_subtotal NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_existing RECORD;
+  v_quote JSONB;
+BEGIN
+  SELECT * INTO v_existing
+  FROM loyalty_transactions
+  WHERE order_id = p_order_id AND type = 'redeem';
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('valid', true, 'points', -v_existing.points);
+  END IF;
+
+  PERFORM 1 FROM profiles WHERE user_id = p_user_id FOR UPDATE;
+
+  v_quote := quote_loyalty_redemption(p_user_id, p_subtotal, p_points);
+
+  IF NOT (v_quote->>'valid')::BOOLEAN THEN
+    RETURN v_quote;
+  END IF;
+
+  IF (v_quote->>'points')::INTEGER <> p_points THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'insufficient_points', 'balance', v_quote->'balance');
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, type, points, description)
+  VALUES (p_user_id, p_order_id, 'redeem', -p_points, 'Resgate no pedido');
+
+  RETURN v_quote;
+END;
+$$;
+
+-- Devolve os pontos resgatados (pedido cancelado/excluído ou reembolsado)
+CREATE OR REPLACE FUNCTION public.release_loyalty_redemption(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redeem RECORD;
+BEGIN
+  SELECT * INTO v_redeem
+  FROM loyalty_transactions
+  WHERE order_id = p_order_id AND type = 'redeem';
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, type, points, description)
+  VALUES (v_redeem.user_id, p_order_id, 'redeem_release', -v_redeem.points, 'Pontos devolvidos (pedido cancelado)')
+  ON CONFLICT DO NOTHING;
+
+  RETURN CASE WHEN FOUND THEN -v_redeem.points ELSE 0 END;
+END;
+$$;
+
+-- Fase 7: Ganho e estorno por pedido
+-- Pontos sobre o valor pago em produtos (sem frete)
+CREATE OR REPLACE FUNCTION public.award_order_loyalty_points(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_settings RECORD;
+  v_points INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM store_settings LIMIT 1;
+
+  IF NOT COALESCE(v_settings.loyalty_enabled, false) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR v_order.user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- Pedidos de convidados ou de usuários sem perfil não pontuam
+  PERFORM 1 FROM profiles WHERE user_id = v_order.user_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_points := FLOOR(GREATEST(v_order.total - COALESCE(v_order.shipping_cost, 0), 0) * v_settings.loyalty_points_per_real);
+
+  IF v_points <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, type, points, description)
+  VALUES (v_order.user_id, p_order_id, 'earn', v_points, 'Pontos do pedido')
+  ON CONFLICT DO NOTHING;
+
+  RETURN CASE WHEN FOUND THEN v_points ELSE 0 END;
+END;
+$$;
+
+-- Estorna os pontos ganhos e devolve os resgatados (webhooks de reembolso)
+CREATE OR REPLACE FUNCTION public.reverse_order_loyalty_points(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_earn RECORD;
+  v_reversed INTEGER := 0;
+BEGIN
+  SELECT * INTO v_earn
+  FROM loyalty_transactions
+  WHERE order_id = p_order_id AND type = 'earn';
+
+  IF FOUND THEN
+    INSERT INTO loyalty_transactions (user_id, order_id, type, points, description)
+    VALUES (v_earn.user_id, p_order_id, 'reversal', -v_earn.points, 'Estorno (pedido reembolsado)')
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      v_reversed := v_earn.points;
+    END IF;
+  END IF;
+
+  PERFORM release_loyalty_redemption(p_order_id);
+
+  RETURN v_reversed;
+END;
+$$;
+
+-- Fase 8: Ajuste manual (admin/gerente)
+CREATE OR REPLACE FUNCTION public.adjust_loyalty_points(
+  p_user_id UUID,
+  p_points INTEGER,
+  p_reason TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only admins and managers can adjust loyalty points';
+  END IF;
+
+  IF p_points = 0 THEN
+    RAISE EXCEPTION 'Adjustment must not be zero';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Adjustment reason is required';
+  END IF;
+
+  PERFORM 1 FROM profiles WHERE user_id = p_user_id FOR UPDATE;
+
+  v_balance := get_loyalty_balance(p_user_id);
+
+  IF v_balance + p_points < 0 THEN
+    RAISE EXCEPTION 'Insufficient points: balance is %', v_balance;
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, type, points, description, created_by)
+  VALUES (p_user_id, 'adjustment', p_points, TRIM(p_reason), auth.uid());
+
+  PERFORM log_audit(
+    p_user_id => auth.uid(),
+    p_action => 'loyalty_adjusted',
+    p_entity_type => 'profile',
+    p_entity_id => p_user_id::TEXT,
+    p_metadata => jsonb_build_object('points', p_points, 'reason', TRIM(p_reason))
+  );
+
+  RETURN v_balance + p_points;
+END;
+$$;
+
+-- Apenas as funções de servidor (service role) movimentam pedidos
+REVOKE EXECUTE ON FUNCTION public.get_loyalty_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.redeem_loyalty_points(UUID, UUID, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_loyalty_redemption(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_order_loyalty_points(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_order_loyalty_points(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Fase 9: Triggers de pedido
+-- Ganho no status configurado; devolução do resgate ao cancelar ou excluir
+CREATE OR REPLACE FUNCTION public.handle_order_loyalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trigger TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM release_loyalty_redemption(OLD.id);
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM release_loyalty_redemption(NEW.id);
+    RETURN NEW;
+  END IF;
+
+  SELECT loyalty_accrual_trigger INTO v_trigger FROM store_settings LIMIT 1;
+
+  IF (v_trigger = 'delivered' AND NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered')
+    OR (v_trigger = 'paid' AND NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid') THEN
+    PERFORM award_order_loyalty_points(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_order_loyalty
+  AFTER UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_order_loyalty();
+
+CREATE TRIGGER release_loyalty_on_order_delete
+  BEFORE DELETE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_order_loyalty();
@@ -0,0 +1,49 @@
+-- =====================================================
+-- RASTREAMENTO: Eventos dos Correios por pedido
+-- A função agendada sync-tracking consulta o rastro dos pedidos enviados,
+-- grava os eventos aqui e marca o pedido como entregue na baixa final.
+-- =====================================================
+
+-- Fase 1: Controle de sincronização no pedido
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS tracking_synced_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_orders_tracking_sync
+  ON public.orders(tracking_synced_at NULLS FIRST)
+  WHERE status = 'shipped' AND tracking_code IS NOT NULL;
+
+-- Fase 2: Eventos de rastreamento
+-- Um mesmo evento pode voltar em várias consultas; a chave única garante
+-- que cada um seja gravado uma vez só
+CREATE TABLE public.order_tracking_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  tracking_code TEXT NOT NULL,
+  event_code TEXT NOT NULL,
+  event_type TEXT NOT NULL DEFAULT '',
+  description TEXT NOT NULL,
+  details TEXT,
+  location TEXT,
+  is_delivery BOOLEAN NOT NULL DEFAULT false,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  raw JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (order_id, tracking_code, event_code, event_type, occurred_at)
+);
+
+CREATE INDEX idx_order_tracking_events_order ON public.order_tracking_events(order_id, occurred_at DESC);
+
+ALTER TABLE public.order_tracking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own order_tracking_events" ON public.order_tracking_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_tracking_events.order_id
+      AND o.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admin view order_tracking_events" ON public.order_tracking_events FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager view order_tracking_events" ON public.order_tracking_events FOR SELECT
+  USING (has_role(auth.uid(), 'manager'));
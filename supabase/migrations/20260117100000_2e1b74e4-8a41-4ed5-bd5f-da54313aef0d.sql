@@ -0,0 +1,23 @@
+-- =====================================================
+-- FRETE: Peso e dimensões por produto/variação
+-- Usados para estimar a caixa do pedido na cotação dos Correios
+-- e na geração de etiquetas. Na variação, valores vazios herdam do produto.
+-- =====================================================
+
+-- Fase 1: Produto
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS weight_grams INTEGER CHECK (weight_grams IS NULL OR weight_grams > 0),
+  ADD COLUMN IF NOT EXISTS height_cm NUMERIC CHECK (height_cm IS NULL OR height_cm > 0),
+  ADD COLUMN IF NOT EXISTS width_cm NUMERIC CHECK (width_cm IS NULL OR width_cm > 0),
+  ADD COLUMN IF NOT EXISTS length_cm NUMERIC CHECK (length_cm IS NULL OR length_cm > 0);
+
+-- Fase 2: Variação (sobrescreve o produto quando preenchido)
+ALTER TABLE public.product_variants
+  ADD COLUMN IF NOT EXISTS weight_grams INTEGER CHECK (weight_grams IS NULL OR weight_grams > 0),
+  ADD COLUMN IF NOT EXISTS height_cm NUMERIC CHECK (height_cm IS NULL OR height_cm > 0),
+  ADD COLUMN IF NOT EXISTS width_cm NUMERIC CHECK (width_cm IS NULL OR width_cm > 0),
+  ADD COLUMN IF NOT EXISTS length_cm NUMERIC CHECK (length_cm IS NULL OR length_cm > 0);
+
+-- Fase 3: Dimensões da caixa usada na etiqueta
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS shipping_dimensions JSONB;
@@ -0,0 +1,323 @@
+-- =====================================================
+-- TROCAS E DEVOLUÇÕES: Solicitações de devolução (RMA)
+-- Ciclo: solicitada (cliente) -> aprovada ou recusada -> etiqueta reversa
+--        gerada -> itens recebidos (voltam ao estoque) -> reembolsada ou
+--        trocada (novo pedido de reposição)
+-- =====================================================
+
+-- Fase 1: Solicitações
+CREATE TABLE public.return_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID,
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'label_generated', 'received', 'refunded', 'exchanged')),
+  resolution TEXT NOT NULL CHECK (resolution IN ('refund', 'exchange')),
+  reason TEXT NOT NULL
+    CHECK (reason IN ('defect', 'wrong_item', 'not_as_described', 'damaged', 'changed_mind', 'other')),
+  comments TEXT,
+  admin_notes TEXT,
+  reverse_tracking_code TEXT,
+  reverse_label_number TEXT,
+  refund_amount NUMERIC CHECK (refund_amount IS NULL OR refund_amount >= 0),
+  replacement_order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  label_generated_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_return_requests_order ON public.return_requests(order_id);
+CREATE INDEX idx_return_requests_status ON public.return_requests(status, created_at DESC);
+
+CREATE TRIGGER update_return_requests_updated_at
+  BEFORE UPDATE ON public.return_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Fase 2: Itens devolvidos
+-- exchange_variant_id: outra cor/modelo do mesmo produto pedida na troca
+CREATE TABLE public.return_request_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_request_id UUID NOT NULL REFERENCES public.return_requests(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  exchange_variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  restocked_store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_return_request_items_request ON public.return_request_items(return_request_id);
+
+-- Fase 3: RLS
+-- Clientes só criam pela função create_return_request
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.return_request_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own return_requests" ON public.return_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admin manage return_requests" ON public.return_requests FOR ALL
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager manage return_requests" ON public.return_requests FOR ALL
+  USING (has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Users view own return_request_items" ON public.return_request_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.return_requests r
+    WHERE r.id = return_request_items.return_request_id
+      AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admin manage return_request_items" ON public.return_request_items FOR ALL
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager manage return_request_items" ON public.return_request_items FOR ALL
+  USING (has_role(auth.uid(), 'manager'));
+
+-- Fase 4: Abrir solicitação (cliente)
+-- p_items: [{ "order_item_id": uuid, "quantity": int, "exchange_variant_id": uuid|null }]
+-- Só pedidos entregues do próprio cliente, uma solicitação em andamento por
+-- pedido e nunca mais unidades do que as compradas (somando devoluções anteriores)
+CREATE OR REPLACE FUNCTION public.create_return_request(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_resolution TEXT,
+  p_comments TEXT,
+  p_items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_item JSONB;
+  v_order_item RECORD;
+  v_quantity INTEGER;
+  v_exchange_variant UUID;
+  v_already_returned INTEGER;
+  v_return_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Faça login para solicitar uma troca ou devolução';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Só é possível solicitar troca ou devolução de pedidos entregues';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM return_requests
+    WHERE order_id = p_order_id
+      AND status IN ('requested', 'approved', 'label_generated', 'received')
+  ) THEN
+    RAISE EXCEPTION 'Já existe uma solicitação em andamento para este pedido';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Selecione ao menos um item';
+  END IF;
+
+  INSERT INTO return_requests (order_id, user_id, reason, resolution, comments)
+  VALUES (p_order_id, auth.uid(), p_reason, p_resolution, NULLIF(TRIM(p_comments), ''))
+  RETURNING id INTO v_return_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT * INTO v_order_item
+    FROM order_items
+    WHERE id = (v_item->>'order_item_id')::UUID
+      AND order_id = p_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence ao pedido';
+    END IF;
+
+    SELECT COALESCE(SUM(ri.quantity), 0) INTO v_already_returned
+    FROM return_request_items ri
+    JOIN return_requests r ON r.id = ri.return_request_id
+    WHERE ri.order_item_id = v_order_item.id
+      AND r.status <> 'rejected';
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity + v_already_returned > v_order_item.quantity THEN
+      RAISE EXCEPTION 'Quantidade inválida para %', v_order_item.product_name;
+    END IF;
+
+    v_exchange_variant := NULL;
+    IF p_resolution = 'exchange' AND NULLIF(v_item->>'exchange_variant_id', '') IS NOT NULL THEN
+      SELECT id INTO v_exchange_variant
+      FROM product_variants
+      WHERE id = (v_item->>'exchange_variant_id')::UUID
+        AND product_id = v_order_item.product_id;
+
+      IF v_exchange_variant IS NULL THEN
+        RAISE EXCEPTION 'Variação de troca inválida para %', v_order_item.product_name;
+      END IF;
+    END IF;
+
+    INSERT INTO return_request_items (return_request_id, order_item_id, quantity, exchange_variant_id)
+    VALUES (v_return_id, v_order_item.id, v_quantity, v_exchange_variant);
+  END LOOP;
+
+  RETURN v_return_id;
+END;
+$$;
+
+-- Fase 5: Receber itens de volta no estoque (admin/gerente)
+-- Cada item volta para a loja informada, ou para a loja de onde saiu
+CREATE OR REPLACE FUNCTION public.receive_return_items(p_return_id UUID, p_store_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return RECORD;
+  v_item RECORD;
+  v_store_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Sem permissão';
+  END IF;
+
+  SELECT * INTO v_return FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Solicitação não encontrada';
+  END IF;
+
+  IF v_return.status NOT IN ('approved', 'label_generated') THEN
+    RAISE EXCEPTION 'A solicitação precisa estar aprovada para receber os itens';
+  END IF;
+
+  FOR v_item IN
+    SELECT ri.id, ri.quantity, oi.product_variant_id, oi.source_store_id
+    FROM return_request_items ri
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    WHERE ri.return_request_id = p_return_id
+      AND oi.product_variant_id IS NOT NULL
+  LOOP
+    v_store_id := COALESCE(
+      p_store_id,
+      v_item.source_store_id,
+      (SELECT id FROM stores WHERE is_active ORDER BY display_order NULLS LAST LIMIT 1)
+    );
+
+    INSERT INTO store_stock (product_variant_id, store_id, quantity)
+    VALUES (v_item.product_variant_id, v_store_id, v_item.quantity)
+    ON CONFLICT (product_variant_id, store_id)
+    DO UPDATE SET quantity = store_stock.quantity + EXCLUDED.quantity,
+                  updated_at = now();
+
+    -- Manter product_variants.stock_quantity em sincronia (usado na vitrine)
+    UPDATE product_variants
+    SET stock_quantity = (
+      SELECT COALESCE(SUM(quantity), 0) FROM store_stock WHERE product_variant_id = v_item.product_variant_id
+    )
+    WHERE id = v_item.product_variant_id;
+
+    UPDATE return_request_items SET restocked_store_id = v_store_id WHERE id = v_item.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE return_requests
+  SET status = 'received', received_at = now()
+  WHERE id = p_return_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Fase 6: Pedido de reposição para trocas (admin/gerente)
+-- Pedido sem custo, já pago, com o estoque reservado e baixado na hora
+CREATE OR REPLACE FUNCTION public.create_return_replacement_order(p_return_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return RECORD;
+  v_order RECORD;
+  v_new_order_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Sem permissão';
+  END IF;
+
+  SELECT * INTO v_return FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Solicitação não encontrada';
+  END IF;
+
+  IF v_return.resolution <> 'exchange' OR v_return.status <> 'received' THEN
+    RAISE EXCEPTION 'A troca só pode ser feita depois de receber os itens';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_return.order_id;
+
+  INSERT INTO orders (
+    user_id, guest_email, phone, shipping_address, shipping_method,
+    total, shipping_cost, status, payment_status, payment_method
+  )
+  VALUES (
+    v_order.user_id, v_order.guest_email, v_order.phone, v_order.shipping_address, v_order.shipping_method,
+    0, 0, 'processing', 'paid', 'exchange'
+  )
+  RETURNING id INTO v_new_order_id;
+
+  INSERT INTO order_items (order_id, product_id, product_name, product_variant_id, price, quantity)
+  SELECT
+    v_new_order_id,
+    oi.product_id,
+    CASE
+      WHEN ri.exchange_variant_id IS NOT NULL THEN
+        oi.product_name || ' (troca: ' || CONCAT_WS(' / ', pv.color, pv.model) || ')'
+      ELSE oi.product_name || ' (troca)'
+    END,
+    COALESCE(ri.exchange_variant_id, oi.product_variant_id),
+    0,
+    ri.quantity
+  FROM return_request_items ri
+  JOIN order_items oi ON oi.id = ri.order_item_id
+  LEFT JOIN product_variants pv ON pv.id = ri.exchange_variant_id
+  WHERE ri.return_request_id = p_return_id;
+
+  -- Falha (e desfaz tudo) se não houver estoque para a reposição
+  PERFORM reserve_order_stock(v_new_order_id);
+  PERFORM commit_order_stock(v_new_order_id);
+
+  UPDATE return_requests
+  SET status = 'exchanged', replacement_order_id = v_new_order_id, resolved_at = now()
+  WHERE id = p_return_id;
+
+  RETURN v_new_order_id;
+END;
+$$;
+
+-- Fase 7: Template de email das etapas
+INSERT INTO public.email_templates (template_key, name, subject, html_content, variables) VALUES
+(
+  'return_status_update',
+  'Troca/Devolução - Atualização',
+  '{{status_emoji}} {{status_label}} - Pedido #{{order_id}}',
+  '<!DOCTYPE html><html><head><meta charset="utf-8"><style>body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;background:#f5f5f5;margin:0;padding:20px}.container{max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden}.header{background:linear-gradient(135deg,{{status_color}},{{status_color}});padding:30px;text-align:center;color:#fff}.content{padding:30px}.footer{background:#f8f8f8;padding:20px;text-align:center;color:#666;font-size:12px}.item{padding:10px 0;border-bottom:1px solid #eee}</style></head><body><div class="container"><div class="header"><h1>{{status_emoji}} {{status_label}}</h1></div><div class="content"><p>Olá, <strong>{{customer_name}}</strong>!</p><p>{{status_message}}</p><p><strong>Pedido:</strong> #{{order_id}}<br><strong>Solicitação:</strong> #{{return_id}} ({{resolution_label}})</p><h3>📦 Itens</h3>{{items_html}}{{details_section}}</div><div class="footer"><p>Cali Brasil - Beach Tech Style 🌴</p><p>Dúvidas? Fale com a gente: {{store_email}}</p></div></div></body></html>',
+  '["customer_name", "order_id", "return_id", "resolution_label", "status_emoji", "status_label", "status_message", "status_color", "items_html", "details_section", "store_email"]'::jsonb
+)
+ON CONFLICT (template_key) DO NOTHING;
@@ -0,0 +1,205 @@
+-- =====================================================
+-- REEMBOLSOS: Estorno pelo admin via Stripe / Mercado Pago
+-- Reembolso total ou parcial (por item ou valor livre), registrado por
+-- pedido, com devolução opcional dos itens ao estoque.
+-- =====================================================
+
+-- Fase 1: Identificação do pagamento e total reembolsado no pedido
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS stripe_payment_intent_id TEXT,
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+-- Quantidade já devolvida ao estoque (reembolso ou devolução), evita repor duas vezes
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS restocked_quantity INTEGER NOT NULL DEFAULT 0 CHECK (restocked_quantity >= 0);
+
+-- Fase 2: Reembolsos
+-- items: [{ "order_item_id": uuid, "quantity": int }] quando o reembolso é por item
+CREATE TABLE public.order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  return_request_id UUID REFERENCES public.return_requests(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  gateway TEXT NOT NULL CHECK (gateway IN ('stripe', 'mercadopago', 'manual')),
+  gateway_refund_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'pending', 'failed')),
+  reason TEXT,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  restocked BOOLEAN NOT NULL DEFAULT false,
+  error_message TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_order_refunds_order ON public.order_refunds(order_id, created_at DESC);
+
+-- Inserção apenas pela edge function refund-order (service role)
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin view order_refunds" ON public.order_refunds FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager view order_refunds" ON public.order_refunds FOR SELECT
+  USING (has_role(auth.uid(), 'manager'));
+
+-- Fase 3: Devolução de um item ao estoque
+-- Loja: a informada, a de origem do item ou a primeira loja ativa
+CREATE OR REPLACE FUNCTION public.restock_order_item(
+  p_order_item_id UUID,
+  p_quantity INTEGER,
+  p_store_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_store_id UUID;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item do pedido não encontrado';
+  END IF;
+
+  IF p_quantity <= 0 OR v_item.restocked_quantity + p_quantity > v_item.quantity THEN
+    RAISE EXCEPTION 'Quantidade inválida para devolver ao estoque: %', v_item.product_name;
+  END IF;
+
+  UPDATE order_items
+  SET restocked_quantity = restocked_quantity + p_quantity
+  WHERE id = p_order_item_id;
+
+  IF v_item.product_variant_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_store_id := COALESCE(
+    p_store_id,
+    v_item.source_store_id,
+    (SELECT id FROM stores WHERE is_active ORDER BY display_order NULLS LAST LIMIT 1)
+  );
+
+  INSERT INTO store_stock (product_variant_id, store_id, quantity)
+  VALUES (v_item.product_variant_id, v_store_id, p_quantity)
+  ON CONFLICT (product_variant_id, store_id)
+  DO UPDATE SET quantity = store_stock.quantity + EXCLUDED.quantity,
+                updated_at = now();
+
+  -- Manter product_variants.stock_quantity em sincronia (usado na vitrine)
+  UPDATE product_variants
+  SET stock_quantity = (
+    SELECT COALESCE(SUM(quantity), 0) FROM store_stock WHERE product_variant_id = v_item.product_variant_id
+  )
+  WHERE id = v_item.product_variant_id;
+
+  RETURN v_store_id;
+END;
+$$;
+
+-- Fase 4: Recebimento de devoluções passa a usar a mesma reposição
+CREATE OR REPLACE FUNCTION public.receive_return_items(p_return_id UUID, p_store_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return RECORD;
+  v_item RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Sem permissão';
+  END IF;
+
+  SELECT * INTO v_return FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Solicitação não encontrada';
+  END IF;
+
+  IF v_return.status NOT IN ('approved', 'label_generated') THEN
+    RAISE EXCEPTION 'A solicitação precisa estar aprovada para receber os itens';
+  END IF;
+
+  FOR v_item IN
+    SELECT ri.id, ri.quantity, ri.order_item_id
+    FROM return_request_items ri
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    WHERE ri.return_request_id = p_return_id
+      AND oi.product_variant_id IS NOT NULL
+  LOOP
+    UPDATE return_request_items
+    SET restocked_store_id = restock_order_item(v_item.order_item_id, v_item.quantity, p_store_id)
+    WHERE id = v_item.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE return_requests
+  SET status = 'received', received_at = now()
+  WHERE id = p_return_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restock_order_item(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Fase 5: Reserva do valor reembolsado
+-- refund-order soma o valor em refunded_amount com o pedido travado antes de
+-- chamar o gateway, então dois reembolsos simultâneos não passam do total.
+-- Se o gateway recusar, release_order_refund devolve o valor.
+CREATE OR REPLACE FUNCTION public.claim_order_refund(p_order_id UUID, p_amount NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT id, total, refunded_amount, payment_status INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF COALESCE(v_order.payment_status, '') NOT IN ('paid', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Só é possível reembolsar pedidos pagos';
+  END IF;
+
+  IF p_amount <= 0 OR round(v_order.refunded_amount + p_amount, 2) > round(v_order.total, 2) THEN
+    RAISE EXCEPTION 'Valor acima do disponível para reembolso (R$ %)',
+      to_char(v_order.total - v_order.refunded_amount, 'FM999999990.00');
+  END IF;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + p_amount
+  WHERE id = p_order_id;
+
+  RETURN v_order.refunded_amount + p_amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_order_refund(p_order_id UUID, p_amount NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE orders
+  SET refunded_amount = GREATEST(refunded_amount - p_amount, 0)
+  WHERE id = p_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_order_refund(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_order_refund(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,168 @@
+-- =====================================================
+-- AVISE-ME: Aviso de volta ao estoque por variação
+-- Ciclo: waiting (inscrito) -> ready (estoque voltou, trigger em store_stock)
+--        -> notified (email enviado pela edge function send-back-in-stock-emails)
+-- =====================================================
+
+-- Fase 1: Inscrições (clientes logados ou visitantes por email)
+CREATE TABLE public.back_in_stock_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_variant_id UUID NOT NULL REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  user_id UUID,
+  email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'ready', 'notified')),
+  ready_at TIMESTAMPTZ,
+  notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Uma inscrição em aberto por email e variação
+CREATE UNIQUE INDEX idx_back_in_stock_open_email
+  ON public.back_in_stock_subscriptions(product_variant_id, lower(email))
+  WHERE status <> 'notified';
+
+CREATE INDEX idx_back_in_stock_variant_status ON public.back_in_stock_subscriptions(product_variant_id, status);
+CREATE INDEX idx_back_in_stock_ready ON public.back_in_stock_subscriptions(ready_at) WHERE status = 'ready';
+
+-- Inserção apenas via subscribe_back_in_stock
+ALTER TABLE public.back_in_stock_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own back_in_stock_subscriptions" ON public.back_in_stock_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users delete own back_in_stock_subscriptions" ON public.back_in_stock_subscriptions FOR DELETE
+  USING (auth.uid() = user_id AND status = 'waiting');
+
+CREATE POLICY "Admin manage back_in_stock_subscriptions" ON public.back_in_stock_subscriptions FOR ALL
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Manager view back_in_stock_subscriptions" ON public.back_in_stock_subscriptions FOR SELECT
+  USING (has_role(auth.uid(), 'manager'));
+
+-- Fase 2: Inscrição
+-- Logado: usa o email da conta quando nenhum é informado
+-- Retorna false se o email já estava inscrito nessa variação
+CREATE OR REPLACE FUNCTION public.subscribe_back_in_stock(p_variant_id UUID, p_email TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id UUID;
+  v_email TEXT;
+  v_count INTEGER;
+BEGIN
+  SELECT product_id INTO v_product_id FROM product_variants WHERE id = p_variant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Variação não encontrada';
+  END IF;
+
+  v_email := lower(trim(COALESCE(
+    NULLIF(trim(p_email), ''),
+    (SELECT email FROM auth.users WHERE id = auth.uid())
+  )));
+
+  IF v_email IS NULL OR length(v_email) > 255 OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Informe um email válido';
+  END IF;
+
+  IF get_total_available_stock(p_variant_id) > 0 THEN
+    RAISE EXCEPTION 'Esta variação já está disponível';
+  END IF;
+
+  INSERT INTO back_in_stock_subscriptions (product_variant_id, product_id, user_id, email)
+  VALUES (p_variant_id, v_product_id, auth.uid(), v_email)
+  ON CONFLICT (product_variant_id, lower(email)) WHERE status <> 'notified' DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count > 0;
+END;
+$$;
+
+-- Fase 3: Marcar inscrições quando o estoque volta
+-- Cobre qualquer escrita em store_stock: edição manual, importação CSV,
+-- complete_stock_transfer, devoluções e liberação de reservas
+CREATE OR REPLACE FUNCTION public.flag_back_in_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.quantity - NEW.reserved_quantity) > 0 THEN
+    UPDATE back_in_stock_subscriptions
+    SET status = 'ready', ready_at = now()
+    WHERE product_variant_id = NEW.product_variant_id
+      AND status = 'waiting';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_back_in_stock_on_store_stock
+  AFTER INSERT OR UPDATE OF quantity, reserved_quantity ON public.store_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_back_in_stock();
+
+-- Fase 4: Demanda por variação (painel do admin)
+CREATE OR REPLACE FUNCTION public.get_back_in_stock_demand()
+RETURNS TABLE (
+  product_variant_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  product_image TEXT,
+  color TEXT,
+  model TEXT,
+  available_stock INTEGER,
+  waiting_count INTEGER,
+  ready_count INTEGER,
+  notified_count INTEGER,
+  last_requested_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Sem permissão';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pv.id,
+    p.id,
+    p.name,
+    p.image,
+    pv.color,
+    pv.model,
+    get_total_available_stock(pv.id),
+    COUNT(*) FILTER (WHERE s.status = 'waiting')::INTEGER,
+    COUNT(*) FILTER (WHERE s.status = 'ready')::INTEGER,
+    COUNT(*) FILTER (WHERE s.status = 'notified')::INTEGER,
+    MAX(s.created_at)
+  FROM back_in_stock_subscriptions s
+  JOIN product_variants pv ON pv.id = s.product_variant_id
+  JOIN products p ON p.id = s.product_id
+  GROUP BY pv.id, p.id
+  ORDER BY COUNT(*) FILTER (WHERE s.status = 'waiting') DESC, MAX(s.created_at) DESC;
+END;
+$$;
+
+-- Fase 5: Template do email
+INSERT INTO public.email_templates (template_key, name, subject, html_content, variables) VALUES
+(
+  'back_in_stock',
+  'Avise-me - Produto de volta',
+  '🔔 {{product_name}} voltou ao estoque!',
+  '<!DOCTYPE html><html><head><meta charset="utf-8"><style>body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;background:#f5f5f5;margin:0;padding:20px}.container{max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden}.header{background:linear-gradient(135deg,#0d9488,#14b8a6);padding:30px;text-align:center;color:#fff}.content{padding:30px;text-align:center}.product img{max-width:220px;border-radius:8px}.btn{display:inline-block;background:#16a34a;color:#fff;padding:15px 30px;text-decoration:none;border-radius:8px;font-weight:bold;margin-top:20px}.footer{background:#f8f8f8;padding:20px;text-align:center;color:#666;font-size:12px}</style></head><body><div class="container"><div class="header"><h1>🔔 Voltou ao estoque!</h1></div><div class="content"><p>O produto que você pediu para avisar está disponível de novo:</p><div class="product"><img src="{{product_image}}" alt="{{product_name}}"><h2>{{product_name}}</h2><p>{{variant_label}}</p></div><p>Corre que o estoque é limitado!</p><a href="{{product_url}}" class="btn">Comprar agora 🛍️</a></div><div class="footer"><p>Cali Brasil - Beach Tech Style 🌴</p><p>Você recebeu este email porque pediu para ser avisado em calibrasil.com. Dúvidas? {{store_email}}</p></div></div></body></html>',
+  '["product_name", "variant_label", "product_image", "product_url", "store_email"]'::jsonb
+)
+ON CONFLICT (template_key) DO NOTHING;
+
+REVOKE EXECUTE ON FUNCTION public.flag_back_in_stock() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,177 @@
+-- =====================================================
+-- WISHLIST: Alertas de queda de preço e volta ao estoque
+-- O preço efetivo (com promoção) é registrado ao salvar o produto. A edge
+-- function send-wishlist-alerts avisa quando o preço cai abaixo dele ou
+-- quando um produto esgotado volta ao estoque.
+-- =====================================================
+
+-- Fase 1: Preço efetivo e disponibilidade de um produto
+-- Mesma regra da vitrine: menor entre products.price e as promoções de produto/categoria
+CREATE OR REPLACE FUNCTION public.get_effective_product_price(p_product_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT LEAST(
+    p.price,
+    (SELECT MIN(pp.price) FROM get_promotional_prices(ARRAY[p.id]) pp WHERE pp.variant_id IS NULL)
+  )
+  FROM products p
+  WHERE p.id = p_product_id;
+$$;
+
+-- Disponível: marcado em estoque e, se tiver variações, ao menos uma com estoque
+CREATE OR REPLACE FUNCTION public.is_product_available(p_product_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(p.in_stock, true) AND (
+    NOT EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id)
+    OR EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id AND v.stock_quantity > 0)
+  )
+  FROM products p
+  WHERE p.id = p_product_id;
+$$;
+
+-- Fase 2: Estado dos alertas por item da wishlist
+-- last_notified_price: evita repetir o aviso para a mesma queda de preço
+-- last_known_available: detecta a transição esgotado -> disponível
+ALTER TABLE public.wishlist
+  ADD COLUMN IF NOT EXISTS price_at_add NUMERIC,
+  ADD COLUMN IF NOT EXISTS alerts_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS last_notified_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS last_known_available BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS last_alerted_at TIMESTAMPTZ;
+
+UPDATE public.wishlist w
+SET price_at_add = get_effective_product_price(w.product_id),
+    last_known_available = COALESCE(is_product_available(w.product_id), true)
+WHERE w.price_at_add IS NULL;
+
+-- Preenchido no servidor para o cliente não escolher o preço de referência
+CREATE OR REPLACE FUNCTION public.set_wishlist_price_snapshot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.price_at_add := get_effective_product_price(NEW.product_id);
+  NEW.last_known_available := COALESCE(is_product_available(NEW.product_id), true);
+  NEW.last_notified_price := NULL;
+  NEW.last_alerted_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_wishlist_price_snapshot_on_insert
+  BEFORE INSERT ON public.wishlist
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_wishlist_price_snapshot();
+
+-- Cliente só altera o opt-out do item
+CREATE POLICY "Users update own wishlist"
+ON public.wishlist
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.wishlist FROM anon, authenticated;
+GRANT UPDATE (alerts_enabled) ON public.wishlist TO authenticated;
+
+-- Fase 3: Opt-out global no perfil
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS wishlist_alerts_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- Fase 4: Alertas pendentes (usado pela edge function, service role)
+-- Atualiza last_known_available dos produtos que esgotaram e retorna os itens
+-- com queda de preço ou que voltaram ao estoque
+CREATE OR REPLACE FUNCTION public.collect_wishlist_alerts(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (
+  wishlist_id UUID,
+  user_id UUID,
+  product_id UUID,
+  product_name TEXT,
+  product_image TEXT,
+  reference_price NUMERIC,
+  current_price NUMERIC,
+  alert_type TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE wishlist w
+  SET last_known_available = false
+  WHERE w.last_known_available
+    AND NOT COALESCE(is_product_available(w.product_id), true);
+
+  RETURN QUERY
+  WITH items AS (
+    SELECT w.id, w.user_id, w.product_id, p.name, p.image,
+           COALESCE(w.last_notified_price, w.price_at_add) AS reference_price,
+           get_effective_product_price(w.product_id) AS current_price,
+           w.last_known_available,
+           is_product_available(w.product_id) AS available
+    FROM wishlist w
+    JOIN products p ON p.id = w.product_id
+    WHERE w.alerts_enabled
+      AND NOT EXISTS (
+        SELECT 1 FROM profiles pr
+        WHERE pr.user_id = w.user_id AND NOT pr.wishlist_alerts_enabled
+      )
+  )
+  SELECT i.id, i.user_id, i.product_id, i.name, i.image, i.reference_price, i.current_price,
+         CASE WHEN NOT i.last_known_available THEN 'back_in_stock' ELSE 'price_drop' END
+  FROM items i
+  WHERE i.available
+    AND (
+      NOT i.last_known_available
+      OR (i.reference_price IS NOT NULL AND i.current_price < i.reference_price)
+    )
+  ORDER BY i.user_id
+  LIMIT p_limit;
+END;
+$$;
+
+-- Marca os itens avisados com o preço do aviso
+CREATE OR REPLACE FUNCTION public.mark_wishlist_alerted(p_wishlist_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE wishlist
+  SET last_notified_price = get_effective_product_price(product_id),
+      last_known_available = true,
+      last_alerted_at = now()
+  WHERE id = ANY(p_wishlist_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.collect_wishlist_alerts(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_wishlist_alerted(UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_wishlist_price_snapshot() FROM PUBLIC, anon, authenticated;
+
+-- Fase 5: Template do email
+INSERT INTO public.email_templates (template_key, name, subject, html_content, variables) VALUES
+(
+  'wishlist_alert',
+  'Wishlist - Queda de preço / Voltou ao estoque',
+  '💙 {{headline}}',
+  '<!DOCTYPE html><html><head><meta charset="utf-8"><style>body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;background:#f5f5f5;margin:0;padding:20px}.container{max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden}.header{background:linear-gradient(135deg,#0d9488,#14b8a6);padding:30px;text-align:center;color:#fff}.content{padding:30px}.product{display:flex;align-items:center;gap:15px;padding:15px 0;border-bottom:1px solid #eee}.product img{width:70px;height:70px;object-fit:cover;border-radius:8px}.old{color:#999;text-decoration:line-through}.new{color:#16a34a;font-weight:bold}.btn{display:inline-block;background:#16a34a;color:#fff;padding:15px 30px;text-decoration:none;border-radius:8px;font-weight:bold;margin-top:20px}.footer{background:#f8f8f8;padding:20px;text-align:center;color:#666;font-size:12px}</style></head><body><div class="container"><div class="header"><h1>💙 {{headline}}</h1></div><div class="content"><p>Olá, <strong>{{customer_name}}</strong>!</p><p>Separamos as novidades dos produtos que você salvou na sua wishlist:</p>{{products_html}}<div style="text-align:center"><a href="{{wishlist_url}}" class="btn">Ver minha wishlist</a></div></div><div class="footer"><p>Cali Brasil - Beach Tech Style 🌴</p><p>Não quer mais esses avisos? Desative em <a href="{{wishlist_url}}">sua wishlist</a> ou no seu perfil.</p></div></div></body></html>',
+  '["customer_name", "headline", "products_html", "wishlist_url"]'::jsonb
+)
+ON CONFLICT (template_key) DO NOTHING;
@@ -0,0 +1,258 @@
+-- =====================================================
+-- CARRINHO ABANDONADO: Visitantes, sequência de emails e links de recuperação
+-- O carrinho é capturado pelo email digitado no checkout (logado ou não).
+-- A edge function send-abandoned-cart-email envia a sequência configurada
+-- (ex.: 1h, 24h e 72h), com cupom de uso único opcional no último passo.
+-- O pedido pago vinculado ao carrinho marca a recuperação automaticamente.
+-- =====================================================
+
+-- Fase 1: Carrinhos de visitantes e estado da sequência
+-- last_activity_at: última captura do carrinho (updated_at muda a cada envio)
+-- closed_at: carrinho encerrado por uma compra sem recuperação
+ALTER TABLE public.abandoned_carts
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.abandoned_carts
+  ADD COLUMN IF NOT EXISTS email TEXT,
+  ADD COLUMN IF NOT EXISTS customer_name TEXT,
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS emails_sent INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_email_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS recovery_coupon_code TEXT,
+  ADD COLUMN IF NOT EXISTS recovered_order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recovered_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS recovered_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS capture_ip TEXT;
+
+UPDATE public.abandoned_carts
+SET last_activity_at = updated_at,
+    emails_sent = CASE WHEN email_sent THEN 1 ELSE 0 END
+WHERE emails_sent = 0;
+
+ALTER TABLE public.abandoned_carts
+  ADD CONSTRAINT abandoned_carts_owner_check CHECK (user_id IS NOT NULL OR email IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_open_email
+  ON public.abandoned_carts (lower(email))
+  WHERE NOT COALESCE(recovered, false) AND closed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_open_user
+  ON public.abandoned_carts (user_id)
+  WHERE NOT COALESCE(recovered, false) AND closed_at IS NULL;
+
+-- Limite de capturas de visitantes (por IP e por email)
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_guest_ip
+  ON public.abandoned_carts (capture_ip, created_at)
+  WHERE user_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_guest_email
+  ON public.abandoned_carts (lower(email), created_at)
+  WHERE user_id IS NULL;
+
+-- Fase 2: Vínculo do pedido com o carrinho (link de recuperação ou captura do checkout)
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS abandoned_cart_id UUID REFERENCES public.abandoned_carts(id) ON DELETE SET NULL;
+
+-- Fase 3: Configuração da sequência
+-- abandoned_cart_steps: horas desde a última atividade para cada email
+ALTER TABLE public.store_settings
+  ADD COLUMN IF NOT EXISTS abandoned_cart_steps INTEGER[] NOT NULL DEFAULT '{1,24,72}',
+  ADD COLUMN IF NOT EXISTS abandoned_cart_coupon_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS abandoned_cart_coupon_percent NUMERIC NOT NULL DEFAULT 10
+    CHECK (abandoned_cart_coupon_percent > 0 AND abandoned_cart_coupon_percent < 100),
+  ADD COLUMN IF NOT EXISTS abandoned_cart_coupon_valid_days INTEGER NOT NULL DEFAULT 3
+    CHECK (abandoned_cart_coupon_valid_days > 0);
+
+ALTER TABLE public.store_settings
+  ADD CONSTRAINT store_settings_abandoned_cart_steps_check CHECK (
+    cardinality(abandoned_cart_steps) BETWEEN 1 AND 5
+    AND 0 < ALL(abandoned_cart_steps)
+  );
+
+-- Fase 4: Captura do carrinho no checkout
+-- Logado: carrinho aberto do usuário. Visitante: carrinho aberto de visitante com o mesmo
+-- email capturado do mesmo IP, para ninguém trocar os itens do carrinho de outra pessoa
+-- (o conteúdo dos emails de recuperação) só sabendo o email dela.
+-- Retorna o id para o checkout vincular ao pedido.
+-- Visitantes só abrem carrinhos novos dentro do limite (5 por IP por hora e
+-- 2 por email por dia), para ninguém disparar a sequência de emails e cupons
+-- para emails de terceiros em massa; acima disso retorna NULL sem capturar.
+CREATE OR REPLACE FUNCTION public.capture_abandoned_cart(
+  p_email TEXT,
+  p_items JSONB,
+  p_total NUMERIC,
+  p_customer_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_email));
+  v_cart_id UUID;
+  v_ip TEXT;
+BEGIN
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR length(v_email) > 255 THEN
+    RAISE EXCEPTION 'Email inválido';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 OR jsonb_array_length(p_items) > 50 THEN
+    RAISE EXCEPTION 'Carrinho inválido';
+  END IF;
+
+  IF p_total IS NULL OR p_total < 0 THEN
+    RAISE EXCEPTION 'Total inválido';
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT id INTO v_cart_id
+    FROM abandoned_carts
+    WHERE user_id = auth.uid()
+      AND NOT COALESCE(recovered, false) AND closed_at IS NULL
+    ORDER BY last_activity_at DESC
+    LIMIT 1;
+  ELSE
+    -- IP do cliente repassado pelo gateway da API (primeiro x-forwarded-for)
+    v_ip := NULLIF(trim(split_part(
+      COALESCE(current_setting('request.headers', true)::json->>'x-forwarded-for', ''), ',', 1
+    )), '');
+
+    SELECT id INTO v_cart_id
+    FROM abandoned_carts
+    WHERE user_id IS NULL AND lower(email) = v_email AND capture_ip = v_ip
+      AND NOT COALESCE(recovered, false) AND closed_at IS NULL
+    ORDER BY last_activity_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_cart_id IS NULL AND auth.uid() IS NULL THEN
+    IF (
+      SELECT count(*) FROM abandoned_carts
+      WHERE user_id IS NULL AND capture_ip = v_ip AND created_at > now() - INTERVAL '1 hour'
+    ) >= 5 OR (
+      SELECT count(*) FROM abandoned_carts
+      WHERE user_id IS NULL AND lower(email) = v_email AND created_at > now() - INTERVAL '1 day'
+    ) >= 2 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  IF v_cart_id IS NULL THEN
+    INSERT INTO abandoned_carts (user_id, email, customer_name, items, total, capture_ip)
+    VALUES (auth.uid(), v_email, NULLIF(left(trim(p_customer_name), 100), ''), p_items, p_total, v_ip)
+    RETURNING id INTO v_cart_id;
+  ELSE
+    UPDATE abandoned_carts
+    SET email = v_email,
+        customer_name = COALESCE(NULLIF(left(trim(p_customer_name), 100), ''), customer_name),
+        items = p_items,
+        total = p_total,
+        last_activity_at = now()
+    WHERE id = v_cart_id;
+  END IF;
+
+  RETURN v_cart_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.capture_abandoned_cart(TEXT, JSONB, NUMERIC, TEXT) TO anon, authenticated;
+
+-- Fase 5: Cupom de uso único do último email (usado pela edge function, service role)
+-- Reaproveita o cupom já gerado para o carrinho
+CREATE OR REPLACE FUNCTION public.create_cart_recovery_coupon(p_cart_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT;
+  v_percent NUMERIC;
+  v_days INTEGER;
+BEGIN
+  SELECT recovery_coupon_code INTO v_code FROM abandoned_carts WHERE id = p_cart_id;
+
+  IF v_code IS NOT NULL THEN
+    RETURN v_code;
+  END IF;
+
+  SELECT abandoned_cart_coupon_percent, abandoned_cart_coupon_valid_days
+  INTO v_percent, v_days
+  FROM store_settings
+  LIMIT 1;
+
+  v_code := 'VOLTA' || upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8));
+
+  INSERT INTO coupons (code, discount_type, discount_percent, max_uses, max_uses_per_customer, valid_from, valid_until, is_active)
+  VALUES (v_code, 'percent', COALESCE(v_percent, 10), 1, 1, now(), now() + make_interval(days => COALESCE(v_days, 3)), true);
+
+  UPDATE abandoned_carts SET recovery_coupon_code = v_code WHERE id = p_cart_id;
+
+  RETURN v_code;
+END;
+$$;
+
+-- Fase 6: Recuperação automática no pagamento
+-- Carrinho vinculado que recebeu algum email conta como recuperado (com a receita);
+-- sem email, ou demais carrinhos abertos do mesmo cliente, são apenas encerrados
+CREATE OR REPLACE FUNCTION public.handle_order_cart_recovery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := lower(NEW.guest_email);
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM 'paid' OR OLD.payment_status IS NOT DISTINCT FROM 'paid' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.abandoned_cart_id IS NOT NULL THEN
+    UPDATE abandoned_carts
+    SET recovered = true,
+        recovered_order_id = NEW.id,
+        recovered_at = now(),
+        recovered_amount = NEW.total
+    WHERE id = NEW.abandoned_cart_id
+      AND emails_sent > 0
+      AND NOT COALESCE(recovered, false);
+  END IF;
+
+  IF v_email IS NULL AND NEW.user_id IS NOT NULL THEN
+    SELECT lower(email) INTO v_email FROM auth.users WHERE id = NEW.user_id;
+  END IF;
+
+  UPDATE abandoned_carts
+  SET closed_at = now()
+  WHERE NOT COALESCE(recovered, false)
+    AND closed_at IS NULL
+    AND (
+      id = NEW.abandoned_cart_id
+      OR (NEW.user_id IS NOT NULL AND user_id = NEW.user_id)
+      OR (v_email IS NOT NULL AND lower(email) = v_email)
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_order_cart_recovery
+  AFTER UPDATE OF payment_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_order_cart_recovery();
+
+REVOKE EXECUTE ON FUNCTION public.create_cart_recovery_coupon(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.handle_order_cart_recovery() FROM PUBLIC, anon, authenticated;
+
+-- Fase 7: Template do email com nome do cliente e cupom
+UPDATE public.email_templates
+SET html_content = replace(
+      replace(html_content, '<hr>', '{{coupon_section}}<hr>'),
+      '<p>Olá!</p>', '<p>Olá, <strong>{{customer_name}}</strong>!</p>'
+    ),
+    variables = '["customer_name", "items_html", "total", "cart_url", "coupon_section"]'::jsonb
+WHERE template_key = 'abandoned_cart'
+  AND html_content NOT LIKE '%{{coupon_section}}%';
@@ -0,0 +1,334 @@
+-- =====================================================
+-- BUSCA: Full-text com stemming em português, sem acentos e tolerante a erros
+-- Índice por produto (nome, categoria, cores, modelos e descrição) mantido por
+-- trigger. search_products retorna os produtos ordenados por relevância,
+-- get_product_search_facets as contagens dos filtros e suggest_search_query
+-- o "você quis dizer" quando nada é encontrado.
+-- =====================================================
+
+-- Fase 1: Extensões
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Fase 2: Normalização do texto
+-- Minúsculas, sem acentos e sem pontuação; diminutivos reduzidos
+-- ("capinha" -> "capa", "celularzinho" -> "celularo") antes do stemming
+CREATE OR REPLACE FUNCTION public.normalize_search_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(lower(unaccent(COALESCE(p_text, ''))), '[^a-z0-9]+', ' ', 'g'),
+    '\m([a-z]{2,}?)z?inh([oa])s?\M', '\1\2', 'g'
+  ));
+$$;
+
+-- Consulta com prefixo em todas as palavras (busca enquanto digita)
+CREATE OR REPLACE FUNCTION public.product_search_tsquery(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('portuguese', string_agg(w || ':*', ' & '))
+  FROM regexp_split_to_table(normalize_search_text(p_query), '\s+') AS w
+  WHERE w <> '';
+$$;
+
+-- Fase 3: Índice de busca (fora de products para não pesar no select('*'))
+-- search_text: nome, categoria, cores e modelos normalizados (trigramas e sugestões)
+CREATE TABLE IF NOT EXISTS public.product_search_index (
+  product_id UUID PRIMARY KEY REFERENCES public.products(id) ON DELETE CASCADE,
+  search_vector TSVECTOR NOT NULL,
+  search_text TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_search_index_vector
+  ON public.product_search_index USING GIN (search_vector);
+
+-- Acesso apenas pelas funções de busca
+ALTER TABLE public.product_search_index ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.refresh_product_search_index(p_product_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_category_name TEXT;
+  v_attributes TEXT;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT c.name INTO v_category_name
+  FROM categories c
+  WHERE lower(v_product.category) IN (lower(c.name), lower(c.slug))
+  LIMIT 1;
+
+  v_attributes := concat_ws(' ', array_to_string(v_product.color, ' '), array_to_string(v_product.model, ' '));
+
+  INSERT INTO product_search_index (product_id, search_vector, search_text, updated_at)
+  VALUES (
+    v_product.id,
+    setweight(to_tsvector('portuguese', normalize_search_text(v_product.name)), 'A')
+      || setweight(to_tsvector('portuguese', normalize_search_text(concat_ws(' ', v_product.category, v_category_name))), 'B')
+      || setweight(to_tsvector('portuguese', normalize_search_text(v_attributes)), 'C')
+      || setweight(to_tsvector('portuguese', normalize_search_text(v_product.description)), 'D'),
+    normalize_search_text(concat_ws(' ', v_product.name, v_category_name, v_product.category, v_attributes)),
+    now()
+  )
+  ON CONFLICT (product_id) DO UPDATE
+  SET search_vector = EXCLUDED.search_vector,
+      search_text = EXCLUDED.search_text,
+      updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_product_search_index()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'categories' THEN
+    PERFORM refresh_product_search_index(p.id)
+    FROM products p
+    WHERE lower(p.category) IN (lower(OLD.name), lower(OLD.slug), lower(NEW.name), lower(NEW.slug));
+  ELSE
+    PERFORM refresh_product_search_index(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_product_search_index
+  AFTER INSERT OR UPDATE OF name, description, category, color, model ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_product_search_index();
+
+CREATE TRIGGER refresh_category_product_search_index
+  AFTER UPDATE OF name, slug ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_product_search_index();
+
+SELECT public.refresh_product_search_index(id) FROM public.products;
+
+-- Fase 4: Produtos encontrados para o termo, com relevância
+-- Full-text primeiro; sem resultados, cai para similaridade de trigramas (erros de digitação)
+CREATE OR REPLACE FUNCTION public.match_products(p_query TEXT)
+RETURNS TABLE (product_id UUID, rank REAL)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_normalized TEXT := normalize_search_text(p_query);
+  v_tsquery tsquery := product_search_tsquery(p_query);
+BEGIN
+  IF v_normalized = '' THEN
+    RETURN QUERY SELECT p.id, 0::REAL FROM products p;
+    RETURN;
+  END IF;
+
+  IF v_tsquery IS NOT NULL THEN
+    RETURN QUERY
+    SELECT i.product_id, ts_rank_cd(i.search_vector, v_tsquery)::REAL
+    FROM product_search_index i
+    WHERE i.search_vector @@ v_tsquery;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT i.product_id, word_similarity(v_normalized, i.search_text)::REAL
+  FROM product_search_index i
+  WHERE word_similarity(v_normalized, i.search_text) >= 0.45;
+END;
+$$;
+
+-- Fase 5: Busca paginada com filtros
+-- p_category aceita slug ou nome; p_max_price é exclusivo (faixas de preço)
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM match_products(p_query) m
+  JOIN products p ON p.id = m.product_id
+  WHERE (p_category IS NULL OR lower(p.category) = lower(p_category) OR EXISTS (
+          SELECT 1 FROM categories c
+          WHERE lower(p_category) IN (lower(c.name), lower(c.slug))
+            AND lower(p.category) IN (lower(c.name), lower(c.slug))
+        ))
+    AND (p_colors IS NULL OR p.color && p_colors)
+    AND (p_models IS NULL OR p.model && p_models)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price < p_max_price)
+    AND (p_min_rating IS NULL OR COALESCE(p.rating, 0) >= p_min_rating)
+  ORDER BY
+    CASE WHEN p_sort = 'price-low' THEN p.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN p.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN COALESCE(p.rating, 0) END DESC,
+    CASE WHEN p_sort = 'featured' THEN COALESCE(p.featured, false) END DESC,
+    m.rank DESC,
+    COALESCE(p.featured, false) DESC,
+    p.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- Fase 6: Facetas da busca
+-- Cada faceta conta com os demais filtros aplicados, exceto o próprio
+CREATE OR REPLACE FUNCTION public.get_product_search_facets(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      p.id, p.category, p.color, p.model, p.price, COALESCE(p.rating, 0) AS rating,
+      (p_category IS NULL OR lower(p.category) = lower(p_category) OR EXISTS (
+        SELECT 1 FROM categories c
+        WHERE lower(p_category) IN (lower(c.name), lower(c.slug))
+          AND lower(p.category) IN (lower(c.name), lower(c.slug))
+      )) AS ok_category,
+      (p_colors IS NULL OR p.color && p_colors) AS ok_color,
+      (p_models IS NULL OR p.model && p_models) AS ok_model,
+      ((p_min_price IS NULL OR p.price >= p_min_price) AND (p_max_price IS NULL OR p.price < p_max_price)) AS ok_price,
+      (p_min_rating IS NULL OR COALESCE(p.rating, 0) >= p_min_rating) AS ok_rating
+    FROM match_products(p_query) m
+    JOIN products p ON p.id = m.product_id
+  ),
+  bands(min_price, max_price) AS (
+    VALUES (0::NUMERIC, 50::NUMERIC), (50, 100), (100, 200), (200, NULL)
+  ),
+  ratings(min_rating) AS (
+    VALUES (4::NUMERIC), (3), (2), (1)
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT count(*) FROM filtered
+      WHERE ok_category AND ok_color AND ok_model AND ok_price AND ok_rating
+    ),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', x.value, 'label', x.label, 'count', x.count) ORDER BY x.count DESC, x.label)
+      FROM (
+        SELECT COALESCE(c.slug, lower(f.category)) AS value, COALESCE(c.name, f.category) AS label, count(DISTINCT f.id) AS count
+        FROM filtered f
+        LEFT JOIN categories c ON lower(f.category) IN (lower(c.name), lower(c.slug))
+        WHERE f.ok_color AND f.ok_model AND f.ok_price AND f.ok_rating
+        GROUP BY 1, 2
+      ) x
+    ), '[]'::jsonb),
+    'colors', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', x.value, 'count', x.count) ORDER BY x.count DESC, x.value)
+      FROM (
+        SELECT v AS value, count(DISTINCT f.id) AS count
+        FROM filtered f, unnest(f.color) AS v
+        WHERE f.ok_category AND f.ok_model AND f.ok_price AND f.ok_rating
+        GROUP BY v
+      ) x
+    ), '[]'::jsonb),
+    'models', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', x.value, 'count', x.count) ORDER BY x.count DESC, x.value)
+      FROM (
+        SELECT v AS value, count(DISTINCT f.id) AS count
+        FROM filtered f, unnest(f.model) AS v
+        WHERE f.ok_category AND f.ok_color AND f.ok_price AND f.ok_rating
+        GROUP BY v
+      ) x
+    ), '[]'::jsonb),
+    'price_bands', (
+      SELECT jsonb_agg(jsonb_build_object('min', b.min_price, 'max', b.max_price, 'count', (
+        SELECT count(*) FROM filtered f
+        WHERE f.ok_category AND f.ok_color AND f.ok_model AND f.ok_rating
+          AND f.price >= b.min_price AND (b.max_price IS NULL OR f.price < b.max_price)
+      )) ORDER BY b.min_price)
+      FROM bands b
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object('min', r.min_rating, 'count', (
+        SELECT count(*) FROM filtered f
+        WHERE f.ok_category AND f.ok_color AND f.ok_model AND f.ok_price
+          AND f.rating >= r.min_rating
+      )) ORDER BY r.min_rating DESC)
+      FROM ratings r
+    )
+  );
+$$;
+
+-- Fase 7: "Você quis dizer"
+-- Troca cada palavra pela mais parecida do vocabulário dos produtos; NULL se nada mudar
+CREATE OR REPLACE FUNCTION public.suggest_search_query(p_query TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH words AS (
+    SELECT w, ord
+    FROM regexp_split_to_table(normalize_search_text(p_query), '\s+') WITH ORDINALITY AS t(w, ord)
+    WHERE w <> ''
+  ),
+  vocabulary AS (
+    SELECT DISTINCT v AS term
+    FROM product_search_index i, regexp_split_to_table(i.search_text, '\s+') AS v
+    WHERE length(v) >= 3
+  ),
+  best AS (
+    SELECT words.ord, words.w, (
+      SELECT vocabulary.term
+      FROM vocabulary
+      WHERE similarity(words.w, vocabulary.term) >= 0.3
+      ORDER BY similarity(words.w, vocabulary.term) DESC, vocabulary.term
+      LIMIT 1
+    ) AS suggestion
+    FROM words
+  )
+  SELECT CASE
+    WHEN bool_and(suggestion IS NULL OR suggestion = w) THEN NULL
+    ELSE string_agg(COALESCE(suggestion, w), ' ' ORDER BY ord)
+  END
+  FROM best;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_product_search_index(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.handle_product_search_index() FROM PUBLIC, anon, authenticated;
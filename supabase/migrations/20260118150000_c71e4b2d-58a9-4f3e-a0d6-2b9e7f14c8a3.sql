@@ -0,0 +1,227 @@
+-- =====================================================
+-- CATÁLOGO: Paginação, ordenação e filtros no servidor
+-- A loja passa a usar search_products também sem termo de busca.
+-- Filtros de categoria em múltipla seleção, somente em estoque e somente
+-- em promoção; ordenação por novidades e mais vendidos.
+-- =====================================================
+
+-- Fase 1: Índice para o ranking de mais vendidos
+CREATE INDEX IF NOT EXISTS idx_order_items_product ON public.order_items(product_id);
+
+-- Fase 2: Filtros do catálogo
+-- Uma linha por produto encontrado com o resultado de cada filtro, para que
+-- a listagem e as facetas (que ignoram o próprio filtro) usem a mesma regra.
+-- p_categories aceita slug ou nome; p_max_price é exclusivo (faixas de preço)
+-- price/on_sale seguem a vitrine (usePromotions): menor entre products.price e
+-- a promoção de produto/categoria vigente; em promoção também com original_price
+CREATE OR REPLACE FUNCTION public.filter_catalog_products(
+  p_query TEXT DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_on_sale BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  product_id UUID,
+  rank REAL,
+  price NUMERIC,
+  on_sale BOOLEAN,
+  ok_category BOOLEAN,
+  ok_color BOOLEAN,
+  ok_model BOOLEAN,
+  ok_price BOOLEAN,
+  ok_rating BOOLEAN,
+  ok_stock BOOLEAN,
+  ok_sale BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH priced AS (
+    SELECT
+      p.*,
+      m.rank,
+      LEAST(p.price, promo.price) AS effective_price,
+      (promo.price IS NOT NULL OR COALESCE(p.original_price > p.price, false)) AS is_on_sale
+    FROM match_products(p_query) m
+    JOIN products p ON p.id = m.product_id
+    LEFT JOIN get_promotional_prices() promo ON promo.product_id = p.id AND promo.variant_id IS NULL
+  )
+  SELECT
+    p.id,
+    p.rank,
+    p.effective_price,
+    p.is_on_sale,
+    (p_categories IS NULL OR cardinality(p_categories) = 0 OR EXISTS (
+      SELECT 1 FROM unnest(p_categories) AS sel(value)
+      WHERE lower(p.category) = lower(sel.value) OR EXISTS (
+        SELECT 1 FROM categories c
+        WHERE lower(sel.value) IN (lower(c.name), lower(c.slug))
+          AND lower(p.category) IN (lower(c.name), lower(c.slug))
+      )
+    )),
+    (p_colors IS NULL OR cardinality(p_colors) = 0 OR p.color && p_colors),
+    (p_models IS NULL OR cardinality(p_models) = 0 OR p.model && p_models),
+    ((p_min_price IS NULL OR p.effective_price >= p_min_price) AND (p_max_price IS NULL OR p.effective_price < p_max_price)),
+    (p_min_rating IS NULL OR COALESCE(p.rating, 0) >= p_min_rating),
+    (NOT COALESCE(p_in_stock, false) OR COALESCE(p.in_stock, true)),
+    (NOT COALESCE(p_on_sale, false) OR p.is_on_sale)
+  FROM priced p;
+$$;
+
+-- Fase 3: Listagem paginada (substitui a versão da busca)
+DROP FUNCTION IF EXISTS public.search_products(TEXT, TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, NUMERIC, TEXT, INTEGER, INTEGER);
+
+-- p_sort: relevance, featured, newest, best-selling, price-low, price-high, rating
+-- O id no fim da ordenação mantém as páginas estáveis
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_on_sale BOOLEAN DEFAULT false,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM filter_catalog_products(
+    p_query, p_categories, p_colors, p_models, p_min_price, p_max_price, p_min_rating, p_in_stock, p_on_sale
+  ) f
+  JOIN products p ON p.id = f.product_id
+  WHERE f.ok_category AND f.ok_color AND f.ok_model AND f.ok_price AND f.ok_rating AND f.ok_stock AND f.ok_sale
+  ORDER BY
+    CASE WHEN p_sort = 'price-low' THEN f.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN f.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN COALESCE(p.rating, 0) END DESC,
+    CASE WHEN p_sort = 'newest' THEN p.created_at END DESC,
+    CASE WHEN p_sort = 'best-selling' THEN (
+      SELECT COALESCE(SUM(oi.quantity - oi.restocked_quantity), 0)
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.product_id = p.id AND o.payment_status = 'paid'
+    ) END DESC,
+    CASE WHEN p_sort = 'featured' THEN COALESCE(p.featured, false) END DESC,
+    f.rank DESC,
+    COALESCE(p.featured, false) DESC,
+    p.created_at DESC,
+    p.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- Fase 4: Facetas (substitui a versão da busca)
+DROP FUNCTION IF EXISTS public.get_product_search_facets(TEXT, TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, NUMERIC);
+
+-- Cada faceta conta com os demais filtros aplicados, exceto o próprio
+CREATE OR REPLACE FUNCTION public.get_product_search_facets(
+  p_query TEXT DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_models TEXT[] DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_on_sale BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      p.id, p.category, p.color, p.model, f.price, COALESCE(p.rating, 0) AS rating,
+      COALESCE(p.in_stock, true) AS in_stock,
+      f.on_sale,
+      f.ok_category, f.ok_color, f.ok_model, f.ok_price, f.ok_rating, f.ok_stock, f.ok_sale
+    FROM filter_catalog_products(
+      p_query, p_categories, p_colors, p_models, p_min_price, p_max_price, p_min_rating, p_in_stock, p_on_sale
+    ) f
+    JOIN products p ON p.id = f.product_id
+  ),
+  bands(min_price, max_price) AS (
+    VALUES (0::NUMERIC, 50::NUMERIC), (50, 100), (100, 200), (200, NULL)
+  ),
+  ratings(min_rating) AS (
+    VALUES (4::NUMERIC), (3), (2), (1)
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT count(*) FROM filtered
+      WHERE ok_category AND ok_color AND ok_model AND ok_price AND ok_rating AND ok_stock AND ok_sale
+    ),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', x.value, 'label', x.label, 'count', x.count) ORDER BY x.count DESC, x.label)
+      FROM (
+        SELECT COALESCE(c.slug, lower(f.category)) AS value, COALESCE(c.name, f.category) AS label, count(DISTINCT f.id) AS count
+        FROM filtered f
+        LEFT JOIN categories c ON lower(f.category) IN (lower(c.name), lower(c.slug))
+        WHERE f.ok_color AND f.ok_model AND f.ok_price AND f.ok_rating AND f.ok_stock AND f.ok_sale
+        GROUP BY 1, 2
+      ) x
+    ), '[]'::jsonb),
+    'colors', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', x.value, 'count', x.count) ORDER BY x.count DESC, x.value)
+      FROM (
+        SELECT v AS value, count(DISTINCT f.id) AS count
+        FROM filtered f, unnest(f.color) AS v
+        WHERE f.ok_category AND f.ok_model AND f.ok_price AND f.ok_rating AND f.ok_stock AND f.ok_sale
+        GROUP BY v
+      ) x
+    ), '[]'::jsonb),
+    'models', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('value', x.value, 'count', x.count) ORDER BY x.count DESC, x.value)
+      FROM (
+        SELECT v AS value, count(DISTINCT f.id) AS count
+        FROM filtered f, unnest(f.model) AS v
+        WHERE f.ok_category AND f.ok_color AND f.ok_price AND f.ok_rating AND f.ok_stock AND f.ok_sale
+        GROUP BY v
+      ) x
+    ), '[]'::jsonb),
+    'price_bands', (
+      SELECT jsonb_agg(jsonb_build_object('min', b.min_price, 'max', b.max_price, 'count', (
+        SELECT count(*) FROM filtered f
+        WHERE f.ok_category AND f.ok_color AND f.ok_model AND f.ok_rating AND f.ok_stock AND f.ok_sale
+          AND f.price >= b.min_price AND (b.max_price IS NULL OR f.price < b.max_price)
+      )) ORDER BY b.min_price)
+      FROM bands b
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object('min', r.min_rating, 'count', (
+        SELECT count(*) FROM filtered f
+        WHERE f.ok_category AND f.ok_color AND f.ok_model AND f.ok_price AND f.ok_stock AND f.ok_sale
+          AND f.rating >= r.min_rating
+      )) ORDER BY r.min_rating DESC)
+      FROM ratings r
+    ),
+    'in_stock', (
+      SELECT count(*) FROM filtered f
+      WHERE f.ok_category AND f.ok_color AND f.ok_model AND f.ok_price AND f.ok_rating AND f.ok_sale
+        AND f.in_stock
+    ),
+    'on_sale', (
+      SELECT count(*) FROM filtered f
+      WHERE f.ok_category AND f.ok_color AND f.ok_model AND f.ok_price AND f.ok_rating AND f.ok_stock
+        AND f.on_sale
+    )
+  );
+$$;
@@ -0,0 +1,256 @@
+-- =====================================================
+-- AVALIAÇÕES: Fotos, compra verificada e votos de "útil"
+-- Fotos ficam no bucket privado review-photos e passam por moderação
+-- (pending -> approved/rejected); a loja só consegue abrir as aprovadas. A avaliação é vinculada a um pedido
+-- pago do cliente com o produto, o que exibe o selo "compra verificada".
+-- =====================================================
+
+-- Fase 1: Novas colunas em product_reviews
+ALTER TABLE public.product_reviews
+  ADD COLUMN IF NOT EXISTS verified_purchase BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS helpful_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product ON public.product_reviews(product_id, approved);
+
+-- Fase 2: Compra verificada
+-- O pedido informado precisa ser do autor, estar pago e conter o produto;
+-- sem pedido informado, usa o pedido pago mais recente com o produto.
+-- verified_purchase e helpful_count nunca vêm do cliente: o contador só
+-- muda pelo trigger dos votos (pg_trigger_depth > 1)
+CREATE OR REPLACE FUNCTION public.handle_review_verified_purchase()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.helpful_count := 0;
+  ELSIF pg_trigger_depth() = 1 THEN
+    NEW.helpful_count := OLD.helpful_count;
+  END IF;
+
+  IF NEW.order_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM orders o
+    JOIN order_items oi ON oi.order_id = o.id
+    WHERE o.id = NEW.order_id
+      AND o.user_id = NEW.user_id
+      AND o.payment_status = 'paid'
+      AND oi.product_id = NEW.product_id
+  ) THEN
+    NEW.order_id := NULL;
+  END IF;
+
+  IF NEW.order_id IS NULL THEN
+    SELECT o.id INTO NEW.order_id
+    FROM orders o
+    JOIN order_items oi ON oi.order_id = o.id
+    WHERE o.user_id = NEW.user_id
+      AND o.payment_status = 'paid'
+      AND oi.product_id = NEW.product_id
+    ORDER BY o.created_at DESC
+    LIMIT 1;
+  END IF;
+
+  NEW.verified_purchase := NEW.order_id IS NOT NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_review_verified_purchase
+  BEFORE INSERT OR UPDATE ON public.product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_review_verified_purchase();
+
+-- Avaliações existentes (sem mexer no updated_at)
+ALTER TABLE public.product_reviews DISABLE TRIGGER update_product_reviews_updated_at;
+UPDATE public.product_reviews SET order_id = order_id;
+ALTER TABLE public.product_reviews ENABLE TRIGGER update_product_reviews_updated_at;
+
+-- Fase 3: Fotos das avaliações
+CREATE TABLE public.review_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES public.product_reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  moderated_at TIMESTAMPTZ,
+  moderated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_photos_review ON public.review_photos(review_id);
+CREATE INDEX idx_review_photos_pending ON public.review_photos(created_at) WHERE status = 'pending';
+
+ALTER TABLE public.review_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view approved review photos" ON public.review_photos FOR SELECT
+  USING (
+    status = 'approved'
+    AND EXISTS (SELECT 1 FROM product_reviews r WHERE r.id = review_id AND r.approved = true)
+  );
+
+CREATE POLICY "Users view own review photos" ON public.review_photos FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Cliente só envia fotos pendentes para a própria avaliação
+CREATE POLICY "Users add photos to own reviews" ON public.review_photos FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND EXISTS (SELECT 1 FROM product_reviews r WHERE r.id = review_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users delete own review photos" ON public.review_photos FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admin Manager manage review photos" ON public.review_photos FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+-- Limite de fotos por avaliação
+CREATE OR REPLACE FUNCTION public.check_review_photos_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT count(*) FROM review_photos WHERE review_id = NEW.review_id) >= 5 THEN
+    RAISE EXCEPTION 'Limite de 5 fotos por avaliação';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_review_photos_limit
+  BEFORE INSERT ON public.review_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_review_photos_limit();
+
+-- Fase 4: Storage das fotos
+-- Cada cliente envia para a própria pasta: <user_id>/<review_id>/<arquivo>
+-- Bucket privado: a loja exibe as fotos por URL assinada, e só as aprovadas
+-- (foto e avaliação) podem ser assinadas por quem não é o autor nem admin
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('review-photos', 'review-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Public read approved review photos"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'review-photos'
+  AND EXISTS (
+    SELECT 1
+    FROM public.review_photos rp
+    JOIN public.product_reviews r ON r.id = rp.review_id
+    WHERE rp.storage_path = storage.objects.name
+      AND rp.status = 'approved'
+      AND r.approved = true
+  )
+);
+
+CREATE POLICY "Users read own review photos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Admin Manager read review photos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role)
+  )
+);
+
+CREATE POLICY "Users upload own review photos"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'review-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users delete own review photos"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Admin Manager delete review photos"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role)
+  )
+);
+
+-- Fase 5: Votos de "útil"
+CREATE TABLE public.review_votes (
+  review_id UUID NOT NULL REFERENCES public.product_reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (review_id, user_id)
+);
+
+ALTER TABLE public.review_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own review votes" ON public.review_votes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Não vale votar na própria avaliação
+CREATE POLICY "Users vote on others reviews" ON public.review_votes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM product_reviews r
+      WHERE r.id = review_id AND r.approved = true AND r.user_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users remove own review votes" ON public.review_votes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Contador desnormalizado para ordenar por "mais úteis"
+CREATE OR REPLACE FUNCTION public.handle_review_vote_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE product_reviews SET helpful_count = helpful_count + 1 WHERE id = NEW.review_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE product_reviews SET helpful_count = GREATEST(helpful_count - 1, 0) WHERE id = OLD.review_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER update_review_helpful_count
+  AFTER INSERT OR DELETE ON public.review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_review_vote_count();
+
+REVOKE EXECUTE ON FUNCTION public.handle_review_verified_purchase() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_review_photos_limit() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.handle_review_vote_count() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,115 @@
+-- =====================================================
+-- AVALIAÇÕES: Resposta oficial da loja
+-- Admin/manager respondem publicamente a uma avaliação. Cada criação,
+-- edição ou remoção da resposta fica registrada em audit_logs
+-- (entity_type = 'review_reply') e o cliente é avisado por email.
+-- =====================================================
+
+-- Fase 1: Colunas da resposta
+ALTER TABLE public.product_reviews
+  ADD COLUMN IF NOT EXISTS store_reply TEXT,
+  ADD COLUMN IF NOT EXISTS store_reply_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS store_reply_by UUID,
+  ADD COLUMN IF NOT EXISTS store_reply_notified_at TIMESTAMPTZ;
+
+-- Fase 2: Só a equipe responde
+-- O autor pode editar a própria avaliação, mas não a resposta da loja.
+-- Chamadas sem usuário (service role) passam.
+CREATE OR REPLACE FUNCTION public.handle_review_store_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_staff BOOLEAN := auth.uid() IS NULL
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'manager'::app_role);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT v_is_staff THEN
+      NEW.store_reply := NULL;
+    END IF;
+  ELSIF NOT v_is_staff THEN
+    NEW.store_reply := OLD.store_reply;
+    NEW.store_reply_at := OLD.store_reply_at;
+    NEW.store_reply_by := OLD.store_reply_by;
+    NEW.store_reply_notified_at := OLD.store_reply_notified_at;
+    RETURN NEW;
+  ELSIF NEW.store_reply IS NOT DISTINCT FROM OLD.store_reply THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.store_reply := NULLIF(btrim(NEW.store_reply), '');
+
+  IF NEW.store_reply IS NULL THEN
+    NEW.store_reply_at := NULL;
+    NEW.store_reply_by := NULL;
+    NEW.store_reply_notified_at := NULL;
+  ELSE
+    NEW.store_reply_at := now();
+    NEW.store_reply_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_review_store_reply
+  BEFORE INSERT OR UPDATE ON public.product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_review_store_reply();
+
+-- Fase 3: Histórico da resposta em audit_logs
+CREATE OR REPLACE FUNCTION public.log_review_store_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.store_reply IS NOT DISTINCT FROM OLD.store_reply THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO audit_logs (user_id, action, entity_type, entity_id, previous_state, new_state, metadata)
+  VALUES (
+    auth.uid(),
+    CASE
+      WHEN OLD.store_reply IS NULL THEN 'create'
+      WHEN NEW.store_reply IS NULL THEN 'delete'
+      ELSE 'update'
+    END,
+    'review_reply',
+    NEW.id::text,
+    CASE WHEN OLD.store_reply IS NULL THEN NULL
+      ELSE jsonb_build_object('reply', OLD.store_reply, 'replied_at', OLD.store_reply_at, 'replied_by', OLD.store_reply_by)
+    END,
+    CASE WHEN NEW.store_reply IS NULL THEN NULL
+      ELSE jsonb_build_object('reply', NEW.store_reply, 'replied_at', NEW.store_reply_at, 'replied_by', NEW.store_reply_by)
+    END,
+    jsonb_build_object('product_id', NEW.product_id, 'review_user_id', NEW.user_id, 'rating', NEW.rating)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_review_store_reply
+  AFTER UPDATE OF store_reply ON public.product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_review_store_reply();
+
+-- Fase 4: Template do email
+INSERT INTO public.email_templates (template_key, name, subject, html_content, variables) VALUES
+(
+  'review_reply',
+  'Resposta à Avaliação',
+  '💬 A Cali Brasil respondeu sua avaliação de {{product_name}}',
+  '<!DOCTYPE html><html><head><meta charset="utf-8"><style>body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;background:#f5f5f5;margin:0;padding:20px}.container{max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden}.header{background:linear-gradient(135deg,#0d9488,#14b8a6);padding:30px;text-align:center;color:#fff}.content{padding:30px}.review{background:#f8f8f8;border-radius:8px;padding:15px;margin:15px 0;color:#444}.reply{border-left:4px solid #0d9488;padding:10px 15px;margin:15px 0}.btn{display:inline-block;background:#16a34a;color:#fff;padding:12px 24px;text-decoration:none;border-radius:8px;font-weight:bold;margin-top:10px}.footer{background:#f8f8f8;padding:20px;text-align:center;color:#666;font-size:12px}</style></head><body><div class="container"><div class="header"><h1>💬 Respondemos sua avaliação</h1></div><div class="content"><p>Olá, <strong>{{customer_name}}</strong>!</p><p>Obrigado por avaliar <strong>{{product_name}}</strong>. Nossa equipe deixou uma resposta:</p><div class="review"><p style="margin:0 0 5px 0">{{rating_stars}}</p><p style="margin:0">{{review_comment}}</p></div><div class="reply"><p style="margin:0 0 5px 0"><strong>Resposta da Cali Brasil</strong></p><p style="margin:0">{{store_reply}}</p></div><a href="{{product_url}}" class="btn">Ver avaliação</a></div><div class="footer"><p>Cali Brasil - Beach Tech Style 🌴</p><p>Dúvidas? Fale com a gente: {{store_email}}</p></div></div></body></html>',
+  '["customer_name", "product_name", "rating_stars", "review_comment", "store_reply", "product_url", "store_email"]'::jsonb
+)
+ON CONFLICT (template_key) DO NOTHING;
+
+REVOKE EXECUTE ON FUNCTION public.handle_review_store_reply() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.log_review_store_reply() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,95 @@
+-- =====================================================
+-- PRODUTOS: Perguntas e respostas
+-- Cliente logado pergunta na página do produto; admin/manager respondem
+-- pela fila em /admin/questions. Só perguntas respondidas ficam públicas
+-- e quem perguntou recebe email com a resposta.
+-- =====================================================
+
+-- Fase 1: Tabela
+CREATE TABLE public.product_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  question TEXT NOT NULL CHECK (char_length(btrim(question)) BETWEEN 5 AND 500),
+  answer TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'answered', 'rejected')),
+  answered_at TIMESTAMPTZ,
+  answered_by UUID,
+  answer_notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_product_questions_product ON public.product_questions(product_id, status);
+CREATE INDEX idx_product_questions_pending ON public.product_questions(created_at) WHERE status = 'pending';
+
+ALTER TABLE public.product_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view answered questions" ON public.product_questions FOR SELECT
+  USING (status = 'answered');
+
+CREATE POLICY "Users view own questions" ON public.product_questions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Cliente só cria pergunta pendente, sem resposta
+CREATE POLICY "Users ask questions" ON public.product_questions FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND status = 'pending' AND answer IS NULL);
+
+CREATE POLICY "Users delete own pending questions" ON public.product_questions FOR DELETE
+  USING (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Admin Manager manage questions" ON public.product_questions FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+-- Fase 2: Resposta
+-- Ao responder, a pergunta vira 'answered' e guarda quem/quando respondeu
+CREATE OR REPLACE FUNCTION public.handle_product_question_answer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.answer := NULLIF(btrim(NEW.answer), '');
+
+  IF NEW.answer IS DISTINCT FROM OLD.answer THEN
+    IF NEW.answer IS NULL THEN
+      NEW.answered_at := NULL;
+      NEW.answered_by := NULL;
+      NEW.answer_notified_at := NULL;
+      IF NEW.status = 'answered' THEN
+        NEW.status := 'pending';
+      END IF;
+    ELSE
+      NEW.status := 'answered';
+      NEW.answered_at := now();
+      NEW.answered_by := auth.uid();
+    END IF;
+  END IF;
+
+  IF NEW.status = 'answered' AND NEW.answer IS NULL THEN
+    RAISE EXCEPTION 'Pergunta sem resposta não pode ser publicada';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_product_question_answer
+  BEFORE UPDATE ON public.product_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_product_question_answer();
+
+-- Fase 3: Template do email
+INSERT INTO public.email_templates (template_key, name, subject, html_content, variables) VALUES
+(
+  'question_answered',
+  'Pergunta Respondida',
+  '💬 Respondemos sua pergunta sobre {{product_name}}',
+  '<!DOCTYPE html><html><head><meta charset="utf-8"><style>body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;background:#f5f5f5;margin:0;padding:20px}.container{max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden}.header{background:linear-gradient(135deg,#0d9488,#14b8a6);padding:30px;text-align:center;color:#fff}.content{padding:30px}.question{background:#f8f8f8;border-radius:8px;padding:15px;margin:15px 0;color:#444}.answer{border-left:4px solid #0d9488;padding:10px 15px;margin:15px 0}.btn{display:inline-block;background:#16a34a;color:#fff;padding:12px 24px;text-decoration:none;border-radius:8px;font-weight:bold;margin-top:10px}.footer{background:#f8f8f8;padding:20px;text-align:center;color:#666;font-size:12px}</style></head><body><div class="container"><div class="header"><h1>💬 Sua pergunta foi respondida</h1></div><div class="content"><p>Olá, <strong>{{customer_name}}</strong>!</p><p>Você perguntou sobre <strong>{{product_name}}</strong>:</p><div class="question"><p style="margin:0">{{question}}</p></div><div class="answer"><p style="margin:0 0 5px 0"><strong>Resposta da Cali Brasil</strong></p><p style="margin:0">{{answer}}</p></div><a href="{{product_url}}" class="btn">Ver produto 🛍️</a></div><div class="footer"><p>Cali Brasil - Beach Tech Style 🌴</p><p>Dúvidas? Fale com a gente: {{store_email}}</p></div></div></body></html>',
+  '["customer_name", "product_name", "question", "answer", "product_url", "store_email"]'::jsonb
+)
+ON CONFLICT (template_key) DO NOTHING;
+
+REVOKE EXECUTE ON FUNCTION public.handle_product_question_answer() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,372 @@
+-- =====================================================
+-- PRODUTOS: Kits (bundles) vendidos como um único SKU
+-- Um kit é um produto com is_bundle = true e uma única variação (sem
+-- cor/modelo), composto por variações de outros produtos. O estoque do kit
+-- é calculado a partir dos componentes e a venda baixa o estoque de cada
+-- componente; o kit em si não tem store_stock.
+-- =====================================================
+
+-- Fase 1: Marcar produto como kit
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS is_bundle BOOLEAN NOT NULL DEFAULT false;
+
+-- Fase 2: Composição do kit
+CREATE TABLE public.product_bundle_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  component_variant_id UUID NOT NULL REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (bundle_product_id, component_variant_id)
+);
+
+CREATE INDEX idx_product_bundle_items_component ON public.product_bundle_items(component_variant_id);
+
+ALTER TABLE public.product_bundle_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view bundle items" ON public.product_bundle_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admin Manager manage bundle items" ON public.product_bundle_items FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+-- Componente precisa ser variação de um produto comum (sem kit dentro de kit)
+CREATE OR REPLACE FUNCTION public.validate_bundle_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.id = NEW.component_variant_id
+      AND (p.is_bundle OR p.id = NEW.bundle_product_id)
+  ) THEN
+    RAISE EXCEPTION 'Componente inválido: um kit não pode conter outro kit';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_bundle_item
+  BEFORE INSERT OR UPDATE ON public.product_bundle_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_bundle_item();
+
+-- Fase 3: Estoque disponível considera kits
+-- Kit: quantos kits completos cabem no estoque disponível de cada componente
+CREATE OR REPLACE FUNCTION public.get_total_available_stock(p_variant_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p.is_bundle THEN (
+        SELECT COALESCE(MIN(GREATEST(
+          (SELECT COALESCE(SUM(ss.quantity - ss.reserved_quantity), 0)
+           FROM store_stock ss
+           WHERE ss.product_variant_id = bi.component_variant_id), 0
+        ) / bi.quantity), 0)
+        FROM product_bundle_items bi
+        WHERE bi.bundle_product_id = p.id
+      )
+      ELSE (
+        SELECT COALESCE(SUM(quantity - reserved_quantity), 0)
+        FROM store_stock
+        WHERE product_variant_id = p_variant_id
+      )
+    END
+    FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.id = p_variant_id
+  ), 0)::INTEGER;
+$$;
+
+-- Fase 4: Manter a variação do kit em sincronia (vitrine usa stock_quantity)
+-- e disparar o "Avise-me" do kit quando os componentes voltam
+CREATE OR REPLACE FUNCTION public.refresh_bundle_stock(p_bundle_product_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_variant RECORD;
+  v_available INTEGER;
+BEGIN
+  FOR v_variant IN
+    SELECT pv.id FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.product_id = p_bundle_product_id AND p.is_bundle
+  LOOP
+    v_available := get_total_available_stock(v_variant.id);
+
+    UPDATE product_variants
+    SET stock_quantity = v_available
+    WHERE id = v_variant.id AND stock_quantity IS DISTINCT FROM v_available;
+
+    IF v_available > 0 THEN
+      UPDATE back_in_stock_subscriptions
+      SET status = 'ready', ready_at = now()
+      WHERE product_variant_id = v_variant.id
+        AND status = 'waiting';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_bundle_stock_from_store_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bundle_id UUID;
+  v_variant_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_variant_id ELSE NEW.product_variant_id END;
+BEGIN
+  FOR v_bundle_id IN
+    SELECT DISTINCT bundle_product_id FROM product_bundle_items WHERE component_variant_id = v_variant_id
+  LOOP
+    PERFORM refresh_bundle_stock(v_bundle_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_bundle_stock_on_store_stock
+  AFTER INSERT OR DELETE OR UPDATE OF quantity, reserved_quantity ON public.store_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_bundle_stock_from_store_stock();
+
+CREATE OR REPLACE FUNCTION public.sync_bundle_stock_from_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_bundle_stock(CASE WHEN TG_OP = 'DELETE' THEN OLD.bundle_product_id ELSE NEW.bundle_product_id END);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_bundle_stock_on_items
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_bundle_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_bundle_stock_from_items();
+
+-- Fase 5: Componentes do kit no pedido
+-- Foto da composição no momento da venda: reserva, baixa, devolução,
+-- etiqueta e detalhes do pedido não mudam se o kit for editado depois.
+-- quantity = unidades do componente por kit.
+CREATE TABLE public.order_item_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  product_variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  color TEXT,
+  model TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_item_components_item ON public.order_item_components(order_item_id);
+
+ALTER TABLE public.order_item_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Secure order item components viewing" ON public.order_item_components FOR SELECT
+USING (
+  has_role(auth.uid(), 'admin')
+  OR
+  has_role(auth.uid(), 'manager')
+  OR
+  (auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.id = order_item_components.order_item_id
+    AND o.user_id = auth.uid()
+  ))
+);
+
+CREATE POLICY "Admin manage order item components" ON public.order_item_components FOR ALL
+  USING (has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.snapshot_order_item_components()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.product_variant_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_item_components (order_item_id, product_variant_id, product_id, product_name, color, model, quantity)
+  SELECT NEW.id, cv.id, cp.id, cp.name, cv.color, cv.model, bi.quantity
+  FROM product_variants bv
+  JOIN products bp ON bp.id = bv.product_id AND bp.is_bundle
+  JOIN product_bundle_items bi ON bi.bundle_product_id = bp.id
+  JOIN product_variants cv ON cv.id = bi.component_variant_id
+  JOIN products cp ON cp.id = cv.product_id
+  WHERE bv.id = NEW.product_variant_id
+  ORDER BY bi.display_order, bi.created_at;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_order_item_components
+  AFTER INSERT ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_order_item_components();
+
+-- Fase 6: Reserva expande kits nos componentes
+-- Cada componente gera sua própria reserva (mesmo order_item_id), então
+-- commit_order_stock e release_order_stock seguem iguais.
+CREATE OR REPLACE FUNCTION public.reserve_order_stock(
+  p_order_id UUID,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_store_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = p_order_id) THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_item IN
+    SELECT oi.id, COALESCE(c.product_variant_id, oi.product_variant_id) AS product_variant_id,
+           oi.quantity * COALESCE(c.quantity, 1) AS quantity
+    FROM order_items oi
+    LEFT JOIN order_item_components c ON c.order_item_id = oi.id
+    WHERE oi.order_id = p_order_id
+      AND oi.product_variant_id IS NOT NULL
+      AND (c.id IS NULL OR c.product_variant_id IS NOT NULL)
+    ORDER BY 2
+  LOOP
+    -- Mesma regra de select_source_store, mas com lock da linha para evitar corrida
+    SELECT store_id INTO v_store_id
+    FROM store_stock
+    WHERE product_variant_id = v_item.product_variant_id
+      AND (quantity - reserved_quantity) >= v_item.quantity
+    ORDER BY quantity DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_store_id IS NULL THEN
+      RAISE EXCEPTION 'Estoque insuficiente para a variação %', v_item.product_variant_id;
+    END IF;
+
+    UPDATE store_stock
+    SET reserved_quantity = reserved_quantity + v_item.quantity,
+        updated_at = now()
+    WHERE product_variant_id = v_item.product_variant_id AND store_id = v_store_id;
+
+    INSERT INTO stock_reservations (order_id, order_item_id, product_variant_id, store_id, quantity, expires_at)
+    VALUES (p_order_id, v_item.id, v_item.product_variant_id, v_store_id, v_item.quantity,
+            COALESCE(p_expires_at, now() + interval '24 hours'));
+
+    -- Kit: fica a loja do primeiro componente reservado
+    UPDATE order_items
+    SET source_store_id = COALESCE(source_store_id, v_store_id),
+        assigned_at = COALESCE(assigned_at, now())
+    WHERE id = v_item.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Fase 7: Devolução de kit repõe cada componente
+CREATE OR REPLACE FUNCTION public.restock_order_item(
+  p_order_item_id UUID,
+  p_quantity INTEGER,
+  p_store_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_line RECORD;
+  v_store_id UUID;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item do pedido não encontrado';
+  END IF;
+
+  IF p_quantity <= 0 OR v_item.restocked_quantity + p_quantity > v_item.quantity THEN
+    RAISE EXCEPTION 'Quantidade inválida para devolver ao estoque: %', v_item.product_name;
+  END IF;
+
+  UPDATE order_items
+  SET restocked_quantity = restocked_quantity + p_quantity
+  WHERE id = p_order_item_id;
+
+  IF v_item.product_variant_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_store_id := COALESCE(
+    p_store_id,
+    v_item.source_store_id,
+    (SELECT id FROM stores WHERE is_active ORDER BY display_order NULLS LAST LIMIT 1)
+  );
+
+  FOR v_line IN
+    SELECT COALESCE(c.product_variant_id, v_item.product_variant_id) AS product_variant_id,
+           p_quantity * COALESCE(c.quantity, 1) AS quantity
+    FROM (SELECT 1) AS one
+    LEFT JOIN order_item_components c ON c.order_item_id = p_order_item_id
+    WHERE c.id IS NULL OR c.product_variant_id IS NOT NULL
+  LOOP
+    INSERT INTO store_stock (product_variant_id, store_id, quantity)
+    VALUES (v_line.product_variant_id, v_store_id, v_line.quantity)
+    ON CONFLICT (product_variant_id, store_id)
+    DO UPDATE SET quantity = store_stock.quantity + EXCLUDED.quantity,
+                  updated_at = now();
+
+    -- Manter product_variants.stock_quantity em sincronia (usado na vitrine)
+    UPDATE product_variants
+    SET stock_quantity = (
+      SELECT COALESCE(SUM(quantity), 0) FROM store_stock WHERE product_variant_id = v_line.product_variant_id
+    )
+    WHERE id = v_line.product_variant_id;
+  END LOOP;
+
+  RETURN v_store_id;
+END;
+$$;
+
+-- Fase 8: Permissões
+REVOKE EXECUTE ON FUNCTION public.validate_bundle_item() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_bundle_stock(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_bundle_stock_from_store_stock() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_bundle_stock_from_items() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.snapshot_order_item_components() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restock_order_item(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_order_stock(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,96 @@
+-- =====================================================
+-- PRODUTOS: Recomendações ("compre junto" / "você também pode gostar")
+-- Calculadas a partir dos produtos comprados juntos em pedidos pagos; quando
+-- não há histórico suficiente, completa com produtos da mesma categoria.
+-- A função agendada refresh-recommendations recalcula a tabela.
+-- =====================================================
+
+-- Fase 1: Tabela
+CREATE TABLE public.product_recommendations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  recommended_product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('co_purchase', 'category')),
+  score NUMERIC NOT NULL DEFAULT 0,
+  rank INTEGER NOT NULL,
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, recommended_product_id),
+  CHECK (product_id <> recommended_product_id)
+);
+
+CREATE INDEX idx_product_recommendations_product ON public.product_recommendations(product_id, rank);
+
+ALTER TABLE public.product_recommendations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view recommendations" ON public.product_recommendations FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admin Manager manage recommendations" ON public.product_recommendations FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+-- Fase 2: Cálculo
+-- score = em quantos pedidos pagos (últimos 12 meses) os dois produtos saíram juntos.
+-- Produtos da mesma categoria entram depois, ordenados por destaque e nota.
+CREATE OR REPLACE FUNCTION public.refresh_product_recommendations(p_limit INTEGER DEFAULT 8)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM product_recommendations WHERE true;
+
+  WITH paid_items AS (
+    SELECT DISTINCT oi.order_id, oi.product_id
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.payment_status = 'paid'
+      AND o.created_at >= now() - interval '12 months'
+      AND oi.product_id IS NOT NULL
+  ),
+  candidates AS (
+    SELECT a.product_id, b.product_id AS recommended_product_id,
+           'co_purchase'::text AS source, COUNT(*)::numeric AS score, 1 AS priority
+    FROM paid_items a
+    JOIN paid_items b ON b.order_id = a.order_id AND b.product_id <> a.product_id
+    GROUP BY a.product_id, b.product_id
+
+    UNION ALL
+
+    SELECT p.id, c.id, 'category'::text, 0, 2
+    FROM products p
+    JOIN products c ON c.category = p.category AND c.id <> p.id
+  ),
+  deduped AS (
+    SELECT DISTINCT ON (product_id, recommended_product_id) *
+    FROM candidates
+    ORDER BY product_id, recommended_product_id, priority
+  ),
+  ranked AS (
+    SELECT d.product_id, d.recommended_product_id, d.source, d.score,
+           ROW_NUMBER() OVER (
+             PARTITION BY d.product_id
+             ORDER BY d.priority, d.score DESC, rp.featured DESC NULLS LAST,
+                      rp.rating DESC NULLS LAST, rp.created_at DESC
+           ) AS rank
+    FROM deduped d
+    JOIN products rp ON rp.id = d.recommended_product_id
+    WHERE rp.in_stock IS DISTINCT FROM false
+  )
+  INSERT INTO product_recommendations (product_id, recommended_product_id, source, score, rank)
+  SELECT product_id, recommended_product_id, source, score, rank
+  FROM ranked
+  WHERE rank <= p_limit;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Fase 3: Permissões (só service role / job agendado)
+REVOKE EXECUTE ON FUNCTION public.refresh_product_recommendations(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Fase 4: Carga inicial
+SELECT public.refresh_product_recommendations();
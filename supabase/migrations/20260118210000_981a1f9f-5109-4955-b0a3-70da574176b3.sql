@@ -0,0 +1,120 @@
+-- =====================================================
+-- FISCAL: NF-e / NFC-e dos pedidos pagos
+-- Quando o pagamento é confirmado, a edge function issue-invoice monta o XML
+-- a partir dos itens, do documento do cliente e do endereço de entrega e
+-- envia para o emissor configurado (NFE_PROVIDER). A nota autorizada guarda
+-- chave de acesso, XML e o PDF do DANFE (bucket privado "invoices").
+-- =====================================================
+
+-- Fase 1: Dados fiscais do produto
+-- NCM (8 dígitos), CFOP de venda dentro do estado (5xxx; fora do estado vira 6xxx)
+-- e origem da mercadoria (0 = nacional, 1/2 = estrangeira)
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS ncm TEXT CHECK (ncm ~ '^[0-9]{8}$'),
+  ADD COLUMN IF NOT EXISTS cfop TEXT CHECK (cfop ~ '^5[0-9]{3}$'),
+  ADD COLUMN IF NOT EXISTS tax_origin SMALLINT NOT NULL DEFAULT 0 CHECK (tax_origin BETWEEN 0 AND 8);
+
+-- Fase 2: Documento do cliente no pedido (CPF ou CNPJ, só dígitos)
+-- Sem documento a nota sai como NFC-e para consumidor não identificado
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS customer_document TEXT CHECK (customer_document ~ '^([0-9]{11}|[0-9]{14})$');
+
+-- Fase 3: Notas fiscais
+CREATE TABLE public.order_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  model TEXT NOT NULL DEFAULT '55' CHECK (model IN ('55', '65')),
+  series INTEGER NOT NULL DEFAULT 1,
+  number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'authorized', 'rejected', 'error', 'cancelled')),
+  provider TEXT,
+  access_key TEXT CHECK (access_key ~ '^[0-9]{44}$'),
+  protocol TEXT,
+  xml TEXT,
+  danfe_path TEXT,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  issued_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (model, series, number)
+);
+
+CREATE INDEX idx_order_invoices_status ON public.order_invoices(status) WHERE status <> 'authorized';
+
+ALTER TABLE public.order_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin Manager view invoices" ON public.order_invoices FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+CREATE POLICY "Users view own invoices" ON public.order_invoices FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM orders o WHERE o.id = order_invoices.order_id AND o.user_id = auth.uid()
+  ));
+
+-- Emissão/atualização só pela edge function (service role)
+
+-- Fase 4: Numeração
+-- Reserva a nota do pedido: cria com o próximo número da série ou reabre uma
+-- tentativa com erro/rejeitada mantendo o mesmo número. Nota autorizada ou em
+-- processamento volta como está (quem chamou decide o que fazer).
+CREATE OR REPLACE FUNCTION public.claim_order_invoice(
+  p_order_id UUID,
+  p_model TEXT,
+  p_series INTEGER
+)
+RETURNS public.order_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice order_invoices;
+  v_number INTEGER;
+BEGIN
+  SELECT * INTO v_invoice FROM order_invoices WHERE order_id = p_order_id FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_invoice.status IN ('error', 'rejected') THEN
+      UPDATE order_invoices
+      SET status = 'processing',
+          attempts = attempts + 1,
+          error_message = NULL,
+          updated_at = now()
+      WHERE id = v_invoice.id
+      RETURNING * INTO v_invoice;
+    END IF;
+    RETURN v_invoice;
+  END IF;
+
+  -- Uma emissão por vez em cada série
+  PERFORM pg_advisory_xact_lock(hashtext('order_invoices_' || p_model || '_' || p_series));
+
+  SELECT COALESCE(MAX(number), 0) + 1 INTO v_number
+  FROM order_invoices
+  WHERE model = p_model AND series = p_series;
+
+  INSERT INTO order_invoices (order_id, model, series, number, status, attempts)
+  VALUES (p_order_id, p_model, p_series, v_number, 'processing', 1)
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- Fase 5: Storage do DANFE (privado): <order_id>/<chave>.pdf
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('invoices', 'invoices', false, 5242880, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admin Manager read invoices"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'invoices'
+  AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role))
+);
+
+-- Fase 6: Permissões
+REVOKE EXECUTE ON FUNCTION public.claim_order_invoice(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
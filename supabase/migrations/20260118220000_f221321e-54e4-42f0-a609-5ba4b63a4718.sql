@@ -0,0 +1,10 @@
+-- =====================================================
+-- CHECKOUT: CPF/CNPJ do cliente
+-- Obrigatório no checkout (validado no front e nas edge functions de checkout),
+-- gravado em orders.customer_document e no perfil para preencher as próximas
+-- compras. Só dígitos; a máscara é aplicada na exibição.
+-- =====================================================
+
+-- Fase 1: Documento no perfil
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS document TEXT CHECK (document ~ '^([0-9]{11}|[0-9]{14})$');
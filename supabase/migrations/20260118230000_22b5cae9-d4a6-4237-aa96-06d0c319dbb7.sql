@@ -0,0 +1,92 @@
+-- =====================================================
+-- PIX: Cobrança Pix na própria página do checkout
+-- A edge function create-pix-charge gera a cobrança no gateway (QR code e
+-- copia-e-cola) e guarda aqui. O checkout acompanha o payment_status do
+-- pedido até o mercadopago-webhook confirmar; cobrança vencida sem pagamento
+-- cancela o pedido e libera o estoque (job release-expired-stock).
+-- =====================================================
+
+-- Fase 1: Cobranças Pix
+CREATE TABLE public.pix_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  gateway TEXT NOT NULL DEFAULT 'mercadopago',
+  gateway_charge_id TEXT NOT NULL,
+  amount NUMERIC(10,2) NOT NULL,
+  qr_code TEXT NOT NULL,
+  qr_code_base64 TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'expired', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (gateway, gateway_charge_id)
+);
+
+-- Uma cobrança ativa por pedido
+CREATE UNIQUE INDEX idx_pix_charges_order_pending ON public.pix_charges(order_id) WHERE status = 'pending';
+CREATE INDEX idx_pix_charges_expires ON public.pix_charges(expires_at) WHERE status = 'pending';
+
+ALTER TABLE public.pix_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin Manager view pix charges" ON public.pix_charges FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+CREATE POLICY "Users view own pix charges" ON public.pix_charges FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM orders o WHERE o.id = pix_charges.order_id AND o.user_id = auth.uid()
+  ));
+
+-- Criação/atualização só pelas edge functions (service role)
+
+-- Fase 2: Expiração
+-- Além das reservas vencidas, cancela pedidos cuja cobrança Pix venceu sem
+-- pagamento (mesmo quando o pedido não tem reserva de estoque)
+CREATE OR REPLACE FUNCTION public.release_expired_stock_reservations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT DISTINCT order_id FROM (
+      SELECT r.order_id
+      FROM stock_reservations r
+      JOIN orders o ON o.id = r.order_id
+      WHERE r.status = 'reserved'
+        AND r.expires_at < now()
+        AND COALESCE(o.payment_status, 'pending') NOT IN ('paid', 'approved')
+      UNION
+      SELECT p.order_id
+      FROM pix_charges p
+      JOIN orders o ON o.id = p.order_id
+      WHERE p.status = 'pending'
+        AND p.expires_at < now()
+        AND COALESCE(o.payment_status, 'pending') NOT IN ('paid', 'approved')
+    ) expired
+  LOOP
+    PERFORM release_order_stock(v_order_id, 'expired');
+
+    UPDATE pix_charges
+    SET status = 'expired', updated_at = now()
+    WHERE order_id = v_order_id AND status = 'pending' AND expires_at < now();
+
+    UPDATE orders
+    SET status = 'cancelled', payment_status = 'expired'
+    WHERE id = v_order_id
+      AND status IN ('pending', 'awaiting_payment');
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Apenas o job agendado (service role) libera reservas vencidas
+REVOKE EXECUTE ON FUNCTION public.release_expired_stock_reservations() FROM PUBLIC, anon, authenticated;
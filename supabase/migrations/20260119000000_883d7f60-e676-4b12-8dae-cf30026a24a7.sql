@@ -0,0 +1,26 @@
+-- =====================================================
+-- PAGAMENTOS: Gateway por forma de pagamento
+-- Stripe, Mercado Pago e PagSeguro implementam a mesma interface
+-- (supabase/functions/_shared/gateways). O admin escolhe em Configurações
+-- qual gateway processa cartão, Pix e boleto; o checkout e o reembolso
+-- seguem orders.payment_gateway.
+-- =====================================================
+
+-- Fase 1: Gateway ativo por forma de pagamento
+ALTER TABLE public.store_settings
+  ADD COLUMN IF NOT EXISTS card_gateway TEXT NOT NULL DEFAULT 'stripe'
+    CHECK (card_gateway IN ('stripe', 'mercadopago', 'pagseguro')),
+  ADD COLUMN IF NOT EXISTS pix_gateway TEXT NOT NULL DEFAULT 'mercadopago'
+    CHECK (pix_gateway IN ('stripe', 'mercadopago', 'pagseguro')),
+  ADD COLUMN IF NOT EXISTS boleto_gateway TEXT NOT NULL DEFAULT 'mercadopago'
+    CHECK (boleto_gateway IN ('stripe', 'mercadopago', 'pagseguro'));
+
+COMMENT ON COLUMN public.store_settings.card_gateway IS 'Gateway do pagamento com cartão: stripe, mercadopago ou pagseguro';
+COMMENT ON COLUMN public.store_settings.pix_gateway IS 'Gateway do Pix (mercadopago mostra o QR code na própria página)';
+COMMENT ON COLUMN public.store_settings.boleto_gateway IS 'Gateway do boleto';
+
+-- Fase 2: Reembolsos pelo PagSeguro
+ALTER TABLE public.order_refunds DROP CONSTRAINT IF EXISTS order_refunds_gateway_check;
+ALTER TABLE public.order_refunds
+  ADD CONSTRAINT order_refunds_gateway_check
+  CHECK (gateway IN ('stripe', 'mercadopago', 'pagseguro', 'manual'));
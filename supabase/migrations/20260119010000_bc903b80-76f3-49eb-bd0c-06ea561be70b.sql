@@ -0,0 +1,32 @@
+-- =====================================================
+-- PAGAMENTOS: Regras de parcelamento no cartão
+-- As faixas de preço, o limite de parcelas, o limite sem juros e a taxa
+-- acima dele ficam em store_settings. create-checkout-session e
+-- create-mercadopago-checkout calculam as parcelas com estas regras
+-- (supabase/functions/_shared/installments.ts) e a loja mostra a mesma
+-- oferta nos produtos e no checkout (src/lib/installments.ts).
+-- =====================================================
+
+-- Fase 1: Configuração do parcelamento
+-- installment_bands: [{ "min_total": 100, "installments": 3 }, ...] — pedidos a partir
+-- de min_total podem ser parcelados em até "installments" vezes
+ALTER TABLE public.store_settings
+  ADD COLUMN IF NOT EXISTS installment_bands JSONB NOT NULL
+    DEFAULT '[{"min_total": 0, "installments": 1}, {"min_total": 100, "installments": 3}, {"min_total": 200, "installments": 6}]'::jsonb,
+  ADD COLUMN IF NOT EXISTS max_installments INTEGER NOT NULL DEFAULT 12
+    CHECK (max_installments BETWEEN 1 AND 12),
+  ADD COLUMN IF NOT EXISTS interest_free_installments INTEGER NOT NULL DEFAULT 6
+    CHECK (interest_free_installments BETWEEN 1 AND 12),
+  ADD COLUMN IF NOT EXISTS installment_interest_rate NUMERIC(5,2) NOT NULL DEFAULT 1.99
+    CHECK (installment_interest_rate >= 0 AND installment_interest_rate < 100);
+
+ALTER TABLE public.store_settings
+  ADD CONSTRAINT store_settings_installment_bands_check CHECK (
+    jsonb_typeof(installment_bands) = 'array'
+    AND jsonb_array_length(installment_bands) BETWEEN 1 AND 10
+  );
+
+COMMENT ON COLUMN public.store_settings.installment_bands IS 'Faixas de parcelamento: valor mínimo do pedido e número máximo de parcelas';
+COMMENT ON COLUMN public.store_settings.max_installments IS 'Limite de parcelas no cartão, qualquer que seja a faixa';
+COMMENT ON COLUMN public.store_settings.interest_free_installments IS 'Parcelas sem juros; acima disso incide installment_interest_rate';
+COMMENT ON COLUMN public.store_settings.installment_interest_rate IS 'Juros ao mês (%) das parcelas acima do limite sem juros';